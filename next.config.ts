@@ -5,7 +5,7 @@ const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
   output: "standalone", // Required for Docker deployment
-  serverExternalPackages: ["node-pptx-parser", "ws", "pg", "pg-pool", "pg-connection-string", "@prisma/adapter-pg"],
+  serverExternalPackages: ["node-pptx-parser", "pdfkit", "ws", "pg", "pg-pool", "pg-connection-string", "@prisma/adapter-pg"],
   webpack: (config, { isServer }) => {
     if (!isServer) {
       config.resolve.fallback = {
@@ -0,0 +1,28 @@
+-- CreateTable BuildingBlockEmbedding
+-- Vector embeddings for semantic skill matching (content + scope per block)
+
+CREATE TABLE "BuildingBlockEmbedding" (
+    "id" TEXT NOT NULL,
+    "blockId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "vector" DOUBLE PRECISION[],
+    "contentHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BuildingBlockEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- Add foreign keys
+ALTER TABLE "BuildingBlockEmbedding" ADD CONSTRAINT "BuildingBlockEmbedding_blockId_fkey"
+    FOREIGN KEY ("blockId") REFERENCES "BuildingBlock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Create indexes
+CREATE UNIQUE INDEX "BuildingBlockEmbedding_blockId_field_model_key"
+    ON "BuildingBlockEmbedding"("blockId", "field", "model");
+
+CREATE INDEX "BuildingBlockEmbedding_model_idx"
+    ON "BuildingBlockEmbedding"("model");
@@ -0,0 +1,35 @@
+-- CreateTable AnswerMemory
+-- Approved/corrected answers indexed for reuse when new RFP questions are uploaded
+
+CREATE TABLE "AnswerMemory" (
+    "id" TEXT NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "projectName" TEXT,
+    "rowNumber" INTEGER,
+    "question" TEXT NOT NULL,
+    "normalizedQuestion" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "customerId" TEXT,
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3) NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "vector" DOUBLE PRECISION[],
+    "reuseCount" INTEGER NOT NULL DEFAULT 0,
+    "lastReusedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AnswerMemory_pkey" PRIMARY KEY ("id")
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX "AnswerMemory_sourceType_sourceId_key"
+    ON "AnswerMemory"("sourceType", "sourceId");
+
+CREATE INDEX "AnswerMemory_customerId_idx"
+    ON "AnswerMemory"("customerId");
+
+CREATE INDEX "AnswerMemory_embeddingModel_idx"
+    ON "AnswerMemory"("embeddingModel");
@@ -0,0 +1,5 @@
+-- AlterTable SourceAssignment add sourceChangedAt field
+-- Set by scheduled source re-sync when incorporated source content changes upstream
+ALTER TABLE "SourceAssignment" ADD COLUMN "sourceChangedAt" TIMESTAMP(3);
+
+CREATE INDEX "SourceAssignment_sourceChangedAt_idx" ON "SourceAssignment"("sourceChangedAt");
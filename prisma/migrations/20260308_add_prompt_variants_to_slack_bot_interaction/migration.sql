@@ -0,0 +1,3 @@
+-- AlterTable SlackBotInteraction add promptVariants field
+-- Records which A/B prompt variants produced the answer, joined against wasHelpful
+ALTER TABLE "SlackBotInteraction" ADD COLUMN "promptVariants" JSONB NOT NULL DEFAULT '{}';
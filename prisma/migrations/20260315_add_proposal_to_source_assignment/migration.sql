@@ -0,0 +1,3 @@
+-- AlterTable SourceAssignment add proposal field
+-- Skill update proposed from Slack bot feedback, reviewed by the skill owner
+ALTER TABLE "SourceAssignment" ADD COLUMN "proposal" JSONB;
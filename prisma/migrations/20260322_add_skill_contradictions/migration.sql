@@ -0,0 +1,45 @@
+-- CreateTable SkillContradiction
+-- Conflicting claims between two skills found by the library-wide contradiction scan
+
+CREATE TABLE "SkillContradiction" (
+    "id" TEXT NOT NULL,
+    "libraryId" TEXT NOT NULL,
+    "skillAId" TEXT NOT NULL,
+    "skillBId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "claimA" TEXT NOT NULL,
+    "claimB" TEXT NOT NULL,
+    "recommendation" TEXT,
+    "fingerprint" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "resolutionNote" TEXT,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SkillContradiction_pkey" PRIMARY KEY ("id")
+);
+
+-- Add foreign keys
+ALTER TABLE "SkillContradiction" ADD CONSTRAINT "SkillContradiction_skillAId_fkey"
+    FOREIGN KEY ("skillAId") REFERENCES "BuildingBlock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "SkillContradiction" ADD CONSTRAINT "SkillContradiction_skillBId_fkey"
+    FOREIGN KEY ("skillBId") REFERENCES "BuildingBlock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Create indexes
+CREATE UNIQUE INDEX "SkillContradiction_fingerprint_key"
+    ON "SkillContradiction"("fingerprint");
+
+CREATE INDEX "SkillContradiction_libraryId_status_idx"
+    ON "SkillContradiction"("libraryId", "status");
+
+CREATE INDEX "SkillContradiction_skillAId_idx"
+    ON "SkillContradiction"("skillAId");
+
+CREATE INDEX "SkillContradiction_skillBId_idx"
+    ON "SkillContradiction"("skillBId");
@@ -0,0 +1,49 @@
+-- Full-text search (see src/lib/v2/search)
+-- Generated tsvector columns, weighted title (A) > summary/question (B) > body (C),
+-- kept up to date by Postgres and indexed with GIN
+
+-- BuildingBlock: title, summary, content
+ALTER TABLE "BuildingBlock" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("summary", '')), 'B') ||
+        setweight(to_tsvector('english', coalesce("content", '')), 'C')
+    ) STORED;
+
+-- StagedSource: title, content
+ALTER TABLE "StagedSource" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("content", '')), 'C')
+    ) STORED;
+
+-- BulkRow: question and final answer (user edit wins over generated response)
+ALTER TABLE "BulkRow" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("inputData"->>'question', '')), 'B') ||
+        setweight(to_tsvector('english', coalesce("userEditedAnswer", "outputData"->>'response', '')), 'C')
+    ) STORED;
+
+-- V2QuestionHistory: question and final answer
+ALTER TABLE "V2QuestionHistory" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("question", '')), 'B') ||
+        setweight(to_tsvector('english', coalesce("userEditedAnswer", "outputData"->>'response', '')), 'C')
+    ) STORED;
+
+-- ChatMessage: content
+ALTER TABLE "ChatMessage" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('english', coalesce("content", ''))
+    ) STORED;
+
+-- Create indexes
+CREATE INDEX "BuildingBlock_searchVector_idx" ON "BuildingBlock" USING GIN ("searchVector");
+
+CREATE INDEX "StagedSource_searchVector_idx" ON "StagedSource" USING GIN ("searchVector");
+
+CREATE INDEX "BulkRow_searchVector_idx" ON "BulkRow" USING GIN ("searchVector");
+
+CREATE INDEX "V2QuestionHistory_searchVector_idx" ON "V2QuestionHistory" USING GIN ("searchVector");
+
+CREATE INDEX "ChatMessage_searchVector_idx" ON "ChatMessage" USING GIN ("searchVector");
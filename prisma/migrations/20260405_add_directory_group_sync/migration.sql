@@ -0,0 +1,60 @@
+-- Directory group sync: Okta groups / SCIM provisioning -> team membership
+
+-- AlterTable User
+ALTER TABLE "User" ADD COLUMN "active" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "User" ADD COLUMN "scimExternalId" TEXT;
+
+CREATE UNIQUE INDEX "User_scimExternalId_key" ON "User"("scimExternalId");
+
+-- AlterTable TeamMembership
+ALTER TABLE "TeamMembership" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'manual';
+
+-- CreateTable DirectoryGroup
+CREATE TABLE "DirectoryGroup" (
+    "id" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "externalId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DirectoryGroup_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "DirectoryGroup_displayName_key" ON "DirectoryGroup"("displayName");
+
+-- CreateTable DirectoryGroupMember
+CREATE TABLE "DirectoryGroupMember" (
+    "groupId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DirectoryGroupMember_pkey" PRIMARY KEY ("groupId", "userId")
+);
+
+ALTER TABLE "DirectoryGroupMember" ADD CONSTRAINT "DirectoryGroupMember_groupId_fkey"
+    FOREIGN KEY ("groupId") REFERENCES "DirectoryGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "DirectoryGroupMember" ADD CONSTRAINT "DirectoryGroupMember_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "DirectoryGroupMember_userId_idx" ON "DirectoryGroupMember"("userId");
+
+-- CreateTable GroupTeamMapping
+CREATE TABLE "GroupTeamMapping" (
+    "id" TEXT NOT NULL,
+    "groupName" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GroupTeamMapping_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "GroupTeamMapping" ADD CONSTRAINT "GroupTeamMapping_teamId_fkey"
+    FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "GroupTeamMapping_groupName_teamId_key" ON "GroupTeamMapping"("groupName", "teamId");
+
+CREATE INDEX "GroupTeamMapping_groupName_idx" ON "GroupTeamMapping"("groupName");
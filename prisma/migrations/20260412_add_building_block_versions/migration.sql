@@ -0,0 +1,52 @@
+-- Skill version history and RFP project skill pins
+
+-- CreateTable BuildingBlockVersion
+CREATE TABLE "BuildingBlockVersion" (
+    "id" TEXT NOT NULL,
+    "blockId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "summary" TEXT,
+    "categories" TEXT[],
+    "attributes" JSONB NOT NULL DEFAULT '{}',
+    "status" TEXT NOT NULL,
+    "changeType" TEXT NOT NULL,
+    "changeNote" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BuildingBlockVersion_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "BuildingBlockVersion" ADD CONSTRAINT "BuildingBlockVersion_blockId_fkey"
+    FOREIGN KEY ("blockId") REFERENCES "BuildingBlock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "BuildingBlockVersion_blockId_version_key" ON "BuildingBlockVersion"("blockId", "version");
+CREATE INDEX "BuildingBlockVersion_blockId_createdAt_idx" ON "BuildingBlockVersion"("blockId", "createdAt");
+
+-- Backfill: the current state of every block becomes its baseline snapshot
+INSERT INTO "BuildingBlockVersion" ("id", "blockId", "version", "title", "content", "summary", "categories", "attributes", "status", "changeType", "createdAt")
+SELECT 'bbv_' || "id" || '_' || "version", "id", "version", "title", "content", "summary", "categories", "attributes", "status", 'baseline', "updatedAt"
+FROM "BuildingBlock";
+
+-- CreateTable ProjectSkillPin
+CREATE TABLE "ProjectSkillPin" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "blockId" TEXT NOT NULL,
+    "blockVersionId" TEXT NOT NULL,
+    "pinnedBy" TEXT,
+    "pinnedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectSkillPin_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "ProjectSkillPin" ADD CONSTRAINT "ProjectSkillPin_projectId_fkey"
+    FOREIGN KEY ("projectId") REFERENCES "BulkProject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProjectSkillPin" ADD CONSTRAINT "ProjectSkillPin_blockVersionId_fkey"
+    FOREIGN KEY ("blockVersionId") REFERENCES "BuildingBlockVersion"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "ProjectSkillPin_projectId_blockId_key" ON "ProjectSkillPin"("projectId", "blockId");
+CREATE INDEX "ProjectSkillPin_blockVersionId_idx" ON "ProjectSkillPin"("blockVersionId");
@@ -0,0 +1,56 @@
+-- Pull-request based review and three-way conflicts for block git sync
+
+-- CreateTable GitPullRequest
+CREATE TABLE "GitPullRequest" (
+    "id" TEXT NOT NULL,
+    "libraryId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "branch" TEXT NOT NULL,
+    "baseBranch" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "blockIds" TEXT[],
+    "blockVersions" JSONB NOT NULL DEFAULT '{}',
+    "mergeCommitSha" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "GitPullRequest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "GitPullRequest_libraryId_provider_externalId_key" ON "GitPullRequest"("libraryId", "provider", "externalId");
+CREATE INDEX "GitPullRequest_status_idx" ON "GitPullRequest"("status");
+CREATE INDEX "GitPullRequest_blockIds_idx" ON "GitPullRequest" USING GIN ("blockIds");
+
+-- CreateTable BlockGitConflict
+CREATE TABLE "BlockGitConflict" (
+    "id" TEXT NOT NULL,
+    "blockId" TEXT NOT NULL,
+    "gitPath" TEXT NOT NULL,
+    "baseCommitSha" TEXT,
+    "remoteCommitSha" TEXT,
+    "baseTitle" TEXT NOT NULL,
+    "baseContent" TEXT NOT NULL,
+    "localTitle" TEXT NOT NULL,
+    "localContent" TEXT NOT NULL,
+    "localVersion" INTEGER NOT NULL,
+    "remoteTitle" TEXT NOT NULL,
+    "remoteContent" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "resolution" TEXT,
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BlockGitConflict_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "BlockGitConflict" ADD CONSTRAINT "BlockGitConflict_blockId_fkey"
+    FOREIGN KEY ("blockId") REFERENCES "BuildingBlock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "BlockGitConflict_blockId_status_idx" ON "BlockGitConflict"("blockId", "status");
@@ -0,0 +1,19 @@
+-- Scope shared answer memory to the library it was approved in
+
+-- AlterTable AnswerMemory
+ALTER TABLE "AnswerMemory" ADD COLUMN "libraryId" TEXT;
+
+-- Backfill from the source project's config, or the question's library
+UPDATE "AnswerMemory" m
+SET "libraryId" = COALESCE(NULLIF(p."config"->>'libraryId', ''), 'knowledge')
+FROM "BulkProject" p
+WHERE m."sourceType" = 'project_row' AND m."projectId" = p."id";
+
+UPDATE "AnswerMemory" m
+SET "libraryId" = q."library"
+FROM "V2QuestionHistory" q
+WHERE m."sourceType" = 'question' AND m."sourceId" = q."id";
+
+-- Create index
+CREATE INDEX "AnswerMemory_libraryId_idx"
+    ON "AnswerMemory"("libraryId");
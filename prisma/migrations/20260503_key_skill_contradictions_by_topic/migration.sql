@@ -0,0 +1,32 @@
+-- Key skill contradictions by pair + normalized topic instead of the quoted claims,
+-- which the LLM rewords between scans (dismissed conflicts kept coming back)
+
+-- Keep one row per pair and topic: dismissed first, then open, then most recently seen
+WITH keyed AS (
+    SELECT "id",
+           encode(sha256(convert_to(
+               "skillAId" || E'\n' || "skillBId" || E'\n' ||
+               btrim(regexp_replace(lower("topic"), '[^a-z0-9]+', ' ', 'g')),
+               'UTF8')), 'hex') AS "newFingerprint",
+           "status",
+           "lastSeenAt"
+    FROM "SkillContradiction"
+),
+ranked AS (
+    SELECT "id",
+           ROW_NUMBER() OVER (
+               PARTITION BY "newFingerprint"
+               ORDER BY CASE "status" WHEN 'dismissed' THEN 0 WHEN 'open' THEN 1 ELSE 2 END,
+                        "lastSeenAt" DESC
+           ) AS "rank"
+    FROM keyed
+)
+DELETE FROM "SkillContradiction"
+WHERE "id" IN (SELECT "id" FROM ranked WHERE "rank" > 1);
+
+-- Recompute fingerprints (skillAId is always the lower id)
+UPDATE "SkillContradiction"
+SET "fingerprint" = encode(sha256(convert_to(
+    "skillAId" || E'\n' || "skillBId" || E'\n' ||
+    btrim(regexp_replace(lower("topic"), '[^a-z0-9]+', ' ', 'g')),
+    'UTF8')), 'hex');
@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+
+/**
+ * Backfill AnswerMemory from existing approved/corrected answers
+ *
+ * Indexes every BulkRow and V2QuestionHistory entry that was approved,
+ * corrected or edited by a reviewer, so new RFP uploads can reuse them.
+ * New approvals are indexed automatically; run this once after deploying
+ * answer memory, or after switching embedding providers.
+ *
+ * Safe to run multiple times - entries are upserted per source row.
+ *
+ * Usage: npx tsx scripts/backfill-answer-memory.ts
+ */
+
+import { prisma } from "../src/lib/prisma";
+import { backfillAnswerMemory } from "../src/lib/v2/answer-memory";
+
+async function main() {
+  console.log("Backfilling answer memory...");
+  const { indexed, skipped, failed } = await backfillAnswerMemory();
+
+  console.log(`Indexed: ${indexed}`);
+  console.log(`Skipped (no approved answer): ${skipped}`);
+  if (failed.length > 0) {
+    console.log(`Failed: ${failed.length}`);
+    failed.forEach((id) => console.log(`  - ${id}`));
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,57 @@
+/**
+ * Admin Prompts API - Promote A/B Winner
+ *
+ * POST /api/admin/prompts/[slug]/experiment/promote - Promote a variant to base content
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/apiAuth';
+import { apiSuccess, errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { promoteVariant } from '@/lib/prompts/prompt-experiments';
+
+type RouteParams = {
+  params: Promise<{ slug: string }>;
+};
+
+/**
+ * POST /api/admin/prompts/[slug]/experiment/promote
+ * Make a variant the prompt's content (new version) and complete the experiment
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth();
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { slug } = await params;
+    const body = await request.json();
+    const { variantId } = body as { variantId: string };
+
+    if (!variantId) {
+      return errors.badRequest('variantId is required');
+    }
+
+    const userId = auth.session?.user?.id || auth.session?.user?.email || 'unknown';
+
+    const prompt = await promoteVariant(slug, variantId, userId);
+
+    return apiSuccess({
+      message: `Promoted variant: ${variantId}`,
+      prompt,
+    });
+  } catch (error) {
+    const { slug } = await params;
+    logger.error('Failed to promote prompt variant', error, {
+      route: '/api/admin/prompts/[slug]/experiment/promote',
+      slug,
+    });
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return errors.notFound(error.message);
+    }
+
+    return errors.internal('Failed to promote prompt variant');
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Admin Prompts API - A/B Experiment
+ *
+ * GET /api/admin/prompts/[slug]/experiment - Per-variant outcome metrics
+ * PUT /api/admin/prompts/[slug]/experiment - Configure variants, weights and status
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/apiAuth';
+import { apiSuccess, errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { getPromptBySlug } from '@/lib/prompts/prompt-service';
+import { configureExperiment, getExperimentResults } from '@/lib/prompts/prompt-experiments';
+
+type RouteParams = {
+  params: Promise<{ slug: string }>;
+};
+
+const experimentSchema = z.object({
+  variants: z.array(
+    z.object({
+      id: z.string().min(1).max(50),
+      content: z.string().min(1),
+      weight: z.number().min(0),
+    })
+  ),
+  controlWeight: z.number().min(0).default(1),
+  status: z.enum(['running', 'paused', 'completed']),
+});
+
+/**
+ * GET /api/admin/prompts/[slug]/experiment
+ * Answers, ratings and win rate per variant (control first)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth();
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { slug } = await params;
+    const prompt = await getPromptBySlug(slug);
+    if (!prompt) {
+      return errors.notFound(`Prompt not found: ${slug}`);
+    }
+
+    return apiSuccess(await getExperimentResults(slug));
+  } catch (error) {
+    const { slug } = await params;
+    logger.error('Failed to fetch prompt experiment', error, {
+      route: '/api/admin/prompts/[slug]/experiment',
+      slug,
+    });
+    return errors.internal('Failed to fetch prompt experiment');
+  }
+}
+
+/**
+ * PUT /api/admin/prompts/[slug]/experiment
+ * Start, pause or edit an experiment (creates override if built-in)
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth();
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  try {
+    const { slug } = await params;
+    const parsed = experimentSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errors.badRequest(parsed.error.issues[0]?.message || 'Invalid experiment');
+    }
+
+    const prompt = await getPromptBySlug(slug);
+    if (!prompt) {
+      return errors.notFound(`Prompt not found: ${slug}`);
+    }
+
+    const userId = auth.session?.user?.id || auth.session?.user?.email || 'unknown';
+
+    const results = await configureExperiment(slug, { ...parsed.data, userId });
+
+    return apiSuccess(results);
+  } catch (error) {
+    const { slug } = await params;
+    logger.error('Failed to configure prompt experiment', error, {
+      route: '/api/admin/prompts/[slug]/experiment',
+      slug,
+    });
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return errors.notFound(error.message);
+    }
+    if (error instanceof Error && /reserved|unique|at least one/.test(error.message)) {
+      return errors.badRequest(error.message);
+    }
+
+    return errors.internal('Failed to configure prompt experiment');
+  }
+}
@@ -123,7 +123,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     if (action === 'reset') {
       // Reset built-in prompt to default
-      const success = await resetToDefault(slug);
+      const success = await resetToDefault(slug, auth.session.user.id);
       if (!success) {
         return errors.badRequest('Nothing to reset - prompt has no override');
       }
@@ -136,7 +136,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
         );
       }
 
-      const success = await deletePrompt(prompt.id);
+      const success = await deletePrompt(prompt.id, auth.session.user.id);
       if (!success) {
         return errors.notFound('Prompt not found or already deleted');
       }
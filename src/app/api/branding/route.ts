@@ -1,15 +1,11 @@
 import { NextResponse } from "next/server";
+import { defaultBranding } from "@/lib/brandingDefaults";
 
 export async function GET() {
   return NextResponse.json({
     success: true,
     data: {
-      branding: {
-        appName: "Transparent Trust",
-        tagline: "Turn your knowledge into trustworthy answers. An LLM-powered assistant telling you not just the answer, but why.",
-        sidebarSubtitle: "Transparent LLM Assistant",
-        primaryColor: "#0ea5e9",
-      },
+      branding: defaultBranding,
     },
   });
 }
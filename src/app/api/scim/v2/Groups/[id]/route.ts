@@ -0,0 +1,57 @@
+/**
+ * SCIM 2.0 Group
+ *
+ * GET /api/scim/v2/Groups/[id] - Get a group
+ * PUT /api/scim/v2/Groups/[id] - Replace name and members
+ * PATCH /api/scim/v2/Groups/[id] - Add/remove members or rename
+ * DELETE /api/scim/v2/Groups/[id] - Delete a group
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteScimGroup,
+  getScimGroup,
+  handleScimRequest,
+  patchScimGroup,
+  readScimBody,
+  replaceScimGroup,
+  scimResponse,
+  type ScimGroupInput,
+  type ScimPatchOperation,
+} from '@/lib/v2/scim';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return handleScimRequest(request, async ({ baseUrl }) => {
+    const { id } = await context.params;
+    const excludeMembers = new URL(request.url).searchParams.get('excludedAttributes') === 'members';
+    return scimResponse(await getScimGroup(id, baseUrl, excludeMembers));
+  });
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  return handleScimRequest(request, async ({ baseUrl, actorId }) => {
+    const { id } = await context.params;
+    const body = await readScimBody<ScimGroupInput>(request);
+    return scimResponse(await replaceScimGroup(id, body, baseUrl, actorId));
+  });
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  return handleScimRequest(request, async ({ baseUrl, actorId }) => {
+    const { id } = await context.params;
+    const body = await readScimBody<{ Operations?: ScimPatchOperation[] }>(request);
+    return scimResponse(await patchScimGroup(id, body.Operations ?? [], baseUrl, actorId));
+  });
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  return handleScimRequest(request, async ({ actorId }) => {
+    const { id } = await context.params;
+    await deleteScimGroup(id, actorId);
+    return new NextResponse(null, { status: 204 });
+  });
+}
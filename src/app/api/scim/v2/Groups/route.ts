@@ -0,0 +1,34 @@
+/**
+ * SCIM 2.0 Groups
+ *
+ * GET /api/scim/v2/Groups - List groups (filter: displayName eq "..." | externalId eq "...")
+ * POST /api/scim/v2/Groups - Push a group and its members
+ *
+ * Group membership is applied to teams through the group mappings
+ * configured under Admin > Settings > Group Mappings.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createScimGroup,
+  getScimListParams,
+  handleScimRequest,
+  listScimGroups,
+  readScimBody,
+  scimResponse,
+  type ScimGroupInput,
+} from '@/lib/v2/scim';
+
+export async function GET(request: NextRequest) {
+  return handleScimRequest(request, async ({ baseUrl }) => {
+    const excludeMembers = new URL(request.url).searchParams.get('excludedAttributes') === 'members';
+    return scimResponse(await listScimGroups({ ...getScimListParams(request), excludeMembers }, baseUrl));
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return handleScimRequest(request, async ({ baseUrl, actorId }) => {
+    const body = await readScimBody<ScimGroupInput>(request);
+    return scimResponse(await createScimGroup(body, baseUrl, actorId), 201);
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * GET /api/scim/v2/ServiceProviderConfig - SCIM capabilities of this server
+ */
+
+import { NextRequest } from 'next/server';
+import { getServiceProviderConfig, handleScimRequest, scimResponse } from '@/lib/v2/scim';
+
+export async function GET(request: NextRequest) {
+  return handleScimRequest(request, async ({ baseUrl }) => scimResponse(getServiceProviderConfig(baseUrl)));
+}
@@ -0,0 +1,56 @@
+/**
+ * SCIM 2.0 User
+ *
+ * GET /api/scim/v2/Users/[id] - Get a user
+ * PUT /api/scim/v2/Users/[id] - Replace a user
+ * PATCH /api/scim/v2/Users/[id] - Update attributes (e.g. active=false to deprovision)
+ * DELETE /api/scim/v2/Users/[id] - Deprovision a user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteScimUser,
+  getScimUser,
+  handleScimRequest,
+  patchScimUser,
+  readScimBody,
+  replaceScimUser,
+  scimResponse,
+  type ScimPatchOperation,
+  type ScimUserInput,
+} from '@/lib/v2/scim';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return handleScimRequest(request, async ({ baseUrl }) => {
+    const { id } = await context.params;
+    return scimResponse(await getScimUser(id, baseUrl));
+  });
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  return handleScimRequest(request, async ({ baseUrl, actorId }) => {
+    const { id } = await context.params;
+    const body = await readScimBody<ScimUserInput>(request);
+    return scimResponse(await replaceScimUser(id, body, baseUrl, actorId));
+  });
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  return handleScimRequest(request, async ({ baseUrl, actorId }) => {
+    const { id } = await context.params;
+    const body = await readScimBody<{ Operations?: ScimPatchOperation[] }>(request);
+    return scimResponse(await patchScimUser(id, body.Operations ?? [], baseUrl, actorId));
+  });
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  return handleScimRequest(request, async ({ actorId }) => {
+    const { id } = await context.params;
+    await deleteScimUser(id, actorId);
+    return new NextResponse(null, { status: 204 });
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * SCIM 2.0 Users
+ *
+ * GET /api/scim/v2/Users - List users (filter: userName eq "..." | externalId eq "...")
+ * POST /api/scim/v2/Users - Provision a user
+ *
+ * Authenticated with an API key carrying the `scim` scope.
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createScimUser,
+  getScimListParams,
+  handleScimRequest,
+  listScimUsers,
+  readScimBody,
+  scimResponse,
+  type ScimUserInput,
+} from '@/lib/v2/scim';
+
+export async function GET(request: NextRequest) {
+  return handleScimRequest(request, async ({ baseUrl }) =>
+    scimResponse(await listScimUsers(getScimListParams(request), baseUrl))
+  );
+}
+
+export async function POST(request: NextRequest) {
+  return handleScimRequest(request, async ({ baseUrl, actorId }) => {
+    const body = await readScimBody<ScimUserInput>(request);
+    return scimResponse(await createScimUser(body, baseUrl, actorId), 201);
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * DELETE /api/v2/api-keys/[id] - Revoke an API key (admin only)
+ */
+
+import { NextRequest } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions, isUserAdmin, type SessionUser } from "@/lib/auth-v2";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { getApiKeyById, revokeApiKey } from "@/lib/v2/api-keys";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized("Authentication required");
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden("Admin access required");
+  }
+
+  const { id } = await params;
+
+  try {
+    const existing = await getApiKeyById(id);
+    if (!existing) {
+      return errors.notFound("API key not found");
+    }
+    if (existing.status === "REVOKED") {
+      return errors.conflict("API key is already revoked");
+    }
+
+    const apiKey = await revokeApiKey(id, session.user.id);
+    return apiSuccess({ success: true, data: { apiKey } });
+  } catch (error) {
+    logger.error("Revoke API key error", error, { route: "/api/v2/api-keys/[id]", apiKeyId: id });
+    return errors.internal("Failed to revoke API key");
+  }
+}
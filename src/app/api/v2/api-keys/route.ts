@@ -0,0 +1,89 @@
+/**
+ * V2 API Keys Route
+ *
+ * GET /api/v2/api-keys - List issued API keys (admin only)
+ * POST /api/v2/api-keys - Issue a new API key (admin only)
+ *
+ * The plaintext key is only returned in the POST response.
+ */
+
+import { NextRequest } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions, isUserAdmin, type SessionUser } from "@/lib/auth-v2";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import { API_KEY_SCOPES, createApiKey, listApiKeys } from "@/lib/v2/api-keys";
+import { isMember } from "@/lib/v2/teams";
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  teamId: z.string().optional(),
+  rateLimit: z.number().int().min(1).max(10000).optional(),
+  expiresAt: z.string().datetime().optional(),
+});
+
+// GET /api/v2/api-keys
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized("Authentication required");
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden("Admin access required");
+  }
+
+  try {
+    const apiKeys = await listApiKeys();
+    return apiSuccess({ success: true, data: { apiKeys } });
+  } catch (error) {
+    logger.error("List API keys error", error, { route: "/api/v2/api-keys" });
+    return errors.internal("Failed to list API keys");
+  }
+}
+
+// POST /api/v2/api-keys
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized("Authentication required");
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden("Admin access required");
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = createApiKeySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errors.badRequest(parsed.error.issues[0]?.message || "Invalid request");
+    }
+
+    const { name, scopes, teamId, rateLimit, expiresAt } = parsed.data;
+
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+      return errors.badRequest("expiresAt must be in the future");
+    }
+
+    // Keys act on behalf of the issuing user, so they may only be bound to that user's teams
+    if (teamId && !(await isMember(teamId, session.user.id))) {
+      return errors.forbidden("You are not a member of this team");
+    }
+
+    const { apiKey, plaintextKey } = await createApiKey({
+      name,
+      scopes,
+      teamId,
+      rateLimit,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      userId: session.user.id,
+    });
+
+    return apiSuccess({ success: true, data: { apiKey, key: plaintextKey } }, 201);
+  } catch (error) {
+    logger.error("Create API key error", error, { route: "/api/v2/api-keys" });
+    return errors.internal("Failed to create API key");
+  }
+}
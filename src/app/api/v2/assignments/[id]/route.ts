@@ -9,6 +9,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-v2';
 import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -43,6 +44,14 @@ export async function DELETE(
       where: { id },
     });
 
+    await recordAuditEvent({
+      eventType: 'source.unassigned',
+      actorId: session.user.id,
+      targetType: 'assignment',
+      targetId: id,
+      data: { stagedSourceId: assignment.stagedSourceId, blockId: assignment.blockId },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Assignment deletion error:', error);
@@ -96,6 +105,15 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent({
+      eventType: incorporatedAt ? 'source.incorporated' : 'source.unincorporated',
+      actorId: session.user.id,
+      targetType: 'assignment',
+      targetId: id,
+      teamId: updated.block.teamId,
+      data: { stagedSourceId: updated.stagedSourceId, blockId: updated.blockId, blockTitle: updated.block.title },
+    });
+
     return NextResponse.json(updated);
   } catch (error) {
     console.error('Assignment update error:', error);
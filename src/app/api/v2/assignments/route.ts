@@ -11,6 +11,7 @@ import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath } from 'next/cache';
 import { logger } from '@/lib/logger';
+import { recordAuditEvents, type AuditEvent } from '@/lib/v2/audit-log';
 
 export async function POST(request: NextRequest) {
   try {
@@ -141,6 +142,17 @@ export async function POST(request: NextRequest) {
       )
     );
 
+    await recordAuditEvents(
+      assignments.map((assignment): AuditEvent => ({
+        eventType: 'source.assigned',
+        actorId: session.user.id,
+        targetType: 'assignment',
+        targetId: assignment.id,
+        teamId: block.teamId,
+        data: { stagedSourceId: assignment.stagedSourceId, blockId, blockTitle: block.title },
+      }))
+    );
+
     // Revalidate the skill detail page to reflect source assignment changes
     // This ensures pending sources are removed and sourceAssignments are updated
     if (block.slug) {
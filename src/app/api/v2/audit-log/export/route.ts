@@ -0,0 +1,68 @@
+/**
+ * GET /api/v2/audit-log/export - Download audit events as CSV or JSON Lines (admin only)
+ *
+ * Accepts the same filters as GET /api/v2/audit-log plus format=csv|jsonl.
+ * Every matching event is streamed (no pagination); the export itself is
+ * recorded as an audit_log.exported event.
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, isUserAdmin, type SessionUser } from '@/lib/auth-v2';
+import { errors } from '@/lib/apiResponse';
+import {
+  createAuditLogExportStream,
+  parseAuditLogQuery,
+  recordAuditEvent,
+  type AuditLogExportFormat,
+} from '@/lib/v2/audit-log';
+
+const CONTENT_TYPES: Record<AuditLogExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized('Authentication required');
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden('Admin access required');
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') || 'csv';
+  if (format !== 'csv' && format !== 'jsonl') {
+    return errors.badRequest('format must be csv or jsonl');
+  }
+
+  const parsed = parseAuditLogQuery(searchParams);
+  if (!parsed.success) {
+    return errors.badRequest(parsed.error);
+  }
+
+  const { filters } = parsed.data;
+  await recordAuditEvent({
+    eventType: 'audit_log.exported',
+    actorId: session.user.id,
+    targetType: 'audit_log',
+    data: {
+      format,
+      filters: {
+        ...filters,
+        from: filters.from?.toISOString(),
+        to: filters.to?.toISOString(),
+      },
+    },
+  });
+
+  const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new Response(createAuditLogExportStream(filters, format), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /api/v2/audit-log - System-wide audit events (admin only)
+ *
+ * Query params:
+ * - eventType: exact type or prefix ("team." / "team.*")
+ * - actorId, actorType, targetType, targetId, teamId
+ * - from, to: ISO dates (inclusive)
+ * - page, limit (max 200)
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, isUserAdmin, type SessionUser } from '@/lib/auth-v2';
+import { apiSuccess, errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { parseAuditLogQuery, queryAuditLog } from '@/lib/v2/audit-log';
+
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized('Authentication required');
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden('Admin access required');
+  }
+
+  const parsed = parseAuditLogQuery(new URL(request.url).searchParams);
+  if (!parsed.success) {
+    return errors.badRequest(parsed.error);
+  }
+
+  try {
+    const { filters, page, limit } = parsed.data;
+    const result = await queryAuditLog(filters, { page, limit });
+    return apiSuccess({ success: true, data: result });
+  } catch (error) {
+    logger.error('Failed to query audit log', error, { route: '/api/v2/audit-log' });
+    return errors.internal('Failed to load audit log');
+  }
+}
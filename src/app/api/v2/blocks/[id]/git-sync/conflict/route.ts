@@ -0,0 +1,90 @@
+/**
+ * POST /api/v2/blocks/[id]/git-sync/conflict - Resolve a block's git conflict
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getBlockById } from '@/lib/v2/blocks';
+import { GitSyncError, resolveGitConflict } from '@/lib/v2/git-sync';
+import { canManageLibrary } from '@/lib/v2/teams';
+import { canManageCustomer } from '@/lib/v2/customers/customer-service';
+import { logger } from '@/lib/logger';
+import type { LibraryId } from '@/types/v2';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const resolveSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  content: z.string(),
+  /** Block version the resolver was loaded with */
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+/**
+ * POST /api/v2/blocks/[id]/git-sync/conflict
+ * Saves the merged title and content; 409 if the block changed meanwhile.
+ */
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+
+  try {
+    const auth = await requireApiAuth(request, 'write:blocks');
+    if (!auth.authorized) {
+      return auth.response;
+    }
+    const session = auth.session;
+
+    const existing = await getBlockById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Block not found' }, { status: 404 });
+    }
+
+    const hasAccess = await canManageLibrary(session.user.id, existing.libraryId as LibraryId);
+    if (!hasAccess) {
+      logger.warn('Library management access denied', {
+        userId: session.user.id,
+        blockId: id,
+        libraryId: existing.libraryId,
+        route: 'POST /api/v2/blocks/[id]/git-sync/conflict',
+      });
+      return NextResponse.json(
+        { error: 'You do not have access to this block' },
+        { status: 403 }
+      );
+    }
+
+    if (existing.customerId && !(await canManageCustomer(session.user.id, existing.customerId))) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage this customer' },
+        { status: 403 }
+      );
+    }
+
+    const parsed = resolveSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+
+    const block = await resolveGitConflict(id, parsed.data, session.user.id);
+
+    return NextResponse.json(block);
+  } catch (error) {
+    if (error instanceof GitSyncError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error resolving git conflict', error, {
+      blockId: id,
+      route: 'POST /api/v2/blocks/[id]/git-sync/conflict',
+    });
+    return NextResponse.json(
+      { error: 'Failed to resolve git conflict' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * GET /api/v2/blocks/[id]/git-sync - Git sync status, open pull request and conflict
+ * POST /api/v2/blocks/[id]/git-sync - Push the block to git (or open a pull request)
+ */
+
+import { NextResponse } from 'next/server';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getBlockById } from '@/lib/v2/blocks';
+import {
+  GitSyncError,
+  getOpenGitConflict,
+  getOpenPullRequestForBlock,
+  isReviewedLibrary,
+  syncBlockToGit,
+} from '@/lib/v2/git-sync';
+import { getGitProviderType } from '@/lib/git-providers';
+import { canAccessLibrary, canManageLibrary } from '@/lib/v2/teams';
+import { canAccessCustomer, canManageCustomer } from '@/lib/v2/customers/customer-service';
+import { logger } from '@/lib/logger';
+import type { LibraryId } from '@/types/v2';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/v2/blocks/[id]/git-sync
+ * The conflict's database side is the block as it is now.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+
+  try {
+    const auth = await requireApiAuth(request, 'read:blocks');
+    if (!auth.authorized) {
+      return auth.response;
+    }
+    const session = auth.session;
+
+    const block = await getBlockById(id);
+    if (!block) {
+      return NextResponse.json({ error: 'Block not found' }, { status: 404 });
+    }
+
+    const hasAccess = await canAccessLibrary(session.user.id, block.libraryId as LibraryId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'You do not have access to this block' },
+        { status: 403 }
+      );
+    }
+
+    if (block.customerId && !(await canAccessCustomer(session.user.id, block.customerId))) {
+      return NextResponse.json(
+        { error: 'You do not have access to this customer' },
+        { status: 403 }
+      );
+    }
+
+    const [pullRequest, conflict] = await Promise.all([
+      getOpenPullRequestForBlock(id),
+      getOpenGitConflict(id),
+    ]);
+
+    return NextResponse.json({
+      provider: getGitProviderType(block.libraryId),
+      reviewMode: isReviewedLibrary(block.libraryId as LibraryId),
+      syncStatus: block.syncStatus,
+      gitPath: block.gitPath,
+      gitCommitSha: block.gitCommitSha,
+      lastSyncedAt: block.lastSyncedAt,
+      pullRequest,
+      conflict: conflict && {
+        ...conflict,
+        localTitle: block.title,
+        localContent: block.content,
+        localVersion: block.version,
+      },
+    });
+  } catch (error) {
+    logger.error('Error getting block git sync status', error, {
+      blockId: id,
+      route: 'GET /api/v2/blocks/[id]/git-sync',
+    });
+    return NextResponse.json(
+      { error: 'Failed to get git sync status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v2/blocks/[id]/git-sync
+ * Changes made to the file in git are merged in first; 409 when they conflict.
+ */
+export async function POST(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+
+  try {
+    const auth = await requireApiAuth(request, 'write:blocks');
+    if (!auth.authorized) {
+      return auth.response;
+    }
+    const session = auth.session;
+
+    const block = await getBlockById(id);
+    if (!block) {
+      return NextResponse.json({ error: 'Block not found' }, { status: 404 });
+    }
+
+    const hasAccess = await canManageLibrary(session.user.id, block.libraryId as LibraryId);
+    if (!hasAccess) {
+      logger.warn('Library management access denied', {
+        userId: session.user.id,
+        blockId: id,
+        libraryId: block.libraryId,
+        route: 'POST /api/v2/blocks/[id]/git-sync',
+      });
+      return NextResponse.json(
+        { error: 'You do not have access to this block' },
+        { status: 403 }
+      );
+    }
+
+    if (block.customerId && !(await canManageCustomer(session.user.id, block.customerId))) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage this customer' },
+        { status: 403 }
+      );
+    }
+
+    if (getGitProviderType(block.libraryId) === 'noop') {
+      return NextResponse.json({ error: 'Git sync is disabled' }, { status: 400 });
+    }
+
+    if (block.syncStatus === 'CONFLICT') {
+      return NextResponse.json(
+        { error: 'Resolve the git conflict before syncing' },
+        { status: 409 }
+      );
+    }
+
+    const result = await syncBlockToGit(id, {
+      author: session.user.email
+        ? { name: session.user.name || session.user.email, email: session.user.email }
+        : undefined,
+      actorId: session.user.id,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof GitSyncError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error('Error syncing block to git', error, {
+      blockId: id,
+      route: 'POST /api/v2/blocks/[id]/git-sync',
+    });
+    return NextResponse.json(
+      { error: 'Failed to sync block to git' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,8 +5,7 @@
  */
 
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth-v2';
+import { requireApiAuth } from '@/lib/apiAuth';
 import {
   getBlockById,
   updateBlock,
@@ -32,10 +31,11 @@ export async function GET(request: Request, context: RouteContext) {
   const { id } = await context.params;
 
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await requireApiAuth(request, 'read:blocks');
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const block = await getBlockById(id);
     if (!block) {
@@ -95,10 +95,11 @@ export async function PATCH(request: Request, context: RouteContext) {
   const { id } = await context.params;
 
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await requireApiAuth(request, 'write:blocks');
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     // Get existing block
     const existing = await getBlockById(id);
@@ -151,11 +152,11 @@ export async function PATCH(request: Request, context: RouteContext) {
 
       // Use specific methods for status changes
       if (body.status === 'ACTIVE') {
-        const block = await activateBlock(id);
+        const block = await activateBlock(id, session.user.id);
         return NextResponse.json(block);
       }
       if (body.status === 'ARCHIVED') {
-        const block = await archiveBlock(id);
+        const block = await archiveBlock(id, session.user.id);
         return NextResponse.json(block);
       }
     }
@@ -171,7 +172,7 @@ export async function PATCH(request: Request, context: RouteContext) {
       ...(body.status !== undefined && { status: body.status as BlockStatus }),
     };
 
-    const block = await updateBlock(id, input);
+    const block = await updateBlock(id, input, session.user.id);
 
     return NextResponse.json(block);
   } catch (error) {
@@ -203,10 +204,11 @@ export async function DELETE(request: Request, context: RouteContext) {
   const { id } = await context.params;
 
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await requireApiAuth(request, 'write:blocks');
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     // Get existing block
     const existing = await getBlockById(id);
@@ -246,7 +248,7 @@ export async function DELETE(request: Request, context: RouteContext) {
       }
     }
 
-    await deleteBlock(id);
+    await deleteBlock(id, session.user.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,87 @@
+/**
+ * POST /api/v2/blocks/[id]/versions/[version]/restore - Restore a block to an earlier version
+ */
+
+import { NextResponse } from 'next/server';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getBlockById, getBlockVersion, restoreBlockVersion } from '@/lib/v2/blocks';
+import { canManageLibrary } from '@/lib/v2/teams';
+import { canManageCustomer } from '@/lib/v2/customers/customer-service';
+import { logger } from '@/lib/logger';
+import type { LibraryId } from '@/types/v2';
+
+type RouteContext = {
+  params: Promise<{ id: string; version: string }>;
+};
+
+/**
+ * POST /api/v2/blocks/[id]/versions/[version]/restore
+ * The restore is saved as a new version; later versions are kept.
+ */
+export async function POST(request: Request, context: RouteContext) {
+  const { id, version } = await context.params;
+
+  try {
+    const auth = await requireApiAuth(request, 'write:blocks');
+    if (!auth.authorized) {
+      return auth.response;
+    }
+    const session = auth.session;
+
+    const versionNumber = Number(version);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+    }
+
+    const existing = await getBlockById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Block not found' }, { status: 404 });
+    }
+
+    const hasAccess = await canManageLibrary(session.user.id, existing.libraryId as LibraryId);
+    if (!hasAccess) {
+      logger.warn('Library management access denied', {
+        userId: session.user.id,
+        blockId: id,
+        libraryId: existing.libraryId,
+        route: 'POST /api/v2/blocks/[id]/versions/[version]/restore',
+      });
+      return NextResponse.json(
+        { error: 'You do not have access to this block' },
+        { status: 403 }
+      );
+    }
+
+    if (existing.customerId && !(await canManageCustomer(session.user.id, existing.customerId))) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage this customer' },
+        { status: 403 }
+      );
+    }
+
+    if (existing.version === versionNumber) {
+      return NextResponse.json(
+        { error: 'This is already the current version' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getBlockVersion(id, versionNumber))) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const block = await restoreBlockVersion(id, versionNumber, session.user.id);
+
+    return NextResponse.json(block);
+  } catch (error) {
+    logger.error('Error restoring block version', error, {
+      blockId: id,
+      version,
+      route: 'POST /api/v2/blocks/[id]/versions/[version]/restore',
+    });
+    return NextResponse.json(
+      { error: 'Failed to restore block version' },
+      { status: 500 }
+    );
+  }
+}
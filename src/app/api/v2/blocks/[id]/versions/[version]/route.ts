@@ -0,0 +1,72 @@
+/**
+ * GET /api/v2/blocks/[id]/versions/[version] - Get a full version snapshot
+ */
+
+import { NextResponse } from 'next/server';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getBlockById, getBlockVersion } from '@/lib/v2/blocks';
+import { canAccessLibrary } from '@/lib/v2/teams';
+import { canAccessCustomer } from '@/lib/v2/customers/customer-service';
+import { logger } from '@/lib/logger';
+import type { LibraryId } from '@/types/v2';
+
+type RouteContext = {
+  params: Promise<{ id: string; version: string }>;
+};
+
+/**
+ * GET /api/v2/blocks/[id]/versions/[version]
+ */
+export async function GET(request: Request, context: RouteContext) {
+  const { id, version } = await context.params;
+
+  try {
+    const auth = await requireApiAuth(request, 'read:blocks');
+    if (!auth.authorized) {
+      return auth.response;
+    }
+    const session = auth.session;
+
+    const versionNumber = Number(version);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+    }
+
+    const block = await getBlockById(id);
+    if (!block) {
+      return NextResponse.json({ error: 'Block not found' }, { status: 404 });
+    }
+
+    const hasAccess = await canAccessLibrary(session.user.id, block.libraryId as LibraryId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'You do not have access to this block' },
+        { status: 403 }
+      );
+    }
+
+    if (block.customerId && !(await canAccessCustomer(session.user.id, block.customerId))) {
+      return NextResponse.json(
+        { error: 'You do not have access to this customer' },
+        { status: 403 }
+      );
+    }
+
+    const snapshot = await getBlockVersion(id, versionNumber);
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    logger.error('Error getting block version', error, {
+      blockId: id,
+      version,
+      route: 'GET /api/v2/blocks/[id]/versions/[version]',
+    });
+    return NextResponse.json(
+      { error: 'Failed to get block version' },
+      { status: 500 }
+    );
+  }
+}
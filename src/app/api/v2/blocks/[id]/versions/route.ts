@@ -0,0 +1,64 @@
+/**
+ * GET /api/v2/blocks/[id]/versions - List a block's version history
+ */
+
+import { NextResponse } from 'next/server';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { getBlockById, listBlockVersions } from '@/lib/v2/blocks';
+import { canAccessLibrary } from '@/lib/v2/teams';
+import { canAccessCustomer } from '@/lib/v2/customers/customer-service';
+import { logger } from '@/lib/logger';
+import type { LibraryId } from '@/types/v2';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/v2/blocks/[id]/versions
+ * Newest first, without content. Fetch a single version for the full snapshot.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+
+  try {
+    const auth = await requireApiAuth(request, 'read:blocks');
+    if (!auth.authorized) {
+      return auth.response;
+    }
+    const session = auth.session;
+
+    const block = await getBlockById(id);
+    if (!block) {
+      return NextResponse.json({ error: 'Block not found' }, { status: 404 });
+    }
+
+    const hasAccess = await canAccessLibrary(session.user.id, block.libraryId as LibraryId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'You do not have access to this block' },
+        { status: 403 }
+      );
+    }
+
+    if (block.customerId && !(await canAccessCustomer(session.user.id, block.customerId))) {
+      return NextResponse.json(
+        { error: 'You do not have access to this customer' },
+        { status: 403 }
+      );
+    }
+
+    const versions = await listBlockVersions(id);
+
+    return NextResponse.json({ currentVersion: block.version, versions });
+  } catch (error) {
+    logger.error('Error listing block versions', error, {
+      blockId: id,
+      route: 'GET /api/v2/blocks/[id]/versions',
+    });
+    return NextResponse.json(
+      { error: 'Failed to list block versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,8 +4,7 @@
  */
 
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth-v2';
+import { requireApiAuth } from '@/lib/apiAuth';
 import { queryBlocks } from '@/lib/v2/blocks';
 import { canAccessLibrary } from '@/lib/v2/teams';
 import { canAccessCustomer } from '@/lib/v2/customers/customer-service';
@@ -19,10 +18,11 @@ import { LIBRARY_IDS, BLOCK_TYPES, BLOCK_STATUSES } from '@/types/v2';
  */
 export async function GET(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await requireApiAuth(request, 'read:blocks');
+    if (!auth.authorized) {
+      return auth.response;
     }
+    const session = auth.session;
 
     const { searchParams } = new URL(request.url);
 
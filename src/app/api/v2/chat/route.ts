@@ -3,6 +3,10 @@
  *
  * Chat endpoint that uses BuildingBlocks for context.
  * Supports streaming responses and conversation history.
+ *
+ * With `stream: true` the response is server-sent events (see @/lib/sse):
+ * `text` deltas, then `done` with the same payload the JSON response returns.
+ * Messages are persisted once the stream completes or the client disconnects.
  */
 
 import { NextRequest } from "next/server";
@@ -10,11 +14,14 @@ import { z } from "zod";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-v2";
 import type { TracingOptions } from "@/lib/llm";
-import { executeLLMCall } from "@/lib/llm/registry";
+import { executeLLMCall, type ExecuteLLMCallParams, type ExecuteLLMCallResult } from "@/lib/llm/registry";
 import { checkRateLimit, getRateLimitIdentifier } from "@/lib/rateLimit";
-import { apiSuccess, errors } from "@/lib/apiResponse";
+import { apiSuccess, errors, sanitizeErrorMessage } from "@/lib/apiResponse";
+import { createSSEResponse } from "@/lib/sse";
 import { logger } from "@/lib/logger";
 import { getActiveBlocksForContext } from "@/lib/v2/blocks";
+import { gateSkillsForChannel } from "@/lib/v2/skills/exposure-gate";
+import { TokenBudgetExceededError } from "@/lib/v2/teams";
 import type { LibraryId } from "@/types/v2";
 import { toTypedBlock } from "@/types/v2";
 import prisma from "@/lib/prisma";
@@ -34,6 +41,7 @@ const chatSchema = z.object({
   blockIds: z.array(z.string()).optional().default([]),
   stagedSourceIds: z.array(z.string()).optional().default([]),
   customerId: z.string().optional(),
+  stream: z.boolean().optional().default(false),
 });
 
 type WebSearchResult = {
@@ -240,6 +248,7 @@ export async function POST(request: NextRequest) {
       blockIds,
       stagedSourceIds,
       customerId,
+      stream,
     } = parsed.data as {
       message: string;
       sessionId?: string;
@@ -252,6 +261,7 @@ export async function POST(request: NextRequest) {
       blockIds: string[];
       stagedSourceIds: string[];
       customerId?: string;
+      stream: boolean;
     };
 
     // Validate customer access if customerId is provided
@@ -281,6 +291,10 @@ export async function POST(request: NextRequest) {
         .filter((block): block is typeof typedBlocks[number] => Boolean(block));
     }
 
+    // Drop skills that are not exposed to chat (reported in transparency)
+    const { allowed: exposedBlocks, excluded: excludedSkills } = gateSkillsForChannel(blocks, "chat");
+    blocks = exposedBlocks;
+
     // Fetch staged sources if IDs provided
     let stagedSources: Array<{ id: string; title: string; content: string | null; sourceType: string }> = [];
     if (stagedSourceIds.length > 0) {
@@ -335,8 +349,7 @@ export async function POST(request: NextRequest) {
       userEmail: userEmail || undefined,
     };
 
-    // Execute via registry with runtime context
-    const result = await executeLLMCall({
+    const llmParams: ExecuteLLMCallParams = {
       question: message,
       compositionId: "chat_response",
       runtimeContext: {
@@ -346,164 +359,197 @@ export async function POST(request: NextRequest) {
       skills,
       modelSpeed,
       tracingOptions,
-    });
-
-    // Create or update chat session if sessionId provided and user is authenticated
-    let chatSessionId = sessionId;
-    let assistantMessageId: string | undefined;
-    if (userId) {
-      if (sessionId) {
-        // Update existing session
-        await prisma.chatSession.update({
-          where: { id: sessionId },
-          data: {
-            updatedAt: new Date(),
-          },
-        }).catch(() => {
-          // Session might not exist, that's ok
-        });
-      } else {
-        // Create new session
-        const newSession = await prisma.chatSession.create({
-          data: {
-            userId,
-            title: message.slice(0, 100),
-          },
-        });
-        chatSessionId = newSession.id;
-      }
+    };
 
-      // Store messages
-      if (chatSessionId) {
-        await prisma.chatMessage.createMany({
-          data: [
-            {
-              sessionId: chatSessionId,
-              role: "user",
-              content: message,
+    // Persist the exchange and build the response payload (shared by JSON and SSE)
+    const finalize = async (result: ExecuteLLMCallResult) => {
+      // Create or update chat session if sessionId provided and user is authenticated
+      let chatSessionId = sessionId;
+      let assistantMessageId: string | undefined;
+      if (userId) {
+        if (sessionId) {
+          // Update existing session
+          await prisma.chatSession.update({
+            where: { id: sessionId },
+            data: {
+              updatedAt: new Date(),
             },
-            {
-              sessionId: chatSessionId,
-              role: "assistant",
-              content: result.answer,
-              metadata: {
-                blocksUsed: blocks.map((b) => b.id),
-                sourcesUsed: stagedSources.map((s) => s.id),
-                traceId: result.traceId,
-                transparency: {
-                  systemPrompt: result.transparency.systemPrompt,
-                  compositionId: result.transparency.compositionId,
-                  model: result.usage?.model || "unknown",
-                  blocksUsed: blocks.map((b) => ({
-                    id: b.id,
-                    title: b.title,
-                    content: b.content,
-                    libraryId: b.libraryId,
-                    blockType: b.blockType,
-                    entryType: b.entryType,
-                  })),
-                  sourcesUsed: stagedSources.map((s) => ({
-                    id: s.id,
-                    title: s.title,
-                    sourceType: s.sourceType,
+          }).catch(() => {
+            // Session might not exist, that's ok
+          });
+        } else {
+          // Create new session
+          const newSession = await prisma.chatSession.create({
+            data: {
+              userId,
+              title: message.slice(0, 100),
+            },
+          });
+          chatSessionId = newSession.id;
+        }
+
+        // Store messages
+        if (chatSessionId) {
+          await prisma.chatMessage.createMany({
+            data: [
+              {
+                sessionId: chatSessionId,
+                role: "user",
+                content: message,
+              },
+              {
+                sessionId: chatSessionId,
+                role: "assistant",
+                content: result.answer,
+                metadata: {
+                  blocksUsed: blocks.map((b) => b.id),
+                  sourcesUsed: stagedSources.map((s) => s.id),
+                  traceId: result.traceId,
+                  ...(result.aborted && { aborted: true }),
+                  transparency: {
+                    systemPrompt: result.transparency.systemPrompt,
+                    compositionId: result.transparency.compositionId,
+                    promptVariants: result.transparency.promptVariants,
+                    excludedSkills,
+                    model: result.usage?.model || "unknown",
+                    blocksUsed: blocks.map((b) => ({
+                      id: b.id,
+                      title: b.title,
+                      content: b.content,
+                      libraryId: b.libraryId,
+                      blockType: b.blockType,
+                      entryType: b.entryType,
+                    })),
+                    sourcesUsed: stagedSources.map((s) => ({
+                      id: s.id,
+                      title: s.title,
+                      sourceType: s.sourceType,
+                    })),
+                  },
+                  webSearchSources: webSearchResults.map((result) => ({
+                    url: result.url,
+                    title: result.title,
+                    citedText: result.snippet,
                   })),
                 },
-                webSearchSources: webSearchResults.map((result) => ({
-                  url: result.url,
-                  title: result.title,
-                  citedText: result.snippet,
-                })),
               },
-            },
-          ],
-        });
-        // Get the assistant message ID
-        const assistantMessage = await prisma.chatMessage.findFirst({
-          where: { sessionId: chatSessionId, role: "assistant" },
-          orderBy: { createdAt: "desc" },
-          select: { id: true },
-        });
-        assistantMessageId = assistantMessage?.id;
+            ],
+          });
+          // Get the assistant message ID
+          const assistantMessage = await prisma.chatMessage.findFirst({
+            where: { sessionId: chatSessionId, role: "assistant" },
+            orderBy: { createdAt: "desc" },
+            select: { id: true },
+          });
+          assistantMessageId = assistantMessage?.id;
+        }
       }
-    }
 
-    // Track usage on blocks that were used
-    if (blocks.length > 0) {
-      for (const block of blocks) {
-        const attrs = (block.attributes as Record<string, unknown>) || {};
-        await prisma.buildingBlock.update({
-          where: { id: block.id },
-          data: {
-            attributes: {
-              ...attrs,
-              usageCount: ((attrs.usageCount as number) || 0) + 1,
-              lastUsedAt: new Date().toISOString(),
+      // Track usage on blocks that were used
+      if (blocks.length > 0) {
+        for (const block of blocks) {
+          const attrs = (block.attributes as Record<string, unknown>) || {};
+          await prisma.buildingBlock.update({
+            where: { id: block.id },
+            data: {
+              attributes: {
+                ...attrs,
+                usageCount: ((attrs.usageCount as number) || 0) + 1,
+                lastUsedAt: new Date().toISOString(),
+              },
             },
-          },
-        }).catch((error) => {
-          // Log but don't fail on usage tracking errors
-          logger.warn("Failed to track usage for block", error, { blockId: block.id });
-        });
+          }).catch((error) => {
+            // Log but don't fail on usage tracking errors
+            logger.warn("Failed to track usage for block", error, { blockId: block.id });
+          });
+        }
       }
+
+      return {
+        answer: result.answer,
+        aborted: result.aborted,
+        sessionId: chatSessionId,
+        messageId: assistantMessageId,
+        blocksUsed: blocks.map((b) => ({
+          id: b.id,
+          title: b.title,
+          libraryId: b.libraryId,
+        })),
+        sourcesUsed: stagedSources.map((s) => ({
+          id: s.id,
+          title: s.title,
+          sourceType: s.sourceType,
+        })),
+        webSearchSources: webSearchResults.map((result) => ({
+          url: result.url,
+          title: result.title,
+          citedText: result.snippet,
+        })),
+        transparency: {
+          systemPrompt: result.transparency.systemPrompt,
+          compositionId: result.transparency.compositionId,
+          blockIds: result.transparency.blockIds,
+          runtimeBlockIds: result.transparency.runtimeBlockIds,
+          promptVariants: result.transparency.promptVariants,
+          runtimeContext: result.transparency.runtimeContext,
+          excludedSkills,
+          model: result.usage?.model || "unknown",
+          blocksUsed: [
+            ...blocks.map((b) => ({
+              id: b.id,
+              title: b.title,
+              content: b.content,
+              libraryId: b.libraryId,
+              blockType: b.blockType,
+              entryType: b.entryType,
+            })),
+            ...stagedSources.map((s) => ({
+              id: s.id,
+              title: s.title,
+              content: s.content || "",
+              libraryId: "source",
+              blockType: "source",
+              entryType: s.sourceType,
+            })),
+            ...webSearchResults.map((result, index) => ({
+              id: `web-${index + 1}`,
+              title: result.title,
+              content: result.content,
+              libraryId: "web",
+              blockType: "web",
+              entryType: "web",
+            })),
+          ],
+        },
+        usage: result.usage,
+        traceId: result.traceId,
+      };
+    };
+
+    if (stream) {
+      return createSSEResponse(async (send, signal) => {
+        try {
+          const result = await executeLLMCall({
+            ...llmParams,
+            stream: { onText: (delta) => send("text", { delta }), signal },
+          });
+          send("done", await finalize(result));
+        } catch (error) {
+          if (!(error instanceof TokenBudgetExceededError)) {
+            logger.error("Chat stream error", error, { route: "/api/v2/chat" });
+          }
+          const errorMessage = error instanceof Error ? error.message : "Chat failed";
+          send("error", { error: sanitizeErrorMessage(errorMessage, "Chat failed") });
+        }
+      }, request.signal);
     }
 
-    return apiSuccess({
-      answer: result.answer,
-      sessionId: chatSessionId,
-      messageId: assistantMessageId,
-      blocksUsed: blocks.map((b) => ({
-        id: b.id,
-        title: b.title,
-        libraryId: b.libraryId,
-      })),
-      sourcesUsed: stagedSources.map((s) => ({
-        id: s.id,
-        title: s.title,
-        sourceType: s.sourceType,
-      })),
-      webSearchSources: webSearchResults.map((result) => ({
-        url: result.url,
-        title: result.title,
-        citedText: result.snippet,
-      })),
-      transparency: {
-        systemPrompt: result.transparency.systemPrompt,
-        compositionId: result.transparency.compositionId,
-        blockIds: result.transparency.blockIds,
-        runtimeBlockIds: result.transparency.runtimeBlockIds,
-        runtimeContext: result.transparency.runtimeContext,
-        model: result.usage?.model || "unknown",
-        blocksUsed: [
-          ...blocks.map((b) => ({
-            id: b.id,
-            title: b.title,
-            content: b.content,
-            libraryId: b.libraryId,
-            blockType: b.blockType,
-            entryType: b.entryType,
-          })),
-          ...stagedSources.map((s) => ({
-            id: s.id,
-            title: s.title,
-            content: s.content || "",
-            libraryId: "source",
-            blockType: "source",
-            entryType: s.sourceType,
-          })),
-          ...webSearchResults.map((result, index) => ({
-            id: `web-${index + 1}`,
-            title: result.title,
-            content: result.content,
-            libraryId: "web",
-            blockType: "web",
-            entryType: "web",
-          })),
-        ],
-      },
-      usage: result.usage,
-      traceId: result.traceId,
-    });
+    const result = await executeLLMCall(llmParams);
+    return apiSuccess(await finalize(result));
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return errors.tooManyRequests(error.message);
+    }
     logger.error("Chat error", error, { route: "/api/v2/chat" });
     const errorMessage = error instanceof Error ? error.message : "Chat failed";
     return errors.internal(errorMessage);
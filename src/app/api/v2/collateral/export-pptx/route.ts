@@ -0,0 +1,102 @@
+/**
+ * POST /api/v2/collateral/export-pptx
+ *
+ * Fill a template's uploaded .pptx with generated placeholder values and
+ * return the deck as a download. Runs locally; no Google account needed.
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
+import { errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { exportToPptx } from '@/lib/v2/collateral';
+import type { TemplateAttributes } from '@/types/v2';
+
+export const maxDuration = 60;
+
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB per image
+
+const exportSchema = z.object({
+  templateId: z.string().min(1),
+  title: z.string().trim().max(300).optional(),
+  placeholders: z.record(z.string(), z.string()),
+  /** Image placeholder name to base64 PNG/JPEG, optionally as a data URL */
+  images: z.record(z.string(), z.string()).optional(),
+});
+
+function decodeImage(value: string): Buffer {
+  return Buffer.from(value.replace(/^data:[^;]+;base64,/, ''), 'base64');
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized();
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = exportSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errors.badRequest(parsed.error.issues[0]?.message || 'Invalid request');
+    }
+
+    const { templateId, title, placeholders } = parsed.data;
+
+    const template = await prisma.buildingBlock.findUnique({
+      where: { id: templateId },
+      select: { title: true, libraryId: true, attributes: true },
+    });
+
+    if (!template || template.libraryId !== 'templates') {
+      return errors.notFound('Template not found');
+    }
+
+    const pptx = (template.attributes as TemplateAttributes | null)?.outputConfig?.pptx;
+    if (!pptx?.s3Key) {
+      return errors.badRequest('Template has no PowerPoint file uploaded');
+    }
+
+    const images: Record<string, Buffer> = {};
+    for (const [name, value] of Object.entries(parsed.data.images || {})) {
+      const data = decodeImage(value);
+      if (data.length > MAX_IMAGE_SIZE) {
+        return errors.badRequest(`Image "${name}" exceeds maximum size (${MAX_IMAGE_SIZE / 1024 / 1024}MB)`);
+      }
+      images[name] = data;
+    }
+
+    const result = await exportToPptx({
+      templateS3Key: pptx.s3Key,
+      placeholders,
+      images,
+      title: title || template.title,
+    });
+
+    if (result.missing.length > 0 || result.warnings.length > 0) {
+      logger.info('PowerPoint export completed with warnings', {
+        templateId,
+        missing: result.missing,
+        warnings: result.warnings,
+      });
+    }
+
+    return new Response(new Uint8Array(result.buffer!), {
+      status: 200,
+      headers: {
+        'Content-Type': result.mimeType!,
+        'Content-Disposition': `attachment; filename="${result.fileName}"`,
+        'X-Placeholders-Filled': String(result.filled.length),
+        'X-Placeholders-Missing': String(result.missing.length),
+        'X-Text-Truncated': String(result.warnings.filter((w) => w.kind === 'truncated').length),
+      },
+    });
+  } catch (error) {
+    logger.error('PowerPoint export error', error, { route: '/api/v2/collateral/export-pptx' });
+    return errors.internal('Failed to export PowerPoint');
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * POST /api/v2/collateral/export
+ *
+ * Render generated collateral as a branded Word or PDF download with a
+ * cover page, table of contents and footnoted source citations.
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
+import { errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { exportToPdf, exportToWord } from '@/lib/v2/collateral';
+
+export const maxDuration = 60;
+
+const exportSchema = z.object({
+  format: z.enum(['word', 'pdf']),
+  title: z.string().trim().min(1).max(300),
+  subtitle: z.string().trim().max(300).optional(),
+  content: z.string().min(1),
+  sources: z
+    .array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        url: z.string().optional(),
+      })
+    )
+    .optional()
+    .default([]),
+});
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized();
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = exportSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errors.badRequest(parsed.error.issues[0]?.message || 'Invalid request');
+    }
+
+    const { format, ...document } = parsed.data;
+    const exportDocument = { ...document, author: session.user.name || undefined };
+    const result = format === 'word' ? await exportToWord(exportDocument) : await exportToPdf(exportDocument);
+
+    return new Response(new Uint8Array(result.buffer!), {
+      status: 200,
+      headers: {
+        'Content-Type': result.mimeType!,
+        'Content-Disposition': `attachment; filename="${result.fileName}"`,
+      },
+    });
+  } catch (error) {
+    logger.error('Collateral export error', error, { route: '/api/v2/collateral/export' });
+    return errors.internal('Failed to export collateral');
+  }
+}
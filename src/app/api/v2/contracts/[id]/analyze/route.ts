@@ -1,7 +1,7 @@
 /**
  * POST /api/v2/contracts/[id]/analyze
  *
- * Trigger contract analysis with selected skills.
+ * Trigger contract analysis with selected skills and/or a negotiation playbook.
  * Returns immediately and processes in background.
  * Frontend should poll /api/v2/contracts/[id]/status for progress.
  */
@@ -24,6 +24,8 @@ interface AnalyzeContractRequest {
   skillIds: string[];
   libraryId: LibraryId;
   modelSpeed: ModelSpeed;
+  /** Analyze against this playbook (playbook mode) */
+  playbookId?: string;
 }
 
 export async function POST(request: NextRequest, { params }: RouteParams) {
@@ -37,11 +39,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
   try {
     const body = (await request.json()) as AnalyzeContractRequest;
-    const { skillIds, libraryId, modelSpeed } = body;
+    const { skillIds = [], libraryId, modelSpeed, playbookId } = body;
 
     // Validation
-    if (!skillIds || !Array.isArray(skillIds) || skillIds.length === 0) {
-      return errors.badRequest('skillIds is required and must be a non-empty array');
+    if (!Array.isArray(skillIds) || (skillIds.length === 0 && !playbookId)) {
+      return errors.badRequest('skillIds must be a non-empty array unless a playbookId is given');
     }
 
     if (!libraryId) {
@@ -104,10 +106,20 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const totalSkillCount = librarySkillCount + customerSkillCount;
-    if (totalSkillCount === 0) {
+    if (totalSkillCount === 0 && !playbookId) {
       return errors.badRequest('No valid skills found');
     }
 
+    if (playbookId) {
+      const playbook = await prisma.buildingBlock.findFirst({
+        where: { id: playbookId, libraryId: 'playbooks', status: 'ACTIVE' },
+        select: { id: true },
+      });
+      if (!playbook) {
+        return errors.badRequest('Playbook not found or archived');
+      }
+    }
+
     // Check if Redis/queue is configured
     if (isQueueConfigured()) {
       // ASYNC PATH: Enqueue job and return immediately
@@ -117,6 +129,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         skillCount: totalSkillCount,
         libraryId,
         modelSpeed,
+        playbookId,
       });
 
       // Update project status to PROCESSING before enqueueing
@@ -134,6 +147,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           skillIds,
           libraryId,
           modelSpeed,
+          playbookId,
           userId: auth.session.user.id,
           userEmail: auth.session.user.email || undefined,
         }
@@ -157,6 +171,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         skillCount: totalSkillCount,
         libraryId,
         modelSpeed,
+        playbookId,
       });
 
       // Update project status to PROCESSING before starting
@@ -172,6 +187,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         skillIds,
         libraryId,
         modelSpeed,
+        playbookId,
       });
 
       return apiSuccess({
@@ -0,0 +1,103 @@
+/**
+ * GET /api/v2/contracts/[id]/redline
+ *
+ * Download the uploaded .docx with analysis findings applied as Word tracked
+ * changes. Each finding's suggested language replaces the matched clause and
+ * a comment carries the rating, rationale and cited skills.
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/apiAuth';
+import { errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { generateErrorId } from '@/lib/error-id';
+import prisma from '@/lib/prisma';
+import { getFromS3, getMimeType } from '@/lib/s3';
+import {
+  findingsToRedlines,
+  writeRedlinesToDocx,
+  type OriginalContractFile,
+} from '@/lib/v2/contracts/contract-redline-export';
+import type { ContractFinding } from '@/types/contractReview';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth();
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { id: projectId } = await params;
+
+  try {
+    const project = await prisma.bulkProject.findUnique({
+      where: { id: projectId },
+      select: {
+        id: true,
+        ownerId: true,
+        projectType: true,
+        config: true,
+        rows: { select: { outputData: true }, take: 1 },
+      },
+    });
+
+    if (!project) {
+      return errors.notFound('Project not found');
+    }
+
+    if (project.ownerId !== auth.session.user.id) {
+      return errors.forbidden('Access denied');
+    }
+
+    if (project.projectType !== 'contract-review') {
+      return errors.badRequest('Project is not a contract review project');
+    }
+
+    const config = (project.config as Record<string, unknown>) || {};
+    const sourceFile = config.sourceFile as OriginalContractFile | null | undefined;
+    if (!sourceFile) {
+      return errors.badRequest(
+        'The original document is not available for this contract. Only .docx uploads can be exported as redlines.'
+      );
+    }
+
+    const outputData = (project.rows[0]?.outputData as { findings?: ContractFinding[] } | null) || {};
+    const redlines = findingsToRedlines(outputData.findings || []);
+    if (redlines.length === 0) {
+      return errors.badRequest('No findings to export. Analyze the contract first.');
+    }
+
+    const original = await getFromS3(sourceFile.s3Key);
+    const result = await writeRedlinesToDocx(original, redlines, {
+      author: auth.session.user.name || undefined,
+    });
+
+    logger.info('Exported contract redline', {
+      projectId,
+      applied: result.applied,
+      skipped: result.skipped.length,
+    });
+
+    const baseName = sourceFile.fileName.replace(/\.docx$/i, '');
+    return new Response(new Uint8Array(result.buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': getMimeType('docx'),
+        'Content-Disposition': `attachment; filename="${baseName}-redline.docx"`,
+        'X-Redlines-Applied': String(result.applied),
+        'X-Redlines-Skipped': String(result.skipped.length),
+      },
+    });
+  } catch (error) {
+    const errorId = generateErrorId();
+
+    logger.error('Failed to export contract redline', error, {
+      projectId,
+      errorId,
+      route: '/api/v2/contracts/[id]/redline',
+    });
+
+    return errors.internal(`Failed to export redline. Please try again. (Error ID: ${errorId})`);
+  }
+}
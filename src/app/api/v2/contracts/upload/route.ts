@@ -11,6 +11,8 @@ import { apiSuccess, errors } from '@/lib/apiResponse';
 import { logger } from '@/lib/logger';
 import { generateErrorId } from '@/lib/error-id';
 import { prisma } from '@/lib/prisma';
+import { generateS3Key, getMimeType, isS3Configured, uploadToS3 } from '@/lib/s3';
+import type { OriginalContractFile } from '@/lib/v2/contracts/contract-redline-export';
 
 export async function POST(request: NextRequest) {
   const auth = await requireAuth();
@@ -65,6 +67,19 @@ export async function POST(request: NextRequest) {
       return errors.badRequest('Could not extract text from file');
     }
 
+    // Keep the original .docx so findings can be exported as tracked changes.
+    // Upload failures only disable the redline export - analysis still runs.
+    let sourceFile: OriginalContractFile | undefined;
+    if (/\.docx$/i.test(file.name) && isS3Configured()) {
+      try {
+        const s3Key = generateS3Key('docx', file.name, `contract_${auth.session.user.id}`);
+        await uploadToS3(s3Key, Buffer.from(fileBuffer), getMimeType('docx'));
+        sourceFile = { s3Key, fileName: file.name, fileType: 'docx' };
+      } catch (error) {
+        logger.error('Failed to store original contract document', error, { projectId, fileName: file.name });
+      }
+    }
+
     // Update project with full contract text and status to DRAFT
     await prisma.bulkProject.update({
       where: { id: projectId },
@@ -77,6 +92,7 @@ export async function POST(request: NextRequest) {
           fileSize: file.size,
           uploadedAt: new Date().toISOString(),
           extractedTextLength: fileContent.length,
+          sourceFile: sourceFile ?? null, // Clear any file from a previous upload
         },
       },
     });
@@ -0,0 +1,78 @@
+/**
+ * PATCH /api/v2/group-mappings/[id] - Change the role a mapping grants (admin only)
+ * DELETE /api/v2/group-mappings/[id] - Remove a mapping (admin only)
+ *
+ * Both re-sync the group's members. Deleting a mapping removes the directory
+ * memberships it granted; manually added members are unaffected.
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions, isUserAdmin, type SessionUser } from '@/lib/auth-v2';
+import { apiSuccess, errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { deleteGroupMapping, updateGroupMappingRole } from '@/lib/v2/teams';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const updateGroupMappingSchema = z.object({
+  role: z.enum(['admin', 'member', 'viewer']),
+});
+
+async function mappingExists(id: string): Promise<boolean> {
+  return Boolean(await prisma.groupTeamMapping.findUnique({ where: { id }, select: { id: true } }));
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized('Authentication required');
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden('Admin access required');
+  }
+
+  try {
+    const { id } = await context.params;
+    const parsed = updateGroupMappingSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return errors.badRequest(parsed.error.issues[0]?.message || 'Invalid request');
+    }
+    if (!(await mappingExists(id))) {
+      return errors.notFound('Group mapping not found');
+    }
+
+    const mapping = await updateGroupMappingRole(id, parsed.data.role, session.user.id);
+    return apiSuccess({ success: true, data: { mapping } });
+  } catch (error) {
+    logger.error('Failed to update group mapping', error, { route: '/api/v2/group-mappings/[id]' });
+    return errors.internal('Failed to update group mapping');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized('Authentication required');
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden('Admin access required');
+  }
+
+  try {
+    const { id } = await context.params;
+    if (!(await mappingExists(id))) {
+      return errors.notFound('Group mapping not found');
+    }
+
+    await deleteGroupMapping(id, session.user.id);
+    return apiSuccess({ success: true });
+  } catch (error) {
+    logger.error('Failed to delete group mapping', error, { route: '/api/v2/group-mappings/[id]' });
+    return errors.internal('Failed to delete group mapping');
+  }
+}
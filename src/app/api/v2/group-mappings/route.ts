@@ -0,0 +1,90 @@
+/**
+ * GET /api/v2/group-mappings - List Okta group -> team mappings (admin only)
+ * POST /api/v2/group-mappings - Map a group to a team and role (admin only)
+ *
+ * New mappings apply immediately to members already known from sign-in or
+ * SCIM, and to everyone else on their next Okta sign-in.
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions, isUserAdmin, type SessionUser } from '@/lib/auth-v2';
+import { apiSuccess, errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { prisma } from '@/lib/prisma';
+import { createGroupMapping, listGroupMappings } from '@/lib/v2/teams';
+
+const createGroupMappingSchema = z.object({
+  groupName: z.string().trim().min(1).max(255),
+  teamId: z.string().min(1),
+  role: z.enum(['admin', 'member', 'viewer']).default('member'),
+});
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized('Authentication required');
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden('Admin access required');
+  }
+
+  try {
+    const [mappings, groups] = await Promise.all([
+      listGroupMappings(),
+      prisma.directoryGroup.findMany({
+        select: { displayName: true, _count: { select: { members: true } } },
+        orderBy: { displayName: 'asc' },
+      }),
+    ]);
+
+    return apiSuccess({
+      success: true,
+      data: {
+        mappings,
+        groups: groups.map((group) => ({ name: group.displayName, memberCount: group._count.members })),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to list group mappings', error, { route: '/api/v2/group-mappings' });
+    return errors.internal('Failed to list group mappings');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized('Authentication required');
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden('Admin access required');
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = createGroupMappingSchema.safeParse(body);
+    if (!parsed.success) {
+      return errors.badRequest(parsed.error.issues[0]?.message || 'Invalid request');
+    }
+
+    const team = await prisma.team.findUnique({ where: { id: parsed.data.teamId }, select: { id: true } });
+    if (!team) {
+      return errors.notFound('Team not found');
+    }
+
+    const existing = await prisma.groupTeamMapping.findUnique({
+      where: { groupName_teamId: { groupName: parsed.data.groupName, teamId: parsed.data.teamId } },
+      select: { id: true },
+    });
+    if (existing) {
+      return errors.conflict('This group is already mapped to the team');
+    }
+
+    const mapping = await createGroupMapping(parsed.data, session.user.id);
+    return apiSuccess({ success: true, data: { mapping } }, 201);
+  } catch (error) {
+    logger.error('Failed to create group mapping', error, { route: '/api/v2/group-mappings' });
+    return errors.internal('Failed to create group mapping');
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * GET /api/v2/integrations/[type]/schedule?libraryId=...&customerId=...
+ * PUT /api/v2/integrations/[type]/schedule
+ *
+ * Read or set the scheduled re-sync cron for an integration connection.
+ * The background worker re-runs discovery when the schedule fires and flags
+ * skills whose incorporated sources changed (see source-resync-service.ts).
+ *
+ * Path Parameters:
+ *   - type: Integration type (slack, zendesk, notion, gong, confluence, gdrive)
+ *
+ * Body (PUT):
+ *   - libraryId: Library the connection belongs to - default: 'knowledge'
+ *   - customerId: Optional customer ID for customer-scoped connections
+ *   - schedule: 5-field cron expression evaluated in UTC, or null to disable
+ *
+ * Requires authentication and library access.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { getIntegrationConnectionName } from '@/lib/v2/integrations/integration-config';
+import {
+  requireLibraryAccess,
+  isAuthSuccess,
+  parseDiscoveryParams,
+  isValidationSuccess,
+  logAndReturnError,
+} from '@/lib/v2/integrations/middleware';
+import {
+  getNextSyncAt,
+  getSyncSchedule,
+  validateSyncSchedule,
+} from '@/lib/v2/sources/source-resync-service';
+import type { LibraryId } from '@/types/v2';
+
+const SCHEDULABLE_TYPES = ['slack', 'zendesk', 'notion', 'gong', 'confluence', 'gdrive'];
+
+const scheduleSchema = z.object({
+  libraryId: z.string().default('knowledge'),
+  customerId: z.string().optional(),
+  schedule: z.string().nullable(),
+});
+
+type RouteContext = { params: Promise<{ type: string }> };
+
+function findConnection(type: string, libraryId: string, customerId?: string) {
+  return prisma.integrationConnection.findFirst({
+    where: {
+      integrationType: type,
+      name: getIntegrationConnectionName(type, libraryId, customerId),
+    },
+  });
+}
+
+function toScheduleResponse(connection: {
+  id: string;
+  config: unknown;
+  lastSyncAt: Date | null;
+  lastError: string | null;
+}) {
+  const schedule = getSyncSchedule(connection.config);
+  return {
+    connectionId: connection.id,
+    schedule,
+    nextSyncAt: schedule
+      ? getNextSyncAt(schedule, connection.lastSyncAt || new Date()).toISOString()
+      : null,
+    lastSyncAt: connection.lastSyncAt?.toISOString() || null,
+    lastError: connection.lastError,
+  };
+}
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { type } = await params;
+    if (!SCHEDULABLE_TYPES.includes(type)) {
+      return NextResponse.json({ error: 'Integration type not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    if (!searchParams.get('libraryId')) {
+      searchParams.set('libraryId', 'knowledge');
+    }
+
+    const paramsResult = parseDiscoveryParams(searchParams);
+    if (!isValidationSuccess(paramsResult)) {
+      return paramsResult.response;
+    }
+    const { libraryId, customerId } = paramsResult.data;
+
+    const authResult = await requireLibraryAccess(libraryId, customerId);
+    if (!isAuthSuccess(authResult)) {
+      return authResult.response;
+    }
+
+    const connection = await findConnection(type, libraryId, customerId);
+    if (!connection) {
+      return NextResponse.json({ error: 'Integration is not connected' }, { status: 404 });
+    }
+
+    return NextResponse.json(toScheduleResponse(connection));
+  } catch (error) {
+    return logAndReturnError('Integration schedule get', error);
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { type } = await params;
+    if (!SCHEDULABLE_TYPES.includes(type)) {
+      return NextResponse.json({ error: 'Integration type not found' }, { status: 404 });
+    }
+
+    const parsed = scheduleSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    const { customerId } = parsed.data;
+    const libraryId = parsed.data.libraryId as LibraryId;
+    const schedule = parsed.data.schedule?.trim() || null;
+
+    if (schedule) {
+      const scheduleError = validateSyncSchedule(schedule);
+      if (scheduleError) {
+        return NextResponse.json({ error: scheduleError }, { status: 400 });
+      }
+    }
+
+    const authResult = await requireLibraryAccess(libraryId, customerId);
+    if (!isAuthSuccess(authResult)) {
+      return authResult.response;
+    }
+
+    const connection = await findConnection(type, libraryId, customerId);
+    if (!connection) {
+      return NextResponse.json({ error: 'Integration is not connected' }, { status: 404 });
+    }
+
+    const config: Prisma.InputJsonObject = Object.fromEntries(
+      Object.entries((connection.config as Prisma.JsonObject | null) || {}).filter(
+        ([key]) => key !== 'syncSchedule'
+      )
+    );
+    const updated = await prisma.integrationConnection.update({
+      where: { id: connection.id },
+      data: {
+        config: schedule ? { ...config, syncSchedule: schedule } : config,
+      },
+    });
+
+    logger.info('Integration re-sync schedule updated', {
+      integrationType: type,
+      connectionId: connection.id,
+      schedule,
+      userId: authResult.data.userId,
+    });
+
+    return NextResponse.json(toScheduleResponse(updated));
+  } catch (error) {
+    return logAndReturnError('Integration schedule update', error);
+  }
+}
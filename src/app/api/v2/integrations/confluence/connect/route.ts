@@ -0,0 +1,134 @@
+/**
+ * POST /api/v2/integrations/confluence/connect
+ *
+ * Configure Confluence Cloud credentials and the spaces to sync for a library.
+ * Requires authentication and library access.
+ *
+ * Body:
+ *   - baseUrl: string (e.g., https://acme.atlassian.net)
+ *   - email: string (Atlassian account email)
+ *   - apiToken: string (Atlassian API token)
+ *   - spaceKeys: string[] (optional) - Spaces to sync (all accessible if empty)
+ *   - labels: string[] (optional) - Only pages with one of these labels
+ *   - libraryId: Target library ('it', 'knowledge', 'gtm') - default: 'knowledge'
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { putSecret } from '@/lib/secrets';
+import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
+import { confluenceAdapter } from '@/lib/v2/sources/adapters/confluence-adapter';
+import { getIntegrationConnectionName } from '@/lib/v2/integrations/integration-config';
+import { INTEGRATION_SUPPORTED_LIBRARIES } from '@/lib/v2/library-constants';
+import { requireLibraryAccess, isAuthSuccess } from '@/lib/v2/integrations/middleware';
+import type { LibraryId } from '@/types/v2';
+
+const connectSchema = z.object({
+  baseUrl: z.string().url().refine((url) => url.startsWith('https://'), 'baseUrl must use https'),
+  email: z.string().email(),
+  apiToken: z.string().min(1),
+  spaceKeys: z.array(z.string().regex(/^[A-Za-z0-9_~]+$/, 'Invalid space key')).optional().default([]),
+  labels: z.array(z.string().min(1)).optional().default([]),
+  libraryId: z
+    .string()
+    .default('knowledge')
+    .refine((id) => INTEGRATION_SUPPORTED_LIBRARIES.includes(id as LibraryId), {
+      message: `Library must be one of: ${INTEGRATION_SUPPORTED_LIBRARIES.join(', ')}`,
+    }),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = connectSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    const { baseUrl, email, apiToken, spaceKeys, labels } = parsed.data;
+    const libraryId = parsed.data.libraryId as LibraryId;
+
+    // Check authentication and authorization
+    const authResult = await requireLibraryAccess(libraryId);
+    if (!isAuthSuccess(authResult)) {
+      return authResult.response;
+    }
+
+    // Store credentials in AWS Secrets Manager
+    await putSecret('confluence-base-url', baseUrl.replace(/\/$/, ''));
+    await putSecret('confluence-email', email);
+    await putSecret('confluence-api-token', apiToken);
+    confluenceAdapter.clearCredentialCache();
+
+    const testResult = await confluenceAdapter.testConnection({ libraryId });
+    if (!testResult.success) {
+      return NextResponse.json(
+        { error: `Connection test failed: ${testResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    const connectionName = getIntegrationConnectionName('confluence', libraryId);
+    const config = {
+      spaceKeys: spaceKeys.map((key) => key.toUpperCase()),
+      labels,
+      configuredAt: new Date().toISOString(),
+    };
+
+    // Find or create integration connection record for this library
+    let connection = await prisma.integrationConnection.findFirst({
+      where: {
+        integrationType: 'confluence',
+        name: connectionName,
+      },
+    });
+
+    if (connection) {
+      connection = await prisma.integrationConnection.update({
+        where: { id: connection.id },
+        data: {
+          status: 'ACTIVE',
+          lastSyncAt: new Date(),
+          // Keep settings managed elsewhere (e.g. syncSchedule)
+          config: { ...(connection.config as Record<string, unknown>), ...config },
+        },
+      });
+    } else {
+      connection = await prisma.integrationConnection.create({
+        data: {
+          integrationType: 'confluence',
+          name: connectionName,
+          status: 'ACTIVE',
+          config,
+        },
+      });
+    }
+
+    logger.info('Confluence integration connected', { libraryId, connectionId: connection.id });
+
+    await recordAuditEvent({
+      eventType: 'integration.connected',
+      actorId: authResult.data.userId,
+      targetType: 'integration',
+      targetId: connection.id,
+      data: { integrationType: 'confluence', libraryId: libraryId, name: connection.name },
+    });
+
+    return NextResponse.json({
+      success: true,
+      connectionId: connection.id,
+      libraryId,
+      status: connection.status,
+      testedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Confluence connect error:', error);
+    return NextResponse.json(
+      { error: 'Failed to configure Confluence integration' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * GET /api/v2/integrations/confluence/status?libraryId=...&customerId=...
+ *
+ * Get Confluence integration status and configuration.
+ * Returns connection status and config (space keys, labels).
+ *
+ * Requires authentication and library access permissions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIntegrationConnectionName } from '@/lib/v2/integrations/integration-config';
+import {
+  requireLibraryAccess,
+  isAuthSuccess,
+  parseDiscoveryParams,
+  isValidationSuccess,
+  logAndReturnError,
+} from '@/lib/v2/integrations/middleware';
+import { prisma } from '@/lib/prisma';
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    // Default to knowledge (matching discover endpoint behavior)
+    if (!searchParams.get('libraryId')) {
+      searchParams.set('libraryId', 'knowledge');
+    }
+
+    const paramsResult = parseDiscoveryParams(searchParams);
+    if (!isValidationSuccess(paramsResult)) {
+      return paramsResult.response;
+    }
+    const { libraryId, customerId } = paramsResult.data;
+
+    // Check authentication and authorization
+    const authResult = await requireLibraryAccess(libraryId, customerId);
+    if (!isAuthSuccess(authResult)) {
+      return authResult.response;
+    }
+
+    const connection = await prisma.integrationConnection.findFirst({
+      where: {
+        integrationType: 'confluence',
+        name: getIntegrationConnectionName('confluence', libraryId, customerId),
+      },
+    });
+
+    if (!connection) {
+      return NextResponse.json({
+        isConfigured: false,
+        isHealthy: false,
+        config: null,
+      });
+    }
+
+    // Connection exists - check if it's healthy
+    const isHealthy = connection.status === 'ACTIVE' || connection.status === 'CONNECTED';
+
+    return NextResponse.json({
+      isConfigured: true,
+      isHealthy,
+      config: connection.config,
+      lastSyncAt: connection.lastSyncAt?.toISOString(),
+      lastError: connection.status === 'ERROR' || connection.status === 'FAILED'
+        ? 'Connection test failed - check credentials'
+        : undefined,
+      lastChecked: connection.lastSyncAt?.toISOString() || new Date().toISOString(),
+    });
+  } catch (error) {
+    return logAndReturnError('Confluence status', error, 'Confluence');
+  }
+}
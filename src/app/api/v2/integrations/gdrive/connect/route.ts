@@ -0,0 +1,137 @@
+/**
+ * POST /api/v2/integrations/gdrive/connect
+ *
+ * Configure a Google service account and the Drive folders to sync for a library.
+ * Folders must be shared with the service account's email.
+ * Requires authentication and library access.
+ *
+ * Body:
+ *   - serviceAccountKey: string (service account JSON key)
+ *   - folderIds: string[] (optional) - Folders to sync recursively (all shared files if empty)
+ *   - driveId: string (optional) - Restrict to one shared drive
+ *   - libraryId: Target library ('it', 'knowledge', 'gtm') - default: 'knowledge'
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { putSecret } from '@/lib/secrets';
+import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
+import { gdriveAdapter } from '@/lib/v2/sources/adapters/gdrive-adapter';
+import { getIntegrationConnectionName } from '@/lib/v2/integrations/integration-config';
+import { INTEGRATION_SUPPORTED_LIBRARIES } from '@/lib/v2/library-constants';
+import { requireLibraryAccess, isAuthSuccess } from '@/lib/v2/integrations/middleware';
+import type { LibraryId } from '@/types/v2';
+
+const connectSchema = z.object({
+  serviceAccountKey: z.string().refine((value) => {
+    try {
+      const key = JSON.parse(value);
+      return Boolean(key.client_email && key.private_key);
+    } catch {
+      return false;
+    }
+  }, 'serviceAccountKey must be a service account JSON key with client_email and private_key'),
+  folderIds: z.array(z.string().regex(/^[A-Za-z0-9_-]+$/, 'Invalid folder ID')).optional().default([]),
+  driveId: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Invalid drive ID').optional(),
+  libraryId: z
+    .string()
+    .default('knowledge')
+    .refine((id) => INTEGRATION_SUPPORTED_LIBRARIES.includes(id as LibraryId), {
+      message: `Library must be one of: ${INTEGRATION_SUPPORTED_LIBRARIES.join(', ')}`,
+    }),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = connectSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    const { serviceAccountKey, folderIds, driveId } = parsed.data;
+    const libraryId = parsed.data.libraryId as LibraryId;
+
+    // Check authentication and authorization
+    const authResult = await requireLibraryAccess(libraryId);
+    if (!isAuthSuccess(authResult)) {
+      return authResult.response;
+    }
+
+    // Store credentials in AWS Secrets Manager
+    await putSecret('gdrive-service-account', serviceAccountKey);
+    gdriveAdapter.clearCredentialCache();
+
+    const testResult = await gdriveAdapter.testConnection();
+    if (!testResult.success) {
+      return NextResponse.json(
+        { error: `Connection test failed: ${testResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    const connectionName = getIntegrationConnectionName('gdrive', libraryId);
+    const config = {
+      folderIds,
+      ...(driveId && { driveId }),
+      serviceAccountEmail: JSON.parse(serviceAccountKey).client_email,
+      configuredAt: new Date().toISOString(),
+    };
+
+    // Find or create integration connection record for this library
+    let connection = await prisma.integrationConnection.findFirst({
+      where: {
+        integrationType: 'gdrive',
+        name: connectionName,
+      },
+    });
+
+    if (connection) {
+      connection = await prisma.integrationConnection.update({
+        where: { id: connection.id },
+        data: {
+          status: 'ACTIVE',
+          lastSyncAt: new Date(),
+          // Keep settings managed elsewhere (e.g. syncSchedule)
+          config: { ...(connection.config as Record<string, unknown>), ...config },
+        },
+      });
+    } else {
+      connection = await prisma.integrationConnection.create({
+        data: {
+          integrationType: 'gdrive',
+          name: connectionName,
+          status: 'ACTIVE',
+          config,
+        },
+      });
+    }
+
+    logger.info('Google Drive integration connected', { libraryId, connectionId: connection.id });
+
+    await recordAuditEvent({
+      eventType: 'integration.connected',
+      actorId: authResult.data.userId,
+      targetType: 'integration',
+      targetId: connection.id,
+      data: { integrationType: 'gdrive', libraryId: libraryId, name: connection.name },
+    });
+
+    return NextResponse.json({
+      success: true,
+      connectionId: connection.id,
+      libraryId,
+      status: connection.status,
+      testedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Google Drive connect error:', error);
+    return NextResponse.json(
+      { error: 'Failed to configure Google Drive integration' },
+      { status: 500 }
+    );
+  }
+}
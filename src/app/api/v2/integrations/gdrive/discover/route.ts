@@ -0,0 +1,60 @@
+/**
+ * GET /api/v2/integrations/gdrive/discover
+ *
+ * Discover Google Drive files.
+ * Requires authentication and library access.
+ *
+ * Query parameters:
+ *   - libraryId: Library to discover for (default: 'knowledge')
+ *   - customerId: Optional customer ID for customer-scoped sources
+ *   - limit: Max files to return (default: 50, max: 200)
+ *   - since: Unix timestamp (seconds) to fetch files modified since
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { gdriveHandler } from '@/lib/v2/integrations/handlers/gdrive-handler';
+import {
+  requireLibraryAccess,
+  isAuthSuccess,
+  parseDiscoveryParams,
+  isValidationSuccess,
+  logAndReturnError,
+  integrationNotConfiguredError,
+} from '@/lib/v2/integrations/middleware';
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    // Parse and validate parameters (default to knowledge)
+    const libraryIdParam = searchParams.get('libraryId');
+    if (!libraryIdParam) {
+      searchParams.set('libraryId', 'knowledge');
+    }
+
+    const paramsResult = parseDiscoveryParams(searchParams);
+    if (!isValidationSuccess(paramsResult)) {
+      return paramsResult.response;
+    }
+    const params = paramsResult.data;
+
+    // Check authentication and authorization
+    const authResult = await requireLibraryAccess(params.libraryId, params.customerId);
+    if (!isAuthSuccess(authResult)) {
+      return authResult.response;
+    }
+
+    // Test connection first
+    const connectionTest = await gdriveHandler.testConnection();
+    if (!connectionTest.success) {
+      return integrationNotConfiguredError('Google Drive', params.libraryId);
+    }
+
+    // Discover files
+    const result = await gdriveHandler.discover(params);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return logAndReturnError('Google Drive discover', error, 'Google Drive');
+  }
+}
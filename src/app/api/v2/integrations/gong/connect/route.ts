@@ -11,9 +11,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
 import { prisma } from '@/lib/prisma';
 import { putSecret } from '@/lib/secrets';
 import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 import { getAdapter } from '@/lib/v2/sources/adapters/base-adapter';
 
 export async function POST(req: NextRequest) {
@@ -107,6 +110,15 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    const session = await getServerSession(authOptions);
+    await recordAuditEvent({
+      eventType: 'integration.connected',
+      actorId: session?.user?.id,
+      targetType: 'integration',
+      targetId: connection.id,
+      data: { integrationType: 'gong', libraryId: targetLibraryId, name: connection.name },
+    });
+
     return NextResponse.json({
       success: true,
       connectionId: connection.id,
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-v2';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 
 /**
  * Check if user has access to the specified team
@@ -218,7 +219,7 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    await prisma.integrationConnection.updateMany({
+    const { count } = await prisma.integrationConnection.updateMany({
       where: {
         teamId,
         integrationType: 'looker',
@@ -228,6 +229,16 @@ export async function DELETE(request: Request) {
       },
     });
 
+    if (count > 0) {
+      await recordAuditEvent({
+        eventType: 'integration.disconnected',
+        actorId: session.user.id,
+        targetType: 'integration',
+        teamId,
+        data: { integrationType: 'looker' },
+      });
+    }
+
     return NextResponse.json({ message: 'Looker integration disabled' });
   } catch (error) {
     logger.error('Error disabling Looker config', { error });
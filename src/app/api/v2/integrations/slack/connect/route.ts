@@ -16,6 +16,7 @@ import { authOptions } from '@/lib/auth-v2';
 import { prisma } from '@/lib/prisma';
 import { getIntegrationConnectionName } from '@/lib/v2/integrations/integration-config';
 import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 import { putSecret } from '@/lib/secrets';
 
 export async function POST(req: NextRequest) {
@@ -90,6 +91,14 @@ export async function POST(req: NextRequest) {
     // Discover sources synchronously
     const discovered = await discoverSlackSources(connection.id, targetLibraryId);
 
+    await recordAuditEvent({
+      eventType: 'integration.connected',
+      actorId: session.user.id,
+      targetType: 'integration',
+      targetId: connection.id,
+      data: { integrationType: 'slack', libraryId: targetLibraryId, name: connection.name },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Slack integration connected. Discovery complete.',
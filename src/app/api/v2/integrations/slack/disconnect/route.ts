@@ -10,6 +10,7 @@ import { prisma } from '@/lib/prisma';
 import { canManageLibrary } from '@/lib/v2/teams';
 import { getIntegrationConnectionName } from '@/lib/v2/integrations/integration-config';
 import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 import type { LibraryId } from '@/types/v2';
 
 export async function POST(request: NextRequest) {
@@ -69,6 +70,14 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordAuditEvent({
+      eventType: 'integration.disconnected',
+      actorId: session.user.id,
+      targetType: 'integration',
+      targetId: connection.id,
+      data: { integrationType: 'slack', libraryId, customerId: customerId ?? null },
+    });
+
     logger.info('Slack channels disconnected', {
       libraryId,
       customerId,
@@ -17,6 +17,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-v2';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 import { putSecret } from '@/lib/secrets';
 
 export async function POST(req: NextRequest) {
@@ -96,6 +97,14 @@ export async function POST(req: NextRequest) {
     // Discover sources synchronously
     const discovered = await discoverZendeskSources(connection.id, targetLibraryId);
 
+    await recordAuditEvent({
+      eventType: 'integration.connected',
+      actorId: session.user.id,
+      targetType: 'integration',
+      targetId: connection.id,
+      data: { integrationType: 'zendesk', libraryId: targetLibraryId, name: connection.name },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Zendesk integration connected. Discovery complete.',
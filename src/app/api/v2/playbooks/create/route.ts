@@ -0,0 +1,140 @@
+/**
+ * POST /api/v2/playbooks/create - Create a new contract playbook
+ *
+ * Type-specific endpoint for playbook creation, separated from generic block creation.
+ * Positions are validated here; edits go through PATCH /api/v2/blocks/[id] and are
+ * versioned by the block git sync like every other block.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
+import { createBlock } from '@/lib/v2/blocks';
+import { Prisma } from '@prisma/client';
+import { canManageLibrary } from '@/lib/v2/teams';
+import { logger } from '@/lib/logger';
+import { playbookAttributesSchema, renderPlaybookForPrompt } from '@/lib/v2/contracts/contract-playbook';
+import type { CreateBlockInput, PlaybookBlock } from '@/types/v2';
+
+const PLAYBOOKS_LIBRARY = 'playbooks';
+
+// Input validation constants
+const MAX_TITLE_LENGTH = 500;
+
+export async function POST(request: Request) {
+  let session;
+  let body: Record<string, unknown> = {};
+  try {
+    session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      logger.warn('Invalid JSON in request body', parseError, {
+        route: 'POST /api/v2/playbooks/create',
+        userId: session.user.id,
+      });
+      return NextResponse.json(
+        { error: 'Invalid request body. Please ensure you are sending valid JSON.' },
+        { status: 400 }
+      );
+    }
+
+    const titleStr = String(body.title || '').trim();
+    if (titleStr.length === 0) {
+      return NextResponse.json({ error: 'Missing required field: title' }, { status: 400 });
+    }
+
+    if (titleStr.length > MAX_TITLE_LENGTH) {
+      return NextResponse.json(
+        { error: `Title exceeds maximum length (${MAX_TITLE_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const parsed = playbookAttributesSchema.safeParse(body.attributes);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid playbook positions' },
+        { status: 400 }
+      );
+    }
+
+    // Check library management access (includes implicit access check)
+    let hasManageAccess: boolean;
+    try {
+      hasManageAccess = await canManageLibrary(session.user.id, PLAYBOOKS_LIBRARY);
+    } catch (authError) {
+      logger.error('Failed to check library management access', authError, {
+        route: 'POST /api/v2/playbooks/create',
+        userId: session.user.id,
+        libraryId: PLAYBOOKS_LIBRARY,
+      });
+      return NextResponse.json(
+        { error: 'Unable to verify your permissions. Please try again.' },
+        { status: 500 }
+      );
+    }
+
+    if (!hasManageAccess) {
+      logger.warn('Playbook library management access denied', {
+        userId: session.user.id,
+        libraryId: PLAYBOOKS_LIBRARY,
+        route: 'POST /api/v2/playbooks/create',
+      });
+      return NextResponse.json(
+        { error: 'You do not have permission to create playbooks in this library' },
+        { status: 403 }
+      );
+    }
+
+    // Default the body to a readable rendering so the git copy is reviewable
+    const contentStr = String(body.content || '').trim() || renderPlaybookForPrompt(titleStr, parsed.data);
+
+    const input: CreateBlockInput<PlaybookBlock> = {
+      libraryId: PLAYBOOKS_LIBRARY,
+      title: titleStr,
+      content: contentStr,
+      slug: body.slug as string | undefined,
+      summary: (body.summary ? String(body.summary).trim() : undefined) || undefined,
+      categories: parsed.data.positions.map((p) => p.category),
+      attributes: parsed.data,
+      entryType: 'playbook',
+      teamId: body.teamId as string | undefined,
+      ownerId: session.user.id,
+      status: 'ACTIVE',
+    };
+
+    const playbook = await createBlock(input);
+
+    logger.info('Playbook created', {
+      userId: session.user.id,
+      playbookId: playbook.id,
+      positionCount: parsed.data.positions.length,
+      route: 'POST /api/v2/playbooks/create',
+    });
+
+    return NextResponse.json(playbook, { status: 201 });
+  } catch (error) {
+    logger.error('Error creating playbook', error, {
+      route: 'POST /api/v2/playbooks/create',
+      userId: session?.user?.id,
+      inputTitle: body?.title ? String(body.title).substring(0, 50) : undefined,
+    });
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A playbook with this slug already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create playbook. Please try again or contact support if the problem persists.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,12 @@
 /**
  * Export project rows to CSV with transparency details (confidence, reasoning, inference, sources).
+ *
+ * With `format=original`, answers are instead written back into the uploaded
+ * .xlsx (see original-workbook-export.ts). Query parameters for that mode:
+ * - answerColumn: Column letter used on every sheet (e.g. "C")
+ * - answerColumnMap: JSON object of sheet name -> column letter (overrides answerColumn)
+ * - comments: "true" to add confidence as a cell note
+ * The chosen columns are saved to the project config and reused as the default.
  */
 
 import { NextRequest } from "next/server";
@@ -8,6 +15,13 @@ import { errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import prisma from "@/lib/prisma";
 import type { Prisma } from "@prisma/client";
+import { getFromS3 } from "@/lib/s3";
+import {
+  isValidColumnLetter,
+  rowsToAnswerPlacements,
+  writeAnswersToWorkbook,
+  type OriginalSourceFile,
+} from "@/lib/v2/rfp/original-workbook-export";
 
 type RouteParams = { params: Promise<{ id: string }> };
 
@@ -34,6 +48,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return errors.notFound("Project not found");
     }
 
+    if (request.nextUrl.searchParams.get("format") === "original") {
+      return await exportToOriginalWorkbook(request, project);
+    }
+
     const header = [
       "rowNumber",
       "sourceTab",
@@ -94,3 +112,86 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     return errors.internal("Failed to export project");
   }
 }
+
+type ProjectWithRows = Prisma.BulkProjectGetPayload<{ include: { rows: true } }>;
+
+function parseAnswerColumns(
+  request: NextRequest,
+  saved: unknown
+): string | Record<string, string> | null {
+  const searchParams = request.nextUrl.searchParams;
+  const mapParam = searchParams.get("answerColumnMap");
+  if (mapParam) {
+    const parsed = JSON.parse(mapParam) as unknown;
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("answerColumnMap must be a JSON object");
+    }
+    for (const [sheet, column] of Object.entries(parsed)) {
+      if (typeof column !== "string" || !isValidColumnLetter(column)) {
+        throw new Error(`Invalid answer column for sheet "${sheet}"`);
+      }
+    }
+    return parsed as Record<string, string>;
+  }
+
+  const column = searchParams.get("answerColumn");
+  if (column) {
+    if (!isValidColumnLetter(column)) {
+      throw new Error("answerColumn must be a column letter such as C");
+    }
+    return column.toUpperCase();
+  }
+
+  return (saved as string | Record<string, string> | undefined) ?? null;
+}
+
+async function exportToOriginalWorkbook(request: NextRequest, project: ProjectWithRows) {
+  const config = (project.config as Record<string, unknown>) || {};
+  const sourceFile = config.sourceFile as OriginalSourceFile | undefined;
+
+  if (!sourceFile) {
+    return errors.badRequest(
+      "The original workbook is not available for this project. Only .xlsx uploads can be exported in original format."
+    );
+  }
+
+  let answerColumns: string | Record<string, string> | null;
+  try {
+    answerColumns = parseAnswerColumns(request, config.answerColumns);
+  } catch (error) {
+    return errors.badRequest(error instanceof Error ? error.message : "Invalid answer column");
+  }
+
+  if (!answerColumns) {
+    return errors.badRequest("answerColumn or answerColumnMap is required");
+  }
+
+  const original = await getFromS3(sourceFile.s3Key);
+  const result = await writeAnswersToWorkbook(original, rowsToAnswerPlacements(project.rows), {
+    answerColumns,
+    includeConfidenceNotes: request.nextUrl.searchParams.get("comments") === "true",
+  });
+
+  if (JSON.stringify(config.answerColumns) !== JSON.stringify(answerColumns)) {
+    await prisma.bulkProject.update({
+      where: { id: project.id },
+      data: { config: { ...config, answerColumns } as Prisma.InputJsonValue },
+    });
+  }
+
+  logger.info("Exported answers to original workbook", {
+    projectId: project.id,
+    written: result.written,
+    skipped: result.skipped.length,
+  });
+
+  return new Response(new Uint8Array(result.buffer), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "Content-Disposition": `attachment; filename="${sourceFile.fileName}"`,
+      "X-Answers-Written": String(result.written),
+      "X-Answers-Skipped": String(result.skipped.length),
+    },
+  });
+}
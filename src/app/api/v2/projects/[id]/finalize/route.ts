@@ -1,5 +1,8 @@
 /**
  * Finalize or unfinalize a project.
+ *
+ * Finalizing pins the project to the skill versions its answers used
+ * (see skill-version-pins.ts). Unfinalizing leaves the pins in place.
  */
 
 import { NextRequest } from "next/server";
@@ -8,6 +11,8 @@ import { requireAuth } from "@/lib/apiAuth";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import prisma from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/v2/audit-log";
+import { pinProjectSkillVersions } from "@/lib/v2/rfp/skill-version-pins";
 import { z } from "zod";
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -58,6 +63,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       data,
     });
 
+    await recordAuditEvent({
+      eventType: parsed.data.action === "finalize" ? "project.finalized" : "project.unfinalized",
+      actorId: userId,
+      targetType: "project",
+      targetId: projectId,
+      teamId: project.teamId,
+      data: { name: project.name, status: { from: project.status, to: updated.status } },
+    });
+
+    if (parsed.data.action === "finalize") {
+      await pinProjectSkillVersions(projectId, userId);
+    }
+
     // Revalidate project pages to ensure fresh data
     revalidatePath(`/v2/rfps/${projectId}`);
     revalidatePath(`/v2/contracts`);
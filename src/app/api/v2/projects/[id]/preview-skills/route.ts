@@ -16,11 +16,13 @@ import { apiSuccess, errors } from '@/lib/apiResponse';
 import { logger } from '@/lib/logger';
 import prisma from '@/lib/prisma';
 import {
+  applySemanticMatches,
   matchSkillsToAllQuestions,
   type QuestionInfo,
   type SkillInfo,
 } from '@/lib/v2/rfp/question-scope-matcher';
-import type { LibraryId } from '@/types/v2';
+import { scoreSkillsByEmbedding } from '@/lib/v2/embeddings';
+import type { LibraryId, ScopeDefinition } from '@/types/v2';
 import { estimateTokens } from '@/lib/tokenUtils';
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -168,7 +170,28 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const allDbSkills = [...dbSkills, ...customerSkills];
     const customerSkillIds = new Set(customerSkills.map(s => s.id));
 
-    const skillDetails = matchResult.skills.map(skill => {
+    // Supplement LLM ratings with embedding similarity over every question
+    // (the LLM only sees the first 30). Failures fall back to LLM-only results.
+    let rankedSkills = matchResult.skills;
+    try {
+      const semanticScores = await scoreSkillsByEmbedding(
+        questions.map(q => (q.context ? `${q.context}\n${q.question}` : q.question)),
+        allDbSkills.map(skill => ({
+          id: skill.id,
+          title: skill.title,
+          scopeDefinition: (skill.attributes as Record<string, unknown> | null)
+            ?.scopeDefinition as ScopeDefinition | undefined,
+        }))
+      );
+      rankedSkills = applySemanticMatches(matchResult.skills, semanticScores);
+    } catch (error) {
+      logger.warn('Semantic skill scoring failed, using LLM matches only', {
+        projectId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const skillDetails = rankedSkills.map(skill => {
       const dbSkill = allDbSkills.find(s => s.id === skill.skillId);
       const skillContent = dbSkill?.content || '';
       const estimatedTokens = estimateTokens(skillContent);
@@ -5,8 +5,11 @@
  *
  * Processes ALL questions in batches with a single skill set.
  *
- * When Redis is configured: Enqueues job and returns immediately.
- * When Redis is not configured: Runs synchronously (fire-and-forget from frontend).
+ * Always enqueues a job and returns immediately.
+ * When Redis is configured: the ECS worker task (or `npm run workers`) runs it.
+ * When Redis is not configured: the job goes on the Postgres fallback queue and
+ * is drained in this process (fire-and-forget from frontend), since no worker
+ * service is deployed without Redis. A running `npm run workers` may claim it first.
  *
  * Body:
  * - skillIds: string[] - Skills to apply to ALL questions
@@ -23,7 +26,9 @@ import { generateErrorId } from '@/lib/error-id';
 import prisma from '@/lib/prisma';
 import { isQueueConfigured } from '@/lib/queue/config';
 import { addJob, QUEUE_NAMES } from '@/lib/queue/client';
-import { processProjectBatches } from '@/lib/v2/rfp/batch-processor';
+import { runQueuedJobInline } from '@/lib/queue/workers';
+import { estimateContextFit, estimateRunTokens } from '@/lib/v2/questions/process';
+import { checkTokenBudget, TokenBudgetExceededError } from '@/lib/v2/teams';
 import type { LibraryId } from '@/types/v2';
 import type { ModelSpeed } from '@/lib/config';
 
@@ -67,6 +72,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         ownerId: true,
         status: true,
         customerId: true,
+        teamId: true,
         _count: {
           select: { rows: true },
         },
@@ -107,92 +113,59 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return errors.badRequest('No valid skills found');
     }
 
-    // Check if Redis/queue is configured
-    if (isQueueConfigured()) {
-      // ASYNC PATH: Enqueue job and return immediately
-      logger.info('Enqueueing batch processing job (async)', {
-        projectId,
-        projectName: project.name,
-        questionCount: project._count.rows,
-        batchSize,
-        skillCount: totalSkillCount,
-        librarySkillCount,
-        customerSkillCount,
-        libraryId,
-        modelSpeed,
-      });
-
-      // Update project status to PROCESSING before enqueueing
-      await prisma.bulkProject.update({
-        where: { id: projectId },
-        data: { status: 'PROCESSING' },
-      });
+    // Pre-flight: refuse the whole run up front rather than failing mid-way in the worker
+    const fit = await estimateContextFit({
+      questionCount: project._count.rows,
+      library: libraryId,
+      approvedSkillIds: skillIds,
+    });
+    await checkTokenBudget(
+      { teamId: project.teamId, userId: auth.session.user.id },
+      estimateRunTokens(fit, project._count.rows, batchSize)
+    );
 
-      const jobId = await addJob(
-        QUEUE_NAMES.BULK_OPERATIONS,
-        'process_project_answers',
-        {
-          type: 'process_project_answers',
-          projectId,
-          skillIds,
-          batchSize,
-          libraryId,
-          modelSpeed,
-          userId: auth.session.user.id,
-          userEmail: auth.session.user.email || undefined,
-        }
-      );
-
-      return apiSuccess({
-        success: true,
-        data: {
-          projectId,
-          jobId,
-          mode: 'async',
-          message: 'Processing job enqueued. Poll status endpoint for progress.',
-          totalQuestions: project._count.rows,
-          batchSize,
-          skillCount: totalSkillCount,
-        },
-      });
-    } else {
-      // SYNC PATH: Fire-and-forget (fallback when Redis not configured)
-      // Return immediately and let frontend poll for status to avoid 504 timeouts
-      logger.info('Starting batch processing (sync fire-and-forget)', {
-        projectId,
-        projectName: project.name,
-        questionCount: project._count.rows,
-        batchSize,
-        skillCount: totalSkillCount,
-        librarySkillCount,
-        customerSkillCount,
-        libraryId,
-        modelSpeed,
-      });
+    logger.info('Enqueueing batch processing job', {
+      projectId,
+      projectName: project.name,
+      questionCount: project._count.rows,
+      batchSize,
+      skillCount: totalSkillCount,
+      librarySkillCount,
+      customerSkillCount,
+      libraryId,
+      modelSpeed,
+      backend: isQueueConfigured() ? 'redis' : 'postgres',
+    });
 
-      // Update project status to PROCESSING before starting
-      await prisma.bulkProject.update({
-        where: { id: projectId },
-        data: { status: 'PROCESSING' },
-      });
+    // Update project status to PROCESSING before enqueueing
+    await prisma.bulkProject.update({
+      where: { id: projectId },
+      data: { status: 'PROCESSING' },
+    });
 
-      // Fire-and-forget: start processing without awaiting
-      // This prevents 504 gateway timeouts on long-running batches
-      processProjectBatches({
+    const runInline = !isQueueConfigured();
+    const jobId = await addJob(
+      QUEUE_NAMES.BULK_OPERATIONS,
+      'process_project_answers',
+      {
+        type: 'process_project_answers',
         projectId,
         skillIds,
         batchSize,
         libraryId,
         modelSpeed,
-      }).catch((error) => {
-        const errorId = generateErrorId();
-        logger.error('Background batch processing failed', error, {
-          projectId,
-          errorId,
-          route: '/api/v2/projects/[id]/process-batch',
-        });
-        // Update status to ERROR (fire-and-forget)
-        prisma.bulkProject
+        userId: auth.session.user.id,
+        userEmail: auth.session.user.email || undefined,
+      },
+      // Nothing retries an inline run, so a failure is final
+      runInline ? { attempts: 1 } : undefined
+    );
+
+    if (runInline) {
+      // Fire-and-forget: the frontend polls for status to avoid 504 timeouts
+      void runQueuedJobInline(QUEUE_NAMES.BULK_OPERATIONS, jobId).then(async (status) => {
+        if (status !== 'FAILED') return;
+        await prisma.bulkProject
           .update({
             where: { id: projectId },
             data: { status: 'ERROR' },
@@ -200,26 +173,32 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           .catch((statusError) => {
             logger.error('Failed to update project status to ERROR after batch failure', statusError, {
               projectId,
-              errorId,
+              jobId,
               route: '/api/v2/projects/[id]/process-batch',
-              originalError: error instanceof Error ? error.message : 'Unknown',
             });
           });
       });
-
-      return apiSuccess({
-        success: true,
-        data: {
-          projectId,
-          mode: 'sync-background',
-          message: 'Processing started. Poll status endpoint for progress.',
-          totalQuestions: project._count.rows,
-          batchSize,
-          skillCount: totalSkillCount,
-        },
-      });
     }
+
+    return apiSuccess({
+      success: true,
+      data: {
+        projectId,
+        jobId,
+        mode: runInline ? 'sync-background' : 'async',
+        message: runInline
+          ? 'Processing started. Poll status endpoint for progress.'
+          : 'Processing job enqueued. Poll status endpoint for progress.',
+        totalQuestions: project._count.rows,
+        batchSize,
+        skillCount: totalSkillCount,
+      },
+    });
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return errors.tooManyRequests(error.message);
+    }
+
     const errorId = generateErrorId();
     logger.error('Failed to process batches', error, {
       projectId,
@@ -12,7 +12,13 @@ import { requireAuth } from "@/lib/apiAuth";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import prisma from "@/lib/prisma";
-import { processQuestionBatchWithScope } from "@/lib/v2/questions/process";
+import {
+  estimateContextFit,
+  estimateRunTokens,
+  MAX_BATCH_SIZE,
+  processQuestionBatchWithScope,
+} from "@/lib/v2/questions/process";
+import { checkTokenBudget, TokenBudgetExceededError } from "@/lib/v2/teams";
 import type { Prisma } from "@prisma/client";
 import { z } from "zod";
 
@@ -93,6 +99,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return errors.badRequest("No valid questions found in rows");
     }
 
+    // Pre-flight: refuse the whole run up front rather than failing mid-way
+    const fit = await estimateContextFit({
+      questionCount: questions.length,
+      library,
+      categories,
+      approvedSkillIds,
+    });
+    await checkTokenBudget(
+      { teamId: project.teamId, userId },
+      estimateRunTokens(fit, questions.length, batchSize ?? MAX_BATCH_SIZE)
+    );
+
     // Mark rows as processing and project in progress
     await prisma.bulkProject.update({
       where: { id: projectId },
@@ -116,6 +134,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         maxSkills,
         categories,  // Falls back to this if autoSelectSkills=false
         approvedSkillIds,  // Use pre-approved skills if provided
+        tracingOptions: {
+          userId,
+          userEmail: auth.session.user.email || undefined,
+          teamId: project.teamId || undefined,
+        },
       });
 
       if (!Array.isArray(outputs) || outputs.length !== questions.length) {
@@ -250,6 +273,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       },
     });
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return errors.tooManyRequests(error.message);
+    }
     logger.error("Process project error", error, { route: "/api/v2/projects/[id]/process", projectId });
     return errors.internal("Failed to process project rows");
   }
@@ -100,6 +100,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
               reasoning: (output?.reasoning as string) || null,
               inference: (output?.inference as string) || null,
               remarks: (output?.remarks as string) || null,
+              reusedFrom: output?.reusedFrom || null,
               status: rowObj.status,
               flaggedForReview: rowObj.flaggedForReview,
               reviewNote: (rowObj.reviewNote as string) || null,
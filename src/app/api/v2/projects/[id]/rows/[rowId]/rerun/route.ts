@@ -8,6 +8,7 @@ import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import prisma from "@/lib/prisma";
 import { processQuestionBatchWithScope } from "@/lib/v2/questions/process";
+import { TokenBudgetExceededError } from "@/lib/v2/teams";
 import type { Prisma } from "@prisma/client";
 import { z } from "zod";
 
@@ -45,6 +46,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         id: rowId,
         project: { id: projectId, ownerId: userId },
       },
+      include: { project: { select: { teamId: true } } },
     });
 
     if (!row) {
@@ -73,9 +75,17 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         minScopeScore,
         maxSkills,
         categories,
+        tracingOptions: {
+          userId,
+          userEmail: auth.session.user.email || undefined,
+          teamId: row.project.teamId || undefined,
+        },
       });
 
       const output = outputs[0];
+      // A regenerated answer replaces any answer reused from answer memory
+      const previousOutput = { ...(row.outputData as Prisma.JsonObject) };
+      delete previousOutput.reusedFrom;
 
       await prisma.bulkRow.update({
         where: { id: rowId },
@@ -83,7 +93,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           status: "COMPLETED",
           processedAt: new Date(),
           outputData: {
-            ...(row.outputData as Prisma.JsonObject),
+            ...previousOutput,
             response: output.response,
             confidence: output.confidence,
             sources: output.sources,
@@ -106,6 +116,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       throw error;
     }
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return errors.tooManyRequests(error.message);
+    }
     logger.error("Rerun row error", error, { route: "/api/v2/projects/[id]/rows/[rowId]/rerun", projectId, rowId });
     return errors.internal("Failed to rerun row");
   }
@@ -0,0 +1,75 @@
+/**
+ * Accept or discard an answer that was reused from answer memory.
+ *
+ * POST /api/v2/projects/[id]/rows/[rowId]/reuse
+ * Body:
+ *   - action: 'accept' | 'discard'
+ *
+ * 'discard' resets the row to PENDING; regenerate it with /rerun or the next batch run.
+ */
+
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/apiAuth";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import {
+  acceptReusedAnswer,
+  discardReusedAnswer,
+  getReusedFrom,
+} from "@/lib/v2/answer-memory";
+
+type RouteParams = { params: Promise<{ id: string; rowId: string }> };
+
+const reuseSchema = z.object({
+  action: z.enum(["accept", "discard"]),
+});
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth();
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { id: projectId, rowId } = await params;
+  const userId = auth.session.user.id;
+
+  try {
+    const body = await request.json();
+    const parsed = reuseSchema.safeParse(body);
+    if (!parsed.success) {
+      return errors.badRequest(parsed.error.issues[0]?.message || "Invalid request");
+    }
+
+    const row = await prisma.bulkRow.findFirst({
+      where: {
+        id: rowId,
+        project: { id: projectId, ownerId: userId },
+      },
+    });
+
+    if (!row) {
+      return errors.notFound("Row not found");
+    }
+
+    if (!getReusedFrom(row.outputData)) {
+      return errors.badRequest("Row does not have a reused answer");
+    }
+
+    if (parsed.data.action === "accept") {
+      const reusedFrom = await acceptReusedAnswer(rowId, userId);
+      return apiSuccess({ success: true, data: { rowId, reusedFrom } });
+    }
+
+    await discardReusedAnswer(rowId);
+    return apiSuccess({ success: true, data: { rowId, status: "PENDING" } });
+  } catch (error) {
+    logger.error("Reused answer decision error", error, {
+      route: "/api/v2/projects/[id]/rows/[rowId]/reuse",
+      projectId,
+      rowId,
+    });
+    return errors.internal("Failed to update reused answer");
+  }
+}
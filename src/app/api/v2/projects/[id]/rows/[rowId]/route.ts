@@ -9,6 +9,7 @@ import { logger } from "@/lib/logger";
 import prisma from "@/lib/prisma";
 import type { Prisma } from "@prisma/client";
 import { z } from "zod";
+import { syncAnswerMemory } from "@/lib/v2/answer-memory";
 
 type RouteParams = { params: Promise<{ id: string; rowId: string }> };
 
@@ -102,6 +103,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       data,
     });
 
+    if (parsed.data.reviewStatus !== undefined || parsed.data.userEditedAnswer !== undefined) {
+      await syncAnswerMemory("project_row", rowId);
+    }
+
     const input = updated.inputData as Prisma.JsonObject;
     const output = updated.outputData as Prisma.JsonObject;
 
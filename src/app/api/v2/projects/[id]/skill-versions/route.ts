@@ -0,0 +1,92 @@
+/**
+ * Skill versions an RFP project's answers are pinned to.
+ *
+ * GET - list pins (pinned snapshot + the skill's live version)
+ * POST - pin to the versions the completed answers used
+ * DELETE - unpin, so re-processing uses the live skills
+ */
+
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/apiAuth";
+import { apiSuccess, errors } from "@/lib/apiResponse";
+import { logger } from "@/lib/logger";
+import prisma from "@/lib/prisma";
+import {
+  listProjectSkillPins,
+  pinProjectSkillVersions,
+  unpinProjectSkillVersions,
+} from "@/lib/v2/rfp/skill-version-pins";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function findOwnedProject(projectId: string, userId: string) {
+  return prisma.bulkProject.findFirst({
+    where: { id: projectId, ownerId: userId },
+    select: { id: true },
+  });
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth();
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { id: projectId } = await params;
+
+  try {
+    if (!(await findOwnedProject(projectId, auth.session.user.id))) {
+      return errors.notFound("Project not found");
+    }
+
+    const pins = await listProjectSkillPins(projectId);
+    return apiSuccess({ success: true, data: { pinned: pins.length > 0, pins } });
+  } catch (error) {
+    logger.error("List skill version pins error", error, { route: "/api/v2/projects/[id]/skill-versions", projectId });
+    return errors.internal("Failed to load skill versions");
+  }
+}
+
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth();
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { id: projectId } = await params;
+  const userId = auth.session.user.id;
+
+  try {
+    if (!(await findOwnedProject(projectId, userId))) {
+      return errors.notFound("Project not found");
+    }
+
+    const pins = await pinProjectSkillVersions(projectId, userId);
+    return apiSuccess({ success: true, data: { pinned: pins.length > 0, pins } });
+  } catch (error) {
+    logger.error("Pin skill versions error", error, { route: "/api/v2/projects/[id]/skill-versions", projectId });
+    return errors.internal("Failed to pin skill versions");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAuth();
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const { id: projectId } = await params;
+  const userId = auth.session.user.id;
+
+  try {
+    if (!(await findOwnedProject(projectId, userId))) {
+      return errors.notFound("Project not found");
+    }
+
+    const removed = await unpinProjectSkillVersions(projectId, userId);
+    return apiSuccess({ success: true, data: { removed } });
+  } catch (error) {
+    logger.error("Unpin skill versions error", error, { route: "/api/v2/projects/[id]/skill-versions", projectId });
+    return errors.internal("Failed to unpin skill versions");
+  }
+}
@@ -5,7 +5,7 @@
  */
 
 import { NextRequest } from "next/server";
-import { requireAuth } from "@/lib/apiAuth";
+import { requireApiAuth } from "@/lib/apiAuth";
 import { apiSuccess, errors } from "@/lib/apiResponse";
 import { logger } from "@/lib/logger";
 import prisma from "@/lib/prisma";
@@ -23,7 +23,7 @@ const createProjectSchema = z.object({
 // GET /api/v2/projects
 // List projects for the current user
 export async function GET(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireApiAuth(request, "rfp");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -99,7 +99,7 @@ export async function GET(request: NextRequest) {
 // POST /api/v2/projects
 // Create a new project
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireApiAuth(request, "rfp");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -123,7 +123,8 @@ export async function POST(request: NextRequest) {
         projectType,
         config: (config || {}) as Prisma.InputJsonValue,
         ownerId: userId,
-        teamId,
+        // API keys issued for a team create projects in that team by default
+        teamId: teamId ?? auth.apiKey?.teamId ?? undefined,
         status: "DRAFT",
       },
     });
@@ -13,6 +13,9 @@ import type { Prisma } from "@prisma/client";
 import { StructuredUploadParser } from "@/lib/v2/rfp/structured-upload-parser";
 import type { LibraryId } from "@/types/v2";
 import { canAccessCustomer } from "@/lib/v2/customers/customer-service";
+import { generateS3Key, getMimeType, isS3Configured, uploadToS3 } from "@/lib/s3";
+import type { OriginalSourceFile } from "@/lib/v2/rfp/original-workbook-export";
+import { prefillReusedAnswers } from "@/lib/v2/answer-memory";
 
 export async function POST(request: NextRequest) {
   const auth = await requireAuth();
@@ -159,6 +162,19 @@ export async function POST(request: NextRequest) {
     const fileContext = fileContextParts.join('\n');
     const fileContextTokens = Math.ceil(fileContext.length / 4); // Rough estimate: 1 token ≈ 4 chars
 
+    // Keep the original workbook so answers can be written back into it on export.
+    // Upload failures only disable that export mode - the project is still created.
+    let sourceFile: OriginalSourceFile | undefined;
+    if (/\.xlsx$/i.test(fileName) && isS3Configured()) {
+      try {
+        const s3Key = generateS3Key("xlsx", fileName, `rfp_${userId}`);
+        await uploadToS3(s3Key, Buffer.from(buffer), getMimeType("xlsx"));
+        sourceFile = { s3Key, fileName, fileType: "xlsx" };
+      } catch (error) {
+        logger.error("Failed to store original RFP workbook", error, { fileName });
+      }
+    }
+
     // Create project
     const projectName = fileName.replace(/\.[^/.]+$/, ""); // Remove extension
     const project = await prisma.bulkProject.create({
@@ -177,6 +193,7 @@ export async function POST(request: NextRequest) {
             sectionsDetected: parseResult.metadata.sectionsDetected,
           },
           libraryId, // Store for use in skill matching phase
+          ...(sourceFile && { sourceFile }),
         } as Prisma.InputJsonValue,
       },
     });
@@ -195,8 +212,8 @@ export async function POST(request: NextRequest) {
             question: question.question,
             ...(question.context && { context: question.context }),
             ...(question.category && { category: question.category }),
-            // Preserve original file location for reference
-            originalSheetName: clusterConfig.title,
+            // Preserve original file location for reference and write-back export
+            originalSheetName: question.sheetName || clusterConfig.title,
             originalRowIndex: question.originalRowIndex,
           } as Prisma.InputJsonValue,
           outputData: {} as Prisma.InputJsonValue,
@@ -212,6 +229,15 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Pre-fill repeat questions from previously approved answers
+    let reusedAnswers = 0;
+    try {
+      const { reused } = await prefillReusedAnswers(project.id);
+      reusedAnswers = reused;
+    } catch (error) {
+      logger.error("Failed to pre-fill reused answers", error, { projectId: project.id });
+    }
+
     // Return project with stats
     const project_with_stats = await prisma.bulkProject.findUnique({
       where: { id: project.id },
@@ -231,6 +257,7 @@ export async function POST(request: NextRequest) {
             rowCount: project_with_stats?._count.rows || 0,
           },
           structure: parseResult.metadata,
+          reusedAnswers,
         },
       },
       201
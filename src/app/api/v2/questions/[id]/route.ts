@@ -14,6 +14,7 @@ import { NextRequest } from 'next/server';
 import { requireAuth } from '@/lib/apiAuth';
 import { apiSuccess, errors } from '@/lib/apiResponse';
 import prisma from '@/lib/prisma';
+import { syncAnswerMemory } from '@/lib/v2/answer-memory';
 
 export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const auth = await requireAuth();
@@ -76,6 +77,10 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       data: updates,
     });
 
+    if (updates.reviewStatus || updates.userEditedAnswer !== undefined) {
+      await syncAnswerMemory('question', id);
+    }
+
     return apiSuccess({
       success: true,
       data: { question: updated },
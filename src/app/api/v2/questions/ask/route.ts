@@ -1,9 +1,12 @@
 import { NextRequest } from "next/server";
-import { requireAuth } from "@/lib/apiAuth";
-import { apiSuccess, errors } from "@/lib/apiResponse";
+import { requireApiAuth } from "@/lib/apiAuth";
+import { apiSuccess, errors, sanitizeErrorMessage } from "@/lib/apiResponse";
+import { createSSEResponse } from "@/lib/sse";
 import { logger } from "@/lib/logger";
 import prisma from "@/lib/prisma";
 import { processQuestion } from "@/lib/v2/questions/process";
+import type { ProcessQuestionParams, QuestionOutput } from "@/lib/v2/questions/types";
+import { TokenBudgetExceededError } from "@/lib/v2/teams";
 import { z } from "zod";
 import { Prisma } from "@prisma/client";
 
@@ -14,10 +17,18 @@ const askSchema = z.object({
   categories: z.array(z.string()).optional(),
   customerId: z.string().optional(),
   modelSpeed: z.enum(["fast", "quality"]).default("quality"),
+  stream: z.boolean().optional().default(false),
 });
 
+/**
+ * POST /api/v2/questions/ask
+ *
+ * With `stream: true` the response is server-sent events (see @/lib/sse):
+ * `text` deltas of the answer, then `done` with the same payload the JSON
+ * response returns (confidence, sources, reasoning, transparency).
+ */
 export async function POST(request: NextRequest) {
-  const auth = await requireAuth();
+  const auth = await requireApiAuth(request, "chat");
   if (!auth.authorized) {
     return auth.response;
   }
@@ -32,7 +43,7 @@ export async function POST(request: NextRequest) {
       return errors.badRequest(parsed.error.issues[0]?.message || "Invalid request");
     }
 
-    const { question, context, library, categories, customerId, modelSpeed } = parsed.data;
+    const { question, context, library, categories, customerId, modelSpeed, stream } = parsed.data;
 
     // Create question history entry
     const historyEntry = await prisma.v2QuestionHistory.create({
@@ -47,18 +58,21 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    try {
-      // Process question
-      const output = await processQuestion({
-        question,
-        context,
-        library,
-        categories,
-        customerId,
-        modelSpeed,
-      });
+    const processParams: ProcessQuestionParams = {
+      question,
+      context,
+      library,
+      categories,
+      customerId,
+      modelSpeed,
+      tracingOptions: {
+        userId,
+        userEmail: auth.session.user.email || undefined,
+      },
+    };
 
-      // Update with results
+    // Update with results
+    const complete = async (output: QuestionOutput) => {
       const updated = await prisma.v2QuestionHistory.update({
         where: { id: historyEntry.id },
         data: {
@@ -68,16 +82,18 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      return apiSuccess({
+      return {
         success: true,
         data: {
           id: updated.id,
           outputData: output,
           status: "COMPLETED",
         },
-      });
-    } catch (processError) {
-      // Update with error
+      };
+    };
+
+    // Update with error
+    const fail = async (processError: unknown) => {
       const errorMessage =
         processError instanceof Error
           ? processError.message
@@ -90,10 +106,40 @@ export async function POST(request: NextRequest) {
           errorMessage,
         },
       });
+    };
+
+    if (stream) {
+      return createSSEResponse(async (send, signal) => {
+        try {
+          const output = await processQuestion({
+            ...processParams,
+            stream: { onText: (delta) => send("text", { delta }), signal },
+          });
+          send("done", await complete(output));
+        } catch (error) {
+          await fail(error).catch((updateError) =>
+            logger.warn("Failed to mark question history as errored", updateError, { id: historyEntry.id })
+          );
+          if (!(error instanceof TokenBudgetExceededError) && !signal.aborted) {
+            logger.error("Ask question stream error", error, { route: "/api/v2/questions/ask" });
+          }
+          const errorMessage = error instanceof Error ? error.message : "Failed to process question";
+          send("error", { error: sanitizeErrorMessage(errorMessage, "Failed to process question") });
+        }
+      }, request.signal);
+    }
 
+    try {
+      const output = await processQuestion(processParams);
+      return apiSuccess(await complete(output));
+    } catch (processError) {
+      await fail(processError);
       throw processError;
     }
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return errors.tooManyRequests(error.message);
+    }
     logger.error("Ask question error", error, { route: "/api/v2/questions/ask" });
     const errorMessage =
       error instanceof Error ? error.message : "Failed to process question";
@@ -22,6 +22,7 @@ const previewSchema = z.object({
   context: z.string().optional(),
   library: z.string().default('knowledge'),
   maxSkills: z.number().int().min(1).max(30).default(10),
+  strategy: z.enum(['llm', 'embedding', 'hybrid-embedding']).default('llm'),
 });
 
 export async function POST(request: NextRequest) {
@@ -38,7 +39,7 @@ export async function POST(request: NextRequest) {
       return errors.badRequest(parsed.error.issues[0]?.message || 'Invalid request');
     }
 
-    const { question, context, library, maxSkills } = parsed.data;
+    const { question, context, library, maxSkills, strategy } = parsed.data;
 
     // Map library to libraryId
     const libraryMap: Record<string, LibraryId> = {
@@ -82,7 +83,7 @@ export async function POST(request: NextRequest) {
         scopeIndex,
         libraryId,
         mode: 'preview',
-        options: { maxSkills },
+        options: { maxSkills, strategy },
       });
 
       if (result.mode !== 'preview') {
@@ -4,10 +4,12 @@
  * PATCH /api/v2/reviews/[id] - Update a review item (approve, mark corrected, resolve flag, etc.)
  * Body:
  *   - reviewStatus?: 'APPROVED' | 'CORRECTED' (for project rows)
+ *                    'APPROVED' | 'REJECTED' (for skill proposals - approval applies the update)
+ *                    'DISMISSED' (for contradictions - not a real conflict, later scans leave it closed)
  *   - reviewNote?: string
  *   - flagResolved?: boolean (for flagged items)
  *   - flagResolutionNote?: string
- *   - source: 'project' | 'question' (required)
+ *   - source: 'project' | 'question' | 'skill' | 'contradiction' (required)
  *   - projectId?: string (required if source='project')
  */
 
@@ -15,6 +17,11 @@ import { NextRequest } from 'next/server';
 import { requireAuth } from '@/lib/apiAuth';
 import { apiSuccess, errors } from '@/lib/apiResponse';
 import prisma from '@/lib/prisma';
+import { syncAnswerMemory } from '@/lib/v2/answer-memory';
+import { canManageLibrary } from '@/lib/v2/teams';
+import { ProposalConflictError, reviewSkillProposal } from '@/lib/v2/skills/skill-feedback-service';
+import { reviewSkillContradiction } from '@/lib/v2/skills/contradiction-scan-service';
+import type { LibraryId } from '@/types/v2';
 
 export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const auth = await requireAuth();
@@ -29,13 +36,81 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
     const body = await request.json();
     const { source, projectId, reviewStatus, flagResolved, flagResolutionNote, note } = body;
 
-    if (!source || !['project', 'question'].includes(source)) {
-      return errors.badRequest('source is required and must be "project" or "question"');
+    if (!source || !['project', 'question', 'skill', 'contradiction'].includes(source)) {
+      return errors.badRequest('source is required and must be "project", "question", "skill" or "contradiction"');
     }
 
     // note field may come as 'note' from the client
     const resolutionNote = note || flagResolutionNote;
 
+    if (source === 'contradiction') {
+      // Resolve (after fixing one of the skills) or dismiss a cross-skill contradiction
+      if (reviewStatus && reviewStatus !== 'DISMISSED') {
+        return errors.badRequest('reviewStatus must be "DISMISSED" for contradictions (omit it to resolve)');
+      }
+
+      // Owner of either skill, or anyone who can manage the library
+      const contradiction = await prisma.skillContradiction.findUnique({
+        where: { id },
+        select: {
+          libraryId: true,
+          skillA: { select: { ownerId: true } },
+          skillB: { select: { ownerId: true } },
+        },
+      });
+
+      if (
+        !contradiction ||
+        (contradiction.skillA.ownerId !== userId &&
+          contradiction.skillB.ownerId !== userId &&
+          !(await canManageLibrary(userId, contradiction.libraryId as LibraryId)))
+      ) {
+        return errors.notFound('Contradiction not found');
+      }
+
+      const result = await reviewSkillContradiction(
+        id,
+        reviewStatus === 'DISMISSED' ? 'dismissed' : 'resolved',
+        userId,
+        resolutionNote
+      );
+      return apiSuccess({ id, source: 'contradiction', status: result.status });
+    }
+
+    if (source === 'skill') {
+      // Approve or reject a skill update proposal (Slack bot feedback loop)
+      if (!reviewStatus || !['APPROVED', 'REJECTED'].includes(reviewStatus)) {
+        return errors.badRequest('reviewStatus must be "APPROVED" or "REJECTED" for skill proposals');
+      }
+
+      // Skill owner, or anyone who can manage the skill's library
+      const assignment = await prisma.sourceAssignment.findUnique({
+        where: { id },
+        select: { block: { select: { ownerId: true, libraryId: true } } },
+      });
+
+      if (
+        !assignment ||
+        (assignment.block.ownerId !== userId && !(await canManageLibrary(userId, assignment.block.libraryId as LibraryId)))
+      ) {
+        return errors.notFound('Skill proposal not found');
+      }
+
+      try {
+        const proposal = await reviewSkillProposal(
+          id,
+          reviewStatus === 'APPROVED' ? 'approved' : 'rejected',
+          userId
+        );
+        return apiSuccess({ id, source: 'skill', status: proposal.status });
+      } catch (error) {
+        if (error instanceof ProposalConflictError) {
+          return errors.conflict('The skill was edited after this proposal was generated');
+        }
+        throw error;
+      }
+    }
+
     if (source === 'project') {
       // Update a bulk row (project source)
       if (!projectId) {
@@ -86,6 +161,10 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
         data: updates,
       });
 
+      if (updates.reviewStatus) {
+        await syncAnswerMemory('project_row', id);
+      }
+
       return apiSuccess({ id: updatedRow.id, source: 'project' });
     } else {
       // Update a question history (question source)
@@ -124,6 +203,10 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
         data: updates,
       });
 
+      if (updates.reviewStatus) {
+        await syncAnswerMemory('question', id);
+      }
+
       return apiSuccess({ id: updatedQuestion.id, source: 'question' });
     }
   } catch (error) {
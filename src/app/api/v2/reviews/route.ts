@@ -4,7 +4,9 @@
  * GET /api/v2/reviews - List all review items across sources
  * Query params:
  *   - type: 'pending' | 'flagged' | 'resolved' | 'approved' | 'corrected' | 'all'
- *   - source: 'project' | 'question' | 'all'
+ *   - source: 'project' | 'question' | 'skill' | 'contradiction' | 'all'
+ *     ('skill' = update proposals from Slack bot feedback on skills the user owns,
+ *      'contradiction' = conflicts between a skill the user owns and another skill)
  *   - limit: number (default 50)
  */
 
@@ -12,11 +14,13 @@ import { NextRequest } from 'next/server';
 import { requireAuth } from '@/lib/apiAuth';
 import { apiSuccess, errors } from '@/lib/apiResponse';
 import prisma from '@/lib/prisma';
+import type { SkillContradictionStatus } from '@/lib/v2/skills/contradiction-scan-service';
+import type { SkillUpdateProposal, SlackBotFeedback, SlackSourceMetadata, SourceContradiction } from '@/types/v2';
 
 interface ReviewItem {
   id: string;
-  source: 'project' | 'question';
-  sourceId: string; // projectId for project rows
+  source: 'project' | 'question' | 'skill' | 'contradiction';
+  sourceId: string; // projectId for project rows, skillId for skill proposals and contradictions (skill A)
   rowNumber: number | null;
   question: string | null;
   response: string | null;
@@ -38,9 +42,58 @@ interface ReviewItem {
   userEditedAnswer: string | null;
   projectName: string | null;
   customerName: string | null;
+  skillProposal: {
+    skillTitle: string;
+    libraryId: string;
+    baseContent: string;
+    content: string;
+    changeSummary: string;
+    feedback: SlackBotFeedback[];
+    permalink: string | null;
+  } | null;
+  skillContradiction: {
+    libraryId: string;
+    type: SourceContradiction['type'];
+    severity: SourceContradiction['severity'];
+    recommendation: string | null;
+    skillA: { id: string; title: string; claim: string };
+    skillB: { id: string; title: string; claim: string };
+  } | null;
   createdAt: string;
 }
 
+/** Proposal statuses shown for each review tab (skill proposals are never flagged or corrected) */
+const PROPOSAL_STATUSES: Record<string, SkillUpdateProposal['status'][]> = {
+  pending: ['pending'],
+  approved: ['approved'],
+  all: ['pending', 'approved', 'rejected'],
+};
+
+const PROPOSAL_REVIEW_STATUS: Record<SkillUpdateProposal['status'], string> = {
+  pending: 'PENDING',
+  approved: 'APPROVED',
+  rejected: 'REJECTED',
+};
+
+/** Contradiction statuses shown for each review tab (open conflicts are flags) */
+const CONTRADICTION_STATUSES: Record<string, SkillContradictionStatus[]> = {
+  flagged: ['open'],
+  resolved: ['resolved', 'dismissed'],
+  all: ['open', 'resolved', 'dismissed'],
+};
+
+/**
+ * Contradictions involving an active skill the user owns (either side of the pair)
+ */
+function contradictionOwnerWhere(userId: string, libraryId: string | null) {
+  return {
+    ...(libraryId && { libraryId }),
+    skillA: { status: 'ACTIVE' },
+    skillB: { status: 'ACTIVE' },
+    OR: [{ skillA: { ownerId: userId } }, { skillB: { ownerId: userId } }],
+  };
+}
+
 export async function GET(request: NextRequest) {
   const auth = await requireAuth();
   if (!auth.authorized) {
@@ -129,6 +182,8 @@ export async function GET(request: NextRequest) {
           userEditedAnswer: row.userEditedAnswer,
           projectName: row.project?.name || null,
           customerName: (config?.customerName as string) || null,
+          skillProposal: null,
+          skillContradiction: null,
           createdAt: row.processedAt?.toISOString() || row.createdAt.toISOString(),
         });
       }
@@ -194,11 +249,134 @@ export async function GET(request: NextRequest) {
           userEditedAnswer: q.userEditedAnswer,
           projectName: null,
           customerName: null,
+          skillProposal: null,
+          skillContradiction: null,
           createdAt: q.createdAt.toISOString(),
         });
       }
     }
 
+    // Skill update proposals (Slack bot feedback) for skills the user owns
+    const proposalStatuses = PROPOSAL_STATUSES[type] || [];
+    if ((source === 'all' || source === 'skill') && proposalStatuses.length > 0) {
+      const assignments = await prisma.sourceAssignment.findMany({
+        where: {
+          block: { ownerId: userId, ...(libraryId && { libraryId }) },
+          OR: proposalStatuses.map((status) => ({ proposal: { path: ['status'], equals: status } })),
+        },
+        include: {
+          block: { select: { id: true, title: true, libraryId: true } },
+          stagedSource: { select: { title: true, metadata: true } },
+        },
+        orderBy: { assignedAt: 'desc' },
+        take: limit,
+      });
+
+      for (const assignment of assignments) {
+        const proposal = assignment.proposal as unknown as SkillUpdateProposal;
+        const metadata = assignment.stagedSource.metadata as unknown as SlackSourceMetadata | null;
+
+        reviews.push({
+          id: assignment.id,
+          source: 'skill',
+          sourceId: assignment.block.id,
+          rowNumber: null,
+          question: assignment.stagedSource.title,
+          response: proposal.changeSummary,
+          confidence: null,
+          reviewStatus: PROPOSAL_REVIEW_STATUS[proposal.status],
+          reviewRequestedAt: proposal.generatedAt,
+          reviewRequestedBy: assignment.assignedBy,
+          reviewNote: null,
+          reviewedAt: proposal.reviewedAt || null,
+          reviewedBy: proposal.reviewedBy || null,
+          flaggedForReview: false,
+          flaggedAt: null,
+          flaggedBy: null,
+          flagNote: null,
+          flagResolved: false,
+          flagResolvedAt: null,
+          flagResolvedBy: null,
+          flagResolutionNote: null,
+          userEditedAnswer: null,
+          projectName: null,
+          customerName: null,
+          skillProposal: {
+            skillTitle: assignment.block.title,
+            libraryId: assignment.block.libraryId,
+            baseContent: proposal.baseContent,
+            content: proposal.content,
+            changeSummary: proposal.changeSummary,
+            feedback: metadata?.botFeedback || [],
+            permalink: metadata?.permalink || null,
+          },
+          skillContradiction: null,
+          createdAt: proposal.generatedAt,
+        });
+      }
+    }
+
+    // Conflicts between skills the user owns and other skills (library contradiction scan)
+    const contradictionStatuses = CONTRADICTION_STATUSES[type] || [];
+    if ((source === 'all' || source === 'contradiction') && contradictionStatuses.length > 0) {
+      const contradictions = await prisma.skillContradiction.findMany({
+        where: {
+          ...contradictionOwnerWhere(userId, libraryId),
+          status: { in: contradictionStatuses },
+        },
+        include: {
+          skillA: { select: { id: true, title: true } },
+          skillB: { select: { id: true, title: true } },
+        },
+        orderBy: { lastSeenAt: 'desc' },
+        take: limit,
+      });
+
+      for (const contradiction of contradictions) {
+        const resolved = contradiction.status !== 'open';
+
+        reviews.push({
+          id: contradiction.id,
+          source: 'contradiction',
+          sourceId: contradiction.skillA.id,
+          rowNumber: null,
+          question: contradiction.topic,
+          response: null,
+          confidence: null,
+          reviewStatus: contradiction.status.toUpperCase(),
+          reviewRequestedAt: null,
+          reviewRequestedBy: null,
+          reviewNote: null,
+          reviewedAt: null,
+          reviewedBy: null,
+          flaggedForReview: true,
+          flaggedAt: contradiction.detectedAt.toISOString(),
+          flaggedBy: 'Contradiction scan',
+          flagNote: contradiction.description,
+          flagResolved: resolved,
+          flagResolvedAt: contradiction.resolvedAt?.toISOString() || null,
+          flagResolvedBy: contradiction.resolvedBy,
+          flagResolutionNote:
+            contradiction.status === 'dismissed'
+              ? `Dismissed as not a conflict${contradiction.resolutionNote ? `: ${contradiction.resolutionNote}` : ''}`
+              : contradiction.resolutionNote,
+          userEditedAnswer: null,
+          projectName: null,
+          customerName: null,
+          skillProposal: null,
+          skillContradiction: {
+            libraryId: contradiction.libraryId,
+            type: contradiction.type as SourceContradiction['type'],
+            severity: contradiction.severity as SourceContradiction['severity'],
+            recommendation: contradiction.recommendation,
+            skillA: { id: contradiction.skillA.id, title: contradiction.skillA.title, claim: contradiction.claimA },
+            skillB: { id: contradiction.skillB.id, title: contradiction.skillB.title, claim: contradiction.claimB },
+          },
+          createdAt: contradiction.detectedAt.toISOString(),
+        });
+      }
+    }
+
     // Sort combined results by date
     reviews.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
@@ -225,6 +403,10 @@ export async function GET(request: NextRequest) {
       questionResolvedCount,
       questionApprovedCount,
       questionCorrectedCount,
+      skillPendingCount,
+      skillApprovedCount,
+      contradictionOpenCount,
+      contradictionResolvedCount,
     ] = await Promise.all([
       prisma.bulkRow.count({
         where: { projectId: { in: userProjectIds }, reviewStatus: 'REQUESTED', flaggedForReview: false },
@@ -256,12 +438,30 @@ export async function GET(request: NextRequest) {
       prisma.v2QuestionHistory.count({
         where: { userId: userId, reviewStatus: 'CORRECTED', ...(libraryId && { library: libraryId }) },
       }),
+      prisma.sourceAssignment.count({
+        where: {
+          block: { ownerId: userId, ...(libraryId && { libraryId }) },
+          proposal: { path: ['status'], equals: 'pending' },
+        },
+      }),
+      prisma.sourceAssignment.count({
+        where: {
+          block: { ownerId: userId, ...(libraryId && { libraryId }) },
+          proposal: { path: ['status'], equals: 'approved' },
+        },
+      }),
+      prisma.skillContradiction.count({
+        where: { ...contradictionOwnerWhere(userId, libraryId), status: 'open' },
+      }),
+      prisma.skillContradiction.count({
+        where: { ...contradictionOwnerWhere(userId, libraryId), status: { in: ['resolved', 'dismissed'] } },
+      }),
     ]);
 
-    const pendingCount = projectPendingCount + questionPendingCount;
-    const flaggedCount = projectFlaggedCount + questionFlaggedCount;
-    const resolvedCount = projectResolvedCount + questionResolvedCount;
-    const approvedCount = projectApprovedCount + questionApprovedCount;
+    const pendingCount = projectPendingCount + questionPendingCount + skillPendingCount;
+    const flaggedCount = projectFlaggedCount + questionFlaggedCount + contradictionOpenCount;
+    const resolvedCount = projectResolvedCount + questionResolvedCount + contradictionResolvedCount;
+    const approvedCount = projectApprovedCount + questionApprovedCount + skillApprovedCount;
     const correctedCount = projectCorrectedCount + questionCorrectedCount;
 
     return apiSuccess({
@@ -2,115 +2,56 @@
  * Global Search Endpoint
  *
  * GET /api/v2/search?q=query
- * Searches across all libraries and returns results grouped by type
+ * Full-text search across library blocks, staged sources, approved project
+ * answers, the caller's question history and chat messages.
+ *
+ * Query params:
+ * - q: search terms (websearch syntax: "quoted phrase", OR, -exclude)
+ * - type, library, customer, owner: facet filters (repeatable or comma separated)
+ * - date: 7d | 30d | 90d | 365d
+ * - limit (max 100), offset
  */
 
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-v2';
-import { prisma } from '@/lib/prisma';
 import { NextRequest, NextResponse } from 'next/server';
-
-interface SearchResult {
-  id: string;
-  title: string;
-  slug: string | null;
-  libraryId: string;
-  blockType: string;
-  summary: string | null;
-  status: string;
-  updatedAt: Date;
-}
-
-interface SearchResponse {
-  query: string;
-  total: number;
-  results: SearchResult[];
-  groupedByLibrary: Record<string, SearchResult[]>;
-}
+import { getAccessibleLibraries } from '@/lib/v2/teams';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  SearchQueryError,
+  parseSearchFilters,
+  search,
+} from '@/lib/v2/search';
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
-  if (!session?.user?.email) {
+  if (!session?.user?.id) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
   try {
     const { searchParams } = new URL(req.url);
-    const query = searchParams.get('q');
-    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 100);
-
-    if (!query || query.trim().length < 2) {
-      return NextResponse.json(
-        { error: 'Search query must be at least 2 characters' },
-        { status: 400 }
-      );
-    }
-
-    // Search across title, summary, and categories
-    const results = await prisma.buildingBlock.findMany({
-      where: {
-        status: 'ACTIVE',
-        OR: [
-          {
-            title: {
-              contains: query,
-              mode: 'insensitive',
-            },
-          },
-          {
-            summary: {
-              contains: query,
-              mode: 'insensitive',
-            },
-          },
-          {
-            content: {
-              contains: query,
-              mode: 'insensitive',
-            },
-          },
-          {
-            categories: {
-              hasSome: [query],
-            },
-          },
-        ],
-      },
-      select: {
-        id: true,
-        title: true,
-        slug: true,
-        libraryId: true,
-        blockType: true,
-        summary: true,
-        status: true,
-        updatedAt: true,
-      },
-      orderBy: { updatedAt: 'desc' },
-      take: limit,
-    });
-
-    // Group by library
-    const groupedByLibrary = results.reduce(
-      (acc, result) => {
-        if (!acc[result.libraryId]) {
-          acc[result.libraryId] = [];
-        }
-        acc[result.libraryId].push(result);
-        return acc;
-      },
-      {} as Record<string, SearchResult[]>
+    const query = searchParams.get('q') || '';
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || '') || DEFAULT_SEARCH_LIMIT,
+      MAX_SEARCH_LIMIT
     );
+    const offset = parseInt(searchParams.get('offset') || '0') || 0;
 
-    const response: SearchResponse = {
+    const accessibleLibraries = await getAccessibleLibraries(session.user.id);
+    const response = await search(
       query,
-      total: results.length,
-      results,
-      groupedByLibrary,
-    };
+      { userId: session.user.id, accessibleLibraries },
+      parseSearchFilters(searchParams),
+      { limit, offset }
+    );
 
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Error searching:', error);
     return NextResponse.json(
       { error: 'Search failed' },
@@ -12,6 +12,7 @@ import { authOptions } from '@/lib/auth-v2';
 import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
 import { canManageLibrary } from '@/lib/v2/teams';
+import { recordBlockVersion } from '@/lib/v2/blocks';
 import { reformatSkill } from '@/lib/v2/skills';
 import { urlAdapter } from '@/lib/v2/sources/adapters/url-adapter';
 import { getScopeFromContent } from '@/lib/v2/skills/content-parser';
@@ -339,11 +340,13 @@ export async function POST(
     });
 
     // Update the skill in database
+    await recordBlockVersion(skill, 'baseline');
     const updatedSkill = await prisma.buildingBlock.update({
       where: { id: skillId },
       data: {
         title: refreshOutput.title,
         content: finalContent,
+        version: { increment: 1 },
         attributes: {
           ...((skill.attributes as Record<string, unknown>) || {}),
           summary: refreshOutput.summary,
@@ -375,6 +378,13 @@ export async function POST(
       },
     });
 
+    await recordBlockVersion(
+      updatedSkill,
+      'refreshed',
+      session.user.id,
+      refreshOutput.changes?.changeSummary || 'Format refresh'
+    );
+
     // Build response
     const response: FormatRefreshResponse = {
       id: updatedSkill.id,
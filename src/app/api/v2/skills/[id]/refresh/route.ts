@@ -12,8 +12,10 @@ import { authOptions } from '@/lib/auth-v2';
 import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
 import { canManageLibrary } from '@/lib/v2/teams';
+import { recordBlockVersion } from '@/lib/v2/blocks';
 import { updateSkill as updateSkillOrchestrator, getRefreshMode } from '@/lib/v2/skills/skill-orchestrator';
 import { urlAdapter } from '@/lib/v2/sources/adapters/url-adapter';
+import { clearSourceChangeFlags } from '@/lib/v2/sources/source-resync-service';
 import { getScopeFromContent, hasEmbeddedScope } from '@/lib/v2/skills/content-parser';
 import { validateScopeDefinition } from '@/lib/v2/skills/scope-validator';
 import { logger } from '@/lib/logger';
@@ -286,12 +288,13 @@ export async function POST(
       },
     });
 
-    // Filter to only refreshable source types (URL, Notion)
+    // Filter to only refreshable source types (URL, Notion, Confluence, Drive)
     // Slack/Zendesk are ephemeral conversations - their content was already extracted
-    // and incorporated into the skill, no need to re-send them on refresh
-    const refreshableSourceTypes = ['url', 'notion'];
+    // and incorporated into the skill, no need to re-send them on refresh -
+    // unless scheduled re-sync saw them change upstream
+    const refreshableSourceTypes = ['url', 'notion', 'confluence', 'gdrive'];
     const refreshableSources = incorporatedSources.filter(
-      (a) => refreshableSourceTypes.includes(a.stagedSource.sourceType)
+      (a) => refreshableSourceTypes.includes(a.stagedSource.sourceType) || a.sourceChangedAt
     );
 
     // Map refreshable sources for context (fetch URL content if missing)
@@ -434,11 +437,13 @@ export async function POST(
     });
 
     // Update the skill in database
+    await recordBlockVersion(skill, 'baseline');
     const updatedSkill = await prisma.buildingBlock.update({
       where: { id: skillId },
       data: {
         title: updateOutput.title,
         content: updateOutput.content,
+        version: { increment: 1 },
         attributes: {
           ...((skill.attributes as Record<string, unknown>) || {}),
           summary: updateOutput.summary,
@@ -472,6 +477,13 @@ export async function POST(
       },
     });
 
+    await recordBlockVersion(
+      updatedSkill,
+      'refreshed',
+      session.user.id,
+      updateOutput.changes?.changeSummary || 'Refreshed with new sources'
+    );
+
     // Mark the pending source assignments as incorporated
     // For foundational skills, also store the extractedContent
     const extractedContentMap = new Map<string, string>();
@@ -506,6 +518,9 @@ export async function POST(
       });
     }
 
+    // The refresh used current source content, so upstream changes are now reflected
+    await clearSourceChangeFlags(skillId);
+
     // Build response
     const response: RefreshSkillResponse = {
       id: updatedSkill.id,
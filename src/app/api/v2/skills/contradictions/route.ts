@@ -0,0 +1,144 @@
+/**
+ * Cross-skill contradictions
+ *
+ * GET  /api/v2/skills/contradictions?libraryId=...&status=open - Conflicts between skills in a library
+ * POST /api/v2/skills/contradictions { libraryId, customerId? } - Queue a library-wide scan
+ *
+ * Without Redis there is no worker service, so the queued scan is drained in
+ * this process (fire-and-forget). Conflicts are reviewed (resolved or
+ * dismissed) from the review inbox.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth-v2';
+import { prisma } from '@/lib/prisma';
+import { addJob, QUEUE_NAMES } from '@/lib/queue';
+import { isQueueConfigured } from '@/lib/queue/config';
+import { runQueuedJobInline } from '@/lib/queue/workers';
+import { canAccessLibrary, canManageLibrary } from '@/lib/v2/teams';
+import { SKILL_LIBRARIES } from '@/lib/v2/library-constants';
+import type { LibraryId } from '@/types/v2';
+
+const STATUSES = ['open', 'resolved', 'dismissed'] as const;
+
+const scanSchema = z.object({
+  libraryId: z.enum(SKILL_LIBRARIES as [LibraryId, ...LibraryId[]]),
+  customerId: z.string().min(1).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const libraryId = searchParams.get('libraryId') as LibraryId;
+    const status = searchParams.get('status') || 'open';
+
+    if (!libraryId) {
+      return NextResponse.json(
+        { error: 'libraryId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    if (status !== 'all' && !STATUSES.includes(status as (typeof STATUSES)[number])) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}, all` },
+        { status: 400 }
+      );
+    }
+
+    const hasAccess = await canAccessLibrary(session.user.id, libraryId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'You do not have access to this library' },
+        { status: 403 }
+      );
+    }
+
+    const contradictions = await prisma.skillContradiction.findMany({
+      where: {
+        libraryId,
+        ...(status !== 'all' && { status }),
+        skillA: { status: 'ACTIVE' },
+        skillB: { status: 'ACTIVE' },
+      },
+      include: {
+        skillA: { select: { id: true, title: true, slug: true } },
+        skillB: { select: { id: true, title: true, slug: true } },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      contradictions,
+      total: contradictions.length,
+    });
+  } catch (error) {
+    console.error('[Skill Contradictions API] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get skill contradictions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = scanSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+
+    const { libraryId, customerId } = parsed.data;
+
+    const canManage = await canManageLibrary(session.user.id, libraryId);
+    if (!canManage) {
+      return NextResponse.json(
+        { error: 'You do not have permission to scan this library' },
+        { status: 403 }
+      );
+    }
+
+    const runInline = !isQueueConfigured();
+    const jobId = await addJob(
+      QUEUE_NAMES.SKILL_GENERATION,
+      'scan_contradictions',
+      {
+        type: 'scan_contradictions',
+        libraryId,
+        customerId,
+        userId: session.user.id,
+        userEmail: session.user.email || undefined,
+      },
+      // Nothing retries an inline run, so a failure is final
+      runInline ? { attempts: 1 } : undefined
+    );
+
+    if (runInline) {
+      // Fire-and-forget: the scan outcome is tracked on the BackgroundJob row
+      void runQueuedJobInline(QUEUE_NAMES.SKILL_GENERATION, jobId);
+    }
+
+    return NextResponse.json({ jobId, libraryId }, { status: 202 });
+  } catch (error) {
+    console.error('[Skill Contradictions API] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start contradiction scan' },
+      { status: 500 }
+    );
+  }
+}
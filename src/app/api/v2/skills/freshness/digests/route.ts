@@ -0,0 +1,43 @@
+/**
+ * POST /api/v2/skills/freshness/digests - Send stale-skill digests to owners now (admin only)
+ *
+ * Digests normally go out weekly from the worker. Owners already sent this
+ * week's digest are skipped unless `force` is true.
+ */
+
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions, isUserAdmin, type SessionUser } from '@/lib/auth-v2';
+import { apiSuccess, errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { sendFreshnessDigests } from '@/lib/v2/skills/freshness-service';
+
+const sendDigestsSchema = z.object({
+  force: z.boolean().optional().default(false),
+});
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized('Authentication required');
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden('Admin access required');
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = sendDigestsSchema.safeParse(body);
+    if (!parsed.success) {
+      return errors.badRequest(parsed.error.issues[0]?.message || 'Invalid request');
+    }
+
+    const result = await sendFreshnessDigests({ force: parsed.data.force });
+    logger.info('Freshness digests sent manually', { userId: session.user.id, ...result });
+    return apiSuccess({ success: true, data: result });
+  } catch (error) {
+    logger.error('Failed to send freshness digests', error, { route: '/api/v2/skills/freshness/digests' });
+    return errors.internal('Failed to send freshness digests');
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * GET /api/v2/skills/freshness/report - Freshness across all skill libraries (admin only)
+ */
+
+import { getServerSession } from 'next-auth';
+import { authOptions, isUserAdmin, type SessionUser } from '@/lib/auth-v2';
+import { apiSuccess, errors } from '@/lib/apiResponse';
+import { logger } from '@/lib/logger';
+import { getFreshnessReport } from '@/lib/v2/skills/freshness-service';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return errors.unauthorized('Authentication required');
+  }
+  if (!isUserAdmin(session.user as SessionUser)) {
+    return errors.forbidden('Admin access required');
+  }
+
+  try {
+    const report = await getFreshnessReport();
+    return apiSuccess({ success: true, data: { report } });
+  } catch (error) {
+    logger.error('Failed to build freshness report', error, { route: '/api/v2/skills/freshness/report' });
+    return errors.internal('Failed to build freshness report');
+  }
+}
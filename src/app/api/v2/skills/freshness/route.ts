@@ -0,0 +1,57 @@
+/**
+ * GET /api/v2/skills/freshness?libraryId=...&customerId=...&includeAging=true
+ *
+ * Returns stale skills in a library (optionally aging ones too), lowest
+ * freshness score first, with the reasons behind each score.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
+import { canAccessLibrary } from '@/lib/v2/teams';
+import { getStaleSkills } from '@/lib/v2/skills/freshness-service';
+import type { LibraryId } from '@/types/v2';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const libraryId = searchParams.get('libraryId') as LibraryId;
+    const customerId = searchParams.get('customerId') || undefined;
+    const includeAging = searchParams.get('includeAging') === 'true';
+
+    if (!libraryId) {
+      return NextResponse.json(
+        { error: 'libraryId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // Check library access
+    const hasAccess = await canAccessLibrary(session.user.id, libraryId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'You do not have access to this library' },
+        { status: 403 }
+      );
+    }
+
+    const skills = await getStaleSkills(libraryId, { customerId, includeAging });
+
+    return NextResponse.json({
+      skills,
+      total: skills.length,
+    });
+  } catch (error) {
+    console.error('[Skill Freshness API] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get skill freshness' },
+      { status: 500 }
+    );
+  }
+}
@@ -177,7 +177,9 @@ export async function POST(request: NextRequest) {
             // For library-scoped sources, fetch content directly via adapter
             const adapter = getAdapter(source.sourceType as import('@/types/v2').SourceType);
             if (adapter?.fetchContent) {
-              const fetchResult = await adapter.fetchContent(source.externalId);
+              const fetchResult = await adapter.fetchContent(source.externalId, {
+                libraryId: source.libraryId as import('@/types/v2').LibraryId,
+              });
 
               // Handle new return type (object with content/error) or legacy (string | null)
               const content =
@@ -11,6 +11,7 @@ import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
 import { canManageLibrary } from '@/lib/v2/teams';
 import { createAuditEntry, addAuditEntry, getAuditLog } from '@/lib/v2/audit';
+import { recordBlockVersion } from '@/lib/v2/blocks';
 import { validateScopeDefinition } from '@/lib/v2/skills/scope-validator';
 import type { LibraryId, BlockStatus, ScopeDefinition, SourceCitation, SourceContradiction } from '@/types/v2';
 
@@ -162,6 +163,10 @@ export async function POST(request: NextRequest) {
       if (owners && owners.length > 0) {
         updateData.ownerId = owners[0].id;
       }
+      if (content !== existingSkill.content) {
+        updateData.version = { increment: 1 };
+        await recordBlockVersion(existingSkill, 'baseline');
+      }
 
       // Build merged attributes with V2 fields and add audit entry
       const existingAuditLog = getAuditLog(existingSkill.attributes);
@@ -333,11 +338,19 @@ export async function POST(request: NextRequest) {
     };
 
     // Update attributes with history
-    await prisma.buildingBlock.update({
+    const publishedSkill = await prisma.buildingBlock.update({
       where: { id: skill.id },
       data: { attributes: updatedAttributes as Prisma.InputJsonValue },
     });
 
+    // Snapshot the published state (no-op when an update left content alone)
+    await recordBlockVersion(
+      publishedSkill,
+      isUpdate ? (refreshAction === 'regenerate' ? 'refreshed' : 'updated') : 'created',
+      session.user.id,
+      historyEntry.summary
+    );
+
     const response: PublishSkillResponse = {
       id: skill.id,
       title: skill.title,
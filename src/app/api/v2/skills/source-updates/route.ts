@@ -0,0 +1,56 @@
+/**
+ * GET /api/v2/skills/source-updates?libraryId=...&customerId=...
+ *
+ * Returns active skills whose incorporated sources changed upstream since
+ * the skill was last refreshed (flagged by scheduled source re-sync).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
+import { canAccessLibrary } from '@/lib/v2/teams';
+import { getSkillsWithUpdatedSources } from '@/lib/v2/sources/source-resync-service';
+import type { LibraryId } from '@/types/v2';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const libraryId = searchParams.get('libraryId') as LibraryId;
+    const customerId = searchParams.get('customerId') || undefined;
+
+    if (!libraryId) {
+      return NextResponse.json(
+        { error: 'libraryId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // Check library access
+    const hasAccess = await canAccessLibrary(session.user.id, libraryId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'You do not have access to this library' },
+        { status: 403 }
+      );
+    }
+
+    const skills = await getSkillsWithUpdatedSources(libraryId, customerId);
+
+    return NextResponse.json({
+      skills,
+      total: skills.length,
+    });
+  } catch (error) {
+    console.error('[Source Updates API] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get skills with updated sources' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-v2';
 import { prisma } from '@/lib/prisma';
 import { canManageLibrary } from '@/lib/v2/teams';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 import { NextRequest, NextResponse } from 'next/server';
 import type { LibraryId } from '@/types/v2';
 
@@ -49,6 +50,14 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      eventType: 'source.ignored',
+      actorId: session.user.id,
+      targetType: 'source',
+      targetId: updated.id,
+      data: { title: updated.title, libraryId: updated.libraryId },
+    });
+
     return NextResponse.json({
       id: updated.id,
       message: 'Source ignored',
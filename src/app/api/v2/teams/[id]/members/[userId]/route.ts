@@ -92,7 +92,7 @@ export async function PATCH(request: Request, context: RouteContext) {
     }
 
     // Update the role
-    const membership = await updateMemberRole(id, userId, body.role as TeamRole);
+    const membership = await updateMemberRole(id, userId, body.role as TeamRole, session.user.id);
 
     // Fetch with user details
     const memberWithUser = await prisma.teamMembership.findUnique({
@@ -183,7 +183,7 @@ export async function DELETE(request: Request, context: RouteContext) {
     }
 
     // Remove the member
-    await removeMember(id, userId);
+    await removeMember(id, userId, session.user.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
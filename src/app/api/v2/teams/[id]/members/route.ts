@@ -150,11 +150,14 @@ export async function POST(request: Request, context: RouteContext) {
     }
 
     // Add the member
-    const membership = await addMember({
-      teamId: id,
-      userId: body.userId,
-      role: role as TeamRole,
-    });
+    const membership = await addMember(
+      {
+        teamId: id,
+        userId: body.userId,
+        role: role as TeamRole,
+      },
+      session.user.id
+    );
 
     // Fetch with user details
     const memberWithUser = await prisma.teamMembership.findUnique({
@@ -16,6 +16,7 @@ import {
 } from '@/lib/v2/teams';
 import type { UpdateTeamInput } from '@/lib/v2/teams';
 import { LIBRARY_IDS, type LibraryId } from '@/types/v2';
+import { isLLMProviderId, type TeamLLMProviderSettings } from '@/lib/llm/providers';
 
 type RouteContext = {
   params: Promise<{ id: string }>;
@@ -106,15 +107,31 @@ export async function PATCH(request: Request, context: RouteContext) {
       }
     }
 
+    // Validate LLM provider routing if provided
+    const llmProvider = body.settings?.llmProvider as TeamLLMProviderSettings | undefined;
+    if (llmProvider) {
+      const providers = [llmProvider.default, ...Object.values(llmProvider.compositions || {})];
+      const invalid = providers.find((p) => p !== undefined && !isLLMProviderId(p));
+      if (invalid !== undefined) {
+        return NextResponse.json(
+          { error: `Invalid LLM provider: ${invalid}` },
+          { status: 400 }
+        );
+      }
+    }
+
     const input: UpdateTeamInput = {
       ...(body.name !== undefined && { name: body.name }),
       ...(body.description !== undefined && { description: body.description }),
       ...(body.libraries !== undefined && { libraries: body.libraries }),
       ...(body.monthlyTokenLimit !== undefined && { monthlyTokenLimit: body.monthlyTokenLimit }),
-      ...(body.settings !== undefined && { settings: body.settings }),
+      // Merge so keys managed elsewhere (e.g. tokenBudget) are kept
+      ...(body.settings !== undefined && {
+        settings: { ...((existing.settings as Record<string, unknown>) || {}), ...body.settings },
+      }),
     };
 
-    const team = await updateTeam(id, input);
+    const team = await updateTeam(id, input, session.user.id);
 
     return NextResponse.json(team);
   } catch (error) {
@@ -154,7 +171,7 @@ export async function DELETE(request: Request, context: RouteContext) {
       );
     }
 
-    await deleteTeam(id);
+    await deleteTeam(id, session.user.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,110 @@
+/**
+ * GET /api/v2/teams/[id]/usage - Token budget status and current-month usage
+ * PATCH /api/v2/teams/[id]/usage - Update budget limit, enforcement, alerts or override
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
+import { z } from 'zod';
+import {
+  getTeamUsageDashboard,
+  isAdmin,
+  isMember,
+  updateTeamBudgetSettings,
+} from '@/lib/v2/teams';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const budgetSchema = z.object({
+  monthlyTokenLimit: z.number().int().positive().nullable().optional(),
+  enforcement: z.enum(['hard', 'soft']).optional(),
+  alertChannelId: z.string().nullable().optional(),
+  overrideUntil: z.coerce.date().nullable().optional(),
+});
+
+/**
+ * GET /api/v2/teams/[id]/usage
+ * Budget status plus usage by feature, user and day (members only)
+ */
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const memberCheck = await isMember(id, session.user.id);
+    if (!memberCheck) {
+      return NextResponse.json(
+        { error: 'You are not a member of this team' },
+        { status: 403 }
+      );
+    }
+
+    const dashboard = await getTeamUsageDashboard(id);
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(dashboard);
+  } catch (error) {
+    console.error('Error getting team usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to get team usage' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v2/teams/[id]/usage
+ * Update budget settings (admin only)
+ */
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const adminCheck = await isAdmin(id, session.user.id);
+    if (!adminCheck) {
+      return NextResponse.json(
+        { error: 'Only team admins can change the token budget' },
+        { status: 403 }
+      );
+    }
+
+    const parsed = budgetSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.overrideUntil && parsed.data.overrideUntil <= new Date()) {
+      return NextResponse.json(
+        { error: 'overrideUntil must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    const budget = await updateTeamBudgetSettings(id, parsed.data, session.user.id);
+
+    return NextResponse.json(budget);
+  } catch (error) {
+    console.error('Error updating team budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to update team budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -97,9 +97,11 @@ export async function POST(request: Request) {
     };
 
     // Create team with the current user as admin
-    const team = await createTeamWithMembers(input, [
-      { userId: session.user.id, role: 'admin' as TeamRole },
-    ]);
+    const team = await createTeamWithMembers(
+      input,
+      [{ userId: session.user.id, role: 'admin' as TeamRole }],
+      session.user.id
+    );
 
     return NextResponse.json(team, { status: 201 });
   } catch (error) {
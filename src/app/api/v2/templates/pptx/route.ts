@@ -0,0 +1,118 @@
+/**
+ * POST /api/v2/templates/pptx - Upload a PowerPoint template
+ *
+ * Stores the .pptx in S3 and returns the {{placeholder}} tokens found on its
+ * slides. The configure page saves the returned file reference to
+ * outputConfig.pptx so collateral can be filled locally without Google Slides.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
+import { prisma } from '@/lib/prisma';
+import { canManageLibrary } from '@/lib/v2/teams';
+import { logger } from '@/lib/logger';
+import { generateS3Key, getMimeType, isS3Configured, uploadToS3 } from '@/lib/s3';
+import { extractPptxPlaceholders, type PptxPlaceholders, type PptxTemplateFile } from '@/lib/v2/collateral';
+
+const TEMPLATES_LIBRARY = 'templates';
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+export async function POST(request: Request) {
+  let session;
+  let templateId: string | null = null;
+  try {
+    session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isS3Configured()) {
+      return NextResponse.json(
+        { error: 'File storage is not configured. PowerPoint templates require S3.' },
+        { status: 503 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    templateId = formData.get('templateId') as string | null;
+
+    if (!file || !templateId) {
+      return NextResponse.json({ error: 'Missing required fields: file, templateId' }, { status: 400 });
+    }
+
+    if (!/\.pptx$/i.test(file.name)) {
+      return NextResponse.json({ error: 'Only .pptx files are supported' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File exceeds maximum size (${MAX_FILE_SIZE / 1024 / 1024}MB)` },
+        { status: 400 }
+      );
+    }
+
+    const template = await prisma.buildingBlock.findUnique({
+      where: { id: templateId },
+      select: { id: true, libraryId: true },
+    });
+
+    if (!template || template.libraryId !== TEMPLATES_LIBRARY) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    if (!(await canManageLibrary(session.user.id, TEMPLATES_LIBRARY))) {
+      return NextResponse.json(
+        { error: 'You do not have permission to edit templates in this library' },
+        { status: 403 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    let placeholders: PptxPlaceholders;
+    try {
+      placeholders = await extractPptxPlaceholders(buffer);
+    } catch (parseError) {
+      logger.warn('Invalid PowerPoint template upload', parseError, {
+        route: 'POST /api/v2/templates/pptx',
+        templateId,
+        fileName: file.name,
+      });
+      return NextResponse.json({ error: 'Could not read slides from this file' }, { status: 400 });
+    }
+
+    const s3Key = generateS3Key('pptx', file.name, templateId);
+    await uploadToS3(s3Key, buffer, getMimeType('pptx'));
+
+    const pptx: PptxTemplateFile = {
+      s3Key,
+      fileName: file.name,
+      uploadedAt: new Date().toISOString(),
+    };
+
+    logger.info('PowerPoint template uploaded', {
+      userId: session.user.id,
+      templateId,
+      placeholderCount: placeholders.text.length,
+      imagePlaceholderCount: placeholders.images.length,
+    });
+
+    return NextResponse.json({
+      pptx,
+      placeholders: placeholders.text,
+      imagePlaceholders: placeholders.images,
+    });
+  } catch (error) {
+    logger.error('Error uploading PowerPoint template', error, {
+      route: 'POST /api/v2/templates/pptx',
+      userId: session?.user?.id,
+      templateId,
+    });
+    return NextResponse.json(
+      { error: 'Failed to upload template. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
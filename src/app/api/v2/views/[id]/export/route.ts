@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-v2';
+import { prisma } from '@/lib/prisma';
+import { canAccessCustomer } from '@/lib/v2/customers/customer-service';
+import { exportToPdf, exportToWord, type ExportSource } from '@/lib/v2/collateral';
+import { logger } from '@/lib/logger';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/v2/views/[id]/export?format=word|pdf
+ * Download a generated customer view as a branded Word or PDF document.
+ * Citations resolve against the skills the view was generated from.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'pdf';
+    if (format !== 'word' && format !== 'pdf') {
+      return NextResponse.json({ error: 'format must be word or pdf' }, { status: 400 });
+    }
+
+    const view = await prisma.generatedView.findUnique({
+      where: { id },
+      include: { customer: { select: { company: true } } },
+    });
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    const hasAccess = await canAccessCustomer(session.user.id, view.customerId);
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const blocks = await prisma.buildingBlock.findMany({
+      where: { id: { in: view.usedBlockIds } },
+      select: { id: true, title: true },
+    });
+    const blocksById = new Map(blocks.map((block) => [block.id, block]));
+    // Keep prompt order; deleted skills stay as placeholders so numbering holds
+    const sources: ExportSource[] = view.usedBlockIds.map(
+      (blockId) => blocksById.get(blockId) || { id: blockId, title: 'Deleted skill' }
+    );
+
+    const document = {
+      title: view.title,
+      subtitle: view.customer.company,
+      content: view.content,
+      sources,
+      author: session.user.name || undefined,
+      generatedAt: view.generatedAt,
+    };
+    const result = format === 'word' ? await exportToWord(document) : await exportToPdf(document);
+
+    return new Response(new Uint8Array(result.buffer!), {
+      status: 200,
+      headers: {
+        'Content-Type': result.mimeType!,
+        'Content-Disposition': `attachment; filename="${result.fileName}"`,
+      },
+    });
+  } catch (error) {
+    logger.error('Error exporting view', { error });
+    return NextResponse.json({ error: 'Failed to export view' }, { status: 500 });
+  }
+}
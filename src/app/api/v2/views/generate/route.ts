@@ -84,6 +84,7 @@ export async function POST(request: Request) {
 
     // Return both the generated view and transparency data if available
     return NextResponse.json({
+      id: result.id,
       content: result.content,
       generatedAt: result.generatedAt,
       title: result.title,
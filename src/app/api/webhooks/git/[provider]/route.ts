@@ -0,0 +1,109 @@
+/**
+ * POST /api/webhooks/git/[provider] - Git provider webhook (github | gitlab | bitbucket)
+ *
+ * Public route, authenticated by the delivery's signature (GIT_WEBHOOK_SECRET).
+ * Merged or closed pull requests opened for block review are applied inline;
+ * pushes to a library's synced branch queue an import of that library.
+ * Without Redis there is no worker service, so the queued imports are run in
+ * this process one at a time after responding.
+ */
+
+import { NextResponse } from 'next/server';
+import { addJob, QUEUE_NAMES } from '@/lib/queue';
+import { isQueueConfigured } from '@/lib/queue/config';
+import { runQueuedJobInline } from '@/lib/queue/workers';
+import {
+  GIT_WEBHOOK_PROVIDERS,
+  getLibrariesForPush,
+  isGitWebhookSource,
+  parseGitWebhook,
+  refreshPullRequest,
+  verifyGitWebhook,
+} from '@/lib/v2/git-sync';
+import { logger } from '@/lib/logger';
+
+type RouteContext = {
+  params: Promise<{ provider: string }>;
+};
+
+/**
+ * Run queued imports one after another so a push touching many libraries
+ * does not start them all at once
+ */
+async function runImportsInline(jobIds: string[]): Promise<void> {
+  for (const jobId of jobIds) {
+    await runQueuedJobInline(QUEUE_NAMES.BULK_OPERATIONS, jobId);
+  }
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  const { provider: source } = await context.params;
+
+  try {
+    if (!isGitWebhookSource(source)) {
+      return NextResponse.json({ error: 'Unknown git provider' }, { status: 404 });
+    }
+
+    const secret = process.env.GIT_WEBHOOK_SECRET;
+    if (!secret) {
+      return NextResponse.json({ error: 'Git webhooks are not configured' }, { status: 503 });
+    }
+
+    const rawBody = await request.text();
+    if (!verifyGitWebhook(source, request.headers, rawBody, secret)) {
+      logger.warn('Git webhook signature rejected', {
+        source,
+        route: 'POST /api/webhooks/git/[provider]',
+      });
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const providerType = GIT_WEBHOOK_PROVIDERS[source];
+    const event = parseGitWebhook(source, request.headers, payload);
+
+    if (event.type === 'pull_request') {
+      const updated = await refreshPullRequest(providerType, event.id);
+      return NextResponse.json({
+        received: true,
+        pullRequests: updated.map((pr) => ({ id: pr.id, status: pr.status })),
+      });
+    }
+
+    if (event.type === 'push') {
+      const libraries = await getLibrariesForPush(providerType, event.branches);
+      const runInline = !isQueueConfigured();
+      const jobIds = await Promise.all(
+        libraries.map((libraryId) =>
+          addJob(
+            QUEUE_NAMES.BULK_OPERATIONS,
+            'sync_git',
+            { type: 'sync_git', libraryId },
+            // Nothing retries an inline run, so a failure is final
+            runInline ? { attempts: 1 } : undefined
+          )
+        )
+      );
+
+      if (runInline && jobIds.length > 0) {
+        // Fire-and-forget: import outcomes are tracked on the BackgroundJob rows
+        void runImportsInline(jobIds);
+      }
+      return NextResponse.json({ received: true, libraries, jobIds }, { status: libraries.length ? 202 : 200 });
+    }
+
+    return NextResponse.json({ received: true, ignored: event.reason });
+  } catch (error) {
+    logger.error('Error handling git webhook', error, {
+      source,
+      route: 'POST /api/webhooks/git/[provider]',
+    });
+    return NextResponse.json({ error: 'Failed to handle git webhook' }, { status: 500 });
+  }
+}
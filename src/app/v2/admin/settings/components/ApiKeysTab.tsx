@@ -0,0 +1,342 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Plus, Trash2, X, Check, Copy, KeyRound, AlertCircle } from "lucide-react";
+import { useConfirm } from "@/components/ConfirmModal";
+import { InlineLoader } from "@/components/ui/loading";
+import { useApiQuery, useApiMutation } from "@/hooks/use-api";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/v2/api-keys/scopes";
+import { ApiKeyItem } from "./types";
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  "read:blocks": "List and read library blocks",
+  "write:blocks": "Update, archive and delete blocks",
+  chat: "Ask single questions (/api/v2/questions/ask)",
+  rfp: "Create and list RFP projects",
+  scim: "Provision users and groups from your identity provider (/api/scim/v2)",
+};
+
+function getKeyStatus(apiKey: ApiKeyItem): "Active" | "Revoked" | "Expired" {
+  if (apiKey.status === "REVOKED") return "Revoked";
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) return "Expired";
+  return "Active";
+}
+
+export default function ApiKeysTab() {
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const { confirm, ConfirmDialog } = useConfirm({
+    title: "Revoke API Key",
+    message: "Requests using this key will be rejected immediately. This cannot be undone.",
+    confirmLabel: "Revoke",
+    variant: "danger",
+  });
+
+  // Form state
+  const [formName, setFormName] = useState("");
+  const [formScopes, setFormScopes] = useState<ApiKeyScope[]>([]);
+  const [formRateLimit, setFormRateLimit] = useState("");
+  const [formExpiresAt, setFormExpiresAt] = useState("");
+
+  const { data: apiKeys = [], isLoading: loading } = useApiQuery<ApiKeyItem[]>({
+    queryKey: ["api-keys"],
+    url: "/api/v2/api-keys",
+    responseKey: "apiKeys",
+    transform: (data) => (Array.isArray(data) ? data : []),
+  });
+
+  const createMutation = useApiMutation<{ key: string }, Record<string, unknown>>({
+    url: "/api/v2/api-keys",
+    method: "POST",
+    invalidateKeys: [["api-keys"]],
+    onSuccess: (data) => {
+      setNewKey(data?.key ?? null);
+      resetForm();
+      toast.success("API key created");
+    },
+    onError: (err) => {
+      toast.error(err.message || "Failed to create API key");
+    },
+  });
+
+  const revokeMutation = useApiMutation<void, string>({
+    url: (id) => `/api/v2/api-keys/${id}`,
+    method: "DELETE",
+    invalidateKeys: [["api-keys"]],
+    onSuccess: () => {
+      toast.success("API key revoked");
+    },
+    onError: (err) => {
+      toast.error(err.message || "Failed to revoke API key");
+    },
+  });
+
+  const saving = createMutation.isPending || revokeMutation.isPending;
+
+  const resetForm = () => {
+    setFormName("");
+    setFormScopes([]);
+    setFormRateLimit("");
+    setFormExpiresAt("");
+    setShowAddForm(false);
+  };
+
+  const handleCreate = () => {
+    if (!formName.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (formScopes.length === 0) {
+      toast.error("At least one scope is required");
+      return;
+    }
+
+    createMutation.mutate({
+      name: formName.trim(),
+      scopes: formScopes,
+      ...(formRateLimit && { rateLimit: parseInt(formRateLimit, 10) }),
+      ...(formExpiresAt && { expiresAt: new Date(formExpiresAt).toISOString() }),
+    });
+  };
+
+  const handleRevoke = async (id: string) => {
+    const confirmed = await confirm();
+    if (!confirmed) return;
+    revokeMutation.mutate(id);
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast.success("Copied to clipboard");
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setFormScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <InlineLoader size="md" className="mr-2" />
+        <span className="text-gray-500">Loading API keys...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">API Keys</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Issue keys for internal tools to call the REST API without a browser session. Send them as{" "}
+            <code className="text-xs bg-gray-100 px-1 rounded">Authorization: Bearer &lt;key&gt;</code>.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowAddForm(true)}
+          disabled={showAddForm}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          New Key
+        </button>
+      </div>
+
+      {/* Newly created key - only shown once */}
+      {newKey && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <div className="flex gap-2">
+            <AlertCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 text-sm text-green-800">
+              <p className="font-medium">Copy this key now. It will not be shown again.</p>
+              <div className="mt-2 flex items-center gap-2">
+                <code className="flex-1 px-2 py-1 bg-white border border-green-200 rounded font-mono text-xs break-all">
+                  {newKey}
+                </code>
+                <button
+                  onClick={handleCopy}
+                  className="p-1.5 text-green-700 hover:bg-green-100 rounded"
+                  title="Copy"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <button onClick={() => setNewKey(null)} className="text-green-600 hover:text-green-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create Form */}
+      {showAddForm && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-900">New API Key</h3>
+            <button onClick={resetForm} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+                placeholder="e.g., Security questionnaire bot"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Requests / minute</label>
+              <input
+                type="number"
+                min={1}
+                value={formRateLimit}
+                onChange={(e) => setFormRateLimit(e.target.value)}
+                placeholder="60"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+              <input
+                type="date"
+                value={formExpiresAt}
+                onChange={(e) => setFormExpiresAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Scopes *</label>
+            <div className="grid grid-cols-2 gap-2">
+              {API_KEY_SCOPES.map((scope) => (
+                <label
+                  key={scope}
+                  className={`flex items-start gap-2 p-2 rounded border cursor-pointer transition-colors ${
+                    formScopes.includes(scope)
+                      ? "bg-blue-50 border-blue-300"
+                      : "bg-white border-gray-200 hover:border-gray-300"
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={formScopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="text-sm font-medium font-mono text-gray-900">{scope}</div>
+                    <div className="text-xs text-gray-500">{SCOPE_DESCRIPTIONS[scope]}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              onClick={resetForm}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+            >
+              {saving ? <InlineLoader size="sm" /> : <Check className="w-4 h-4" />}
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Keys Table */}
+      {apiKeys.length === 0 && !showAddForm ? (
+        <div className="text-center py-12 text-gray-500">
+          <KeyRound className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+          <p className="font-medium">No API keys issued</p>
+          <p className="text-sm mt-1">Click &quot;New Key&quot; to issue one.</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Name</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Key</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Scopes</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Last Used</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-700">Status</th>
+                <th className="text-right px-4 py-3 font-medium text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {apiKeys.map((apiKey) => {
+                const status = getKeyStatus(apiKey);
+                return (
+                  <tr key={apiKey.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-gray-900">
+                      {apiKey.name}
+                      {apiKey.rateLimit && (
+                        <div className="text-xs text-gray-500">{apiKey.rateLimit} req/min</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-gray-600">{apiKey.keyPrefix}…</td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map((scope) => (
+                          <span key={scope} className="px-1.5 py-0.5 text-xs rounded bg-blue-100 text-blue-700 font-mono">
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never"}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${
+                          status === "Active" ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-600"
+                        }`}
+                      >
+                        {status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {apiKey.status !== "REVOKED" && (
+                        <button
+                          onClick={() => handleRevoke(apiKey.id)}
+                          disabled={saving}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                          title="Revoke"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <ConfirmDialog />
+    </div>
+  );
+}
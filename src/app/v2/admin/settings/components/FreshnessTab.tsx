@@ -0,0 +1,165 @@
+"use client";
+
+import { toast } from "sonner";
+import { Send } from "lucide-react";
+import { InlineLoader } from "@/components/ui/loading";
+import { InlineError } from "@/components/ui/status-display";
+import { useApiQuery, useApiMutation } from "@/hooks/use-api";
+import { FreshnessReportData, FreshnessStatus } from "./types";
+
+const STATUS_STYLES: Record<FreshnessStatus, string> = {
+  fresh: "bg-green-100 text-green-700",
+  aging: "bg-orange-50 text-orange-700",
+  stale: "bg-red-100 text-red-700",
+};
+
+export default function FreshnessTab() {
+  const {
+    data: report,
+    isLoading: loading,
+    error: queryError,
+    refetch,
+  } = useApiQuery<FreshnessReportData>({
+    queryKey: ["skill-freshness-report"],
+    url: "/api/v2/skills/freshness/report",
+    responseKey: "report",
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const digestMutation = useApiMutation<{ sent: number; skipped: number; failed: number }, { force: boolean }>({
+    url: "/api/v2/skills/freshness/digests",
+    method: "POST",
+    onSuccess: (result) => {
+      if (!result) return;
+      toast.success(`Sent ${result.sent} digest${result.sent === 1 ? "" : "s"} (${result.skipped} skipped, ${result.failed} failed)`);
+    },
+    onError: (err) => {
+      toast.error(err.message || "Failed to send digests");
+    },
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <InlineLoader size="md" className="mr-2" />
+        <span className="text-gray-500">Scoring skills...</span>
+      </div>
+    );
+  }
+
+  if (queryError) {
+    return <InlineError message={queryError.message} />;
+  }
+
+  if (!report) return null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Skill Freshness</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Scores combine source age, unincorporated and changed sources, contradictions and recent usage.
+            Owners get a weekly Slack DM (or email) listing their stale skills.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => refetch()}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={() => digestMutation.mutate({ force: true })}
+            disabled={digestMutation.isPending || report.totals.stale === 0}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Send className="w-4 h-4" />
+            {digestMutation.isPending ? "Sending..." : "Send digests now"}
+          </button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-3 gap-3">
+        {(["fresh", "aging", "stale"] as const).map((status) => (
+          <div key={status} className="p-4 bg-white border border-gray-200 rounded-lg">
+            <div className="text-xs text-gray-500 mb-1 capitalize">{status}</div>
+            <div className="text-xl font-bold">{report.totals[status]}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* By Library */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-2">By Library</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Library</th>
+              <th className="py-2 font-medium">Fresh</th>
+              <th className="py-2 font-medium">Aging</th>
+              <th className="py-2 font-medium">Stale</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(report.byLibrary).map(([libraryId, counts]) => (
+              <tr key={libraryId} className="border-b border-gray-100">
+                <td className="py-2 capitalize">{libraryId}</td>
+                <td className="py-2">{counts.fresh}</td>
+                <td className="py-2">{counts.aging}</td>
+                <td className="py-2">{counts.stale}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Skills needing attention */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-2">Needs Attention</h3>
+        {report.skills.length === 0 ? (
+          <p className="text-sm text-gray-500">All skills are fresh.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">Skill</th>
+                <th className="py-2 font-medium">Score</th>
+                <th className="py-2 font-medium">Reasons</th>
+                <th className="py-2 font-medium">Owners</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.skills.map((skill) => (
+                <tr key={skill.id} className="border-b border-gray-100 align-top">
+                  <td className="py-2">
+                    {skill.libraryId === "customers" ? (
+                      skill.title
+                    ) : (
+                      <a href={`/v2/${skill.libraryId}/${skill.slug || skill.id}`} className="text-blue-600 hover:underline">
+                        {skill.title}
+                      </a>
+                    )}
+                    <div className="text-xs text-gray-400 capitalize">{skill.libraryId}</div>
+                  </td>
+                  <td className="py-2">
+                    <span className={`px-2 py-0.5 text-xs rounded ${STATUS_STYLES[skill.freshness.status]}`}>
+                      {skill.freshness.score}
+                    </span>
+                  </td>
+                  <td className="py-2 text-gray-600">{skill.freshness.reasons.join("; ")}</td>
+                  <td className="py-2 text-gray-600">
+                    {skill.owners.length > 0 ? skill.owners.map((owner) => owner.name || owner.email).join(", ") : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -88,6 +88,15 @@ export const INTEGRATIONS: Record<string, IntegrationConfig> = {
     ],
     docsUrl: "https://api.slack.com/messaging/webhooks",
   },
+  email: {
+    name: "Email",
+    description: "Send skill freshness digests by email when an owner is not on Slack",
+    envVars: [
+      { key: "RESEND_API_KEY", label: "Resend API Key", placeholder: "re_...", isSecret: true },
+      { key: "EMAIL_FROM", label: "From Address", placeholder: "Transparent Trust <noreply@example.com>" },
+    ],
+    docsUrl: "https://resend.com/docs/api-reference/emails/send-email",
+  },
   snowflake: {
     name: "Snowflake",
     description: "Connect to Snowflake for GTM data (Gong calls, HubSpot activities, Looker metrics)",
@@ -154,7 +163,7 @@ export const actionConfig: Record<AuditAction, { label: string; color: string }>
 export const TABS = [
   { id: "branding", label: "Branding" },
   { id: "integrations", label: "Integrations" },
-  { id: "auth-groups", label: "Auth Groups" },
+  { id: "auth-groups", label: "Group Mappings" },
   { id: "llm-speed", label: "LLM Speed" },
   { id: "rate-limits", label: "Rate Limits" },
   { id: "usage", label: "API Usage" },
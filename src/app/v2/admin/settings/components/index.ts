@@ -4,6 +4,8 @@ export { default as LLMSpeedTab } from "./LLMSpeedTab";
 export { default as RateLimitsTab } from "./RateLimitsTab";
 export { default as UsageTab } from "./UsageTab";
 export { default as AuditTab } from "./AuditTab";
+export { default as ApiKeysTab } from "./ApiKeysTab";
+export { default as FreshnessTab } from "./FreshnessTab";
 
 // Export supporting types, constants, and utilities for Audit tab
 export * from "./types";
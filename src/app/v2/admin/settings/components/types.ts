@@ -132,3 +132,39 @@ export type RateLimitSettingItem = {
   description: string;
   isDefault: boolean;
 };
+
+export type ApiKeyItem = {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  teamId: string | null;
+  scopes: string[];
+  rateLimit: number | null;
+  status: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  revokedAt: string | null;
+};
+
+export type FreshnessStatus = "fresh" | "aging" | "stale";
+
+export type FreshnessReportSkill = {
+  id: string;
+  title: string;
+  slug: string | null;
+  libraryId: string;
+  owners: Array<{ name: string; email?: string }>;
+  freshness: {
+    score: number;
+    status: FreshnessStatus;
+    reasons: string[];
+  };
+};
+
+export type FreshnessReportData = {
+  generatedAt: string;
+  totals: Record<FreshnessStatus, number>;
+  byLibrary: Record<string, Record<FreshnessStatus, number>>;
+  skills: FreshnessReportSkill[];
+};
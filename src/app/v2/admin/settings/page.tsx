@@ -10,12 +10,14 @@ import { useState, useEffect, Suspense } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { toast } from "sonner";
-import { Settings, Palette, Plug, BarChart3, Shield, Zap, Gauge, Clock, Loader, CheckCircle, AlertCircle, XCircle, RotateCw } from "lucide-react";
+import { Settings, Palette, Plug, BarChart3, Shield, Zap, Gauge, Clock, Loader, CheckCircle, AlertCircle, XCircle, RotateCw, KeyRound, Hourglass } from "lucide-react";
 import UsageTab from "./components/UsageTab";
 import AuthGroupsTab from "./components/AuthGroupsTab";
 import LLMSpeedTab from "./components/LLMSpeedTab";
 import RateLimitsTab from "./components/RateLimitsTab";
 import AuditTab from "./components/AuditTab";
+import ApiKeysTab from "./components/ApiKeysTab";
+import FreshnessTab from "./components/FreshnessTab";
 
 type BrandingSettings = {
   appName: string;
@@ -27,10 +29,12 @@ type BrandingSettings = {
 const TABS = [
   { id: "branding", label: "Branding", icon: Palette },
   { id: "integrations", label: "Integrations", icon: Plug },
-  { id: "auth-groups", label: "Auth Groups", icon: Shield },
+  { id: "auth-groups", label: "Group Mappings", icon: Shield },
   { id: "llm-speed", label: "LLM Speed", icon: Zap },
   { id: "rate-limits", label: "Rate Limits", icon: Gauge },
+  { id: "api-keys", label: "API Keys", icon: KeyRound },
   { id: "usage", label: "Usage", icon: BarChart3 },
+  { id: "freshness", label: "Freshness", icon: Hourglass },
   { id: "audit", label: "Audit", icon: Clock },
 ] as const;
 
@@ -607,6 +611,8 @@ function SettingsContent() {
           {activeTab === "auth-groups" && <AuthGroupsTab />}
           {activeTab === "llm-speed" && <LLMSpeedTab />}
           {activeTab === "rate-limits" && <RateLimitsTab />}
+          {activeTab === "api-keys" && <ApiKeysTab />}
+          {activeTab === "freshness" && <FreshnessTab />}
           {activeTab === "audit" && <AuditTab />}
         </div>
 
@@ -1,71 +1,197 @@
 /**
  * V2 Audit Log Page
  *
- * System audit trail - reuses components from V1 audit-log
+ * System-wide audit trail backed by /api/v2/audit-log, with CSV / JSON Lines
+ * export for compliance evidence. Reuses formatting and pagination from the
+ * V1 audit-log components.
  */
 
 'use client';
 
 import { useState, useCallback } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, Clock } from 'lucide-react';
+import { ArrowLeft, ChevronDown, ChevronRight, Clock, Download, RefreshCw } from 'lucide-react';
 import { InlineLoader } from '@/components/ui/loading';
 import { useApiQuery } from '@/hooks/use-api';
+import { PaginationControls, Pagination } from '@/app/audit-log/components';
+import { formatDate, formatFullDate } from '@/app/audit-log/components/types';
 
-import {
-  SearchFilterBar,
-  AuditEntryRow,
-  PaginationControls,
-  AuditEntityType,
-  AuditAction,
-  AuditLogEntry,
-  Pagination,
-} from '@/app/audit-log/components';
+type AuditLogEvent = {
+  id: string;
+  eventType: string;
+  actorId: string | null;
+  actorType: string;
+  targetType: string | null;
+  targetId: string | null;
+  teamId: string | null;
+  data: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  actor: { id: string; name: string | null; email: string | null } | null;
+};
 
 type AuditLogResponse = {
-  entries: AuditLogEntry[];
+  entries: AuditLogEvent[];
   pagination: Pagination;
 };
 
+const EVENT_GROUPS = [
+  { value: '', label: 'All events' },
+  { value: 'block.', label: 'Library items' },
+  { value: 'source.', label: 'Sources & assignments' },
+  { value: 'team.', label: 'Teams & membership' },
+  { value: 'user.', label: 'User provisioning' },
+  { value: 'group_mapping.', label: 'Group mappings' },
+  { value: 'directory_group.', label: 'Directory groups' },
+  { value: 'project.', label: 'Projects' },
+  { value: 'prompt.', label: 'Prompts' },
+  { value: 'integration.', label: 'Integrations' },
+  { value: 'audit_log.', label: 'Audit log exports' },
+];
+
+const ACTOR_TYPES = [
+  { value: '', label: 'Any actor' },
+  { value: 'user', label: 'User' },
+  { value: 'api', label: 'API key' },
+  { value: 'system', label: 'System' },
+];
+
+function AuditEventRow({
+  entry,
+  isExpanded,
+  onToggle,
+}: {
+  entry: AuditLogEvent;
+  isExpanded: boolean;
+  onToggle: () => void;
+}) {
+  const actorLabel =
+    entry.actor?.name || entry.actor?.email || entry.actorId || (entry.actorType === 'system' ? 'System' : 'Unknown');
+
+  return (
+    <div className="border-b border-gray-100 last:border-b-0">
+      <button
+        onClick={onToggle}
+        className={`w-full flex items-center gap-3 px-4 py-3 text-left ${isExpanded ? 'bg-gray-50' : 'hover:bg-gray-50'}`}
+      >
+        {isExpanded ? (
+          <ChevronDown className="w-4 h-4 text-gray-400" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-gray-400" />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-xs font-mono font-medium px-2 py-0.5 rounded bg-blue-50 text-blue-700">
+              {entry.eventType}
+            </span>
+            {entry.targetType && (
+              <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded">
+                {entry.targetType}
+              </span>
+            )}
+          </div>
+          {entry.targetId && (
+            <div className="text-sm text-gray-700 mt-1 font-mono truncate">{entry.targetId}</div>
+          )}
+        </div>
+        <div className="text-right flex-shrink-0">
+          <div className="text-sm text-gray-600">
+            {actorLabel}
+            {entry.actorType === 'api' && <span className="ml-1 text-xs text-gray-400">(API)</span>}
+          </div>
+          <div className="text-xs text-gray-400" title={formatFullDate(entry.createdAt)}>
+            {formatDate(entry.createdAt)}
+          </div>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="px-11 pb-4 bg-gray-50 text-sm">
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 mb-3">
+            <dt className="text-gray-500">Time</dt>
+            <dd className="text-gray-800">{formatFullDate(entry.createdAt)}</dd>
+            <dt className="text-gray-500">Actor</dt>
+            <dd className="text-gray-800">
+              {entry.actor?.email || entry.actorId || '—'} ({entry.actorType})
+            </dd>
+            {entry.teamId && (
+              <>
+                <dt className="text-gray-500">Team</dt>
+                <dd className="text-gray-800 font-mono">{entry.teamId}</dd>
+              </>
+            )}
+            <dt className="text-gray-500">IP address</dt>
+            <dd className="text-gray-800">{entry.ipAddress || '—'}</dd>
+            <dt className="text-gray-500">User agent</dt>
+            <dd className="text-gray-800 truncate">{entry.userAgent || '—'}</dd>
+          </dl>
+          {entry.data && Object.keys(entry.data).length > 0 && (
+            <pre className="p-3 bg-white border border-gray-200 rounded text-xs text-gray-700 overflow-x-auto">
+              {JSON.stringify(entry.data, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function AuditLogPage() {
   const [page, setPage] = useState(1);
   const [limit] = useState(50);
 
   // Filters
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedEntityType, setSelectedEntityType] = useState<AuditEntityType | ''>('');
-  const [selectedAction, setSelectedAction] = useState<AuditAction | ''>('');
-  const [showFilters, setShowFilters] = useState(false);
+  const [eventType, setEventType] = useState('');
+  const [actorType, setActorType] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
 
   // Expansion state for entries
   const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
 
-  // Fetch audit log with useApiQuery
+  const filterParams = {
+    eventType: eventType || undefined,
+    actorType: actorType || undefined,
+    targetId: targetId.trim() || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  };
+
   const { data: auditData, isLoading, error: queryError, refetch } = useApiQuery<AuditLogResponse>({
-    queryKey: ['audit-log', page, limit, searchQuery, selectedEntityType, selectedAction],
-    url: '/api/audit-log',
-    params: {
-      page,
-      limit,
-      search: searchQuery || undefined,
-      entityType: selectedEntityType || undefined,
-      action: selectedAction || undefined,
-    },
+    queryKey: ['audit-log-v2', page, limit, filterParams],
+    url: '/api/v2/audit-log',
+    params: { page, limit, ...filterParams },
     responseKey: 'data',
   });
 
-  const hasActiveFilters = Boolean(selectedEntityType || selectedAction || searchQuery);
+  const hasActiveFilters = Boolean(eventType || actorType || targetId || fromDate || toDate);
+
+  const updateFilter = useCallback(
+    (setter: (value: string) => void) => (value: string) => {
+      setter(value);
+      setPage(1);
+    },
+    []
+  );
 
   const handleClearFilters = useCallback(() => {
-    setSearchQuery('');
-    setSelectedEntityType('');
-    setSelectedAction('');
+    setEventType('');
+    setActorType('');
+    setTargetId('');
+    setFromDate('');
+    setToDate('');
     setPage(1);
   }, []);
 
-  const handleRefresh = useCallback(() => {
-    refetch();
-  }, [refetch]);
+  const exportUrl = (format: 'csv' | 'jsonl') => {
+    const params = new URLSearchParams({ format });
+    for (const [key, value] of Object.entries(filterParams)) {
+      if (value) params.set(key, value);
+    }
+    return `/api/v2/audit-log/export?${params.toString()}`;
+  };
 
   const handleToggleEntry = useCallback((entryId: string) => {
     setExpandedEntryId((prev) => (prev === entryId ? null : entryId));
@@ -83,38 +209,104 @@ export default function AuditLogPage() {
       </Link>
 
       {/* Header */}
-      <div className="mb-8">
-        <div className="flex items-center gap-3 mb-2">
-          <Clock className="w-8 h-8 text-blue-600" />
-          <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <Clock className="w-8 h-8 text-blue-600" />
+            <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+          </div>
+          <p className="text-gray-500">System activity and changes across the platform</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <a
+            href={exportUrl('csv')}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </a>
+          <a
+            href={exportUrl('jsonl')}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" />
+            Export JSONL
+          </a>
         </div>
-        <p className="text-gray-500">System activity and changes across the platform</p>
       </div>
 
-      {/* Filter Bar */}
-      <SearchFilterBar
-        searchQuery={searchQuery}
-        onSearchChange={(value) => {
-          setSearchQuery(value);
-          setPage(1);
-        }}
-        selectedEntityType={selectedEntityType}
-        onEntityTypeChange={(type) => {
-          setSelectedEntityType(type);
-          setPage(1);
-        }}
-        selectedAction={selectedAction}
-        onActionChange={(action) => {
-          setSelectedAction(action);
-          setPage(1);
-        }}
-        showFilters={showFilters}
-        onToggleFilters={() => setShowFilters((prev) => !prev)}
-        isLoading={isLoading}
-        hasActiveFilters={hasActiveFilters}
-        onClearFilters={handleClearFilters}
-        onRefresh={handleRefresh}
-      />
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="text-sm text-gray-600">
+          <span className="block mb-1">Event</span>
+          <select
+            value={eventType}
+            onChange={(e) => updateFilter(setEventType)(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            {EVENT_GROUPS.map((group) => (
+              <option key={group.value} value={group.value}>
+                {group.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-600">
+          <span className="block mb-1">Actor</span>
+          <select
+            value={actorType}
+            onChange={(e) => updateFilter(setActorType)(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            {ACTOR_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-600">
+          <span className="block mb-1">Target ID</span>
+          <input
+            type="text"
+            value={targetId}
+            onChange={(e) => updateFilter(setTargetId)(e.target.value)}
+            placeholder="e.g. block or team ID"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          <span className="block mb-1">From</span>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          <span className="block mb-1">To</span>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => updateFilter(setToDate)(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+        {hasActiveFilters && (
+          <button onClick={handleClearFilters} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Clear filters
+          </button>
+        )}
+        <button
+          onClick={() => refetch()}
+          disabled={isLoading}
+          className="ml-auto inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
 
       {/* Loading State */}
       {isLoading && (
@@ -143,12 +335,11 @@ export default function AuditLogPage() {
           ) : (
             <>
               <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
-                {auditData.entries.map((entry, index) => (
-                  <AuditEntryRow
+                {auditData.entries.map((entry) => (
+                  <AuditEventRow
                     key={entry.id}
                     entry={entry}
                     isExpanded={expandedEntryId === entry.id}
-                    isLast={index === auditData.entries.length - 1}
                     onToggle={() => handleToggleEntry(entry.id)}
                   />
                 ))}
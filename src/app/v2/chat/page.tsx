@@ -150,7 +150,20 @@ export default function ChatPage() {
     (message) => message.id === transparencyMessageId
   );
   const selectedTransparency = selectedTransparencyMessage?.transparency;
-  const transparencySections = selectedTransparency?.blocksUsed?.length
+  const excludedSkills = selectedTransparency?.excludedSkills || [];
+  const excludedSkillsSection = excludedSkills.length
+    ? [
+        {
+          id: "excluded-skills",
+          title: `Excluded Skills (${excludedSkills.length})`,
+          content: excludedSkills.map((skill) => `• ${skill.title} — ${skill.reason}`).join("\n"),
+          note: "Matched but not exposed to chat (skill Exposed To setting)",
+          defaultExpanded: false,
+          maxHeight: 160,
+        },
+      ]
+    : [];
+  const blockSections = selectedTransparency?.blocksUsed?.length
     ? selectedTransparency.blocksUsed.map((block, index) => ({
         id: block.id,
         title: `Block ${index + 1}: ${block.title}`,
@@ -170,6 +183,7 @@ export default function ChatPage() {
           },
         ]
       : [];
+  const transparencySections = [...blockSections, ...excludedSkillsSection];
 
   const handlePresetChange = useCallback((preset: InstructionPreset | null) => {
     setSettingsPresetId(preset?.id || null);
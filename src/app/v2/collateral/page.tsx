@@ -53,7 +53,11 @@ export default function CollateralPage() {
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [isExportingSlides, setIsExportingSlides] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<"word" | "pdf" | null>(null);
   const [slidesExportResult, setSlidesExportResult] = useState<{ presentationId: string; webViewLink: string } | null>(null);
+  const [isExportingPptx, setIsExportingPptx] = useState(false);
+  // Image placeholder name -> data URL for .pptx templates
+  const [pptxImages, setPptxImages] = useState<Record<string, string>>({});
 
   // Get state from stores
   const modelSpeed = useSettingsStore((state) => state.modelSpeed);
@@ -277,34 +281,63 @@ export default function CollateralPage() {
     toast.success("Downloaded as Markdown");
   };
 
-  const handleExportToSlides = async () => {
-    if (!selectedTemplate) {
-      toast.error("Please select a template first");
-      return;
-    }
+  const handleExportDocument = async (format: "word" | "pdf") => {
+    if (!latestAssistantMessage?.content) return;
+    setExportingFormat(format);
+    try {
+      const customerName = selectedCustomerId
+        ? customers.find((c) => c.id === selectedCustomerId)?.company
+        : undefined;
+      const response = await fetch("/api/v2/collateral/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format,
+          title: selectedTemplate?.title || "Collateral",
+          subtitle: customerName,
+          content: latestAssistantMessage.content,
+          sources: (latestAssistantMessage.transparency?.blocksUsed || []).map((block) => ({
+            id: block.id,
+            title: block.title,
+          })),
+        }),
+      });
 
-    const attributes = selectedTemplate.attributes;
-    // Support both new outputConfig and legacy googleSlidesTemplateId
-    const googleSlidesTemplateId =
-      attributes?.outputConfig?.['google-slides']?.templateId ||
-      attributes?.googleSlidesTemplateId;
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || "Failed to export");
+        return;
+      }
 
-    if (attributes?.outputType !== 'google-slides' || !googleSlidesTemplateId) {
-      toast.error("This template is not configured for Google Slides export");
-      return;
+      const filename =
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ||
+        (format === "word" ? "collateral.docx" : "collateral.pdf");
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      toast.success(format === "word" ? "Downloaded as Word" : "Downloaded as PDF");
+    } catch (error) {
+      console.error("Document export failed:", error);
+      toast.error("Failed to export document");
+    } finally {
+      setExportingFormat(null);
     }
+  };
 
-    setIsExportingSlides(true);
-    setSlidesExportResult(null);
-
-    // Step 1: Generate placeholder values
-    let placeholders: Record<string, string>;
+  // Generate placeholder values for a slides/pptx template. Shows a toast and
+  // returns null on failure.
+  const generatePlaceholderValues = async (templateId: string): Promise<Record<string, string> | null> => {
     try {
       const generateResponse = await fetch("/api/v2/collateral/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          templateId: selectedTemplate.id,
+          templateId,
           blockIds: selectedBlockIds,
           stagedSourceIds: selectedSourceIds,
           customerId: selectedCustomerId || undefined,
@@ -314,21 +347,47 @@ export default function CollateralPage() {
       if (!generateResponse.ok) {
         const error = await generateResponse.json();
         toast.error(error.error || "Failed to generate content");
-        setIsExportingSlides(false);
-        return;
+        return null;
       }
 
       const generateData = await generateResponse.json();
-      placeholders = generateData.placeholders;
+      const placeholders: Record<string, string> | undefined = generateData.placeholders;
 
       if (!placeholders || Object.keys(placeholders).length === 0) {
         toast.error("No placeholder values were generated");
-        setIsExportingSlides(false);
-        return;
+        return null;
       }
+      return placeholders;
     } catch (error) {
       console.error("Content generation failed:", error);
       toast.error("Failed to generate content for placeholders");
+      return null;
+    }
+  };
+
+  const handleExportToSlides = async () => {
+    if (!selectedTemplate) {
+      toast.error("Please select a template first");
+      return;
+    }
+
+    const attributes = selectedTemplate.attributes;
+    // Support both new outputConfig and legacy googleSlidesTemplateId
+    const googleSlidesTemplateId =
+      attributes?.outputConfig?.['google-slides']?.templateId ||
+      attributes?.googleSlidesTemplateId;
+
+    if (attributes?.outputType !== 'google-slides' || !googleSlidesTemplateId) {
+      toast.error("This template is not configured for Google Slides export");
+      return;
+    }
+
+    setIsExportingSlides(true);
+    setSlidesExportResult(null);
+
+    // Step 1: Generate placeholder values
+    const placeholders = await generatePlaceholderValues(selectedTemplate.id);
+    if (!placeholders) {
       setIsExportingSlides(false);
       return;
     }
@@ -370,11 +429,91 @@ export default function CollateralPage() {
     }
   };
 
+  const handleExportToPptx = async () => {
+    if (!selectedTemplate) {
+      toast.error("Please select a template first");
+      return;
+    }
+
+    if (selectedTemplate.attributes?.outputType !== 'pptx' || !selectedTemplate.attributes.outputConfig?.pptx) {
+      toast.error("This template has no PowerPoint file uploaded");
+      return;
+    }
+
+    setIsExportingPptx(true);
+    try {
+      const placeholders = await generatePlaceholderValues(selectedTemplate.id);
+      if (!placeholders) return;
+
+      const customerName = selectedCustomerId
+        ? customers.find((c) => c.id === selectedCustomerId)?.company
+        : undefined;
+      const response = await fetch("/api/v2/collateral/export-pptx", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          templateId: selectedTemplate.id,
+          title: customerName ? `${selectedTemplate.title} - ${customerName}` : selectedTemplate.title,
+          placeholders,
+          images: pptxImages,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || "Failed to export PowerPoint");
+        return;
+      }
+
+      const filename =
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || "collateral.pptx";
+      const missing = Number(response.headers.get("X-Placeholders-Missing") || 0);
+      const truncated = Number(response.headers.get("X-Text-Truncated") || 0);
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      if (missing > 0 || truncated > 0) {
+        toast.warning(
+          `Downloaded PowerPoint. ${missing} placeholder${missing !== 1 ? "s" : ""} left unfilled, ` +
+            `${truncated} text box${truncated !== 1 ? "es" : ""} truncated to fit.`
+        );
+      } else {
+        toast.success("Downloaded as PowerPoint");
+      }
+    } catch (error) {
+      console.error("PowerPoint export failed:", error);
+      toast.error("Failed to export PowerPoint");
+    } finally {
+      setIsExportingPptx(false);
+    }
+  };
+
+  const handlePptxImageSelect = (name: string, file: File | undefined) => {
+    if (!file) {
+      setPptxImages((prev) => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setPptxImages((prev) => ({ ...prev, [name]: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
   const startNewCollateral = () => {
     clearSession();
     setSelectedTemplateId(null);
     setSelectedCustomerId(null);
     setSlidesExportResult(null);
+    setPptxImages({});
     useSelectionStore.setState({
       skillSelections: new Map(),
       documentSelections: new Map(),
@@ -465,6 +604,23 @@ export default function CollateralPage() {
                 <p className="text-xs font-medium text-muted-foreground mb-1">Selected Template</p>
                 <p className="text-sm font-medium">{selectedTemplate.title}</p>
               </div>
+              {selectedTemplate.attributes?.outputType === 'pptx' &&
+                (selectedTemplate.attributes.imagePlaceholders || []).length > 0 && (
+                  <div className="mb-3 p-3 bg-background rounded-lg border space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground">Slide Images</p>
+                    {selectedTemplate.attributes.imagePlaceholders!.map((name) => (
+                      <label key={name} className="block text-xs">
+                        <span className="font-mono">{name}</span>
+                        <input
+                          type="file"
+                          accept="image/png,image/jpeg"
+                          className="mt-1 block w-full text-xs"
+                          onChange={(e) => handlePptxImageSelect(name, e.target.files?.[0])}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
               <Button
                 className="w-full"
                 onClick={handleGenerateFromTemplate}
@@ -528,6 +684,44 @@ export default function CollateralPage() {
                 <Download className="h-3 w-3" />
                 Download
               </Button>
+              {(["word", "pdf"] as const).map((format) => (
+                <Button
+                  key={format}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleExportDocument(format)}
+                  disabled={exportingFormat !== null}
+                  className="gap-2"
+                >
+                  {exportingFormat === format ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <FileText className="h-3 w-3" />
+                  )}
+                  {format === "word" ? "Word" : "PDF"}
+                </Button>
+              ))}
+              {selectedTemplate?.attributes?.outputType === 'pptx' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={handleExportToPptx}
+                  disabled={isExportingPptx || !selectedTemplate.attributes.outputConfig?.pptx}
+                  title={
+                    selectedTemplate.attributes.outputConfig?.pptx
+                      ? "Fill the PowerPoint template and download"
+                      : "Upload a .pptx file on the template's configure page first"
+                  }
+                >
+                  {isExportingPptx ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <Presentation className="h-3 w-3" />
+                  )}
+                  PowerPoint
+                </Button>
+              )}
               {slidesExportResult ? (
                 <Button
                   size="sm"
@@ -10,7 +10,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Settings, Save, Loader2, AlertTriangle, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Settings, Save, Loader2, AlertTriangle, ExternalLink, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -38,6 +38,8 @@ interface Template {
   updatedAt: string;
 }
 
+type PptxConfig = NonNullable<NonNullable<TemplateAttributes['outputConfig']>['pptx']>;
+
 interface Persona {
   id: string;
   title: string;
@@ -46,6 +48,7 @@ interface Persona {
 const OUTPUT_TYPES: Array<{ value: string; label: string; disabled?: boolean }> = [
   { value: 'text', label: 'Text (No structured output)' },
   { value: 'google-slides', label: 'Google Slides' },
+  { value: 'pptx', label: 'PowerPoint (.pptx)' },
   { value: 'word', label: 'Word Document (Coming soon)', disabled: true },
   { value: 'pdf', label: 'PDF (Coming soon)', disabled: true },
 ];
@@ -64,6 +67,8 @@ export default function TemplateConfigurePage() {
   const [content, setContent] = useState('');
   const [outputType, setOutputType] = useState<string>('text');
   const [googleSlidesId, setGoogleSlidesId] = useState('');
+  const [pptxFile, setPptxFile] = useState<PptxConfig | null>(null);
+  const [imagePlaceholders, setImagePlaceholders] = useState<string[]>([]);
   const [placeholders, setPlaceholders] = useState<PlaceholderEntry[]>([]);
   const [defaultPersonaId, setDefaultPersonaId] = useState<string>('');
 
@@ -72,6 +77,7 @@ export default function TemplateConfigurePage() {
 
   // Auto-detect state
   const [isAutoDetecting, setIsAutoDetecting] = useState(false);
+  const [isUploadingPptx, setIsUploadingPptx] = useState(false);
 
   // Bulk import modal
   const [showBulkImport, setShowBulkImport] = useState(false);
@@ -118,6 +124,8 @@ export default function TemplateConfigurePage() {
           data.attributes?.googleSlidesTemplateId ||
           '';
         setGoogleSlidesId(slidesId);
+        setPptxFile(data.attributes?.outputConfig?.pptx || null);
+        setImagePlaceholders(data.attributes?.imagePlaceholders || []);
 
         // Convert placeholderGuide to array format
         const guide = data.attributes?.placeholderGuide || {};
@@ -181,11 +189,13 @@ export default function TemplateConfigurePage() {
       content !== template.content ||
       outputType !== (template.attributes?.outputType || 'text') ||
       googleSlidesId !== originalSlidesId ||
+      pptxFile?.s3Key !== template.attributes?.outputConfig?.pptx?.s3Key ||
+      JSON.stringify(imagePlaceholders) !== JSON.stringify(template.attributes?.imagePlaceholders || []) ||
       defaultPersonaId !== (template.attributes?.defaultPersonaId || '') ||
       JSON.stringify(placeholders) !== JSON.stringify(originalPlaceholders);
 
     setHasUnsavedChanges(hasChanges);
-  }, [template, title, content, outputType, googleSlidesId, placeholders, defaultPersonaId]);
+  }, [template, title, content, outputType, googleSlidesId, pptxFile, imagePlaceholders, placeholders, defaultPersonaId]);
 
   // Parse Google Slides URL to extract ID
   const parseGoogleSlidesId = (input: string): string => {
@@ -205,6 +215,30 @@ export default function TemplateConfigurePage() {
     setGoogleSlidesId(parseGoogleSlidesId(value));
   };
 
+  // Merge detected placeholder names into the list, keeping existing descriptions
+  const mergeDetectedPlaceholders = useCallback(
+    (detectedPlaceholders: string[]) => {
+      if (detectedPlaceholders.length === 0) {
+        toast.warning('No {{...}} placeholders found in the presentation');
+        return;
+      }
+
+      const existingNames = new Set(placeholders.map((p) => p.name));
+      const newPlaceholders: PlaceholderEntry[] = detectedPlaceholders
+        .filter((name) => !existingNames.has(name))
+        .map((name) => ({ name, description: '' }));
+
+      if (newPlaceholders.length === 0) {
+        toast.info('All detected placeholders already exist');
+        return;
+      }
+
+      setPlaceholders([...placeholders, ...newPlaceholders]);
+      toast.success(`Added ${newPlaceholders.length} placeholder${newPlaceholders.length !== 1 ? 's' : ''}`);
+    },
+    [placeholders]
+  );
+
   // Auto-detect placeholders from Google Slides
   const handleAutoDetect = useCallback(async () => {
     if (!googleSlidesId) {
@@ -224,33 +258,43 @@ export default function TemplateConfigurePage() {
         throw new Error(data.error || 'Failed to detect placeholders');
       }
 
-      const detectedPlaceholders: string[] = data.placeholders || [];
+      mergeDetectedPlaceholders(data.placeholders || []);
+    } catch (err) {
+      console.error('Error auto-detecting placeholders:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to detect placeholders');
+    } finally {
+      setIsAutoDetecting(false);
+    }
+  }, [googleSlidesId, mergeDetectedPlaceholders]);
 
-      if (detectedPlaceholders.length === 0) {
-        toast.warning('No {{...}} placeholders found in the presentation');
-        return;
-      }
+  // Upload a .pptx template and merge the placeholders found on its slides
+  const handlePptxUpload = async (file: File | undefined) => {
+    if (!file) return;
 
-      // Merge with existing placeholders
-      const existingNames = new Set(placeholders.map((p) => p.name));
-      const newPlaceholders: PlaceholderEntry[] = detectedPlaceholders
-        .filter((name) => !existingNames.has(name))
-        .map((name) => ({ name, description: '' }));
+    setIsUploadingPptx(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('templateId', templateId);
 
-      if (newPlaceholders.length === 0) {
-        toast.info('All detected placeholders already exist');
-        return;
+      const response = await fetch('/api/v2/templates/pptx', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload PowerPoint template');
       }
 
-      setPlaceholders([...placeholders, ...newPlaceholders]);
-      toast.success(`Added ${newPlaceholders.length} placeholder${newPlaceholders.length !== 1 ? 's' : ''}`);
+      setPptxFile(data.pptx);
+      setImagePlaceholders(data.imagePlaceholders || []);
+      toast.success(`Uploaded ${data.pptx.fileName}`);
+      mergeDetectedPlaceholders(data.placeholders || []);
     } catch (err) {
-      console.error('Error auto-detecting placeholders:', err);
-      toast.error(err instanceof Error ? err.message : 'Failed to detect placeholders');
+      console.error('Error uploading PowerPoint template:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to upload PowerPoint template');
     } finally {
-      setIsAutoDetecting(false);
+      setIsUploadingPptx(false);
     }
-  }, [googleSlidesId, placeholders]);
+  };
 
   // Handle bulk import
   const handleBulkImport = (imported: PlaceholderEntry[]) => {
@@ -300,6 +344,9 @@ export default function TemplateConfigurePage() {
       if (outputType === 'google-slides' && googleSlidesId) {
         outputConfig['google-slides'] = { templateId: googleSlidesId };
       }
+      if (outputType === 'pptx' && pptxFile) {
+        outputConfig.pptx = pptxFile;
+      }
 
       const response = await fetch(`/api/v2/blocks/${templateId}`, {
         method: 'PATCH',
@@ -313,6 +360,7 @@ export default function TemplateConfigurePage() {
             outputConfig,
             placeholderGuide,
             detectedPlaceholders: placeholders.map((p) => p.name).filter(Boolean),
+            imagePlaceholders: outputType === 'pptx' ? imagePlaceholders : undefined,
             defaultPersonaId: defaultPersonaId || undefined,
             // Keep legacy field for backward compatibility during transition
             googleSlidesTemplateId: outputType === 'google-slides' ? googleSlidesId : undefined,
@@ -489,6 +537,49 @@ export default function TemplateConfigurePage() {
               </div>
             )}
 
+            {/* PowerPoint Template File */}
+            {outputType === 'pptx' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  PowerPoint Template
+                </label>
+                <div className="flex items-center gap-3">
+                  <Button variant="outline" disabled={isUploadingPptx} asChild>
+                    <label className="cursor-pointer">
+                      {isUploadingPptx ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Upload className="w-4 h-4 mr-2" />
+                      )}
+                      {pptxFile ? 'Replace .pptx' : 'Upload .pptx'}
+                      <input
+                        type="file"
+                        accept=".pptx,application/vnd.openxmlformats-officedocument.presentationml.presentation"
+                        className="hidden"
+                        disabled={isUploadingPptx}
+                        onChange={(e) => {
+                          handlePptxUpload(e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  </Button>
+                  {pptxFile && (
+                    <span className="text-sm text-gray-600 truncate">{pptxFile.fileName}</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Use {'{{Placeholder}}'} in text boxes and tables. Use {'{{image:Name}}'} alone in a shape to
+                  mark where an uploaded image goes.
+                </p>
+                {imagePlaceholders.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Image placeholders: <span className="font-mono">{imagePlaceholders.join(', ')}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Default Persona */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -25,6 +25,7 @@ import {
   Play,
   RefreshCw,
   AlertCircle,
+  Download,
   Shield,
 } from 'lucide-react';
 import { toast } from 'sonner';
@@ -32,7 +33,7 @@ import { StatsBar } from '@/components/v2/bulk-processing/StatsBar';
 import { FilterBar } from '@/components/v2/bulk-processing/FilterBar';
 import { ContractSplitView } from '@/components/v2/contracts/ContractSplitView';
 import { SkillSelectionPanel } from '@/components/v2/contracts/SkillSelectionPanel';
-import type { ContractFinding, AlignmentRating } from '@/types/contractReview';
+import type { ContractFinding, AlignmentRating, PlaybookReference } from '@/types/contractReview';
 
 type BulkProject = {
   id: string;
@@ -48,6 +49,8 @@ type BulkProject = {
     fileSize?: number;
     uploadedAt?: string;
     extractedTextLength?: number;
+    /** Original .docx, present when the redline export is available */
+    sourceFile?: { fileName: string } | null;
   };
   rows: Array<{
     id: string;
@@ -57,6 +60,7 @@ type BulkProject = {
       overallRating?: string;
       summary?: string;
       findings?: ContractFinding[];
+      playbook?: PlaybookReference;
     };
     errorMessage?: string;
   }>;
@@ -154,7 +158,7 @@ export default function ContractDetailPage({ params }: { params: Promise<{ id: s
     return () => clearInterval(pollInterval);
   }, [isAnalyzing, id, loadProject, pollErrorCount, MAX_POLL_ERRORS]);
 
-  const handleStartAnalysis = async (skillIds: string[]) => {
+  const handleStartAnalysis = async (skillIds: string[], playbookId?: string) => {
     setShowSkillPanel(false);
     setIsAnalyzing(true);
 
@@ -166,6 +170,7 @@ export default function ContractDetailPage({ params }: { params: Promise<{ id: s
           skillIds,
           libraryId: 'knowledge',
           modelSpeed: 'quality',
+          playbookId,
         }),
       });
 
@@ -190,6 +195,7 @@ export default function ContractDetailPage({ params }: { params: Promise<{ id: s
 
   const overallRating = project?.rows?.[0]?.outputData?.overallRating;
   const summary = project?.rows?.[0]?.outputData?.summary;
+  const playbook = project?.rows?.[0]?.outputData?.playbook;
 
   // Filter findings
   const filteredFindings = useMemo(() => {
@@ -310,6 +316,11 @@ export default function ContractDetailPage({ params }: { params: Promise<{ id: s
                 {project.config?.extractedTextLength && (
                   <span>{project.config.extractedTextLength.toLocaleString()} characters</span>
                 )}
+                {playbook && (
+                  <span>
+                    Playbook: {playbook.title} (v{playbook.version})
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -319,6 +330,14 @@ export default function ContractDetailPage({ params }: { params: Promise<{ id: s
               <RefreshCw className="w-4 h-4 mr-2" />
               Refresh
             </Button>
+            {hasFindings && project.config?.sourceFile && (
+              <Button variant="outline" asChild>
+                <a href={`/api/v2/contracts/${project.id}/redline`}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export Redline
+                </a>
+              </Button>
+            )}
             {canAnalyze && (
               <Button onClick={() => setShowSkillPanel(true)} disabled={isAnalyzing}>
                 {isAnalyzing ? (
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { RefreshCw, Loader2, AlertCircle, Sparkles, ChevronDown, ChevronRight, Zap, FileText, Settings } from 'lucide-react';
+import { RefreshCw, Loader2, AlertCircle, Sparkles, ChevronDown, ChevronRight, Zap, FileText, Settings, Download } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { estimateTokens, formatTokenCount, MODEL_LIMITS } from '@/lib/tokenUtils';
 import { LookerConfigForm } from '@/components/v2/integrations/LookerConfigForm';
@@ -17,7 +17,7 @@ interface ViewTabProps {
   viewId: string;
   customerId: string;
   teamId?: string;
-  cachedContent?: { content: string; generatedAt: Date; transparency?: { systemPrompt: string } } | null;
+  cachedContent?: { id?: string; content: string; generatedAt: Date; transparency?: { systemPrompt: string } } | null;
   viewSummary?: string;
   compositionId?: string;
   customerSkills?: Skill[];
@@ -37,6 +37,7 @@ export function ViewTab({
   libraryId,
 }: ViewTabProps) {
   const [content, setContent] = useState(cachedContent?.content || null);
+  const [generatedViewId, setGeneratedViewId] = useState<string | null>(cachedContent?.id || null);
   const [generatedAt, setGeneratedAt] = useState<Date | null>(
     cachedContent?.generatedAt ? new Date(cachedContent.generatedAt) : null
   );
@@ -144,6 +145,7 @@ export function ViewTab({
       // Only update state if this request wasn't aborted
       if (!abortController.signal.aborted) {
         setContent(data.content);
+        setGeneratedViewId(data.id || null);
         setGeneratedAt(new Date(data.generatedAt));
         setSystemPrompt(data.transparency?.systemPrompt || null);
       }
@@ -479,13 +481,26 @@ export function ViewTab({
             </span>
           )}
         </div>
-        <button
-          onClick={() => generate(true)}
-          className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 font-medium"
-        >
-          <RefreshCw className="w-4 h-4" />
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          {generatedViewId &&
+            (['word', 'pdf'] as const).map((format) => (
+              <a
+                key={format}
+                href={`/api/v2/views/${generatedViewId}/export?format=${format}`}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 font-medium"
+              >
+                <Download className="w-4 h-4" />
+                {format === 'word' ? 'Word' : 'PDF'}
+              </a>
+            ))}
+          <button
+            onClick={() => generate(true)}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 font-medium"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </button>
+        </div>
       </div>
 
       {/* Expandable Prompt Section */}
@@ -8,6 +8,7 @@ interface PageProps {
   searchParams: Promise<{
     search?: string;
     review?: string;
+    freshness?: string;
   }>;
 }
 
@@ -19,6 +20,7 @@ export default async function KnowledgeItemsPage({ searchParams }: PageProps) {
       searchParams={{
         search: params.search,
         review: params.review,
+        freshness: params.freshness,
       }}
     />
   );
@@ -7,6 +7,7 @@
  * - Compositions view showing how blocks combine into prompts
  * - Individual blocks view with inline editing
  * - Version history and tier-based warnings
+ * - A/B variant experiments with per-variant win rates
  * - Live preview of assembled prompts
  */
 
@@ -32,6 +33,8 @@ import {
   ChevronDown,
   ArrowLeft,
   FileCode,
+  FlaskConical,
+  Trophy,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useApiQuery, useApiMutation } from "@/hooks/use-api";
@@ -49,6 +52,7 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import type { ManagedPrompt } from "@/lib/prompts/prompt-service";
+import type { ExperimentResults } from "@/lib/prompts/prompt-experiments";
 import { coreBlocks } from "@/lib/v2/prompts/blocks/core-blocks";
 import { allCompositions } from "@/lib/v2/prompts/compositions";
 import type { PromptBlock, CompositionCategory, CompositionUsage } from "@/lib/v2/prompts/types";
@@ -486,6 +490,224 @@ function BlockHistoryDialog({
   );
 }
 
+function BlockExperimentDialog({
+  block,
+  open,
+  onClose,
+  onPromoted,
+}: {
+  block: PromptBlock | null;
+  open: boolean;
+  onClose: () => void;
+  onPromoted: () => void;
+}) {
+  const [variantId, setVariantId] = useState("");
+  const [variantContent, setVariantContent] = useState("");
+  const [variantWeight, setVariantWeight] = useState("1");
+
+  const { data, isLoading, refetch } = useApiQuery<ExperimentResults>({
+    url: `/api/admin/prompts/${block?.id}/experiment`,
+    queryKey: ["prompt-experiment", block?.id],
+    enabled: !!block && open,
+  });
+
+  const configureMutation = useApiMutation<
+    ExperimentResults,
+    {
+      variants: Array<{ id: string; content: string; weight: number }>;
+      controlWeight: number;
+      status: "running" | "paused" | "completed";
+    }
+  >({
+    url: () => `/api/admin/prompts/${block?.id}/experiment`,
+    method: "PUT",
+    onSuccess: () => {
+      setVariantId("");
+      setVariantContent("");
+      setVariantWeight("1");
+      refetch();
+    },
+  });
+
+  const promoteMutation = useApiMutation<{ message: string }, { variantId: string }>({
+    url: () => `/api/admin/prompts/${block?.id}/experiment/promote`,
+    method: "POST",
+    onSuccess: () => {
+      refetch();
+      onPromoted();
+    },
+  });
+
+  if (!block) return null;
+
+  const experiment = data?.experiment;
+  const arms = data?.variants || [];
+  const variants = arms
+    .filter((arm) => !arm.isControl)
+    .map((arm) => ({ id: arm.variantId, content: arm.content, weight: arm.weight }));
+  const controlWeight = arms.find((arm) => arm.isControl)?.weight ?? 1;
+  const isRunning = experiment?.status === "running";
+
+  const handleAddVariant = () => {
+    configureMutation.mutate({
+      variants: [
+        ...variants,
+        { id: variantId.trim(), content: variantContent, weight: Number(variantWeight) || 0 },
+      ],
+      controlWeight,
+      status: experiment?.status === "completed" ? "paused" : experiment?.status || "paused",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            A/B Experiment: {block.name}
+          </DialogTitle>
+          <DialogDescription>
+            Variants are sampled by weight per call. Win rate combines chat ratings, review
+            approvals vs corrections, and Slack helpful votes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2 overflow-auto max-h-[60vh] space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          ) : (
+            <>
+              {experiment && (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm text-slate-600">
+                    <Badge variant={isRunning ? "default" : "outline"}>{experiment.status}</Badge>
+                    {experiment.startedAt && (
+                      <span>Started {new Date(experiment.startedAt).toLocaleDateString()}</span>
+                    )}
+                    {experiment.promotedVariantId && (
+                      <span>• Promoted &quot;{experiment.promotedVariantId}&quot;</span>
+                    )}
+                  </div>
+                  {experiment.status !== "completed" && variants.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={configureMutation.isPending}
+                      onClick={() =>
+                        configureMutation.mutate({
+                          variants,
+                          controlWeight,
+                          status: isRunning ? "paused" : "running",
+                        })
+                      }
+                    >
+                      {isRunning ? "Pause" : "Start"}
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {arms.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500 border-b">
+                      <th className="py-2 font-medium">Variant</th>
+                      <th className="py-2 font-medium">Weight</th>
+                      <th className="py-2 font-medium">Answers</th>
+                      <th className="py-2 font-medium">Positive / Negative</th>
+                      <th className="py-2 font-medium">Win rate</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {arms.map((arm) => (
+                      <tr key={arm.variantId} className="border-b last:border-0">
+                        <td className="py-2">
+                          <div className="flex items-center gap-1.5">
+                            <span className="font-medium text-slate-800">{arm.variantId}</span>
+                            {data?.winnerId === arm.variantId && (
+                              <Trophy className="h-3.5 w-3.5 text-yellow-600" />
+                            )}
+                          </div>
+                        </td>
+                        <td className="py-2 text-slate-600">{arm.weight}</td>
+                        <td className="py-2 text-slate-600">{arm.answers}</td>
+                        <td className="py-2 text-slate-600">
+                          {arm.positive} / {arm.negative}
+                        </td>
+                        <td className="py-2 font-medium text-slate-800">
+                          {arm.winRate === null ? "—" : `${Math.round(arm.winRate * 100)}%`}
+                        </td>
+                        <td className="py-2 text-right">
+                          {experiment?.status !== "completed" && (
+                            <Button
+                              variant={data?.winnerId === arm.variantId ? "default" : "ghost"}
+                              size="sm"
+                              disabled={promoteMutation.isPending}
+                              onClick={() => promoteMutation.mutate({ variantId: arm.variantId })}
+                            >
+                              {data?.winnerId === arm.variantId ? "Promote winner" : "Promote"}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="space-y-2 p-3 rounded-lg border bg-slate-50">
+                <p className="text-sm font-medium text-slate-700">Add variant</p>
+                <div className="flex gap-2">
+                  <Input
+                    value={variantId}
+                    onChange={(e) => setVariantId(e.target.value)}
+                    placeholder="Variant id (e.g. concise-v2)"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={variantWeight}
+                    onChange={(e) => setVariantWeight(e.target.value)}
+                    className="w-24"
+                    placeholder="Weight"
+                  />
+                </div>
+                <Textarea
+                  value={variantContent}
+                  onChange={(e) => setVariantContent(e.target.value)}
+                  placeholder="Variant prompt content"
+                  className="min-h-[120px] font-mono text-sm"
+                />
+                {configureMutation.error && (
+                  <p className="text-sm text-red-600">{configureMutation.error.message}</p>
+                )}
+                <Button
+                  size="sm"
+                  onClick={handleAddVariant}
+                  disabled={!variantId.trim() || !variantContent.trim() || configureMutation.isPending}
+                >
+                  {configureMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Add variant
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
@@ -508,6 +730,7 @@ function PromptRegistryContent() {
   const [showTierWarning, setShowTierWarning] = useState(false);
   const [pendingEditBlock, setPendingEditBlock] = useState<PromptBlock | null>(null);
   const [historyBlock, setHistoryBlock] = useState<PromptBlock | null>(null);
+  const [experimentBlock, setExperimentBlock] = useState<PromptBlock | null>(null);
 
   // Fetch prompts metadata
   const {
@@ -1002,6 +1225,17 @@ function PromptRegistryContent() {
                         >
                           <History className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setExperimentBlock(block);
+                          }}
+                        >
+                          <FlaskConical className="h-4 w-4" />
+                        </Button>
                         <ChevronRight className="h-4 w-4 text-slate-400" />
                       </div>
                     </div>
@@ -1041,6 +1275,13 @@ function PromptRegistryContent() {
         onClose={() => setHistoryBlock(null)}
         onRollback={handleRollback}
       />
+
+      <BlockExperimentDialog
+        block={experimentBlock}
+        open={!!experimentBlock}
+        onClose={() => setExperimentBlock(null)}
+        onPromoted={() => refetch()}
+      />
     </div>
   );
 }
@@ -5,11 +5,13 @@
  * - RFP Project rows
  * - Quick Questions
  * - Collateral outputs
+ * - Skill update proposals from Slack bot feedback
+ * - Contradictions between skills found by the library scan
  */
 
 'use client';
 
-import { useState, Suspense } from 'react';
+import { useMemo, useState, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useSession } from 'next-auth/react';
@@ -24,7 +26,10 @@ import {
   Clock,
   Briefcase,
   HelpCircle,
+  BookOpen,
+  Scale,
 } from 'lucide-react';
+import { diffLines } from 'diff';
 import { useApiQuery, useApiMutation } from '@/hooks/use-api';
 import {
   getConfidenceStyles,
@@ -35,7 +40,7 @@ import {
 
 interface ReviewItem {
   id: string;
-  source: 'project' | 'question';
+  source: 'project' | 'question' | 'skill' | 'contradiction';
   sourceId: string;
   rowNumber: number | null;
   question: string | null;
@@ -58,9 +63,34 @@ interface ReviewItem {
   userEditedAnswer: string | null;
   projectName: string | null;
   customerName: string | null;
+  skillProposal: {
+    skillTitle: string;
+    libraryId: string;
+    baseContent: string;
+    content: string;
+    changeSummary: string;
+    feedback: Array<{ kind: 'not_helpful' | 'correction'; by: string; text?: string; at: string }>;
+    permalink: string | null;
+  } | null;
+  skillContradiction: {
+    libraryId: string;
+    type: string;
+    severity: 'low' | 'medium' | 'high';
+    recommendation: string | null;
+    skillA: { id: string; title: string; claim: string };
+    skillB: { id: string; title: string; claim: string };
+  } | null;
   createdAt: string;
 }
 
+type SourceFilter = 'all' | 'project' | 'question' | 'skill' | 'contradiction';
+
+const SEVERITY_STYLES: Record<string, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  low: 'bg-gray-100 text-gray-700',
+};
+
 interface ReviewCounts {
   pending: number;
   approved: number;
@@ -77,18 +107,99 @@ function SourceIcon({ source }: { source: string }) {
       return <Briefcase className="w-4 h-4" />;
     case 'question':
       return <HelpCircle className="w-4 h-4" />;
+    case 'skill':
+      return <BookOpen className="w-4 h-4" />;
+    case 'contradiction':
+      return <Scale className="w-4 h-4" />;
     default:
       return <MessageSquare className="w-4 h-4" />;
   }
 }
 
+function SkillProposalView({ proposal }: { proposal: NonNullable<ReviewItem['skillProposal']> }) {
+  const diffResult = useMemo(
+    () => diffLines(proposal.baseContent, proposal.content),
+    [proposal.baseContent, proposal.content]
+  );
+
+  return (
+    <>
+      <div className="mb-4 space-y-1">
+        {proposal.feedback.map((f, index) => (
+          <div key={index} className="text-sm text-gray-600">
+            {f.kind === 'correction' ? (
+              <>
+                <span className="font-medium">Correction from {f.by}:</span> {f.text}
+              </>
+            ) : (
+              <>Marked not helpful by {f.by}</>
+            )}
+          </div>
+        ))}
+        {proposal.permalink && (
+          <a
+            href={proposal.permalink}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:underline"
+          >
+            Open Slack thread
+          </a>
+        )}
+      </div>
+      <div className="text-sm font-medium text-gray-900 mb-2">Proposed change: {proposal.changeSummary}</div>
+      <div className="bg-gray-50 rounded-lg p-4 max-h-64 overflow-auto font-mono text-xs">
+        {diffResult.map((part, index) => (
+          <div
+            key={index}
+            className={`whitespace-pre-wrap ${
+              part.added
+                ? 'bg-green-100 text-green-800 border-l-2 border-green-500 pl-2'
+                : part.removed
+                ? 'bg-red-100 text-red-800 border-l-2 border-red-500 pl-2'
+                : 'text-gray-600'
+            }`}
+          >
+            {part.value}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
+
+function SkillContradictionView({ contradiction }: { contradiction: NonNullable<ReviewItem['skillContradiction']> }) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        {[contradiction.skillA, contradiction.skillB].map((skill) => (
+          <div key={skill.id} className="bg-gray-50 rounded-lg p-4">
+            <Link
+              href={`/v2/${contradiction.libraryId}/${skill.id}`}
+              className="text-sm font-medium text-blue-600 hover:underline"
+            >
+              {skill.title}
+            </Link>
+            <div className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">&ldquo;{skill.claim}&rdquo;</div>
+          </div>
+        ))}
+      </div>
+      {contradiction.recommendation && (
+        <div className="mt-3 text-sm text-gray-600">
+          <span className="font-medium">Recommendation:</span> {contradiction.recommendation}
+        </div>
+      )}
+    </>
+  );
+}
+
 function ReviewsContent() {
   useSession(); // Auth check
   const searchParams = useSearchParams();
   const router = useRouter();
   const tabParam = searchParams.get('tab') as TabType | null;
   const [activeTab, setActiveTab] = useState<TabType>(tabParam || 'pending');
-  const [sourceFilter, setSourceFilter] = useState<'all' | 'project' | 'question'>('all');
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
   const [resolvingId, setResolvingId] = useState<string | null>(null);
   const [resolutionNote, setResolutionNote] = useState('');
 
@@ -175,6 +286,28 @@ function ReviewsContent() {
     onError: () => toast.error('Failed to resolve flag'),
   });
 
+  // Skill proposal mutation (approval applies the update to the skill)
+  const proposalMutation = useApiMutation<void, { id: string; reviewStatus: string; source: string }>({
+    url: (vars) => `/api/v2/reviews/${vars.id}`,
+    method: 'PATCH',
+    onSuccess: (_, vars) =>
+      toast.success(vars.reviewStatus === 'APPROVED' ? 'Skill updated!' : 'Proposal rejected'),
+    onError: () => toast.error('Failed to review proposal'),
+  });
+
+  const handleReviewProposal = (review: ReviewItem, reviewStatus: 'APPROVED' | 'REJECTED') => {
+    proposalMutation.mutate({ id: review.id, reviewStatus, source: review.source });
+  };
+
+  // Dismiss a skill contradiction (not a real conflict - later scans keep it closed)
+  const dismissMutation = useApiMutation<void, { id: string; reviewStatus: string; source: string }>({
+    url: (vars) => `/api/v2/reviews/${vars.id}`,
+    method: 'PATCH',
+    invalidateKeys: [['reviews']],
+    onSuccess: () => toast.success('Contradiction dismissed'),
+    onError: () => toast.error('Failed to dismiss contradiction'),
+  });
+
   const handleResolveFlag = (review: ReviewItem) => {
     resolveFlagMutation.mutate({
       id: review.id,
@@ -210,7 +343,8 @@ function ReviewsContent() {
           <h1 className="text-3xl font-bold text-gray-900">Review Inbox</h1>
         </div>
         <p className="text-gray-500">
-          Review and approve AI-generated answers from projects, questions, and collateral
+          Review and approve AI-generated answers from projects, questions, and collateral, skill
+          updates proposed from Slack bot feedback, and contradictions between skills
         </p>
       </div>
 
@@ -265,7 +399,7 @@ function ReviewsContent() {
       {/* Source Filter */}
       <div className="flex gap-2 mb-6">
         <span className="text-sm text-gray-500 py-2">Filter by source:</span>
-        {(['all', 'project', 'question'] as const).map((source) => (
+        {(['all', 'project', 'question', 'skill', 'contradiction'] as const).map((source) => (
           <button
             key={source}
             onClick={() => setSourceFilter(source)}
@@ -275,7 +409,15 @@ function ReviewsContent() {
                 : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
             }`}
           >
-            {source === 'all' ? 'All Sources' : source === 'project' ? 'Projects' : 'Questions'}
+            {source === 'all'
+              ? 'All Sources'
+              : source === 'project'
+              ? 'Projects'
+              : source === 'question'
+              ? 'Questions'
+              : source === 'skill'
+              ? 'Skill Updates'
+              : 'Skill Conflicts'}
           </button>
         ))}
       </div>
@@ -330,6 +472,19 @@ function ReviewsContent() {
                           <span className="text-gray-500 font-normal"> • {review.customerName}</span>
                         )}
                       </span>
+                    ) : review.source === 'skill' ? (
+                      <span className="text-sm font-medium text-gray-900">
+                        Skill Update
+                        <span className="text-gray-500 font-normal"> • {review.skillProposal?.skillTitle}</span>
+                      </span>
+                    ) : review.source === 'contradiction' ? (
+                      <span className="text-sm font-medium text-gray-900">
+                        Skill Conflict
+                        <span className="text-gray-500 font-normal">
+                          {' '}
+                          • {review.skillContradiction?.skillA.title} vs {review.skillContradiction?.skillB.title}
+                        </span>
+                      </span>
                     ) : (
                       <span className="text-sm font-medium text-gray-900">Quick Question</span>
                     )}
@@ -355,6 +510,15 @@ function ReviewsContent() {
                     </span>
                   )}
 
+                  {/* Severity Badge */}
+                  {review.skillContradiction && (
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded ${SEVERITY_STYLES[review.skillContradiction.severity]}`}
+                    >
+                      {review.skillContradiction.severity}
+                    </span>
+                  )}
+
                   {/* Confidence Badge */}
                   {review.confidence && (
                     <span className={`px-2 py-1 text-xs font-medium rounded ${getConfidenceStyles(review.confidence)}`}>
@@ -372,10 +536,24 @@ function ReviewsContent() {
 
               {/* Card Body */}
               <div className="p-6">
-                <h3 className="font-medium text-gray-900 mb-2">Q: {review.question}</h3>
-                <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700 max-h-40 overflow-auto whitespace-pre-wrap">
-                  {review.response}
-                </div>
+                {review.skillProposal ? (
+                  <>
+                    <h3 className="font-medium text-gray-900 mb-2">{review.question}</h3>
+                    <SkillProposalView proposal={review.skillProposal} />
+                  </>
+                ) : review.skillContradiction ? (
+                  <>
+                    <h3 className="font-medium text-gray-900 mb-2">{review.question}</h3>
+                    <SkillContradictionView contradiction={review.skillContradiction} />
+                  </>
+                ) : (
+                  <>
+                    <h3 className="font-medium text-gray-900 mb-2">Q: {review.question}</h3>
+                    <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700 max-h-40 overflow-auto whitespace-pre-wrap">
+                      {review.response}
+                    </div>
+                  </>
+                )}
 
                 {/* Notes */}
                 {(review.reviewNote || review.flagNote) && (
@@ -407,7 +585,14 @@ function ReviewsContent() {
                     >
                       View in Project
                     </Link>
-                  ) : (
+                  ) : review.source === 'skill' ? (
+                    <Link
+                      href={`/v2/${review.skillProposal?.libraryId}/${review.sourceId}`}
+                      className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                    >
+                      View Skill
+                    </Link>
+                  ) : review.source === 'contradiction' ? null : (
                     <Link
                       href="/v2/chat"
                       className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
@@ -416,6 +601,26 @@ function ReviewsContent() {
                     </Link>
                   )}
 
+                  {/* Action buttons for pending skill proposals */}
+                  {review.source === 'skill' && review.reviewStatus === 'PENDING' && (
+                    <>
+                      <button
+                        onClick={() => handleReviewProposal(review, 'APPROVED')}
+                        disabled={proposalMutation.isPending}
+                        className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Approve Update
+                      </button>
+                      <button
+                        onClick={() => handleReviewProposal(review, 'REJECTED')}
+                        disabled={proposalMutation.isPending}
+                        className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </>
+                  )}
+
                   {/* Action buttons for pending items */}
                   {review.reviewStatus === 'REQUESTED' && !review.flaggedForReview && (
                     <>
@@ -467,12 +672,25 @@ function ReviewsContent() {
                           </button>
                         </div>
                       ) : (
-                        <button
-                          onClick={() => setResolvingId(review.id)}
-                          className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700"
-                        >
-                          Resolve Flag
-                        </button>
+                        <>
+                          <button
+                            onClick={() => setResolvingId(review.id)}
+                            className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700"
+                          >
+                            Resolve Flag
+                          </button>
+                          {review.source === 'contradiction' && (
+                            <button
+                              onClick={() =>
+                                dismissMutation.mutate({ id: review.id, reviewStatus: 'DISMISSED', source: review.source })
+                              }
+                              disabled={dismissMutation.isPending}
+                              className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                            >
+                              Not a Conflict
+                            </button>
+                          )}
+                        </>
                       )}
                     </>
                   )}
@@ -0,0 +1,148 @@
+'use client';
+
+/**
+ * Skill versions this project's answers are pinned to. Pinned projects
+ * re-process against the pinned snapshots, and reviewers can see which
+ * skills have changed since the answers were produced.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, Pin, PinOff } from 'lucide-react';
+
+interface SkillPin {
+  blockId: string;
+  version: number;
+  title: string;
+  versionCreatedAt: string;
+  currentVersion: number | null;
+  pinnedAt: string;
+}
+
+interface PinnedSkillVersionsProps {
+  projectId: string;
+  /** Reload when the project status changes (finalizing pins automatically) */
+  projectStatus: string;
+  hasCompletedRows: boolean;
+}
+
+export function PinnedSkillVersions({ projectId, projectStatus, hasCompletedRows }: PinnedSkillVersionsProps) {
+  const [pins, setPins] = useState<SkillPin[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/v2/projects/${projectId}/skill-versions`);
+      const json = await res.json();
+      if (json.success) {
+        setPins(json.data.pins);
+      }
+    } catch (err) {
+      console.error('Failed to load skill version pins', err);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void load();
+  }, [load, projectStatus]);
+
+  const update = async (method: 'POST' | 'DELETE') => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/v2/projects/${projectId}/skill-versions`, { method });
+      const json = await res.json();
+      if (!json.success) {
+        setError(json.error || 'Failed to update pinned versions');
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update pinned versions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (pins.length === 0 && !hasCompletedRows) {
+    return null;
+  }
+
+  const changedCount = pins.filter((pin) => pin.currentVersion !== pin.version).length;
+
+  return (
+    <div className="mb-4 border border-slate-200 dark:border-gray-700 rounded-lg">
+      <div className="flex items-center gap-3 px-3 py-2">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <Pin size={14} />
+          {pins.length > 0
+            ? `Pinned to ${pins.length} skill version${pins.length === 1 ? '' : 's'}`
+            : 'Skill versions not pinned'}
+        </button>
+        {changedCount > 0 && (
+          <span className="text-xs px-2 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-200">
+            {changedCount} changed since pinned
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {isSaving && <Loader2 size={14} className="animate-spin text-gray-400" />}
+          {hasCompletedRows && (
+            <button
+              onClick={() => update('POST')}
+              disabled={isSaving}
+              className="flex items-center gap-1 px-2 py-1 text-xs border border-slate-300 dark:border-gray-600 rounded hover:bg-slate-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <Pin size={12} />
+              {pins.length > 0 ? 'Re-pin to versions used' : 'Pin versions used'}
+            </button>
+          )}
+          {pins.length > 0 && (
+            <button
+              onClick={() => update('DELETE')}
+              disabled={isSaving}
+              className="flex items-center gap-1 px-2 py-1 text-xs border border-slate-300 dark:border-gray-600 rounded hover:bg-slate-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <PinOff size={12} />
+              Unpin
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="px-3 pb-2 text-xs text-red-600">{error}</p>}
+
+      {isExpanded && pins.length > 0 && (
+        <table className="w-full text-sm border-t border-slate-200 dark:border-gray-700">
+          <thead className="bg-slate-50 dark:bg-gray-800 text-xs text-gray-500">
+            <tr>
+              <th className="text-left px-3 py-2 font-medium">Skill</th>
+              <th className="text-left px-3 py-2 font-medium">Pinned</th>
+              <th className="text-left px-3 py-2 font-medium">Current</th>
+              <th className="text-left px-3 py-2 font-medium">Version saved</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-gray-700">
+            {pins.map((pin) => (
+              <tr key={pin.blockId}>
+                <td className="px-3 py-2 text-gray-900 dark:text-gray-100">{pin.title}</td>
+                <td className="px-3 py-2 font-mono">v{pin.version}</td>
+                <td
+                  className={`px-3 py-2 font-mono ${
+                    pin.currentVersion !== pin.version ? 'text-amber-700' : 'text-gray-500'
+                  }`}
+                >
+                  {pin.currentVersion === null ? 'deleted' : `v${pin.currentVersion}`}
+                </td>
+                <td className="px-3 py-2 text-gray-500">{new Date(pin.versionCreatedAt).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
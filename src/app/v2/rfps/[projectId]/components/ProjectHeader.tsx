@@ -4,6 +4,7 @@ import Link from 'next/link';
 import {
   ArrowLeft,
   Download,
+  FileSpreadsheet,
   Loader2,
   RefreshCw,
   ShieldCheck,
@@ -23,6 +24,7 @@ interface ProjectHeaderProps {
   // Actions
   onSaveProject: () => void;
   onExportCSV: () => void;
+  onExportOriginal?: () => void;
   onFinalize: (action: 'finalize' | 'unfinalize') => void;
   onDelete: () => void;
   onGenerateAnswers?: () => void;
@@ -42,6 +44,7 @@ export function ProjectHeader({
   progressPercent,
   onSaveProject,
   onExportCSV,
+  onExportOriginal,
   onFinalize,
   onDelete,
   onGenerateAnswers,
@@ -120,6 +123,16 @@ export function ProjectHeader({
             <Download size={16} />
             Export CSV
           </button>
+          {onExportOriginal && (
+            <button
+              onClick={onExportOriginal}
+              className="inline-flex items-center gap-2 px-3 py-2 border border-slate-300 rounded-md text-slate-700 hover:bg-slate-50"
+              title="Write answers into the uploaded workbook, keeping its formatting"
+            >
+              <FileSpreadsheet size={16} />
+              Export to Original
+            </button>
+          )}
           {projectStatus === 'FINALIZED' ? (
             <button
               onClick={() => onFinalize('unfinalize')}
@@ -7,9 +7,10 @@
  * Expandable card with UnifiedResponseCard for consistent display.
  */
 
-import { CheckCircle, XCircle, Loader2, AlertCircle, Flag } from 'lucide-react';
+import { CheckCircle, XCircle, Loader2, AlertCircle, Flag, History, RefreshCw } from 'lucide-react';
 import { UnifiedResponseCard } from '@/components/v2/rfp-responses';
 import { getConfidenceColor } from '@/lib/v2/ui-utils';
+import { describeReuse } from '@/lib/v2/answer-memory/provenance';
 import type { ProjectRow } from '../types';
 
 interface ProjectRowCardProps {
@@ -17,6 +18,7 @@ interface ProjectRowCardProps {
   isExpanded: boolean;
   onToggleExpand: () => void;
   onUpdate: (rowId: string, updates: unknown) => Promise<void>;
+  onReuseDecision: (rowId: string, decision: 'accept' | 'regenerate') => Promise<void>;
 }
 
 function getStatusIcon(status: string) {
@@ -37,7 +39,10 @@ export function ProjectRowCard({
   isExpanded,
   onToggleExpand,
   onUpdate,
+  onReuseDecision,
 }: ProjectRowCardProps) {
+  const reusedFrom = row.status === 'COMPLETED' ? row.reusedFrom : null;
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-slate-200 dark:border-gray-700 overflow-hidden">
       {/* Row Header */}
@@ -61,6 +66,11 @@ export function ProjectRowCard({
               {row.confidence}
             </span>
           )}
+          {reusedFrom && (
+            <span title={describeReuse(reusedFrom)}>
+              <History size={14} className="text-purple-600" />
+            </span>
+          )}
           {row.flaggedForReview && <Flag size={14} className="text-red-600" />}
           <span className="text-xs text-slate-500 dark:text-gray-400">{row.status}</span>
         </div>
@@ -69,6 +79,39 @@ export function ProjectRowCard({
       {/* Expanded Content */}
       {isExpanded && (
         <div className="border-t border-slate-200 dark:border-gray-700 px-4 py-4 bg-slate-50 dark:bg-gray-850">
+          {reusedFrom && (
+            <div className="mb-3 px-3 py-2 rounded-md border border-purple-200 bg-purple-50 dark:border-purple-800 dark:bg-purple-900/20 flex items-start justify-between gap-3">
+              <div className="text-xs text-purple-900 dark:text-purple-200">
+                <p className="font-medium">
+                  {describeReuse(reusedFrom)} ({Math.round(reusedFrom.similarity * 100)}% match)
+                </p>
+                {reusedFrom.originalQuestion !== row.question && (
+                  <p className="mt-1 text-purple-700 dark:text-purple-300">
+                    Original question: {reusedFrom.originalQuestion}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {reusedFrom.acceptedAt ? (
+                  <span className="text-xs text-purple-700 dark:text-purple-300">Accepted</span>
+                ) : (
+                  <button
+                    onClick={() => onReuseDecision(row.id, 'accept')}
+                    className="text-xs px-2 py-1 rounded bg-purple-600 text-white hover:bg-purple-700"
+                  >
+                    Accept
+                  </button>
+                )}
+                <button
+                  onClick={() => onReuseDecision(row.id, 'regenerate')}
+                  className="text-xs px-2 py-1 rounded border border-purple-300 text-purple-700 hover:bg-purple-100 dark:text-purple-200 dark:hover:bg-purple-900/40 flex items-center gap-1"
+                >
+                  <RefreshCw size={12} />
+                  Regenerate
+                </button>
+              </div>
+            </div>
+          )}
           <UnifiedResponseCard
             question={row.question}
             response={row.response}
@@ -8,6 +8,7 @@
  * - Filter bar for rows
  * - Expandable question/answer rows
  * - Review workflow
+ * - Skill versions the answers are pinned to
  *
  * Complexity reduced from 994 lines to ~300 lines by extracting:
  * - Custom hooks (useProjectData, useSkillSelection, useProjectFilters, useProjectPolling)
@@ -21,6 +22,7 @@ import { Loader2, AlertCircle, Flag } from "lucide-react";
 import { QueueIndicator } from "../components/QueueIndicator";
 import { ProjectHeader } from "./components/ProjectHeader";
 import { ProjectRowCard } from "./components/ProjectRowCard";
+import { PinnedSkillVersions } from "./components/PinnedSkillVersions";
 import { SkillSelectionPanel } from "@/components/v2/rfp-responses";
 import {
   useProjectData,
@@ -106,6 +108,33 @@ function ProjectContent() {
     }
   };
 
+  const handleReuseDecision = async (rowId: string, decision: 'accept' | 'regenerate') => {
+    try {
+      // Regenerating discards the reused answer via the rerun endpoint
+      const response = decision === 'accept'
+        ? await fetch(`/api/v2/projects/${projectId}/rows/${rowId}/reuse`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'accept' }),
+          })
+        : await fetch(`/api/v2/projects/${projectId}/rows/${rowId}/rerun`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({}),
+          });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || `Failed to ${decision} reused answer (${response.status})`);
+        return;
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Failed to update reused answer:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update reused answer');
+    }
+  };
+
   const handleExport = async (format: 'csv' | 'xlsx') => {
     if (!project) return;
 
@@ -130,6 +159,45 @@ function ProjectContent() {
     }
   };
 
+  const handleExportOriginal = async () => {
+    if (!project?.config?.sourceFile) return;
+
+    const saved = project.config.answerColumns;
+    const column = window.prompt(
+      'Which column should answers be written to? (e.g. C)',
+      typeof saved === 'string' ? saved : ''
+    );
+    if (!column) return;
+    const includeComments = confirm('Add answer confidence as a cell comment?');
+
+    const query = new URLSearchParams({
+      format: 'original',
+      answerColumn: column.trim(),
+      comments: String(includeComments),
+    });
+
+    try {
+      const response = await fetch(`/api/v2/projects/${projectId}/export?${query}`);
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = project.config.sourceFile.fileName;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        setError(errorData.error || 'Failed to export to original format');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export to original format');
+    }
+  };
+
   const handleFinalize = async (action: 'finalize' | 'unfinalize') => {
     try {
       const res = await fetch(`/api/v2/projects/${projectId}/finalize`, {
@@ -217,6 +285,7 @@ function ProjectContent() {
           await refresh();
         }}
         onExportCSV={() => handleExport('csv')}
+        onExportOriginal={project.config?.sourceFile ? handleExportOriginal : undefined}
         onFinalize={handleFinalize}
         onDelete={handleDeleteProject}
         onGenerateAnswers={skillSelection.generateAnswers}
@@ -262,6 +331,13 @@ function ProjectContent() {
             onClose={() => skillSelection.setShowPanel(false)}
           />
 
+          {/* Pinned skill versions */}
+          <PinnedSkillVersions
+            projectId={projectId}
+            projectStatus={project.status}
+            hasCompletedRows={project.rows.some((r) => r.status === 'COMPLETED')}
+          />
+
           {/* Filter Bar */}
           <div className="mb-4 flex flex-wrap items-center gap-3 p-3 bg-slate-50 dark:bg-gray-800 rounded-lg border border-slate-200 dark:border-gray-700">
             <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -338,6 +414,7 @@ function ProjectContent() {
                   isExpanded={expandedRowIds.has(row.id)}
                   onToggleExpand={() => toggleRowExpansion(row.id)}
                   onUpdate={handleRowUpdate}
+                  onReuseDecision={handleReuseDecision}
                 />
               ))
             )}
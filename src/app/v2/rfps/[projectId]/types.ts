@@ -1,3 +1,5 @@
+import type { ReusedAnswerProvenance } from '@/lib/v2/answer-memory/provenance';
+
 export interface ProjectRow {
   id: string;
   question: string;
@@ -7,6 +9,8 @@ export interface ProjectRow {
   reasoning: string | null;
   inference: string | null;
   remarks: string | null;
+  /** Set when the answer was pre-filled from a previously approved answer */
+  reusedFrom?: ReusedAnswerProvenance | null;
   status: string;
   flaggedForReview: boolean;
   reviewStatus: string | null;
@@ -21,6 +25,12 @@ export interface Project {
   rowCount: number;
   createdAt: string;
   rows: ProjectRow[];
+  config?: {
+    /** Present when the uploaded .xlsx was kept for write-back export */
+    sourceFile?: { fileName: string };
+    /** Last answer column(s) used for original-format export */
+    answerColumns?: string | Record<string, string>;
+  };
   rowStats?: {
     pending: number;
     processing: number;
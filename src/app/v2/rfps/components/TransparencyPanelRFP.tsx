@@ -62,6 +62,9 @@ export function TransparencyPanelRFP({
             sources={Array.isArray(data.sources) ? data.sources.join(", ") : data.sources}
             library={library}
           />
+          {data.excludedSkills && data.excludedSkills.length > 0 && (
+            <ExcludedSkillsRow skills={data.excludedSkills} />
+          )}
         </div>
       )}
     </div>
@@ -145,3 +148,23 @@ export function SourcesRow({
     </div>
   );
 }
+
+export function ExcludedSkillsRow({
+  skills,
+}: {
+  skills: NonNullable<TransparencyData["excludedSkills"]>;
+}) {
+  return (
+    <div className="px-3 py-2 text-sm">
+      <div className="font-semibold text-slate-900 mb-1">Excluded Skills</div>
+      <div className="space-y-1">
+        {skills.map((skill) => (
+          <div key={skill.id} className="text-slate-700">
+            • {skill.title}
+            <span className="text-slate-500"> — {skill.reason}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ export interface TransparencyData {
   sources?: string;
   reasoning?: string;
   inference?: string;
+  /** Skills withheld from the answer because they are not exposed to RFP answers */
+  excludedSkills?: Array<{ id: string; title: string; reason: string }>;
   // Deprecated - kept for backwards compatibility with old data
   remarks?: string;
 }
@@ -8,6 +8,8 @@ import { CustomerSelector } from "@/components/v2/context/CustomerSelector";
 import { UnifiedResponseCard } from "@/components/v2/rfp-responses";
 import { QuestionHistoryPanel } from "../components/QuestionHistoryPanel";
 
+type ExcludedSkill = { id: string; title: string; reason: string };
+
 interface Question {
   id: string;
   question: string;
@@ -17,6 +19,7 @@ interface Question {
   inference?: string | null;
   remarks?: string | null;
   sources?: string[] | null;
+  excludedSkills?: ExcludedSkill[];
   status: string;
   library: string;
   flaggedForReview: boolean;
@@ -31,6 +34,9 @@ interface OutputData {
   inference?: string | null;
   remarks?: string | null;
   sources?: string[] | null;
+  transparency?: {
+    excludedSkills?: ExcludedSkill[];
+  };
 }
 
 interface AskResponse {
@@ -121,6 +127,7 @@ export function AskTab() {
           inference: result.data.outputData?.inference || null,
           remarks: result.data.outputData?.remarks || null,
           sources: result.data.outputData?.sources || null,
+          excludedSkills: result.data.outputData?.transparency?.excludedSkills,
           status: result.data.status,
           library,
           flaggedForReview: false,
@@ -297,6 +304,7 @@ export function AskTab() {
               sources={Array.isArray(currentQuestion.sources)
                 ? currentQuestion.sources.join(', ')
                 : currentQuestion.sources}
+              excludedSkills={currentQuestion.excludedSkills}
               flaggedForReview={currentQuestion.flaggedForReview}
               reviewStatus={currentQuestion.reviewStatus}
               library={currentQuestion.library}
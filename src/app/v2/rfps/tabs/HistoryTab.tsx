@@ -23,6 +23,9 @@ interface LogItem {
     reasoning?: string;
     inference?: string;
     sources?: string | string[];
+    transparency?: {
+      excludedSkills?: Array<{ id: string; title: string; reason: string }>;
+    };
   };
 }
 
@@ -355,6 +358,7 @@ export function HistoryTab() {
                         ? item.outputData.sources.join(', ')
                         : item.outputData?.sources || null
                     }
+                    excludedSkills={item.outputData?.transparency?.excludedSkills}
                     flaggedForReview={item.flaggedForReview}
                     reviewStatus={item.reviewStatus}
                     library={item.library || undefined}
@@ -1,33 +1,43 @@
 /**
  * Global Search Page
  *
- * Search across all libraries (Skills, Customers, IT Skills, Prompts, Personas, Templates)
+ * Full-text search across all libraries (Skills, Customers, IT Skills, Prompts, Personas, Templates),
+ * staged sources, approved answers, question history and chats, with facet filters
+ * and highlighted snippets.
  */
 
 'use client';
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, Search, Loader2, AlertCircle, BookOpen, Users, Wrench, MessageSquare, Lightbulb, FileText } from 'lucide-react';
-
-interface SearchResult {
-  id: string;
-  title: string;
-  slug: string | null;
-  libraryId: string;
-  blockType: string;
-  summary: string | null;
-  status: string;
-  updatedAt: Date;
-}
+import { ArrowLeft, Search, Loader2, AlertCircle, BookOpen, Users, Wrench, MessageSquare, Lightbulb, FileText, Inbox, ClipboardCheck, HelpCircle } from 'lucide-react';
+import type {
+  HighlightSegment,
+  SearchFacetName,
+  SearchFacets,
+  SearchResult,
+  SearchResultType,
+} from '@/lib/v2/search';
 
 interface SearchResponse {
   query: string;
   total: number;
   results: SearchResult[];
-  groupedByLibrary: Record<string, SearchResult[]>;
+  facets: SearchFacets;
 }
 
+type FacetSelection = Record<SearchFacetName, string[]>;
+
+const EMPTY_SELECTION: FacetSelection = { type: [], library: [], customer: [], owner: [], date: [] };
+
+const FACET_TITLES: Record<SearchFacetName, string> = {
+  type: 'Source type',
+  library: 'Library',
+  customer: 'Customer',
+  owner: 'Owner',
+  date: 'Date',
+};
+
 const libraryIcons: Record<string, typeof BookOpen> = {
   knowledge: BookOpen,
   it: Wrench,
@@ -37,6 +47,22 @@ const libraryIcons: Record<string, typeof BookOpen> = {
   templates: FileText,
 };
 
+const typeIcons: Record<SearchResultType, typeof BookOpen> = {
+  block: BookOpen,
+  source: Inbox,
+  answer: ClipboardCheck,
+  question: HelpCircle,
+  chat: MessageSquare,
+};
+
+const typeLabels: Record<SearchResultType, string> = {
+  block: 'Library item',
+  source: 'Source',
+  answer: 'Approved answer',
+  question: 'Question',
+  chat: 'Chat',
+};
+
 const libraryLabels: Record<string, string> = {
   knowledge: 'Knowledge Dashboard',
   it: 'IT Dashboard',
@@ -55,13 +81,59 @@ const libraryPaths: Record<string, string> = {
   templates: '/v2/content/templates',
 };
 
+// Source tabs live under each library, e.g. /v2/knowledge/urls
+const sourceTypePaths: Record<string, string> = {
+  url: 'urls',
+  document: 'documents',
+  notion: 'notion',
+  slack: 'slack',
+};
+
+function getResultHref(result: SearchResult): string {
+  const basePath = (result.libraryId && libraryPaths[result.libraryId]) || '/v2/blocks';
+
+  switch (result.type) {
+    case 'block':
+      return result.libraryId === 'prompts' || result.libraryId === 'personas' || result.libraryId === 'templates'
+        ? `${basePath}/${result.id}`
+        : `${basePath}/${result.slug || result.id}`;
+    case 'source': {
+      const tab = result.subtype ? sourceTypePaths[result.subtype] : undefined;
+      return tab ? `${basePath}/${tab}` : basePath;
+    }
+    case 'answer':
+      return `/v2/rfps/${result.parentId}`;
+    case 'question':
+      return '/v2/rfps/history';
+    case 'chat':
+      return '/v2/chat';
+  }
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
 export default function SearchPage() {
   const [query, setQuery] = useState('');
+  const [selection, setSelection] = useState<FacetSelection>(EMPTY_SELECTION);
   const [results, setResults] = useState<SearchResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
 
-  const handleSearch = async (searchQuery: string) => {
+  const handleSearch = async (searchQuery: string, facets: FacetSelection) => {
     if (!searchQuery.trim() || searchQuery.length < 2) {
       setResults(null);
       setSearchError(null);
@@ -72,7 +144,12 @@ export default function SearchPage() {
     setSearchError(null);
 
     try {
-      const response = await fetch(`/api/v2/search?q=${encodeURIComponent(searchQuery)}`);
+      const params = new URLSearchParams({ q: searchQuery });
+      for (const [facet, values] of Object.entries(facets)) {
+        for (const value of values) params.append(facet, value);
+      }
+
+      const response = await fetch(`/api/v2/search?${params.toString()}`);
       if (!response.ok) {
         const data = await response.json();
         throw new Error(data.error || 'Search failed');
@@ -91,9 +168,31 @@ export default function SearchPage() {
   const handleQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newQuery = e.target.value;
     setQuery(newQuery);
-    handleSearch(newQuery);
+    handleSearch(newQuery, selection);
+  };
+
+  const toggleFacet = (facet: SearchFacetName, value: string) => {
+    const current = selection[facet];
+    let next: string[];
+    if (current.includes(value)) {
+      next = current.filter((v) => v !== value);
+    } else {
+      // Date buckets are nested ranges, so only one applies at a time
+      next = facet === 'date' ? [value] : [...current, value];
+    }
+
+    const nextSelection = { ...selection, [facet]: next };
+    setSelection(nextSelection);
+    handleSearch(query, nextSelection);
+  };
+
+  const clearFacets = () => {
+    setSelection(EMPTY_SELECTION);
+    handleSearch(query, EMPTY_SELECTION);
   };
 
+  const hasSelection = Object.values(selection).some((values) => values.length > 0);
+
   return (
     <div className="p-8">
       {/* Back Link */}
@@ -108,7 +207,9 @@ export default function SearchPage() {
       {/* Header */}
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">Global Search</h1>
-        <p className="text-gray-500">Search across all libraries: Skills, IT Skills, Customers, and more</p>
+        <p className="text-gray-500">
+          Search across all libraries, sources, approved answers, questions and chats
+        </p>
       </div>
 
       {/* Search Input */}
@@ -119,115 +220,157 @@ export default function SearchPage() {
             type="text"
             value={query}
             onChange={handleQueryChange}
-            placeholder="Search skills, customers, prompts... (min 2 characters)"
+            placeholder='Search skills, sources, answers... (use "quotes" for phrases, -word to exclude)'
             className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
             autoFocus
           />
         </div>
       </div>
 
-      {/* Loading */}
-      {isLoading && (
-        <div className="flex items-center justify-center py-12">
-          <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
-        </div>
-      )}
+      <div className="flex gap-8">
+        {/* Facets */}
+        {results && (results.total > 0 || hasSelection) && (
+          <aside className="w-60 shrink-0 space-y-6">
+            {hasSelection && (
+              <button
+                type="button"
+                onClick={clearFacets}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                Clear filters
+              </button>
+            )}
+            {(Object.keys(FACET_TITLES) as SearchFacetName[]).map((facet) => {
+              const values = results.facets[facet];
+              if (values.length === 0 && selection[facet].length === 0) return null;
 
-      {/* Error */}
-      {searchError && (
-        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
-          <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
-          <div>
-            <h3 className="font-medium text-red-900">Search Error</h3>
-            <p className="text-sm text-red-700 mt-1">{searchError}</p>
-          </div>
-        </div>
-      )}
+              return (
+                <div key={facet}>
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                    {FACET_TITLES[facet]}
+                  </h3>
+                  <div className="space-y-1">
+                    {values.map((value) => (
+                      <label
+                        key={value.value}
+                        className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selection[facet].includes(value.value)}
+                          onChange={() => toggleFacet(facet, value.value)}
+                          className="rounded border-gray-300"
+                        />
+                        <span className="flex-1 truncate">{value.label}</span>
+                        <span className="text-xs text-gray-400">{value.count}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </aside>
+        )}
 
-      {/* No Query Message */}
-      {!isLoading && !searchError && !query && (
-        <div className="text-center py-12">
-          <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
-          <p className="text-gray-500">Enter a search term to get started</p>
-        </div>
-      )}
+        <div className="flex-1 min-w-0">
+          {/* Loading */}
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+            </div>
+          )}
 
-      {/* No Results */}
-      {!isLoading && !searchError && query && results && results.total === 0 && (
-        <div className="text-center py-12">
-          <AlertCircle className="w-12 h-12 text-gray-300 mx-auto mb-4" />
-          <p className="text-gray-500">No results found for &quot;{query}&quot;</p>
-        </div>
-      )}
+          {/* Error */}
+          {searchError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+              <div>
+                <h3 className="font-medium text-red-900">Search Error</h3>
+                <p className="text-sm text-red-700 mt-1">{searchError}</p>
+              </div>
+            </div>
+          )}
 
-      {/* Results */}
-      {!isLoading && !searchError && results && results.total > 0 && (
-        <div className="space-y-8">
-          <div className="text-sm text-gray-500">
-            Found <span className="font-semibold text-gray-900">{results.total}</span> result
-            {results.total !== 1 ? 's' : ''}
-          </div>
-
-          {Object.entries(results.groupedByLibrary).map(([libraryId, libraryResults]) => {
-            const Icon = libraryIcons[libraryId] || BookOpen;
-            const label = libraryLabels[libraryId] || libraryId;
-            const basePath = libraryPaths[libraryId] || '/v2/blocks';
-
-            return (
-              <div key={libraryId} className="space-y-3">
-                <div className="flex items-center gap-2 mb-4">
-                  <Icon className="w-5 h-5 text-gray-600" />
-                  <h2 className="text-lg font-semibold text-gray-900">{label}</h2>
-                  <span className="ml-auto text-sm text-gray-500">
-                    {libraryResults.length} result{libraryResults.length !== 1 ? 's' : ''}
-                  </span>
-                </div>
+          {/* No Query Message */}
+          {!isLoading && !searchError && !query && (
+            <div className="text-center py-12">
+              <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">Enter a search term to get started</p>
+            </div>
+          )}
 
-                <div className="grid gap-3">
-                  {libraryResults.map((result) => {
-                    const href =
-                      libraryId === 'prompts' || libraryId === 'personas' || libraryId === 'templates'
-                        ? `${basePath}/${result.id}`
-                        : `${basePath}/${result.slug || result.id}`;
-
-                    return (
-                      <Link
-                        key={result.id}
-                        href={href}
-                        className="block p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-sm transition-all"
-                      >
-                        <div className="flex items-start justify-between gap-4">
-                          <div className="flex-1 min-w-0">
-                            <h3 className="font-medium text-gray-900 truncate">{result.title}</h3>
-                            {result.summary && (
-                              <p className="text-sm text-gray-600 mt-1 line-clamp-2">{result.summary}</p>
-                            )}
-                            <div className="flex items-center gap-3 mt-2">
-                              {result.status === 'DRAFT' && (
-                                <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-1 rounded">
-                                  Pending Review
-                                </span>
-                              )}
-                              {result.status === 'ACTIVE' && (
-                                <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
-                                  Active
-                                </span>
-                              )}
-                              <span className="text-xs text-gray-500">
-                                Updated {new Date(result.updatedAt).toLocaleDateString()}
-                              </span>
-                            </div>
-                          </div>
-                        </div>
-                      </Link>
-                    );
-                  })}
-                </div>
+          {/* No Results */}
+          {!isLoading && !searchError && query && results && results.total === 0 && (
+            <div className="text-center py-12">
+              <AlertCircle className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No results found for &quot;{query}&quot;</p>
+            </div>
+          )}
+
+          {/* Results */}
+          {!isLoading && !searchError && results && results.total > 0 && (
+            <div className="space-y-3">
+              <div className="text-sm text-gray-500 mb-4">
+                Found <span className="font-semibold text-gray-900">{results.total}</span> result
+                {results.total !== 1 ? 's' : ''}
+                {results.results.length < results.total && ` (showing top ${results.results.length})`}
               </div>
-            );
-          })}
+
+              {results.results.map((result) => {
+                const Icon =
+                  result.type === 'block'
+                    ? (result.libraryId && libraryIcons[result.libraryId]) || BookOpen
+                    : typeIcons[result.type];
+                const libraryLabel = result.libraryId
+                  ? libraryLabels[result.libraryId] || result.libraryId
+                  : null;
+
+                return (
+                  <Link
+                    key={`${result.type}-${result.id}`}
+                    href={getResultHref(result)}
+                    className="block p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-sm transition-all"
+                  >
+                    <div className="flex items-start gap-3">
+                      <Icon className="w-5 h-5 text-gray-500 shrink-0 mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium text-gray-900 truncate">
+                          <Highlighted segments={result.titleHighlight} />
+                        </h3>
+                        {result.snippet.length > 0 && (
+                          <p className="text-sm text-gray-600 mt-1 line-clamp-3">
+                            <Highlighted segments={result.snippet} />
+                          </p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-3 mt-2">
+                          <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                            {typeLabels[result.type]}
+                          </span>
+                          {libraryLabel && (
+                            <span className="text-xs text-gray-500">{libraryLabel}</span>
+                          )}
+                          {result.type === 'answer' && result.parentName && (
+                            <span className="text-xs text-gray-500">
+                              {result.parentName}
+                              {result.rowNumber !== null && ` · Row ${result.rowNumber}`}
+                            </span>
+                          )}
+                          {result.type === 'source' && result.subtype && (
+                            <span className="text-xs text-gray-500 capitalize">{result.subtype}</span>
+                          )}
+                          <span className="text-xs text-gray-500">
+                            {new Date(result.date).toLocaleDateString()}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 }
@@ -9,11 +9,12 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Loader2, Trash2, Users, Settings, UserPlus } from 'lucide-react';
+import { ArrowLeft, Loader2, Trash2, Users, Settings, UserPlus, BarChart3 } from 'lucide-react';
 import { toast } from 'sonner';
 import { LIBRARY_UI_CONFIG } from '@/lib/v2/library-constants';
 import { UserPicker } from '@/components/v2/admin/UserPicker';
 import { MemberCard } from '@/components/v2/admin/MemberCard';
+import { TeamUsagePanel } from '@/components/v2/admin/TeamUsagePanel';
 
 interface TeamMember {
   userId: string;
@@ -46,7 +47,7 @@ interface TeamData {
 // Use centralized library configuration for consistency
 const libraries = LIBRARY_UI_CONFIG.map(lib => ({ id: lib.id, label: lib.label }));
 
-type TabId = 'settings' | 'members';
+type TabId = 'settings' | 'members' | 'usage';
 
 export default function TeamDetailPage() {
   const router = useRouter();
@@ -294,6 +295,7 @@ export default function TeamDetailPage() {
   const tabs = [
     { id: 'settings' as TabId, label: 'Settings', icon: Settings },
     { id: 'members' as TabId, label: `Members (${members.length})`, icon: Users },
+    { id: 'usage' as TabId, label: 'Usage', icon: BarChart3 },
   ];
 
   return (
@@ -310,7 +312,7 @@ export default function TeamDetailPage() {
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900">{team.name}</h1>
         <p className="mt-1 text-sm text-gray-500">
-          Manage team settings, library access, and members
+          Manage team settings, library access, members, and token budget
         </p>
       </div>
 
@@ -524,6 +526,9 @@ export default function TeamDetailPage() {
           )}
         </div>
       )}
+
+      {/* Usage Tab */}
+      {activeTab === 'usage' && <TeamUsagePanel teamId={teamId} canEdit={isAdmin} />}
     </div>
   );
 }
@@ -8,11 +8,13 @@
  * This ensures consistency across all skill libraries and eliminates duplication.
  */
 
-import { FileText, Zap } from 'lucide-react';
+import { FileText, GitBranch, History, Zap } from 'lucide-react';
 import { SkillDetailLayout } from '@/components/v2/SkillDetailLayout';
 import { SkillDetailTabbedContent, type SkillDetailTab } from '@/components/v2/SkillDetailTabbedContent';
 import { UnifiedMetadataBar, UnifiedSidebar } from '@/components/v2/library-sections';
 import { LLMTraceTab } from './tabs/LLMTraceTab';
+import { SkillVersionsTab } from './tabs/SkillVersionsTab';
+import { SkillGitSyncTab } from './tabs/SkillGitSyncTab';
 import { EditSkillButton } from './EditSkillButton';
 import { mapIncorporatedSources, mapPendingSources, mapRelatedSkills } from '@/lib/v2/library-ui/mappers';
 import { getLibraryConfig, getIconColorClass } from '@/lib/library-config';
@@ -123,6 +125,23 @@ export function UnifiedSkillDetail({
         </div>
       ),
     },
+    {
+      id: 'versions',
+      label: 'Versions',
+      icon: History,
+      content: <SkillVersionsTab skillId={skill.id} />,
+    },
+    // Only skills that are synced to git
+    ...(skill.gitPath
+      ? [
+          {
+            id: 'git-sync',
+            label: 'Git Sync',
+            icon: GitBranch,
+            content: <SkillGitSyncTab skillId={skill.id} />,
+          },
+        ]
+      : []),
     {
       id: 'trace',
       label: 'LLM Trace',
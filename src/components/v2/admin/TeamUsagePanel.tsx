@@ -0,0 +1,284 @@
+'use client';
+
+/**
+ * TeamUsagePanel Component
+ *
+ * Shows a team's monthly token budget, current-month usage breakdowns,
+ * and (for admins) budget limit, enforcement and override controls.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, AlertTriangle, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TeamUsageDashboard, TeamUsageBreakdown } from '@/lib/v2/teams/token-budget-service';
+
+interface TeamUsagePanelProps {
+  teamId: string;
+  canEdit: boolean;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
+
+function BreakdownTable({ title, rows }: { title: string; rows: TeamUsageBreakdown[] }) {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-4">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No usage this month</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="pb-2 font-medium"></th>
+              <th className="pb-2 font-medium text-right">Tokens</th>
+              <th className="pb-2 font-medium text-right">Calls</th>
+              <th className="pb-2 font-medium text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-gray-100">
+                <td className="py-2 text-gray-700 truncate max-w-[200px]">{row.key}</td>
+                <td className="py-2 text-right text-gray-900">{row.totalTokens.toLocaleString()}</td>
+                <td className="py-2 text-right text-gray-500">{row.callCount}</td>
+                <td className="py-2 text-right text-gray-500">{formatCost(row.estimatedCost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export function TeamUsagePanel({ teamId, canEdit }: TeamUsagePanelProps) {
+  const [dashboard, setDashboard] = useState<TeamUsageDashboard | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [limit, setLimit] = useState('');
+  const [enforcement, setEnforcement] = useState<'hard' | 'soft'>('hard');
+  const [alertChannelId, setAlertChannelId] = useState('');
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/v2/teams/${teamId}/usage`);
+      if (!response.ok) {
+        throw new Error('Failed to load usage');
+      }
+      const data: TeamUsageDashboard = await response.json();
+      setDashboard(data);
+      setLimit(data.budget.limit ? String(data.budget.limit) : '');
+      setEnforcement(data.budget.enforcement);
+      setAlertChannelId(data.budget.alertChannelId || '');
+    } catch {
+      toast.error('Failed to load team usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const updateBudget = async (body: Record<string, unknown>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/v2/teams/${teamId}/usage`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update budget');
+      }
+      toast.success(successMessage);
+      await fetchUsage();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const parsedLimit = limit.trim() ? parseInt(limit, 10) : null;
+    if (parsedLimit !== null && (isNaN(parsedLimit) || parsedLimit <= 0)) {
+      toast.error('Monthly limit must be a positive number');
+      return;
+    }
+    updateBudget(
+      { monthlyTokenLimit: parsedLimit, enforcement, alertChannelId: alertChannelId.trim() || null },
+      'Budget updated'
+    );
+  };
+
+  const handleOverride = (hours: number | null) => {
+    updateBudget(
+      { overrideUntil: hours ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null },
+      hours ? `Budget override active for ${hours} hours` : 'Budget override cleared'
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!dashboard) {
+    return null;
+  }
+
+  const { budget, totals } = dashboard;
+  const percent = budget.percentUsed ?? 0;
+  const barColor = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-blue-600';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Budget */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">Token Budget ({budget.period})</h3>
+            <span className="text-sm text-gray-500">
+              {budget.used.toLocaleString()}
+              {budget.limit ? ` / ${budget.limit.toLocaleString()}` : ' used (no limit)'}
+            </span>
+          </div>
+          {budget.limit && (
+            <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className={`h-full ${barColor}`} style={{ width: `${Math.min(100, percent)}%` }} />
+            </div>
+          )}
+          {percent >= 100 && budget.enforcement === 'hard' && !budget.overrideActive && (
+            <p className="mt-3 flex items-center gap-2 text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4" />
+              Budget reached - new LLM requests for this team are blocked.
+            </p>
+          )}
+          {budget.overrideActive && budget.overrideUntil && (
+            <p className="mt-3 flex items-center gap-2 text-sm text-amber-700">
+              <ShieldOff className="w-4 h-4" />
+              Override active until {new Date(budget.overrideUntil).toLocaleString()}
+            </p>
+          )}
+        </div>
+
+        <BreakdownTable title="Usage by Feature" rows={dashboard.byFeature} />
+        <BreakdownTable title="Usage by User" rows={dashboard.byUser} />
+      </div>
+
+      {/* Sidebar */}
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-sm font-semibold text-gray-900 mb-4">This Month</h3>
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">Tokens</span>
+              <span className="font-medium text-gray-900">{totals.totalTokens.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">LLM calls</span>
+              <span className="font-medium text-gray-900">{totals.callCount}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">Estimated cost</span>
+              <span className="font-medium text-gray-900">{formatCost(totals.estimatedCost)}</span>
+            </div>
+          </div>
+        </div>
+
+        {canEdit && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+            <h3 className="text-sm font-semibold text-gray-900">Budget Settings</h3>
+            <div>
+              <label htmlFor="monthlyTokenLimit" className="block text-xs font-medium text-gray-700 mb-1">
+                Monthly token limit (blank for none)
+              </label>
+              <input
+                id="monthlyTokenLimit"
+                type="number"
+                min={1}
+                value={limit}
+                onChange={(e) => setLimit(e.target.value)}
+                disabled={isSaving}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="enforcement" className="block text-xs font-medium text-gray-700 mb-1">
+                When the limit is reached
+              </label>
+              <select
+                id="enforcement"
+                value={enforcement}
+                onChange={(e) => setEnforcement(e.target.value as 'hard' | 'soft')}
+                disabled={isSaving}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="hard">Block new requests (hard)</option>
+                <option value="soft">Alert only (soft)</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="alertChannelId" className="block text-xs font-medium text-gray-700 mb-1">
+                Slack alert channel ID
+              </label>
+              <input
+                id="alertChannelId"
+                type="text"
+                value={alertChannelId}
+                onChange={(e) => setAlertChannelId(e.target.value)}
+                placeholder="C0123456789"
+                disabled={isSaving}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save Budget
+            </button>
+
+            <div className="pt-4 border-t border-gray-100">
+              <p className="text-xs text-gray-500 mb-2">
+                Temporarily allow requests past a hard limit.
+              </p>
+              {budget.overrideActive ? (
+                <button
+                  onClick={() => handleOverride(null)}
+                  disabled={isSaving}
+                  className="w-full px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50"
+                >
+                  Clear Override
+                </button>
+              ) : (
+                <div className="flex gap-2">
+                  {[24, 72].map((hours) => (
+                    <button
+                      key={hours}
+                      onClick={() => handleOverride(hours)}
+                      disabled={isSaving}
+                      className="flex-1 px-3 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50"
+                    >
+                      Override {hours}h
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
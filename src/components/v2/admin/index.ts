@@ -5,4 +5,5 @@
 export { AdminShell } from './AdminShell';
 export { LandingCard } from './LandingCard';
 export { MemberCard } from './MemberCard';
+export { TeamUsagePanel } from './TeamUsagePanel';
 export { UserPicker } from './UserPicker';
@@ -8,7 +8,7 @@ import type { ReactNode } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { Flag, Shield, AlertCircle, XCircle, CheckCircle, Info } from 'lucide-react';
-import type { ContractFinding, AlignmentRating, FindingCategory } from '@/types/contractReview';
+import type { ContractFinding, AlignmentRating, FindingCategory, PlaybookMatch } from '@/types/contractReview';
 
 export interface FindingCardProps {
   finding: ContractFinding;
@@ -38,6 +38,9 @@ export function FindingCard({ finding, isSelected, onSelect }: FindingCardProps)
             {ratingConfig.label}
           </Badge>
           <Badge variant="secondary">{categoryLabel}</Badge>
+          {finding.playbookMatch && (
+            <Badge variant="outline">Playbook: {playbookStepLabel(finding.playbookMatch)}</Badge>
+          )}
           {finding.flaggedForReview && (
             <Badge className="bg-amber-100 text-amber-800">
               <Flag size={10} className="mr-1" />
@@ -66,7 +69,9 @@ export function FindingCard({ finding, isSelected, onSelect }: FindingCardProps)
       {finding.suggestedResponse && (
         <details className="mt-2">
           <summary className="bg-blue-50 p-2 rounded text-xs text-blue-800 cursor-pointer hover:bg-blue-100">
-            Suggested Response
+            {finding.playbookMatch?.nextPosition
+              ? `Propose ${playbookStepLabel(finding.playbookMatch.nextPosition)}`
+              : 'Suggested Response'}
           </summary>
           <div className="bg-blue-50 px-2 pb-2 text-xs text-blue-800 mt-1">
             {finding.suggestedResponse}
@@ -77,6 +82,18 @@ export function FindingCard({ finding, isSelected, onSelect }: FindingCardProps)
   );
 }
 
+function playbookStepLabel(step: Pick<PlaybookMatch, 'tier' | 'fallbackNumber'>): string {
+  if (step.tier === 'fallback') return `Fallback ${step.fallbackNumber}`;
+  return playbookTierLabels[step.tier];
+}
+
+const playbookTierLabels: Record<PlaybookMatch['tier'], string> = {
+  preferred: 'Preferred',
+  fallback: 'Fallback',
+  walk_away: 'Walk-away',
+  unacceptable: 'Beyond walk-away',
+};
+
 // Rating configuration
 const alignmentConfig: Record<
   AlignmentRating,
@@ -2,7 +2,8 @@
  * SkillSelectionPanel Component
  *
  * Inline panel for selecting skills before contract analysis.
- * Fetches available skills and allows user to select which to use.
+ * Fetches available skills and allows user to select which to use,
+ * optionally with a negotiation playbook (playbook mode).
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
@@ -20,11 +21,17 @@ interface SkillPreview {
   isCustomerSkill: boolean;
 }
 
+interface PlaybookOption {
+  id: string;
+  title: string;
+  version: number;
+}
+
 export interface SkillSelectionPanelProps {
   projectId: string;
   isOpen: boolean;
   onClose: () => void;
-  onStartAnalysis: (skillIds: string[]) => void;
+  onStartAnalysis: (skillIds: string[], playbookId?: string) => void;
 }
 
 export function SkillSelectionPanel({
@@ -35,6 +42,8 @@ export function SkillSelectionPanel({
 }: SkillSelectionPanelProps) {
   const [skills, setSkills] = useState<SkillPreview[]>([]);
   const [selectedSkillIds, setSelectedSkillIds] = useState<Set<string>>(new Set());
+  const [playbooks, setPlaybooks] = useState<PlaybookOption[]>([]);
+  const [selectedPlaybookId, setSelectedPlaybookId] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const hasLoadedRef = useRef(false);
@@ -55,6 +64,13 @@ export function SkillSelectionPanel({
         // Pre-select all skills by default
         setSelectedSkillIds(new Set(json.data.skills.map((s: SkillPreview) => s.skillId)));
       }
+
+      // Playbooks are optional - users without access to the library just don't see them
+      const playbookRes = await fetch('/api/v2/blocks?libraryId=playbooks&status=ACTIVE&limit=100');
+      if (playbookRes.ok) {
+        const playbookJson = await playbookRes.json();
+        setPlaybooks(playbookJson.blocks || []);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load skills');
     } finally {
@@ -88,7 +104,7 @@ export function SkillSelectionPanel({
   };
 
   const handleStartAnalysis = () => {
-    onStartAnalysis(Array.from(selectedSkillIds));
+    onStartAnalysis(Array.from(selectedSkillIds), selectedPlaybookId || undefined);
   };
 
   if (!isOpen) return null;
@@ -129,9 +145,37 @@ export function SkillSelectionPanel({
           </div>
         )}
 
+        {!isLoading && !error && playbooks.length > 0 && (
+          <div className="flex items-center gap-2 mb-4">
+            <Label htmlFor="contract-playbook" className="text-sm">
+              Playbook:
+            </Label>
+            <select
+              id="contract-playbook"
+              value={selectedPlaybookId}
+              onChange={(e) => setSelectedPlaybookId(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded bg-white"
+            >
+              <option value="">None (skills only)</option>
+              {playbooks.map((playbook) => (
+                <option key={playbook.id} value={playbook.id}>
+                  {playbook.title} (v{playbook.version})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {!isLoading && !error && skills.length === 0 && (
           <div className="text-center py-8 text-sm text-muted-foreground">
             No skills available. Create skills in the Knowledge library first.
+            {selectedPlaybookId && (
+              <div className="mt-4">
+                <Button onClick={handleStartAnalysis} size="sm">
+                  Start Playbook Analysis
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -182,7 +226,7 @@ export function SkillSelectionPanel({
               </span>
               <Button
                 onClick={handleStartAnalysis}
-                disabled={selectedSkillIds.size === 0}
+                disabled={selectedSkillIds.size === 0 && !selectedPlaybookId}
                 size="sm"
               >
                 Start Analysis
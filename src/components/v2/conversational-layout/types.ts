@@ -24,6 +24,11 @@ export interface Message {
       blockType?: string;
       entryType?: string;
     }>;
+    excludedSkills?: Array<{
+      id: string;
+      title: string;
+      reason: string;
+    }>;
   };
   feedback?: {
     rating?: "THUMBS_UP" | "THUMBS_DOWN" | null;
@@ -16,6 +16,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { Flag, CheckCircle, Edit2, Loader2 } from 'lucide-react';
 import { TransparencyPanelRFP } from '@/app/v2/rfps/components/TransparencyPanelRFP';
+import type { TransparencyData } from '@/app/v2/rfps/components/types';
 import { useAutoResizeTextarea } from '@/lib/hooks/useAutoResizeTextarea';
 import { getConfidenceBadgeClasses } from '@/lib/v2/ui-utils';
 
@@ -30,6 +31,7 @@ export interface UnifiedResponseCardProps {
   reasoning?: string | null;
   inference?: string | null;
   sources?: string | null;
+  excludedSkills?: TransparencyData['excludedSkills'];
 
   // Review state
   flaggedForReview: boolean;
@@ -56,6 +58,7 @@ export function UnifiedResponseCard({
   reasoning,
   inference,
   sources,
+  excludedSkills,
   flaggedForReview,
   reviewStatus,
   library,
@@ -220,6 +223,7 @@ export function UnifiedResponseCard({
               reasoning: reasoning || undefined,
               inference: inference || undefined,
               sources: sources || undefined,
+              excludedSkills,
             }}
             library={library}
           />
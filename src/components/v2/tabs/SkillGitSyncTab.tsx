@@ -0,0 +1,371 @@
+'use client';
+
+/**
+ * Skill Git Sync Tab
+ *
+ * Git sync state for a skill:
+ * - Sync status, file path and last synced commit
+ * - Push to git, or propose a pull request in reviewed libraries
+ * - Three-way conflict resolver when the skill changed in both the
+ *   database and git: pick a side per conflict, then edit the result
+ */
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ExternalLink, GitBranch, GitMerge, GitPullRequest, Upload } from 'lucide-react';
+import { InlineLoader } from '@/components/ui/loading';
+import { useApiQuery, useApiMutation } from '@/hooks/use-api';
+import {
+  MERGE_LABELS,
+  mergeThreeWay,
+  renderMergeChunks,
+  type ConflictChoice,
+} from '@/lib/v2/git-sync/three-way-merge';
+
+interface GitConflict {
+  id: string;
+  gitPath: string;
+  remoteCommitSha: string | null;
+  baseTitle: string;
+  baseContent: string;
+  localTitle: string;
+  localContent: string;
+  localVersion: number;
+  remoteTitle: string;
+  remoteContent: string;
+  createdAt: string;
+}
+
+interface GitPullRequestSummary {
+  id: string;
+  url: string;
+  branch: string;
+  title: string;
+  createdAt: string;
+}
+
+interface GitSyncStatusResponse {
+  provider: string;
+  reviewMode: boolean;
+  syncStatus: string;
+  gitPath: string | null;
+  gitCommitSha: string | null;
+  lastSyncedAt: string | null;
+  pullRequest: GitPullRequestSummary | null;
+  conflict: GitConflict | null;
+}
+
+interface SyncResult {
+  gitPath: string;
+  commitSha: string;
+  pullRequest?: GitPullRequestSummary;
+}
+
+interface SkillGitSyncTabProps {
+  skillId: string;
+}
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  SYNCED: { label: 'Synced', className: 'bg-green-100 text-green-800' },
+  LOCAL_CHANGES: { label: 'Local changes', className: 'bg-yellow-100 text-yellow-800' },
+  PENDING_REVIEW: { label: 'In review', className: 'bg-blue-100 text-blue-800' },
+  CONFLICT: { label: 'Conflict', className: 'bg-red-100 text-red-800' },
+};
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  ours: `Keep ${MERGE_LABELS.ours}`,
+  theirs: `Keep ${MERGE_LABELS.theirs}`,
+  both: 'Keep both',
+};
+
+function LinesView({ lines, className }: { lines: string[]; className: string }) {
+  return (
+    <pre className={`px-3 py-2 text-xs font-mono whitespace-pre-wrap break-words min-h-[2rem] ${className}`}>
+      {lines.length > 0 ? lines.join('\n') : <span className="italic text-gray-400">(removed)</span>}
+    </pre>
+  );
+}
+
+function ConflictResolver({ skillId, conflict }: { skillId: string; conflict: GitConflict }) {
+  const router = useRouter();
+  const merge = useMemo(
+    () => mergeThreeWay(conflict.baseContent, conflict.localContent, conflict.remoteContent),
+    [conflict.baseContent, conflict.localContent, conflict.remoteContent]
+  );
+  // Position of each conflict chunk among the conflicts (choices are indexed by it)
+  const conflictIndexes = useMemo(() => {
+    let count = 0;
+    return merge.chunks.map((chunk) => (chunk.type === 'conflict' ? count++ : -1));
+  }, [merge]);
+  const conflictCount = conflictIndexes.filter((index) => index >= 0).length;
+
+  const [choices, setChoices] = useState<(ConflictChoice | undefined)[]>([]);
+  const [editedContent, setEditedContent] = useState<string | null>(null);
+  const [titleSide, setTitleSide] = useState<'ours' | 'theirs'>(
+    conflict.localTitle === conflict.baseTitle ? 'theirs' : 'ours'
+  );
+
+  const content = editedContent ?? renderMergeChunks(merge.chunks, choices);
+  const title = titleSide === 'ours' ? conflict.localTitle : conflict.remoteTitle;
+  const hasMarkers = content.includes(`<<<<<<< ${MERGE_LABELS.ours}`);
+
+  const choose = (index: number, choice: ConflictChoice) => {
+    setChoices((current) => {
+      const next = [...current];
+      next[index] = choice;
+      return next;
+    });
+    setEditedContent(null);
+  };
+
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(Array.from({ length: conflictCount }, () => choice));
+    setEditedContent(null);
+  };
+
+  const resolveMutation = useApiMutation<unknown, { title: string; content: string; expectedVersion: number }>({
+    url: `/api/v2/blocks/${skillId}/git-sync/conflict`,
+    method: 'POST',
+    invalidateKeys: [['block-git-sync', skillId], ['block-versions', skillId]],
+    onSuccess: () => {
+      toast.success('Conflict resolved');
+      router.refresh();
+    },
+    onError: (err) => {
+      toast.error(err.message || 'Failed to resolve conflict');
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-lg border border-red-200">
+      <div className="px-6 py-4 border-b border-red-200 bg-red-50 rounded-t-lg">
+        <div className="flex items-center gap-2">
+          <GitMerge className="w-5 h-5 text-red-600" />
+          <h2 className="text-lg font-semibold text-red-900">Resolve git conflict</h2>
+        </div>
+        <p className="text-sm text-red-800 mt-1">
+          This skill changed here and in <span className="font-mono">{conflict.gitPath}</span>
+          {conflict.remoteCommitSha && <> (commit {conflict.remoteCommitSha.slice(0, 7)})</>} since it was last
+          synced. Pick a side for each conflict, then review the result.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {conflict.localTitle !== conflict.remoteTitle && (
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">Title</legend>
+            {(['ours', 'theirs'] as const).map((side) => (
+              <label key={side} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="git-conflict-title"
+                  checked={titleSide === side}
+                  onChange={() => setTitleSide(side)}
+                />
+                <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600">{MERGE_LABELS[side]}</span>
+                {side === 'ours' ? conflict.localTitle : conflict.remoteTitle}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <h3 className="text-sm font-medium text-gray-700 mr-auto">
+              Content · {conflictCount} conflict{conflictCount === 1 ? '' : 's'}
+            </h3>
+            {(['ours', 'theirs'] as const).map((choice) => (
+              <button
+                key={choice}
+                onClick={() => chooseAll(choice)}
+                className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Use all {MERGE_LABELS[choice]}
+              </button>
+            ))}
+          </div>
+
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {merge.chunks.map((chunk, chunkIndex) => {
+              if (chunk.type === 'stable') {
+                return <LinesView key={chunkIndex} lines={chunk.lines} className="text-gray-500" />;
+              }
+              const index = conflictIndexes[chunkIndex];
+              return (
+                <div key={chunkIndex} className="bg-amber-50">
+                  <div className="grid grid-cols-2 divide-x divide-gray-200">
+                    {(['ours', 'theirs'] as const).map((side) => (
+                      <div key={side}>
+                        <div className="px-3 py-1 text-xs font-medium text-gray-600 border-b border-gray-200">
+                          {MERGE_LABELS[side]}
+                        </div>
+                        <LinesView
+                          lines={chunk[side]}
+                          className={side === 'ours' ? 'bg-blue-50 text-blue-900' : 'bg-purple-50 text-purple-900'}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 px-3 py-2 border-t border-gray-200">
+                    {(Object.keys(CHOICE_LABELS) as ConflictChoice[]).map((choice) => (
+                      <button
+                        key={choice}
+                        onClick={() => choose(index, choice)}
+                        className={`px-2 py-1 text-xs rounded border ${
+                          choices[index] === choice
+                            ? 'bg-gray-900 text-white border-gray-900'
+                            : 'border-gray-300 hover:bg-white'
+                        }`}
+                      >
+                        {CHOICE_LABELS[choice]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2" htmlFor="git-conflict-result">
+            Result
+          </label>
+          <textarea
+            id="git-conflict-result"
+            value={content}
+            onChange={(e) => setEditedContent(e.target.value)}
+            rows={14}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono"
+          />
+          {hasMarkers && (
+            <p className="text-xs text-red-600 mt-1">
+              Pick a side for every conflict, or remove the conflict markers by hand.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={() => resolveMutation.mutate({ title, content, expectedVersion: conflict.localVersion })}
+            disabled={hasMarkers || resolveMutation.isPending}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+          >
+            {resolveMutation.isPending && <InlineLoader size="sm" />}
+            Save resolution
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SkillGitSyncTab({ skillId }: SkillGitSyncTabProps) {
+  const router = useRouter();
+  const { data, isLoading, error } = useApiQuery<GitSyncStatusResponse>({
+    queryKey: ['block-git-sync', skillId],
+    url: `/api/v2/blocks/${skillId}/git-sync`,
+  });
+
+  const syncMutation = useApiMutation<SyncResult, void>({
+    url: `/api/v2/blocks/${skillId}/git-sync`,
+    method: 'POST',
+    invalidateKeys: [['block-git-sync', skillId], ['block-versions', skillId]],
+    onSuccess: (result) => {
+      toast.success(result.pullRequest ? 'Pull request updated' : 'Pushed to git');
+      router.refresh();
+    },
+    onError: (err) => {
+      toast.error(err.message || 'Failed to sync to git');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <InlineLoader size="md" className="mr-2" />
+        <span className="text-gray-500">Loading git sync status...</span>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6 text-sm text-red-600">
+        {error instanceof Error ? error.message : 'Failed to load git sync status'}
+      </div>
+    );
+  }
+
+  const status = STATUS_STYLES[data.syncStatus] ?? { label: data.syncStatus, className: 'bg-gray-100 text-gray-700' };
+  const canSync = data.provider !== 'noop' && data.syncStatus !== 'CONFLICT' && data.syncStatus !== 'SYNCED';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+          <GitBranch className="w-5 h-5 text-gray-500" />
+          <h2 className="text-lg font-semibold">Git Sync</h2>
+          <span className={`text-xs px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+          <button
+            onClick={() => syncMutation.mutate()}
+            disabled={!canSync || syncMutation.isPending}
+            className="ml-auto inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            {syncMutation.isPending ? (
+              <InlineLoader size="sm" />
+            ) : data.reviewMode ? (
+              <GitPullRequest className="w-4 h-4" />
+            ) : (
+              <Upload className="w-4 h-4" />
+            )}
+            {data.reviewMode ? 'Propose changes' : 'Push to git'}
+          </button>
+        </div>
+        <dl className="px-6 py-4 grid grid-cols-[max-content_1fr] gap-x-6 gap-y-2 text-sm">
+          <dt className="text-gray-500">File</dt>
+          <dd className="font-mono text-gray-800 break-all">{data.gitPath || 'Not synced yet'}</dd>
+          <dt className="text-gray-500">Provider</dt>
+          <dd className="text-gray-800">
+            {data.provider === 'noop' ? 'Git sync disabled' : data.provider}
+            {data.reviewMode && ' · changes go through pull requests'}
+          </dd>
+          {data.gitCommitSha && (
+            <>
+              <dt className="text-gray-500">Last synced</dt>
+              <dd className="text-gray-800">
+                <span className="font-mono">{data.gitCommitSha.slice(0, 7)}</span>
+                {data.lastSyncedAt && <> · {new Date(data.lastSyncedAt).toLocaleString()}</>}
+              </dd>
+            </>
+          )}
+        </dl>
+        {data.pullRequest && (
+          <div className="px-6 py-3 border-t border-gray-200 flex items-center gap-2 text-sm bg-blue-50 rounded-b-lg">
+            <GitPullRequest className="w-4 h-4 text-blue-700" />
+            <span className="text-blue-900 truncate">{data.pullRequest.title}</span>
+            <span className="font-mono text-xs text-blue-700">{data.pullRequest.branch}</span>
+            <a
+              href={data.pullRequest.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="ml-auto inline-flex items-center gap-1 text-blue-700 hover:underline"
+            >
+              Open pull request
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          </div>
+        )}
+      </div>
+
+      {data.conflict && (
+        <ConflictResolver
+          key={`${data.conflict.id}:${data.conflict.localVersion}:${data.conflict.remoteCommitSha}`}
+          skillId={skillId}
+          conflict={data.conflict}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+/**
+ * Skill Versions Tab
+ *
+ * Version history for a skill:
+ * - List of every saved version with author and change type
+ * - Side-by-side diff of any two versions (content + changed fields)
+ * - Restore an earlier version (saved as a new version)
+ */
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { History, RotateCcw } from 'lucide-react';
+import { useConfirm } from '@/components/ConfirmModal';
+import { InlineLoader } from '@/components/ui/loading';
+import { useApiQuery, useApiMutation } from '@/hooks/use-api';
+import { buildSideBySideDiff, getChangedFields, type SideBySideRow } from '@/lib/v2/blocks/version-diff';
+
+interface VersionSummary {
+  id: string;
+  version: number;
+  title: string;
+  changeType: string;
+  changeNote: string | null;
+  createdAt: string;
+  author: { id: string; name: string | null; email: string | null } | null;
+}
+
+interface VersionListResponse {
+  currentVersion: number;
+  versions: VersionSummary[];
+}
+
+interface VersionSnapshot {
+  version: number;
+  title: string;
+  content: string;
+  summary: string | null;
+  categories: string[];
+  attributes: Record<string, unknown>;
+}
+
+interface SkillVersionsTabProps {
+  skillId: string;
+}
+
+const CHANGE_TYPE_LABELS: Record<string, string> = {
+  baseline: 'Baseline',
+  created: 'Created',
+  updated: 'Edited',
+  refreshed: 'Refreshed',
+  restored: 'Restored',
+  git_sync: 'Git sync',
+};
+
+const ROW_STYLES: Record<SideBySideRow['type'], { left: string; right: string }> = {
+  unchanged: { left: '', right: '' },
+  removed: { left: 'bg-red-50 text-red-900', right: 'bg-gray-50' },
+  added: { left: 'bg-gray-50', right: 'bg-green-50 text-green-900' },
+  changed: { left: 'bg-red-50 text-red-900', right: 'bg-green-50 text-green-900' },
+};
+
+function useVersionSnapshot(skillId: string, version: number | null) {
+  return useApiQuery<VersionSnapshot>({
+    queryKey: ['block-version', skillId, version],
+    url: `/api/v2/blocks/${skillId}/versions/${version}`,
+    enabled: version !== null,
+  });
+}
+
+function DiffCellView({ cell, className }: { cell: SideBySideRow['left']; className: string }) {
+  return (
+    <>
+      <td className={`w-10 px-2 text-right text-gray-400 select-none align-top ${className}`}>
+        {cell?.lineNumber ?? ''}
+      </td>
+      <td className={`px-2 whitespace-pre-wrap break-words align-top ${className}`}>{cell?.text ?? ''}</td>
+    </>
+  );
+}
+
+export function SkillVersionsTab({ skillId }: SkillVersionsTabProps) {
+  const router = useRouter();
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [hideUnchanged, setHideUnchanged] = useState(true);
+  const { confirm, ConfirmDialog } = useConfirm({
+    title: 'Restore Version',
+    message: 'The skill content will be replaced with this version. The current content stays in the history.',
+    confirmLabel: 'Restore',
+  });
+
+  const { data, isLoading, error } = useApiQuery<VersionListResponse>({
+    queryKey: ['block-versions', skillId],
+    url: `/api/v2/blocks/${skillId}/versions`,
+  });
+  const versions = useMemo(() => data?.versions ?? [], [data]);
+  const currentVersion = data?.currentVersion ?? null;
+
+  // Default: previous version against the current one
+  const left = baseVersion ?? versions[1]?.version ?? null;
+  const right = compareVersion ?? versions[0]?.version ?? null;
+
+  const { data: leftSnapshot, isLoading: leftLoading } = useVersionSnapshot(skillId, left);
+  const { data: rightSnapshot, isLoading: rightLoading } = useVersionSnapshot(skillId, right);
+
+  const rows = useMemo(
+    () => (leftSnapshot && rightSnapshot ? buildSideBySideDiff(leftSnapshot.content, rightSnapshot.content) : []),
+    [leftSnapshot, rightSnapshot]
+  );
+  const changedFields = useMemo(
+    () => (leftSnapshot && rightSnapshot ? getChangedFields(leftSnapshot, rightSnapshot) : []),
+    [leftSnapshot, rightSnapshot]
+  );
+  const visibleRows = hideUnchanged ? rows.filter((row) => row.type !== 'unchanged') : rows;
+
+  const restoreMutation = useApiMutation<unknown, { version: number }>({
+    url: (vars) => `/api/v2/blocks/${skillId}/versions/${vars.version}/restore`,
+    method: 'POST',
+    invalidateKeys: [['block-versions', skillId]],
+    onSuccess: (_result, vars) => {
+      toast.success(`Restored version ${vars.version}`);
+      setBaseVersion(null);
+      setCompareVersion(null);
+      router.refresh();
+    },
+    onError: (err) => {
+      toast.error(err.message || 'Failed to restore version');
+    },
+  });
+
+  const handleRestore = async (version: number) => {
+    const confirmed = await confirm();
+    if (!confirmed) return;
+    restoreMutation.mutate({ version });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <InlineLoader size="md" className="mr-2" />
+        <span className="text-gray-500">Loading versions...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6 text-sm text-red-600">
+        {error instanceof Error ? error.message : 'Failed to load versions'}
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <p className="text-sm text-gray-600">No version history yet.</p>
+        <p className="text-xs text-gray-500 mt-2">A version is saved every time the skill content changes.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Version list */}
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+          <History className="w-5 h-5 text-gray-500" />
+          <h2 className="text-lg font-semibold">Versions</h2>
+        </div>
+        <ul className="divide-y divide-gray-100">
+          {versions.map((version) => (
+            <li key={version.id} className="px-6 py-3 flex items-center gap-4 text-sm">
+              <span className="font-mono font-medium text-gray-900 w-10">v{version.version}</span>
+              <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600">
+                {CHANGE_TYPE_LABELS[version.changeType] ?? version.changeType}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="text-gray-800 truncate">{version.changeNote || version.title}</div>
+                <div className="text-xs text-gray-500">
+                  {version.author?.name || version.author?.email || 'System'} ·{' '}
+                  {new Date(version.createdAt).toLocaleString()}
+                </div>
+              </div>
+              {version.version === currentVersion ? (
+                <span className="text-xs font-medium text-green-700">Current</span>
+              ) : (
+                <button
+                  onClick={() => handleRestore(version.version)}
+                  disabled={restoreMutation.isPending}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Restore
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Diff */}
+      {versions.length > 1 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex flex-wrap items-end gap-3 mb-4">
+            {[
+              { label: 'Compare', value: left, onChange: setBaseVersion },
+              { label: 'With', value: right, onChange: setCompareVersion },
+            ].map((picker) => (
+              <label key={picker.label} className="text-sm text-gray-600">
+                <span className="block mb-1">{picker.label}</span>
+                <select
+                  value={picker.value ?? ''}
+                  onChange={(e) => picker.onChange(Number(e.target.value))}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                >
+                  {versions.map((version) => (
+                    <option key={version.id} value={version.version}>
+                      v{version.version}
+                      {version.version === currentVersion ? ' (current)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={hideUnchanged}
+                onChange={(e) => setHideUnchanged(e.target.checked)}
+              />
+              Only show changes
+            </label>
+          </div>
+
+          {changedFields.length > 0 && (
+            <p className="text-xs text-gray-500 mb-3">
+              Also changed: <span className="font-mono">{changedFields.join(', ')}</span>
+            </p>
+          )}
+
+          {leftLoading || rightLoading ? (
+            <div className="flex justify-center py-8">
+              <InlineLoader />
+            </div>
+          ) : visibleRows.length === 0 ? (
+            <p className="text-sm text-gray-500">The content of these versions is identical.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg overflow-x-auto">
+              <table className="w-full table-fixed text-xs font-mono">
+                <colgroup>
+                  <col className="w-10" />
+                  <col />
+                  <col className="w-10" />
+                  <col />
+                </colgroup>
+                <thead className="bg-gray-50 border-b border-gray-200 font-sans">
+                  <tr>
+                    <th colSpan={2} className="text-left px-3 py-2 font-medium text-gray-700">
+                      v{left}
+                    </th>
+                    <th colSpan={2} className="text-left px-3 py-2 font-medium text-gray-700 border-l border-gray-200">
+                      v{right}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row, index) => (
+                    <tr key={index}>
+                      <DiffCellView cell={row.left} className={ROW_STYLES[row.type].left} />
+                      <DiffCellView cell={row.right} className={`${ROW_STYLES[row.type].right} border-l border-gray-200`} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+      <ConfirmDialog />
+    </div>
+  );
+}
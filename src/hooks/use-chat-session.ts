@@ -2,6 +2,7 @@ import { useState, useCallback, useMemo } from "react";
 import { useSelectionStore } from "@/stores/selection-store";
 import { useSettingsStore } from "@/stores/settings-store";
 import type { ChatMessage } from "@/types/v2/chat";
+import { readSSEStream } from "@/lib/sse";
 
 // Re-export for backward compatibility
 export type { ChatMessage };
@@ -208,6 +209,7 @@ export function useChatSession(): UseChatSessionReturn {
           presetId: selectedPresetId,
           userInstructions,
           ...(sessionCustomerId && { customerId: sessionCustomerId }),
+          stream: true,
         };
 
         // Send message to API
@@ -217,37 +219,57 @@ export function useChatSession(): UseChatSessionReturn {
           body: JSON.stringify(payload),
         });
 
-        if (response.ok) {
-          const data = await response.json();
+        if (!response.ok || !response.body) {
+          const error = await response.json().catch(() => ({}));
+          throw new Error(error.error || "Failed to send message");
+        }
 
-          // Add user message
-          const userMsg: ChatMessage = {
-            id: `user-${Date.now()}`,
-            role: "user",
-            content: userMessage,
-            createdAt: new Date(),
-          };
+        // Show the user message and an assistant placeholder that fills in as text streams
+        const userMsg: ChatMessage = {
+          id: `user-${Date.now()}`,
+          role: "user",
+          content: userMessage,
+          createdAt: new Date(),
+        };
+        const placeholderId = `assistant-${Date.now()}`;
+        setMessages((prev) => [
+          ...prev,
+          userMsg,
+          { id: placeholderId, role: "assistant", content: "", createdAt: new Date() },
+        ]);
 
-          // Add assistant message with response data
-          const assistantMsg: ChatMessage = {
-            id: data.messageId || `assistant-${Date.now()}`,
-            role: "assistant",
-            content: data.answer,
-            blocksUsed: data.blocksUsed,
-            sourcesUsed: data.sourcesUsed,
-            webSearchSources: data.webSearchSources,
-            transparency: data.transparency,
-            createdAt: new Date(),
-          };
+        const updateAssistant = (update: (msg: ChatMessage) => ChatMessage) =>
+          setMessages((prev) => prev.map((msg) => (msg.id === placeholderId ? update(msg) : msg)));
 
-          // Update session and messages
-          setSessionId(data.sessionId);
-          setMessages((prev) => [...prev, userMsg, assistantMsg]);
-          await loadSessions();
-        } else {
-          const error = await response.json();
-          throw new Error(error.error || "Failed to send message");
+        let streamError: string | null = null;
+        await readSSEStream(response.body, ({ event, data }) => {
+          const parsed = JSON.parse(data);
+          if (event === "text") {
+            updateAssistant((msg) => ({ ...msg, content: msg.content + parsed.delta }));
+          } else if (event === "done") {
+            // Add assistant message with response data
+            updateAssistant((msg) => ({
+              ...msg,
+              id: parsed.messageId || msg.id,
+              content: parsed.answer,
+              blocksUsed: parsed.blocksUsed,
+              sourcesUsed: parsed.sourcesUsed,
+              webSearchSources: parsed.webSearchSources,
+              transparency: parsed.transparency,
+            }));
+            setSessionId(parsed.sessionId);
+          } else if (event === "error") {
+            streamError = parsed.error || "Failed to send message";
+          }
+        });
+
+        if (streamError) {
+          // Drop the partial exchange; the caller surfaces the error
+          setMessages((prev) => prev.filter((msg) => msg.id !== placeholderId && msg.id !== userMsg.id));
+          throw new Error(streamError);
         }
+
+        await loadSessions();
       } catch (error) {
         console.error("Failed to send message:", error);
         throw error;
@@ -20,6 +20,8 @@ export interface SourcesByType {
   gong: TypedStagedSource[];
   document: TypedStagedSource[];
   looker: TypedStagedSource[];
+  confluence: TypedStagedSource[];
+  gdrive: TypedStagedSource[];
 }
 
 /**
@@ -90,6 +92,8 @@ export function useCustomerSources(
       gong: [],
       document: [],
       looker: [],
+      confluence: [],
+      gdrive: [],
     };
 
     for (const source of sources) {
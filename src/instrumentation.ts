@@ -0,0 +1,14 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts.
+ *
+ * Without Redis there is no worker service, so background jobs (and the
+ * periodic schedulers) run in the web server process. See lib/queue/workers.ts.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.NEXT_PHASE === "phase-production-build") {
+    return;
+  }
+
+  const { startInProcessWorkers } = await import("@/lib/queue/workers");
+  startInProcessWorkers();
+}
@@ -2,12 +2,24 @@
  * API Authentication Helpers (v2)
  *
  * Provides route-level authentication utilities using team-based permissions.
+ * Routes that are part of the public REST API also accept API keys via
+ * `Authorization: Bearer tt_...` (see requireApiAuth).
  */
 
 import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 import { authOptions } from "./auth-v2";
 import prisma from "./prisma";
+import { logger } from "./logger";
+import { checkRateLimit, getResetTime } from "./rate-limit";
+import {
+  DEFAULT_API_KEY_RATE_LIMIT,
+  hasScope,
+  parseBearerApiKey,
+  recordApiKeyUsage,
+  verifyApiKey,
+  type ApiKeyScope,
+} from "./v2/api-keys";
 
 export type AuthResult =
   | {
@@ -22,6 +34,25 @@ export type AuthResult =
     }
   | { authorized: false; response: NextResponse };
 
+export type ApiAuthResult =
+  | {
+      authorized: true;
+      session: {
+        user: {
+          id: string;
+          email?: string;
+          name?: string;
+        };
+      };
+      /** Present when the request was authenticated with an API key. */
+      apiKey?: {
+        id: string;
+        teamId: string | null;
+        scopes: string[];
+      };
+    }
+  | { authorized: false; response: NextResponse };
+
 export type TeamAuthResult =
   | {
       authorized: true;
@@ -158,3 +189,91 @@ export async function requireAnyTeamMember(): Promise<AuthResult> {
 
   return authResult;
 }
+
+/**
+ * Require either a NextAuth session or an API key carrying the given scope.
+ *
+ * Bearer keys are checked for status, expiry, scope and their per-minute
+ * rate limit. Successful key requests update lastUsedAt and are written to
+ * the AuditLog with actorType "api". Requests without a bearer key fall back
+ * to requireAuth(), where scopes do not apply.
+ */
+export async function requireApiAuth(
+  request: Request,
+  scope: ApiKeyScope
+): Promise<ApiAuthResult> {
+  const plaintextKey = parseBearerApiKey(request.headers.get("authorization"));
+
+  if (!plaintextKey) {
+    return requireAuth();
+  }
+
+  const verification = await verifyApiKey(plaintextKey);
+
+  if (!verification.valid) {
+    return {
+      authorized: false,
+      response: NextResponse.json(
+        { error: verification.reason === "not_found" ? "Invalid API key" : `API key ${verification.reason}` },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const { apiKey } = verification;
+
+  if (!hasScope(apiKey, scope)) {
+    return {
+      authorized: false,
+      response: NextResponse.json(
+        { error: `API key is missing required scope: ${scope}` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const rateLimitKey = `apikey:${apiKey.id}`;
+  const limit = apiKey.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT;
+  if (!checkRateLimit(rateLimitKey, limit, 60000)) {
+    const resetTime = getResetTime(rateLimitKey);
+    return {
+      authorized: false,
+      response: NextResponse.json(
+        { error: `Rate limit exceeded. Maximum ${limit} requests per minute for this API key.` },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": String(limit),
+            "Retry-After": resetTime ? Math.ceil((resetTime - Date.now()) / 1000).toString() : "60",
+          },
+        }
+      ),
+    };
+  }
+
+  const forwarded = request.headers.get("x-forwarded-for");
+  try {
+    await recordApiKeyUsage(apiKey, {
+      scope,
+      method: request.method,
+      path: new URL(request.url).pathname,
+      ipAddress: forwarded?.split(",")[0]?.trim() || undefined,
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+  } catch (error) {
+    // Usage tracking must not block an otherwise valid request
+    logger.error("Failed to record API key usage", error, { apiKeyId: apiKey.id });
+  }
+
+  return {
+    authorized: true,
+    session: {
+      user: { id: apiKey.userId },
+    },
+    apiKey: {
+      id: apiKey.id,
+      teamId: apiKey.teamId,
+      scopes: apiKey.scopes,
+    },
+  };
+}
@@ -12,8 +12,9 @@ const isDev = process.env.NODE_ENV === 'development';
  * Sanitize error messages to prevent leaking internal details in production.
  * In development, returns the full message for debugging.
  * In production, returns a generic message unless it's explicitly safe.
+ * Exported for streaming routes, which report errors as SSE events.
  */
-function sanitizeErrorMessage(message: string, fallback: string): string {
+export function sanitizeErrorMessage(message: string, fallback: string): string {
   if (isDev) {
     return message;
   }
@@ -98,6 +99,12 @@ export const errors = {
       { status: 409 }
     ),
 
+  tooManyRequests: (message = 'Too Many Requests') =>
+    NextResponse.json(
+      { error: sanitizeErrorMessage(message, 'Too Many Requests') },
+      { status: 429 }
+    ),
+
   internal: (message = 'Internal Server Error') =>
     NextResponse.json(
       { error: sanitizeErrorMessage(message, 'Internal Server Error') },
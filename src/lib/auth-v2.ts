@@ -14,11 +14,37 @@ import GoogleProvider from "next-auth/providers/google";
 import OktaProvider from "next-auth/providers/okta";
 import CredentialsProvider from "next-auth/providers/credentials";
 import prisma from "./prisma";
+import { getProfileGroups, syncUserGroupsFromSignIn } from "./v2/teams/group-sync-service";
 
 // Admin email whitelist - users with these emails automatically get admin role
 // Configure via ADMIN_EMAILS environment variable (comma-separated list)
 const adminEmails = (process.env.ADMIN_EMAILS || "").split(",").map((e) => e.trim().toLowerCase()).filter(Boolean);
 
+/**
+ * Add a user to the default team (admin if their email is whitelisted).
+ * Used for new sign-ins and SCIM-provisioned users. No-op if already a member.
+ */
+export async function addToDefaultTeam(userId: string, email: string): Promise<boolean> {
+  const defaultTeam = await prisma.team.findUnique({
+    where: { slug: 'default' },
+  });
+  if (!defaultTeam) return false;
+
+  // Determine role: admin if in whitelist, otherwise member
+  const isAdmin = adminEmails.includes(email.toLowerCase());
+
+  await prisma.teamMembership.upsert({
+    where: { userId_teamId: { userId, teamId: defaultTeam.id } },
+    update: {},
+    create: {
+      userId,
+      teamId: defaultTeam.id,
+      role: isAdmin ? 'admin' : 'member',
+    },
+  });
+  return true;
+}
+
 // Build providers array conditionally
 const providers: NextAuthOptions["providers"] = [];
 
@@ -102,23 +128,11 @@ if (process.env.NODE_ENV !== "production") {
           });
 
           // Add to default team if exists
-          const defaultTeam = await prisma.team.findUnique({
-            where: { slug: 'default' },
-          });
-          if (defaultTeam) {
-            // Determine role: admin if in whitelist, otherwise member
-            const isAdmin = adminEmails.includes(credentials.email.toLowerCase());
-
-            await prisma.teamMembership.create({
-              data: {
-                userId: user.id,
-                teamId: defaultTeam.id,
-                role: isAdmin ? 'admin' : 'member',
-              },
-            });
-          }
+          await addToDefaultTeam(user.id, credentials.email);
         }
 
+        if (!user.active) return null;
+
         return {
           id: user.id,
           email: user.email,
@@ -165,27 +179,17 @@ export const authOptions: NextAuthOptions = {
             console.log("[Auth SignIn] Created new user:", dbUser.id);
 
             // Add to default team
-            const defaultTeam = await prisma.team.findUnique({
-              where: { slug: 'default' },
-            });
-            if (defaultTeam) {
-              // Determine role: admin if in whitelist, otherwise member
-              const isAdmin = adminEmails.includes(user.email.toLowerCase());
-              console.log("[Auth SignIn] Adding user to default team as", isAdmin ? 'admin' : 'member');
-
-              await prisma.teamMembership.create({
-                data: {
-                  userId: dbUser.id,
-                  teamId: defaultTeam.id,
-                  role: isAdmin ? 'admin' : 'member',
-                },
-              });
+            if (await addToDefaultTeam(dbUser.id, user.email)) {
               console.log("[Auth SignIn] Team membership created successfully");
             } else {
               console.warn("[Auth SignIn] Default team not found!");
             }
           } else {
             console.log("[Auth SignIn] User already exists in DB");
+            if (!dbUser.active) {
+              console.warn("[Auth SignIn] Refusing sign-in for deactivated user:", dbUser.id);
+              return false;
+            }
             // Update user info
             await prisma.user.update({
               where: { id: dbUser.id },
@@ -196,6 +200,21 @@ export const authOptions: NextAuthOptions = {
             console.log("[Auth SignIn] Updated existing user info");
           }
 
+          // Okta groups drive team membership via GroupTeamMapping
+          const groups = account.provider === "okta" ? getProfileGroups(profile) : null;
+          if (groups) {
+            try {
+              const result = await syncUserGroupsFromSignIn(dbUser.id, groups);
+              console.log("[Auth SignIn] Synced Okta groups", { groups: groups.length, ...result });
+            } catch (error) {
+              // Keep existing memberships rather than blocking sign-in
+              console.error("[Auth SignIn] Failed to sync Okta groups:", {
+                error: error instanceof Error ? error.message : String(error),
+                userId: dbUser.id,
+              });
+            }
+          }
+
           // Store OAuth tokens in Account table
           if (account.access_token) {
             console.log("[Auth SignIn] Storing OAuth tokens for", account.provider);
@@ -283,6 +302,8 @@ export const authOptions: NextAuthOptions = {
       return session;
     },
 
+    // Runs on every session read, so deprovisioning (SCIM active=false) takes
+    // effect on existing sessions, not just the next sign-in
     async jwt({ token, user }) {
       try {
         const email = user?.email || token.email;
@@ -290,10 +311,13 @@ export const authOptions: NextAuthOptions = {
         if (email) {
           const dbUser = await prisma.user.findUnique({
             where: { email: email as string },
-            select: { id: true },
+            select: { id: true, active: true },
           });
 
-          if (dbUser) {
+          if (dbUser && !dbUser.active) {
+            // No sub -> no session.user.id, which every API auth check rejects
+            delete token.sub;
+          } else if (dbUser) {
             token.sub = dbUser.id;
           } else if (user) {
             token.sub = user.id;
@@ -2,20 +2,9 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { parseApiData } from "./apiClient";
+import { defaultBranding, type BrandingSettings } from "./brandingDefaults";
 
-export type BrandingSettings = {
-  appName: string;
-  tagline: string;
-  sidebarSubtitle: string;
-  primaryColor: string;
-};
-
-const defaultBranding: BrandingSettings = {
-  appName: "Transparent Trust",
-  tagline: "Turn your knowledge into trustworthy answers. An LLM-powered assistant telling you not just the answer, but why.",
-  sidebarSubtitle: "Transparent LLM Assistant",
-  primaryColor: "#0ea5e9",
-};
+export type { BrandingSettings };
 
 type BrandingContextType = {
   branding: BrandingSettings;
@@ -0,0 +1,21 @@
+/**
+ * Branding defaults shared by the client provider (branding.tsx), the
+ * /api/branding route and server-side document exports.
+ */
+
+export type BrandingSettings = {
+  appName: string;
+  tagline: string;
+  sidebarSubtitle: string;
+  primaryColor: string;
+  /** PNG or JPEG logo under public/ (e.g. "/logo.png"), embedded in document exports */
+  logoUrl?: string;
+};
+
+export const defaultBranding: BrandingSettings = {
+  appName: "Transparent Trust",
+  tagline: "Turn your knowledge into trustworthy answers. An LLM-powered assistant telling you not just the answer, but why.",
+  sidebarSubtitle: "Transparent LLM Assistant",
+  primaryColor: "#0ea5e9",
+  logoUrl: process.env.NEXT_PUBLIC_BRANDING_LOGO_URL || undefined,
+};
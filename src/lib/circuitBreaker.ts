@@ -386,6 +386,14 @@ export const circuitBreakers = {
     recoveryTimeout: 20000,
     timeout: 30000, // 30 seconds
   }),
+
+  email: new CircuitBreaker({
+    name: "email",
+    failureThreshold: 5,
+    failureWindow: 60000,
+    recoveryTimeout: 20000,
+    timeout: 15000, // 15 seconds
+  }),
 };
 
 /**
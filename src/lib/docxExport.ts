@@ -17,7 +17,7 @@ import {
   Packer,
 } from "docx";
 
-type MarkdownLine = {
+export type MarkdownLine = {
   type: "h1" | "h2" | "h3" | "h4" | "paragraph" | "bullet" | "numbered" | "hr" | "table" | "code";
   content: string;
   level?: number; // For nested lists
@@ -27,7 +27,7 @@ type MarkdownLine = {
 /**
  * Parse markdown into structured lines
  */
-function parseMarkdown(markdown: string): MarkdownLine[] {
+export function parseMarkdown(markdown: string): MarkdownLine[] {
   const lines = markdown.split("\n");
   const result: MarkdownLine[] = [];
   let inTable = false;
@@ -139,7 +139,7 @@ function parseMarkdown(markdown: string): MarkdownLine[] {
 /**
  * Parse inline formatting (bold, italic, code) in text
  */
-function parseInlineFormatting(text: string): TextRun[] {
+export function parseInlineFormatting(text: string): TextRun[] {
   const runs: TextRun[] = [];
 
   // Regex to match bold (**text** or __text__), italic (*text* or _text_), and code (`text`)
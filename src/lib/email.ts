@@ -0,0 +1,63 @@
+// Email Client
+// Sends transactional email (owner digests, notifications) through the
+// Resend HTTP API. Configure RESEND_API_KEY and EMAIL_FROM to enable.
+
+import { circuitBreakers } from "./circuitBreaker";
+import { getSecret } from "./secrets";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+
+async function getApiKey(): Promise<string | null> {
+  try {
+    return await getSecret("resend-api-key", "RESEND_API_KEY");
+  } catch {
+    return null;
+  }
+}
+
+export async function isEmailConfigured(): Promise<boolean> {
+  return Boolean(process.env.EMAIL_FROM) && (await getApiKey()) !== null;
+}
+
+/**
+ * Send a single email. Throws when email is not configured or the
+ * provider rejects the message.
+ */
+export async function sendEmail(message: EmailMessage): Promise<{ id: string }> {
+  const apiKey = await getApiKey();
+  const from = process.env.EMAIL_FROM;
+  if (!apiKey || !from) {
+    throw new Error("Email not configured. Set RESEND_API_KEY and EMAIL_FROM.");
+  }
+
+  const response = await circuitBreakers.email.execute(() =>
+    fetch(RESEND_API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        ...(message.html && { html: message.html }),
+      }),
+    })
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Email API HTTP error (${response.status}): ${errorText}`);
+  }
+
+  return (await response.json()) as { id: string };
+}
@@ -0,0 +1,426 @@
+/**
+ * Bitbucket Server API Client
+ *
+ * Low-level client for the Bitbucket Server / Data Center REST API (1.0).
+ * Writes go through the file edit endpoint (PUT /browse/{path}), which
+ * commits one file at a time as the user that owns the access token.
+ *
+ * Limitations of the Bitbucket Server REST API:
+ * - There is no endpoint to delete a file, so deletes (and the delete half
+ *   of a rename) are rejected with a 501 BitbucketServerApiError.
+ * - There is no multi-file commit, so a batch becomes one commit per file
+ *   and is not atomic.
+ * - The commit author is always the token's user.
+ */
+
+import { logger } from "../logger";
+
+export interface BitbucketServerConfig {
+  /** Instance URL, e.g. https://bitbucket.example.com */
+  baseUrl: string;
+  projectKey: string;
+  repoSlug: string;
+  branch: string;
+  token: string;
+}
+
+export interface BitbucketServerCommit {
+  sha: string;
+  message: string;
+  author: {
+    name: string;
+    email: string;
+    date: string;
+  };
+}
+
+interface BitbucketServerCommitResponse {
+  id: string;
+  message: string;
+  author: { name: string; emailAddress?: string };
+  authorTimestamp: number;
+}
+
+export interface BitbucketServerPullRequest {
+  id: number;
+  state: "OPEN" | "MERGED" | "DECLINED";
+  fromRef: { displayId: string };
+  links?: { self?: Array<{ href: string }> };
+  properties?: { mergeCommit?: { id: string } };
+}
+
+interface BitbucketServerDiffResponse {
+  diffs: Array<{
+    source?: { toString: string } | null;
+    destination?: { toString: string } | null;
+    hunks?: Array<{
+      sourceLine: number;
+      sourceSpan: number;
+      destinationLine: number;
+      destinationSpan: number;
+      segments: Array<{
+        type: "ADDED" | "REMOVED" | "CONTEXT";
+        lines: Array<{ line: string }>;
+      }>;
+    }>;
+  }>;
+}
+
+const SEGMENT_PREFIX: Record<"ADDED" | "REMOVED" | "CONTEXT", string> = {
+  ADDED: "+",
+  REMOVED: "-",
+  CONTEXT: " ",
+};
+
+/**
+ * Bitbucket Server API Client for git operations
+ */
+export class BitbucketServerClient {
+  private readonly config: BitbucketServerConfig;
+
+  constructor(config: BitbucketServerConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, "") };
+  }
+
+  private get repoPath(): string {
+    return `${this.config.baseUrl}/rest/api/1.0/projects/${encodeURIComponent(
+      this.config.projectKey
+    )}/repos/${encodeURIComponent(this.config.repoSlug)}`;
+  }
+
+  private get branchRef(): string {
+    return `refs/heads/${this.config.branch}`;
+  }
+
+  /**
+   * Encode a repository path segment by segment, keeping the slashes
+   */
+  private encodePath(path: string): string {
+    return path.split("/").map(encodeURIComponent).join("/");
+  }
+
+  /**
+   * Make an API request with error handling. File edits take a multipart
+   * form; other bodies are sent as JSON. Absolute URLs reach the other REST
+   * plugins (e.g. branch-utils).
+   */
+  private async send(
+    method: string,
+    path: string,
+    body?: FormData | Record<string, unknown>
+  ): Promise<Response> {
+    const url = path.startsWith("http") ? path : `${this.repoPath}${path}`;
+    const isForm = body instanceof FormData;
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.token}`,
+        Accept: "application/json",
+        // Bitbucket rejects multipart requests without this (XSRF check)
+        ...(isForm ? { "X-Atlassian-Token": "no-check" } : {}),
+        ...(body && !isForm ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      logger.error("Bitbucket Server API error", new Error(errorBody), {
+        status: response.status,
+        url,
+        method,
+      });
+
+      if (response.status === 404) {
+        throw new BitbucketServerApiError("Resource not found", 404);
+      }
+      if (response.status === 409) {
+        throw new BitbucketServerApiError(
+          `Conflict - file may have been modified: ${errorBody}`,
+          409
+        );
+      }
+      if (response.status === 400) {
+        throw new BitbucketServerApiError(`Validation failed: ${errorBody}`, 400);
+      }
+
+      throw new BitbucketServerApiError(
+        `Bitbucket Server API error: ${response.status} ${response.statusText}`,
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: FormData | Record<string, unknown>
+  ): Promise<T> {
+    const response = await this.send(method, path, body);
+    if (response.status === 204) {
+      return {} as T;
+    }
+    return response.json();
+  }
+
+  // ==================== Files ====================
+
+  /**
+   * Get raw file content (at ref, or the configured branch)
+   * Returns null if file doesn't exist
+   */
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    try {
+      const response = await this.send(
+        "GET",
+        `/raw/${this.encodePath(path)}?at=${encodeURIComponent(ref || this.branchRef)}`
+      );
+      return await response.text();
+    } catch (error) {
+      if (error instanceof BitbucketServerApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the files directly inside a directory
+   * Returns an empty list if the directory doesn't exist
+   */
+  async listDirectory(path: string): Promise<string[]> {
+    const files: string[] = [];
+
+    try {
+      let start = 0;
+      for (;;) {
+        // /files lists recursively, relative to the directory
+        const response = await this.request<{
+          values: string[];
+          isLastPage: boolean;
+          nextPageStart?: number;
+        }>(
+          "GET",
+          `/files/${this.encodePath(path)}?at=${encodeURIComponent(this.branchRef)}&limit=1000&start=${start}`
+        );
+        files.push(...response.values.filter((file) => !file.includes("/")).map((file) => `${path}/${file}`));
+        if (response.isLastPage || response.nextPageStart === undefined) break;
+        start = response.nextPageStart;
+      }
+    } catch (error) {
+      if (error instanceof BitbucketServerApiError && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    return files;
+  }
+
+  /**
+   * Latest commit on the branch that touched a path, or null if the path
+   * has no history there
+   */
+  async getLatestCommitId(path: string): Promise<string | null> {
+    try {
+      const history = await this.getFileHistory(path, 1);
+      return history[0]?.sha ?? null;
+    } catch (error) {
+      if (error instanceof BitbucketServerApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update a single file. Updates send the file's last commit as
+   * sourceCommitId so Bitbucket rejects the write (409) if the file changed.
+   */
+  async createOrUpdateFile(
+    path: string,
+    content: string,
+    message: string
+  ): Promise<{ commitSha: string }> {
+    const exists = (await this.getFileContent(path)) !== null;
+    const sourceCommitId = exists ? await this.getLatestCommitId(path) : null;
+
+    const form = new FormData();
+    form.append("branch", this.config.branch);
+    form.append("content", content);
+    form.append("message", message);
+    if (sourceCommitId) {
+      form.append("sourceCommitId", sourceCommitId);
+    }
+
+    const response = await this.request<{ id: string }>(
+      "PUT",
+      `/browse/${this.encodePath(path)}`,
+      form
+    );
+
+    return { commitSha: response.id };
+  }
+
+  /**
+   * Bitbucket Server has no REST endpoint for deleting files
+   */
+  async deleteFile(path: string): Promise<never> {
+    throw new BitbucketServerApiError(
+      `Bitbucket Server's REST API cannot delete files (${path}). Delete it in the repository directly.`,
+      501
+    );
+  }
+
+  /**
+   * Write several files, one commit each. Changes are checked up front so a
+   * batch containing a delete fails before anything is written. Returns the
+   * last commit, or null for an empty batch.
+   */
+  async commitMultipleFiles(
+    changes: Array<{ path: string; content: string | null }>,
+    message: string
+  ): Promise<string | null> {
+    const deletion = changes.find((change) => change.content === null);
+    if (deletion) {
+      await this.deleteFile(deletion.path);
+    }
+
+    let commitSha: string | null = null;
+    for (const change of changes) {
+      const result = await this.createOrUpdateFile(change.path, change.content as string, message);
+      commitSha = result.commitSha;
+    }
+    return commitSha;
+  }
+
+  // ==================== Branches & Pull Requests ====================
+
+  /**
+   * Create a branch from the head of the configured branch
+   */
+  async createBranch(name: string): Promise<void> {
+    await this.request(
+      "POST",
+      `${this.config.baseUrl}/rest/branch-utils/1.0/projects/${encodeURIComponent(
+        this.config.projectKey
+      )}/repos/${encodeURIComponent(this.config.repoSlug)}/branches`,
+      { name, startPoint: this.branchRef }
+    );
+  }
+
+  /**
+   * Open a pull request into the configured branch
+   */
+  async createPullRequest(
+    sourceBranch: string,
+    title: string,
+    description: string
+  ): Promise<BitbucketServerPullRequest> {
+    return this.request<BitbucketServerPullRequest>("POST", "/pull-requests", {
+      title,
+      description,
+      fromRef: { id: `refs/heads/${sourceBranch}` },
+      toRef: { id: this.branchRef },
+    });
+  }
+
+  /**
+   * Get a pull request by id
+   */
+  async getPullRequest(id: string): Promise<BitbucketServerPullRequest | null> {
+    try {
+      return await this.request<BitbucketServerPullRequest>(
+        "GET",
+        `/pull-requests/${encodeURIComponent(id)}`
+      );
+    } catch (error) {
+      if (error instanceof BitbucketServerApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // ==================== Commits ====================
+
+  /**
+   * Get commit history for a file
+   */
+  async getFileHistory(
+    path: string,
+    limit: number = 10
+  ): Promise<BitbucketServerCommit[]> {
+    const response = await this.request<{ values: BitbucketServerCommitResponse[] }>(
+      "GET",
+      `/commits?path=${encodeURIComponent(path)}&until=${encodeURIComponent(this.branchRef)}&limit=${limit}`
+    );
+
+    return response.values.map((item) => ({
+      sha: item.id,
+      message: item.message,
+      author: {
+        name: item.author.name,
+        email: item.author.emailAddress || "",
+        date: new Date(item.authorTimestamp).toISOString(),
+      },
+    }));
+  }
+
+  /**
+   * Get the diff of a file between two commits, rendered as a unified diff
+   */
+  async getCommitDiff(
+    fromSha: string,
+    toSha: string,
+    path: string
+  ): Promise<string> {
+    const response = await this.request<BitbucketServerDiffResponse>(
+      "GET",
+      `/diff/${this.encodePath(path)}?since=${encodeURIComponent(fromSha)}&until=${encodeURIComponent(toSha)}&contextLines=3`
+    );
+
+    return response.diffs
+      .map((diff) => {
+        const lines = [
+          `--- ${diff.source ? `a/${diff.source.toString}` : "/dev/null"}`,
+          `+++ ${diff.destination ? `b/${diff.destination.toString}` : "/dev/null"}`,
+        ];
+        for (const hunk of diff.hunks || []) {
+          lines.push(
+            `@@ -${hunk.sourceLine},${hunk.sourceSpan} +${hunk.destinationLine},${hunk.destinationSpan} @@`
+          );
+          for (const segment of hunk.segments) {
+            for (const line of segment.lines) {
+              lines.push(`${SEGMENT_PREFIX[segment.type]}${line.line}`);
+            }
+          }
+        }
+        return lines.join("\n");
+      })
+      .join("\n\n");
+  }
+
+  /**
+   * Get current branch name (just returns configured branch)
+   */
+  getCurrentBranch(): string {
+    return this.config.branch;
+  }
+}
+
+/**
+ * Custom error class for Bitbucket Server API errors
+ */
+export class BitbucketServerApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "BitbucketServerApiError";
+  }
+}
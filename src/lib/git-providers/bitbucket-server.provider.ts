@@ -0,0 +1,232 @@
+/**
+ * Bitbucket Server Provider
+ *
+ * Implements GitProvider interface using the Bitbucket Server / Data Center
+ * REST API. See bitbucket-server.client.ts for what that API cannot do:
+ * deletes are rejected, batches are one commit per file, and commits are
+ * authored by the token's user.
+ */
+
+import {
+  BitbucketServerClient,
+  BitbucketServerConfig,
+  type BitbucketServerPullRequest,
+} from "./bitbucket-server.client";
+import type {
+  PullRequestProvider,
+  GitAuthor,
+  GitCommitInfo,
+  GitCommitResult,
+  FileChange,
+  PullRequestInfo,
+} from "./git-provider.interface";
+import { readProviderEnv } from "./provider-env";
+import { logger } from "../logger";
+
+function toPullRequestInfo(pr: BitbucketServerPullRequest): PullRequestInfo {
+  return {
+    id: String(pr.id),
+    url: pr.links?.self?.[0]?.href || "",
+    state: pr.state === "MERGED" ? "merged" : pr.state === "DECLINED" ? "closed" : "open",
+    sourceBranch: pr.fromRef.displayId,
+    mergeCommitSha: pr.properties?.mergeCommit?.id || null,
+  };
+}
+
+export class BitbucketServerProvider implements PullRequestProvider {
+  readonly providerType = "bitbucket-server" as const;
+  private client: BitbucketServerClient;
+  private config: BitbucketServerConfig;
+
+  constructor(config: BitbucketServerConfig) {
+    this.config = config;
+    this.client = new BitbucketServerClient(config);
+    logger.info("BitbucketServerProvider initialized", {
+      baseUrl: config.baseUrl,
+      projectKey: config.projectKey,
+      repoSlug: config.repoSlug,
+      branch: config.branch,
+    });
+  }
+
+  async createOrUpdateFile(
+    path: string,
+    content: string,
+    message: string,
+    author: GitAuthor
+  ): Promise<GitCommitResult> {
+    try {
+      const result = await this.client.createOrUpdateFile(path, content, message);
+
+      logger.info("File created/updated via Bitbucket Server API", {
+        path,
+        commitSha: result.commitSha,
+        requestedAuthor: author.email,
+      });
+
+      return {
+        sha: result.commitSha,
+        branch: this.config.branch,
+      };
+    } catch (error) {
+      logger.error("Failed to create/update file via Bitbucket Server API", error, {
+        path,
+      });
+      throw error;
+    }
+  }
+
+  async deleteFile(path: string): Promise<GitCommitResult> {
+    // Not found is fine, as with the other providers; anything that does
+    // exist cannot be deleted over the API
+    if ((await this.client.getFileContent(path)) === null) {
+      logger.warn("File not found for deletion", { path });
+      return { sha: null, branch: this.config.branch };
+    }
+    return this.client.deleteFile(path);
+  }
+
+  async commitFiles(
+    changes: FileChange[],
+    message: string,
+    author: GitAuthor
+  ): Promise<GitCommitResult> {
+    try {
+      const commitSha = await this.client.commitMultipleFiles(
+        changes.map((c) => ({ path: c.path, content: c.content })),
+        message
+      );
+
+      logger.info("Batch commit via Bitbucket Server API", {
+        files: changes.length,
+        commitSha,
+        requestedAuthor: author.email,
+      });
+
+      return {
+        sha: commitSha,
+        branch: this.config.branch,
+      };
+    } catch (error) {
+      logger.error("Failed to batch commit via Bitbucket Server API", error, {
+        files: changes.map((c) => c.path),
+      });
+      throw error;
+    }
+  }
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    return this.client.getFileContent(path, ref);
+  }
+
+  async listFiles(directory: string): Promise<string[]> {
+    return this.client.listDirectory(directory);
+  }
+
+  async getFileHistory(path: string, limit: number): Promise<GitCommitInfo[]> {
+    try {
+      const history = await this.client.getFileHistory(path, limit);
+      return history.map((commit) => ({
+        sha: commit.sha,
+        author: commit.author.name,
+        email: commit.author.email,
+        date: commit.author.date,
+        message: commit.message,
+      }));
+    } catch (error) {
+      logger.error("Failed to get file history via Bitbucket Server API", error, {
+        path,
+      });
+      return [];
+    }
+  }
+
+  async getFileDiff(
+    path: string,
+    fromCommit: string,
+    toCommit: string
+  ): Promise<string> {
+    try {
+      return await this.client.getCommitDiff(fromCommit, toCommit, path);
+    } catch (error) {
+      logger.error("Failed to get file diff via Bitbucket Server API", error, {
+        path,
+        fromCommit,
+        toCommit,
+      });
+      return "";
+    }
+  }
+
+  async isClean(): Promise<boolean> {
+    // Bitbucket Server API doesn't have uncommitted changes - always "clean"
+    return true;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async isPathClean(_pathspec: string): Promise<boolean> {
+    return true;
+  }
+
+  async getCurrentBranch(): Promise<string> {
+    return this.client.getCurrentBranch();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async pushToRemote(_remote?: string, _branch?: string): Promise<void> {
+    // No-op for Bitbucket Server API - commits are created on the remote branch
+    logger.debug("pushToRemote called on Bitbucket Server provider (no-op)");
+  }
+
+  async createBranch(name: string): Promise<void> {
+    await this.client.createBranch(name);
+    logger.info("Branch created via Bitbucket Server API", { branch: name, from: this.config.branch });
+  }
+
+  forBranch(name: string): BitbucketServerProvider {
+    return new BitbucketServerProvider({ ...this.config, branch: name });
+  }
+
+  async openPullRequest(sourceBranch: string, title: string, description: string): Promise<PullRequestInfo> {
+    const pr = await this.client.createPullRequest(sourceBranch, title, description);
+    logger.info("Pull request opened via Bitbucket Server API", { id: pr.id, sourceBranch });
+    return toPullRequestInfo(pr);
+  }
+
+  async getPullRequest(id: string): Promise<PullRequestInfo | null> {
+    const pr = await this.client.getPullRequest(id);
+    return pr ? toPullRequestInfo(pr) : null;
+  }
+}
+
+/**
+ * Check if Bitbucket Server config is available
+ */
+export function hasBitbucketServerConfig(scope?: string): boolean {
+  return !!(
+    readProviderEnv("BITBUCKET_SERVER_URL", scope) &&
+    readProviderEnv("BITBUCKET_PROJECT_KEY", scope) &&
+    readProviderEnv("BITBUCKET_REPO_SLUG", scope) &&
+    readProviderEnv("BITBUCKET_TOKEN", scope)
+  );
+}
+
+/**
+ * Create BitbucketServerProvider from environment variables.
+ * With a scope (library id), BITBUCKET_*_<SCOPE> variables take precedence.
+ */
+export function createBitbucketServerProviderFromEnv(scope?: string): BitbucketServerProvider {
+  const baseUrl = readProviderEnv("BITBUCKET_SERVER_URL", scope);
+  const projectKey = readProviderEnv("BITBUCKET_PROJECT_KEY", scope);
+  const repoSlug = readProviderEnv("BITBUCKET_REPO_SLUG", scope);
+  const branch = readProviderEnv("BITBUCKET_BRANCH", scope) || "main";
+  const token = readProviderEnv("BITBUCKET_TOKEN", scope);
+
+  if (!baseUrl || !projectKey || !repoSlug || !token) {
+    throw new Error(
+      "Missing required Bitbucket Server config. Set BITBUCKET_SERVER_URL, BITBUCKET_PROJECT_KEY, BITBUCKET_REPO_SLUG, and BITBUCKET_TOKEN environment variables."
+    );
+  }
+
+  return new BitbucketServerProvider({ baseUrl, projectKey, repoSlug, branch, token });
+}
@@ -2,9 +2,15 @@
  * Git Provider Interface
  *
  * Defines the contract for git operations that can be implemented
- * by different providers (local shell git or GitHub API).
+ * by different providers (local shell git, GitHub, GitLab or Bitbucket Server).
  */
 
+/**
+ * Provider identifiers. Everything except "local" and "noop" talks to a
+ * hosted repository over HTTP, with no working tree on disk.
+ */
+export type GitProviderType = "local" | "github-api" | "gitlab-api" | "bitbucket-server" | "noop";
+
 export interface GitAuthor {
   name: string;
   email: string;
@@ -29,11 +35,20 @@ export interface FileChange {
   encoding?: "utf-8" | "base64";
 }
 
+export interface PullRequestInfo {
+  /** PR number (GitHub), MR iid (GitLab) or PR id (Bitbucket Server) */
+  id: string;
+  url: string;
+  state: "open" | "merged" | "closed";
+  sourceBranch: string;
+  mergeCommitSha: string | null;
+}
+
 export interface GitProvider {
   /**
    * Provider type identifier
    */
-  readonly providerType: "local" | "github-api" | "noop";
+  readonly providerType: GitProviderType;
 
   /**
    * Create or update a single file and commit
@@ -65,10 +80,17 @@ export interface GitProvider {
   ): Promise<GitCommitResult>;
 
   /**
-   * Get file content from the repository
+   * Get file content from the repository, at a commit or branch when ref is
+   * given (defaults to the provider's branch)
    * Returns null if file doesn't exist
    */
-  getFileContent(path: string): Promise<string | null>;
+  getFileContent(path: string, ref?: string): Promise<string | null>;
+
+  /**
+   * List the paths of the files directly inside a directory
+   * Returns an empty list if the directory doesn't exist
+   */
+  listFiles(directory: string): Promise<string[]>;
 
   /**
    * Get commit history for a file
@@ -100,7 +122,33 @@ export interface GitProvider {
   getCurrentBranch(): Promise<string>;
 
   /**
-   * Push commits to remote (no-op for GitHub API provider)
+   * Push commits to remote (no-op for API providers)
    */
   pushToRemote(remote?: string, branch?: string): Promise<void>;
 }
+
+/**
+ * Providers for hosted repositories that can open pull requests against
+ * their branch. Used for libraries whose changes are reviewed before merge.
+ */
+export interface PullRequestProvider extends GitProvider {
+  /**
+   * Create a branch from the head of the provider's branch
+   */
+  createBranch(name: string): Promise<void>;
+
+  /**
+   * The same repository, committing to another branch
+   */
+  forBranch(name: string): GitProvider;
+
+  /**
+   * Open a pull request from sourceBranch into the provider's branch
+   */
+  openPullRequest(sourceBranch: string, title: string, description: string): Promise<PullRequestInfo>;
+
+  /**
+   * Get a pull request by id; null if it doesn't exist
+   */
+  getPullRequest(id: string): Promise<PullRequestInfo | null>;
+}
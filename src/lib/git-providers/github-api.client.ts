@@ -46,6 +46,15 @@ export interface GitHubAuthor {
   date?: string;
 }
 
+export interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  state: "open" | "closed";
+  merged_at: string | null;
+  merge_commit_sha: string | null;
+  head: { ref: string };
+}
+
 /**
  * GitHub API Client for git operations
  */
@@ -121,17 +130,17 @@ export class GitHubApiClient {
   // ==================== Contents API ====================
 
   /**
-   * Get file content from repository
+   * Get file content from repository (at ref, or the configured branch)
    * Returns null if file doesn't exist
    */
-  async getFileContent(path: string): Promise<GitHubFileContent | null> {
+  async getFileContent(path: string, ref?: string): Promise<GitHubFileContent | null> {
     try {
       const response = await this.request<{
         path: string;
         content: string;
         sha: string;
         encoding: string;
-      }>("GET", `/contents/${path}?ref=${this.config.branch}`);
+      }>("GET", `/contents/${path}?ref=${encodeURIComponent(ref || this.config.branch)}`);
 
       return {
         path: response.path,
@@ -147,6 +156,27 @@ export class GitHubApiClient {
     }
   }
 
+  /**
+   * List the files directly inside a directory
+   * Returns an empty list if the directory doesn't exist
+   */
+  async listDirectory(path: string): Promise<string[]> {
+    try {
+      const response = await this.request<Array<{ type: string; path: string }>>(
+        "GET",
+        `/contents/${path}?ref=${encodeURIComponent(this.config.branch)}`
+      );
+      return Array.isArray(response)
+        ? response.filter((entry) => entry.type === "file").map((entry) => entry.path)
+        : [];
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
   /**
    * Create or update a file using Contents API
    */
@@ -368,6 +398,49 @@ export class GitHubApiClient {
     return newCommitSha;
   }
 
+  /**
+   * Create a branch pointing at the head of the configured branch
+   */
+  async createBranch(name: string): Promise<void> {
+    const headSha = await this.getBranchHeadSha();
+    await this.request("POST", "/git/refs", {
+      ref: `refs/heads/${name}`,
+      sha: headSha,
+    });
+  }
+
+  // ==================== Pull Requests API ====================
+
+  /**
+   * Open a pull request into the configured branch
+   */
+  async createPullRequest(
+    head: string,
+    title: string,
+    body: string
+  ): Promise<GitHubPullRequest> {
+    return this.request<GitHubPullRequest>("POST", "/pulls", {
+      title,
+      head,
+      base: this.config.branch,
+      body,
+    });
+  }
+
+  /**
+   * Get a pull request by number
+   */
+  async getPullRequest(number: string): Promise<GitHubPullRequest | null> {
+    try {
+      return await this.request<GitHubPullRequest>("GET", `/pulls/${number}`);
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   // ==================== Commits API ====================
 
   /**
@@ -9,17 +9,30 @@ import {
   GitHubApiClient,
   GitHubConfig,
   GitHubApiError,
+  type GitHubPullRequest,
 } from "./github-api.client";
 import type {
-  GitProvider,
+  PullRequestProvider,
   GitAuthor,
   GitCommitInfo,
   GitCommitResult,
   FileChange,
+  PullRequestInfo,
 } from "./git-provider.interface";
+import { readProviderEnv } from "./provider-env";
 import { logger } from "../logger";
 
-export class GitHubApiProvider implements GitProvider {
+function toPullRequestInfo(pr: GitHubPullRequest): PullRequestInfo {
+  return {
+    id: String(pr.number),
+    url: pr.html_url,
+    state: pr.merged_at ? "merged" : pr.state,
+    sourceBranch: pr.head.ref,
+    mergeCommitSha: pr.merged_at ? pr.merge_commit_sha : null,
+  };
+}
+
+export class GitHubApiProvider implements PullRequestProvider {
   readonly providerType = "github-api" as const;
   private client: GitHubApiClient;
   private config: GitHubConfig;
@@ -123,9 +136,9 @@ export class GitHubApiProvider implements GitProvider {
     }
   }
 
-  async getFileContent(path: string): Promise<string | null> {
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
     try {
-      const content = await this.client.getFileContent(path);
+      const content = await this.client.getFileContent(path, ref);
       return content?.content || null;
     } catch (error) {
       if (error instanceof GitHubApiError && error.status === 404) {
@@ -135,6 +148,10 @@ export class GitHubApiProvider implements GitProvider {
     }
   }
 
+  async listFiles(directory: string): Promise<string[]> {
+    return this.client.listDirectory(directory);
+  }
+
   async getFileHistory(path: string, limit: number): Promise<GitCommitInfo[]> {
     try {
       const history = await this.client.getFileHistory(path, limit);
@@ -190,16 +207,37 @@ export class GitHubApiProvider implements GitProvider {
     // No-op for GitHub API - commits are immediately pushed
     logger.debug("pushToRemote called on GitHub API provider (no-op)");
   }
+
+  async createBranch(name: string): Promise<void> {
+    await this.client.createBranch(name);
+    logger.info("Branch created via GitHub API", { branch: name, from: this.config.branch });
+  }
+
+  forBranch(name: string): GitHubApiProvider {
+    return new GitHubApiProvider({ ...this.config, branch: name });
+  }
+
+  async openPullRequest(sourceBranch: string, title: string, description: string): Promise<PullRequestInfo> {
+    const pr = await this.client.createPullRequest(sourceBranch, title, description);
+    logger.info("Pull request opened via GitHub API", { number: pr.number, sourceBranch });
+    return toPullRequestInfo(pr);
+  }
+
+  async getPullRequest(id: string): Promise<PullRequestInfo | null> {
+    const pr = await this.client.getPullRequest(id);
+    return pr ? toPullRequestInfo(pr) : null;
+  }
 }
 
 /**
- * Create GitHubApiProvider from environment variables
+ * Create GitHubApiProvider from environment variables.
+ * With a scope (library id), GITHUB_*_<SCOPE> variables take precedence.
  */
-export function createGitHubApiProviderFromEnv(): GitHubApiProvider {
-  const owner = process.env.GITHUB_REPO_OWNER;
-  const repo = process.env.GITHUB_REPO_NAME;
-  const branch = process.env.GITHUB_BRANCH || "main";
-  const token = process.env.GITHUB_TOKEN;
+export function createGitHubApiProviderFromEnv(scope?: string): GitHubApiProvider {
+  const owner = readProviderEnv("GITHUB_REPO_OWNER", scope);
+  const repo = readProviderEnv("GITHUB_REPO_NAME", scope);
+  const branch = readProviderEnv("GITHUB_BRANCH", scope) || "main";
+  const token = readProviderEnv("GITHUB_TOKEN", scope);
 
   if (!owner || !repo || !token) {
     throw new Error(
@@ -0,0 +1,449 @@
+/**
+ * GitLab API Client
+ *
+ * Low-level client for the GitLab REST API (v4), for gitlab.com and
+ * self-hosted instances. Uses the Repository Files API for reads and the
+ * Commits API for all writes, so single files, deletes and multi-file
+ * changes are each one atomic commit.
+ */
+
+import { logger } from "../logger";
+
+export interface GitLabConfig {
+  /** Instance URL, e.g. https://gitlab.example.com */
+  baseUrl: string;
+  /** Numeric project id or full path ("group/subgroup/repo") */
+  projectId: string;
+  branch: string;
+  token: string;
+}
+
+export interface GitLabFileContent {
+  path: string;
+  content: string;
+  blobId: string;
+  lastCommitId: string;
+}
+
+export interface GitLabCommit {
+  sha: string;
+  message: string;
+  author: {
+    name: string;
+    email: string;
+    date: string;
+  };
+}
+
+export interface GitLabCommitAction {
+  action: "create" | "update" | "delete" | "move";
+  filePath: string;
+  previousPath?: string;
+  content?: string;
+}
+
+export interface GitLabAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state: "opened" | "closed" | "locked" | "merged";
+  source_branch: string;
+  merge_commit_sha: string | null;
+  squash_commit_sha?: string | null;
+}
+
+/**
+ * GitLab API Client for git operations
+ */
+export class GitLabApiClient {
+  private readonly config: GitLabConfig;
+
+  constructor(config: GitLabConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, "") };
+  }
+
+  private get headers(): HeadersInit {
+    return {
+      "PRIVATE-TOKEN": this.config.token,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    };
+  }
+
+  private get projectPath(): string {
+    return `${this.config.baseUrl}/api/v4/projects/${encodeURIComponent(this.config.projectId)}`;
+  }
+
+  /**
+   * Make an API request with error handling
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const url = `${this.projectPath}${path}`;
+
+    const response = await fetch(url, {
+      method,
+      headers: this.headers,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      logger.error("GitLab API error", new Error(errorBody), {
+        status: response.status,
+        url,
+        method,
+      });
+
+      if (response.status === 404) {
+        throw new GitLabApiError("Resource not found", 404);
+      }
+      if (response.status === 409) {
+        throw new GitLabApiError("Conflict - branch may have been modified", 409);
+      }
+      if (response.status === 400 || response.status === 422) {
+        throw new GitLabApiError(`Validation failed: ${errorBody}`, response.status);
+      }
+
+      throw new GitLabApiError(
+        `GitLab API error: ${response.status} ${response.statusText}`,
+        response.status
+      );
+    }
+
+    // Handle empty responses (204 No Content, HEAD)
+    if (response.status === 204 || method === "HEAD") {
+      return {} as T;
+    }
+
+    return response.json();
+  }
+
+  // ==================== Repository Files API ====================
+
+  /**
+   * Get file content from repository (at ref, or the configured branch)
+   * Returns null if file doesn't exist
+   */
+  async getFileContent(path: string, ref?: string): Promise<GitLabFileContent | null> {
+    try {
+      const response = await this.request<{
+        file_path: string;
+        content: string;
+        encoding: string;
+        blob_id: string;
+        last_commit_id: string;
+      }>(
+        "GET",
+        `/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref || this.config.branch)}`
+      );
+
+      return {
+        path: response.file_path,
+        content:
+          response.encoding === "base64"
+            ? Buffer.from(response.content, "base64").toString("utf-8")
+            : response.content,
+        blobId: response.blob_id,
+        lastCommitId: response.last_commit_id,
+      };
+    } catch (error) {
+      if (error instanceof GitLabApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a file exists on the branch (HEAD request, no content)
+   */
+  async fileExists(path: string): Promise<boolean> {
+    try {
+      await this.request(
+        "HEAD",
+        `/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(this.config.branch)}`
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof GitLabApiError && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the files directly inside a directory
+   * Returns an empty list if the directory doesn't exist
+   */
+  async listDirectory(path: string): Promise<string[]> {
+    const perPage = 100;
+    const files: string[] = [];
+
+    try {
+      for (let page = 1; ; page++) {
+        const entries = await this.request<Array<{ type: string; path: string }>>(
+          "GET",
+          `/repository/tree?path=${encodeURIComponent(path)}&ref=${encodeURIComponent(this.config.branch)}&per_page=${perPage}&page=${page}`
+        );
+        files.push(...entries.filter((entry) => entry.type === "blob").map((entry) => entry.path));
+        if (entries.length < perPage) break;
+      }
+    } catch (error) {
+      if (error instanceof GitLabApiError && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    return files;
+  }
+
+  // ==================== Branches & Merge Requests API ====================
+
+  /**
+   * Create a branch from the head of the configured branch
+   */
+  async createBranch(name: string): Promise<void> {
+    await this.request(
+      "POST",
+      `/repository/branches?branch=${encodeURIComponent(name)}&ref=${encodeURIComponent(this.config.branch)}`
+    );
+  }
+
+  /**
+   * Open a merge request into the configured branch. The source branch is
+   * removed when the merge request is merged.
+   */
+  async createMergeRequest(
+    sourceBranch: string,
+    title: string,
+    description: string
+  ): Promise<GitLabMergeRequest> {
+    return this.request<GitLabMergeRequest>("POST", "/merge_requests", {
+      source_branch: sourceBranch,
+      target_branch: this.config.branch,
+      title,
+      description,
+      remove_source_branch: true,
+    });
+  }
+
+  /**
+   * Get a merge request by iid
+   */
+  async getMergeRequest(iid: string): Promise<GitLabMergeRequest | null> {
+    try {
+      return await this.request<GitLabMergeRequest>("GET", `/merge_requests/${encodeURIComponent(iid)}`);
+    } catch (error) {
+      if (error instanceof GitLabApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // ==================== Commits API ====================
+
+  /**
+   * Create a commit with one or more file actions
+   */
+  async createCommit(
+    actions: GitLabCommitAction[],
+    message: string,
+    author: GitLabAuthor
+  ): Promise<string> {
+    const response = await this.request<{ id: string }>(
+      "POST",
+      "/repository/commits",
+      {
+        branch: this.config.branch,
+        commit_message: message,
+        author_name: author.name,
+        author_email: author.email,
+        actions: actions.map((action) => ({
+          action: action.action,
+          file_path: action.filePath,
+          ...(action.previousPath !== undefined ? { previous_path: action.previousPath } : {}),
+          ...(action.content !== undefined
+            ? { content: Buffer.from(action.content).toString("base64"), encoding: "base64" }
+            : {}),
+        })),
+      }
+    );
+
+    return response.id;
+  }
+
+  /**
+   * Create or update a single file
+   */
+  async createOrUpdateFile(
+    path: string,
+    content: string,
+    message: string,
+    author: GitLabAuthor
+  ): Promise<{ commitSha: string }> {
+    const exists = await this.fileExists(path);
+    const commitSha = await this.createCommit(
+      [{ action: exists ? "update" : "create", filePath: path, content }],
+      message,
+      author
+    );
+
+    return { commitSha };
+  }
+
+  /**
+   * Delete a single file
+   */
+  async deleteFile(
+    path: string,
+    message: string,
+    author: GitLabAuthor
+  ): Promise<{ commitSha: string }> {
+    if (!(await this.fileExists(path))) {
+      throw new GitLabApiError(`File not found: ${path}`, 404);
+    }
+
+    const commitSha = await this.createCommit(
+      [{ action: "delete", filePath: path }],
+      message,
+      author
+    );
+
+    return { commitSha };
+  }
+
+  /**
+   * Commit multiple file changes in a single commit.
+   * A batch that deletes one file and creates another (a rename) is sent as
+   * a move so GitLab records it as one. Deletes of files that are already gone
+   * are dropped. Returns null when nothing is left to commit.
+   */
+  async commitMultipleFiles(
+    changes: Array<{ path: string; content: string | null }>,
+    message: string,
+    author: GitLabAuthor
+  ): Promise<string | null> {
+    const existing = await Promise.all(changes.map((change) => this.fileExists(change.path)));
+
+    const actions: GitLabCommitAction[] = [];
+    changes.forEach((change, index) => {
+      if (change.content === null) {
+        if (existing[index]) {
+          actions.push({ action: "delete", filePath: change.path });
+        }
+        return;
+      }
+      actions.push({
+        action: existing[index] ? "update" : "create",
+        filePath: change.path,
+        content: change.content,
+      });
+    });
+
+    // Collapse delete + create pairs into moves
+    const deletes = actions.filter((action) => action.action === "delete");
+    const creates = actions.filter((action) => action.action === "create");
+    if (deletes.length === 1 && creates.length === 1) {
+      creates[0].action = "move";
+      creates[0].previousPath = deletes[0].filePath;
+      actions.splice(actions.indexOf(deletes[0]), 1);
+    }
+
+    if (actions.length === 0) {
+      return null;
+    }
+
+    return this.createCommit(actions, message, author);
+  }
+
+  /**
+   * Get commit history for a file
+   */
+  async getFileHistory(
+    path: string,
+    limit: number = 10
+  ): Promise<GitLabCommit[]> {
+    const response = await this.request<
+      Array<{
+        id: string;
+        message: string;
+        author_name: string;
+        author_email: string;
+        authored_date: string;
+      }>
+    >(
+      "GET",
+      `/repository/commits?ref_name=${encodeURIComponent(this.config.branch)}&path=${encodeURIComponent(path)}&per_page=${limit}`
+    );
+
+    return response.map((item) => ({
+      sha: item.id,
+      message: item.message,
+      author: {
+        name: item.author_name,
+        email: item.author_email,
+        date: item.authored_date,
+      },
+    }));
+  }
+
+  // ==================== Compare API ====================
+
+  /**
+   * Get diff between two commits
+   */
+  async getCommitDiff(
+    fromSha: string,
+    toSha: string,
+    path?: string
+  ): Promise<string> {
+    const response = await this.request<{
+      diffs: Array<{
+        old_path: string;
+        new_path: string;
+        diff: string;
+      }>;
+    }>(
+      "GET",
+      `/repository/compare?from=${encodeURIComponent(fromSha)}&to=${encodeURIComponent(toSha)}`
+    );
+
+    if (path) {
+      const file = response.diffs.find((d) => d.new_path === path || d.old_path === path);
+      return file?.diff || "";
+    }
+
+    return response.diffs.map((d) => d.diff).join("\n\n");
+  }
+
+  /**
+   * Get current branch name (just returns configured branch)
+   */
+  getCurrentBranch(): string {
+    return this.config.branch;
+  }
+}
+
+/**
+ * Custom error class for GitLab API errors
+ */
+export class GitLabApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "GitLabApiError";
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * GitLab API Provider
+ *
+ * Implements GitProvider interface using the GitLab REST API.
+ * Used for libraries whose repository lives on gitlab.com or a self-hosted
+ * GitLab instance.
+ */
+
+import {
+  GitLabApiClient,
+  GitLabConfig,
+  GitLabApiError,
+  type GitLabMergeRequest,
+} from "./gitlab-api.client";
+import type {
+  PullRequestProvider,
+  GitAuthor,
+  GitCommitInfo,
+  GitCommitResult,
+  FileChange,
+  PullRequestInfo,
+} from "./git-provider.interface";
+import { readProviderEnv } from "./provider-env";
+import { logger } from "../logger";
+
+function toPullRequestInfo(mr: GitLabMergeRequest): PullRequestInfo {
+  return {
+    id: String(mr.iid),
+    url: mr.web_url,
+    state: mr.state === "merged" ? "merged" : mr.state === "closed" ? "closed" : "open",
+    sourceBranch: mr.source_branch,
+    mergeCommitSha: mr.merge_commit_sha || mr.squash_commit_sha || null,
+  };
+}
+
+export class GitLabApiProvider implements PullRequestProvider {
+  readonly providerType = "gitlab-api" as const;
+  private client: GitLabApiClient;
+  private config: GitLabConfig;
+
+  constructor(config: GitLabConfig) {
+    this.config = config;
+    this.client = new GitLabApiClient(config);
+    logger.info("GitLabApiProvider initialized", {
+      baseUrl: config.baseUrl,
+      projectId: config.projectId,
+      branch: config.branch,
+    });
+  }
+
+  async createOrUpdateFile(
+    path: string,
+    content: string,
+    message: string,
+    author: GitAuthor
+  ): Promise<GitCommitResult> {
+    try {
+      const result = await this.client.createOrUpdateFile(path, content, message, author);
+
+      logger.info("File created/updated via GitLab API", {
+        path,
+        commitSha: result.commitSha,
+      });
+
+      return {
+        sha: result.commitSha,
+        branch: this.config.branch,
+      };
+    } catch (error) {
+      logger.error("Failed to create/update file via GitLab API", error, {
+        path,
+      });
+      throw error;
+    }
+  }
+
+  async deleteFile(
+    path: string,
+    message: string,
+    author: GitAuthor
+  ): Promise<GitCommitResult> {
+    try {
+      const result = await this.client.deleteFile(path, message, author);
+
+      logger.info("File deleted via GitLab API", {
+        path,
+        commitSha: result.commitSha,
+      });
+
+      return {
+        sha: result.commitSha,
+        branch: this.config.branch,
+      };
+    } catch (error) {
+      if (error instanceof GitLabApiError && error.status === 404) {
+        logger.warn("File not found for deletion", { path });
+        return { sha: null, branch: this.config.branch };
+      }
+      logger.error("Failed to delete file via GitLab API", error, { path });
+      throw error;
+    }
+  }
+
+  async commitFiles(
+    changes: FileChange[],
+    message: string,
+    author: GitAuthor
+  ): Promise<GitCommitResult> {
+    try {
+      const commitSha = await this.client.commitMultipleFiles(
+        changes.map((c) => ({ path: c.path, content: c.content })),
+        message,
+        author
+      );
+
+      logger.info("Batch commit via GitLab API", {
+        files: changes.length,
+        commitSha,
+      });
+
+      return {
+        sha: commitSha,
+        branch: this.config.branch,
+      };
+    } catch (error) {
+      logger.error("Failed to batch commit via GitLab API", error, {
+        files: changes.map((c) => c.path),
+      });
+      throw error;
+    }
+  }
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    const file = await this.client.getFileContent(path, ref);
+    return file ? file.content : null;
+  }
+
+  async listFiles(directory: string): Promise<string[]> {
+    return this.client.listDirectory(directory);
+  }
+
+  async getFileHistory(path: string, limit: number): Promise<GitCommitInfo[]> {
+    try {
+      const history = await this.client.getFileHistory(path, limit);
+      return history.map((commit) => ({
+        sha: commit.sha,
+        author: commit.author.name,
+        email: commit.author.email,
+        date: commit.author.date,
+        message: commit.message,
+      }));
+    } catch (error) {
+      logger.error("Failed to get file history via GitLab API", error, {
+        path,
+      });
+      return [];
+    }
+  }
+
+  async getFileDiff(
+    path: string,
+    fromCommit: string,
+    toCommit: string
+  ): Promise<string> {
+    try {
+      return await this.client.getCommitDiff(fromCommit, toCommit, path);
+    } catch (error) {
+      logger.error("Failed to get file diff via GitLab API", error, {
+        path,
+        fromCommit,
+        toCommit,
+      });
+      return "";
+    }
+  }
+
+  async isClean(): Promise<boolean> {
+    // GitLab API doesn't have uncommitted changes - always "clean"
+    return true;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async isPathClean(_pathspec: string): Promise<boolean> {
+    return true;
+  }
+
+  async getCurrentBranch(): Promise<string> {
+    return this.client.getCurrentBranch();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async pushToRemote(_remote?: string, _branch?: string): Promise<void> {
+    // No-op for GitLab API - commits are created on the remote branch
+    logger.debug("pushToRemote called on GitLab API provider (no-op)");
+  }
+
+  async createBranch(name: string): Promise<void> {
+    await this.client.createBranch(name);
+    logger.info("Branch created via GitLab API", { branch: name, from: this.config.branch });
+  }
+
+  forBranch(name: string): GitLabApiProvider {
+    return new GitLabApiProvider({ ...this.config, branch: name });
+  }
+
+  async openPullRequest(sourceBranch: string, title: string, description: string): Promise<PullRequestInfo> {
+    const mr = await this.client.createMergeRequest(sourceBranch, title, description);
+    logger.info("Merge request opened via GitLab API", { iid: mr.iid, sourceBranch });
+    return toPullRequestInfo(mr);
+  }
+
+  async getPullRequest(id: string): Promise<PullRequestInfo | null> {
+    const mr = await this.client.getMergeRequest(id);
+    return mr ? toPullRequestInfo(mr) : null;
+  }
+}
+
+/**
+ * Check if GitLab API config is available
+ */
+export function hasGitLabConfig(scope?: string): boolean {
+  return !!(readProviderEnv("GITLAB_TOKEN", scope) && readProviderEnv("GITLAB_PROJECT", scope));
+}
+
+/**
+ * Create GitLabApiProvider from environment variables.
+ * With a scope (library id), GITLAB_*_<SCOPE> variables take precedence.
+ */
+export function createGitLabApiProviderFromEnv(scope?: string): GitLabApiProvider {
+  const baseUrl = readProviderEnv("GITLAB_URL", scope) || "https://gitlab.com";
+  const projectId = readProviderEnv("GITLAB_PROJECT", scope);
+  const branch = readProviderEnv("GITLAB_BRANCH", scope) || "main";
+  const token = readProviderEnv("GITLAB_TOKEN", scope);
+
+  if (!projectId || !token) {
+    throw new Error(
+      "Missing required GitLab config. Set GITLAB_PROJECT and GITLAB_TOKEN environment variables (and GITLAB_URL for self-hosted instances)."
+    );
+  }
+
+  return new GitLabApiProvider({ baseUrl, projectId, branch, token });
+}
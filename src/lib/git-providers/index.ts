@@ -4,29 +4,77 @@
  * Automatically selects the appropriate git provider based on environment:
  * - LocalGitProvider for local development (shell git commands)
  * - GitHubApiProvider for AWS deployment (GitHub REST API)
+ * - GitLabApiProvider / BitbucketServerProvider when GIT_PROVIDER selects them
  * - NoOpProvider when git sync is disabled
  *
+ * Each library can use its own provider and repository: GIT_PROVIDER_<LIBRARY>
+ * picks the provider (e.g. GIT_PROVIDER_KNOWLEDGE=gitlab-api), and provider
+ * settings accept the same suffix (GITLAB_PROJECT_KNOWLEDGE). Libraries
+ * without overrides use the global settings. See getGitProviderForLibrary.
+ *
  * Git sync is DISABLED by default in local development.
  * Set GIT_SYNC_ENABLED=true to enable it locally for testing.
  * On AWS, git sync is enabled by default when GitHub config is present.
  */
 
-import type { GitProvider, GitCommitResult } from "./git-provider.interface";
+import type {
+  GitProvider,
+  GitProviderType,
+  GitCommitResult,
+  PullRequestProvider,
+} from "./git-provider.interface";
 import { getLocalGitProvider } from "./local-git.provider";
 import { createGitHubApiProviderFromEnv } from "./github-api.provider";
+import { createGitLabApiProviderFromEnv, hasGitLabConfig } from "./gitlab-api.provider";
+import { createBitbucketServerProviderFromEnv, hasBitbucketServerConfig } from "./bitbucket-server.provider";
+import { readProviderEnv } from "./provider-env";
 import { logger } from "../logger";
 
-export type { GitProvider, GitAuthor, GitCommitInfo, GitCommitResult, FileChange } from "./git-provider.interface";
+export type {
+  GitProvider,
+  GitProviderType,
+  GitAuthor,
+  GitCommitInfo,
+  GitCommitResult,
+  FileChange,
+  PullRequestInfo,
+  PullRequestProvider,
+} from "./git-provider.interface";
+export { readProviderEnv } from "./provider-env";
 export { LocalGitProvider, getLocalGitProvider } from "./local-git.provider";
 export { GitHubApiProvider, createGitHubApiProviderFromEnv } from "./github-api.provider";
 export { GitHubApiClient, GitHubApiError } from "./github-api.client";
+export { GitLabApiProvider, createGitLabApiProviderFromEnv } from "./gitlab-api.provider";
+export { GitLabApiClient, GitLabApiError } from "./gitlab-api.client";
+export { BitbucketServerProvider, createBitbucketServerProviderFromEnv } from "./bitbucket-server.provider";
+export { BitbucketServerClient, BitbucketServerApiError } from "./bitbucket-server.client";
+
+/**
+ * Providers that talk to a hosted repository over HTTP. They take file
+ * content directly and have no working tree on disk.
+ */
+const API_PROVIDER_TYPES: GitProviderType[] = ["github-api", "gitlab-api", "bitbucket-server"];
+
+/**
+ * Check if a provider commits through a hosting API rather than a local repo
+ */
+export function isApiProvider(provider: GitProvider): boolean {
+  return API_PROVIDER_TYPES.includes(provider.providerType);
+}
+
+/**
+ * Check if a provider can open pull requests (all API providers can)
+ */
+export function supportsPullRequests(provider: GitProvider): provider is PullRequestProvider {
+  return isApiProvider(provider) && "openPullRequest" in provider;
+}
 
 /**
  * Error thrown when git sync is disabled but an operation is attempted
  */
 export class GitSyncDisabledError extends Error {
   constructor() {
-    super("Git sync is disabled. Set GIT_SYNC_ENABLED=true or configure GitHub credentials on AWS.");
+    super("Git sync is disabled. Set GIT_SYNC_ENABLED=true or configure repository credentials on AWS.");
     this.name = "GitSyncDisabledError";
   }
 }
@@ -54,6 +102,10 @@ class NoOpGitProvider implements GitProvider {
     return null;
   }
 
+  async listFiles(): Promise<string[]> {
+    return [];
+  }
+
   async getFileHistory(): Promise<[]> {
     return [];
   }
@@ -103,14 +155,25 @@ function isAWSEnvironment(): boolean {
 /**
  * Check if GitHub API config is available
  */
-function hasGitHubConfig(): boolean {
+function hasGitHubConfig(scope?: string): boolean {
   return !!(
-    process.env.GITHUB_TOKEN &&
-    process.env.GITHUB_REPO_OWNER &&
-    process.env.GITHUB_REPO_NAME
+    readProviderEnv("GITHUB_TOKEN", scope) &&
+    readProviderEnv("GITHUB_REPO_OWNER", scope) &&
+    readProviderEnv("GITHUB_REPO_NAME", scope)
   );
 }
 
+/**
+ * Check if any hosted repository config is available
+ */
+function hasRemoteConfig(): boolean {
+  return hasGitHubConfig() || hasGitLabConfig() || hasBitbucketServerConfig();
+}
+
+function isExplicitProviderType(value: string | undefined): value is Exclude<GitProviderType, "noop"> {
+  return value === "local" || (API_PROVIDER_TYPES as string[]).includes(value ?? "");
+}
+
 /**
  * Check if git sync is enabled
  * - Explicitly enabled: GIT_SYNC_ENABLED=true
@@ -122,38 +185,50 @@ function isGitSyncEnabled(): boolean {
   if (explicit === "true") return true;
   if (explicit === "false") return false;
 
-  // Default: only enabled in AWS environment with GitHub config
-  return isAWSEnvironment() && hasGitHubConfig();
+  // Default: only enabled in AWS environment with repository config
+  return isAWSEnvironment() && hasRemoteConfig();
 }
 
 /**
- * Determine which provider to use
+ * Determine which provider to use, optionally for one library
  */
-function determineProvider(): "local" | "github-api" | "noop" {
+function determineProvider(libraryId?: string): GitProviderType {
   // 0. Check if git sync is disabled
   if (!isGitSyncEnabled()) {
     logger.info("Git sync disabled (set GIT_SYNC_ENABLED=true to enable)");
     return "noop";
   }
 
-  // 1. Explicit override
-  const explicit = process.env.GIT_PROVIDER;
-  if (explicit === "github-api" || explicit === "local") {
-    logger.info(`Git provider explicitly set to: ${explicit}`);
+  // 1. Explicit override (per library first, then global)
+  const explicit = readProviderEnv("GIT_PROVIDER", libraryId);
+  if (isExplicitProviderType(explicit)) {
+    logger.info(`Git provider explicitly set to: ${explicit}`, { libraryId });
     return explicit;
   }
+  if (explicit) {
+    logger.warn(`Unknown GIT_PROVIDER value "${explicit}", auto-detecting`, { libraryId });
+  }
 
   // 2. Auto-detect based on environment
   const isAWS = isAWSEnvironment();
-  const hasGitHub = hasGitHubConfig();
 
-  if (isAWS && hasGitHub) {
+  if (isAWS && hasGitHubConfig(libraryId)) {
     logger.info("Auto-detected AWS environment with GitHub config, using github-api provider");
     return "github-api";
   }
 
-  if (isAWS && !hasGitHub) {
-    logger.warn("AWS environment detected but no GitHub config available. Git sync will fail.");
+  if (isAWS && hasGitLabConfig(libraryId)) {
+    logger.info("Auto-detected AWS environment with GitLab config, using gitlab-api provider");
+    return "gitlab-api";
+  }
+
+  if (isAWS && hasBitbucketServerConfig(libraryId)) {
+    logger.info("Auto-detected AWS environment with Bitbucket Server config, using bitbucket-server provider");
+    return "bitbucket-server";
+  }
+
+  if (isAWS) {
+    logger.warn("AWS environment detected but no repository config available. Git sync will fail.");
     // Still return local, but it will fail - better to have clear errors
     return "local";
   }
@@ -163,9 +238,39 @@ function determineProvider(): "local" | "github-api" | "noop" {
   return "local";
 }
 
+/**
+ * Create a provider of the given type. API providers read their config with
+ * the library id as scope; a provider that cannot be configured falls back
+ * to noop so operations fail loudly instead of silently.
+ */
+function createProvider(targetType: GitProviderType, libraryId?: string): GitProvider {
+  if (targetType === "noop") {
+    return getNoOpProvider();
+  }
+  if (targetType === "local") {
+    return getLocalGitProvider();
+  }
+
+  try {
+    if (targetType === "gitlab-api") {
+      return createGitLabApiProviderFromEnv(libraryId);
+    }
+    if (targetType === "bitbucket-server") {
+      return createBitbucketServerProviderFromEnv(libraryId);
+    }
+    return createGitHubApiProviderFromEnv(libraryId);
+  } catch (error) {
+    logger.error(`Failed to create ${targetType} provider, falling back to noop`, error, { libraryId });
+    return getNoOpProvider();
+  }
+}
+
 // Singleton provider instance
 let cachedProvider: GitProvider | null = null;
-let cachedProviderType: "local" | "github-api" | "noop" | null = null;
+let cachedProviderType: GitProviderType | null = null;
+
+// Per-library provider instances
+const libraryProviders = new Map<string, { type: GitProviderType; provider: GitProvider }>();
 
 /**
  * Get the git provider instance
@@ -179,40 +284,44 @@ export function getGitProvider(): GitProvider {
     return cachedProvider;
   }
 
-  // Create new provider
-  if (targetType === "noop") {
-    cachedProvider = getNoOpProvider();
-    cachedProviderType = "noop";
-  } else if (targetType === "github-api") {
-    try {
-      cachedProvider = createGitHubApiProviderFromEnv();
-      cachedProviderType = "github-api";
-    } catch (error) {
-      logger.error("Failed to create GitHub API provider, falling back to noop", error);
-      cachedProvider = getNoOpProvider();
-      cachedProviderType = "noop";
-    }
-  } else {
-    cachedProvider = getLocalGitProvider();
-    cachedProviderType = "local";
-  }
+  cachedProvider = createProvider(targetType);
+  cachedProviderType = targetType;
 
   return cachedProvider;
 }
 
 /**
- * Reset the cached provider (useful for testing)
+ * Get the git provider for a library, honouring GIT_PROVIDER_<LIBRARY> and
+ * library-scoped provider settings. Cached per library.
+ */
+export function getGitProviderForLibrary(libraryId: string): GitProvider {
+  const targetType = determineProvider(libraryId);
+
+  const cached = libraryProviders.get(libraryId);
+  if (cached && cached.type === targetType) {
+    return cached.provider;
+  }
+
+  const provider = createProvider(targetType, libraryId);
+  libraryProviders.set(libraryId, { type: targetType, provider });
+
+  return provider;
+}
+
+/**
+ * Reset the cached providers (useful for testing)
  */
 export function resetGitProvider(): void {
   cachedProvider = null;
   cachedProviderType = null;
+  libraryProviders.clear();
 }
 
 /**
  * Get current provider type without creating instance
  */
-export function getGitProviderType(): "local" | "github-api" | "noop" {
-  return determineProvider();
+export function getGitProviderType(libraryId?: string): GitProviderType {
+  return determineProvider(libraryId);
 }
 
 /**
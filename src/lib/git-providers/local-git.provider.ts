@@ -20,6 +20,7 @@ import {
   commitStagedChangesIfAny,
   getFileHistory as getGitFileHistory,
   getFileDiff as getGitFileDiff,
+  getFileAtRef,
   isRepoClean,
   isPathClean as checkPathClean,
   getCurrentBranch as getGitCurrentBranch,
@@ -151,7 +152,10 @@ export class LocalGitProvider implements GitProvider {
     }
   }
 
-  async getFileContent(filePath: string): Promise<string | null> {
+  async getFileContent(filePath: string, ref?: string): Promise<string | null> {
+    if (ref) {
+      return getFileAtRef(filePath, ref);
+    }
     try {
       const content = await fs.readFile(filePath, "utf-8");
       return content;
@@ -160,6 +164,17 @@ export class LocalGitProvider implements GitProvider {
     }
   }
 
+  async listFiles(directory: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(directory, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isFile())
+        .map((entry) => path.posix.join(directory, entry.name));
+    } catch {
+      return [];
+    }
+  }
+
   async getFileHistory(filePath: string, limit: number): Promise<GitCommitInfo[]> {
     try {
       return await getGitFileHistory(filePath, limit);
@@ -0,0 +1,25 @@
+/**
+ * Provider Environment
+ *
+ * Reads git provider settings with optional per-library overrides. A setting
+ * such as GITLAB_PROJECT can be overridden for one library by suffixing the
+ * library id: GITLAB_PROJECT_KNOWLEDGE, GIT_PROVIDER_CUSTOMERS, etc.
+ */
+
+/**
+ * Env var name with a scope suffix (e.g. "GITLAB_TOKEN", "it" -> "GITLAB_TOKEN_IT")
+ */
+export function scopedEnvName(name: string, scope: string): string {
+  return `${name}_${scope.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+/**
+ * Read a setting, preferring the scoped override when a scope is given
+ */
+export function readProviderEnv(name: string, scope?: string): string | undefined {
+  if (scope) {
+    const scoped = process.env[scopedEnvName(name, scope)];
+    if (scoped) return scoped;
+  }
+  return process.env[name] || undefined;
+}
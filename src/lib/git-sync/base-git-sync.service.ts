@@ -7,13 +7,14 @@
  *
  * Supports two modes:
  * - Local: Uses shell git commands (development)
- * - GitHub API: Uses GitHub REST API (AWS deployment)
+ * - API: Uses the GitHub, GitLab or Bitbucket Server REST API (AWS deployment)
  *
  * The provider is automatically selected based on environment.
  */
 
 import {
   getGitProvider,
+  isApiProvider,
   type GitProvider,
   type GitAuthor,
   type GitCommitInfo,
@@ -64,7 +65,7 @@ export abstract class BaseGitSyncService<T> {
 
   /**
    * Serialize the entity to file content (markdown with frontmatter, JSON, etc.)
-   * This is used by the GitHub API provider to get the file content.
+   * This is used by API providers to get the file content.
    * @param entity - The entity data
    * @returns Serialized file content as string
    */
@@ -115,8 +116,8 @@ export abstract class BaseGitSyncService<T> {
   ): Promise<string | null> {
     const filepath = this.getFilePath(slug);
 
-    if (this.provider.providerType === "github-api") {
-      // GitHub API: serialize and send directly
+    if (isApiProvider(this.provider)) {
+      // API provider: serialize and send directly
       const content = this.serializeEntity(entity);
       const result = await this.provider.createOrUpdateFile(
         filepath,
@@ -157,8 +158,8 @@ export abstract class BaseGitSyncService<T> {
     const oldPath = this.getFilePath(oldSlug);
     const newPath = this.getFilePath(newSlug);
 
-    if (this.provider.providerType === "github-api") {
-      // GitHub API: handle rename with batch commit
+    if (isApiProvider(this.provider)) {
+      // API provider: handle rename with batch commit
       const content = this.serializeEntity(entity);
 
       if (oldSlug !== newSlug) {
@@ -226,8 +227,8 @@ export abstract class BaseGitSyncService<T> {
   ): Promise<string | null> {
     const filepath = this.getFilePath(slug);
 
-    if (this.provider.providerType === "github-api") {
-      // GitHub API: delete via API
+    if (isApiProvider(this.provider)) {
+      // API provider: delete via API
       const result = await this.provider.deleteFile(
         filepath,
         commitMessage,
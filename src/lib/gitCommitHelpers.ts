@@ -112,6 +112,23 @@ export async function getFileDiff(
   }
 }
 
+/**
+ * File content at a commit or branch; null if the file doesn't exist there
+ */
+export async function getFileAtRef(
+  filepath: string,
+  ref: string
+): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync(`git show "${ref}:${filepath}"`, {
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
 export async function isRepoClean(): Promise<boolean> {
   try {
     await execAsync("git diff --quiet && git diff --staged --quiet");
@@ -8,7 +8,7 @@
  * - UI customizations per library
  */
 
-import type { LibraryId } from '@/types/v2/building-block';
+import { LIBRARY_BLOCK_TYPE, type LibraryId } from '@/types/v2/building-block';
 import { SOURCE_TYPES } from '@/types/v2/staged-source';
 
 export type SourceType = (typeof SOURCE_TYPES)[number];
@@ -86,6 +86,8 @@ const sourceTypeLabels: Record<SourceType, { label: string; color: string }> = {
   url: { label: 'URL', color: 'bg-green-100 text-green-700' },
   document: { label: 'Document', color: 'bg-yellow-100 text-yellow-700' },
   looker: { label: 'Looker', color: 'bg-indigo-100 text-indigo-700' },
+  confluence: { label: 'Confluence', color: 'bg-sky-100 text-sky-700' },
+  gdrive: { label: 'Google Drive', color: 'bg-emerald-100 text-emerald-700' },
 };
 
 const libraryConfigs: Record<LibraryId, LibraryConfig> = {
@@ -543,6 +545,31 @@ const libraryConfigs: Record<LibraryId, LibraryConfig> = {
     mainContentHeading: 'View Definition',
     sourceTabs: [],
   },
+  playbooks: {
+    id: 'playbooks',
+    name: 'Contract Playbooks',
+    description: 'Negotiation positions and fallbacks for contract review',
+    sourceTypes: [],
+    sourceTypeLabel: 'Sources',
+    generatingLabel: 'Creating playbook',
+    pluralName: 'playbooks',
+    itemName: 'Playbook',
+    singularName: 'playbook',
+    addButtonLabel: 'Add Playbook',
+    emptyStateTitle: 'No playbooks found',
+    emptyStateMessage: 'Add your first contract playbook to get started.',
+    metadataFields: ['contractType'],
+    accentColor: 'amber',
+    basePath: '/v2/contracts',
+    initialTab: 'items',
+    showBotTab: false,
+    showQATab: false,
+    iconId: 'scale',
+    iconBgColor: 'bg-amber-100',
+    backLabel: 'Back to Contracts',
+    mainContentHeading: 'Playbook',
+    sourceTabs: [],
+  },
 };
 
 /**
@@ -615,7 +642,7 @@ export function getLibraryOptionsForDropdown(): Array<{ id: LibraryId; label: st
   return Object.values(libraryConfigs).map((config) => ({
     id: config.id,
     label: config.name,
-    blockType: config.id === 'personas' ? 'persona' : config.id === 'templates' ? 'template' : 'knowledge',
+    blockType: LIBRARY_BLOCK_TYPE[config.id],
   }));
 }
 
@@ -647,6 +674,7 @@ export function getIconColorClass(iconId: string): string {
     zap: 'text-purple-600',
     'file-text': 'text-green-600',
     eye: 'text-purple-600',
+    scale: 'text-amber-600',
   };
   return iconColorMap[iconId] || 'text-gray-600';
 }
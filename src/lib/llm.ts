@@ -1,11 +1,19 @@
-import { CLAUDE_MODEL, getModel, LLM_PARAMS, getMaxTokensForSpeed, type ModelSpeed } from "./config";
-import { buildCacheableSystem } from "./anthropicCache";
+import { CLAUDE_MODEL, LLM_PARAMS, getMaxTokensForSpeed, type ModelSpeed } from "./config";
 import { startTrace, recordTrace, type EntityLink } from "./tracing";
 import { circuitBreakers } from "./circuitBreaker";
 import { getAnthropicClient } from "./apiHelpers";
 import { assembleSystemPrompt } from "./llm/registry";
 // Note: Usage is tracked via recordTrace() - no separate logUsage() needed
 import { estimateTokens, MODEL_LIMITS, MAX_FILE_CONTEXT_TOKENS } from "./tokenUtils";
+import { checkTokenBudget, recordTeamTokenUsage } from "./v2/teams/token-budget-service";
+import {
+  anthropicProvider,
+  resolveLLMProvider,
+  type LLMCompletionRequest,
+  type LLMCompletionResult,
+  type LLMProvider,
+  type LLMStreamOptions,
+} from "./llm/providers";
 
 // Re-export ModelSpeed for consumers
 export type { ModelSpeed } from "./config";
@@ -105,6 +113,8 @@ export type AnswerResult = {
   usedFallback: boolean;
   usage?: UsageInfo;
   traceId?: string; // For feedback correlation
+  /** Streaming only: the client disconnected and `answer` is the partial text */
+  aborted?: boolean;
 };
 
 export type FallbackContent = {
@@ -116,8 +126,12 @@ export type FallbackContent = {
 export type TracingOptions = {
   userId?: string;
   userEmail?: string;
+  /** Team charged for the call; defaults to the user's team */
+  teamId?: string;
   entityLink?: EntityLink;
   parentTraceId?: string;
+  /** A/B prompt variants served for this call, recorded on the trace */
+  promptVariants?: Record<string, string>;
 };
 
 export async function answerQuestionWithPrompt(
@@ -127,14 +141,14 @@ export async function answerQuestionWithPrompt(
   fallbackContent?: FallbackContent[],
   modelSpeed: ModelSpeed = "quality",
   tracingOptions?: TracingOptions,
+  provider: LLMProvider = anthropicProvider,
+  stream?: LLMStreamOptions,
 ): Promise<AnswerResult> {
   const trimmedQuestion = question?.trim();
   if (!trimmedQuestion) {
     throw new Error("A question is required to generate a response.");
   }
 
-  const anthropic = await getAnthropicClient();
-
   // Build skills context if provided
   let skillsContext = "";
   const hasSkills = skills && skills.length > 0;
@@ -190,7 +204,7 @@ export async function answerQuestionWithPrompt(
     }
   }
 
-  const model = getModel(modelSpeed);
+  const model = provider.getModel(modelSpeed);
 
   // Build cacheable content: combine base prompt with stable context (skills, fallback)
   // This allows caching of the expensive context across multiple calls
@@ -199,61 +213,63 @@ export async function answerQuestionWithPrompt(
   // Only the question is dynamic (per-request)
   const userMessage = trimmedQuestion;
 
-  // Build cacheable system prompt (caches stable content: base prompt + skills + fallback)
-  const systemContent = buildCacheableSystem({
-    cachedContent,
-    model,
-  });
-
   // Set up tracing context
   const traceContext = startTrace("answer_question", "questions", {
     parentTraceId: tracingOptions?.parentTraceId,
     userId: tracingOptions?.userId,
     userEmail: tracingOptions?.userEmail,
+    teamId: tracingOptions?.teamId,
   });
 
   const startTime = Date.now();
 
+  // Text received so far, kept so an aborted stream can still be traced
+  let streamedText = "";
+
   try {
-    const response = await circuitBreakers.anthropic.execute(() =>
-      anthropic.messages.create({
-        model,
-        max_tokens: getMaxTokensForSpeed(modelSpeed),
-        temperature: LLM_PARAMS.temperature.balanced,
-        system: systemContent,
-        messages: [
-          {
-            role: "user",
-            content: userMessage,
+    // Provider caches the stable content (base prompt + skills + fallback) where supported
+    const request: LLMCompletionRequest = {
+      model,
+      system: cachedContent,
+      userMessage,
+      maxTokens: getMaxTokensForSpeed(modelSpeed),
+      temperature: LLM_PARAMS.temperature.balanced,
+    };
+    const completion: LLMCompletionResult = stream
+      ? await provider.stream(request, {
+          signal: stream.signal,
+          onText: (delta) => {
+            streamedText += delta;
+            stream.onText(delta);
           },
-        ],
-      })
-    );
+        })
+      : await provider.complete(request);
 
     const latencyMs = Date.now() - startTime;
 
-    const content = response.content[0];
-    if (content.type !== "text" || !content.text?.trim()) {
+    if (!completion.text?.trim()) {
       throw new Error("The assistant returned an empty response.");
     }
 
-    const answerText = content.text.trim();
+    const answerText = completion.text.trim();
 
     // Record trace (also tracks usage for dashboard)
     const traceId = await recordTrace(
       traceContext,
       {
         model,
+        provider: provider.id,
         systemPrompt: promptText,
         userMessage,
         skills: skills?.map((s) => ({ id: s.id || "", title: s.title })),
+        promptVariants: tracingOptions?.promptVariants,
       },
       {
         response: answerText,
-        inputTokens: response.usage?.input_tokens || 0,
-        outputTokens: response.usage?.output_tokens || 0,
-        cacheCreationTokens: response.usage?.cache_creation_input_tokens ?? undefined,
-        cacheReadTokens: response.usage?.cache_read_input_tokens ?? undefined,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens,
+        cacheCreationTokens: completion.cacheCreationTokens,
+        cacheReadTokens: completion.cacheReadTokens,
       },
       latencyMs,
       tracingOptions?.entityLink
@@ -271,15 +287,48 @@ export async function answerQuestionWithPrompt(
       conversationHistory,
       usedFallback: usedFallback || false,
       usage: {
-        inputTokens: response.usage?.input_tokens || 0,
-        outputTokens: response.usage?.output_tokens || 0,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens,
         model,
-        cacheCreationTokens: response.usage?.cache_creation_input_tokens ?? undefined,
-        cacheReadTokens: response.usage?.cache_read_input_tokens ?? undefined,
+        cacheCreationTokens: completion.cacheCreationTokens,
+        cacheReadTokens: completion.cacheReadTokens,
       },
       traceId,
     };
   } catch (error) {
+    if (stream?.signal?.aborted) {
+      // Client disconnected mid-stream: keep what was generated, with estimated usage
+      const inputTokens = estimateTokens(cachedContent + userMessage);
+      const outputTokens = estimateTokens(streamedText);
+      const traceId = await recordTrace(
+        traceContext,
+        {
+          model,
+          provider: provider.id,
+          systemPrompt: promptText,
+          userMessage,
+          promptVariants: tracingOptions?.promptVariants,
+        },
+        { response: streamedText, inputTokens, outputTokens },
+        Date.now() - startTime,
+        tracingOptions?.entityLink,
+        "ERROR",
+        "Client aborted stream"
+      );
+
+      return {
+        answer: streamedText,
+        conversationHistory: [
+          { role: "system", content: promptText },
+          { role: "user", content: userMessage },
+          { role: "assistant", content: streamedText },
+        ],
+        usedFallback: usedFallback || false,
+        usage: { inputTokens, outputTokens, model },
+        traceId,
+        aborted: true,
+      };
+    }
     if (error instanceof Error) {
       throw new Error(`Failed to generate response: ${error.message}`);
     }
@@ -302,6 +351,8 @@ export type BatchAnswerResult = {
   answers: BatchAnswerItem[];
   usedFallback: boolean;
   usage?: UsageInfo;
+  /** blockId -> A/B variant id served by a running prompt experiment */
+  promptVariants: Record<string, string>;
 };
 
 /**
@@ -313,6 +364,7 @@ export type BatchAnswerResult = {
  *
  * @param compositionId - Which prompt composition to use (e.g., "rfp_batch")
  * @param modelSpeed - "fast" for Haiku (2-5s), "quality" for Sonnet (10-30s)
+ * @param tracingOptions - Who the batch runs for; charged against their team's token budget
  */
 export async function answerQuestionsBatch(
   questions: { index: number; question: string }[],
@@ -321,15 +373,14 @@ export async function answerQuestionsBatch(
   fallbackContent?: FallbackContent[],
   modelSpeed: ModelSpeed = "quality",
   fileContext?: string,
+  tracingOptions?: TracingOptions,
 ): Promise<BatchAnswerResult> {
   if (!questions || questions.length === 0) {
     throw new Error("At least one question is required.");
   }
 
   // Fetch prompt from registry (will throw if compositionId is invalid)
-  const { prompt: promptText } = await assembleSystemPrompt(compositionId);
-
-  const anthropic = await getAnthropicClient();
+  const { prompt: promptText, promptVariants } = await assembleSystemPrompt(compositionId);
 
   // Cap file context to prevent blowing the token budget
   let cappedFileContext = fileContext;
@@ -439,8 +490,6 @@ export async function answerQuestionsBatch(
   const contextParts = [fileContextSection, skillsContext || fallbackContext].filter(Boolean);
   const contextPrefix = contextParts.length > 0 ? contextParts.join("") : "";
 
-  const model = getModel(modelSpeed);
-
   // Build cacheable content: combine base prompt with stable context (skills, file context)
   // This allows all subsequent batches to reuse the cached content (90% savings on input tokens)
   const cachedContent = promptText + contextPrefix;
@@ -461,40 +510,43 @@ export async function answerQuestionsBatch(
     );
   }
 
-  // Build cacheable system prompt (caches stable content: base prompt + skills + file context)
-  // Subsequent batches read from cache for 90% input token savings
-  const systemContent = buildCacheableSystem({
-    cachedContent,
-    model,
+  const budget = await checkTokenBudget(
+    { teamId: tracingOptions?.teamId, userId: tracingOptions?.userId },
+    totalInputTokens + getMaxTokensForSpeed(modelSpeed)
+  );
+
+  const provider = await resolveLLMProvider({
+    compositionId,
+    teamId: budget?.teamId ?? tracingOptions?.teamId,
   });
+  const model = provider.getModel(modelSpeed);
 
-  const traceContext = startTrace("answer_questions_batch", "questions");
+  const traceContext = startTrace("answer_questions_batch", "questions", {
+    parentTraceId: tracingOptions?.parentTraceId,
+    userId: tracingOptions?.userId,
+    userEmail: tracingOptions?.userEmail,
+    teamId: budget?.teamId,
+  });
   const startTime = Date.now();
 
   try {
-    const response = await circuitBreakers.anthropic.execute(() =>
-      anthropic.messages.create({
-        model,
-        max_tokens: getMaxTokensForSpeed(modelSpeed),
-        temperature: LLM_PARAMS.temperature.balanced,
-        system: systemContent,
-        messages: [
-          {
-            role: "user",
-            content: userMessage,
-          },
-        ],
-      })
-    );
+    // Provider caches the stable content (base prompt + skills + file context) where
+    // supported, so subsequent batches get ~90% input token savings
+    const completion = await provider.complete({
+      model,
+      system: cachedContent,
+      userMessage,
+      maxTokens: getMaxTokensForSpeed(modelSpeed),
+      temperature: LLM_PARAMS.temperature.balanced,
+    });
 
     const latencyMs = Date.now() - startTime;
 
-    const content = response.content[0];
-    if (content.type !== "text" || !content.text?.trim()) {
+    if (!completion.text?.trim()) {
       throw new Error("The assistant returned an empty response.");
     }
 
-    const responseText = content.text.trim();
+    const responseText = completion.text.trim();
 
     // Parse the JSON array response
     const parsed = parseJsonContent(responseText);
@@ -521,26 +573,41 @@ export async function answerQuestionsBatch(
 
     await recordTrace(
       traceContext,
-      { model, systemPrompt: promptText, userMessage },
+      {
+        model,
+        provider: provider.id,
+        systemPrompt: promptText,
+        userMessage,
+        promptVariants,
+      },
       {
         response: responseText,
-        inputTokens: response.usage?.input_tokens || 0,
-        outputTokens: response.usage?.output_tokens || 0,
-        cacheCreationTokens: response.usage?.cache_creation_input_tokens ?? undefined,
-        cacheReadTokens: response.usage?.cache_read_input_tokens ?? undefined,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens,
+        cacheCreationTokens: completion.cacheCreationTokens,
+        cacheReadTokens: completion.cacheReadTokens,
       },
-      latencyMs
+      latencyMs,
+      tracingOptions?.entityLink
     );
 
+    if (budget) {
+      await recordTeamTokenUsage(
+        budget.teamId,
+        completion.inputTokens + completion.outputTokens
+      );
+    }
+
     return {
       answers,
       usedFallback: usedFallback || false,
+      promptVariants,
       usage: {
-        inputTokens: response.usage?.input_tokens || 0,
-        outputTokens: response.usage?.output_tokens || 0,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens,
         model,
-        cacheCreationTokens: response.usage?.cache_creation_input_tokens ?? undefined,
-        cacheReadTokens: response.usage?.cache_read_input_tokens ?? undefined,
+        cacheCreationTokens: completion.cacheCreationTokens,
+        cacheReadTokens: completion.cacheReadTokens,
       },
     };
   } catch (error) {
@@ -0,0 +1,454 @@
+/**
+ * LLM Providers
+ *
+ * Pluggable completion backends behind the LLM registry:
+ *
+ * - anthropic: Anthropic API (default). Supports prompt caching.
+ * - bedrock: Claude on Amazon Bedrock via the Converse API, authenticated
+ *   with a Bedrock API key (AWS_BEARER_TOKEN_BEDROCK, AWS_REGION).
+ * - openai: Any OpenAI-compatible `/chat/completions` endpoint
+ *   (OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL, OPENAI_MODEL_FAST).
+ * - local: A local Ollama or llama.cpp server through its OpenAI-compatible
+ *   API (LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL, LOCAL_LLM_MODEL_FAST).
+ * - mock: Deterministic, offline responses for tests and air-gapped demos.
+ *
+ * Every provider can stream; bedrock emits its answer as a single chunk.
+ *
+ * Routing, first match wins:
+ * 1. Team.settings.llmProvider.compositions[compositionId]
+ * 2. Team.settings.llmProvider.default
+ * 3. LLM_COMPOSITION_PROVIDERS env, e.g. "rfp_batch=local,chat_response=bedrock"
+ * 4. LLM_PROVIDER env
+ * 5. anthropic
+ */
+
+import { createHash } from "crypto";
+import { getModel, type ModelSpeed } from "@/lib/config";
+import { buildCacheableSystem } from "@/lib/anthropicCache";
+import { CircuitBreaker, circuitBreakers } from "@/lib/circuitBreaker";
+import { getAnthropicClient } from "@/lib/apiHelpers";
+import { getSecret } from "@/lib/secrets";
+import { estimateTokens } from "@/lib/tokenUtils";
+import { readSSEStream } from "@/lib/sse";
+import { logger } from "@/lib/logger";
+import prisma from "@/lib/prisma";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const LLM_PROVIDER_IDS = ["anthropic", "bedrock", "openai", "local", "mock"] as const;
+
+export type LLMProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+export interface LLMCompletionRequest {
+  model: string;
+  /** Stable system prompt (base prompt + skills/context); cached where the provider supports it */
+  system: string;
+  userMessage: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMCompletionResult {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+}
+
+export interface LLMStreamOptions {
+  onText: (delta: string) => void;
+  /** Aborting rejects the stream; callers keep the text received so far */
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  /** Model to use for a speed tier - model names are provider-specific */
+  getModel(speed: ModelSpeed): string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  /** Like complete(), calling onText with each text delta as it arrives */
+  stream(request: LLMCompletionRequest, options: LLMStreamOptions): Promise<LLMCompletionResult>;
+}
+
+/** Stored in Team.settings.llmProvider */
+export interface TeamLLMProviderSettings {
+  default?: LLMProviderId;
+  compositions?: Record<string, LLMProviderId>;
+}
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === "string" && (LLM_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+function newProviderBreaker(name: string): CircuitBreaker {
+  return new CircuitBreaker({
+    name,
+    failureThreshold: 5,
+    failureWindow: 60000,
+    recoveryTimeout: 30000,
+    timeout: 300000,
+  });
+}
+
+// =============================================================================
+// ANTHROPIC
+// =============================================================================
+
+export const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  getModel,
+  async complete(request) {
+    const anthropic = await getAnthropicClient();
+    const response = await circuitBreakers.anthropic.execute(() =>
+      anthropic.messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: buildCacheableSystem({ cachedContent: request.system, model: request.model }),
+        messages: [{ role: "user", content: request.userMessage }],
+      })
+    );
+
+    const content = response.content[0];
+    return {
+      text: content?.type === "text" ? content.text : "",
+      inputTokens: response.usage?.input_tokens || 0,
+      outputTokens: response.usage?.output_tokens || 0,
+      cacheCreationTokens: response.usage?.cache_creation_input_tokens ?? undefined,
+      cacheReadTokens: response.usage?.cache_read_input_tokens ?? undefined,
+    };
+  },
+  async stream(request, options) {
+    const anthropic = await getAnthropicClient();
+    const message = await circuitBreakers.anthropic.execute(() => {
+      const stream = anthropic.messages.stream(
+        {
+          model: request.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          system: buildCacheableSystem({ cachedContent: request.system, model: request.model }),
+          messages: [{ role: "user", content: request.userMessage }],
+        },
+        { signal: options.signal }
+      );
+      stream.on("text", options.onText);
+      return stream.finalMessage();
+    });
+
+    return {
+      text: message.content.map((block) => (block.type === "text" ? block.text : "")).join(""),
+      inputTokens: message.usage?.input_tokens || 0,
+      outputTokens: message.usage?.output_tokens || 0,
+      cacheCreationTokens: message.usage?.cache_creation_input_tokens ?? undefined,
+      cacheReadTokens: message.usage?.cache_read_input_tokens ?? undefined,
+    };
+  },
+};
+
+// =============================================================================
+// BEDROCK
+// =============================================================================
+
+const bedrockBreaker = newProviderBreaker("bedrock");
+
+export const bedrockProvider: LLMProvider = {
+  id: "bedrock",
+  getModel(speed) {
+    return speed === "fast"
+      ? process.env.BEDROCK_MODEL_FAST || "us.anthropic.claude-3-5-haiku-20241022-v1:0"
+      : process.env.BEDROCK_MODEL || "us.anthropic.claude-sonnet-4-20250514-v1:0";
+  },
+  async complete(request) {
+    const apiKey = await getSecret("bedrock-api-key", "AWS_BEARER_TOKEN_BEDROCK");
+    const region = process.env.AWS_REGION || "us-east-1";
+    const url = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(request.model)}/converse`;
+
+    const json = await bedrockBreaker.execute(async () => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({
+          system: request.system ? [{ text: request.system }] : undefined,
+          messages: [{ role: "user", content: [{ text: request.userMessage }] }],
+          inferenceConfig: { maxTokens: request.maxTokens, temperature: request.temperature },
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Bedrock request failed with status ${response.status}`);
+      }
+      return (await response.json()) as {
+        output?: { message?: { content?: Array<{ text?: string }> } };
+        usage?: { inputTokens?: number; outputTokens?: number };
+      };
+    });
+
+    return {
+      text: (json.output?.message?.content || []).map((c) => c.text || "").join(""),
+      inputTokens: json.usage?.inputTokens || 0,
+      outputTokens: json.usage?.outputTokens || 0,
+    };
+  },
+  async stream(request, options) {
+    // ConverseStream uses AWS binary event framing; a single chunk keeps this dependency-free
+    const result = await bedrockProvider.complete(request);
+    options.signal?.throwIfAborted();
+    options.onText(result.text);
+    return result;
+  },
+};
+
+// =============================================================================
+// OPENAI-COMPATIBLE (OpenAI, Ollama, llama.cpp)
+// =============================================================================
+
+interface OpenAICompatibleConfig {
+  id: "openai" | "local";
+  baseUrl: string;
+  model: string;
+  fastModel: string;
+  /** Resolved lazily so a missing key only fails calls routed to this provider */
+  getApiKey?: () => Promise<string | undefined>;
+}
+
+type OpenAIUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const breaker = newProviderBreaker(config.id);
+
+  const post = async (request: LLMCompletionRequest, stream: boolean, signal?: AbortSignal) => {
+    const apiKey = await config.getApiKey?.();
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [
+          ...(request.system ? [{ role: "system", content: request.system }] : []),
+          { role: "user", content: request.userMessage },
+        ],
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`${config.id} completion request failed with status ${response.status}`);
+    }
+    return response;
+  };
+
+  // Local servers don't always report usage; estimate so budgets and traces stay meaningful
+  const toResult = (request: LLMCompletionRequest, text: string, usage?: OpenAIUsage): LLMCompletionResult => ({
+    text,
+    inputTokens: usage?.prompt_tokens ?? estimateTokens(request.system + request.userMessage),
+    outputTokens: usage?.completion_tokens ?? estimateTokens(text),
+  });
+
+  return {
+    id: config.id,
+    getModel(speed) {
+      return speed === "fast" ? config.fastModel : config.model;
+    },
+    async complete(request) {
+      const json = await breaker.execute(async () => {
+        const response = await post(request, false);
+        return (await response.json()) as {
+          choices?: Array<{ message?: { content?: string } }>;
+          usage?: OpenAIUsage;
+        };
+      });
+
+      return toResult(request, json.choices?.[0]?.message?.content || "", json.usage);
+    },
+    async stream(request, options) {
+      return breaker.execute(async () => {
+        const response = await post(request, true, options.signal);
+        if (!response.body) {
+          throw new Error(`${config.id} returned an empty stream`);
+        }
+
+        let text = "";
+        let usage: OpenAIUsage | undefined;
+        await readSSEStream(response.body, ({ data }) => {
+          if (data === "[DONE]") return;
+          const chunk = JSON.parse(data) as {
+            choices?: Array<{ delta?: { content?: string } }>;
+            usage?: OpenAIUsage;
+          };
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            options.onText(delta);
+          }
+          if (chunk.usage) usage = chunk.usage;
+        });
+
+        return toResult(request, text, usage);
+      });
+    },
+  };
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  model: process.env.OPENAI_MODEL || "gpt-4o",
+  fastModel: process.env.OPENAI_MODEL_FAST || "gpt-4o-mini",
+  getApiKey: () => getSecret("openai-api-key", "OPENAI_API_KEY"),
+});
+
+export const localProvider = createOpenAICompatibleProvider({
+  id: "local",
+  baseUrl: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+  model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+  fastModel: process.env.LOCAL_LLM_MODEL_FAST || process.env.LOCAL_LLM_MODEL || "llama3.1",
+});
+
+// =============================================================================
+// MOCK
+// =============================================================================
+
+export type MockResponder = (request: LLMCompletionRequest) => string;
+
+const MOCK_CHUNK_SIZE = 16;
+
+/**
+ * Default mock response: valid JSON when the prompt asks for it (so RFP
+ * compositions parse), otherwise a short text answer. Same input, same output.
+ */
+function defaultMockResponse(request: LLMCompletionRequest): string {
+  const digest = createHash("sha256").update(request.system + request.userMessage).digest("hex").slice(0, 8);
+  const answer = {
+    response: `Mock answer ${digest}.`,
+    confidence: "Medium",
+    sources: "None",
+    reasoning: "Generated by the mock LLM provider.",
+    inference: "None",
+    remarks: "None",
+  };
+
+  if (/JSON array/i.test(request.userMessage)) {
+    const indexes = Array.from(request.userMessage.matchAll(/^(\d+)\.\s/gm), (m) => parseInt(m[1], 10));
+    return JSON.stringify(indexes.map((questionIndex) => ({ questionIndex, ...answer })));
+  }
+  if (/JSON/.test(request.system)) {
+    return JSON.stringify(answer);
+  }
+  return answer.response;
+}
+
+export function createMockProvider(responder: MockResponder = defaultMockResponse): LLMProvider {
+  const complete = async (request: LLMCompletionRequest): Promise<LLMCompletionResult> => {
+    const text = responder(request);
+    return {
+      text,
+      inputTokens: estimateTokens(request.system + request.userMessage),
+      outputTokens: estimateTokens(text),
+    };
+  };
+
+  return {
+    id: "mock",
+    getModel(speed) {
+      return `mock-${speed}`;
+    },
+    complete,
+    async stream(request, options) {
+      const result = await complete(request);
+      for (let i = 0; i < result.text.length; i += MOCK_CHUNK_SIZE) {
+        options.signal?.throwIfAborted();
+        options.onText(result.text.slice(i, i + MOCK_CHUNK_SIZE));
+      }
+      return result;
+    },
+  };
+}
+
+export const mockProvider = createMockProvider();
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  anthropic: anthropicProvider,
+  bedrock: bedrockProvider,
+  openai: openaiProvider,
+  local: localProvider,
+  mock: mockProvider,
+};
+
+let overrideProvider: LLMProvider | null = null;
+
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  return PROVIDERS[id];
+}
+
+/**
+ * Parse LLM_COMPOSITION_PROVIDERS ("composition=provider,...")
+ */
+export function parseCompositionRoutes(value: string | undefined): Record<string, LLMProviderId> {
+  const routes: Record<string, LLMProviderId> = {};
+  for (const entry of (value || "").split(",")) {
+    const [composition, provider] = entry.split("=").map((part) => part.trim());
+    if (composition && isLLMProviderId(provider)) {
+      routes[composition] = provider;
+    }
+  }
+  return routes;
+}
+
+/**
+ * Pick the provider id for a composition given optional team routing settings.
+ */
+export function selectProviderId(
+  compositionId: string,
+  teamSettings?: TeamLLMProviderSettings
+): LLMProviderId {
+  const candidates = [
+    teamSettings?.compositions?.[compositionId],
+    teamSettings?.default,
+    parseCompositionRoutes(process.env.LLM_COMPOSITION_PROVIDERS)[compositionId],
+    process.env.LLM_PROVIDER,
+  ];
+  return candidates.find(isLLMProviderId) || "anthropic";
+}
+
+/**
+ * Resolve the provider for a call, honouring team routing settings.
+ */
+export async function resolveLLMProvider(options: {
+  compositionId: string;
+  teamId?: string | null;
+}): Promise<LLMProvider> {
+  if (overrideProvider) return overrideProvider;
+
+  let teamSettings: TeamLLMProviderSettings | undefined;
+  if (options.teamId) {
+    try {
+      const team = await prisma.team.findUnique({
+        where: { id: options.teamId },
+        select: { settings: true },
+      });
+      teamSettings = (team?.settings as { llmProvider?: TeamLLMProviderSettings } | null)?.llmProvider;
+    } catch (error) {
+      logger.warn("Failed to load team LLM provider settings", { teamId: options.teamId, error: String(error) });
+    }
+  }
+
+  return PROVIDERS[selectProviderId(options.compositionId, teamSettings)];
+}
+
+/**
+ * Force every call through one provider (tests, demos). Pass null to restore routing.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  overrideProvider = provider;
+}
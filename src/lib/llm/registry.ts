@@ -12,12 +12,16 @@
  * 4. Failures bubble up immediately (no catch-and-hide)
  */
 
-import { resolveBlocks } from "@/lib/prompts/prompt-service";
+import { resolveBlocks, getPromptVariants } from "@/lib/prompts/prompt-service";
 import { answerQuestionWithPrompt as _answerQuestionWithPrompt } from "@/lib/llm";
 import type { TracingOptions, ModelSpeed, UsageInfo } from "@/lib/llm";
 import { allCompositions } from "@/lib/v2/prompts/compositions";
 import { callModeBlock, userInstructionsBlock } from "@/lib/v2/prompts/blocks/runtime-blocks";
 import type { PromptComposition } from "@/lib/v2/prompts/types";
+import { getMaxTokensForSpeed } from "@/lib/config";
+import { estimateTokens } from "@/lib/tokenUtils";
+import { checkTokenBudget, recordTeamTokenUsage } from "@/lib/v2/teams/token-budget-service";
+import { resolveLLMProvider, type LLMProviderId, type LLMStreamOptions } from "./providers";
 
 // Registry of all compositions - imported from single source of truth
 const COMPOSITIONS_BY_ID = new Map<string, PromptComposition>(
@@ -42,17 +46,24 @@ export interface ExecuteLLMCallParams {
   // Execution options
   modelSpeed?: ModelSpeed;
   tracingOptions?: TracingOptions;
+  /** Stream answer text through onText as it is generated */
+  stream?: LLMStreamOptions;
 }
 
 export interface ExecuteLLMCallResult {
   answer: string;
   usage?: UsageInfo;
   traceId?: string;
+  /** Streaming only: the client disconnected and `answer` is partial */
+  aborted?: boolean;
   transparency: {
+    provider: LLMProviderId;
     systemPrompt: string;
     compositionId: string;
     blockIds: string[];
     runtimeBlockIds: string[];
+    /** blockId -> A/B variant id, for blocks in a running experiment */
+    promptVariants: Record<string, string>;
     runtimeContext?: ExecuteLLMCallParams['runtimeContext'];
     assembledAt: string;
   };
@@ -65,7 +76,12 @@ export interface ExecuteLLMCallResult {
 export async function assembleSystemPrompt(
   compositionId: string,
   runtimeContext?: ExecuteLLMCallParams['runtimeContext']
-): Promise<{ prompt: string; blockIds: string[]; runtimeBlockIds: string[] }> {
+): Promise<{
+  prompt: string;
+  blockIds: string[];
+  runtimeBlockIds: string[];
+  promptVariants: Record<string, string>;
+}> {
   // Look up the composition
   const composition = COMPOSITIONS_BY_ID.get(compositionId);
   if (!composition) {
@@ -118,6 +134,7 @@ export async function assembleSystemPrompt(
     prompt: systemPrompt,
     blockIds: composition.blockIds,
     runtimeBlockIds,
+    promptVariants: getPromptVariants(blocks),
   };
 }
 
@@ -130,6 +147,9 @@ export async function assembleSystemPrompt(
  * - No silent fallbacks
  * - Failures bubble up
  * - Transparency of what prompt was assembled
+ * - Team token budgets (throws TokenBudgetExceededError on a hard limit)
+ * - Provider routing per composition/team (see ./providers)
+ * - Optional streaming; an aborted stream resolves with the partial answer
  */
 export async function executeLLMCall(
   params: ExecuteLLMCallParams
@@ -142,15 +162,33 @@ export async function executeLLMCall(
     fallbackContent,
     modelSpeed = "quality",
     tracingOptions,
+    stream,
   } = params;
 
   // Build the prompt from the prompt system
   // This will throw if composition doesn't exist (no silent fallbacks)
-  const { prompt: systemPrompt, blockIds, runtimeBlockIds } = await assembleSystemPrompt(
+  const { prompt: systemPrompt, blockIds, runtimeBlockIds, promptVariants } = await assembleSystemPrompt(
     compositionId,
     runtimeContext
   );
 
+  // Pre-flight budget check: full prompt in, max response out
+  const estimatedTokens =
+    estimateTokens(systemPrompt) +
+    estimateTokens(question) +
+    (skills || []).reduce((sum, s) => sum + estimateTokens(s.content), 0) +
+    (fallbackContent || []).reduce((sum, f) => sum + estimateTokens(f.content), 0) +
+    getMaxTokensForSpeed(modelSpeed);
+  const budget = await checkTokenBudget(
+    { teamId: tracingOptions?.teamId, userId: tracingOptions?.userId },
+    estimatedTokens
+  );
+
+  const provider = await resolveLLMProvider({
+    compositionId,
+    teamId: budget?.teamId ?? tracingOptions?.teamId,
+  });
+
   // Execute the LLM call
   const result = await _answerQuestionWithPrompt(
     question,
@@ -158,18 +196,27 @@ export async function executeLLMCall(
     skills,
     fallbackContent,
     modelSpeed,
-    tracingOptions
+    { ...tracingOptions, ...(budget && { teamId: budget.teamId }), promptVariants },
+    provider,
+    stream
   );
 
+  if (budget && result.usage) {
+    await recordTeamTokenUsage(budget.teamId, result.usage.inputTokens + result.usage.outputTokens);
+  }
+
   return {
     answer: result.answer,
     usage: result.usage,
     traceId: result.traceId,
+    aborted: result.aborted,
     transparency: {
+      provider: provider.id,
       systemPrompt,
       compositionId,
       blockIds,
       runtimeBlockIds,
+      promptVariants,
       runtimeContext,
       assembledAt: new Date().toISOString(),
     },
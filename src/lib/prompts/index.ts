@@ -6,6 +6,7 @@
  * - Version history with diffs and rollback
  * - DB override support (edits stored in DB, fall back to hard-coded)
  * - Async-aware prompt building for runtime customization
+ * - Weighted A/B variant experiments with outcome metrics
  *
  * Usage:
  *
@@ -66,4 +67,24 @@ export {
 
   // Async prompt building
   buildPromptAsync,
+
+  // A/B experiments (variant sampling)
+  CONTROL_VARIANT_ID,
+  type PromptExperimentArm,
+  getExperimentArms,
+  selectPromptVariant,
+  getPromptVariants,
 } from './prompt-service';
+
+export {
+  type ExperimentOutcomeSource,
+  type OutcomeCounts,
+  type VariantResult,
+  type ExperimentResults,
+  type ConfigureExperimentInput,
+  MIN_RATED_ANSWERS_FOR_WINNER,
+  getExperimentResults,
+  configureExperiment,
+  promoteVariant,
+  pickWinner,
+} from './prompt-experiments';
@@ -0,0 +1,310 @@
+/**
+ * Prompt A/B Experiments
+ *
+ * Outcome metrics for weighted prompt variants. Variants are sampled when a
+ * block is resolved (selectPromptVariant in prompt-service.ts) and the served
+ * variant id is stamped on every answer as `promptVariants[blockId]`:
+ * - Chat: ChatMessage.metadata.transparency (thumbs up / thumbs down)
+ * - Reviews: BulkRow.outputData.transparency (approved / corrected)
+ * - Slack: SlackBotInteraction.promptVariants (wasHelpful)
+ *
+ * Win rate per arm = positive / (positive + negative) across all sources.
+ */
+
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import {
+  toTypedBlock,
+  type PromptBlock as TypedPromptBlock,
+  type PromptAttributes,
+  type PromptExperimentConfig,
+} from '@/types/v2';
+import {
+  CONTROL_VARIANT_ID,
+  getPromptBySlug,
+  updatePrompt,
+  type ManagedPrompt,
+} from './prompt-service';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ExperimentOutcomeSource = 'chat' | 'review' | 'slack';
+
+export interface OutcomeCounts {
+  /** Answers produced by this arm */
+  answers: number;
+  /** Thumbs up, review approved, Slack helpful */
+  positive: number;
+  /** Thumbs down, review corrected, Slack not helpful */
+  negative: number;
+}
+
+export interface VariantResult extends OutcomeCounts {
+  variantId: string;
+  isControl: boolean;
+  weight: number;
+  content: string;
+  /** positive / (positive + negative), null until rated */
+  winRate: number | null;
+  bySource: Record<ExperimentOutcomeSource, OutcomeCounts>;
+}
+
+export interface ExperimentResults {
+  slug: string;
+  experiment: PromptExperimentConfig | null;
+  variants: VariantResult[];
+  /** Best arm once every arm has enough rated answers */
+  winnerId: string | null;
+}
+
+export interface ConfigureExperimentInput {
+  variants: Array<{ id: string; content: string; weight: number }>;
+  controlWeight: number;
+  status: PromptExperimentConfig['status'];
+  userId: string;
+}
+
+/** Rated answers each arm needs before a winner is suggested */
+export const MIN_RATED_ANSWERS_FOR_WINNER = 20;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function findDbPrompt(slug: string) {
+  return prisma.buildingBlock.findFirst({
+    where: { slug, libraryId: 'prompts' },
+  });
+}
+
+/**
+ * Count answers and outcomes for one arm across chat, review and Slack.
+ */
+async function countOutcomes(
+  slug: string,
+  variantId: string
+): Promise<Record<ExperimentOutcomeSource, OutcomeCounts>> {
+  const chatServed: Prisma.ChatMessageWhereInput = {
+    role: 'assistant',
+    metadata: { path: ['transparency', 'promptVariants', slug], equals: variantId },
+  };
+  const chatRated = (rating: string): Prisma.ChatMessageWhereInput => ({
+    AND: [chatServed, { metadata: { path: ['feedback', 'rating'], equals: rating } }],
+  });
+  const reviewServed: Prisma.BulkRowWhereInput = {
+    outputData: { path: ['transparency', 'promptVariants', slug], equals: variantId },
+  };
+  const slackServed: Prisma.SlackBotInteractionWhereInput = {
+    promptVariants: { path: [slug], equals: variantId },
+  };
+
+  const [
+    chatAnswers,
+    chatPositive,
+    chatNegative,
+    reviewAnswers,
+    reviewPositive,
+    reviewNegative,
+    slackAnswers,
+    slackPositive,
+    slackNegative,
+  ] = await Promise.all([
+    prisma.chatMessage.count({ where: chatServed }),
+    prisma.chatMessage.count({ where: chatRated('THUMBS_UP') }),
+    prisma.chatMessage.count({ where: chatRated('THUMBS_DOWN') }),
+    prisma.bulkRow.count({ where: reviewServed }),
+    prisma.bulkRow.count({ where: { ...reviewServed, reviewStatus: 'APPROVED' } }),
+    prisma.bulkRow.count({ where: { ...reviewServed, reviewStatus: 'CORRECTED' } }),
+    prisma.slackBotInteraction.count({ where: slackServed }),
+    prisma.slackBotInteraction.count({ where: { ...slackServed, wasHelpful: true } }),
+    prisma.slackBotInteraction.count({ where: { ...slackServed, wasHelpful: false } }),
+  ]);
+
+  return {
+    chat: { answers: chatAnswers, positive: chatPositive, negative: chatNegative },
+    review: { answers: reviewAnswers, positive: reviewPositive, negative: reviewNegative },
+    slack: { answers: slackAnswers, positive: slackPositive, negative: slackNegative },
+  };
+}
+
+/**
+ * Pick the arm with the best win rate, only once every arm has enough ratings.
+ */
+export function pickWinner(
+  variants: VariantResult[],
+  minRated: number = MIN_RATED_ANSWERS_FOR_WINNER
+): string | null {
+  if (variants.length < 2) return null;
+  if (variants.some((v) => v.positive + v.negative < minRated)) return null;
+
+  const best = variants.reduce((a, b) => ((b.winRate ?? 0) > (a.winRate ?? 0) ? b : a));
+  return best.variantId;
+}
+
+// =============================================================================
+// RESULTS
+// =============================================================================
+
+/**
+ * Per-arm outcome metrics for a prompt's experiment (control first).
+ */
+export async function getExperimentResults(slug: string): Promise<ExperimentResults> {
+  const dbPrompt = await findDbPrompt(slug);
+  const attrs = dbPrompt ? (toTypedBlock(dbPrompt) as TypedPromptBlock).attributes : undefined;
+
+  if (!dbPrompt || !attrs?.experiment) {
+    return { slug, experiment: null, variants: [], winnerId: null };
+  }
+
+  const arms = [
+    { id: CONTROL_VARIANT_ID, content: dbPrompt.content, weight: attrs.experiment.controlWeight },
+    ...(attrs.variants || []),
+  ];
+
+  const variants: VariantResult[] = [];
+  for (const arm of arms) {
+    const bySource = await countOutcomes(slug, arm.id);
+    const sources = Object.values(bySource);
+    const positive = sources.reduce((sum, s) => sum + s.positive, 0);
+    const negative = sources.reduce((sum, s) => sum + s.negative, 0);
+
+    variants.push({
+      variantId: arm.id,
+      isControl: arm.id === CONTROL_VARIANT_ID,
+      weight: arm.weight,
+      content: arm.content,
+      answers: sources.reduce((sum, s) => sum + s.answers, 0),
+      positive,
+      negative,
+      winRate: positive + negative > 0 ? positive / (positive + negative) : null,
+      bySource,
+    });
+  }
+
+  return {
+    slug,
+    experiment: attrs.experiment,
+    variants,
+    winnerId: pickWinner(variants),
+  };
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Set the variants, weights and status of a prompt's experiment.
+ * Built-in prompts get a DB override first so the experiment has somewhere to live.
+ */
+export async function configureExperiment(
+  slug: string,
+  input: ConfigureExperimentInput
+): Promise<ExperimentResults> {
+  const ids = input.variants.map((v) => v.id);
+  if (ids.includes(CONTROL_VARIANT_ID)) {
+    throw new Error(`Variant id "${CONTROL_VARIANT_ID}" is reserved for the base content`);
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Variant ids must be unique');
+  }
+  if (input.status === 'running' && input.variants.length === 0) {
+    throw new Error('A running experiment needs at least one variant');
+  }
+
+  let dbPrompt = await findDbPrompt(slug);
+  if (!dbPrompt) {
+    await updatePrompt(slug, {
+      commitMessage: 'Create override for A/B experiment',
+      userId: input.userId,
+    });
+    dbPrompt = await findDbPrompt(slug);
+    if (!dbPrompt) {
+      throw new Error(`Prompt not found: ${slug}`);
+    }
+  }
+
+  const attrs = (toTypedBlock(dbPrompt) as TypedPromptBlock).attributes || {};
+  const wasRunning = attrs.experiment?.status === 'running';
+
+  const updatedAttrs: PromptAttributes = {
+    ...attrs,
+    variants: input.variants,
+    experiment: {
+      status: input.status,
+      controlWeight: input.controlWeight,
+      startedAt:
+        input.status === 'running' && !wasRunning
+          ? new Date().toISOString()
+          : attrs.experiment?.startedAt,
+    },
+  };
+
+  await prisma.buildingBlock.update({
+    where: { id: dbPrompt.id },
+    data: { attributes: updatedAttrs as unknown as Prisma.InputJsonValue },
+  });
+
+  return getExperimentResults(slug);
+}
+
+/**
+ * Promote an arm: its content becomes the prompt's base content (a new
+ * version), the experiment is marked completed and its variants cleared.
+ * Promoting the control keeps the base content and just ends the experiment.
+ */
+export async function promoteVariant(
+  slug: string,
+  variantId: string,
+  userId: string
+): Promise<ManagedPrompt> {
+  const results = await getExperimentResults(slug);
+  const winner = results.variants.find((v) => v.variantId === variantId);
+  if (!results.experiment || !winner) {
+    throw new Error(`Variant not found: ${variantId}`);
+  }
+
+  if (!winner.isControl) {
+    const winRate = winner.winRate === null ? 'unrated' : `${Math.round(winner.winRate * 100)}% win rate`;
+    await updatePrompt(slug, {
+      content: winner.content,
+      commitMessage: `Promote A/B variant "${variantId}" (${winRate})`,
+      userId,
+    });
+  }
+
+  const dbPrompt = await findDbPrompt(slug);
+  if (!dbPrompt) {
+    throw new Error(`Prompt not found: ${slug}`);
+  }
+
+  const attrs = (toTypedBlock(dbPrompt) as TypedPromptBlock).attributes || {};
+  const now = new Date().toISOString();
+  const updatedAttrs: PromptAttributes = {
+    ...attrs,
+    variants: [],
+    experiment: {
+      ...results.experiment,
+      status: 'completed',
+      promotedVariantId: variantId,
+      promotedAt: now,
+    },
+    metrics: {
+      ...attrs.metrics,
+      ...(winner.winRate !== null && { avgRating: winner.winRate }),
+    },
+  };
+
+  await prisma.buildingBlock.update({
+    where: { id: dbPrompt.id },
+    data: { attributes: updatedAttrs as unknown as Prisma.InputJsonValue },
+  });
+
+  const prompt = await getPromptBySlug(slug);
+  if (!prompt) {
+    throw new Error(`Prompt not found: ${slug}`);
+  }
+  return prompt;
+}
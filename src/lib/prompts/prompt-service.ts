@@ -10,6 +10,7 @@
  * - CRUD operations for prompts
  * - Version history with diffs
  * - Variant management
+ * - Weighted A/B variant sampling (see prompt-experiments.ts for outcomes)
  * - Override system (DB takes precedence over hard-coded)
  */
 
@@ -25,6 +26,7 @@ import type { PromptBlock, BlockTier } from '@/lib/v2/prompts/types';
 import { coreBlocks as v2CoreBlocks } from '@/lib/v2/prompts/blocks';
 import { LIBRARY_CONTEXT } from '@/lib/v2/prompts/builder';
 import type { LibraryId } from '@/types/v2';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 
 // =============================================================================
 // TYPES
@@ -114,6 +116,78 @@ function generateDiff(oldContent: string, newContent: string): string {
   return diff.length > 0 ? diff.join('\n') : '(no changes)';
 }
 
+// =============================================================================
+// A/B EXPERIMENTS
+// =============================================================================
+
+/** Variant id recorded when a running experiment serves the base content */
+export const CONTROL_VARIANT_ID = 'control';
+
+/** One arm of a prompt experiment: the base content or an A/B variant */
+export interface PromptExperimentArm {
+  id: string;
+  content: string;
+  weight: number;
+}
+
+/**
+ * Arms of a running experiment (control first), or [] when none is running.
+ */
+export function getExperimentArms(
+  content: string,
+  attrs: PromptAttributes | undefined
+): PromptExperimentArm[] {
+  if (attrs?.experiment?.status !== 'running' || !attrs.variants?.length) {
+    return [];
+  }
+
+  return [
+    { id: CONTROL_VARIANT_ID, content, weight: attrs.experiment.controlWeight },
+    ...attrs.variants,
+  ].filter((arm) => arm.weight > 0);
+}
+
+/**
+ * Pick the content to serve for one call. While an experiment is running the
+ * control and each variant are sampled by weight and the chosen id returned,
+ * so callers can record which variant produced an answer.
+ */
+export function selectPromptVariant(
+  content: string,
+  attrs: PromptAttributes | undefined,
+  random: () => number = Math.random
+): { content: string; variantId?: string } {
+  const arms = getExperimentArms(content, attrs);
+  if (arms.length === 0) {
+    return { content };
+  }
+
+  const totalWeight = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let point = random() * totalWeight;
+  for (const arm of arms) {
+    point -= arm.weight;
+    if (point < 0) {
+      return { content: arm.content, variantId: arm.id };
+    }
+  }
+
+  const last = arms[arms.length - 1];
+  return { content: last.content, variantId: last.id };
+}
+
+/**
+ * Map of blockId -> variantId for blocks served from a running experiment
+ */
+export function getPromptVariants(blocks: PromptBlock[]): Record<string, string> {
+  const promptVariants: Record<string, string> = {};
+  for (const block of blocks) {
+    if (block.variantId) {
+      promptVariants[block.id] = block.variantId;
+    }
+  }
+  return promptVariants;
+}
+
 
 // =============================================================================
 // CORE SERVICE FUNCTIONS
@@ -270,6 +344,14 @@ export async function createPrompt(input: CreatePromptInput): Promise<ManagedPro
     },
   });
 
+  await recordAuditEvent({
+    eventType: 'prompt.created',
+    actorId: input.userId,
+    targetType: 'prompt',
+    targetId: created.id,
+    data: { slug: input.slug, version: 1, commitMessage: input.commitMessage },
+  });
+
   return {
     id: created.id,
     slug: created.slug || input.slug, // Use input slug as fallback
@@ -371,6 +453,18 @@ export async function updatePrompt(
     });
   }
 
+  await recordAuditEvent({
+    eventType: 'prompt.updated',
+    actorId: input.userId,
+    targetType: 'prompt',
+    targetId: dbPrompt.id,
+    data: {
+      slug,
+      version: { from: currentPrompt.version || 0, to: newVersion },
+      commitMessage: input.commitMessage,
+    },
+  });
+
   return {
     ...currentPrompt,
     id: dbPrompt.id,
@@ -454,7 +548,7 @@ export async function rollbackToVersion(
 /**
  * Reset a prompt to its default (delete DB override)
  */
-export async function resetToDefault(slug: string): Promise<boolean> {
+export async function resetToDefault(slug: string, actorId?: string): Promise<boolean> {
   const dbPrompt = await prisma.buildingBlock.findFirst({
     where: { slug, libraryId: 'prompts' },
   });
@@ -473,13 +567,21 @@ export async function resetToDefault(slug: string): Promise<boolean> {
     where: { id: dbPrompt.id },
   });
 
+  await recordAuditEvent({
+    eventType: 'prompt.reset',
+    actorId,
+    targetType: 'prompt',
+    targetId: dbPrompt.id,
+    data: { slug, version: dbPrompt.version },
+  });
+
   return true;
 }
 
 /**
  * Delete a custom prompt (only works for user-created prompts)
  */
-export async function deletePrompt(id: string): Promise<boolean> {
+export async function deletePrompt(id: string, actorId?: string): Promise<boolean> {
   const dbPrompt = await prisma.buildingBlock.findUnique({
     where: { id },
   });
@@ -497,6 +599,14 @@ export async function deletePrompt(id: string): Promise<boolean> {
     where: { id },
   });
 
+  await recordAuditEvent({
+    eventType: 'prompt.deleted',
+    actorId,
+    targetType: 'prompt',
+    targetId: id,
+    data: { slug: dbPrompt.slug, title: dbPrompt.title },
+  });
+
   return true;
 }
 
@@ -525,7 +635,7 @@ export async function resolveBlock(blockId: string): Promise<PromptBlock | null>
       name: dbPrompt.title,
       description: dbPrompt.summary || '',
       tier: attrs?.promptTier || 3,
-      content: dbPrompt.content,
+      ...selectPromptVariant(dbPrompt.content, attrs),
     };
   }
 
@@ -560,8 +670,8 @@ export async function resolveBlockVariant(
     if (variants && variants[context]) {
       return variants[context];
     }
-    // Fall back to default content if no variant
-    return dbPrompt.content;
+    // Fall back to default content (or a sampled A/B variant) if no context variant
+    return selectPromptVariant(dbPrompt.content, attrs).content;
   }
 
   return null;
@@ -609,6 +719,8 @@ export async function buildPromptAsync(options: {
 }): Promise<{
   systemPrompt: string;
   blocksUsed: string[];
+  /** blockId -> A/B variant id, for blocks in a running experiment */
+  promptVariants: Record<string, string>;
 }> {
   // Resolve blocks with DB override support
   const blocks = await resolveBlocks(options.blockIds);
@@ -639,12 +751,14 @@ export async function buildPromptAsync(options: {
   return {
     systemPrompt,
     blocksUsed: options.blockIds,
+    promptVariants: getPromptVariants(blocks),
   };
 }
 
 /**
  * Resolve multiple blocks at once (more efficient than calling resolveBlock multiple times)
- * DB overrides take precedence over hard-coded blocks
+ * DB overrides take precedence over hard-coded blocks. Blocks with a running
+ * experiment carry the sampled `variantId`.
  */
 export async function resolveBlocks(blockIds: string[]): Promise<PromptBlock[]> {
   // Fetch all DB overrides in one query
@@ -670,7 +784,7 @@ export async function resolveBlocks(blockIds: string[]): Promise<PromptBlock[]>
         name: dbPrompt.title,
         description: dbPrompt.summary || '',
         tier: attrs?.promptTier || 3,
-        content: dbPrompt.content,
+        ...selectPromptVariant(dbPrompt.content, attrs),
       });
       continue;
     }
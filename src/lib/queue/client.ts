@@ -1,7 +1,9 @@
 /**
  * Background Job Queue Client
  *
- * Provides a simple interface for adding jobs to background queues
+ * Provides a simple interface for adding jobs to background queues.
+ * Uses BullMQ when Redis is configured, otherwise the Postgres fallback
+ * queue (BackgroundJob table) - callers don't need to care which.
  */
 
 import { Queue, QueueOptions } from "bullmq";
@@ -14,6 +16,14 @@ import {
   logQueueEvent,
   logQueueError,
 } from "./config";
+import { prisma } from "@/lib/prisma";
+import {
+  createJobRecord,
+  getJobRecord,
+  markJobFailed,
+  type BackgroundJobStatus,
+} from "./job-store";
+import { wakePostgresWorkers } from "./postgres-queue";
 
 // Queue instances (lazy initialization)
 const queues = new Map<QueueName, Queue>();
@@ -65,32 +75,40 @@ export type FileProcessingJobData = {
   userEmail?: string;
   documentIds?: string[];
   processForContent?: boolean[];
+  // For generate_embeddings (omit to backfill all active blocks)
+  blockIds?: string[];
 };
 
 // Skill Generation Jobs
 export type SkillGenerationJobData = {
-  type: "generate_from_document" | "refresh_skill" | "analyze_coherence";
+  type: "generate_from_document" | "refresh_skill" | "analyze_coherence" | "propose_skill_update" | "scan_contradictions";
   skillId?: string;
   documentId?: string;
+  // For propose_skill_update (see skill-feedback-service.ts)
+  stagedSourceId?: string;
   documentContent?: string;
+  // For scan_contradictions (see contradiction-scan-service.ts)
+  libraryId?: string;
+  customerId?: string;
   userId?: string;
   userEmail?: string;
 };
 
 // Bulk Operations Jobs
 export type BulkOperationsJobData = {
-  type: "import_customers" | "export_data" | "sync_salesforce" | "sync_snowflake" | "process_project_answers" | "process_contract_analysis";
+  type: "import_customers" | "export_data" | "sync_salesforce" | "sync_snowflake" | "process_project_answers" | "process_contract_analysis" | "sync_git";
   userId?: string;
   userEmail?: string;
   filters?: Record<string, unknown>;
   outputPath?: string;
-  // For process_project_answers and process_contract_analysis
+  // For process_project_answers and process_contract_analysis (sync_git uses libraryId)
   projectId?: string;
   skillIds?: string[];
   batchSize?: number;
   batchDelayMs?: number;
   libraryId?: string;
   modelSpeed?: string;
+  playbookId?: string;
 };
 
 // Analytics Jobs
@@ -109,14 +127,21 @@ export type ContractAnalysisJobData = {
 };
 
 // Integration Discovery Jobs
-export type IntegrationDiscoveryJobData = {
-  type: "discover_integration";
-  connectionId: string;
-  integrationType: "slack" | "zendesk" | "notion";
-  libraryId: string;
-  userId?: string;
-  userEmail?: string;
-};
+export type IntegrationDiscoveryJobData =
+  | {
+      type: "discover_integration";
+      connectionId: string;
+      integrationType: "slack" | "zendesk" | "notion";
+      libraryId: string;
+      userId?: string;
+      userEmail?: string;
+    }
+  | {
+      // Scheduled re-sync (see source-resync-service.ts)
+      type: "resync_connection";
+      connectionId: string;
+      since?: string; // ISO timestamp of the previous sync
+    };
 
 type JobData =
   | FileProcessingJobData
@@ -128,6 +153,9 @@ type JobData =
 
 /**
  * Add a job to the queue
+ *
+ * Every job gets a BackgroundJob row first; its id doubles as the BullMQ job id.
+ * Without Redis the row stays PENDING for the Postgres fallback worker.
  */
 export async function addJob<T extends JobData>(
   queueName: QueueName,
@@ -140,16 +168,70 @@ export async function addJob<T extends JobData>(
     removeOnComplete?: boolean;
   }
 ): Promise<string> {
-  const queue = getQueue(queueName);
-
-  const job = await queue.add(jobName, data, {
-    ...DEFAULT_JOB_OPTIONS,
-    ...options,
+  const maxAttempts = options?.attempts ?? DEFAULT_JOB_OPTIONS.attempts;
+  const jobId = await createJobRecord({
+    queueName,
+    jobType: jobName,
+    payload: data,
+    maxAttempts,
+    scheduledFor: options?.delay ? new Date(Date.now() + options.delay) : undefined,
   });
 
-  logQueueEvent("Job added", queueName, job.id, { jobName, data });
+  if (!isQueueConfigured()) {
+    logQueueEvent("Job added", queueName, jobId, { jobName, backend: "postgres" });
+    wakePostgresWorkers();
+    return jobId;
+  }
 
-  return job.id!;
+  try {
+    const queue = getQueue(queueName);
+    await queue.add(jobName, data, {
+      ...DEFAULT_JOB_OPTIONS,
+      ...options,
+      jobId,
+    });
+  } catch (error) {
+    await markJobFailed(jobId, error, maxAttempts, maxAttempts);
+    throw error;
+  }
+
+  logQueueEvent("Job added", queueName, jobId, { jobName, data });
+
+  return jobId;
+}
+
+type JobStatus = {
+  state: string;
+  progress?: number;
+  returnvalue?: unknown;
+  failedReason?: string;
+};
+
+const RECORD_STATES: Record<BackgroundJobStatus, string> = {
+  PENDING: "waiting",
+  RETRYING: "delayed",
+  PROCESSING: "active",
+  COMPLETED: "completed",
+  FAILED: "failed",
+};
+
+/**
+ * Job status from the BackgroundJob table, using BullMQ state names
+ */
+async function getRecordStatus(queueName: QueueName, jobId: string): Promise<JobStatus> {
+  const record = await getJobRecord(jobId);
+
+  if (!record || record.queueName !== queueName) {
+    throw new Error(`Job ${jobId} not found in queue ${queueName}`);
+  }
+
+  const state = RECORD_STATES[record.status as BackgroundJobStatus] || "unknown";
+  return {
+    state,
+    progress: state === "completed" ? 100 : undefined,
+    returnvalue: record.result ?? undefined,
+    failedReason: record.errorMessage ?? undefined,
+  };
 }
 
 /**
@@ -158,17 +240,17 @@ export async function addJob<T extends JobData>(
 export async function getJobStatus(
   queueName: QueueName,
   jobId: string
-): Promise<{
-  state: string;
-  progress?: number;
-  returnvalue?: unknown;
-  failedReason?: string;
-}> {
+): Promise<JobStatus> {
+  if (!isQueueConfigured()) {
+    return getRecordStatus(queueName, jobId);
+  }
+
   const queue = getQueue(queueName);
   const job = await queue.getJob(jobId);
 
   if (!job) {
-    throw new Error(`Job ${jobId} not found in queue ${queueName}`);
+    // Removed by removeOnComplete/removeOnFail - the record keeps the outcome
+    return getRecordStatus(queueName, jobId);
   }
 
   const state = await job.getState();
@@ -196,22 +278,16 @@ export async function waitForJob<T = unknown>(
   jobId: string,
   timeoutMs: number = 60000
 ): Promise<T> {
-  const queue = getQueue(queueName);
   const startTime = Date.now();
 
   while (Date.now() - startTime < timeoutMs) {
-    const job = await queue.getJob(jobId);
+    const { state, returnvalue, failedReason } = await getJobStatus(queueName, jobId);
 
-    if (!job) {
-      throw new Error(`Job ${jobId} not found in queue ${queueName}`);
-    }
-
-    const state = await job.getState();
     if (state === "completed") {
-      return job.returnvalue as T;
+      return returnvalue as T;
     }
     if (state === "failed") {
-      throw new Error(job.failedReason || "Job failed");
+      throw new Error(failedReason || "Job failed");
     }
 
     // Poll every 500ms
@@ -223,16 +299,27 @@ export async function waitForJob<T = unknown>(
 
 /**
  * Remove a job from the queue
+ *
+ * Jobs that have not started are also deleted from BackgroundJob so the
+ * fallback worker never picks them up; finished jobs keep their history.
  */
 export async function removeJob(
   queueName: QueueName,
   jobId: string
 ): Promise<void> {
-  const queue = getQueue(queueName);
-  const job = await queue.getJob(jobId);
+  if (isQueueConfigured()) {
+    const queue = getQueue(queueName);
+    const job = await queue.getJob(jobId);
+
+    if (job) {
+      await job.remove();
+    }
+  }
 
-  if (job) {
-    await job.remove();
+  const { count } = await prisma.backgroundJob.deleteMany({
+    where: { id: jobId, queueName, status: { in: ["PENDING", "RETRYING"] } },
+  });
+  if (count > 0 || isQueueConfigured()) {
     logQueueEvent("Job removed", queueName, jobId);
   }
 }
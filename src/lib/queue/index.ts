@@ -14,6 +14,8 @@ export {
   type SkillGenerationJobData,
   type BulkOperationsJobData,
   type AnalyticsJobData,
+  type IntegrationDiscoveryJobData,
 } from "./client";
 
 export { isQueueConfigured } from "./config";
+export { getJobRecord, type BackgroundJobStatus } from "./job-store";
@@ -0,0 +1,116 @@
+/**
+ * Background Job Store
+ *
+ * Mirrors job state into the BackgroundJob table so job history, attempts,
+ * results and errors are queryable regardless of which queue backend ran
+ * the job. BullMQ jobs use the BackgroundJob id as their job id, so one id
+ * identifies a job in both places.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { QueueName } from "./config";
+
+export type BackgroundJobStatus = "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED" | "RETRYING";
+
+export interface JobRecordInput {
+  queueName: QueueName;
+  jobType: string;
+  payload: unknown;
+  maxAttempts: number;
+  scheduledFor?: Date;
+}
+
+/** Base delay for fallback-queue retries, doubled per attempt (matches DEFAULT_JOB_OPTIONS) */
+const RETRY_BASE_DELAY_MS = 5000;
+
+/**
+ * Create the BackgroundJob row for a newly enqueued job.
+ */
+export async function createJobRecord(input: JobRecordInput): Promise<string> {
+  const record = await prisma.backgroundJob.create({
+    data: {
+      queueName: input.queueName,
+      jobType: input.jobType,
+      payload: toJson(input.payload),
+      maxAttempts: input.maxAttempts,
+      scheduledFor: input.scheduledFor,
+    },
+    select: { id: true },
+  });
+
+  return record.id;
+}
+
+/**
+ * Mark a job as started. `attempt` is the 1-based attempt number now running.
+ */
+export async function markJobStarted(jobId: string, attempt: number): Promise<void> {
+  await prisma.backgroundJob.update({
+    where: { id: jobId },
+    data: { status: "PROCESSING", attempts: attempt, startedAt: new Date() },
+  });
+}
+
+export async function markJobCompleted(jobId: string, result: unknown): Promise<void> {
+  await prisma.backgroundJob.update({
+    where: { id: jobId },
+    data: {
+      status: "COMPLETED",
+      result: result === undefined || result === null ? Prisma.DbNull : toJson(result),
+      errorMessage: null,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Refresh a running job's lease (see postgres-queue.ts).
+ */
+export async function touchJob(jobId: string): Promise<void> {
+  await prisma.backgroundJob.update({
+    where: { id: jobId },
+    data: { updatedAt: new Date() },
+  });
+}
+
+/**
+ * Record a failed attempt. Jobs with attempts left move to RETRYING with
+ * `scheduledFor` set to the next backoff time.
+ */
+export async function markJobFailed(
+  jobId: string,
+  error: unknown,
+  attempt: number,
+  maxAttempts: number
+): Promise<BackgroundJobStatus> {
+  const willRetry = attempt < maxAttempts;
+  const status: BackgroundJobStatus = willRetry ? "RETRYING" : "FAILED";
+
+  await prisma.backgroundJob.update({
+    where: { id: jobId },
+    data: {
+      status,
+      errorMessage: error instanceof Error ? error.message : String(error),
+      scheduledFor: willRetry ? getRetryTime(attempt) : undefined,
+      completedAt: willRetry ? undefined : new Date(),
+    },
+  });
+
+  return status;
+}
+
+/**
+ * Next retry time after the given (1-based) attempt failed.
+ */
+export function getRetryTime(attempt: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+}
+
+export async function getJobRecord(jobId: string) {
+  return prisma.backgroundJob.findUnique({ where: { id: jobId } });
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
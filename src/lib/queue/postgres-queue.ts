@@ -0,0 +1,261 @@
+/**
+ * Postgres Fallback Queue
+ *
+ * When Redis is not configured, jobs are stored as PENDING rows in the
+ * BackgroundJob table and a polling worker claims them with
+ * `FOR UPDATE SKIP LOCKED`, so several worker processes can share the table
+ * without running a job twice. Retries use the same exponential backoff as
+ * BullMQ via `scheduledFor`.
+ *
+ * Throughput is far below BullMQ - this exists so long-running work (RFP
+ * batches, document extraction) leaves the HTTP request even in small
+ * deployments without Redis.
+ *
+ * Running jobs hold a lease: the worker refreshes `updatedAt` while the job
+ * runs, and rows left in PROCESSING past the lease (the worker crashed or was
+ * killed) are put back to RETRYING, or FAILED when out of attempts.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { QueueName, logQueueEvent, logQueueError } from "./config";
+import { markJobCompleted, markJobFailed, touchJob, type BackgroundJobStatus } from "./job-store";
+
+/**
+ * Minimal job shape shared by BullMQ jobs and fallback-queue jobs, so
+ * processors run unchanged on either backend.
+ */
+export interface ProcessableJob<T = unknown> {
+  id?: string;
+  data: T;
+  updateProgress(progress: number): Promise<void>;
+}
+
+/**
+ * A queue's processor. Each one narrows `job.data` by its `type`, so the
+ * registry accepts processors for any payload type (`never` is assignable to all).
+ */
+export type JobProcessor = (job: ProcessableJob<never>) => Promise<unknown>;
+
+export interface ClaimedJob {
+  id: string;
+  queueName: QueueName;
+  jobType: string;
+  payload: unknown;
+  attempts: number;
+  maxAttempts: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/** A PROCESSING job whose worker has not checked in for this long is recovered */
+export const JOB_LEASE_MS = 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/** Wake-up hooks of the polling workers running in this process */
+const wakers = new Set<() => void>();
+
+// =============================================================================
+// CLAIM / RUN
+// =============================================================================
+
+/**
+ * Atomically claim the oldest due job in the given queues.
+ * Increments `attempts` and marks the row PROCESSING.
+ */
+export async function claimNextJob(queueNames: QueueName[]): Promise<ClaimedJob | null> {
+  if (queueNames.length === 0) return null;
+
+  const rows = await prisma.$queryRaw<ClaimedJob[]>(Prisma.sql`
+    UPDATE "BackgroundJob"
+    SET "status" = 'PROCESSING',
+        "attempts" = "attempts" + 1,
+        "startedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "BackgroundJob"
+      WHERE "queueName" IN (${Prisma.join(queueNames)})
+        AND "status" IN ('PENDING', 'RETRYING')
+        AND ("scheduledFor" IS NULL OR "scheduledFor" <= NOW())
+      ORDER BY "createdAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id", "queueName", "jobType", "payload", "attempts", "maxAttempts"
+  `);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Atomically claim one specific job if it is still due.
+ * Returns null when another worker has already claimed it.
+ */
+export async function claimJob(jobId: string): Promise<ClaimedJob | null> {
+  const rows = await prisma.$queryRaw<ClaimedJob[]>(Prisma.sql`
+    UPDATE "BackgroundJob"
+    SET "status" = 'PROCESSING',
+        "attempts" = "attempts" + 1,
+        "startedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "BackgroundJob"
+      WHERE "id" = ${jobId}
+        AND "status" IN ('PENDING', 'RETRYING')
+        AND ("scheduledFor" IS NULL OR "scheduledFor" <= NOW())
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "queueName", "jobType", "payload", "attempts", "maxAttempts"
+  `);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Requeue jobs whose lease expired while PROCESSING. Returns how many were recovered.
+ */
+export async function recoverStaleJobs(queueNames: QueueName[], now: Date = new Date()): Promise<number> {
+  if (queueNames.length === 0) return 0;
+
+  return prisma.$executeRaw(Prisma.sql`
+    UPDATE "BackgroundJob"
+    SET "status" = CASE WHEN "attempts" < "maxAttempts" THEN 'RETRYING' ELSE 'FAILED' END,
+        "errorMessage" = 'Job lease expired - the worker running it stopped',
+        "completedAt" = CASE WHEN "attempts" < "maxAttempts" THEN NULL ELSE NOW() END,
+        "updatedAt" = NOW()
+    WHERE "queueName" IN (${Prisma.join(queueNames)})
+      AND "status" = 'PROCESSING'
+      AND "updatedAt" < ${new Date(now.getTime() - JOB_LEASE_MS)}
+  `);
+}
+
+/**
+ * Run a claimed job and record the outcome in BackgroundJob.
+ * Returns the job's resulting status.
+ */
+export async function runClaimedJob(claimed: ClaimedJob, processor: JobProcessor): Promise<BackgroundJobStatus> {
+  const job: ProcessableJob<never> = {
+    id: claimed.id,
+    // The stored payload is whatever addJob was given for this queue
+    data: claimed.payload as never,
+    // Progress is not persisted for fallback jobs - status endpoints report state only
+    updateProgress: async () => {},
+  };
+
+  // Keep the lease while the job runs
+  const heartbeat = setInterval(() => {
+    touchJob(claimed.id).catch((error) => {
+      logQueueError("Job heartbeat failed", claimed.queueName, error as Error, claimed.id);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const result = await processor(job);
+    await markJobCompleted(claimed.id, result);
+    logQueueEvent("Job completed", claimed.queueName, claimed.id, { backend: "postgres" });
+    return "COMPLETED";
+  } catch (error) {
+    const status = await markJobFailed(claimed.id, error, claimed.attempts, claimed.maxAttempts);
+    logQueueError(
+      "Job failed",
+      claimed.queueName,
+      error instanceof Error ? error : new Error(String(error)),
+      claimed.id,
+      { backend: "postgres", attemptsMade: claimed.attempts, status }
+    );
+    return status;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Poll now instead of waiting for the next interval. Called by addJob so
+ * in-process workers pick up new jobs immediately; a no-op without workers.
+ */
+export function wakePostgresWorkers(): void {
+  for (const wake of wakers) wake();
+}
+
+// =============================================================================
+// POLLING WORKER
+// =============================================================================
+
+/**
+ * Start a polling worker for the given processors.
+ * Recovers expired leases, then drains all due jobs before sleeping for `pollIntervalMs`.
+ */
+export function startPostgresWorker(
+  processors: Partial<Record<QueueName, JobProcessor>>,
+  options: { pollIntervalMs?: number } = {}
+): { stop: () => Promise<void> } {
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const queueNames = Object.keys(processors) as QueueName[];
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let current: Promise<void> = Promise.resolve();
+  let polling = false;
+  let woken = false;
+
+  const drain = async () => {
+    try {
+      const recovered = await recoverStaleJobs(queueNames);
+      if (recovered > 0) {
+        logQueueEvent("Recovered jobs with expired leases", "system", undefined, { recovered });
+      }
+
+      let claimed = await claimNextJob(queueNames);
+      while (claimed && !stopped) {
+        const processor = processors[claimed.queueName];
+        if (processor) {
+          await runClaimedJob(claimed, processor);
+        }
+        claimed = stopped ? null : await claimNextJob(queueNames);
+      }
+    } catch (error) {
+      logQueueError(
+        "Postgres queue poll failed",
+        "system",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  };
+
+  const poll = async () => {
+    polling = true;
+    do {
+      woken = false;
+      await drain();
+    } while (woken && !stopped);
+    polling = false;
+
+    if (!stopped) {
+      timer = setTimeout(() => {
+        current = poll();
+      }, pollIntervalMs);
+    }
+  };
+
+  const wake = () => {
+    if (stopped) return;
+    if (polling) {
+      woken = true;
+      return;
+    }
+    if (timer) clearTimeout(timer);
+    current = poll();
+  };
+
+  wakers.add(wake);
+  current = poll();
+  logQueueEvent("Postgres fallback worker started", "system", undefined, { queueNames, pollIntervalMs });
+
+  return {
+    stop: async () => {
+      stopped = true;
+      wakers.delete(wake);
+      if (timer) clearTimeout(timer);
+      await current;
+    },
+  };
+}
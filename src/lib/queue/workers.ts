@@ -4,14 +4,28 @@
  * Processes jobs from the queues. Workers should run in a separate process
  * or container from the Next.js API server for better resource isolation.
  *
- * Start workers with: node -r tsx/register src/lib/queue/workers.ts
+ * Start workers with: npm run workers (node -r tsx/register src/lib/queue/workers.ts)
  * Or deploy as a separate service in AWS (ECS task, Lambda, etc.)
+ *
+ * With Redis configured, BullMQ workers consume the queues. Without Redis,
+ * the same processors poll the BackgroundJob table (see postgres-queue.ts).
+ * Either way every job's state is mirrored into BackgroundJob.
+ *
+ * Deployments without Redis have no worker service, so the web server runs
+ * the workers in-process (see src/instrumentation.ts) unless
+ * QUEUE_IN_PROCESS_WORKERS=false says a separate `npm run workers` is running.
+ *
+ * The worker process also runs periodic maintenance (team token budget
+ * resets at the start of each month, weekly stale-skill digests to owners,
+ * weekly library-wide skill contradiction scans) and queues scheduled source
+ * re-syncs for integration connections with a `config.syncSchedule` cron.
  */
 
 import { Worker, Job } from "bullmq";
 import { Prisma } from "@prisma/client";
 import {
   getRedisConnection,
+  isQueueConfigured,
   QUEUE_NAMES,
   QueueName,
   logQueueEvent,
@@ -24,35 +38,87 @@ import type {
   AnalyticsJobData,
   IntegrationDiscoveryJobData,
 } from "./client";
+import { markJobCompleted, markJobFailed, markJobStarted, type BackgroundJobStatus } from "./job-store";
+import {
+  claimJob,
+  runClaimedJob,
+  startPostgresWorker,
+  type JobProcessor,
+  type ProcessableJob,
+} from "./postgres-queue";
+import { resetTokenBudgetsForNewPeriod } from "@/lib/v2/teams/token-budget-service";
+import type { LibraryId } from "@/types/v2";
 
 // Worker instances
 const workers: Worker[] = [];
+let postgresWorker: { stop: () => Promise<void> } | null = null;
+let started = false;
+let maintenanceTimer: NodeJS.Timeout | null = null;
+let resyncTimer: NodeJS.Timeout | null = null;
+
+// Budget resets are idempotent, so checking hourly is enough to roll over on the 1st
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+// Cron schedules have minute granularity
+const RESYNC_SCHEDULE_INTERVAL_MS = 60 * 1000;
 
 /**
  * File Processing Worker
  */
-async function processFileJob(job: Job<FileProcessingJobData>): Promise<unknown> {
+async function processFileJob(job: ProcessableJob<FileProcessingJobData>): Promise<unknown> {
   logQueueEvent("Processing file job", QUEUE_NAMES.FILE_PROCESSING, job.id, {
     type: job.data.type,
     fileId: job.data.fileId,
   });
 
   switch (job.data.type) {
-    case "parse_document":
-      await job.updateProgress(50);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    case "parse_document": {
+      if (!job.data.fileId) {
+        throw new Error("fileId is required for parse_document");
+      }
+      const { extractStagedDocument } = await import("@/lib/v2/sources/document-processing-service");
+      const result = await extractStagedDocument(job.data.fileId, job.data.s3Key);
       await job.updateProgress(100);
-      return { success: true, fileId: job.data.fileId };
+      return { success: true, ...result };
+    }
 
-    case "generate_embeddings":
-      await job.updateProgress(50);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    case "generate_embeddings": {
+      const { embedBlocks, backfillBlockEmbeddings } = await import("@/lib/v2/embeddings");
+      const result = job.data.blockIds?.length
+        ? await embedBlocks(job.data.blockIds)
+        : await backfillBlockEmbeddings();
       await job.updateProgress(100);
-      return { success: true, fileId: job.data.fileId };
+      return { success: result.failed.length === 0, ...result };
+    }
 
-    case "extract_metadata":
+    case "extract_metadata": {
+      if (!job.data.fileId) {
+        throw new Error("fileId is required for extract_metadata");
+      }
+      const { refreshDocumentMetadata } = await import("@/lib/v2/sources/document-processing-service");
+      const result = await refreshDocumentMetadata(job.data.fileId);
       await job.updateProgress(100);
-      return { success: true, fileId: job.data.fileId };
+      return { success: true, ...result };
+    }
+
+    case "batch_document_upload": {
+      const documentIds = job.data.documentIds || [];
+      const { extractStagedDocument } = await import("@/lib/v2/sources/document-processing-service");
+      const failed: Array<{ documentId: string; error: string }> = [];
+      let processed = 0;
+
+      for (const [index, documentId] of documentIds.entries()) {
+        if (job.data.processForContent?.[index] === false) continue;
+        try {
+          await extractStagedDocument(documentId);
+          processed++;
+        } catch (error) {
+          failed.push({ documentId, error: error instanceof Error ? error.message : String(error) });
+        }
+        await job.updateProgress(Math.round(((index + 1) / documentIds.length) * 100));
+      }
+
+      return { success: failed.length === 0, processed, failed };
+    }
 
     default:
       throw new Error(`Unknown file processing job type: ${(job.data as { type: string }).type}`);
@@ -62,31 +128,102 @@ async function processFileJob(job: Job<FileProcessingJobData>): Promise<unknown>
 /**
  * Block Generation Worker (formerly Skill Generation)
  */
-async function processBlockJob(job: Job<SkillGenerationJobData>): Promise<unknown> {
+async function processBlockJob(job: ProcessableJob<SkillGenerationJobData>): Promise<unknown> {
   logQueueEvent("Processing block job", QUEUE_NAMES.SKILL_GENERATION, job.id, {
     type: job.data.type,
     skillId: job.data.skillId,
   });
 
   switch (job.data.type) {
-    case "generate_from_document":
+    case "generate_from_document": {
+      // Produces a draft for review - the draft is stored as the job result, not saved as a block
+      const { documentId } = job.data;
+      if (!documentId) {
+        throw new Error("documentId is required for generate_from_document");
+      }
+
+      const { prisma } = await import("@/lib/prisma");
+      const { extractStagedDocument } = await import("@/lib/v2/sources/document-processing-service");
+      const { generateSkill } = await import("@/lib/v2/skills/skill-generation-service");
+
+      let source = await prisma.stagedSource.findUnique({ where: { id: documentId } });
+      if (!source) {
+        throw new Error(`Staged source not found: ${documentId}`);
+      }
+      if (!source.content && !job.data.documentContent) {
+        await extractStagedDocument(documentId);
+        source = await prisma.stagedSource.findUniqueOrThrow({ where: { id: documentId } });
+      }
       await job.updateProgress(33);
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      await job.updateProgress(66);
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      const output = await generateSkill({
+        sources: [
+          {
+            id: source.id,
+            type: source.sourceType,
+            label: source.title,
+            content: job.data.documentContent || source.content || "",
+          },
+        ],
+        libraryId: source.libraryId as "knowledge" | "it" | "gtm" | "talent" | "customers" | "prompts",
+        isCustomerSkill: !!source.customerId,
+      });
+      await job.updateProgress(100);
+
+      return {
+        success: true,
+        documentId,
+        draft: {
+          title: output.title,
+          content: output.content,
+          summary: output.summary,
+          scopeDefinition: output.scopeDefinition,
+          citations: output.citations,
+          contradictions: output.contradictions,
+        },
+      };
+    }
+
+    case "refresh_skill": {
+      if (!job.data.skillId) {
+        throw new Error("skillId is required for refresh_skill");
+      }
+      const { refreshSkillFromSources } = await import("@/lib/v2/skills/skill-refresh-service");
+      const result = await refreshSkillFromSources(
+        job.data.skillId,
+        job.data.userEmail || job.data.userId || "system:worker"
+      );
       await job.updateProgress(100);
-      return { success: true, skillId: job.data.skillId };
+      return { success: true, ...result };
+    }
 
-    case "refresh_skill":
-      // TODO: Implement block refresh with v2 service
+    case "propose_skill_update": {
+      // Proposals wait on the skill owner in the review queue - nothing is applied here
+      if (!job.data.stagedSourceId) {
+        throw new Error("stagedSourceId is required for propose_skill_update");
+      }
+      const { generateSkillProposals } = await import("@/lib/v2/skills/skill-feedback-service");
+      const proposals = await generateSkillProposals(job.data.stagedSourceId);
       await job.updateProgress(100);
-      return { success: true, skillId: job.data.skillId, message: "Block refresh not yet implemented" };
+      return { success: true, stagedSourceId: job.data.stagedSourceId, proposals };
+    }
 
+    // analyze_coherence is the v1 name for the library-wide consistency check
     case "analyze_coherence":
-      await job.updateProgress(50);
-      await new Promise((resolve) => setTimeout(resolve, 3000));
+    case "scan_contradictions": {
+      // Conflicts wait on the skill owners in the review queue
+      if (!job.data.libraryId) {
+        throw new Error(`libraryId is required for ${job.data.type}`);
+      }
+      const { scanLibraryForContradictions } = await import("@/lib/v2/skills/contradiction-scan-service");
+      const result = await scanLibraryForContradictions(job.data.libraryId as LibraryId, {
+        customerId: job.data.customerId,
+        userId: job.data.userId,
+        onProgress: (compared, total) => job.updateProgress(Math.round((compared / total) * 100)),
+      });
       await job.updateProgress(100);
-      return { success: true };
+      return { success: true, ...result };
+    }
 
     default:
       throw new Error(`Unknown block job type: ${(job.data as { type: string }).type}`);
@@ -96,7 +233,7 @@ async function processBlockJob(job: Job<SkillGenerationJobData>): Promise<unknow
 /**
  * Bulk Operations Worker
  */
-async function processBulkJob(job: Job<BulkOperationsJobData>): Promise<unknown> {
+async function processBulkJob(job: ProcessableJob<BulkOperationsJobData>): Promise<unknown> {
   logQueueEvent("Processing bulk job", QUEUE_NAMES.BULK_OPERATIONS, job.id, {
     type: job.data.type,
   });
@@ -141,6 +278,8 @@ async function processBulkJob(job: Job<BulkOperationsJobData>): Promise<unknown>
         batchSize: batchSize || 25,
         libraryId: ((job.data as { libraryId?: string }).libraryId || "knowledge") as "knowledge" | "it" | "gtm" | "talent" | "customers" | "prompts",
         modelSpeed: ((job.data as { modelSpeed?: string }).modelSpeed || "quality") as "fast" | "quality",
+        userId: job.data.userId,
+        userEmail: job.data.userEmail,
         onBatchComplete: async (batchNumber, totalBatches, processedCount) => {
           const progress = Math.round((batchNumber / totalBatches) * 100);
           await job.updateProgress(progress);
@@ -159,6 +298,38 @@ async function processBulkJob(job: Job<BulkOperationsJobData>): Promise<unknown>
       };
     }
 
+    case "process_contract_analysis": {
+      const { projectId } = job.data;
+      if (!projectId) {
+        throw new Error("projectId is required for process_contract_analysis");
+      }
+
+      const { processContract } = await import("@/lib/v2/contracts/contract-processor");
+
+      // processContract records failures on the project itself rather than throwing
+      const result = await processContract({
+        projectId,
+        skillIds: (job.data as { skillIds?: string[] }).skillIds || [],
+        libraryId: ((job.data as { libraryId?: string }).libraryId || "knowledge") as "knowledge" | "it" | "gtm" | "talent" | "customers" | "prompts",
+        modelSpeed: ((job.data as { modelSpeed?: string }).modelSpeed || "quality") as "fast" | "quality",
+        playbookId: job.data.playbookId,
+      });
+      await job.updateProgress(100);
+
+      return result;
+    }
+
+    case "sync_git": {
+      // Queued by the git provider webhook after a push to a library's branch
+      if (!job.data.libraryId) {
+        throw new Error("libraryId is required for sync_git");
+      }
+      const { importBlocksFromGit } = await import("@/lib/v2/git-sync");
+      const result = await importBlocksFromGit(job.data.libraryId as LibraryId);
+      await job.updateProgress(100);
+      return { success: true, ...result };
+    }
+
     default:
       throw new Error(`Unknown bulk job type: ${(job.data as { type: string }).type}`);
   }
@@ -167,7 +338,7 @@ async function processBulkJob(job: Job<BulkOperationsJobData>): Promise<unknown>
 /**
  * Analytics Worker
  */
-async function processAnalyticsJob(job: Job<AnalyticsJobData>): Promise<unknown> {
+async function processAnalyticsJob(job: ProcessableJob<AnalyticsJobData>): Promise<unknown> {
   logQueueEvent("Processing analytics job", QUEUE_NAMES.ANALYTICS, job.id, {
     type: job.data.type,
   });
@@ -199,7 +370,17 @@ async function processAnalyticsJob(job: Job<AnalyticsJobData>): Promise<unknown>
 /**
  * Integration Discovery Worker
  */
-async function processDiscoveryJob(job: Job<IntegrationDiscoveryJobData>): Promise<unknown> {
+async function processDiscoveryJob(job: ProcessableJob<IntegrationDiscoveryJobData>): Promise<unknown> {
+  if (job.data.type === "resync_connection") {
+    const { connectionId, since } = job.data;
+    logQueueEvent("Processing re-sync job", QUEUE_NAMES.INTEGRATION_DISCOVERY, job.id, { connectionId });
+
+    const { resyncConnection } = await import("@/lib/v2/sources/source-resync-service");
+    const result = await resyncConnection(connectionId, since ? new Date(since) : undefined);
+    await job.updateProgress(100);
+    return { success: true, ...result };
+  }
+
   logQueueEvent("Processing discovery job", QUEUE_NAMES.INTEGRATION_DISCOVERY, job.id, {
     type: job.data.type,
     integrationType: job.data.integrationType,
@@ -367,16 +548,63 @@ async function processDiscoveryJob(job: Job<IntegrationDiscoveryJobData>): Promi
   }
 }
 
+/**
+ * Processors by queue. Contract analysis runs inline in its route today.
+ */
+const PROCESSORS: Partial<Record<QueueName, JobProcessor>> = {
+  [QUEUE_NAMES.FILE_PROCESSING]: processFileJob,
+  [QUEUE_NAMES.SKILL_GENERATION]: processBlockJob,
+  [QUEUE_NAMES.BULK_OPERATIONS]: processBulkJob,
+  [QUEUE_NAMES.ANALYTICS]: processAnalyticsJob,
+  [QUEUE_NAMES.INTEGRATION_DISCOVERY]: processDiscoveryJob,
+};
+
+/**
+ * Run a BackgroundJob mirror update without letting it fail the job
+ * (e.g. jobs enqueued before BackgroundJob mirroring have no row).
+ */
+async function trackJobState(queueName: QueueName, jobId: string | undefined, update: () => Promise<unknown>) {
+  try {
+    await update();
+  } catch (error) {
+    logQueueError(
+      "Failed to update BackgroundJob state",
+      queueName,
+      error instanceof Error ? error : new Error(String(error)),
+      jobId
+    );
+  }
+}
+
+/**
+ * Wrap a processor so BullMQ attempts, results and errors are mirrored into BackgroundJob
+ */
+function withJobTracking(queueName: QueueName, processor: JobProcessor) {
+  return async (job: Job): Promise<unknown> => {
+    const jobId = job.id!;
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts ?? 1;
+
+    await trackJobState(queueName, jobId, () => markJobStarted(jobId, attempt));
+    try {
+      // BullMQ job data is untyped; the processor narrows it by type
+      const result = await processor(job as Job<never>);
+      await trackJobState(queueName, jobId, () => markJobCompleted(jobId, result));
+      return result;
+    } catch (error) {
+      await trackJobState(queueName, jobId, () => markJobFailed(jobId, error, attempt, maxAttempts));
+      throw error;
+    }
+  };
+}
+
 /**
  * Create and start a worker for a specific queue
  */
-function createWorker(
-  queueName: QueueName,
-  processor: (job: Job) => Promise<unknown>
-): Worker {
+function createWorker(queueName: QueueName, processor: JobProcessor): Worker {
   const connection = getRedisConnection();
 
-  const worker = new Worker(queueName, processor, {
+  const worker = new Worker(queueName, withJobTracking(queueName, processor), {
     connection,
     concurrency: 5,
     limiter: {
@@ -408,17 +636,137 @@ function createWorker(
   return worker;
 }
 
+/**
+ * Run a fallback-queue job in this process right away.
+ *
+ * Deployments without Redis have no worker service, so routes call this
+ * (without awaiting) to drain the job they just enqueued. If a
+ * `npm run workers` process claims the job first, this does nothing.
+ * Returns the job's resulting status, or null if it was not run here.
+ */
+export async function runQueuedJobInline(
+  queueName: QueueName,
+  jobId: string
+): Promise<BackgroundJobStatus | null> {
+  const processor = PROCESSORS[queueName];
+  if (!processor) return null;
+
+  try {
+    const claimed = await claimJob(jobId);
+    return claimed ? await runClaimedJob(claimed, processor) : null;
+  } catch (error) {
+    logQueueError(
+      "Inline job run failed",
+      queueName,
+      error instanceof Error ? error : new Error(String(error)),
+      jobId
+    );
+    return null;
+  }
+}
+
+/**
+ * Queue scheduled source re-syncs that are due
+ */
+async function runScheduledResyncs(): Promise<void> {
+  try {
+    const { scheduleDueResyncs } = await import("@/lib/v2/sources/source-resync-service");
+    const queued = await scheduleDueResyncs();
+    if (queued > 0) {
+      logQueueEvent("Scheduled source re-syncs queued", "system", undefined, { queued });
+    }
+  } catch (error) {
+    logQueueError("Scheduling source re-syncs failed", "system", error as Error);
+  }
+}
+
+/**
+ * Roll team token budgets over to the new month
+ */
+async function runMaintenance(): Promise<void> {
+  try {
+    const { reset } = await resetTokenBudgetsForNewPeriod();
+    if (reset > 0) {
+      logQueueEvent("Team token budgets reset", "system", undefined, { reset });
+    }
+  } catch (error) {
+    logQueueError("Token budget reset failed", "system", error as Error);
+  }
+}
+
+/**
+ * Send weekly stale-skill digests once the digest slot has passed
+ */
+async function runFreshnessDigests(): Promise<void> {
+  try {
+    const { runScheduledFreshnessDigests } = await import("@/lib/v2/skills/freshness-service");
+    const result = await runScheduledFreshnessDigests();
+    if (result && result.sent + result.failed > 0) {
+      logQueueEvent("Freshness digests sent", "system", undefined, { ...result });
+    }
+  } catch (error) {
+    logQueueError("Sending freshness digests failed", "system", error as Error);
+  }
+}
+
+/**
+ * Queue the weekly library-wide skill contradiction scans
+ */
+async function runContradictionScans(): Promise<void> {
+  try {
+    const { scheduleContradictionScans } = await import("@/lib/v2/skills/contradiction-scan-service");
+    const queued = await scheduleContradictionScans();
+    if (queued > 0) {
+      logQueueEvent("Skill contradiction scans queued", "system", undefined, { queued });
+    }
+  } catch (error) {
+    logQueueError("Scheduling contradiction scans failed", "system", error as Error);
+  }
+}
+
 /**
  * Start all workers
  */
 export function startWorkers(): void {
-  createWorker(QUEUE_NAMES.FILE_PROCESSING, processFileJob);
-  createWorker(QUEUE_NAMES.SKILL_GENERATION, processBlockJob);
-  createWorker(QUEUE_NAMES.BULK_OPERATIONS, processBulkJob);
-  createWorker(QUEUE_NAMES.ANALYTICS, processAnalyticsJob);
-  createWorker(QUEUE_NAMES.INTEGRATION_DISCOVERY, processDiscoveryJob);
+  if (started) return;
+  started = true;
+
+  const runHourly = () => {
+    void runMaintenance();
+    void runFreshnessDigests();
+    void runContradictionScans();
+  };
+  runHourly();
+  maintenanceTimer = setInterval(runHourly, MAINTENANCE_INTERVAL_MS);
+  resyncTimer = setInterval(() => void runScheduledResyncs(), RESYNC_SCHEDULE_INTERVAL_MS);
+
+  if (!isQueueConfigured()) {
+    postgresWorker = startPostgresWorker(PROCESSORS);
+    logQueueEvent("All workers started", "system", undefined, { backend: "postgres" });
+    return;
+  }
+
+  for (const [queueName, processor] of Object.entries(PROCESSORS)) {
+    createWorker(queueName as QueueName, processor);
+  }
+
+  logQueueEvent("All workers started", "system", undefined, { backend: "redis" });
+}
 
-  logQueueEvent("All workers started", "system");
+/**
+ * Start the workers inside the web server when no worker service can pick
+ * jobs up (no Redis). Returns whether they were started.
+ */
+export function startInProcessWorkers(): boolean {
+  if (isQueueConfigured()) return false;
+
+  if (process.env.QUEUE_IN_PROCESS_WORKERS === "false") {
+    logQueueEvent("In-process workers disabled - background jobs need `npm run workers`", "system");
+    return false;
+  }
+
+  startWorkers();
+  return true;
 }
 
 /**
@@ -427,8 +775,19 @@ export function startWorkers(): void {
 export async function stopWorkers(): Promise<void> {
   logQueueEvent("Stopping workers", "system");
 
-  const closePromises = workers.map((worker) => worker.close());
-  await Promise.all(closePromises);
+  if (maintenanceTimer) {
+    clearInterval(maintenanceTimer);
+    maintenanceTimer = null;
+  }
+  if (resyncTimer) {
+    clearInterval(resyncTimer);
+    resyncTimer = null;
+  }
+
+  const closePromises = workers.splice(0).map((worker) => worker.close());
+  await Promise.all([...closePromises, postgresWorker?.stop()]);
+  postgresWorker = null;
+  started = false;
 
   logQueueEvent("All workers stopped", "system");
 }
@@ -450,7 +809,7 @@ function setupGracefulShutdown(): void {
 /**
  * Run workers as standalone process
  */
-if (require.main === module) {
+if (typeof module !== "undefined" && require.main === module) {
   console.log("Starting background job workers...");
   setupGracefulShutdown();
   startWorkers();
@@ -10,13 +10,14 @@ import { prisma } from "./prisma";
 import { getAnthropicClient } from "./apiHelpers";
 import { CLAUDE_MODEL } from "./config";
 import { slackBotCompositions } from "./v2/prompts/compositions/slack-bot-compositions";
-import { getBlocks } from "./v2/prompts/blocks/core-blocks";
+import { resolveBlocks, getPromptVariants } from "./prompts/prompt-service";
 import { throwCompositionNotFound, throwNoBlocksFound } from "./v2/prompts/errors";
 import { type ThreadContext } from "./slack/thread-context";
 import { rerankSkills } from "./slack/skill-reranker";
 import { getScopeIndex } from "./v2/blocks/block-service";
 import { selectSkillsForQuestions } from "./v2/questions/skill-selection-service";
 import { logUsage } from "./usageTracking";
+import { gateSkillsForChannel, type SkillExclusion } from "./v2/skills/exposure-gate";
 import type { LibraryId } from "@/types/v2";
 
 export interface BotAnswer {
@@ -38,6 +39,9 @@ export interface BotAnswer {
     systemPrompt: string;
     compositionId: string;
     blockIds: string[];
+    promptVariants: Record<string, string>;
+    /** Skills withheld because they are not exposed to the Slack bot */
+    excludedSkills: SkillExclusion[];
   };
 }
 
@@ -77,14 +81,15 @@ interface BuiltBotPrompt {
   systemPrompt: string;
   compositionId: string;
   blockIds: string[];
+  promptVariants: Record<string, string>;
 }
 
 /**
  * Build the system prompt from the V2 prompt composition system.
- * This reads from core-blocks.ts which can be edited in Admin > Prompts.
+ * Blocks resolve with Admin > Prompts overrides (and running A/B experiments).
  * Returns prompt with transparency metadata.
  */
-function buildSystemPrompt(libraryId: BotLibraryId): BuiltBotPrompt {
+async function buildSystemPrompt(libraryId: BotLibraryId): Promise<BuiltBotPrompt> {
   const config = LIBRARY_CONFIGS[libraryId];
 
   // Find the composition for this library
@@ -95,7 +100,7 @@ function buildSystemPrompt(libraryId: BotLibraryId): BuiltBotPrompt {
   }
 
   // Get the blocks for this composition
-  const blocks = getBlocks(composition.blockIds);
+  const blocks = await resolveBlocks(composition.blockIds);
 
   if (blocks.length === 0) {
     throwNoBlocksFound(config.compositionContext, composition.blockIds);
@@ -109,6 +114,7 @@ function buildSystemPrompt(libraryId: BotLibraryId): BuiltBotPrompt {
     systemPrompt,
     compositionId: composition.context,
     blockIds: composition.blockIds,
+    promptVariants: getPromptVariants(blocks),
   };
 }
 
@@ -257,6 +263,10 @@ export async function generateLibraryAnswer(
     }
   }
 
+  // Drop skills that are not exposed to the Slack bot
+  const { allowed: exposedSkills, excluded: excludedSkills } = gateSkillsForChannel(skills, 'slackbot');
+  skills = exposedSkills;
+
   const skillsSearched = skills.length;
 
   // No skills available
@@ -276,7 +286,7 @@ export async function generateLibraryAnswer(
     .join("\n\n---\n\n");
 
   // Build prompt from V2 composition system (editable in Admin > Prompts)
-  const builtPrompt = buildSystemPrompt(libraryId);
+  const builtPrompt = await buildSystemPrompt(libraryId);
 
   // Append skill context
   let systemPrompt = `${builtPrompt.systemPrompt}
@@ -396,6 +406,8 @@ Please answer this question using the knowledge above. If you're not sure or the
       systemPrompt,
       compositionId: builtPrompt.compositionId,
       blockIds: builtPrompt.blockIds,
+      promptVariants: builtPrompt.promptVariants,
+      excludedSkills,
     },
   };
 }
@@ -2,8 +2,12 @@
  * Slack Bot Worker - Socket Mode (Multi-Library Support)
  *
  * This worker maintains persistent WebSocket connections to Slack
- * for receiving events (app_mention, reactions) without needing
- * a public HTTP endpoint.
+ * for receiving events (app_mention, reactions, thread replies) without
+ * needing a public HTTP endpoint.
+ *
+ * Thumbs-down feedback and corrections replied in a bot thread are staged
+ * as skill update proposals (see v2/skills/skill-feedback-service.ts).
+ * Thread replies need the message.channels / message.groups event scopes.
  *
  * Each library can have its own Slack bot with separate credentials:
  * - slack-app-token-{library}: App-level token (xapp-...) with connections:write scope
@@ -22,6 +26,7 @@ import { generateLibraryAnswer, type BotLibraryId } from "./slack-bot-service";
 import { getSecret } from "./secrets";
 import { getIntegrationConnectionName } from "./v2/integrations/integration-config";
 import { fetchThreadContext, type ThreadContext } from "./slack/thread-context";
+import { stageSlackFeedback, type SlackFeedbackInput } from "./v2/skills/skill-feedback-service";
 
 /**
  * Wrap a promise with a timeout
@@ -160,6 +165,7 @@ class SlackBotInstance {
       inputTokens: result.inputTokens,
       outputTokens: result.outputTokens,
       contextWarning: result.contextWarning,
+      promptVariants: result.transparency?.promptVariants,
     };
   }
 
@@ -388,6 +394,7 @@ class SlackBotInstance {
       let inputTokens: number | undefined;
       let outputTokens: number | undefined;
       let contextWarning: string | undefined;
+      let promptVariants: Record<string, string> | undefined;
 
       try {
         const result = await withTimeout(this.generateAnswer(question, threadContext), 25000);
@@ -398,6 +405,7 @@ class SlackBotInstance {
         inputTokens = result.inputTokens;
         outputTokens = result.outputTokens;
         contextWarning = result.contextWarning;
+        promptVariants = result.promptVariants;
       } catch (aiError) {
         logger.warn("AI generation timeout or error", aiError, { question, channel, library: this.libraryId });
         answer = "I'm taking too long to think about that question. Please try again or contact support for urgent issues.";
@@ -471,6 +479,7 @@ class SlackBotInstance {
           responseTimeMs,
           inputTokens,
           outputTokens,
+          promptVariants: promptVariants || {},
           ...(this.libraryId && { libraryId: this.libraryId }),
         },
       });
@@ -556,6 +565,65 @@ class SlackBotInstance {
         wasHelpful,
         reaction,
       });
+
+      if (!wasHelpful) {
+        await this.stageFeedback({ interactionId: interaction.id, kind: "not_helpful", by: user });
+      }
+    }
+  }
+
+  /**
+   * Handle thread replies - a reply to a bot answer from someone other than
+   * the asker is treated as an expert correction
+   */
+  private async handleThreadReply(event: {
+    type: string;
+    subtype?: string;
+    bot_id?: string;
+    user?: string;
+    text?: string;
+    ts: string;
+    channel: string;
+    thread_ts?: string;
+  }): Promise<void> {
+    const { subtype, bot_id, user, text, ts, channel, thread_ts } = event;
+
+    if (!this.webClient) return;
+
+    // Only plain human replies inside a thread
+    if (subtype || bot_id || !user || !text || !thread_ts || thread_ts === ts) return;
+
+    // Mentions of the bot are follow-up questions, handled by app_mention
+    const botId = await this.getBotUserId();
+    if (user === botId || text.includes(`<@${botId}>`)) return;
+
+    const interaction = await prisma.slackBotInteraction.findFirst({
+      where: {
+        slackChannelId: channel,
+        slackThreadTs: thread_ts,
+        libraryId: this.libraryId,
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    if (!interaction || interaction.slackUserId === user) return;
+
+    await this.stageFeedback({ interactionId: interaction.id, kind: "correction", by: user, text });
+  }
+
+  /**
+   * Stage negative feedback so the skills behind the answer get an update proposal
+   */
+  private async stageFeedback(input: SlackFeedbackInput): Promise<void> {
+    try {
+      await stageSlackFeedback(input);
+    } catch (error) {
+      logger.error("Failed to stage Slack bot feedback", error, {
+        library: this.libraryId,
+        interactionId: input.interactionId,
+      });
     }
   }
 
@@ -605,6 +673,14 @@ class SlackBotInstance {
           wasHelpful,
           user: payload.user.username,
         });
+
+        if (!wasHelpful) {
+          await this.stageFeedback({
+            interactionId: interaction.id,
+            kind: "not_helpful",
+            by: payload.user.name,
+          });
+        }
       }
 
       try {
@@ -669,6 +745,12 @@ class SlackBotInstance {
       await this.handleReaction(event);
     });
 
+    // Handle thread replies (corrections to bot answers)
+    this.socketClient.on("message", async ({ event, ack }) => {
+      await ack();
+      await this.handleThreadReply(event);
+    });
+
     // Handle interactive components
     this.socketClient.on("interactive", async ({ body, ack }) => {
       await ack();
@@ -335,6 +335,24 @@ export async function fetchUser(userId: string): Promise<SlackUser> {
   return response.user;
 }
 
+/**
+ * Look up a workspace member by email (users:read.email scope).
+ * Returns null when no member has that email.
+ */
+export async function lookupUserByEmail(email: string): Promise<SlackUser | null> {
+  try {
+    const response = await slackRequest<UsersInfoResponse>(
+      `users.lookupByEmail?email=${encodeURIComponent(email)}`
+    );
+    return response.user;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("users_not_found")) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Fetch multiple users (batched)
  */
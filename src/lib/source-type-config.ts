@@ -12,6 +12,8 @@ import {
   Phone,
   File,
   BarChart3,
+  BookOpen,
+  HardDrive,
   type LucideIcon,
 } from 'lucide-react';
 import type { SourceType } from '@/types/v2';
@@ -91,6 +93,22 @@ export const SOURCE_TYPE_CONFIGS: Record<SourceType, SourceTypeConfig> = {
     bgColorClass: 'bg-indigo-50',
     description: 'Analytics dashboards from Looker',
   },
+  confluence: {
+    label: 'Confluence Page',
+    labelPlural: 'Confluence Pages',
+    icon: BookOpen,
+    colorClass: 'text-sky-600',
+    bgColorClass: 'bg-sky-50',
+    description: 'Documentation from Confluence spaces',
+  },
+  gdrive: {
+    label: 'Drive File',
+    labelPlural: 'Drive Files',
+    icon: HardDrive,
+    colorClass: 'text-emerald-600',
+    bgColorClass: 'bg-emerald-50',
+    description: 'Docs and files from Google Drive folders',
+  },
 };
 
 /**
@@ -124,6 +142,8 @@ export const SOURCE_TYPE_DISPLAY_ORDER: SourceType[] = [
   'zendesk',
   'document',
   'notion',
+  'confluence',
+  'gdrive',
   'url',
   'looker',
 ];
@@ -0,0 +1,125 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Used by streaming API routes to send events and by clients (and
+ * OpenAI-compatible LLM providers) to read them. No server-only imports,
+ * so this module is safe in client components.
+ *
+ * Streaming routes emit:
+ * - `text`  { delta }    - answer text as it is generated
+ * - `done`  { ...payload } - final structured payload (transparency, ids)
+ * - `error` { error }    - the request failed; no `done` follows
+ */
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+export type SSESend = (event: string, data: unknown) => void;
+
+/**
+ * Encode one SSE event.
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  const lines = payload.split("\n").map((line) => `data: ${line}`).join("\n");
+  return `event: ${event}\n${lines}\n\n`;
+}
+
+/**
+ * Build a text/event-stream Response driven by `handler`.
+ *
+ * The AbortSignal passed to the handler fires when the client disconnects
+ * (request signal or stream cancel), so the handler can stop the LLM call
+ * and persist what it has.
+ */
+export function createSSEResponse(
+  handler: (send: SSESend, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): Response {
+  const controller = new AbortController();
+  const encoder = new TextEncoder();
+  requestSignal?.addEventListener("abort", () => controller.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send: SSESend = (event, data) => {
+        if (controller.signal.aborted) return;
+        try {
+          streamController.enqueue(encoder.encode(encodeSSE(event, data)));
+        } catch {
+          // Stream already closed by the client
+          controller.abort();
+        }
+      };
+
+      try {
+        await handler(send, controller.signal);
+      } finally {
+        try {
+          streamController.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/**
+ * Read an SSE body, calling `onMessage` for each complete event.
+ * Events without an `event:` field are reported as "message".
+ */
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+    if (data.length > 0) {
+      onMessage({ event, data: data.join("\n") });
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) {
+    flush(buffer);
+  }
+}
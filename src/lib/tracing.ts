@@ -19,6 +19,7 @@ export type TraceContext = {
   parentTraceId?: string;
   userId?: string;
   userEmail?: string;
+  teamId?: string;
 };
 
 export type TraceInput = {
@@ -27,6 +28,8 @@ export type TraceInput = {
   systemPrompt?: string;
   userMessage?: string;
   skills?: { id: string; title: string }[];
+  /** blockId -> A/B variant id served by a running prompt experiment */
+  promptVariants?: Record<string, string>;
 };
 
 export type TraceOutput = {
@@ -70,6 +73,7 @@ export function startTrace(
     parentTraceId?: string;
     userId?: string;
     userEmail?: string;
+    teamId?: string;
   }
 ): TraceContext {
   return {
@@ -80,6 +84,7 @@ export function startTrace(
     parentTraceId: options?.parentTraceId,
     userId: options?.userId,
     userEmail: options?.userEmail,
+    teamId: options?.teamId,
   };
 }
 
@@ -102,7 +107,8 @@ export async function recordTrace(
       output.inputTokens,
       output.outputTokens,
       output.cacheCreationTokens,
-      output.cacheReadTokens
+      output.cacheReadTokens,
+      input.provider
     );
 
     const trace = await prisma.lLMTrace.create({
@@ -124,8 +130,10 @@ export async function recordTrace(
           parentTraceId: context.parentTraceId,
           userId: context.userId,
           userEmail: context.userEmail,
+          teamId: context.teamId,
           promptHash: input.systemPrompt ? hashPrompt(input.systemPrompt) : null,
           skills: input.skills,
+          promptVariants: input.promptVariants,
           entityLink,
           cacheCreationTokens: output.cacheCreationTokens,
           cacheReadTokens: output.cacheReadTokens,
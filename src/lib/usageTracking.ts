@@ -8,8 +8,10 @@
 import prisma from "./prisma";
 import { logger } from "@/lib/logger";
 
+type ModelPricing = { input: number; output: number };
+
 // Claude API pricing (per 1M tokens)
-const PRICING = {
+const ANTHROPIC_PRICING: Record<string, ModelPricing> = {
   "claude-sonnet-4-20250514": {
     input: 3.0,
     output: 15.0,
@@ -30,9 +32,24 @@ const PRICING = {
     input: 3.0,
     output: 15.0,
   },
-} as const;
+};
 
-type ModelKey = keyof typeof PRICING;
+// Per-provider pricing (per 1M tokens). Local and mock models cost nothing.
+const PROVIDER_PRICING: Record<string, Record<string, ModelPricing>> = {
+  anthropic: ANTHROPIC_PRICING,
+  bedrock: {
+    "us.anthropic.claude-sonnet-4-20250514-v1:0": { input: 3.0, output: 15.0 },
+    "us.anthropic.claude-3-5-haiku-20241022-v1:0": { input: 0.8, output: 4.0 },
+    default: ANTHROPIC_PRICING.default,
+  },
+  openai: {
+    "gpt-4o": { input: 2.5, output: 10.0 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    default: { input: 2.5, output: 10.0 },
+  },
+  local: { default: { input: 0, output: 0 } },
+  mock: { default: { input: 0, output: 0 } },
+};
 
 export interface UsageData {
   userId?: string | null;
@@ -48,15 +65,18 @@ export interface UsageData {
 
 /**
  * Calculate the estimated cost for a given usage.
+ * Unknown models fall back to the provider's default rate.
  */
 export function calculateCost(
   model: string,
   inputTokens: number,
   outputTokens: number,
   cacheCreationTokens?: number,
-  cacheReadTokens?: number
+  cacheReadTokens?: number,
+  provider: string = "anthropic"
 ): number {
-  const pricing = PRICING[model as ModelKey] || PRICING.default;
+  const table = PROVIDER_PRICING[provider] || ANTHROPIC_PRICING;
+  const pricing = table[model] || table.default;
 
   const nonCachedInputTokens = inputTokens - (cacheCreationTokens || 0) - (cacheReadTokens || 0);
   const baseCost = (Math.max(0, nonCachedInputTokens) / 1_000_000) * pricing.input;
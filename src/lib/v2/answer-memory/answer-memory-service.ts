@@ -0,0 +1,486 @@
+/**
+ * AnswerMemoryService - Reuse approved answers for repeat RFP questions
+ *
+ * Project rows and question history entries that a reviewer approved or
+ * corrected are indexed into AnswerMemory (question text, final answer and
+ * a question embedding). When a new RFP is uploaded, each question is
+ * compared against that memory; duplicates are pre-filled with the approved
+ * answer and its provenance instead of being sent to the LLM. Near-duplicates
+ * (by embedding) only count when a semantic embedding provider is configured -
+ * the local hashing model scores "EU" vs "US" residency as the same question.
+ *
+ * Reused rows are requested for review and stay visible as reused until a
+ * reviewer accepts them or regenerates the answer from skills.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { cosineSimilarity, getEmbeddingProvider } from '@/lib/v2/embeddings';
+import { describeReuse, type AnswerMemorySourceType, type ReusedAnswerProvenance } from './provenance';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AnswerMemoryMatch {
+  answer: string;
+  provenance: ReusedAnswerProvenance;
+}
+
+interface ReviewableRecord {
+  reviewStatus: string | null;
+  userEditedAnswer: string | null;
+  outputData: Prisma.JsonValue | null;
+}
+
+/** Minimum similarity for a question to count as a near-duplicate (semantic providers only) */
+export const DEFAULT_REUSE_THRESHOLD = 0.9;
+
+/**
+ * Most recent approved answers compared by embedding on each upload.
+ * Exact duplicates are looked up separately, so they match past this cap.
+ */
+export const MAX_SIMILARITY_CANDIDATES = 500;
+
+const APPROVED_REVIEW_STATUSES = ['APPROVED', 'CORRECTED'];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Normalize a question for exact-duplicate detection: drops numbering
+ * prefixes ("1.2", "Q5:"), punctuation and case.
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/^\s*(q\s*)?[\d.]+[).:-]?\s+/, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Final answer for a reviewed record, or null if it was never approved or edited.
+ * Reviewer edits win over the generated response.
+ */
+export function getApprovedAnswer(record: ReviewableRecord): string | null {
+  const edited = record.userEditedAnswer?.trim();
+  if (edited) return edited;
+
+  if (!record.reviewStatus || !APPROVED_REVIEW_STATUSES.includes(record.reviewStatus)) {
+    return null;
+  }
+
+  const output = (record.outputData as Record<string, unknown> | null) || {};
+  const response = typeof output.response === 'string' ? output.response.trim() : '';
+  return response || null;
+}
+
+/** Library a project answers from (stored in BulkProject.config at upload) */
+function getProjectLibraryId(config: Prisma.JsonValue | null): string {
+  const libraryId = (config as Record<string, unknown> | null)?.libraryId;
+  return typeof libraryId === 'string' && libraryId ? libraryId : 'knowledge';
+}
+
+export function getReusedFrom(outputData: Prisma.JsonValue | null): ReusedAnswerProvenance | null {
+  const output = outputData as Record<string, unknown> | null;
+  return (output?.reusedFrom as ReusedAnswerProvenance | undefined) || null;
+}
+
+async function getReviewerName(userId: string | null): Promise<string | undefined> {
+  if (!userId) return undefined;
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { name: true, email: true },
+  });
+  return user?.name || user?.email || undefined;
+}
+
+// =============================================================================
+// WRITE PATH
+// =============================================================================
+
+interface MemoryEntryInput {
+  sourceType: AnswerMemorySourceType;
+  sourceId: string;
+  question: string;
+  answer: string;
+  libraryId: string;
+  customerId: string | null;
+  projectId?: string;
+  projectName?: string;
+  rowNumber?: number;
+  approvedBy?: string;
+  approvedAt: Date;
+}
+
+async function upsertMemoryEntry(entry: MemoryEntryInput): Promise<void> {
+  const provider = getEmbeddingProvider();
+  const [vector] = await provider.embed([entry.question]);
+
+  const data = {
+    question: entry.question,
+    normalizedQuestion: normalizeQuestion(entry.question),
+    answer: entry.answer,
+    libraryId: entry.libraryId,
+    customerId: entry.customerId,
+    projectId: entry.projectId,
+    projectName: entry.projectName,
+    rowNumber: entry.rowNumber,
+    approvedBy: entry.approvedBy,
+    approvedAt: entry.approvedAt,
+    embeddingModel: provider.model,
+    vector,
+  };
+
+  await prisma.answerMemory.upsert({
+    where: { sourceType_sourceId: { sourceType: entry.sourceType, sourceId: entry.sourceId } },
+    create: { sourceType: entry.sourceType, sourceId: entry.sourceId, ...data },
+    update: data,
+  });
+}
+
+async function removeMemoryEntry(sourceType: AnswerMemorySourceType, sourceId: string): Promise<void> {
+  await prisma.answerMemory.deleteMany({ where: { sourceType, sourceId } });
+}
+
+/**
+ * Index (or un-index) a project row. Rows that were themselves pre-filled
+ * from memory are skipped unless a reviewer changed the answer, so reuse
+ * never creates copies of the same entry.
+ */
+async function indexProjectRow(rowId: string): Promise<boolean> {
+  const row = await prisma.bulkRow.findUnique({
+    where: { id: rowId },
+    include: { project: { select: { id: true, name: true, customerId: true, projectType: true, config: true } } },
+  });
+
+  if (!row || row.project.projectType !== 'rfp') {
+    await removeMemoryEntry('project_row', rowId);
+    return false;
+  }
+
+  const question = String((row.inputData as Record<string, unknown>)?.question || '').trim();
+  const answer = getApprovedAnswer(row);
+  const reusedFrom = getReusedFrom(row.outputData);
+
+  if (!question || !answer || (reusedFrom && !row.userEditedAnswer)) {
+    await removeMemoryEntry('project_row', rowId);
+    return false;
+  }
+
+  await upsertMemoryEntry({
+    sourceType: 'project_row',
+    sourceId: row.id,
+    question,
+    answer,
+    libraryId: getProjectLibraryId(row.project.config),
+    customerId: row.project.customerId,
+    projectId: row.project.id,
+    projectName: row.project.name,
+    rowNumber: row.rowNumber,
+    approvedBy: await getReviewerName(row.reviewedBy),
+    approvedAt: row.reviewedAt || row.updatedAt,
+  });
+  return true;
+}
+
+async function indexQuestion(questionId: string): Promise<boolean> {
+  const record = await prisma.v2QuestionHistory.findUnique({ where: { id: questionId } });
+
+  const answer = record ? getApprovedAnswer(record) : null;
+  if (!record || !answer || !record.question.trim()) {
+    await removeMemoryEntry('question', questionId);
+    return false;
+  }
+
+  await upsertMemoryEntry({
+    sourceType: 'question',
+    sourceId: record.id,
+    question: record.question.trim(),
+    answer,
+    libraryId: record.library,
+    customerId: null,
+    approvedBy: await getReviewerName(record.reviewedBy),
+    approvedAt: record.reviewedAt || record.updatedAt,
+  });
+  return true;
+}
+
+/**
+ * Bring the memory entry for a reviewed row/question in line with its
+ * current review state. Call after any review or answer edit.
+ *
+ * Never throws - answer memory is an optimization and must not fail the
+ * review write.
+ */
+export async function syncAnswerMemory(
+  sourceType: AnswerMemorySourceType,
+  sourceId: string
+): Promise<void> {
+  try {
+    if (sourceType === 'project_row') {
+      await indexProjectRow(sourceId);
+    } else {
+      await indexQuestion(sourceId);
+    }
+  } catch (error) {
+    logger.error('Failed to sync answer memory', error, { sourceType, sourceId });
+  }
+}
+
+/**
+ * Index every approved or corrected row and question. Safe to re-run.
+ */
+export async function backfillAnswerMemory(): Promise<{ indexed: number; skipped: number; failed: string[] }> {
+  const reviewedWhere = {
+    OR: [
+      { reviewStatus: { in: APPROVED_REVIEW_STATUSES } },
+      { userEditedAnswer: { not: null } },
+    ],
+  };
+
+  const [rows, questions] = await Promise.all([
+    prisma.bulkRow.findMany({ where: reviewedWhere, select: { id: true } }),
+    prisma.v2QuestionHistory.findMany({ where: reviewedWhere, select: { id: true } }),
+  ]);
+
+  let indexed = 0;
+  let skipped = 0;
+  const failed: string[] = [];
+
+  const jobs: Array<[AnswerMemorySourceType, string]> = [
+    ...rows.map(r => ['project_row', r.id] as [AnswerMemorySourceType, string]),
+    ...questions.map(q => ['question', q.id] as [AnswerMemorySourceType, string]),
+  ];
+
+  for (const [sourceType, sourceId] of jobs) {
+    try {
+      const wasIndexed = sourceType === 'project_row'
+        ? await indexProjectRow(sourceId)
+        : await indexQuestion(sourceId);
+      if (wasIndexed) indexed++;
+      else skipped++;
+    } catch (error) {
+      logger.error('Failed to index answer memory entry', error, { sourceType, sourceId });
+      failed.push(sourceId);
+    }
+  }
+
+  return { indexed, skipped, failed };
+}
+
+// =============================================================================
+// READ PATH
+// =============================================================================
+
+/**
+ * Find the best approved answer for each question, or null when nothing is
+ * similar enough. Candidates are the library's shared answers plus the
+ * customer's own; customer-specific answers only match for the same customer.
+ *
+ * Without a semantic embedding provider only exact (normalized) duplicates match.
+ */
+export async function findReusableAnswers(
+  questions: string[],
+  options: { libraryId: string; customerId?: string | null; threshold?: number }
+): Promise<Array<AnswerMemoryMatch | null>> {
+  if (questions.length === 0) return [];
+
+  const threshold = options.threshold ?? DEFAULT_REUSE_THRESHOLD;
+  const provider = getEmbeddingProvider();
+
+  const scope: Prisma.AnswerMemoryWhereInput = {
+    embeddingModel: provider.model,
+    OR: [
+      { libraryId: options.libraryId, customerId: null },
+      ...(options.customerId ? [{ customerId: options.customerId }] : []),
+    ],
+  };
+  const normalized = [...new Set(questions.map(normalizeQuestion).filter(Boolean))];
+
+  const [exactMatches, candidates] = await Promise.all([
+    prisma.answerMemory.findMany({
+      where: { ...scope, normalizedQuestion: { in: normalized } },
+      orderBy: { approvedAt: 'desc' },
+    }),
+    provider.semantic
+      ? prisma.answerMemory.findMany({
+          where: scope,
+          orderBy: { approvedAt: 'desc' },
+          take: MAX_SIMILARITY_CANDIDATES,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  if (exactMatches.length === 0 && candidates.length === 0) return questions.map(() => null);
+
+  const byNormalized = new Map<string, (typeof candidates)[number]>();
+  for (const candidate of exactMatches) {
+    // Newest approval wins for exact duplicates (sorted newest first)
+    if (!byNormalized.has(candidate.normalizedQuestion)) {
+      byNormalized.set(candidate.normalizedQuestion, candidate);
+    }
+  }
+
+  const vectors = candidates.length > 0 ? await provider.embed(questions) : [];
+
+  return questions.map((question, idx) => {
+    let best = byNormalized.get(normalizeQuestion(question));
+    let similarity = best ? 1 : 0;
+
+    if (!best) {
+      for (const candidate of candidates) {
+        const score = cosineSimilarity(vectors[idx], candidate.vector);
+        if (score > similarity) {
+          best = candidate;
+          similarity = score;
+        }
+      }
+    }
+
+    if (!best || similarity < threshold) return null;
+
+    return {
+      answer: best.answer,
+      provenance: {
+        memoryId: best.id,
+        sourceType: best.sourceType as AnswerMemorySourceType,
+        sourceId: best.sourceId,
+        projectId: best.projectId || undefined,
+        projectName: best.projectName || undefined,
+        rowNumber: best.rowNumber ?? undefined,
+        approvedBy: best.approvedBy || undefined,
+        approvedAt: best.approvedAt.toISOString(),
+        originalQuestion: best.question,
+        similarity: Math.min(1, Math.round(similarity * 1000) / 1000),
+      },
+    };
+  });
+}
+
+// =============================================================================
+// PROJECT INTEGRATION
+// =============================================================================
+
+/**
+ * Pre-fill pending rows of a project with reusable answers.
+ * Reused rows are marked COMPLETED so batch processing skips them, and are
+ * requested for review - a reused answer is never approved automatically.
+ */
+export async function prefillReusedAnswers(
+  projectId: string,
+  options: { threshold?: number } = {}
+): Promise<{ reused: number }> {
+  const project = await prisma.bulkProject.findUnique({
+    where: { id: projectId },
+    select: { customerId: true, config: true },
+  });
+  if (!project) {
+    throw new Error(`Project not found: ${projectId}`);
+  }
+
+  const rows = await prisma.bulkRow.findMany({
+    where: { projectId, status: 'PENDING' },
+    select: { id: true, inputData: true },
+    orderBy: { rowNumber: 'asc' },
+  });
+
+  const questions = rows.map(r => String((r.inputData as Record<string, unknown>)?.question || ''));
+  const matches = await findReusableAnswers(questions, {
+    libraryId: getProjectLibraryId(project.config),
+    customerId: project.customerId,
+    threshold: options.threshold,
+  });
+
+  let reused = 0;
+  for (const [idx, match] of matches.entries()) {
+    if (!match || !questions[idx].trim()) continue;
+
+    await prisma.bulkRow.update({
+      where: { id: rows[idx].id },
+      data: {
+        status: 'COMPLETED',
+        processedAt: new Date(),
+        reviewStatus: 'REQUESTED',
+        reviewRequestedAt: new Date(),
+        reviewNote: 'Reused from answer memory - confirm it applies to this question',
+        outputData: {
+          response: match.answer,
+          confidence: match.provenance.similarity === 1 ? 'Medium' : 'Low',
+          reasoning: describeReuse(match.provenance),
+          reusedFrom: match.provenance,
+        } as unknown as Prisma.InputJsonValue,
+      },
+    });
+    reused++;
+  }
+
+  return { reused };
+}
+
+/**
+ * Reviewer keeps a reused answer. Approves the row and counts as a reuse of
+ * the memory entry.
+ */
+export async function acceptReusedAnswer(rowId: string, userId: string): Promise<ReusedAnswerProvenance> {
+  const row = await prisma.bulkRow.findUniqueOrThrow({ where: { id: rowId } });
+  const reusedFrom = getReusedFrom(row.outputData);
+  if (!reusedFrom) {
+    throw new Error('Row does not have a reused answer');
+  }
+
+  const accepted: ReusedAnswerProvenance = {
+    ...reusedFrom,
+    acceptedAt: new Date().toISOString(),
+    acceptedBy: userId,
+  };
+
+  await prisma.bulkRow.update({
+    where: { id: rowId },
+    data: {
+      reviewStatus: 'APPROVED',
+      reviewedAt: new Date(),
+      reviewedBy: userId,
+      outputData: {
+        ...(row.outputData as Prisma.JsonObject),
+        reusedFrom: accepted,
+      } as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  if (!reusedFrom.acceptedAt) {
+    await prisma.answerMemory.updateMany({
+      where: { id: reusedFrom.memoryId },
+      data: { reuseCount: { increment: 1 }, lastReusedAt: new Date() },
+    });
+  }
+
+  return accepted;
+}
+
+/**
+ * Reviewer rejects a reused answer. The row goes back to PENDING so the
+ * next batch run (or a single-row rerun) generates it from skills.
+ */
+export async function discardReusedAnswer(rowId: string): Promise<void> {
+  const row = await prisma.bulkRow.findUniqueOrThrow({ where: { id: rowId } });
+  if (!getReusedFrom(row.outputData)) {
+    throw new Error('Row does not have a reused answer');
+  }
+
+  await prisma.bulkRow.update({
+    where: { id: rowId },
+    data: {
+      status: 'PENDING',
+      processedAt: null,
+      outputData: {},
+      reviewStatus: null,
+      reviewRequestedAt: null,
+      reviewNote: null,
+    },
+  });
+}
@@ -0,0 +1,5 @@
+/**
+ * Answer Memory Exports
+ */
+export * from './answer-memory-service';
+export * from './provenance';
@@ -0,0 +1,35 @@
+/**
+ * Reused-answer provenance - kept free of server imports so the project UI can use it.
+ */
+
+export type AnswerMemorySourceType = 'project_row' | 'question';
+
+export interface ReusedAnswerProvenance {
+  memoryId: string;
+  sourceType: AnswerMemorySourceType;
+  sourceId: string;
+  projectId?: string;
+  projectName?: string;
+  rowNumber?: number;
+  approvedBy?: string;
+  approvedAt: string;
+  /** Question the answer was originally approved for */
+  originalQuestion: string;
+  /** Cosine similarity to the new question (1 for exact matches) */
+  similarity: number;
+  acceptedAt?: string;
+  acceptedBy?: string;
+}
+
+/**
+ * Human-readable provenance, e.g. "Reused from Acme SIG 2025 row 42, approved by Jane Doe"
+ */
+export function describeReuse(provenance: ReusedAnswerProvenance): string {
+  const origin =
+    provenance.sourceType === 'project_row'
+      ? `${provenance.projectName || 'a previous project'} row ${provenance.rowNumber ?? '?'}`
+      : 'a previously answered question';
+  return provenance.approvedBy
+    ? `Reused from ${origin}, approved by ${provenance.approvedBy}`
+    : `Reused from ${origin}`;
+}
@@ -0,0 +1,239 @@
+/**
+ * ApiKeyService - Issue, verify and revoke API keys for headless access
+ *
+ * Keys are shown to the user exactly once at creation. Only a SHA-256 hash
+ * and a short display prefix are persisted in the ApiKey table.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import type { ApiKey, Prisma } from '@prisma/client';
+import type { ApiKeyScope } from './scopes';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const API_KEY_PREFIX = 'tt_';
+
+/** Requests per minute applied when a key has no explicit rateLimit. */
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+
+export interface CreateApiKeyInput {
+  name: string;
+  userId: string;
+  teamId?: string;
+  scopes: ApiKeyScope[];
+  rateLimit?: number;
+  expiresAt?: Date;
+}
+
+/** ApiKey without the hash - safe to return from API routes. */
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface CreatedApiKey {
+  apiKey: ApiKeySummary;
+  /** Plaintext key. Never persisted - return it to the caller once. */
+  plaintextKey: string;
+}
+
+export type ApiKeyVerification =
+  | { valid: true; apiKey: ApiKeySummary }
+  | { valid: false; reason: 'not_found' | 'revoked' | 'expired' };
+
+export interface ApiKeyUsageContext {
+  scope: ApiKeyScope;
+  method: string;
+  path: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const summarySelect = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  teamId: true,
+  userId: true,
+  scopes: true,
+  rateLimit: true,
+  status: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  createdAt: true,
+  revokedAt: true,
+} satisfies Prisma.ApiKeySelect;
+
+// =============================================================================
+// KEY MATERIAL
+// =============================================================================
+
+/**
+ * Generate a new random plaintext key.
+ */
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Hash a plaintext key for storage and lookup.
+ */
+export function hashApiKey(plaintextKey: string): string {
+  return createHash('sha256').update(plaintextKey).digest('hex');
+}
+
+/**
+ * Display prefix used to identify a key in the UI without revealing it.
+ */
+export function getKeyPrefix(plaintextKey: string): string {
+  return plaintextKey.slice(0, API_KEY_PREFIX.length + 8);
+}
+
+/**
+ * Extract an API key from an `Authorization: Bearer <key>` header.
+ * Returns null for missing headers or bearer tokens that are not API keys.
+ */
+export function parseBearerApiKey(authorization: string | null): string | null {
+  if (!authorization) return null;
+
+  const match = authorization.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(API_KEY_PREFIX)) return null;
+
+  return match[1];
+}
+
+// =============================================================================
+// CREATE / LIST / REVOKE
+// =============================================================================
+
+/**
+ * Issue a new API key and record the issuance in the audit log.
+ */
+export async function createApiKey(input: CreateApiKeyInput): Promise<CreatedApiKey> {
+  const plaintextKey = generateApiKey();
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      keyHash: hashApiKey(plaintextKey),
+      keyPrefix: getKeyPrefix(plaintextKey),
+      userId: input.userId,
+      teamId: input.teamId,
+      scopes: input.scopes,
+      rateLimit: input.rateLimit,
+      expiresAt: input.expiresAt,
+    },
+    select: summarySelect,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: 'api_key.created',
+      actorId: input.userId,
+      actorType: 'user',
+      targetType: 'api_key',
+      targetId: apiKey.id,
+      teamId: input.teamId,
+      data: { name: input.name, scopes: input.scopes, keyPrefix: apiKey.keyPrefix },
+    },
+  });
+
+  return { apiKey, plaintextKey };
+}
+
+/**
+ * List keys. Pass a userId to restrict to keys issued by that user.
+ */
+export async function listApiKeys(userId?: string): Promise<ApiKeySummary[]> {
+  return prisma.apiKey.findMany({
+    where: userId ? { userId } : {},
+    select: summarySelect,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function getApiKeyById(id: string): Promise<ApiKeySummary | null> {
+  return prisma.apiKey.findUnique({
+    where: { id },
+    select: summarySelect,
+  });
+}
+
+/**
+ * Revoke a key. Revoked keys are kept for audit purposes.
+ */
+export async function revokeApiKey(id: string, revokedBy: string): Promise<ApiKeySummary> {
+  const apiKey = await prisma.apiKey.update({
+    where: { id },
+    data: { status: 'REVOKED', revokedAt: new Date() },
+    select: summarySelect,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      eventType: 'api_key.revoked',
+      actorId: revokedBy,
+      actorType: 'user',
+      targetType: 'api_key',
+      targetId: id,
+      teamId: apiKey.teamId,
+      data: { name: apiKey.name, keyPrefix: apiKey.keyPrefix },
+    },
+  });
+
+  return apiKey;
+}
+
+// =============================================================================
+// VERIFY / USAGE
+// =============================================================================
+
+/**
+ * Look up a plaintext key and check that it is active and unexpired.
+ */
+export async function verifyApiKey(plaintextKey: string): Promise<ApiKeyVerification> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(plaintextKey) },
+    select: summarySelect,
+  });
+
+  if (!apiKey) return { valid: false, reason: 'not_found' };
+  if (apiKey.status !== 'ACTIVE' || apiKey.revokedAt) return { valid: false, reason: 'revoked' };
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, apiKey };
+}
+
+export function hasScope(apiKey: Pick<ApiKeySummary, 'scopes'>, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope);
+}
+
+/**
+ * Stamp lastUsedAt and write an `api`-actor audit entry for a key request.
+ */
+export async function recordApiKeyUsage(
+  apiKey: Pick<ApiKeySummary, 'id' | 'userId' | 'teamId'>,
+  context: ApiKeyUsageContext
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    }),
+    prisma.auditLog.create({
+      data: {
+        eventType: 'api_key.used',
+        actorId: apiKey.userId,
+        actorType: 'api',
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        teamId: apiKey.teamId,
+        data: { scope: context.scope, method: context.method, path: context.path },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    }),
+  ]);
+}
@@ -0,0 +1,5 @@
+/**
+ * API Key Service Exports
+ */
+export * from './api-key-service';
+export * from './scopes';
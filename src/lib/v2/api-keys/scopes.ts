@@ -0,0 +1,11 @@
+/**
+ * API key scopes - kept free of server imports so the admin UI can use them.
+ */
+
+export const API_KEY_SCOPES = ['read:blocks', 'write:blocks', 'chat', 'rfp', 'scim'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,457 @@
+/**
+ * AuditLogService - System-wide audit events
+ *
+ * Writes security-relevant events (block, source, assignment, team, project,
+ * prompt and integration changes) to the AuditLog table and reads them back
+ * for the admin audit log and SOC 2 evidence exports.
+ *
+ * This is separate from the per-skill history kept in
+ * BuildingBlock.attributes.auditLog (see src/lib/v2/audit.ts), which is
+ * shown on the skill page and travels with the block.
+ *
+ * Recording never throws: a failed audit write is logged and the caller's
+ * operation continues.
+ */
+
+import { z } from 'zod';
+import type { AuditLog, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { parseBearerApiKey } from '@/lib/v2/api-keys';
+import { validateBody } from '@/lib/validations';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AuditActorType = 'user' | 'system' | 'api';
+
+export type AuditTargetType =
+  | 'block'
+  | 'source'
+  | 'assignment'
+  | 'team'
+  | 'project'
+  | 'prompt'
+  | 'integration'
+  | 'user'
+  | 'group_mapping'
+  | 'directory_group'
+  | 'audit_log';
+
+export const AUDIT_EVENT_TYPES = [
+  'block.created',
+  'block.updated',
+  'block.activated',
+  'block.archived',
+  'block.deleted',
+  'block.restored',
+  'block.review_requested',
+  'block.git_conflict',
+  'block.git_conflict_resolved',
+  'source.staged',
+  'source.restaged',
+  'source.ignored',
+  'source.unignored',
+  'source.deleted',
+  'source.assigned',
+  'source.unassigned',
+  'source.incorporated',
+  'source.unincorporated',
+  'team.created',
+  'team.updated',
+  'team.deleted',
+  'team.library.added',
+  'team.library.removed',
+  'team.member.added',
+  'team.member.role_changed',
+  'team.member.removed',
+  'user.provisioned',
+  'user.updated',
+  'user.deactivated',
+  'user.reactivated',
+  'group_mapping.created',
+  'group_mapping.updated',
+  'group_mapping.deleted',
+  'directory_group.created',
+  'directory_group.updated',
+  'directory_group.deleted',
+  'project.finalized',
+  'project.unfinalized',
+  'project.skills_pinned',
+  'project.skills_unpinned',
+  'prompt.created',
+  'prompt.updated',
+  'prompt.reset',
+  'prompt.deleted',
+  'integration.connected',
+  'integration.disconnected',
+  'audit_log.exported',
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export interface AuditEvent {
+  eventType: AuditEventType;
+  /** User who triggered the event; omitted for background/system work */
+  actorId?: string | null;
+  /** Defaults to 'api' for API key requests, 'user' with an actor, else 'system' */
+  actorType?: AuditActorType;
+  targetType?: AuditTargetType;
+  targetId?: string | null;
+  teamId?: string | null;
+  /** Before/after values and context. Never put secrets or full content here. */
+  data?: Record<string, unknown>;
+}
+
+export interface AuditLogFilters {
+  /** Exact event type, or a prefix ending in "." / ".*" (e.g. "team.") */
+  eventType?: string;
+  actorId?: string;
+  actorType?: AuditActorType;
+  targetType?: string;
+  targetId?: string;
+  teamId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditLogRecord extends AuditLog {
+  actor: { id: string; name: string | null; email: string | null } | null;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogRecord[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export type AuditLogExportFormat = 'csv' | 'jsonl';
+
+export const DEFAULT_AUDIT_LOG_LIMIT = 50;
+export const MAX_AUDIT_LOG_LIMIT = 200;
+
+const EXPORT_BATCH_SIZE = 500;
+
+// =============================================================================
+// RECORD
+// =============================================================================
+
+interface RequestInfo {
+  ipAddress?: string;
+  userAgent?: string;
+  viaApiKey: boolean;
+}
+
+/**
+ * Read client details from the current request, if there is one. Outside a
+ * request (queue workers, scripts) next/headers throws and we record none.
+ */
+async function getRequestInfo(): Promise<RequestInfo> {
+  try {
+    const { headers } = await import('next/headers');
+    const requestHeaders = await headers();
+    const forwarded = requestHeaders.get('x-forwarded-for');
+
+    return {
+      ipAddress: forwarded?.split(',')[0]?.trim() || requestHeaders.get('x-real-ip') || undefined,
+      userAgent: requestHeaders.get('user-agent') ?? undefined,
+      viaApiKey: parseBearerApiKey(requestHeaders.get('authorization')) !== null,
+    };
+  } catch {
+    return { viaApiKey: false };
+  }
+}
+
+function toCreateInput(event: AuditEvent, request: RequestInfo): Prisma.AuditLogCreateManyInput {
+  const actorType =
+    event.actorType ?? (event.actorId ? (request.viaApiKey ? 'api' : 'user') : 'system');
+
+  return {
+    eventType: event.eventType,
+    actorId: event.actorId ?? null,
+    actorType,
+    targetType: event.targetType ?? null,
+    targetId: event.targetId ?? null,
+    teamId: event.teamId ?? null,
+    data: (event.data ?? {}) as Prisma.InputJsonValue,
+    ipAddress: request.ipAddress ?? null,
+    userAgent: request.userAgent ?? null,
+  };
+}
+
+/**
+ * Record an audit event.
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  await recordAuditEvents([event]);
+}
+
+/**
+ * Record several audit events in one write (bulk operations).
+ */
+export async function recordAuditEvents(events: AuditEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const request = await getRequestInfo();
+    await prisma.auditLog.createMany({
+      data: events.map((event) => toCreateInput(event, request)),
+    });
+  } catch (error) {
+    logger.error('Failed to record audit event', error, {
+      eventTypes: Array.from(new Set(events.map((event) => event.eventType))),
+    });
+  }
+}
+
+// =============================================================================
+// QUERY
+// =============================================================================
+
+/**
+ * Build the Prisma filter for audit log queries and exports.
+ */
+export function buildAuditLogWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  if (filters.eventType) {
+    const prefix = filters.eventType.replace(/\*$/, '');
+    where.eventType = prefix.endsWith('.') ? { startsWith: prefix } : filters.eventType;
+  }
+  if (filters.actorId) where.actorId = filters.actorId;
+  if (filters.actorType) where.actorType = filters.actorType;
+  if (filters.targetType) where.targetType = filters.targetType;
+  if (filters.targetId) where.targetId = filters.targetId;
+  if (filters.teamId) where.teamId = filters.teamId;
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    };
+  }
+
+  return where;
+}
+
+const optionalParam = z.preprocess(
+  (val) => (val === null || val === '' ? undefined : val),
+  z.string().trim().min(1).optional()
+);
+const optionalDateParam = z.preprocess(
+  (val) => (val === null || val === '' ? undefined : val),
+  z.coerce.date().optional()
+);
+
+const auditLogQuerySchema = z.object({
+  page: z.preprocess((val) => val ?? undefined, z.coerce.number().int().min(1).default(1)),
+  limit: z.preprocess(
+    (val) => val ?? undefined,
+    z.coerce.number().int().min(1).max(MAX_AUDIT_LOG_LIMIT).default(DEFAULT_AUDIT_LOG_LIMIT)
+  ),
+  eventType: optionalParam,
+  actorId: optionalParam,
+  actorType: z.preprocess(
+    (val) => (val === null || val === '' ? undefined : val),
+    z.enum(['user', 'system', 'api']).optional()
+  ),
+  targetType: optionalParam,
+  targetId: optionalParam,
+  teamId: optionalParam,
+  from: optionalDateParam,
+  to: optionalDateParam,
+});
+
+/**
+ * Parse audit log filters and pagination from URL search params.
+ */
+export function parseAuditLogQuery(
+  searchParams: URLSearchParams
+):
+  | { success: true; data: { filters: AuditLogFilters; page: number; limit: number } }
+  | { success: false; error: string } {
+  const result = validateBody(auditLogQuerySchema, {
+    page: searchParams.get('page'),
+    limit: searchParams.get('limit'),
+    eventType: searchParams.get('eventType'),
+    actorId: searchParams.get('actorId'),
+    actorType: searchParams.get('actorType'),
+    targetType: searchParams.get('targetType'),
+    targetId: searchParams.get('targetId'),
+    teamId: searchParams.get('teamId'),
+    from: searchParams.get('from'),
+    to: searchParams.get('to'),
+  });
+  if (!result.success) return result;
+
+  const { page, limit, ...filters } = result.data;
+  return { success: true, data: { filters, page, limit } };
+}
+
+async function attachActors(entries: AuditLog[]): Promise<AuditLogRecord[]> {
+  const actorIds = Array.from(
+    new Set(entries.map((entry) => entry.actorId).filter((id): id is string => Boolean(id)))
+  );
+  const users =
+    actorIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: actorIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  return entries.map((entry) => ({
+    ...entry,
+    actor: entry.actorId ? usersById.get(entry.actorId) ?? null : null,
+  }));
+}
+
+/**
+ * Get one page of audit events, newest first.
+ */
+export async function queryAuditLog(
+  filters: AuditLogFilters,
+  options: { page?: number; limit?: number } = {}
+): Promise<AuditLogPage> {
+  const page = Math.max(options.page ?? 1, 1);
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_AUDIT_LOG_LIMIT, 1), MAX_AUDIT_LOG_LIMIT);
+  const where = buildAuditLogWhere(filters);
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return {
+    entries: await attachActors(entries),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+export const AUDIT_LOG_CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'eventType',
+  'actorType',
+  'actorId',
+  'actorEmail',
+  'targetType',
+  'targetId',
+  'teamId',
+  'ipAddress',
+  'userAgent',
+  'data',
+] as const;
+
+function csvCell(value: unknown): string {
+  return `"${String(value ?? '').replace(/"/g, '""')}"`;
+}
+
+/**
+ * Format one audit event for export (no trailing newline).
+ */
+export function formatAuditLogRecord(entry: AuditLogRecord, format: AuditLogExportFormat): string {
+  const row = {
+    id: entry.id,
+    createdAt: entry.createdAt.toISOString(),
+    eventType: entry.eventType,
+    actorType: entry.actorType,
+    actorId: entry.actorId,
+    actorEmail: entry.actor?.email ?? null,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    teamId: entry.teamId,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    data: entry.data,
+  };
+
+  if (format === 'jsonl') {
+    return JSON.stringify(row);
+  }
+
+  return AUDIT_LOG_CSV_COLUMNS.map((column) =>
+    csvCell(column === 'data' ? JSON.stringify(row.data ?? {}) : row[column])
+  ).join(',');
+}
+
+/**
+ * Iterate every matching audit event, newest first, in keyset-paginated batches.
+ */
+export async function* iterateAuditLog(
+  filters: AuditLogFilters,
+  batchSize: number = EXPORT_BATCH_SIZE
+): AsyncGenerator<AuditLogRecord> {
+  const where = buildAuditLogWhere(filters);
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: batchSize,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    for (const entry of await attachActors(batch)) {
+      yield entry;
+    }
+
+    if (batch.length < batchSize) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+/**
+ * Stream matching audit events as CSV (with header) or JSON Lines.
+ */
+export function createAuditLogExportStream(
+  filters: AuditLogFilters,
+  format: AuditLogExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const entries = iterateAuditLog(filters);
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(`${AUDIT_LOG_CSV_COLUMNS.join(',')}\n`));
+      }
+    },
+    async pull(controller) {
+      try {
+        const next = await entries.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(`${formatAuditLogRecord(next.value, format)}\n`));
+      } catch (error) {
+        logger.error('Audit log export failed', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await entries.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,4 @@
+/**
+ * Audit Log Exports
+ */
+export * from './audit-log-service';
@@ -19,6 +19,9 @@ import {
 } from '@/types/v2';
 import { createSlug } from '@/lib/frontmatterStore';
 import { validateScopeDefinition } from '@/lib/v2/skills/scope-validator';
+import { scheduleBlockEmbedding } from '@/lib/v2/embeddings';
+import { recordAuditEvent, recordAuditEvents, type AuditEvent, type AuditEventType } from '@/lib/v2/audit-log';
+import { recordBlockVersion } from './block-version-service';
 
 // =============================================================================
 // CREATE
@@ -26,9 +29,11 @@ import { validateScopeDefinition } from '@/lib/v2/skills/scope-validator';
 
 /**
  * Create a new BuildingBlock.
+ * The actor defaults to the block owner.
  */
 export async function createBlock<T extends TypedBuildingBlock>(
-  input: CreateBlockInput<T>
+  input: CreateBlockInput<T>,
+  actorId?: string
 ): Promise<T> {
   const blockType = LIBRARY_BLOCK_TYPE[input.libraryId];
 
@@ -54,6 +59,19 @@ export async function createBlock<T extends TypedBuildingBlock>(
     },
   });
 
+  await recordBlockVersion(block, 'created', actorId ?? input.ownerId);
+
+  await scheduleBlockEmbedding(block.id);
+
+  await recordAuditEvent({
+    eventType: 'block.created',
+    actorId: actorId ?? input.ownerId,
+    targetType: 'block',
+    targetId: block.id,
+    teamId: block.teamId,
+    data: { title: block.title, libraryId: block.libraryId, status: block.status },
+  });
+
   return toTypedBlock(block) as T;
 }
 
@@ -255,7 +273,8 @@ export async function getScopeIndex(
  */
 export async function updateBlock<T extends TypedBuildingBlock>(
   id: string,
-  input: UpdateBlockInput<T>
+  input: UpdateBlockInput<T>,
+  actorId?: string
 ): Promise<T> {
   const existing = await prisma.buildingBlock.findUnique({
     where: { id },
@@ -265,6 +284,11 @@ export async function updateBlock<T extends TypedBuildingBlock>(
     throw new Error(`Block not found: ${id}`);
   }
 
+  // Keep the outgoing version before it is replaced
+  if (input.content !== undefined) {
+    await recordBlockVersion(existing, 'baseline');
+  }
+
   // Merge attributes if provided
   const attributes = input.attributes
     ? { ...(existing.attributes as object), ...input.attributes }
@@ -283,41 +307,82 @@ export async function updateBlock<T extends TypedBuildingBlock>(
       ...(attributes && { attributes: attributes as Prisma.InputJsonValue }),
       // Increment version on content changes
       ...(input.content !== undefined && { version: { increment: 1 } }),
-      // Mark as having local changes if git-synced
-      ...(existing.gitPath && { syncStatus: 'LOCAL_CHANGES' }),
+      // Mark as having local changes if git-synced (an open git conflict stays until resolved)
+      ...(existing.gitPath &&
+        existing.syncStatus !== 'CONFLICT' && { syncStatus: 'LOCAL_CHANGES' }),
+    },
+  });
+
+  if (input.content !== undefined) {
+    await recordBlockVersion(block, 'updated', actorId);
+  }
+
+  // Re-embed when matchable text changes (embedBlock skips unchanged fields)
+  if (input.title !== undefined || input.content !== undefined || input.attributes) {
+    await scheduleBlockEmbedding(block.id);
+  }
+
+  await recordAuditEvent({
+    eventType: 'block.updated',
+    actorId,
+    targetType: 'block',
+    targetId: block.id,
+    teamId: block.teamId,
+    data: {
+      title: block.title,
+      libraryId: block.libraryId,
+      fields: Object.keys(input).filter((key) => input[key as keyof typeof input] !== undefined),
+      ...(input.status !== undefined &&
+        input.status !== existing.status && { status: { from: existing.status, to: input.status } }),
     },
   });
 
   return toTypedBlock(block) as T;
 }
 
+function statusEventType(status: BlockStatus): AuditEventType {
+  if (status === 'ACTIVE') return 'block.activated';
+  if (status === 'ARCHIVED') return 'block.archived';
+  return 'block.updated';
+}
+
 /**
  * Update block status.
  */
 export async function updateBlockStatus(
   id: string,
-  status: BlockStatus
+  status: BlockStatus,
+  actorId?: string
 ): Promise<TypedBuildingBlock> {
   const block = await prisma.buildingBlock.update({
     where: { id },
     data: { status },
   });
 
+  await recordAuditEvent({
+    eventType: statusEventType(status),
+    actorId,
+    targetType: 'block',
+    targetId: block.id,
+    teamId: block.teamId,
+    data: { title: block.title, libraryId: block.libraryId, status },
+  });
+
   return toTypedBlock(block);
 }
 
 /**
  * Activate a block (set status to ACTIVE).
  */
-export async function activateBlock(id: string): Promise<TypedBuildingBlock> {
-  return updateBlockStatus(id, 'ACTIVE');
+export async function activateBlock(id: string, actorId?: string): Promise<TypedBuildingBlock> {
+  return updateBlockStatus(id, 'ACTIVE', actorId);
 }
 
 /**
  * Archive a block (set status to ARCHIVED).
  */
-export async function archiveBlock(id: string): Promise<TypedBuildingBlock> {
-  return updateBlockStatus(id, 'ARCHIVED');
+export async function archiveBlock(id: string, actorId?: string): Promise<TypedBuildingBlock> {
+  return updateBlockStatus(id, 'ARCHIVED', actorId);
 }
 
 // =============================================================================
@@ -327,21 +392,39 @@ export async function archiveBlock(id: string): Promise<TypedBuildingBlock> {
 /**
  * Soft delete a block (sets status to ARCHIVED).
  */
-export async function deleteBlock(id: string): Promise<void> {
-  await prisma.buildingBlock.update({
+export async function deleteBlock(id: string, actorId?: string): Promise<void> {
+  const block = await prisma.buildingBlock.update({
     where: { id },
     data: { status: 'ARCHIVED' },
   });
+
+  await recordAuditEvent({
+    eventType: 'block.archived',
+    actorId,
+    targetType: 'block',
+    targetId: block.id,
+    teamId: block.teamId,
+    data: { title: block.title, libraryId: block.libraryId },
+  });
 }
 
 /**
  * Hard delete a block (permanently removes from database).
  * Use with caution - this is irreversible.
  */
-export async function hardDeleteBlock(id: string): Promise<void> {
-  await prisma.buildingBlock.delete({
+export async function hardDeleteBlock(id: string, actorId?: string): Promise<void> {
+  const block = await prisma.buildingBlock.delete({
     where: { id },
   });
+
+  await recordAuditEvent({
+    eventType: 'block.deleted',
+    actorId,
+    targetType: 'block',
+    targetId: block.id,
+    teamId: block.teamId,
+    data: { title: block.title, libraryId: block.libraryId },
+  });
 }
 
 // =============================================================================
@@ -388,13 +471,24 @@ export async function createManyBlocks(
  */
 export async function updateManyBlockStatus(
   ids: string[],
-  status: BlockStatus
+  status: BlockStatus,
+  actorId?: string
 ): Promise<{ updated: number }> {
   const result = await prisma.buildingBlock.updateMany({
     where: { id: { in: ids } },
     data: { status },
   });
 
+  await recordAuditEvents(
+    ids.map((id): AuditEvent => ({
+      eventType: statusEventType(status),
+      actorId,
+      targetType: 'block',
+      targetId: id,
+      data: { status, bulk: true },
+    }))
+  );
+
   return { updated: result.count };
 }
 
@@ -418,15 +512,17 @@ export async function getBlocksNeedingSync(): Promise<TypedBuildingBlock[]> {
 }
 
 /**
- * Mark a block as synced with git.
+ * Mark a block as synced with git. Pass gitPath when the file moved.
  */
 export async function markBlockSynced(
   id: string,
-  commitSha: string
+  commitSha: string,
+  gitPath?: string
 ): Promise<TypedBuildingBlock> {
   const block = await prisma.buildingBlock.update({
     where: { id },
     data: {
+      ...(gitPath && { gitPath }),
       gitCommitSha: commitSha,
       syncStatus: 'SYNCED',
       lastSyncedAt: new Date(),
@@ -0,0 +1,225 @@
+/**
+ * BlockVersionService - Snapshot history for BuildingBlocks
+ *
+ * Every content change bumps BuildingBlock.version. Each version is kept as a
+ * BuildingBlockVersion row holding the full title, content and attributes, so
+ * earlier versions can be compared and restored, and RFP projects can pin the
+ * exact snapshot their answers came from (see rfp/skill-version-pins.ts).
+ *
+ * Writers call recordBlockVersion with the block before the change (a no-op
+ * unless that version was never captured) and again with the updated block.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { BuildingBlock, BuildingBlockVersion, Prisma } from '@prisma/client';
+import { scheduleBlockEmbedding } from '@/lib/v2/embeddings';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type BlockVersionChangeType =
+  | 'baseline' // Captured lazily for a version that predates history
+  | 'created'
+  | 'updated'
+  | 'refreshed'
+  | 'restored'
+  | 'git_sync';
+
+export interface BlockVersionSummary
+  extends Pick<
+    BuildingBlockVersion,
+    'id' | 'blockId' | 'version' | 'title' | 'status' | 'changeType' | 'changeNote' | 'createdBy' | 'createdAt'
+  > {
+  author: { id: string; name: string | null; email: string | null } | null;
+}
+
+type SnapshotSource = Pick<
+  BuildingBlock,
+  'id' | 'version' | 'title' | 'content' | 'summary' | 'categories' | 'attributes' | 'status'
+>;
+
+/**
+ * Attributes that describe the block's life rather than its knowledge. A
+ * restore keeps the current values so usage stats, ownership and the change
+ * history are not rolled back.
+ */
+export const PRESERVED_ATTRIBUTE_KEYS = ['usageCount', 'lastUsedAt', 'history', 'auditLog', 'owners'] as const;
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+/**
+ * Store the block's current state as the snapshot for its version. An
+ * existing snapshot for that version is left untouched.
+ */
+export async function recordBlockVersion(
+  block: SnapshotSource,
+  changeType: BlockVersionChangeType,
+  actorId?: string | null,
+  changeNote?: string
+): Promise<BuildingBlockVersion> {
+  return prisma.buildingBlockVersion.upsert({
+    where: { blockId_version: { blockId: block.id, version: block.version } },
+    update: {},
+    create: {
+      blockId: block.id,
+      version: block.version,
+      title: block.title,
+      content: block.content,
+      summary: block.summary,
+      categories: block.categories,
+      attributes: (block.attributes ?? {}) as Prisma.InputJsonValue,
+      status: block.status,
+      changeType,
+      changeNote,
+      createdBy: actorId ?? null,
+    },
+  });
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+/**
+ * List a block's versions, newest first, with the author of each change.
+ * Content is not included.
+ */
+export async function listBlockVersions(blockId: string): Promise<BlockVersionSummary[]> {
+  const versions = await prisma.buildingBlockVersion.findMany({
+    where: { blockId },
+    select: {
+      id: true,
+      blockId: true,
+      version: true,
+      title: true,
+      status: true,
+      changeType: true,
+      changeNote: true,
+      createdBy: true,
+      createdAt: true,
+    },
+    orderBy: { version: 'desc' },
+  });
+
+  const authorIds = Array.from(
+    new Set(versions.map((version) => version.createdBy).filter((id): id is string => Boolean(id)))
+  );
+  const authors =
+    authorIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: authorIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+  const authorsById = new Map(authors.map((author) => [author.id, author]));
+
+  return versions.map((version) => ({
+    ...version,
+    author: version.createdBy ? authorsById.get(version.createdBy) ?? null : null,
+  }));
+}
+
+/**
+ * Get the full snapshot for one version.
+ */
+export async function getBlockVersion(blockId: string, version: number): Promise<BuildingBlockVersion | null> {
+  return prisma.buildingBlockVersion.findUnique({
+    where: { blockId_version: { blockId, version } },
+  });
+}
+
+// =============================================================================
+// RESTORE
+// =============================================================================
+
+/**
+ * Attributes to write when restoring a snapshot: the snapshot's knowledge
+ * attributes over the current block, keeping PRESERVED_ATTRIBUTE_KEYS.
+ */
+export function buildRestoredAttributes(
+  current: Record<string, unknown>,
+  snapshot: Record<string, unknown>
+): Record<string, unknown> {
+  const restored: Record<string, unknown> = { ...current, ...snapshot };
+  for (const key of PRESERVED_ATTRIBUTE_KEYS) {
+    if (key in current) {
+      restored[key] = current[key];
+    } else {
+      delete restored[key];
+    }
+  }
+  return restored;
+}
+
+/**
+ * Restore a block to an earlier version. The restore is itself a new version,
+ * so nothing after the restored version is lost.
+ */
+export async function restoreBlockVersion(
+  blockId: string,
+  version: number,
+  actorId?: string
+): Promise<BuildingBlock> {
+  const [existing, snapshot] = await Promise.all([
+    prisma.buildingBlock.findUnique({ where: { id: blockId } }),
+    getBlockVersion(blockId, version),
+  ]);
+
+  if (!existing) {
+    throw new Error(`Block not found: ${blockId}`);
+  }
+  if (!snapshot) {
+    throw new Error(`Block version not found: ${blockId}@${version}`);
+  }
+
+  await recordBlockVersion(existing, 'baseline');
+
+  const currentAttrs = (existing.attributes as Record<string, unknown>) || {};
+  const attributes = buildRestoredAttributes(currentAttrs, (snapshot.attributes as Record<string, unknown>) || {});
+  attributes.history = [
+    ...((currentAttrs.history as unknown[]) || []),
+    {
+      date: new Date().toISOString(),
+      action: 'restored',
+      summary: `Restored version ${version}`,
+      user: actorId,
+    },
+  ];
+
+  const block = await prisma.buildingBlock.update({
+    where: { id: blockId },
+    data: {
+      title: snapshot.title,
+      content: snapshot.content,
+      summary: snapshot.summary,
+      categories: snapshot.categories,
+      attributes: attributes as Prisma.InputJsonValue,
+      version: { increment: 1 },
+      ...(existing.gitPath && existing.syncStatus !== 'CONFLICT' && { syncStatus: 'LOCAL_CHANGES' }),
+    },
+  });
+
+  await recordBlockVersion(block, 'restored', actorId, `Restored from version ${version}`);
+
+  await scheduleBlockEmbedding(block.id);
+
+  await recordAuditEvent({
+    eventType: 'block.restored',
+    actorId,
+    targetType: 'block',
+    targetId: block.id,
+    teamId: block.teamId,
+    data: {
+      title: block.title,
+      libraryId: block.libraryId,
+      restoredVersion: version,
+      version: { from: existing.version, to: block.version },
+    },
+  });
+
+  return block;
+}
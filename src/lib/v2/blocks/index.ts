@@ -2,3 +2,4 @@
  * Block Service Exports
  */
 export * from './block-service';
+export * from './block-version-service';
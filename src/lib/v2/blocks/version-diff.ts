@@ -0,0 +1,114 @@
+/**
+ * Version Diff - Side-by-side comparison of two block versions
+ *
+ * Pure helpers with no database access so the skill detail page can import
+ * them on the client.
+ */
+
+import { diffLines } from 'diff';
+
+export type DiffRowType = 'unchanged' | 'added' | 'removed' | 'changed';
+
+export interface DiffCell {
+  /** 1-based line number in its version */
+  lineNumber: number;
+  text: string;
+}
+
+export interface SideBySideRow {
+  type: DiffRowType;
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+interface ComparableVersion {
+  title: string;
+  summary: string | null;
+  categories: string[];
+  attributes: unknown;
+}
+
+function splitLines(value: string): string[] {
+  const lines = value.split('\n');
+  // diffLines keeps the trailing newline on each chunk
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Align two texts line by line. A removed run directly followed by an added
+ * run is paired up as 'changed' rows so edits sit next to each other.
+ */
+export function buildSideBySideDiff(before: string, after: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let leftLine = 0;
+  let rightLine = 0;
+  let pendingRemoved: DiffCell[] = [];
+
+  const flushRemoved = () => {
+    for (const cell of pendingRemoved) {
+      rows.push({ type: 'removed', left: cell, right: null });
+    }
+    pendingRemoved = [];
+  };
+
+  for (const part of diffLines(before, after)) {
+    const lines = splitLines(part.value);
+
+    if (part.removed) {
+      flushRemoved();
+      pendingRemoved = lines.map((text) => ({ lineNumber: ++leftLine, text }));
+      continue;
+    }
+
+    if (part.added) {
+      const added = lines.map((text) => ({ lineNumber: ++rightLine, text }));
+      const paired = Math.min(pendingRemoved.length, added.length);
+      for (let i = 0; i < paired; i++) {
+        rows.push({ type: 'changed', left: pendingRemoved[i], right: added[i] });
+      }
+      for (const cell of pendingRemoved.slice(paired)) {
+        rows.push({ type: 'removed', left: cell, right: null });
+      }
+      for (const cell of added.slice(paired)) {
+        rows.push({ type: 'added', left: null, right: cell });
+      }
+      pendingRemoved = [];
+      continue;
+    }
+
+    flushRemoved();
+    for (const text of lines) {
+      rows.push({
+        type: 'unchanged',
+        left: { lineNumber: ++leftLine, text },
+        right: { lineNumber: ++rightLine, text },
+      });
+    }
+  }
+
+  flushRemoved();
+  return rows;
+}
+
+/**
+ * Fields other than content that differ between two versions. Attribute
+ * changes are reported per key, e.g. 'attributes.scopeDefinition'.
+ */
+export function getChangedFields(before: ComparableVersion, after: ComparableVersion): string[] {
+  const changed: string[] = [];
+  if (before.title !== after.title) changed.push('title');
+  if ((before.summary ?? '') !== (after.summary ?? '')) changed.push('summary');
+  if (before.categories.join('\n') !== after.categories.join('\n')) changed.push('categories');
+
+  const beforeAttrs = (before.attributes as Record<string, unknown>) || {};
+  const afterAttrs = (after.attributes as Record<string, unknown>) || {};
+  const keys = Array.from(new Set([...Object.keys(beforeAttrs), ...Object.keys(afterAttrs)])).sort();
+  for (const key of keys) {
+    if (JSON.stringify(beforeAttrs[key]) !== JSON.stringify(afterAttrs[key])) {
+      changed.push(`attributes.${key}`);
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,223 @@
+/**
+ * Document Export Model
+ *
+ * Shared input and helpers for the Word and PDF renderers. Both render the
+ * same layout: a branded cover page, a table of contents built from the
+ * markdown headings, the body, and the transparency sources cited inline
+ * as [n] markers (n is the 1-based position of the source in the list the
+ * LLM was given, see the citation_format prompt block).
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { defaultBranding, type BrandingSettings } from '@/lib/brandingDefaults';
+import type { MarkdownLine } from '@/lib/docxExport';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ExportSource {
+  id: string;
+  title: string;
+  url?: string;
+}
+
+export interface ExportDocument {
+  title: string;
+  /** Shown under the title on the cover page (e.g. customer name) */
+  subtitle?: string;
+  /** Markdown body */
+  content: string;
+  /** Transparency sources in citation order: [1] is sources[0] */
+  sources?: ExportSource[];
+  author?: string;
+  generatedAt?: Date;
+}
+
+export interface DocumentLogo {
+  data: Buffer;
+  type: 'png' | 'jpg';
+  width: number;
+  height: number;
+}
+
+export interface DocumentBranding {
+  appName: string;
+  /** Hex color without the leading # */
+  primaryColor: string;
+  logo?: DocumentLogo;
+}
+
+export type CitationSegment = { text: string } | { citation: number };
+
+export interface TocEntry {
+  title: string;
+  level: number;
+}
+
+// =============================================================================
+// BRANDING
+// =============================================================================
+
+const FALLBACK_COLOR = '0EA5E9';
+
+/**
+ * Normalize a CSS hex color ("#0ea5e9", "#0af") to the 6-digit form the
+ * renderers expect. Anything else (CSS variables, names) falls back to the
+ * default brand color.
+ */
+export function normalizeBrandColor(color: string | undefined): string {
+  const hex = color?.trim().replace(/^#/, '') || '';
+  if (/^[0-9a-f]{6}$/i.test(hex)) return hex.toUpperCase();
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return hex
+      .split('')
+      .map((c) => c + c)
+      .join('')
+      .toUpperCase();
+  }
+  return FALLBACK_COLOR;
+}
+
+/**
+ * Read pixel dimensions from a PNG or JPEG header. Returns null for other
+ * formats, which neither renderer can embed.
+ */
+export function readImageInfo(data: Buffer): Omit<DocumentLogo, 'data'> | null {
+  if (data.length > 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { type: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { type: 'jpg', height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve branding for server-side rendering. The logo is read from disk so
+ * exports never depend on network access; remote logo URLs are ignored.
+ */
+export async function resolveDocumentBranding(
+  settings: BrandingSettings = defaultBranding
+): Promise<DocumentBranding> {
+  const branding: DocumentBranding = {
+    appName: settings.appName,
+    primaryColor: normalizeBrandColor(settings.primaryColor),
+  };
+
+  const logoUrl = settings.logoUrl?.trim();
+  if (!logoUrl || /^[a-z]+:\/\//i.test(logoUrl)) {
+    return branding;
+  }
+
+  try {
+    const data = await readFile(path.join(process.cwd(), 'public', logoUrl));
+    const info = readImageInfo(data);
+    if (info) {
+      branding.logo = { data, ...info };
+    } else {
+      logger.warn('Branding logo is not a PNG or JPEG, exporting without it', { logoUrl });
+    }
+  } catch (error) {
+    logger.warn('Failed to read branding logo, exporting without it', { logoUrl, error });
+  }
+  return branding;
+}
+
+// =============================================================================
+// CONTENT
+// =============================================================================
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Split text into plain segments and citation numbers. "[1, 3]" yields two
+ * citations; markers that do not map to a source stay as text.
+ */
+export function splitCitations(text: string, sourceCount: number): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const numbers = match[1].split(',').map((n) => Number(n.trim()));
+    if (numbers.some((n) => n < 1 || n > sourceCount)) continue;
+
+    // Drop the space the LLM puts before the marker ("... 2.0. [2]")
+    const before = text.slice(lastIndex, match.index).replace(/\s+$/, '');
+    if (before) segments.push({ text: before });
+    for (const citation of numbers) segments.push({ citation });
+    lastIndex = match.index + match[0].length;
+  }
+
+  const rest = text.slice(lastIndex);
+  if (rest) segments.push({ text: rest });
+  return segments;
+}
+
+/**
+ * Sources in order of first citation, each with its display number.
+ * Uncited sources are listed afterwards so the document still shows
+ * everything the content was generated from.
+ */
+export function orderSourcesByCitation(
+  content: string,
+  sources: ExportSource[]
+): Array<{ number: number; source: ExportSource; cited: boolean }> {
+  const cited: number[] = [];
+  for (const segment of splitCitations(content, sources.length)) {
+    if ('citation' in segment && !cited.includes(segment.citation)) {
+      cited.push(segment.citation);
+    }
+  }
+
+  const uncited = sources.map((_, i) => i + 1).filter((n) => !cited.includes(n));
+  return [...cited, ...uncited].map((n, i) => ({
+    number: i + 1,
+    source: sources[n - 1],
+    cited: i < cited.length,
+  }));
+}
+
+/** Table of contents entries for h1-h3 headings */
+export function buildTocEntries(lines: MarkdownLine[]): TocEntry[] {
+  const levels: Partial<Record<MarkdownLine['type'], number>> = { h1: 1, h2: 2, h3: 3 };
+  return lines
+    .filter((line) => levels[line.type])
+    .map((line) => ({ title: stripInlineMarkdown(line.content), level: levels[line.type]! }));
+}
+
+/** Remove bold/italic/code markers and citation markers for plain-text contexts */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`(.+?)`/g, '$1')
+    .replace(CITATION_PATTERN, '')
+    .trim();
+}
+
+export function formatSourceNote(source: ExportSource): string {
+  return source.url ? `${source.title}. ${source.url}` : source.title;
+}
+
+export function exportFileName(title: string, extension: 'docx' | 'pdf' | 'pptx'): string {
+  const base = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  return `${base || 'document'}.${extension}`;
+}
@@ -3,14 +3,24 @@
  *
  * Handles exporting generated collateral to various formats:
  * - Google Slides (using existing googleSlides.ts integration)
+ * - PowerPoint (.pptx templates filled locally, no Google API needed)
  * - Text/Markdown (direct return)
- * - Future: Word, PDF
+ * - Word and PDF (rendered offline with branding, contents and source citations)
  */
 
 import { fillPresentation, extractPlaceholders } from '@/lib/googleSlides';
 import type { PlaceholderReplacement } from '@/lib/googleSlides';
+import { getFromS3, getMimeType } from '@/lib/s3';
+import { exportFileName, resolveDocumentBranding, type DocumentBranding, type ExportDocument } from './document-export';
+import { renderWordDocument } from './word-renderer';
+import { renderPdfDocument } from './pdf-renderer';
+import { fillPptxTemplate, type PptxFillWarning } from './pptx-template';
 
-export type ExportFormat = 'text' | 'google-slides' | 'word' | 'pdf';
+export type { ExportDocument, ExportSource, DocumentBranding } from './document-export';
+export { extractPptxPlaceholders } from './pptx-template';
+export type { PptxTemplateFile, PptxPlaceholders, PptxFillWarning } from './pptx-template';
+
+export type ExportFormat = 'text' | 'google-slides' | 'pptx' | 'word' | 'pdf';
 
 export interface ExportResult {
   format: ExportFormat;
@@ -20,10 +30,30 @@ export interface ExportResult {
   presentationId?: string;
   /** For Google Slides: the web view link */
   webViewLink?: string;
+  /** For Word/PDF: the rendered file */
+  buffer?: Buffer;
+  fileName?: string;
+  mimeType?: string;
   /** Any errors or warnings */
   errors?: string[];
 }
 
+export interface PptxExportInput {
+  /** S3 key of the uploaded .pptx template */
+  templateS3Key: string;
+  placeholders: Record<string, string>;
+  /** Image placeholder name to PNG or JPEG data */
+  images?: Record<string, Buffer>;
+  /** Used for the download file name */
+  title: string;
+}
+
+export interface PptxExportResult extends ExportResult {
+  filled: string[];
+  missing: string[];
+  warnings: PptxFillWarning[];
+}
+
 export interface GoogleSlidesExportInput {
   userId: string;
   templatePresentationId: string;
@@ -60,6 +90,28 @@ export async function exportToGoogleSlides(
   };
 }
 
+/**
+ * Export to PowerPoint by filling placeholders in an uploaded .pptx
+ * template. Runs locally; nothing is sent to Google.
+ */
+export async function exportToPptx(input: PptxExportInput): Promise<PptxExportResult> {
+  const template = await getFromS3(input.templateS3Key);
+  const result = await fillPptxTemplate(template, {
+    values: input.placeholders,
+    images: input.images,
+  });
+
+  return {
+    format: 'pptx',
+    buffer: result.buffer,
+    fileName: exportFileName(input.title, 'pptx'),
+    mimeType: getMimeType('pptx'),
+    filled: result.filled,
+    missing: result.missing,
+    warnings: result.warnings,
+  };
+}
+
 /**
  * Get the placeholders from a Google Slides template.
  * Useful for showing what placeholders need to be filled.
@@ -80,3 +132,37 @@ export function exportToText(content: string): ExportResult {
     content,
   };
 }
+
+/**
+ * Export to a Word document with cover page, table of contents and
+ * footnoted source citations. Branding defaults to the app branding.
+ */
+export async function exportToWord(
+  document: ExportDocument,
+  branding?: DocumentBranding
+): Promise<ExportResult> {
+  const buffer = await renderWordDocument(document, branding || (await resolveDocumentBranding()));
+  return {
+    format: 'word',
+    buffer,
+    fileName: exportFileName(document.title, 'docx'),
+    mimeType: getMimeType('docx'),
+  };
+}
+
+/**
+ * Export to a PDF with the same layout as the Word export. Citations link
+ * to a Sources section instead of page footnotes.
+ */
+export async function exportToPdf(
+  document: ExportDocument,
+  branding?: DocumentBranding
+): Promise<ExportResult> {
+  const buffer = await renderPdfDocument(document, branding || (await resolveDocumentBranding()));
+  return {
+    format: 'pdf',
+    buffer,
+    fileName: exportFileName(document.title, 'pdf'),
+    mimeType: getMimeType('pdf'),
+  };
+}
@@ -9,6 +9,7 @@ import { executeLLMCall } from '@/lib/llm/registry';
 import prisma from '@/lib/prisma';
 import type { TemplateAttributes } from '@/types/v2';
 import type { TracingOptions } from '@/lib/llm';
+import type { ExportSource } from './document-export';
 
 export interface GenerationInput {
   /** The template to generate from */
@@ -37,6 +38,8 @@ export interface GenerationResult {
     systemPrompt: string;
     compositionId: string;
     model: string;
+    /** Skills and staged sources in prompt order; [n] citations refer to sources[n - 1] */
+    sources: ExportSource[];
   };
   /** Errors during generation */
   errors?: string[];
@@ -44,7 +47,7 @@ export interface GenerationResult {
 
 /**
  * Generate collateral content from a template.
- * For Google Slides templates, generates placeholder values.
+ * For Google Slides and .pptx templates, generates placeholder values.
  * For text templates, generates free-form content.
  */
 export async function generateCollateral(
@@ -108,18 +111,25 @@ export async function generateCollateral(
     })),
   ];
 
+  // Citation order matches the skill order the LLM sees
+  const citationSources: ExportSource[] = [
+    ...blocks.map((block) => ({ id: block.id, title: block.title })),
+    ...sources.map((source) => ({ id: source.id, title: source.title })),
+  ];
+
   // Tracing options
   const tracingOptions: TracingOptions = {
     userId,
     userEmail,
   };
 
-  if (outputType === 'google-slides') {
+  if (outputType === 'google-slides' || outputType === 'pptx') {
     // Generate structured placeholder values
     return generatePlaceholderValues({
       template,
       attributes,
       skills,
+      sources: citationSources,
       tracingOptions,
       modelSpeed,
     });
@@ -129,6 +139,7 @@ export async function generateCollateral(
   return generateTextContent({
     template,
     skills,
+    sources: citationSources,
     tracingOptions,
     modelSpeed,
   });
@@ -138,10 +149,11 @@ async function generatePlaceholderValues(params: {
   template: { id: string; title: string; content: string };
   attributes: TemplateAttributes;
   skills: Array<{ id: string; title: string; content: string }>;
+  sources: ExportSource[];
   tracingOptions: TracingOptions;
   modelSpeed: 'fast' | 'quality';
 }): Promise<GenerationResult> {
-  const { template, attributes, skills, tracingOptions, modelSpeed } = params;
+  const { template, attributes, skills, sources, tracingOptions, modelSpeed } = params;
 
   // Build placeholder guide from template attributes
   const placeholderGuide = attributes.placeholderGuide || {};
@@ -195,6 +207,7 @@ Return a JSON object with placeholder names as keys and generated content as val
           systemPrompt: result.transparency.systemPrompt,
           compositionId: result.transparency.compositionId,
           model: result.usage?.model || 'unknown',
+          sources,
         },
       };
     }
@@ -205,6 +218,7 @@ Return a JSON object with placeholder names as keys and generated content as val
         systemPrompt: result.transparency.systemPrompt,
         compositionId: result.transparency.compositionId,
         model: result.usage?.model || 'unknown',
+        sources,
       },
     };
   } catch (error) {
@@ -217,10 +231,11 @@ Return a JSON object with placeholder names as keys and generated content as val
 async function generateTextContent(params: {
   template: { id: string; title: string; content: string };
   skills: Array<{ id: string; title: string; content: string }>;
+  sources: ExportSource[];
   tracingOptions: TracingOptions;
   modelSpeed: 'fast' | 'quality';
 }): Promise<GenerationResult> {
-  const { template, skills, tracingOptions, modelSpeed } = params;
+  const { template, skills, sources, tracingOptions, modelSpeed } = params;
 
   const question = `Based on the provided information, generate content for: "${template.title}"
 
@@ -244,6 +259,7 @@ Generate comprehensive content following the template instructions.`;
         systemPrompt: result.transparency.systemPrompt,
         compositionId: result.transparency.compositionId,
         model: result.usage?.model || 'unknown',
+        sources,
       },
     };
   } catch (error) {
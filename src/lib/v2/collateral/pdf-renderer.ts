@@ -0,0 +1,361 @@
+/**
+ * PDF Renderer
+ *
+ * Renders an ExportDocument to PDF with pdfkit and its built-in standard
+ * fonts, so no font files or network access are needed. Layout mirrors the
+ * Word export: cover page, table of contents with page numbers, markdown
+ * body, and a Sources section that inline [n] markers link to.
+ */
+
+import PDFDocument from 'pdfkit';
+import { parseMarkdown, type MarkdownLine } from '@/lib/docxExport';
+import {
+  buildTocEntries,
+  formatSourceNote,
+  orderSourcesByCitation,
+  splitCitations,
+  stripInlineMarkdown,
+  type DocumentBranding,
+  type ExportDocument,
+  type ExportSource,
+} from './document-export';
+
+type PdfDoc = PDFKit.PDFDocument;
+
+interface TextSpan {
+  text: string;
+  font: string;
+  color?: string;
+  goTo?: string;
+}
+
+const MARGIN = 72;
+const BODY_SIZE = 11;
+const TOC_ENTRIES_PER_PAGE = 32;
+const TEXT_COLOR = '#222222';
+const MUTED_COLOR = '#666666';
+
+const HEADING_SIZES: Record<'h1' | 'h2' | 'h3' | 'h4', number> = { h1: 20, h2: 16, h3: 13, h4: 12 };
+const TOC_LEVELS: Partial<Record<MarkdownLine['type'], number>> = { h1: 1, h2: 2, h3: 3 };
+
+function currentPage(pdf: PdfDoc): number {
+  const { start, count } = pdf.bufferedPageRange();
+  return start + count - 1;
+}
+
+function sourceDestination(number: number): string {
+  return `source-${number}`;
+}
+
+/**
+ * Split markdown inline formatting and citations into styled spans.
+ * Citations render as "[n]" with n renumbered by first appearance.
+ */
+function inlineSpans(
+  text: string,
+  sources: ExportSource[],
+  sourceNumbers: Map<ExportSource, number>,
+  brandColor: string
+): TextSpan[] {
+  const spans: TextSpan[] = [];
+
+  for (const segment of splitCitations(text, sources.length)) {
+    if ('citation' in segment) {
+      const number = sourceNumbers.get(sources[segment.citation - 1])!;
+      spans.push({ text: ` [${number}]`, font: 'Helvetica', color: brandColor, goTo: sourceDestination(number) });
+      continue;
+    }
+
+    const regex = /(\*\*|__)(.+?)\1|(\*|_)(.+?)\3|`(.+?)`/g;
+    let lastIndex = 0;
+    let match;
+    while ((match = regex.exec(segment.text)) !== null) {
+      if (match.index > lastIndex) spans.push({ text: segment.text.slice(lastIndex, match.index), font: 'Helvetica' });
+      if (match[2]) spans.push({ text: match[2], font: 'Helvetica-Bold' });
+      else if (match[4]) spans.push({ text: match[4], font: 'Helvetica-Oblique' });
+      else if (match[5]) spans.push({ text: match[5], font: 'Courier' });
+      lastIndex = regex.lastIndex;
+    }
+    if (lastIndex < segment.text.length) spans.push({ text: segment.text.slice(lastIndex), font: 'Helvetica' });
+  }
+
+  return spans;
+}
+
+function writeSpans(
+  pdf: PdfDoc,
+  spans: TextSpan[],
+  options: PDFKit.Mixins.TextOptions & { size?: number; color?: string } = {}
+) {
+  const { size = BODY_SIZE, color = TEXT_COLOR, ...textOptions } = options;
+  if (spans.length === 0) spans = [{ text: ' ', font: 'Helvetica' }];
+
+  pdf.fontSize(size);
+  spans.forEach((span, i) => {
+    pdf
+      .font(span.font)
+      .fillColor(span.color || color)
+      .text(span.text, {
+        ...textOptions,
+        continued: i < spans.length - 1,
+        goTo: span.goTo || undefined,
+      });
+  });
+}
+
+function renderCover(pdf: PdfDoc, doc: ExportDocument, branding: DocumentBranding, brandColor: string) {
+  if (branding.logo) {
+    pdf.image(branding.logo.data, MARGIN, MARGIN, { fit: [200, 80] });
+  } else {
+    pdf.font('Helvetica-Bold').fontSize(14).fillColor(brandColor).text(branding.appName, MARGIN, MARGIN);
+  }
+
+  const date = (doc.generatedAt || new Date()).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  pdf.font('Helvetica-Bold').fontSize(28).fillColor(brandColor).text(doc.title, MARGIN, pdf.page.height / 3);
+  const ruleY = pdf.y + 8;
+  pdf.moveTo(MARGIN, ruleY).lineTo(pdf.page.width - MARGIN, ruleY).lineWidth(2).strokeColor(brandColor).stroke();
+  pdf.y = ruleY + 16;
+
+  if (doc.subtitle) {
+    pdf.font('Helvetica').fontSize(16).fillColor('#444444').text(doc.subtitle);
+    pdf.moveDown(0.5);
+  }
+  pdf.font('Helvetica').fontSize(11).fillColor(MUTED_COLOR).text([date, doc.author].filter(Boolean).join(' · '));
+}
+
+type ListedLine = MarkdownLine & { numberLabel?: string };
+
+function renderLine(
+  pdf: PdfDoc,
+  line: ListedLine,
+  index: number,
+  spansFor: (text: string) => TextSpan[],
+  brandColor: string,
+  headingPages: Map<number, number>
+) {
+  const contentWidth = pdf.page.width - MARGIN * 2;
+
+  switch (line.type) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4': {
+      pdf.moveDown(line.type === 'h1' ? 1 : 0.6);
+      // Keep headings off the last lines of a page
+      if (pdf.y > pdf.page.height - MARGIN - 60) pdf.addPage();
+      const title = stripInlineMarkdown(line.content);
+      if (TOC_LEVELS[line.type]) {
+        headingPages.set(index, currentPage(pdf));
+        pdf.outline.addItem(title);
+      }
+      pdf
+        .font('Helvetica-Bold')
+        .fontSize(HEADING_SIZES[line.type])
+        .fillColor(brandColor)
+        .text(title, MARGIN, pdf.y, { destination: `heading-${index}` });
+      pdf.moveDown(0.3);
+      break;
+    }
+
+    case 'bullet':
+    case 'numbered': {
+      const indent = 8 + 14 * (line.level || 0);
+      const marker = line.type === 'bullet' ? '•  ' : `${line.numberLabel}  `;
+      pdf.x = MARGIN + indent;
+      writeSpans(pdf, [{ text: marker, font: 'Helvetica' }, ...spansFor(line.content)], {
+        width: contentWidth - indent,
+        lineGap: 2,
+      });
+      pdf.x = MARGIN;
+      pdf.moveDown(0.2);
+      break;
+    }
+
+    case 'hr': {
+      pdf.moveDown(0.5);
+      pdf.moveTo(MARGIN, pdf.y).lineTo(pdf.page.width - MARGIN, pdf.y).lineWidth(0.5).strokeColor('#CCCCCC').stroke();
+      pdf.moveDown(0.5);
+      break;
+    }
+
+    case 'table': {
+      if (!line.tableData || line.tableData.length === 0) break;
+      pdf.moveDown(0.3);
+      pdf.font('Helvetica').fontSize(9).fillColor(TEXT_COLOR);
+      pdf.table({
+        data: line.tableData.map((row, rowIndex) =>
+          row.map((cell) => ({
+            text: stripInlineMarkdown(cell),
+            ...(rowIndex === 0 && { backgroundColor: '#E8E8E8', font: { src: 'Helvetica-Bold' } }),
+          }))
+        ),
+      });
+      pdf.x = MARGIN;
+      pdf.moveDown(0.5);
+      break;
+    }
+
+    case 'code': {
+      pdf.moveDown(0.3);
+      pdf.font('Courier').fontSize(9).fillColor('#333333').text(line.content, MARGIN, pdf.y, { width: contentWidth });
+      pdf.moveDown(0.3);
+      break;
+    }
+
+    case 'paragraph':
+    default: {
+      writeSpans(pdf, spansFor(line.content), { width: contentWidth, lineGap: 2 });
+      pdf.moveDown(0.5);
+      break;
+    }
+  }
+}
+
+/**
+ * Number ordered list items in place; the markdown parser drops the
+ * original numbers.
+ */
+function withListNumbers(lines: MarkdownLine[]): ListedLine[] {
+  const counters: number[] = [];
+  return lines.map((line) => {
+    if (line.type !== 'numbered') {
+      if (line.type !== 'bullet') counters.length = 0;
+      return line;
+    }
+    const level = line.level || 0;
+    counters.length = level + 1;
+    counters[level] = (counters[level] || 0) + 1;
+    return { ...line, numberLabel: `${counters[level]}.` };
+  });
+}
+
+function renderToc(
+  pdf: PdfDoc,
+  lines: MarkdownLine[],
+  headingPages: Map<number, number>,
+  firstTocPage: number,
+  brandColor: string
+) {
+  const entries = buildTocEntries(lines);
+  const headingIndexes = lines.map((line, i) => (TOC_LEVELS[line.type] ? i : -1)).filter((i) => i >= 0);
+  const contentWidth = pdf.page.width - MARGIN * 2;
+
+  pdf.switchToPage(firstTocPage);
+  pdf.font('Helvetica-Bold').fontSize(18).fillColor(brandColor).text('Contents', MARGIN, MARGIN);
+  pdf.moveDown(0.8);
+
+  entries.forEach((entry, i) => {
+    if (i > 0 && i % TOC_ENTRIES_PER_PAGE === 0) {
+      pdf.switchToPage(firstTocPage + i / TOC_ENTRIES_PER_PAGE);
+      pdf.y = MARGIN;
+    }
+    const lineIndex = headingIndexes[i];
+    const pageNumber = String((headingPages.get(lineIndex) ?? 0) + 1);
+    const indent = 16 * (entry.level - 1);
+    const y = pdf.y;
+
+    pdf
+      .font(entry.level === 1 ? 'Helvetica-Bold' : 'Helvetica')
+      .fontSize(11)
+      .fillColor(TEXT_COLOR)
+      .text(entry.title, MARGIN + indent, y, {
+        width: contentWidth - indent - 40,
+        lineBreak: false,
+        ellipsis: true,
+        goTo: `heading-${lineIndex}`,
+      });
+    pdf.text(pageNumber, MARGIN, y, { width: contentWidth, align: 'right', lineBreak: false });
+    pdf.y = y + 18;
+  });
+}
+
+function renderSources(pdf: PdfDoc, doc: ExportDocument, sources: ExportSource[], brandColor: string) {
+  if (sources.length === 0) return;
+
+  pdf.moveDown(1);
+  pdf.outline.addItem('Sources');
+  pdf.font('Helvetica-Bold').fontSize(HEADING_SIZES.h1).fillColor(brandColor).text('Sources', MARGIN, pdf.y);
+  pdf.moveDown(0.3);
+
+  for (const { number, source } of orderSourcesByCitation(doc.content, sources)) {
+    pdf.font('Helvetica-Bold').fontSize(10).fillColor(TEXT_COLOR).text(`${number}. `, MARGIN, pdf.y, {
+      continued: true,
+      destination: sourceDestination(number),
+    });
+    pdf.font('Helvetica').text(formatSourceNote(source), source.url ? { link: source.url } : {});
+    pdf.moveDown(0.2);
+  }
+}
+
+function renderFooters(pdf: PdfDoc, appName: string) {
+  const { start, count } = pdf.bufferedPageRange();
+  // Skip the cover page
+  for (let page = start + 1; page < start + count; page++) {
+    pdf.switchToPage(page);
+    const bottomMargin = pdf.page.margins.bottom;
+    pdf.page.margins.bottom = 0;
+    pdf
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor('#888888')
+      .text(`${appName} · ${page + 1}`, MARGIN, pdf.page.height - MARGIN / 2, {
+        width: pdf.page.width - MARGIN * 2,
+        align: 'right',
+        lineBreak: false,
+      });
+    pdf.page.margins.bottom = bottomMargin;
+  }
+}
+
+/**
+ * Render a document to a PDF buffer.
+ */
+export async function renderPdfDocument(doc: ExportDocument, branding: DocumentBranding): Promise<Buffer> {
+  const brandColor = `#${branding.primaryColor}`;
+  const sources = doc.sources || [];
+  const sourceNumbers = new Map(orderSourcesByCitation(doc.content, sources).map(({ number, source }) => [source, number]));
+  const lines = withListNumbers(parseMarkdown(doc.content));
+  const tocEntryCount = buildTocEntries(lines).length;
+
+  const pdf = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: doc.title,
+      Author: doc.author || branding.appName,
+      Creator: branding.appName,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+  });
+
+  renderCover(pdf, doc, branding, brandColor);
+
+  // Reserve the contents pages; they are filled once heading pages are known
+  const tocPageCount = Math.ceil(tocEntryCount / TOC_ENTRIES_PER_PAGE);
+  for (let i = 0; i < tocPageCount; i++) pdf.addPage();
+  const firstTocPage = 1;
+
+  pdf.addPage();
+  const headingPages = new Map<number, number>();
+  const spansFor = (text: string) => inlineSpans(text, sources, sourceNumbers, brandColor);
+  lines.forEach((line, index) => renderLine(pdf, line, index, spansFor, brandColor, headingPages));
+  renderSources(pdf, doc, sources, brandColor);
+
+  if (tocPageCount > 0) renderToc(pdf, lines, headingPages, firstTocPage, brandColor);
+  renderFooters(pdf, branding.appName);
+
+  pdf.end();
+  return done;
+}
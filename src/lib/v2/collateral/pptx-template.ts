@@ -0,0 +1,477 @@
+/**
+ * PowerPoint Template Filling
+ *
+ * Local alternative to the Google Slides integration for customers that block
+ * the Slides API. A .pptx template carries the same {{Placeholder}} tokens;
+ * they are detected from the slide XML and filled in place, keeping the run
+ * formatting of the token.
+ *
+ * - Tokens split across runs by PowerPoint's editor are merged before filling
+ * - Text shapes that would overflow get a normAutofit font scale; if even the
+ *   minimum scale cannot fit, the filled values are truncated at a word
+ *   boundary and reported as warnings
+ * - A shape whose only text is {{image:Name}} is replaced by a picture fitted
+ *   to the shape's box (or inheriting the layout placeholder's position)
+ */
+
+import JSZip from 'jszip';
+import { readImageInfo } from './document-export';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Location of an uploaded .pptx template, stored in outputConfig.pptx */
+export interface PptxTemplateFile {
+  s3Key: string;
+  fileName: string;
+  uploadedAt: string;
+}
+
+export interface PptxPlaceholders {
+  /** Text placeholders, filled from generated content */
+  text: string[];
+  /** Image placeholder names ({{image:Name}} without the prefix) */
+  images: string[];
+}
+
+export interface PptxFillInput {
+  /** Placeholder name (with or without braces) to value */
+  values: Record<string, string>;
+  /** Image placeholder name to PNG or JPEG data */
+  images?: Record<string, Buffer>;
+}
+
+export interface PptxFillWarning {
+  slide: number;
+  placeholders: string[];
+  kind: 'shrunk' | 'truncated' | 'image_missing' | 'image_unsupported';
+}
+
+export interface PptxFillResult {
+  buffer: Buffer;
+  filled: string[];
+  missing: string[];
+  warnings: PptxFillWarning[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SLIDE_PATTERN = /^ppt\/slides\/slide(\d+)\.xml$/;
+const CONTENT_TYPES_PART = '[Content_Types].xml';
+const IMAGE_REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+const IMAGE_PREFIX = 'image:';
+
+const EMU_PER_POINT = 12700;
+const DEFAULT_FONT_SIZE = 18;
+/** Default bodyPr insets: 0.1in left/right, 0.05in top/bottom */
+const DEFAULT_INSET_X = 7.2;
+const DEFAULT_INSET_Y = 3.6;
+/** Average glyph width and line height relative to the font size */
+const CHAR_WIDTH_RATIO = 0.5;
+const LINE_HEIGHT_RATIO = 1.2;
+const MIN_FONT_SCALE = 0.5;
+const FONT_SCALE_STEP = 0.05;
+
+// =============================================================================
+// XML HELPERS
+// =============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function placeholderPattern(): RegExp {
+  return /\{\{([^{}]+)\}\}/g;
+}
+
+function normalizeName(name: string): string {
+  return name.replace(/^\{\{|\}\}$/g, '').trim();
+}
+
+async function loadSlides(zip: JSZip): Promise<Array<{ path: string; number: number; xml: string }>> {
+  const slides = zip.file(SLIDE_PATTERN).map((file) => ({
+    path: file.name,
+    number: Number(file.name.match(SLIDE_PATTERN)![1]),
+  }));
+  slides.sort((a, b) => a.number - b.number);
+  return Promise.all(slides.map(async (slide) => ({ ...slide, xml: await zip.file(slide.path)!.async('string') })));
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/** Concatenated text of each paragraph in a chunk of DrawingML */
+function paragraphTexts(xml: string): string[] {
+  return [...xml.matchAll(/<a:p(?:\s[^>]*)?(?<!\/)>([\s\S]*?)<\/a:p>/g)].map((p) =>
+    decodeXml([...p[1].matchAll(/<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>/g)].map((t) => t[1]).join(''))
+  );
+}
+
+/**
+ * Detect {{placeholder}} tokens across all slides, in order of appearance.
+ */
+export async function extractPptxPlaceholders(buffer: Buffer): Promise<PptxPlaceholders> {
+  const zip = await JSZip.loadAsync(buffer);
+  const text = new Set<string>();
+  const images = new Set<string>();
+
+  for (const slide of await loadSlides(zip)) {
+    for (const paragraph of paragraphTexts(slide.xml)) {
+      for (const match of paragraph.matchAll(placeholderPattern())) {
+        const name = match[1].trim();
+        if (name.startsWith(IMAGE_PREFIX)) images.add(name.slice(IMAGE_PREFIX.length).trim());
+        else text.add(name);
+      }
+    }
+  }
+
+  return { text: [...text], images: [...images] };
+}
+
+// =============================================================================
+// TEXT FILLING
+// =============================================================================
+
+interface Run {
+  xml: string;
+  rPr: string;
+  text: string;
+}
+
+const RUN_PATTERN = /<a:r>([\s\S]*?)<\/a:r>/g;
+
+function parseRun(xml: string): Run {
+  const rPr = xml.match(/<a:rPr(?:\s[^>]*)?(?:\/>|>[\s\S]*?<\/a:rPr>)/)?.[0] || '';
+  const text = decodeXml(xml.match(/<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>/)?.[1] || '');
+  return { xml, rPr, text };
+}
+
+function buildRuns(rPr: string, text: string): string {
+  return text
+    .split('\n')
+    .map((line) => `<a:r>${rPr}<a:t>${escapeXml(line)}</a:t></a:r>`)
+    .join('<a:br/>');
+}
+
+/**
+ * Flatten markdown the LLM tends to emit into slide-friendly plain text.
+ */
+function toSlideText(value: string): string {
+  return value
+    .replace(/\r\n/g, '\n')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/^\s*[-*+]\s+/gm, '• ')
+    .trim();
+}
+
+/**
+ * Fill the placeholders in one paragraph. Runs that a token is split across
+ * are merged into the token's first run so it keeps that run's formatting.
+ */
+function fillParagraph(
+  paragraphXml: string,
+  values: Map<string, string>,
+  used: Set<string>
+): string {
+  const runs = [...paragraphXml.matchAll(RUN_PATTERN)].map((m) => ({ ...parseRun(m[0]), index: m.index }));
+  if (runs.length === 0) return paragraphXml;
+
+  const fullText = runs.map((r) => r.text).join('');
+  if (!placeholderPattern().test(fullText)) return paragraphXml;
+
+  // Map each character of fullText to its run
+  const owners: number[] = [];
+  runs.forEach((run, i) => {
+    for (let c = 0; c < run.text.length; c++) owners.push(i);
+  });
+
+  const texts = runs.map((r) => r.text);
+  // Run each run's text has been merged into (itself unless merged)
+  const mergedInto = runs.map((_, i) => i);
+  const removed = new Set<number>();
+  for (const match of fullText.matchAll(placeholderPattern())) {
+    const first = mergedInto[owners[match.index]];
+    const last = owners[match.index + match[0].length - 1];
+    for (let i = first + 1; i <= last; i++) {
+      if (removed.has(i)) continue;
+      texts[first] += texts[i];
+      texts[i] = '';
+      mergedInto[i] = first;
+      removed.add(i);
+    }
+  }
+
+  let result = '';
+  let cursor = 0;
+  runs.forEach((run, i) => {
+    result += paragraphXml.slice(cursor, run.index);
+    cursor = run.index + run.xml.length;
+    if (removed.has(i)) return;
+
+    const filled = texts[i].replace(placeholderPattern(), (token, name: string) => {
+      const value = values.get(name.trim());
+      if (value === undefined) return token;
+      used.add(name.trim());
+      return toSlideText(value);
+    });
+    result += filled === run.text ? run.xml : buildRuns(run.rPr, filled);
+  });
+  return result + paragraphXml.slice(cursor);
+}
+
+function fillParagraphs(xml: string, values: Map<string, string>, used: Set<string>): string {
+  return xml.replace(/<a:p(?:\s[^>]*)?(?<!\/)>[\s\S]*?<\/a:p>/g, (p) => fillParagraph(p, values, used));
+}
+
+// =============================================================================
+// OVERFLOW
+// =============================================================================
+
+interface ShapeBox {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+function readBox(shapeXml: string): ShapeBox | null {
+  const xfrm = shapeXml.match(/<a:xfrm(?:\s[^>]*)?>[\s\S]*?<\/a:xfrm>/)?.[0];
+  const off = xfrm?.match(/<a:off x="(-?\d+)" y="(-?\d+)"/);
+  const ext = xfrm?.match(/<a:ext cx="(\d+)" cy="(\d+)"/);
+  if (!off || !ext) return null;
+  return { x: Number(off[1]), y: Number(off[2]), cx: Number(ext[1]), cy: Number(ext[2]) };
+}
+
+function linesNeeded(paragraphs: string[], charsPerLine: number): number {
+  return paragraphs.reduce((sum, p) => sum + Math.max(1, Math.ceil(p.length / charsPerLine)), 0);
+}
+
+/**
+ * Largest font scale at which the text fits the box, or null if it does
+ * not fit even at MIN_FONT_SCALE.
+ */
+function fitFontScale(paragraphs: string[], box: ShapeBox, fontSize: number): number | null {
+  const width = box.cx / EMU_PER_POINT - 2 * DEFAULT_INSET_X;
+  const height = box.cy / EMU_PER_POINT - 2 * DEFAULT_INSET_Y;
+
+  for (let scale = 1; scale >= MIN_FONT_SCALE - 1e-9; scale -= FONT_SCALE_STEP) {
+    const size = fontSize * scale;
+    const charsPerLine = Math.max(1, Math.floor(width / (size * CHAR_WIDTH_RATIO)));
+    const lines = Math.max(1, Math.floor(height / (size * LINE_HEIGHT_RATIO)));
+    if (linesNeeded(paragraphs, charsPerLine) <= lines) return Math.round(scale * 100) / 100;
+  }
+  return null;
+}
+
+/** Characters that fit at the minimum scale, counting each paragraph as full lines */
+function capacityAtMinScale(box: ShapeBox, fontSize: number): number {
+  const size = fontSize * MIN_FONT_SCALE;
+  const charsPerLine = Math.max(1, Math.floor((box.cx / EMU_PER_POINT - 2 * DEFAULT_INSET_X) / (size * CHAR_WIDTH_RATIO)));
+  const lines = Math.max(1, Math.floor((box.cy / EMU_PER_POINT - 2 * DEFAULT_INSET_Y) / (size * LINE_HEIGHT_RATIO)));
+  return charsPerLine * lines;
+}
+
+function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, Math.max(0, maxLength - 1));
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function setFontScale(shapeXml: string, scale: number): string {
+  const autofit = `<a:normAutofit fontScale="${Math.round(scale * 100000)}" lnSpcReduction="10000"/>`;
+  return shapeXml.replace(/<a:bodyPr((?:\s[^>]*?)?)(\/>|>([\s\S]*?)<\/a:bodyPr>)/, (_, attrs: string, _close, inner?: string) => {
+    const rest = (inner || '').replace(/<a:(noAutofit|spAutoFit|normAutofit)(?:\s[^>]*)?\/>/g, '');
+    return `<a:bodyPr${attrs}>${autofit}${rest}</a:bodyPr>`;
+  });
+}
+
+// =============================================================================
+// IMAGES
+// =============================================================================
+
+interface ImagePart {
+  relId: string;
+  width: number;
+  height: number;
+}
+
+function pictureXml(shapeXml: string, name: string, image: ImagePart): string {
+  const id = shapeXml.match(/<p:cNvPr id="(\d+)"/)?.[1] || '0';
+  // Keep the placeholder binding so shapes without their own xfrm inherit the layout position
+  const nvPr = shapeXml.match(/<p:nvPr(?:\s[^>]*)?(?:\/>|>[\s\S]*?<\/p:nvPr>)/)?.[0] || '<p:nvPr/>';
+  const box = readBox(shapeXml);
+
+  let spPr = '<p:spPr/>';
+  if (box) {
+    const scale = Math.min(box.cx / image.width, box.cy / image.height);
+    const cx = Math.round(image.width * scale);
+    const cy = Math.round(image.height * scale);
+    const x = box.x + Math.round((box.cx - cx) / 2);
+    const y = box.y + Math.round((box.cy - cy) / 2);
+    spPr =
+      `<p:spPr><a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+      '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>';
+  }
+
+  return (
+    `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/>` +
+    `<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr>${nvPr}</p:nvPicPr>` +
+    `<p:blipFill><a:blip r:embed="${image.relId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+    `${spPr}</p:pic>`
+  );
+}
+
+async function addImageRelationship(
+  zip: JSZip,
+  slidePath: string,
+  mediaPath: string
+): Promise<string> {
+  const relsPath = slidePath.replace(/slides\/(slide\d+\.xml)$/, 'slides/_rels/$1.rels');
+  let rels =
+    (await zip.file(relsPath)?.async('string')) ||
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+
+  const ids = [...rels.matchAll(/Id="rId(\d+)"/g)].map((m) => Number(m[1]));
+  const relId = `rId${Math.max(0, ...ids) + 1}`;
+  rels = rels.replace(
+    '</Relationships>',
+    `<Relationship Id="${relId}" Type="${IMAGE_REL_TYPE}" Target="../media/${mediaPath.split('/').pop()}"/></Relationships>`
+  );
+  zip.file(relsPath, rels);
+  return relId;
+}
+
+async function ensureImageContentType(zip: JSZip, extension: 'png' | 'jpeg'): Promise<void> {
+  const contentTypes = await zip.file(CONTENT_TYPES_PART)!.async('string');
+  if (new RegExp(`Extension="${extension}"`, 'i').test(contentTypes)) return;
+  zip.file(
+    CONTENT_TYPES_PART,
+    contentTypes.replace('<Default ', `<Default Extension="${extension}" ContentType="image/${extension}"/><Default `)
+  );
+}
+
+// =============================================================================
+// FILL
+// =============================================================================
+
+/**
+ * Fill a .pptx template. Placeholders without a value are left in place
+ * and reported as missing.
+ */
+export async function fillPptxTemplate(buffer: Buffer, input: PptxFillInput): Promise<PptxFillResult> {
+  const zip = await JSZip.loadAsync(buffer);
+  const values = new Map(Object.entries(input.values).map(([key, value]) => [normalizeName(key), value]));
+  const images = new Map(Object.entries(input.images || {}).map(([key, data]) => [normalizeName(key), data]));
+  const detected = await extractPptxPlaceholders(buffer);
+
+  const used = new Set<string>();
+  const usedImages = new Set<string>();
+  const warnings: PptxFillWarning[] = [];
+  let mediaCounter = 0;
+
+  for (const slide of await loadSlides(zip)) {
+    const replacements: Array<{ from: string; to: string }> = [];
+
+    for (const [shapeXml] of slide.xml.matchAll(/<p:sp(?:\s[^>]*)?>[\s\S]*?<\/p:sp>/g)) {
+      const texts = paragraphTexts(shapeXml);
+      if (!texts.some((t) => placeholderPattern().test(t))) continue;
+
+      // Image placeholder: the shape holds nothing but the token
+      const imageToken = texts.join('').trim().match(/^\{\{\s*image:([^{}]+)\}\}$/);
+      if (imageToken) {
+        const name = imageToken[1].trim();
+        const data = images.get(name);
+        const info = data ? readImageInfo(data) : null;
+        if (!data || !info) {
+          warnings.push({ slide: slide.number, placeholders: [name], kind: data ? 'image_unsupported' : 'image_missing' });
+          replacements.push({ from: shapeXml, to: '' });
+          continue;
+        }
+
+        const extension = info.type === 'png' ? 'png' : 'jpeg';
+        let mediaPath: string;
+        do {
+          mediaPath = `ppt/media/collateral-image-${++mediaCounter}.${extension}`;
+        } while (zip.file(mediaPath));
+        zip.file(mediaPath, data);
+        await ensureImageContentType(zip, extension);
+        const relId = await addImageRelationship(zip, slide.path, mediaPath);
+
+        usedImages.add(name);
+        replacements.push({ from: shapeXml, to: pictureXml(shapeXml, name, { relId, ...info }) });
+        continue;
+      }
+
+      const shapeUsed = new Set<string>();
+      let filled = fillParagraphs(shapeXml, values, shapeUsed);
+      shapeUsed.forEach((name) => used.add(name));
+
+      const box = readBox(shapeXml);
+      if (box && shapeUsed.size > 0) {
+        const fontSize = Number(shapeXml.match(/<a:(?:rPr|defRPr)[^>]*\ssz="(\d+)"/)?.[1] || DEFAULT_FONT_SIZE * 100) / 100;
+        const filledTexts = paragraphTexts(filled);
+        let scale = fitFontScale(filledTexts, box, fontSize);
+
+        if (scale === null) {
+          // Shrink the generated values so the shape fits at the minimum scale
+          const names = [...shapeUsed];
+          const valueLength = names.reduce((sum, name) => sum + toSlideText(values.get(name)!).length, 0);
+          const staticLength = filledTexts.join('').length - valueLength;
+          const ratio = Math.max(0, capacityAtMinScale(box, fontSize) - staticLength) / valueLength;
+          const truncated = new Map(values);
+          for (const name of names) {
+            const text = toSlideText(values.get(name)!);
+            truncated.set(name, truncateAtWord(text, Math.floor(text.length * ratio)));
+          }
+          filled = fillParagraphs(shapeXml, truncated, new Set());
+          scale = MIN_FONT_SCALE;
+          warnings.push({ slide: slide.number, placeholders: names, kind: 'truncated' });
+        } else if (scale < 1) {
+          warnings.push({ slide: slide.number, placeholders: [...shapeUsed], kind: 'shrunk' });
+        }
+
+        if (scale < 1) filled = setFontScale(filled, scale);
+      }
+
+      if (filled !== shapeXml) replacements.push({ from: shapeXml, to: filled });
+    }
+
+    let xml = slide.xml;
+    for (const { from, to } of replacements) xml = xml.replace(from, () => to);
+    // Tables and other text outside shapes
+    xml = xml.replace(/<a:tbl>[\s\S]*?<\/a:tbl>/g, (table) => fillParagraphs(table, values, used));
+    zip.file(slide.path, xml);
+  }
+
+  const filled = [...used, ...[...usedImages].map((name) => `${IMAGE_PREFIX}${name}`)];
+  const missing = [
+    ...detected.text.filter((name) => !used.has(name)),
+    ...detected.images.filter((name) => !usedImages.has(name)).map((name) => `${IMAGE_PREFIX}${name}`),
+  ];
+
+  return {
+    buffer: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+    filled,
+    missing,
+    warnings,
+  };
+}
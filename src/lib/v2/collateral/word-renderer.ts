@@ -0,0 +1,307 @@
+/**
+ * Word Renderer
+ *
+ * Renders an ExportDocument to .docx with the docx library: branded cover
+ * page, table of contents, markdown body and one footnote per inline
+ * citation. Runs fully offline.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ParagraphChild,
+} from 'docx';
+import { parseInlineFormatting, parseMarkdown, type MarkdownLine } from '@/lib/docxExport';
+import {
+  buildTocEntries,
+  formatSourceNote,
+  orderSourcesByCitation,
+  splitCitations,
+  type DocumentBranding,
+  type ExportDocument,
+  type ExportSource,
+} from './document-export';
+
+const LOGO_MAX_WIDTH = 200;
+const LOGO_MAX_HEIGHT = 80;
+
+const HEADINGS = {
+  h1: { heading: HeadingLevel.HEADING_1, spacing: { before: 400, after: 200 } },
+  h2: { heading: HeadingLevel.HEADING_2, spacing: { before: 300, after: 150 } },
+  h3: { heading: HeadingLevel.HEADING_3, spacing: { before: 200, after: 100 } },
+  h4: { heading: HeadingLevel.HEADING_4, spacing: { before: 200, after: 100 } },
+} as const;
+
+/**
+ * Collects footnotes while the body is rendered. Word numbers footnotes by
+ * position, so each citation gets its own footnote pointing at the source.
+ */
+class FootnoteCollector {
+  readonly footnotes: Record<string, { children: Paragraph[] }> = {};
+  private nextId = 1;
+
+  constructor(
+    private readonly sources: ExportSource[],
+    private readonly sourceNumbers: Map<ExportSource, number>
+  ) {}
+
+  inlineRuns(text: string): ParagraphChild[] {
+    return splitCitations(text, this.sources.length).flatMap((segment) => {
+      if ('text' in segment) return parseInlineFormatting(segment.text);
+
+      const source = this.sources[segment.citation - 1];
+      const id = this.nextId++;
+      this.footnotes[id] = {
+        children: [
+          new Paragraph({
+            children: [new TextRun(`Source ${this.sourceNumbers.get(source)}: ${formatSourceNote(source)}`)],
+          }),
+        ],
+      };
+      return [new FootnoteReferenceRun(id)];
+    });
+  }
+}
+
+function logoRun(branding: DocumentBranding): ImageRun | null {
+  const { logo } = branding;
+  if (!logo || !logo.width || !logo.height) return null;
+
+  const scale = Math.min(1, LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height);
+  return new ImageRun({
+    type: logo.type,
+    data: logo.data,
+    transformation: { width: Math.round(logo.width * scale), height: Math.round(logo.height * scale) },
+    altText: { name: 'Logo', title: branding.appName, description: `${branding.appName} logo` },
+  });
+}
+
+function coverPage(doc: ExportDocument, branding: DocumentBranding): Paragraph[] {
+  const logo = logoRun(branding);
+  const date = (doc.generatedAt || new Date()).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  return [
+    new Paragraph({
+      children: logo ? [logo] : [new TextRun({ text: branding.appName, bold: true, color: branding.primaryColor, size: 28 })],
+      spacing: { after: 2400 },
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: doc.title, bold: true, size: 56, color: branding.primaryColor })],
+      border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: branding.primaryColor, space: 8 } },
+      spacing: { after: 240 },
+    }),
+    ...(doc.subtitle
+      ? [new Paragraph({ children: [new TextRun({ text: doc.subtitle, size: 32, color: '444444' })], spacing: { after: 240 } })]
+      : []),
+    new Paragraph({
+      children: [new TextRun({ text: [date, doc.author].filter(Boolean).join(' · '), size: 22, color: '666666' })],
+    }),
+    new Paragraph({ children: [new PageBreak()] }),
+  ];
+}
+
+function tableOfContents(lines: MarkdownLine[], branding: DocumentBranding): (Paragraph | TableOfContents)[] {
+  const entries = buildTocEntries(lines);
+  if (entries.length === 0) return [];
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: 'Contents', bold: true, size: 32, color: branding.primaryColor })],
+      spacing: { after: 240 },
+    }),
+    // Cached entries show without a field update; Word refreshes page numbers on open
+    new TableOfContents('Contents', {
+      hyperlink: true,
+      headingStyleRange: '1-3',
+      cachedEntries: entries,
+    }),
+    new Paragraph({ children: [new PageBreak()] }),
+  ];
+}
+
+function createTable(tableData: string[][], collector: FootnoteCollector): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: tableData.map(
+      (rowData, rowIndex) =>
+        new TableRow({
+          children: rowData.map(
+            (cellText) =>
+              new TableCell({
+                children: [new Paragraph({ children: collector.inlineRuns(cellText), alignment: AlignmentType.LEFT })],
+                width: { size: 100 / rowData.length, type: WidthType.PERCENTAGE },
+                shading: rowIndex === 0 ? { fill: 'E8E8E8' } : undefined,
+              })
+          ),
+        })
+    ),
+  });
+}
+
+function bodyChildren(lines: MarkdownLine[], collector: FootnoteCollector): (Paragraph | Table)[] {
+  const children: (Paragraph | Table)[] = [];
+
+  for (const line of lines) {
+    switch (line.type) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+        children.push(new Paragraph({ children: collector.inlineRuns(line.content), ...HEADINGS[line.type] }));
+        break;
+
+      case 'bullet':
+        children.push(
+          new Paragraph({
+            children: collector.inlineRuns(line.content),
+            bullet: { level: line.level || 0 },
+            spacing: { before: 60, after: 60 },
+          })
+        );
+        break;
+
+      case 'numbered':
+        children.push(
+          new Paragraph({
+            children: collector.inlineRuns(line.content),
+            numbering: { reference: 'default-numbering', level: line.level || 0 },
+            spacing: { before: 60, after: 60 },
+          })
+        );
+        break;
+
+      case 'hr':
+        children.push(
+          new Paragraph({
+            children: [],
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'CCCCCC' } },
+            spacing: { before: 200, after: 200 },
+          })
+        );
+        break;
+
+      case 'table':
+        if (line.tableData && line.tableData.length > 0) {
+          children.push(createTable(line.tableData, collector));
+          children.push(new Paragraph({ children: [] }));
+        }
+        break;
+
+      case 'code':
+        children.push(
+          new Paragraph({
+            children: [new TextRun({ text: line.content, font: 'Courier New', size: 20 })],
+            shading: { fill: 'F5F5F5' },
+            spacing: { before: 100, after: 100 },
+          })
+        );
+        break;
+
+      case 'paragraph':
+      default:
+        children.push(new Paragraph({ children: collector.inlineRuns(line.content), spacing: { before: 120, after: 120 } }));
+        break;
+    }
+  }
+
+  return children;
+}
+
+function sourcesSection(doc: ExportDocument, sources: ExportSource[]): Paragraph[] {
+  if (sources.length === 0) return [];
+
+  return [
+    new Paragraph({ children: [new TextRun('Sources')], heading: HeadingLevel.HEADING_1, spacing: { before: 400, after: 200 } }),
+    ...orderSourcesByCitation(doc.content, sources).map(
+      ({ number, source }) =>
+        new Paragraph({
+          children: [new TextRun({ text: `${number}. `, bold: true }), new TextRun(formatSourceNote(source))],
+          spacing: { before: 60, after: 60 },
+        })
+    ),
+  ];
+}
+
+/**
+ * Render a document to a .docx buffer.
+ */
+export async function renderWordDocument(doc: ExportDocument, branding: DocumentBranding): Promise<Buffer> {
+  const sources = doc.sources || [];
+  const sourceNumbers = new Map(orderSourcesByCitation(doc.content, sources).map(({ number, source }) => [source, number]));
+  const collector = new FootnoteCollector(sources, sourceNumbers);
+  const lines = parseMarkdown(doc.content);
+
+  const headingRun = { color: branding.primaryColor, bold: true };
+  const document = new Document({
+    creator: doc.author || branding.appName,
+    title: doc.title,
+    description: `Generated by ${branding.appName}`,
+    features: { updateFields: true },
+    styles: {
+      default: {
+        heading1: { run: { ...headingRun, size: 32 } },
+        heading2: { run: { ...headingRun, size: 28 } },
+        heading3: { run: { ...headingRun, size: 24 } },
+        heading4: { run: { ...headingRun, size: 22 } },
+      },
+    },
+    numbering: {
+      config: [
+        {
+          reference: 'default-numbering',
+          levels: [
+            { level: 0, format: 'decimal', text: '%1.', alignment: AlignmentType.START },
+            { level: 1, format: 'lowerLetter', text: '%2.', alignment: AlignmentType.START },
+            { level: 2, format: 'lowerRoman', text: '%3.', alignment: AlignmentType.START },
+          ],
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: { titlePage: true },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [
+                  new TextRun({ text: `${branding.appName} · `, color: '888888', size: 18 }),
+                  new TextRun({ children: [PageNumber.CURRENT], color: '888888', size: 18 }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children: [
+          ...coverPage(doc, branding),
+          ...tableOfContents(lines, branding),
+          ...bodyChildren(lines, collector),
+          ...sourcesSection(doc, sources),
+        ],
+      },
+    ],
+    footnotes: collector.footnotes,
+  });
+
+  return Packer.toBuffer(document);
+}
@@ -0,0 +1,192 @@
+/**
+ * Contract Playbook
+ *
+ * A playbook is a `playbook` BuildingBlock holding one negotiation ladder per
+ * clause category: the preferred position, ordered fallbacks and the
+ * walk-away terms. In playbook mode the LLM only places each clause on the
+ * ladder for its category; the rating and the position to propose next are
+ * derived here so the same placement always gives the same outcome.
+ *
+ * Next position rule:
+ * - preferred: nothing to propose
+ * - fallback N / walk-away: counter with the step one above the clause
+ * - unacceptable (worse than walk-away): open with the preferred position
+ */
+
+import { z } from 'zod';
+import type { AlignmentRating, PlaybookMatch } from '@/types/contractReview';
+import type { PlaybookAttributes, PlaybookPosition, PlaybookTier } from '@/types/v2';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PlaybookLadderStep {
+  tier: PlaybookTier;
+  fallbackNumber?: number;
+  text: string;
+}
+
+/** Playbook fields the LLM adds to each finding */
+export interface PlaybookPlacement {
+  playbookCategory?: string;
+  playbookTier?: string;
+}
+
+export interface PlaybookOutcome {
+  rating: AlignmentRating;
+  suggestedResponse?: string;
+  playbookMatch: PlaybookMatch;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export const playbookPositionSchema = z.object({
+  category: z.string().trim().min(1, 'category is required'),
+  label: z.string().trim().optional(),
+  preferred: z.string().trim().min(1, 'preferred position is required'),
+  fallbacks: z.array(z.string().trim().min(1)).default([]),
+  walkAway: z.string().trim().min(1, 'walkAway is required'),
+  guidance: z.string().trim().optional(),
+});
+
+export const playbookAttributesSchema = z
+  .object({
+    contractType: z.string().trim().optional(),
+    positions: z.array(playbookPositionSchema).min(1, 'A playbook needs at least one position'),
+  })
+  .refine(
+    (attrs) => new Set(attrs.positions.map((p) => p.category)).size === attrs.positions.length,
+    'Each category may only appear once in a playbook'
+  );
+
+// =============================================================================
+// LADDER
+// =============================================================================
+
+/** Tier-to-rating mapping used instead of the LLM's own rating */
+export const PLAYBOOK_TIER_RATINGS: Record<PlaybookTier, AlignmentRating> = {
+  preferred: 'can_comply',
+  fallback: 'partial',
+  walk_away: 'partial',
+  unacceptable: 'risk',
+};
+
+/**
+ * Positions for a category, most to least favorable.
+ */
+export function getPlaybookLadder(position: PlaybookPosition): PlaybookLadderStep[] {
+  return [
+    { tier: 'preferred', text: position.preferred },
+    ...position.fallbacks.map((text, i) => ({ tier: 'fallback' as const, fallbackNumber: i + 1, text })),
+    { tier: 'walk_away', text: position.walkAway },
+  ];
+}
+
+export function findPlaybookPosition(
+  playbook: PlaybookAttributes,
+  category: string | undefined
+): PlaybookPosition | undefined {
+  if (!category) return undefined;
+  const key = category.trim().toLowerCase();
+  return playbook.positions.find((p) => p.category.toLowerCase() === key);
+}
+
+/**
+ * Parse the LLM tier label ("preferred", "fallback_2", "walk_away",
+ * "unacceptable"). Returns null for labels that are not on this ladder.
+ */
+export function parsePlaybookTier(
+  label: string | undefined,
+  position: PlaybookPosition
+): { tier: PlaybookTier; fallbackNumber?: number } | null {
+  const normalized = label?.trim().toLowerCase();
+  if (normalized === 'preferred' || normalized === 'walk_away' || normalized === 'unacceptable') {
+    return { tier: normalized };
+  }
+
+  const fallback = normalized?.match(/^fallback_(\d+)$/);
+  if (fallback) {
+    const fallbackNumber = Number(fallback[1]);
+    if (fallbackNumber >= 1 && fallbackNumber <= position.fallbacks.length) {
+      return { tier: 'fallback', fallbackNumber };
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the match for a clause placed on a ladder, including the next
+ * position to propose.
+ */
+export function resolvePlaybookMatch(
+  position: PlaybookPosition,
+  tierLabel: string | undefined
+): PlaybookMatch | null {
+  const placement = parsePlaybookTier(tierLabel, position);
+  if (!placement) return null;
+
+  const ladder = getPlaybookLadder(position);
+  let next: PlaybookLadderStep | undefined;
+  if (placement.tier === 'unacceptable') {
+    next = ladder[0];
+  } else if (placement.tier !== 'preferred') {
+    const index = ladder.findIndex(
+      (step) => step.tier === placement.tier && step.fallbackNumber === placement.fallbackNumber
+    );
+    next = ladder[index - 1];
+  }
+
+  return {
+    category: position.category,
+    ...placement,
+    ...(next && { nextPosition: next }),
+  };
+}
+
+/**
+ * Deterministic rating and suggestion for a finding in playbook mode.
+ * Returns null when the finding's category is not covered by the playbook
+ * or the tier could not be read, so the LLM's own assessment is kept.
+ */
+export function applyPlaybook(
+  placement: PlaybookPlacement,
+  playbook: PlaybookAttributes
+): PlaybookOutcome | null {
+  const position = findPlaybookPosition(playbook, placement.playbookCategory);
+  if (!position) return null;
+
+  const match = resolvePlaybookMatch(position, placement.playbookTier);
+  if (!match) return null;
+
+  return {
+    rating: PLAYBOOK_TIER_RATINGS[match.tier],
+    suggestedResponse: match.nextPosition?.text,
+    playbookMatch: match,
+  };
+}
+
+// =============================================================================
+// PROMPT
+// =============================================================================
+
+/**
+ * Render the playbook for the analysis prompt with the tier labels the LLM
+ * must answer with.
+ */
+export function renderPlaybookForPrompt(title: string, playbook: PlaybookAttributes): string {
+  const sections = playbook.positions.map((position) => {
+    const lines = [`### ${position.label || position.category} (category: ${position.category})`];
+    for (const step of getPlaybookLadder(position)) {
+      const label = step.tier === 'fallback' ? `fallback_${step.fallbackNumber}` : step.tier;
+      lines.push(`- ${label}: ${step.text}`);
+    }
+    if (position.guidance) lines.push(`Guidance: ${position.guidance}`);
+    return lines.join('\n');
+  });
+
+  const heading = playbook.contractType ? `${title} (${playbook.contractType})` : title;
+  return [`PLAYBOOK: ${heading}`, ...sections].join('\n\n');
+}
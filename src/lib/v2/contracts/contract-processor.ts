@@ -3,6 +3,9 @@
  *
  * Executes single LLM call to analyze contract against selected skills.
  * Updates BulkRow with findings array on completion.
+ *
+ * In playbook mode the LLM places each clause on the playbook ladder and the
+ * rating and next position are derived by contract-playbook.ts.
  */
 
 import prisma from '@/lib/prisma';
@@ -10,13 +13,16 @@ import { executeLLMCall } from '@/lib/llm/registry';
 import { logger } from '@/lib/logger';
 import { generateErrorId } from '@/lib/error-id';
 import type { ModelSpeed } from '@/lib/config';
-import type { LibraryId } from '@/types/v2';
+import type { LibraryId, PlaybookAttributes } from '@/types/v2';
+import { applyPlaybook, renderPlaybookForPrompt, type PlaybookPlacement } from './contract-playbook';
 
 export interface ContractProcessorParams {
   projectId: string;
   skillIds: string[];
   libraryId: LibraryId;
   modelSpeed: ModelSpeed;
+  /** Playbook block to analyze against (playbook mode) */
+  playbookId?: string;
 }
 
 export interface ContractProcessorResult {
@@ -27,17 +33,18 @@ export interface ContractProcessorResult {
 }
 
 // Import the canonical type from contractReview.ts instead of duplicating
-import type { ContractFinding } from '@/types/contractReview';
+import type { ContractFinding, PlaybookReference } from '@/types/contractReview';
 
 interface LLMAnalysisResponse {
   overallRating: 'compliant' | 'mostly_compliant' | 'needs_review' | 'high_risk';
   summary: string;
-  findings: Array<{
+  findings: Array<PlaybookPlacement & {
     category: string;
     clauseText: string;
     rating: string;
     rationale: string;
     suggestedResponse?: string;
+    relevantSkills?: string[];
   }>;
 }
 
@@ -47,7 +54,7 @@ interface LLMAnalysisResponse {
 export async function processContract(
   params: ContractProcessorParams
 ): Promise<ContractProcessorResult> {
-  const { projectId, skillIds, libraryId, modelSpeed } = params;
+  const { projectId, skillIds, libraryId, modelSpeed, playbookId } = params;
 
   try {
     // 1. Fetch project with contract text
@@ -76,7 +83,10 @@ export async function processContract(
       customerId: project.customerId,
     });
 
-    if (allSkills.length === 0) {
+    // Playbook mode: clauses are placed on this playbook's positions
+    const playbook = playbookId ? await fetchPlaybook(playbookId) : null;
+
+    if (allSkills.length === 0 && !playbook) {
       throw new Error('No valid skills found');
     }
 
@@ -85,6 +95,7 @@ export async function processContract(
       projectName: project.name,
       contractLength: project.fileContext.length,
       skillCount: allSkills.length,
+      playbookId: playbook?.reference.id,
       modelSpeed,
     });
 
@@ -96,8 +107,10 @@ export async function processContract(
 
     // 4. Execute LLM call via registry
     const result = await executeLLMCall({
-      question: `Analyze this contract against the organization's documented capabilities:\n\n${project.fileContext}`,
-      compositionId: 'contract_analysis',
+      question: playbook
+        ? `${renderPlaybookForPrompt(playbook.reference.title, playbook.attributes)}\n\nAnalyze this contract against the playbook above and the organization's documented capabilities:\n\n${project.fileContext}`
+        : `Analyze this contract against the organization's documented capabilities:\n\n${project.fileContext}`,
+      compositionId: playbook ? 'contract_playbook_analysis' : 'contract_analysis',
       skills: allSkills.map((s) => ({ title: s.title, content: s.content })),
       modelSpeed,
       runtimeContext: {},
@@ -133,8 +146,10 @@ export async function processContract(
     }
 
     // 7. Augment findings with workflow fields and generate unique IDs
-    const findings = analysis.findings.map((f, idx) => ({
+    const findings = analysis.findings.map(({ playbookCategory, playbookTier, ...f }, idx) => ({
       ...f as Omit<ContractFinding, 'id' | 'contractReviewId' | 'index'>,
+      // Playbook placements override the LLM rating and suggestion
+      ...(playbook && applyPlaybook({ playbookCategory, playbookTier }, playbook.attributes)),
       id: `${projectId}-finding-${idx}`, // Generate unique ID for frontend
       contractReviewId: projectId, // Link back to project
       index: idx,
@@ -165,7 +180,11 @@ export async function processContract(
       originalSuggestedResponse: undefined,
       originalRating: undefined,
       originalRationale: undefined,
-      relevantSkills: [],
+      // Keep only titles that match a skill sent to the LLM
+      relevantSkills: (f.relevantSkills || []).flatMap((title) => {
+        const skill = allSkills.find((s) => s.title === title);
+        return skill ? [{ id: skill.id, title: skill.title }] : [];
+      }),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     })) as ContractFinding[];
@@ -178,11 +197,13 @@ export async function processContract(
           overallRating: analysis.overallRating,
           summary: analysis.summary,
           findings,
+          ...(playbook && { playbook: playbook.reference }),
           transparency: {
             compositionId: result.transparency.compositionId,
             blockIds: result.transparency.blockIds,
             skillIds,
             skillCount: allSkills.length,
+            playbookId: playbook?.reference.id,
             modelSpeed,
             systemPrompt: result.transparency.systemPrompt,
             model: result.usage?.model || 'unknown',
@@ -261,6 +282,29 @@ export async function processContract(
   }
 }
 
+/**
+ * Fetch an active playbook and the version it is at, so findings record
+ * exactly which playbook revision they were placed against.
+ */
+async function fetchPlaybook(
+  playbookId: string
+): Promise<{ reference: PlaybookReference; attributes: PlaybookAttributes }> {
+  const block = await prisma.buildingBlock.findFirst({
+    where: { id: playbookId, libraryId: 'playbooks', status: 'ACTIVE' },
+    select: { id: true, title: true, version: true, gitCommitSha: true, attributes: true },
+  });
+
+  const attributes = block?.attributes as PlaybookAttributes | undefined;
+  if (!block || !Array.isArray(attributes?.positions) || attributes.positions.length === 0) {
+    throw new Error('Playbook not found or has no positions');
+  }
+
+  return {
+    reference: { id: block.id, title: block.title, version: block.version, gitCommitSha: block.gitCommitSha },
+    attributes,
+  };
+}
+
 /**
  * Fetch skills for contract analysis
  */
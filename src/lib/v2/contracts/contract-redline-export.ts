@@ -0,0 +1,405 @@
+/**
+ * Contract Redline Export
+ *
+ * Writes contract analysis findings back into the customer's uploaded .docx
+ * as Word tracked changes. For each finding the clause is located in the
+ * document body, the matched text is marked as a tracked deletion followed by
+ * a tracked insertion of the suggested language, and a comment anchored on the
+ * change carries the rating, rationale and the skills the finding relied on.
+ *
+ * Only the runs that contain a clause are rewritten (keeping their formatting);
+ * everything else in the package is passed through untouched.
+ */
+
+import JSZip from 'jszip';
+import type { ContractFinding } from '@/types/contractReview';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Location of the uploaded contract, stored in BulkProject.config.sourceFile */
+export type OriginalContractFile = {
+  s3Key: string;
+  fileName: string;
+  fileType: 'docx';
+};
+
+export interface Redline {
+  findingId: string;
+  clauseText: string;
+  /** Replacement language; comment-only when absent */
+  suggestedText?: string;
+  rating: string;
+  rationale: string;
+  /** Skill titles cited by the finding */
+  citations: string[];
+}
+
+export interface RedlineOptions {
+  /** Author shown on tracked changes and comments */
+  author?: string;
+  date?: Date;
+}
+
+export interface SkippedRedline {
+  findingId: string;
+  reason: 'clause_not_found' | 'nothing_to_suggest';
+}
+
+export interface RedlineResult {
+  buffer: Buffer;
+  applied: number;
+  skipped: SkippedRedline[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DOCUMENT_PART = 'word/document.xml';
+const COMMENTS_PART = 'word/comments.xml';
+const DOCUMENT_RELS_PART = 'word/_rels/document.xml.rels';
+const CONTENT_TYPES_PART = '[Content_Types].xml';
+
+const COMMENTS_REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments';
+const COMMENTS_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml';
+const WORDML_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const DEFAULT_AUTHOR = 'Contract Review';
+
+/** Ratings that get a comment even without suggested language */
+const COMMENT_ONLY_RATINGS = ['partial', 'gap', 'risk'];
+
+const RATING_LABELS: Record<string, string> = {
+  can_comply: 'Can comply',
+  partial: 'Partial',
+  gap: 'Gap',
+  risk: 'Risk',
+  info_only: 'Info only',
+};
+
+// =============================================================================
+// XML HELPERS
+// =============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Lower-case, straighten quotes and collapse whitespace so LLM-quoted clauses
+ * match the document text. Returns the normalized string plus, for each of its
+ * characters, the index of the source character it came from.
+ */
+export function normalizeForMatch(text: string): { normalized: string; map: number[] } {
+  let normalized = '';
+  const map: number[] = [];
+  let lastWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    let ch = text[i];
+    if (/\s/.test(ch)) {
+      if (lastWasSpace) continue;
+      ch = ' ';
+      lastWasSpace = true;
+    } else {
+      lastWasSpace = false;
+      ch = ch
+        .replace(/[‘’‚′]/, "'")
+        .replace(/[“”„″]/, '"')
+        .replace(/[–—]/, '-')
+        .toLowerCase();
+    }
+    normalized += ch;
+    map.push(i);
+  }
+
+  if (normalized.endsWith(' ')) {
+    normalized = normalized.slice(0, -1);
+    map.pop();
+  }
+  return { normalized, map };
+}
+
+interface TextRun {
+  /** Offsets of the whole <w:r> element within the paragraph XML */
+  start: number;
+  end: number;
+  rPr: string;
+  text: string;
+  /** Offset of this run's text within the paragraph text */
+  textOffset: number;
+}
+
+/**
+ * Runs whose only content is formatting plus <w:t> text. Other runs (tabs,
+ * fields, drawings, existing tracked deletions) are left untouched.
+ */
+function getTextRuns(paragraphXml: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const runPattern = /<w:r(?:\s[^>]*)?(?<!\/)>([\s\S]*?)<\/w:r>/g;
+  let textOffset = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = runPattern.exec(paragraphXml)) !== null) {
+    const inner = match[1];
+    const rPr = inner.match(/^\s*<w:rPr>[\s\S]*?<\/w:rPr>/)?.[0].trim() || '';
+    const body = inner.slice(inner.indexOf(rPr) + rPr.length);
+    const texts = [...body.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:t\s*\/>/g)];
+    if (texts.length === 0 || body.replace(/<w:t(?:\s[^>]*)?>[\s\S]*?<\/w:t>|<w:t\s*\/>/g, '').trim()) {
+      continue;
+    }
+
+    const text = decodeXml(texts.map((t) => t[1] || '').join(''));
+    runs.push({ start: match.index, end: match.index + match[0].length, rPr, text, textOffset });
+    textOffset += text.length;
+  }
+
+  return runs;
+}
+
+function textRunXml(rPr: string, text: string): string {
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function deletedRunXml(rPr: string, text: string, revisionAttrs: string): string {
+  return `<w:del ${revisionAttrs}><w:r>${rPr}<w:delText xml:space="preserve">${escapeXml(text)}</w:delText></w:r></w:del>`;
+}
+
+/**
+ * Find a clause in paragraph text; clauses quoted with an ellipsis are matched
+ * on their longest segment.
+ */
+function locateClause(paragraphText: string, clause: string): { start: number; end: number } | null {
+  const { normalized, map } = normalizeForMatch(paragraphText);
+  const candidates = [clause, ...clause.split(/\.{3}|…/).sort((a, b) => b.length - a.length)];
+
+  for (const candidate of candidates) {
+    const needle = normalizeForMatch(candidate).normalized;
+    if (needle.length < 12) continue;
+    const index = normalized.indexOf(needle);
+    if (index !== -1) {
+      return { start: map[index], end: map[index + needle.length - 1] + 1 };
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// DOCUMENT REWRITING
+// =============================================================================
+
+/**
+ * Rewrite one paragraph with the redline applied, or return null if the clause
+ * is not in it. Comment-only redlines anchor the comment without changing text.
+ */
+function redlineParagraph(
+  paragraphXml: string,
+  redline: Redline,
+  commentId: number,
+  revisionAttrs: () => string
+): string | null {
+  const runs = getTextRuns(paragraphXml);
+  const paragraphText = runs.map((r) => r.text).join('');
+  const location = locateClause(paragraphText, redline.clauseText);
+  if (!location) return null;
+
+  const affected = runs.filter(
+    (r) => r.textOffset < location.end && r.textOffset + r.text.length > location.start
+  );
+  const first = affected[0];
+  const last = affected[affected.length - 1];
+
+  let replacement = '';
+  let cursor = first.start;
+  affected.forEach((run, index) => {
+    // Keep anything between runs (bookmarks, proofing marks, non-text runs)
+    replacement += paragraphXml.slice(cursor, run.start);
+    cursor = run.end;
+
+    const from = Math.max(location.start - run.textOffset, 0);
+    const to = Math.min(location.end - run.textOffset, run.text.length);
+    const clausePart = run.text.slice(from, to);
+
+    if (index === 0) {
+      if (from > 0) replacement += textRunXml(run.rPr, run.text.slice(0, from));
+      replacement += `<w:commentRangeStart w:id="${commentId}"/>`;
+    }
+    replacement += redline.suggestedText
+      ? deletedRunXml(run.rPr, clausePart, revisionAttrs())
+      : textRunXml(run.rPr, clausePart);
+
+    if (index === affected.length - 1) {
+      if (redline.suggestedText) {
+        replacement += `<w:ins ${revisionAttrs()}>${textRunXml(first.rPr, redline.suggestedText)}</w:ins>`;
+      }
+      replacement += `<w:commentRangeEnd w:id="${commentId}"/><w:r><w:commentReference w:id="${commentId}"/></w:r>`;
+      if (to < run.text.length) replacement += textRunXml(run.rPr, run.text.slice(to));
+    }
+  });
+
+  return paragraphXml.slice(0, first.start) + replacement + paragraphXml.slice(last.end);
+}
+
+function commentXml(redline: Redline, id: number, author: string, date: string): string {
+  const lines = [
+    `${RATING_LABELS[redline.rating] || redline.rating}: ${redline.rationale}`,
+    ...(redline.citations.length > 0 ? [`Sources: ${redline.citations.join(', ')}`] : []),
+  ];
+  const paragraphs = lines
+    .map((line) => `<w:p><w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r></w:p>`)
+    .join('');
+  const initials = author
+    .split(/\s+/)
+    .map((part) => part[0] || '')
+    .join('')
+    .toUpperCase();
+
+  return `<w:comment w:id="${id}" w:author="${escapeXml(author)}" w:date="${date}" w:initials="${escapeXml(initials)}">${paragraphs}</w:comment>`;
+}
+
+/** Highest numeric w:id already used in a part, so new ids never collide */
+function maxId(xml: string | undefined): number {
+  if (!xml) return 0;
+  let max = 0;
+  for (const match of xml.matchAll(/w:id="(\d+)"/g)) {
+    max = Math.max(max, Number(match[1]));
+  }
+  return max;
+}
+
+async function addComments(zip: JSZip, comments: string[]): Promise<void> {
+  const existing = await zip.file(COMMENTS_PART)?.async('string');
+  if (existing) {
+    zip.file(
+      COMMENTS_PART,
+      /<w:comments\s[^>]*\/>/.test(existing)
+        ? existing.replace(/<w:comments(\s[^>]*)\/>/, `<w:comments$1>${comments.join('')}</w:comments>`)
+        : existing.replace('</w:comments>', `${comments.join('')}</w:comments>`)
+    );
+    return;
+  }
+
+  zip.file(
+    COMMENTS_PART,
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:comments xmlns:w="${WORDML_NAMESPACE}">${comments.join('')}</w:comments>`
+  );
+
+  const rels = await zip.file(DOCUMENT_RELS_PART)?.async('string');
+  if (rels && !rels.includes(COMMENTS_REL_TYPE)) {
+    let relId = 1;
+    while (rels.includes(`Id="rIdComments${relId}"`)) relId++;
+    zip.file(
+      DOCUMENT_RELS_PART,
+      rels.replace(
+        '</Relationships>',
+        `<Relationship Id="rIdComments${relId}" Type="${COMMENTS_REL_TYPE}" Target="comments.xml"/></Relationships>`
+      )
+    );
+  }
+
+  const contentTypes = await zip.file(CONTENT_TYPES_PART)?.async('string');
+  if (contentTypes && !contentTypes.includes('/word/comments.xml')) {
+    zip.file(
+      CONTENT_TYPES_PART,
+      contentTypes.replace(
+        '</Types>',
+        `<Override PartName="/word/comments.xml" ContentType="${COMMENTS_CONTENT_TYPE}"/></Types>`
+      )
+    );
+  }
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Map analysis findings to redlines. Reviewer edits win over the generated
+ * suggestion; findings with nothing to suggest or flag are dropped.
+ */
+export function findingsToRedlines(findings: ContractFinding[]): Redline[] {
+  return findings
+    .filter((f) => f.clauseText?.trim())
+    .map((f) => ({
+      findingId: f.id,
+      clauseText: f.clauseText,
+      suggestedText: (f.userEditedResponse || f.suggestedResponse)?.trim() || undefined,
+      rating: f.rating,
+      rationale: f.rationale,
+      citations: (f.relevantSkills || []).map((s) => (typeof s === 'string' ? s : s.title)),
+    }));
+}
+
+/**
+ * Apply redlines to an uploaded .docx. Each clause is matched within a single
+ * paragraph; clauses that cannot be found are reported as skipped.
+ */
+export async function writeRedlinesToDocx(
+  original: Buffer,
+  redlines: Redline[],
+  options: RedlineOptions = {}
+): Promise<RedlineResult> {
+  const zip = await JSZip.loadAsync(original);
+  let documentXml = await zip.file(DOCUMENT_PART)?.async('string');
+  if (!documentXml) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const author = escapeXml(options.author || DEFAULT_AUTHOR);
+  const date = (options.date || new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const existingComments = await zip.file(COMMENTS_PART)?.async('string');
+
+  let lastId = Math.max(maxId(documentXml), maxId(existingComments));
+  const revisionAttrs = () => `w:id="${++lastId}" w:author="${author}" w:date="${date}"`;
+
+  const comments: string[] = [];
+  const skipped: SkippedRedline[] = [];
+
+  for (const redline of redlines) {
+    if (!redline.suggestedText && !COMMENT_ONLY_RATINGS.includes(redline.rating)) {
+      skipped.push({ findingId: redline.findingId, reason: 'nothing_to_suggest' });
+      continue;
+    }
+
+    const commentId = ++lastId;
+    let applied = false;
+
+    documentXml = documentXml.replace(/<w:p(?:\s[^>]*)?(?<!\/)>[\s\S]*?<\/w:p>/g, (paragraph) => {
+      if (applied) return paragraph;
+      const rewritten = redlineParagraph(paragraph, redline, commentId, revisionAttrs);
+      if (rewritten === null) return paragraph;
+      applied = true;
+      return rewritten;
+    });
+
+    if (applied) {
+      comments.push(commentXml(redline, commentId, options.author || DEFAULT_AUTHOR, date));
+    } else {
+      skipped.push({ findingId: redline.findingId, reason: 'clause_not_found' });
+    }
+  }
+
+  zip.file(DOCUMENT_PART, documentXml);
+  if (comments.length > 0) {
+    await addComments(zip, comments);
+  }
+
+  const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { buffer, applied: comments.length, skipped };
+}
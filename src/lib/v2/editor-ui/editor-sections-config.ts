@@ -57,6 +57,7 @@ export const EDITOR_SECTIONS_CONFIG: Record<LibraryId, EditorSectionConfig[]> =
   personas: [],
   templates: [],
   views: [],
+  playbooks: [],
 };
 
 /**
@@ -87,7 +88,7 @@ export const ATTRIBUTE_FIELDS_CONFIG: Record<LibraryId, AttributeFieldConfig[]>
       label: 'Exposed To',
       type: 'checkboxes',
       options: ['slackbot', 'chat', 'rfp'],
-      hint: 'Which interfaces should this skill be exposed to?',
+      hint: 'Which interfaces should this skill be exposed to? Leave all unchecked to expose everywhere.',
     },
     { key: 'owners', label: 'Owners/SMEs', type: 'user-picker', hint: 'Who are the subject matter experts?' },
   ],
@@ -131,6 +132,7 @@ export const ATTRIBUTE_FIELDS_CONFIG: Record<LibraryId, AttributeFieldConfig[]>
   personas: [],
   templates: [],
   views: [],
+  playbooks: [],
 };
 
 export function getAttributeFields(libraryId: LibraryId): AttributeFieldConfig[] {
@@ -0,0 +1,257 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable text-embedding backends used by the embedding service:
+ *
+ * - local: Deterministic feature-hashing model with a security/compliance
+ *   synonym table. Needs no network, so it is used for tests, air-gapped
+ *   deployments and as the default when no remote provider is configured.
+ *   It is NOT a semantic model: it scores word overlap, so questions that
+ *   differ only in a region, frequency or number ("EU" vs "US" residency,
+ *   30 vs 90 day retention) come out as near-duplicates.
+ * - http: Any OpenAI-compatible `/embeddings` endpoint (OpenAI, Voyage,
+ *   Ollama, llama.cpp server, etc.).
+ *
+ * Select with EMBEDDING_PROVIDER=local|http. The http provider reads
+ * EMBEDDING_API_URL, EMBEDDING_API_KEY, EMBEDDING_MODEL and EMBEDDING_DIMENSIONS.
+ * Production deployments should set EMBEDDING_PROVIDER explicitly; falling
+ * back to the local model is logged as a warning there.
+ *
+ * Callers that act on a score without a human in the loop (answer reuse,
+ * contradiction pairing) must check `semantic` and not trust local scores.
+ */
+
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EmbeddingProviderId = 'local' | 'http';
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  /** Model identifier stored alongside vectors - vectors from different models are never compared */
+  model: string;
+  dimensions: number;
+  /** Whether scores reflect meaning. False for the local hashing model - use its scores for ranking only */
+  semantic: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// =============================================================================
+// VECTOR MATH
+// =============================================================================
+
+/**
+ * Cosine similarity between two vectors. Returns 0 for mismatched or empty vectors.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+// =============================================================================
+// LOCAL PROVIDER
+// =============================================================================
+
+/**
+ * Phrases that mean the same thing in security questionnaires. Each group maps
+ * to a shared concept feature so "SSO" and "SAML login" land near each other.
+ */
+const CONCEPT_GROUPS: Record<string, string[]> = {
+  sso: ['sso', 'single sign on', 'single signon', 'saml', 'saml login', 'oidc', 'openid connect', 'okta', 'federated login', 'identity provider', 'idp'],
+  mfa: ['mfa', '2fa', 'two factor', 'multi factor', 'multifactor', 'totp', 'authenticator app'],
+  encryption: ['encryption', 'encrypt', 'encrypted', 'aes', 'aes 256', 'tls', 'ssl', 'at rest', 'in transit', 'kms'],
+  access_control: ['rbac', 'role based access', 'access control', 'permissions', 'least privilege', 'authorization'],
+  retention: ['retention', 'data retention', 'deletion', 'data deletion', 'purge', 'retain'],
+  privacy: ['privacy', 'gdpr', 'ccpa', 'dpa', 'data processing agreement', 'personal data', 'pii', 'personally identifiable'],
+  compliance: ['soc 2', 'soc2', 'iso 27001', 'iso27001', 'compliance', 'certification', 'attestation', 'hipaa', 'pci'],
+  continuity: ['backup', 'backups', 'disaster recovery', 'business continuity', 'rpo', 'rto', 'failover', 'bcp'],
+  pentest: ['pen test', 'pentest', 'penetration test', 'penetration testing', 'vulnerability scan', 'vulnerability scanning'],
+  incident: ['incident', 'incident response', 'breach', 'security incident', 'breach notification'],
+  audit_logging: ['audit log', 'audit logs', 'audit trail', 'logging', 'siem'],
+  subprocessors: ['subprocessor', 'subprocessors', 'sub processor', 'third party', 'vendor', 'vendors'],
+  hosting: ['hosting', 'hosted', 'aws', 'gcp', 'azure', 'data center', 'data residency', 'region'],
+};
+
+const LOCAL_DIMENSIONS = 256;
+
+/** FNV-1a 32-bit hash */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Function words that carry no topical signal in questionnaire text */
+const STOP_WORDS = new Set([
+  'the', 'an', 'and', 'or', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'as',
+  'is', 'are', 'was', 'be', 'do', 'does', 'did', 'you', 'your', 'we', 'our', 'us', 'it', 'its',
+  'this', 'that', 'these', 'those', 'what', 'which', 'how', 'when', 'where', 'who', 'why',
+  'can', 'will', 'please', 'describe', 'provide', 'any', 'all', 'if', 'have', 'has',
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token.length > 1);
+}
+
+/**
+ * Deterministic offline embedding model.
+ *
+ * Features: non-stop-word unigrams (weight 1), character trigrams (weight 0.2,
+ * for morphology like encrypt/encryption) and concept ids from CONCEPT_GROUPS
+ * (weight 2, matched against the full token stream so phrases like "at rest"
+ * still count). Features are hashed into a fixed-size signed vector.
+ */
+export function embedLocally(text: string, dimensions: number = LOCAL_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+  const contentTokens = tokens.filter(token => !STOP_WORDS.has(token));
+
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * weight;
+  };
+
+  for (const token of contentTokens) {
+    add(`w:${token}`, 1);
+    const padded = `#${token}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`c:${padded.slice(i, i + 3)}`, 0.2);
+    }
+  }
+
+  const joined = ` ${tokens.join(' ')} `;
+  for (const [concept, phrases] of Object.entries(CONCEPT_GROUPS)) {
+    if (phrases.some(phrase => joined.includes(` ${phrase} `))) {
+      add(`concept:${concept}`, 2);
+    }
+  }
+
+  return normalize(vector);
+}
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: 'local',
+  model: `local-hash-v1-${LOCAL_DIMENSIONS}`,
+  dimensions: LOCAL_DIMENSIONS,
+  semantic: false,
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => embedLocally(text));
+  },
+};
+
+// =============================================================================
+// HTTP (OPENAI-COMPATIBLE) PROVIDER
+// =============================================================================
+
+interface HttpEmbeddingConfig {
+  url: string;
+  apiKey?: string;
+  model: string;
+  dimensions: number;
+}
+
+export function createHttpEmbeddingProvider(config: HttpEmbeddingConfig): EmbeddingProvider {
+  return {
+    id: 'http',
+    model: config.model,
+    dimensions: config.dimensions,
+    semantic: true,
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) return [];
+
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({ model: config.model, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed with status ${response.status}`);
+      }
+
+      const json = (await response.json()) as { data?: Array<{ embedding: number[]; index?: number }> };
+      const data = json.data || [];
+      if (data.length !== texts.length) {
+        throw new Error(`Embedding provider returned ${data.length} vectors for ${texts.length} inputs`);
+      }
+
+      return [...data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => item.embedding);
+    },
+  };
+}
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+let overrideProvider: EmbeddingProvider | null = null;
+let warnedLocalFallback = false;
+
+/**
+ * Get the configured embedding provider.
+ * Falls back to the local model when the http provider is not fully configured.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (overrideProvider) return overrideProvider;
+
+  const configured = process.env.EMBEDDING_PROVIDER;
+  if (configured === 'http' && process.env.EMBEDDING_API_URL && process.env.EMBEDDING_MODEL) {
+    return createHttpEmbeddingProvider({
+      url: process.env.EMBEDDING_API_URL,
+      apiKey: process.env.EMBEDDING_API_KEY,
+      model: process.env.EMBEDDING_MODEL,
+      dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '1024', 10),
+    });
+  }
+
+  if (configured !== 'local' && process.env.NODE_ENV === 'production' && !warnedLocalFallback) {
+    warnedLocalFallback = true;
+    logger.warn(
+      configured === 'http'
+        ? 'EMBEDDING_PROVIDER=http is missing EMBEDDING_API_URL or EMBEDDING_MODEL - using the local hashing model'
+        : 'EMBEDDING_PROVIDER is not set - using the local hashing model, which is not semantic',
+      { model: localEmbeddingProvider.model }
+    );
+  }
+
+  return localEmbeddingProvider;
+}
+
+/**
+ * Replace the embedding provider (tests, demos). Pass null to restore env-based selection.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  overrideProvider = provider;
+}
@@ -0,0 +1,243 @@
+/**
+ * EmbeddingService - Compute, store and query BuildingBlock embeddings
+ *
+ * Each block gets up to two vectors in BuildingBlockEmbedding:
+ * - 'content': title + body
+ * - 'scope': title + scopeDefinition (covers, keywords, futureAdditions)
+ *
+ * Vectors are keyed by model so switching providers never compares vectors
+ * from different embedding spaces. A content hash skips re-embedding blocks
+ * whose text has not changed.
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import type { ScopeDefinition } from '@/types/v2';
+import { cosineSimilarity, getEmbeddingProvider } from './embedding-providers';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EmbeddingField = 'content' | 'scope';
+
+export interface SkillForEmbedding {
+  id: string;
+  title: string;
+  scopeDefinition?: ScopeDefinition;
+}
+
+export interface EmbeddingMatch {
+  skillId: string;
+  /** Best cosine similarity across content items and skill fields, clamped to 0-1 */
+  score: number;
+  field: EmbeddingField;
+}
+
+/** Long bodies are truncated before embedding - most providers cap input length. */
+const MAX_EMBEDDING_INPUT_CHARS = 8000;
+
+// =============================================================================
+// TEXT PREPARATION
+// =============================================================================
+
+export function buildScopeText(title: string, scope?: ScopeDefinition): string {
+  if (!scope) return title;
+
+  return [
+    title,
+    scope.covers,
+    scope.keywords?.join(', '),
+    scope.futureAdditions?.join(', '),
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function buildContentText(title: string, content: string): string {
+  return `${title}\n\n${content}`.slice(0, MAX_EMBEDDING_INPUT_CHARS);
+}
+
+function hashText(model: string, text: string): string {
+  return createHash('sha256').update(`${model}\n${text}`).digest('hex');
+}
+
+// =============================================================================
+// WRITE PATH
+// =============================================================================
+
+/**
+ * Compute and store embeddings for a block. Unchanged fields are skipped.
+ */
+export async function embedBlock(blockId: string): Promise<{ embedded: number; skipped: number }> {
+  const block = await prisma.buildingBlock.findUnique({
+    where: { id: blockId },
+    select: { id: true, title: true, content: true, attributes: true },
+  });
+
+  if (!block) {
+    throw new Error(`Block not found: ${blockId}`);
+  }
+
+  const provider = getEmbeddingProvider();
+  const attrs = (block.attributes as Record<string, unknown>) || {};
+  const texts: Record<EmbeddingField, string> = {
+    content: buildContentText(block.title, block.content),
+    scope: buildScopeText(block.title, attrs.scopeDefinition as ScopeDefinition | undefined),
+  };
+
+  const existing = await prisma.buildingBlockEmbedding.findMany({
+    where: { blockId, model: provider.model },
+    select: { field: true, contentHash: true },
+  });
+  const existingHashes = new Map(existing.map(e => [e.field, e.contentHash]));
+
+  const fields = (Object.keys(texts) as EmbeddingField[]).filter(
+    field => existingHashes.get(field) !== hashText(provider.model, texts[field])
+  );
+
+  if (fields.length === 0) {
+    return { embedded: 0, skipped: 2 };
+  }
+
+  const vectors = await provider.embed(fields.map(field => texts[field]));
+
+  await prisma.$transaction(
+    fields.map((field, idx) =>
+      prisma.buildingBlockEmbedding.upsert({
+        where: { blockId_field_model: { blockId, field, model: provider.model } },
+        create: {
+          blockId,
+          field,
+          provider: provider.id,
+          model: provider.model,
+          dimensions: vectors[idx].length,
+          vector: vectors[idx],
+          contentHash: hashText(provider.model, texts[field]),
+        },
+        update: {
+          provider: provider.id,
+          dimensions: vectors[idx].length,
+          vector: vectors[idx],
+          contentHash: hashText(provider.model, texts[field]),
+        },
+      })
+    )
+  );
+
+  return { embedded: fields.length, skipped: 2 - fields.length };
+}
+
+/**
+ * Embed several blocks, continuing past individual failures.
+ */
+export async function embedBlocks(
+  blockIds: string[]
+): Promise<{ embedded: number; skipped: number; failed: string[] }> {
+  let embedded = 0;
+  let skipped = 0;
+  const failed: string[] = [];
+
+  for (const blockId of blockIds) {
+    try {
+      const result = await embedBlock(blockId);
+      embedded += result.embedded;
+      skipped += result.skipped;
+    } catch (error) {
+      logger.error('Failed to embed block', error, { blockId });
+      failed.push(blockId);
+    }
+  }
+
+  return { embedded, skipped, failed };
+}
+
+/**
+ * Embed every active block that is missing or has stale vectors for the
+ * current model. Used to backfill after enabling or switching providers.
+ */
+export async function backfillBlockEmbeddings(): Promise<{ embedded: number; skipped: number; failed: string[] }> {
+  const blocks = await prisma.buildingBlock.findMany({
+    where: { status: 'ACTIVE' },
+    select: { id: true },
+  });
+
+  return embedBlocks(blocks.map(b => b.id));
+}
+
+/**
+ * Queue embedding of a block after create/update. Only the enqueue is
+ * awaited, so request handlers never wait on (or lose) the embedding call.
+ * Never throws.
+ */
+export async function scheduleBlockEmbedding(blockId: string): Promise<void> {
+  try {
+    const { addJob, QUEUE_NAMES } = await import('@/lib/queue');
+    await addJob(QUEUE_NAMES.FILE_PROCESSING, 'generate_embeddings', {
+      type: 'generate_embeddings',
+      blockIds: [blockId],
+    });
+  } catch (error) {
+    // Embeddings are an enhancement to matching - never fail the block write
+    logger.error('Failed to schedule block embedding', error, { blockId });
+  }
+}
+
+// =============================================================================
+// READ PATH
+// =============================================================================
+
+/**
+ * Score skills against content by embedding similarity.
+ *
+ * Uses stored vectors where available; skills that have not been embedded yet
+ * (or were embedded with a different model) are embedded on the fly from
+ * their title and scope so results are never silently missing.
+ */
+export async function scoreSkillsByEmbedding(
+  contentTexts: string[],
+  skills: SkillForEmbedding[]
+): Promise<EmbeddingMatch[]> {
+  if (contentTexts.length === 0 || skills.length === 0) return [];
+
+  const provider = getEmbeddingProvider();
+  const contentVectors = await provider.embed(
+    contentTexts.map(text => text.slice(0, MAX_EMBEDDING_INPUT_CHARS))
+  );
+
+  const stored = await prisma.buildingBlockEmbedding.findMany({
+    where: { blockId: { in: skills.map(s => s.id) }, model: provider.model },
+    select: { blockId: true, field: true, vector: true },
+  });
+
+  const vectorsBySkill = new Map<string, Array<{ field: EmbeddingField; vector: number[] }>>();
+  for (const row of stored) {
+    const list = vectorsBySkill.get(row.blockId) || [];
+    list.push({ field: row.field as EmbeddingField, vector: row.vector });
+    vectorsBySkill.set(row.blockId, list);
+  }
+
+  const missing = skills.filter(s => !vectorsBySkill.has(s.id));
+  if (missing.length > 0) {
+    const fallbackVectors = await provider.embed(
+      missing.map(s => buildScopeText(s.title, s.scopeDefinition))
+    );
+    missing.forEach((skill, idx) => {
+      vectorsBySkill.set(skill.id, [{ field: 'scope', vector: fallbackVectors[idx] }]);
+    });
+  }
+
+  return skills.map(skill => {
+    let best: EmbeddingMatch = { skillId: skill.id, score: 0, field: 'scope' };
+    for (const { field, vector } of vectorsBySkill.get(skill.id) || []) {
+      for (const contentVector of contentVectors) {
+        const similarity = cosineSimilarity(contentVector, vector);
+        if (similarity > best.score) {
+          best = { skillId: skill.id, score: Math.min(1, similarity), field };
+        }
+      }
+    }
+    return best;
+  });
+}
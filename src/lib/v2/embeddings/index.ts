@@ -0,0 +1,5 @@
+/**
+ * Embedding Service Exports
+ */
+export * from './embedding-providers';
+export * from './embedding-service';
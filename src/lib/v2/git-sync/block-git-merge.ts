@@ -0,0 +1,309 @@
+/**
+ * Pulling git changes into blocks
+ *
+ * When a block's file changed in git, applyRemoteChange brings the block up
+ * to date: a block without local edits is fast-forwarded to the file, and a
+ * block edited on both sides is merged three-way against the last synced
+ * version. Changes the merge cannot combine are stored as a BlockGitConflict
+ * and the block is marked CONFLICT until someone resolves it in the UI.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { BlockGitConflict, BuildingBlock, Prisma } from '@prisma/client';
+import { recordBlockVersion } from '../blocks/block-version-service';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
+import { mergeThreeWay, mergeValue } from './three-way-merge';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A block file as read from git */
+export interface RemoteBlockFile {
+  title: string;
+  content: string;
+  frontmatter: Record<string, unknown>;
+}
+
+/** The block as of its last sync: the common ancestor of both sides */
+export interface MergeBase {
+  title: string;
+  content: string;
+}
+
+export type RemoteChangeResult = 'unchanged' | 'updated' | 'merged' | 'conflict';
+
+export type ConflictResolution = 'local' | 'remote' | 'merged';
+
+/**
+ * Git sync failure with an HTTP status for API routes (409 for conflicts)
+ */
+export class GitSyncError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'GitSyncError';
+  }
+}
+
+// =============================================================================
+// APPLY REMOTE CHANGES
+// =============================================================================
+
+function markSynced(blockId: string, gitPath: string, commitSha: string | null) {
+  return prisma.buildingBlock.update({
+    where: { id: blockId },
+    data: {
+      gitPath,
+      ...(commitSha && { gitCommitSha: commitSha }),
+      syncStatus: 'SYNCED',
+      lastSyncedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Replace the block with the git file, keeping the previous content as a
+ * version.
+ */
+async function fastForward(
+  block: BuildingBlock,
+  gitPath: string,
+  remote: RemoteBlockFile,
+  commitSha: string | null
+): Promise<void> {
+  const changed = block.title !== remote.title || block.content !== remote.content;
+  if (changed) {
+    await recordBlockVersion(block, 'baseline');
+  }
+
+  const { frontmatter } = remote;
+  const updated = await prisma.buildingBlock.update({
+    where: { id: block.id },
+    data: {
+      title: remote.title,
+      content: remote.content,
+      ...(changed && { version: { increment: 1 } }),
+      categories: (frontmatter.categories as string[]) || [],
+      attributes: ((frontmatter.attributes as object) || {}) as Prisma.InputJsonValue,
+      status: (frontmatter.status as string) || 'ACTIVE',
+      gitPath,
+      ...(commitSha && { gitCommitSha: commitSha }),
+      syncStatus: 'SYNCED',
+      lastSyncedAt: new Date(),
+    },
+  });
+
+  if (changed) {
+    await recordBlockVersion(updated, 'git_sync', null, `Pulled from ${gitPath}`);
+  }
+}
+
+/**
+ * Bring a block up to date with its file in git.
+ *
+ * `hasLocalChanges` defaults to the block's sync status; pass false when the
+ * database side is known to match what was pushed (e.g. a merged PR whose
+ * blocks were not edited since). Without a base every difference between
+ * the two sides is a conflict.
+ */
+export async function applyRemoteChange(params: {
+  block: BuildingBlock;
+  gitPath: string;
+  remote: RemoteBlockFile;
+  remoteCommitSha: string | null;
+  base: MergeBase | null;
+  hasLocalChanges?: boolean;
+}): Promise<RemoteChangeResult> {
+  const { block, gitPath, remote, remoteCommitSha, base } = params;
+  const hasLocalChanges = params.hasLocalChanges ?? block.syncStatus !== 'SYNCED';
+
+  if (block.title === remote.title && block.content === remote.content) {
+    await markSynced(block.id, gitPath, remoteCommitSha);
+    await closeOpenConflict(block.id, 'remote', null);
+    return 'unchanged';
+  }
+
+  if (!hasLocalChanges) {
+    await fastForward(block, gitPath, remote, remoteCommitSha);
+    return 'updated';
+  }
+
+  // Git still matches the last sync: the local edits just need pushing
+  if (base && base.title === remote.title && base.content === remote.content) {
+    if (remoteCommitSha && remoteCommitSha !== block.gitCommitSha) {
+      await prisma.buildingBlock.update({
+        where: { id: block.id },
+        data: { gitCommitSha: remoteCommitSha },
+      });
+    }
+    return 'unchanged';
+  }
+
+  const title = mergeValue<string | null>(base?.title ?? null, block.title, remote.title);
+  const content = mergeThreeWay(base?.content ?? '', block.content, remote.content);
+
+  if (title.clean && content.clean) {
+    await recordBlockVersion(block, 'baseline');
+    const updated = await prisma.buildingBlock.update({
+      where: { id: block.id },
+      data: {
+        title: title.value as string,
+        content: content.content,
+        version: { increment: 1 },
+        gitPath,
+        // Git's side is now part of the block; the merge result still needs pushing
+        ...(remoteCommitSha && { gitCommitSha: remoteCommitSha }),
+        syncStatus: 'LOCAL_CHANGES',
+      },
+    });
+    await recordBlockVersion(updated, 'git_sync', null, `Merged with ${gitPath}`);
+    return 'merged';
+  }
+
+  await recordConflict(block, gitPath, remote, remoteCommitSha, base);
+  return 'conflict';
+}
+
+// =============================================================================
+// CONFLICTS
+// =============================================================================
+
+async function recordConflict(
+  block: BuildingBlock,
+  gitPath: string,
+  remote: RemoteBlockFile,
+  remoteCommitSha: string | null,
+  base: MergeBase | null
+): Promise<void> {
+  const data = {
+    gitPath,
+    baseCommitSha: block.gitCommitSha,
+    remoteCommitSha,
+    baseTitle: base?.title ?? '',
+    baseContent: base?.content ?? '',
+    localTitle: block.title,
+    localContent: block.content,
+    localVersion: block.version,
+    remoteTitle: remote.title,
+    remoteContent: remote.content,
+  };
+
+  const existing = await prisma.blockGitConflict.findFirst({
+    where: { blockId: block.id, status: 'OPEN' },
+  });
+  if (existing) {
+    await prisma.blockGitConflict.update({ where: { id: existing.id }, data });
+  } else {
+    await prisma.blockGitConflict.create({ data: { blockId: block.id, ...data } });
+  }
+
+  await prisma.buildingBlock.update({
+    where: { id: block.id },
+    data: { syncStatus: 'CONFLICT' },
+  });
+
+  await recordAuditEvent({
+    eventType: 'block.git_conflict',
+    targetType: 'block',
+    targetId: block.id,
+    teamId: block.teamId,
+    data: {
+      title: block.title,
+      libraryId: block.libraryId,
+      gitPath,
+      remoteCommitSha,
+    },
+  });
+}
+
+async function closeOpenConflict(
+  blockId: string,
+  resolution: ConflictResolution,
+  actorId: string | null
+): Promise<void> {
+  await prisma.blockGitConflict.updateMany({
+    where: { blockId, status: 'OPEN' },
+    data: { status: 'RESOLVED', resolution, resolvedBy: actorId, resolvedAt: new Date() },
+  });
+}
+
+/**
+ * Get the open conflict for a block, if any.
+ */
+export async function getOpenGitConflict(blockId: string): Promise<BlockGitConflict | null> {
+  return prisma.blockGitConflict.findFirst({
+    where: { blockId, status: 'OPEN' },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Resolve a block's open conflict with the content picked in the resolver.
+ *
+ * The git side becomes the block's new base, so a result equal to git is
+ * SYNCED and anything else is LOCAL_CHANGES, pushed on the next sync.
+ * `expectedVersion` rejects the resolution (409) if the block was edited
+ * after the resolver loaded it.
+ */
+export async function resolveGitConflict(
+  blockId: string,
+  input: { title: string; content: string; expectedVersion?: number },
+  actorId?: string
+): Promise<BuildingBlock> {
+  const [existing, conflict] = await Promise.all([
+    prisma.buildingBlock.findUnique({ where: { id: blockId } }),
+    getOpenGitConflict(blockId),
+  ]);
+
+  if (!existing) {
+    throw new GitSyncError(`Block not found: ${blockId}`, 404);
+  }
+  if (!conflict) {
+    throw new GitSyncError('Block has no open git conflict', 404);
+  }
+  if (input.expectedVersion !== undefined && input.expectedVersion !== existing.version) {
+    throw new GitSyncError('Block changed since the conflict was loaded; reload and resolve again', 409);
+  }
+
+  const matchesRemote = input.title === conflict.remoteTitle && input.content === conflict.remoteContent;
+  const matchesLocal = input.title === existing.title && input.content === existing.content;
+  const resolution: ConflictResolution = matchesRemote ? 'remote' : matchesLocal ? 'local' : 'merged';
+
+  await recordBlockVersion(existing, 'baseline');
+  const block = await prisma.buildingBlock.update({
+    where: { id: blockId },
+    data: {
+      title: input.title,
+      content: input.content,
+      ...(!matchesLocal && { version: { increment: 1 } }),
+      gitPath: conflict.gitPath,
+      ...(conflict.remoteCommitSha && { gitCommitSha: conflict.remoteCommitSha }),
+      syncStatus: matchesRemote ? 'SYNCED' : 'LOCAL_CHANGES',
+      ...(matchesRemote && { lastSyncedAt: new Date() }),
+    },
+  });
+  if (!matchesLocal) {
+    await recordBlockVersion(block, 'git_sync', actorId, 'Resolved git conflict');
+  }
+
+  await closeOpenConflict(blockId, resolution, actorId ?? null);
+
+  await recordAuditEvent({
+    eventType: 'block.git_conflict_resolved',
+    actorId,
+    targetType: 'block',
+    targetId: block.id,
+    teamId: block.teamId,
+    data: {
+      title: block.title,
+      libraryId: block.libraryId,
+      resolution,
+      version: { from: existing.version, to: block.version },
+    },
+  });
+
+  return block;
+}
@@ -0,0 +1,259 @@
+/**
+ * Pull-request review for block git sync
+ *
+ * Libraries with GIT_SYNC_MODE=review (or GIT_SYNC_MODE_<LIBRARY>=review)
+ * don't commit block edits to the base branch. Edits go to a branch with a
+ * pull request instead, and the blocks stay PENDING_REVIEW until the
+ * provider's webhook reports the PR merged or closed. Further edits to a
+ * block that already has an open PR are pushed to that PR's branch.
+ *
+ * Review mode needs a hosted provider (GitHub, GitLab, Bitbucket Server);
+ * libraries synced through the local working tree commit directly.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { GitPullRequest, Prisma } from '@prisma/client';
+import {
+  getGitProviderForLibrary,
+  readProviderEnv,
+  supportsPullRequests,
+  type FileChange,
+  type GitAuthor,
+  type GitProviderType,
+  type PullRequestInfo,
+  type PullRequestProvider,
+} from '@/lib/git-providers';
+import { logger } from '@/lib/logger';
+import { recordAuditEvents } from '@/lib/v2/audit-log';
+import type { LibraryId } from '@/types/v2';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** One block's file changes, proposed for review */
+export interface ProposedBlockChange {
+  blockId: string;
+  title: string;
+  slug: string | null;
+  version: number;
+  teamId?: string | null;
+  changes: FileChange[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Whether a library's edits go through pull requests.
+ */
+export function isReviewedLibrary(libraryId: LibraryId): boolean {
+  return readProviderEnv('GIT_SYNC_MODE', libraryId)?.toLowerCase() === 'review';
+}
+
+/**
+ * The provider to open pull requests with, or null when the library commits
+ * directly (not reviewed, or its provider cannot open pull requests).
+ */
+export function getReviewProvider(libraryId: LibraryId): PullRequestProvider | null {
+  if (!isReviewedLibrary(libraryId)) return null;
+
+  const provider = getGitProviderForLibrary(libraryId);
+  if (!supportsPullRequests(provider)) {
+    logger.warn('Review mode needs a GitHub, GitLab or Bitbucket Server provider; committing directly', {
+      libraryId,
+      provider: provider.providerType,
+    });
+    return null;
+  }
+  return provider;
+}
+
+// =============================================================================
+// PROPOSE
+// =============================================================================
+
+function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'update'
+  );
+}
+
+function buildBranchName(libraryId: LibraryId, blocks: ProposedBlockChange[]): string {
+  const name = blocks.length === 1 ? slugify(blocks[0].slug || blocks[0].title) : `${blocks.length}-blocks`;
+  return `knowledge-sync/${libraryId}/${name}-${Date.now().toString(36)}`;
+}
+
+function buildTitle(libraryId: LibraryId, blocks: ProposedBlockChange[]): string {
+  return blocks.length === 1
+    ? `Update ${libraryId}: ${blocks[0].title}`
+    : `Update ${blocks.length} ${libraryId} blocks`;
+}
+
+function buildDescription(blocks: ProposedBlockChange[]): string {
+  return [
+    'Block changes proposed from Transparent Trust. Merging imports them back; closing returns them to pending changes.',
+    '',
+    ...blocks.map((block) => `- ${block.title} (v${block.version})`),
+  ].join('\n');
+}
+
+function blockVersionsOf(blocks: ProposedBlockChange[]): Record<string, number> {
+  return Object.fromEntries(blocks.map((block) => [block.blockId, block.version]));
+}
+
+/**
+ * Push block changes for review. Blocks with an open pull request are
+ * committed to that PR's branch; the rest get a new branch and PR. The
+ * blocks are marked PENDING_REVIEW. Returns the pull requests touched.
+ */
+export async function proposeBlockChanges(options: {
+  provider: PullRequestProvider;
+  libraryId: LibraryId;
+  blocks: ProposedBlockChange[];
+  author: GitAuthor;
+  actorId?: string;
+}): Promise<GitPullRequest[]> {
+  const { provider, libraryId, blocks, author, actorId } = options;
+  if (blocks.length === 0) return [];
+
+  const blockIds = blocks.map((block) => block.blockId);
+  const openPullRequests = await prisma.gitPullRequest.findMany({
+    where: {
+      libraryId,
+      provider: provider.providerType,
+      status: 'OPEN',
+      blockIds: { hasSome: blockIds },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  // Newest open PR per block; blocks without one share a new PR
+  const groups = new Map<GitPullRequest | null, ProposedBlockChange[]>();
+  for (const block of blocks) {
+    const pr = openPullRequests.find((candidate) => candidate.blockIds.includes(block.blockId)) ?? null;
+    groups.set(pr, [...(groups.get(pr) || []), block]);
+  }
+
+  const results: GitPullRequest[] = [];
+
+  for (const [existing, group] of groups) {
+    const changes = group.flatMap((block) => block.changes);
+
+    if (existing) {
+      await provider.forBranch(existing.branch).commitFiles(changes, buildTitle(libraryId, group), author);
+      results.push(
+        await prisma.gitPullRequest.update({
+          where: { id: existing.id },
+          data: {
+            blockVersions: {
+              ...(existing.blockVersions as Record<string, number>),
+              ...blockVersionsOf(group),
+            } as Prisma.InputJsonValue,
+          },
+        })
+      );
+      continue;
+    }
+
+    const branch = buildBranchName(libraryId, group);
+    const title = buildTitle(libraryId, group);
+    await provider.createBranch(branch);
+    await provider.forBranch(branch).commitFiles(changes, title, author);
+    const info = await provider.openPullRequest(branch, title, buildDescription(group));
+
+    const pr = await prisma.gitPullRequest.create({
+      data: {
+        libraryId,
+        provider: provider.providerType,
+        externalId: info.id,
+        url: info.url,
+        branch,
+        baseBranch: await provider.getCurrentBranch(),
+        title,
+        blockIds: group.map((block) => block.blockId),
+        blockVersions: blockVersionsOf(group) as Prisma.InputJsonValue,
+        createdBy: actorId ?? null,
+      },
+    });
+    results.push(pr);
+
+    await recordAuditEvents(
+      group.map((block) => ({
+        eventType: 'block.review_requested' as const,
+        actorId,
+        targetType: 'block' as const,
+        targetId: block.blockId,
+        teamId: block.teamId,
+        data: { title: block.title, libraryId, pullRequestUrl: info.url, branch },
+      }))
+    );
+  }
+
+  await prisma.buildingBlock.updateMany({
+    where: { id: { in: blockIds } },
+    data: { syncStatus: 'PENDING_REVIEW' },
+  });
+
+  return results;
+}
+
+// =============================================================================
+// PULL REQUEST STATE
+// =============================================================================
+
+/**
+ * Tracked open pull requests for a provider PR id. The same id can exist in
+ * several libraries' repositories, so callers check each one.
+ */
+export async function findOpenPullRequests(
+  provider: GitProviderType,
+  externalId: string
+): Promise<GitPullRequest[]> {
+  return prisma.gitPullRequest.findMany({
+    where: { provider, externalId, status: 'OPEN' },
+  });
+}
+
+/**
+ * The newest open pull request containing a block, if any.
+ */
+export async function getOpenPullRequestForBlock(blockId: string): Promise<GitPullRequest | null> {
+  return prisma.gitPullRequest.findFirst({
+    where: { blockIds: { has: blockId }, status: 'OPEN' },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Record that a pull request was merged or closed. Blocks from a closed PR
+ * go back to LOCAL_CHANGES so they can be proposed again; merged blocks are
+ * imported by the caller.
+ */
+export async function closePullRequest(
+  pr: GitPullRequest,
+  info: Pick<PullRequestInfo, 'state' | 'mergeCommitSha'>
+): Promise<GitPullRequest> {
+  const updated = await prisma.gitPullRequest.update({
+    where: { id: pr.id },
+    data: {
+      status: info.state === 'merged' ? 'MERGED' : 'CLOSED',
+      mergeCommitSha: info.mergeCommitSha,
+      closedAt: new Date(),
+    },
+  });
+
+  if (info.state === 'closed') {
+    await prisma.buildingBlock.updateMany({
+      where: { id: { in: pr.blockIds }, syncStatus: 'PENDING_REVIEW' },
+      data: { syncStatus: 'LOCAL_CHANGES' },
+    });
+  }
+
+  return updated;
+}
@@ -1,14 +1,49 @@
 /**
  * Unified Git Sync Service for BuildingBlocks
  *
- * Syncs all block types (knowledge, persona, template) to git.
+ * Syncs all block types (knowledge, persona, template, playbook) to git.
  * Each library gets its own directory structure.
+ *
+ * Each library can also use its own repository: when getGitProviderForLibrary
+ * returns an API provider (GitHub, GitLab, Bitbucket Server), block files are
+ * committed straight to that repository. Otherwise they are written to the
+ * working tree at GIT_REPO_PATH and committed with git.
+ *
+ * Sync is bidirectional: before a block is pushed, changes made to its file
+ * in git since the last sync are pulled and merged (see block-git-merge.ts),
+ * and importBlocksFromGit runs when a provider webhook reports a push.
+ * Reviewed libraries push through pull requests (see block-git-review.ts).
  */
 
 import { prisma } from '@/lib/prisma';
+import type { BuildingBlock, GitPullRequest } from '@prisma/client';
 import { getBlocksNeedingSync, markBlockSynced } from '../blocks/block-service';
+import { getBlockVersion } from '../blocks/block-version-service';
+import {
+  getGitProviderForLibrary,
+  isApiProvider,
+  supportsPullRequests,
+  type FileChange,
+  type GitAuthor,
+  type GitProvider,
+  type GitProviderType,
+} from '@/lib/git-providers';
 import type { TypedBuildingBlock, LibraryId } from '@/types/v2';
 import matter from 'gray-matter';
+import {
+  applyRemoteChange,
+  GitSyncError,
+  type MergeBase,
+  type RemoteBlockFile,
+  type RemoteChangeResult,
+} from './block-git-merge';
+import {
+  closePullRequest,
+  findOpenPullRequests,
+  getReviewProvider,
+  proposeBlockChanges,
+  type ProposedBlockChange,
+} from './block-git-review';
 
 // =============================================================================
 // CONFIGURATION
@@ -28,6 +63,7 @@ const LIBRARY_DIRS: Record<LibraryId, string> = {
   'personas': 'personas',
   'templates': 'templates',
   'views': 'views',
+  'playbooks': 'playbooks',
 };
 
 // =============================================================================
@@ -57,6 +93,39 @@ export function parseGitPath(gitPath: string): { libraryId: LibraryId; slug: str
   return { libraryId, slug };
 }
 
+/**
+ * Libraries that have a directory in the git repository.
+ */
+export function getGitSyncLibraries(): LibraryId[] {
+  return Object.keys(LIBRARY_DIRS) as LibraryId[];
+}
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+/**
+ * The API provider configured for a library, or null when the library is
+ * synced through the local working tree.
+ */
+export function getLibraryApiProvider(libraryId: LibraryId): GitProvider | null {
+  const provider = getGitProviderForLibrary(libraryId);
+  return isApiProvider(provider) ? provider : null;
+}
+
+function getApiProviderForPath(gitPath: string): GitProvider | null {
+  const parsed = parseGitPath(gitPath);
+  return parsed ? getLibraryApiProvider(parsed.libraryId) : null;
+}
+
+/** Commit author for API providers when the caller doesn't pass one */
+function getDefaultAuthor(): GitAuthor {
+  return {
+    name: process.env.GIT_AUTHOR_NAME || 'Transparent Trust',
+    email: process.env.GIT_AUTHOR_EMAIL || 'git-sync@transparent-trust.local',
+  };
+}
+
 // =============================================================================
 // SERIALIZATION
 // =============================================================================
@@ -105,6 +174,11 @@ export function parseBlockFile(content: string): {
   };
 }
 
+function toRemoteBlockFile(fileContent: string, fallbackTitle: string): RemoteBlockFile {
+  const { frontmatter, content } = parseBlockFile(fileContent);
+  return { title: (frontmatter.title as string) || fallbackTitle, content, frontmatter };
+}
+
 // =============================================================================
 // GIT OPERATIONS (File-based)
 // =============================================================================
@@ -118,6 +192,78 @@ function getRepoRoot(): string {
   return process.env.GIT_REPO_PATH || process.cwd();
 }
 
+/**
+ * Read access to a library's block files, from its API provider or the local
+ * working tree. Without a ref, files are read from the synced branch.
+ */
+interface BlockGitSource {
+  read(gitPath: string, ref?: string): Promise<string | null>;
+  /** Latest commit that touched a path, or null if it has no history */
+  latestCommit(gitPath: string): Promise<string | null>;
+  list(directory: string): Promise<string[]>;
+}
+
+function getBlockGitSource(libraryId: LibraryId): BlockGitSource {
+  const provider = getLibraryApiProvider(libraryId);
+  if (provider) {
+    return {
+      read: (gitPath, ref) => provider.getFileContent(gitPath, ref),
+      latestCommit: async (gitPath) => (await provider.getFileHistory(gitPath, 1))[0]?.sha ?? null,
+      list: (directory) => provider.listFiles(directory),
+    };
+  }
+
+  const repoRoot = getRepoRoot();
+  const git = (command: string): string | null => {
+    try {
+      return execSync(command, { cwd: repoRoot, stdio: ['ignore', 'pipe', 'ignore'] }).toString();
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    async read(gitPath, ref) {
+      if (ref) {
+        return git(`git show "${ref}:${gitPath}"`);
+      }
+      try {
+        return await fs.readFile(path.join(repoRoot, gitPath), 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async latestCommit(gitPath) {
+      return git(`git log -1 --format=%H -- "${gitPath}"`)?.trim() || null;
+    },
+    async list(directory) {
+      try {
+        const files = await fs.readdir(path.join(repoRoot, directory));
+        return files.map((file) => `${directory}/${file}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * The block as of a commit, used as the merge base.
+ */
+async function readMergeBase(
+  source: BlockGitSource,
+  gitPath: string,
+  commitSha: string | null
+): Promise<MergeBase | null> {
+  if (!commitSha) return null;
+  const fileContent = await source.read(gitPath, commitSha);
+  if (fileContent === null) return null;
+  const { title, content } = toRemoteBlockFile(fileContent, '');
+  return { title, content };
+}
+
 /**
  * Write a block to the git repository.
  */
@@ -143,6 +289,12 @@ export async function readBlockFromGit(gitPath: string): Promise<{
   frontmatter: Record<string, unknown>;
   content: string;
 } | null> {
+  const provider = getApiProviderForPath(gitPath);
+  if (provider) {
+    const fileContent = await provider.getFileContent(gitPath);
+    return fileContent === null ? null : parseBlockFile(fileContent);
+  }
+
   const repoRoot = getRepoRoot();
   const fullPath = path.join(repoRoot, gitPath);
 
@@ -158,9 +310,19 @@ export async function readBlockFromGit(gitPath: string): Promise<{
 }
 
 /**
- * Delete a block from the git repository.
+ * Delete a block from the git repository. With an API provider the deletion
+ * is committed immediately; locally the caller commits it.
  */
-export async function deleteBlockFromGit(gitPath: string): Promise<void> {
+export async function deleteBlockFromGit(
+  gitPath: string,
+  options: { message?: string; author?: GitAuthor } = {}
+): Promise<void> {
+  const provider = getApiProviderForPath(gitPath);
+  if (provider) {
+    await provider.deleteFile(gitPath, options.message || `Delete ${gitPath}`, options.author || getDefaultAuthor());
+    return;
+  }
+
   const repoRoot = getRepoRoot();
   const fullPath = path.join(repoRoot, gitPath);
 
@@ -174,12 +336,31 @@ export async function deleteBlockFromGit(gitPath: string): Promise<void> {
 }
 
 /**
- * Rename a block file in the git repository.
+ * Rename a block file in the git repository. With an API provider the rename
+ * is committed immediately; locally the caller commits it.
  */
 export async function renameBlockInGit(
   oldPath: string,
-  newPath: string
+  newPath: string,
+  options: { message?: string; author?: GitAuthor } = {}
 ): Promise<void> {
+  const provider = getApiProviderForPath(oldPath);
+  if (provider) {
+    const content = await provider.getFileContent(oldPath);
+    if (content === null) {
+      throw new Error(`File not found: ${oldPath}`);
+    }
+    await provider.commitFiles(
+      [
+        { path: oldPath, content: null },
+        { path: newPath, content },
+      ],
+      options.message || `Rename ${oldPath} to ${newPath}`,
+      options.author || getDefaultAuthor()
+    );
+    return;
+  }
+
   const repoRoot = getRepoRoot();
   const oldFullPath = path.join(repoRoot, oldPath);
   const newFullPath = path.join(repoRoot, newPath);
@@ -265,20 +446,113 @@ export async function commitBlockChanges(
   return sha;
 }
 
+
+/**
+ * File changes that write blocks to their paths. Blocks whose slug changed
+ * since the last sync are moved from their old path.
+ */
+function buildBlockChanges(blocks: TypedBuildingBlock[]): FileChange[] {
+  const changes: FileChange[] = [];
+  for (const block of blocks) {
+    const gitPath = getBlockGitPath(block);
+    if (block.gitPath && block.gitPath !== gitPath) {
+      changes.push({ path: block.gitPath, content: null });
+    }
+    changes.push({ path: gitPath, content: serializeBlock(block) });
+  }
+  return changes;
+}
+
+/**
+ * Commit blocks through an API provider in one commit.
+ */
+async function commitBlocksViaProvider(
+  provider: GitProvider,
+  blocks: TypedBuildingBlock[],
+  message: string,
+  author: GitAuthor = getDefaultAuthor()
+): Promise<string> {
+  const changes = buildBlockChanges(blocks);
+
+  const result =
+    changes.length === 1
+      ? await provider.createOrUpdateFile(changes[0].path, changes[0].content as string, message, author)
+      : await provider.commitFiles(changes, message, author);
+
+  return result.sha || '';
+}
+
+function buildSyncMessage(blocks: TypedBuildingBlock[]): string {
+  return blocks.length === 1
+    ? `Update ${blocks[0].libraryId}: ${blocks[0].title}`
+    : `Sync ${blocks.length} blocks`;
+}
+
+function toProposedChange(block: TypedBuildingBlock): ProposedBlockChange {
+  return {
+    blockId: block.id,
+    title: block.title,
+    slug: block.slug,
+    version: block.version,
+    teamId: block.teamId,
+    changes: buildBlockChanges([block]),
+  };
+}
+
+// =============================================================================
+// PULL BEFORE PUSH
+// =============================================================================
+
+/**
+ * Pull changes made to a block's file in git since its last sync, so a push
+ * doesn't overwrite them. Returns the block to push (merged if git had
+ * changed), or throws a 409 GitSyncError when the changes conflict.
+ */
+async function reconcileWithGit(block: TypedBuildingBlock, source: BlockGitSource): Promise<TypedBuildingBlock> {
+  if (!block.gitPath || !block.gitCommitSha) return block;
+
+  const remoteCommitSha = await source.latestCommit(block.gitPath);
+  if (!remoteCommitSha || remoteCommitSha === block.gitCommitSha) return block;
+
+  // Deleted in git: the push writes it again
+  const fileContent = await source.read(block.gitPath);
+  if (fileContent === null) return block;
+
+  const result = await applyRemoteChange({
+    block: block as unknown as BuildingBlock,
+    gitPath: block.gitPath,
+    remote: toRemoteBlockFile(fileContent, block.title),
+    remoteCommitSha,
+    base: await readMergeBase(source, block.gitPath, block.gitCommitSha),
+    hasLocalChanges: true,
+  });
+  if (result === 'conflict') {
+    throw new GitSyncError(`"${block.title}" also changed in git. Resolve the conflict before syncing.`, 409);
+  }
+
+  const merged = await prisma.buildingBlock.findUniqueOrThrow({ where: { id: block.id } });
+  return merged as unknown as TypedBuildingBlock;
+}
+
 // =============================================================================
 // SYNC OPERATIONS
 // =============================================================================
 
 /**
- * Sync a single block to git.
+ * Sync a single block to git. In a reviewed library this opens (or updates)
+ * a pull request instead of committing to the synced branch.
+ *
+ * Throws a 409 GitSyncError when the block's file changed in git in a way
+ * that conflicts with the block; the conflict is stored for the resolver.
  */
 export async function syncBlockToGit(
   blockId: string,
   options: {
     message?: string;
     author?: { name: string; email: string };
+    actorId?: string;
   } = {}
-): Promise<{ gitPath: string; commitSha: string }> {
+): Promise<{ gitPath: string; commitSha: string; pullRequest?: GitPullRequest }> {
   // Get block
   const block = await prisma.buildingBlock.findUnique({
     where: { id: blockId },
@@ -288,13 +562,38 @@ export async function syncBlockToGit(
     throw new Error(`Block not found: ${blockId}`);
   }
 
-  const typedBlock = block as unknown as TypedBuildingBlock;
+  const libraryId = block.libraryId as LibraryId;
+  const typedBlock = await reconcileWithGit(block as unknown as TypedBuildingBlock, getBlockGitSource(libraryId));
+  const message = options.message || `Update ${typedBlock.libraryId}: ${typedBlock.title}`;
+
+  // Reviewed library: propose through a pull request
+  const reviewProvider = getReviewProvider(libraryId);
+  if (reviewProvider) {
+    const [pullRequest] = await proposeBlockChanges({
+      provider: reviewProvider,
+      libraryId,
+      blocks: [toProposedChange(typedBlock)],
+      author: options.author || getDefaultAuthor(),
+      actorId: options.actorId,
+    });
+    return { gitPath: getBlockGitPath(typedBlock), commitSha: '', pullRequest };
+  }
+
+  // Library with its own hosted repository: commit through the API
+  const provider = getLibraryApiProvider(libraryId);
+  if (provider) {
+    const gitPath = getBlockGitPath(typedBlock);
+    const commitSha = await commitBlocksViaProvider(provider, [typedBlock], message, options.author);
+    if (commitSha) {
+      await markBlockSynced(blockId, commitSha, gitPath);
+    }
+    return { gitPath, commitSha };
+  }
 
   // Write to git
   const gitPath = await writeBlockToGit(typedBlock);
 
   // Commit
-  const message = options.message || `Update ${block.libraryId}: ${block.title}`;
   const commitSha = await commitBlockChange(gitPath, message, options.author);
 
   // Update block with git info
@@ -307,22 +606,103 @@ export async function syncBlockToGit(
 
 /**
  * Sync all blocks with LOCAL_CHANGES to git.
+ *
+ * Libraries with an API provider get one commit each in their repository;
+ * the rest share one working-tree commit. `commits` maps each library to the
+ * commit its blocks landed in, and `commitSha` is the working-tree commit
+ * (or the last API commit when no library uses the working tree). Reviewed
+ * libraries open pull requests instead (`pullRequests`), and blocks whose
+ * git changes conflict are skipped and counted in `conflicts`.
  */
 export async function syncAllPendingBlocks(
   options: {
     author?: { name: string; email: string };
+    actorId?: string;
   } = {}
-): Promise<{ synced: number; commitSha: string }> {
-  const blocksToSync = await getBlocksNeedingSync();
+): Promise<{
+  synced: number;
+  conflicts: number;
+  commitSha: string;
+  commits: Partial<Record<LibraryId, string>>;
+  pullRequests: GitPullRequest[];
+}> {
+  const pendingBlocks = await getBlocksNeedingSync();
+
+  if (pendingBlocks.length === 0) {
+    return { synced: 0, conflicts: 0, commitSha: '', commits: {}, pullRequests: [] };
+  }
+
+  // Pull git's changes first; conflicting blocks wait for the resolver
+  const blocksToSync: TypedBuildingBlock[] = [];
+  const sources = new Map<LibraryId, BlockGitSource>();
+  let conflicts = 0;
+
+  for (const block of pendingBlocks) {
+    const source = sources.get(block.libraryId) || getBlockGitSource(block.libraryId);
+    sources.set(block.libraryId, source);
+    try {
+      blocksToSync.push(await reconcileWithGit(block, source));
+    } catch (error) {
+      if (!(error instanceof GitSyncError)) throw error;
+      conflicts++;
+    }
+  }
+
+  // Split blocks between reviewed libraries, API providers (per library) and the working tree
+  const localBlocks: TypedBuildingBlock[] = [];
+  const apiLibraries = new Map<LibraryId, { provider: GitProvider; blocks: TypedBuildingBlock[] }>();
+  const reviewedBlocks = new Map<LibraryId, TypedBuildingBlock[]>();
+
+  for (const block of blocksToSync) {
+    if (getReviewProvider(block.libraryId)) {
+      reviewedBlocks.set(block.libraryId, [...(reviewedBlocks.get(block.libraryId) || []), block]);
+      continue;
+    }
+    const provider = getLibraryApiProvider(block.libraryId);
+    if (!provider) {
+      localBlocks.push(block);
+      continue;
+    }
+    const group = apiLibraries.get(block.libraryId) || { provider, blocks: [] };
+    group.blocks.push(block);
+    apiLibraries.set(block.libraryId, group);
+  }
+
+  const pullRequests: GitPullRequest[] = [];
+  for (const [libraryId, blocks] of reviewedBlocks) {
+    pullRequests.push(
+      ...(await proposeBlockChanges({
+        provider: getReviewProvider(libraryId)!,
+        libraryId,
+        blocks: blocks.map(toProposedChange),
+        author: options.author || getDefaultAuthor(),
+        actorId: options.actorId,
+      }))
+    );
+  }
+
+  const commits: Partial<Record<LibraryId, string>> = {};
+  let lastApiCommitSha = '';
+
+  for (const [libraryId, { provider, blocks }] of apiLibraries) {
+    const sha = await commitBlocksViaProvider(provider, blocks, buildSyncMessage(blocks), options.author);
+    if (sha) {
+      for (const block of blocks) {
+        await markBlockSynced(block.id, sha, getBlockGitPath(block));
+      }
+      commits[libraryId] = sha;
+      lastApiCommitSha = sha;
+    }
+  }
 
-  if (blocksToSync.length === 0) {
-    return { synced: 0, commitSha: '' };
+  if (localBlocks.length === 0) {
+    return { synced: blocksToSync.length, conflicts, commitSha: lastApiCommitSha, commits, pullRequests };
   }
 
   // Write all blocks
   const changes: Array<{ gitPath: string; action: 'add' | 'modify' | 'delete' }> = [];
 
-  for (const block of blocksToSync) {
+  for (const block of localBlocks) {
     const gitPath = await writeBlockToGit(block);
     changes.push({
       gitPath,
@@ -331,99 +711,192 @@ export async function syncAllPendingBlocks(
   }
 
   // Commit all changes
-  const message = blocksToSync.length === 1
-    ? `Update ${blocksToSync[0].libraryId}: ${blocksToSync[0].title}`
-    : `Sync ${blocksToSync.length} blocks`;
-
-  const commitSha = await commitBlockChanges(changes, message, options.author);
+  const commitSha = await commitBlockChanges(changes, buildSyncMessage(localBlocks), options.author);
 
   // Update blocks with git info
   if (commitSha) {
-    for (const block of blocksToSync) {
+    for (const block of localBlocks) {
       await markBlockSynced(block.id, commitSha);
+      commits[block.libraryId] = commitSha;
     }
   }
 
-  return { synced: blocksToSync.length, commitSha };
+  return { synced: blocksToSync.length, conflicts, commitSha, commits, pullRequests };
 }
 
-/**
- * Import blocks from git into the database.
- */
-export async function importBlocksFromGit(
-  libraryId: LibraryId
-): Promise<{ imported: number; updated: number }> {
-  const repoRoot = getRepoRoot();
-  const dir = LIBRARY_DIRS[libraryId];
-  const libraryPath = path.join(repoRoot, GIT_BASE_DIR, dir);
+// =============================================================================
+// IMPORT
+// =============================================================================
 
-  let imported = 0;
-  let updated = 0;
+export interface GitImportResult {
+  /** New blocks created from files */
+  imported: number;
+  /** Blocks without local edits, replaced by git's version */
+  updated: number;
+  /** Blocks edited on both sides and merged cleanly */
+  merged: number;
+  /** Blocks edited on both sides that need the resolver */
+  conflicts: number;
+  unchanged: number;
+}
 
-  try {
-    const files = await fs.readdir(libraryPath);
-
-    for (const file of files) {
-      if (!file.endsWith('.md')) continue;
-
-      const gitPath = `${GIT_BASE_DIR}/${dir}/${file}`;
-      const fileContent = await fs.readFile(path.join(libraryPath, file), 'utf-8');
-      const { frontmatter, content } = parseBlockFile(fileContent);
-
-      // Check if block exists
-      const existingBlock = frontmatter.id
-        ? await prisma.buildingBlock.findUnique({
-            where: { id: frontmatter.id as string },
-          })
-        : null;
-
-      if (existingBlock) {
-        // Update existing block
-        await prisma.buildingBlock.update({
-          where: { id: existingBlock.id },
-          data: {
-            title: frontmatter.title as string,
-            content,
-            categories: frontmatter.categories as string[] || [],
-            attributes: frontmatter.attributes as object || {},
-            status: frontmatter.status as string || 'ACTIVE',
-            gitPath,
-            syncStatus: 'SYNCED',
-            lastSyncedAt: new Date(),
-          },
-        });
-        updated++;
-      } else {
-        // Create new block
-        const slug = file.replace('.md', '');
-        await prisma.buildingBlock.create({
-          data: {
-            id: frontmatter.id as string || undefined,
-            blockType: frontmatter.blockType as string || 'knowledge',
-            libraryId,
-            slug,
-            title: frontmatter.title as string || slug,
-            content,
-            categories: frontmatter.categories as string[] || [],
-            attributes: frontmatter.attributes as object || {},
-            status: frontmatter.status as string || 'ACTIVE',
-            entryType: frontmatter.entryType as string || undefined,
-            teamId: frontmatter.teamId as string || undefined,
-            ownerId: frontmatter.ownerId as string || undefined,
-            gitPath,
-            syncStatus: 'SYNCED',
-            lastSyncedAt: new Date(),
-          },
-        });
-        imported++;
+const IMPORT_COUNTS: Record<RemoteChangeResult, Exclude<keyof GitImportResult, 'imported'>> = {
+  unchanged: 'unchanged',
+  updated: 'updated',
+  merged: 'merged',
+  conflict: 'conflicts',
+};
+
+/**
+ * Import blocks from git into the database, from the library's API provider
+ * or the local working tree.
+ *
+ * Blocks edited in the database since their last sync are merged with git's
+ * changes; blocks in an open pull request are skipped until it merges.
+ */
+export async function importBlocksFromGit(libraryId: LibraryId): Promise<GitImportResult> {
+  const source = getBlockGitSource(libraryId);
+  const directory = `${GIT_BASE_DIR}/${LIBRARY_DIRS[libraryId]}`;
+  const result: GitImportResult = { imported: 0, updated: 0, merged: 0, conflicts: 0, unchanged: 0 };
+
+  for (const gitPath of await source.list(directory)) {
+    if (!gitPath.endsWith('.md')) continue;
+
+    const fileContent = await source.read(gitPath);
+    if (fileContent === null) continue;
+
+    const slug = path.basename(gitPath, '.md');
+    const remote = toRemoteBlockFile(fileContent, slug);
+    const { frontmatter, content } = remote;
+    const remoteCommitSha = await source.latestCommit(gitPath);
+
+    // Check if block exists
+    const existingBlock = frontmatter.id
+      ? await prisma.buildingBlock.findUnique({
+          where: { id: frontmatter.id as string },
+        })
+      : await prisma.buildingBlock.findFirst({ where: { gitPath } });
+
+    if (existingBlock) {
+      const alreadySynced =
+        remoteCommitSha !== null && existingBlock.gitCommitSha === remoteCommitSha && existingBlock.gitPath === gitPath;
+      if (alreadySynced || existingBlock.syncStatus === 'PENDING_REVIEW') {
+        result.unchanged++;
+        continue;
       }
+
+      const outcome = await applyRemoteChange({
+        block: existingBlock,
+        gitPath,
+        remote,
+        remoteCommitSha,
+        base: await readMergeBase(source, existingBlock.gitPath ?? gitPath, existingBlock.gitCommitSha),
+      });
+      result[IMPORT_COUNTS[outcome]]++;
+    } else {
+      // Create new block
+      await prisma.buildingBlock.create({
+        data: {
+          id: frontmatter.id as string || undefined,
+          blockType: frontmatter.blockType as string || 'knowledge',
+          libraryId,
+          slug,
+          title: remote.title,
+          content,
+          categories: frontmatter.categories as string[] || [],
+          attributes: frontmatter.attributes as object || {},
+          status: frontmatter.status as string || 'ACTIVE',
+          entryType: frontmatter.entryType as string || undefined,
+          teamId: frontmatter.teamId as string || undefined,
+          ownerId: frontmatter.ownerId as string || undefined,
+          gitPath,
+          gitCommitSha: remoteCommitSha,
+          syncStatus: 'SYNCED',
+          lastSyncedAt: new Date(),
+        },
+      });
+      result.imported++;
     }
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-      throw error;
+  }
+
+  return result;
+}
+
+// =============================================================================
+// WEBHOOK EVENTS
+// =============================================================================
+
+/**
+ * Import a merged pull request's blocks from the synced branch. Blocks not
+ * edited since they were pushed take git's version (reviewers may have
+ * changed them in the PR); blocks edited since are merged against the
+ * version that was pushed.
+ */
+async function importMergedPullRequest(pr: GitPullRequest, mergeCommitSha: string | null): Promise<void> {
+  const source = getBlockGitSource(pr.libraryId as LibraryId);
+  const pushedVersions = pr.blockVersions as Record<string, number>;
+
+  for (const blockId of pr.blockIds) {
+    const block = await prisma.buildingBlock.findUnique({ where: { id: blockId } });
+    if (!block) continue;
+
+    const gitPath = getBlockGitPath(block as unknown as TypedBuildingBlock);
+    const fileContent = await source.read(gitPath);
+    if (fileContent === null) continue;
+
+    const pushedVersion = pushedVersions[blockId];
+    const editedSincePush = pushedVersion === undefined || block.version !== pushedVersion;
+    const snapshot = editedSincePush && pushedVersion !== undefined ? await getBlockVersion(blockId, pushedVersion) : null;
+
+    await applyRemoteChange({
+      block,
+      gitPath,
+      remote: toRemoteBlockFile(fileContent, block.title),
+      remoteCommitSha: (await source.latestCommit(gitPath)) ?? mergeCommitSha,
+      base: snapshot && { title: snapshot.title, content: snapshot.content },
+      hasLocalChanges: editedSincePush,
+    });
+  }
+}
+
+/**
+ * Refresh a tracked pull request after a provider webhook mentioned it. The
+ * state is read back from the library's provider rather than trusted from
+ * the payload, which also tells apart PRs with the same number in different
+ * repositories. Merged PRs are imported; closed ones return their blocks to
+ * LOCAL_CHANGES. Returns the pull requests that changed.
+ */
+export async function refreshPullRequest(provider: GitProviderType, externalId: string): Promise<GitPullRequest[]> {
+  const changed: GitPullRequest[] = [];
+
+  for (const pr of await findOpenPullRequests(provider, externalId)) {
+    const libraryProvider = getGitProviderForLibrary(pr.libraryId);
+    if (libraryProvider.providerType !== provider || !supportsPullRequests(libraryProvider)) continue;
+
+    const current = await libraryProvider.getPullRequest(pr.externalId);
+    if (!current || current.state === 'open' || current.sourceBranch !== pr.branch) continue;
+
+    const closed = await closePullRequest(pr, current);
+    if (current.state === 'merged') {
+      await importMergedPullRequest(pr, current.mergeCommitSha);
     }
-    // Directory doesn't exist yet
+    changed.push(closed);
   }
 
-  return { imported, updated };
+  return changed;
+}
+
+/**
+ * Libraries synced from one of the pushed branches through the given
+ * provider, for webhook-driven import.
+ */
+export async function getLibrariesForPush(provider: GitProviderType, branches: string[]): Promise<LibraryId[]> {
+  const libraries: LibraryId[] = [];
+  for (const libraryId of getGitSyncLibraries()) {
+    const libraryProvider = getLibraryApiProvider(libraryId);
+    if (libraryProvider?.providerType === provider && branches.includes(await libraryProvider.getCurrentBranch())) {
+      libraries.push(libraryId);
+    }
+  }
+  return libraries;
 }
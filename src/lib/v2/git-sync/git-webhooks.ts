@@ -0,0 +1,160 @@
+/**
+ * Git provider webhooks
+ *
+ * Verifies and normalizes webhook deliveries from GitHub, GitLab and
+ * Bitbucket Server. Two kinds of event matter to git sync: a pull request
+ * being merged or closed (see refreshPullRequest) and a push to a library's
+ * synced branch (which triggers importBlocksFromGit).
+ *
+ * Every provider is configured with the same secret, GIT_WEBHOOK_SECRET.
+ * GitHub and Bitbucket Server sign the body with it (HMAC-SHA256); GitLab
+ * sends it back verbatim in X-Gitlab-Token.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { GitProviderType, PullRequestInfo } from '@/lib/git-providers';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const GIT_WEBHOOK_SOURCES = ['github', 'gitlab', 'bitbucket'] as const;
+
+export type GitWebhookSource = (typeof GIT_WEBHOOK_SOURCES)[number];
+
+/** Provider behind each webhook source */
+export const GIT_WEBHOOK_PROVIDERS: Record<GitWebhookSource, GitProviderType> = {
+  github: 'github-api',
+  gitlab: 'gitlab-api',
+  bitbucket: 'bitbucket-server',
+};
+
+export type GitWebhookEvent =
+  | { type: 'pull_request'; id: string; state: PullRequestInfo['state'] }
+  | { type: 'push'; branches: string[] }
+  | { type: 'ignored'; reason: string };
+
+export function isGitWebhookSource(value: string): value is GitWebhookSource {
+  return (GIT_WEBHOOK_SOURCES as readonly string[]).includes(value);
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Check a delivery against the shared secret. Always false without a secret.
+ */
+export function verifyGitWebhook(
+  source: GitWebhookSource,
+  headers: Headers,
+  rawBody: string,
+  secret: string | undefined
+): boolean {
+  if (!secret) return false;
+
+  if (source === 'gitlab') {
+    const token = headers.get('x-gitlab-token');
+    return !!token && safeEqual(token, secret);
+  }
+
+  const signature = headers.get(source === 'github' ? 'x-hub-signature-256' : 'x-hub-signature');
+  if (!signature) return false;
+  const expected = `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+  return safeEqual(signature, expected);
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function branchFromRef(ref: unknown): string | null {
+  return typeof ref === 'string' && ref.startsWith('refs/heads/') ? ref.slice('refs/heads/'.length) : null;
+}
+
+function pushEvent(branches: Array<string | null>): GitWebhookEvent {
+  const names = branches.filter((branch): branch is string => !!branch);
+  return names.length > 0 ? { type: 'push', branches: names } : { type: 'ignored', reason: 'No branch updated' };
+}
+
+/** Nested payload object, or an empty one when the field is missing or not an object */
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function parseGitHub(eventName: string | null, payload: Record<string, unknown>): GitWebhookEvent {
+  if (eventName === 'pull_request') {
+    if (payload.action !== 'closed' || !payload.pull_request) {
+      return { type: 'ignored', reason: `Pull request ${payload.action}` };
+    }
+    const pullRequest = asRecord(payload.pull_request);
+    return {
+      type: 'pull_request',
+      id: String(pullRequest.number),
+      state: pullRequest.merged ? 'merged' : 'closed',
+    };
+  }
+  if (eventName === 'push') {
+    return payload.deleted ? { type: 'ignored', reason: 'Branch deleted' } : pushEvent([branchFromRef(payload.ref)]);
+  }
+  return { type: 'ignored', reason: `Event ${eventName}` };
+}
+
+function parseGitLab(eventName: string | null, payload: Record<string, unknown>): GitWebhookEvent {
+  if (eventName === 'Merge Request Hook') {
+    const attributes = asRecord(payload.object_attributes);
+    const action = attributes.action;
+    if (action !== 'merge' && action !== 'close') {
+      return { type: 'ignored', reason: `Merge request ${action}` };
+    }
+    return {
+      type: 'pull_request',
+      id: String(attributes.iid),
+      state: action === 'merge' ? 'merged' : 'closed',
+    };
+  }
+  if (eventName === 'Push Hook') {
+    const deleted = typeof payload.after === 'string' && /^0+$/.test(payload.after);
+    return deleted ? { type: 'ignored', reason: 'Branch deleted' } : pushEvent([branchFromRef(payload.ref)]);
+  }
+  return { type: 'ignored', reason: `Event ${eventName}` };
+}
+
+function parseBitbucket(eventName: string | null, payload: Record<string, unknown>): GitWebhookEvent {
+  if (eventName === 'pr:merged' || eventName === 'pr:declined' || eventName === 'pr:deleted') {
+    return {
+      type: 'pull_request',
+      id: String(asRecord(payload.pullRequest).id),
+      state: eventName === 'pr:merged' ? 'merged' : 'closed',
+    };
+  }
+  if (eventName === 'repo:refs_changed') {
+    const changes = Array.isArray(payload.changes) ? payload.changes.map(asRecord) : [];
+    return pushEvent(changes.filter((change) => change.type !== 'DELETE').map((change) => branchFromRef(change.refId)));
+  }
+  return { type: 'ignored', reason: `Event ${eventName}` };
+}
+
+/**
+ * Normalize a verified delivery to the events git sync acts on.
+ */
+export function parseGitWebhook(source: GitWebhookSource, headers: Headers, payload: unknown): GitWebhookEvent {
+  const body = asRecord(payload);
+  if (Object.keys(body).length === 0) {
+    return { type: 'ignored', reason: 'Empty payload' };
+  }
+  switch (source) {
+    case 'github':
+      return parseGitHub(headers.get('x-github-event'), body);
+    case 'gitlab':
+      return parseGitLab(headers.get('x-gitlab-event'), body);
+    case 'bitbucket':
+      return parseBitbucket(headers.get('x-event-key'), body);
+  }
+}
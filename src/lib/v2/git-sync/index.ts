@@ -2,3 +2,7 @@
  * Git Sync Exports
  */
 export * from './block-git-sync';
+export * from './block-git-merge';
+export * from './block-git-review';
+export * from './git-webhooks';
+export * from './three-way-merge';
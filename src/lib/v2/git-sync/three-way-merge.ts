@@ -0,0 +1,195 @@
+/**
+ * Three-way merge for block content
+ *
+ * Merges the database ("ours") and git ("theirs") versions of a block against
+ * the last synced version (base), line by line. Changes to different parts
+ * of the base combine cleanly; changes to the same lines that differ become
+ * conflict chunks for the resolver UI. Client-safe (no server imports).
+ */
+
+import { diffArrays } from 'diff';
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+export interface ThreeWayMergeResult {
+  clean: boolean;
+  chunks: MergeChunk[];
+  /** Merged text; conflicts are written with git-style markers */
+  content: string;
+}
+
+/** How a conflict chunk is settled in the resolver */
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+export const MERGE_LABELS = { ours: 'database', theirs: 'git' } as const;
+
+interface Hunk {
+  /** Replaced base range [start, end) */
+  start: number;
+  end: number;
+  lines: string[];
+  side: 'ours' | 'theirs';
+}
+
+function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+/**
+ * Changes from base to other as replaced base ranges.
+ */
+function toHunks(base: string[], other: string[], side: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let pos = 0;
+  let current: Hunk | null = null;
+
+  for (const part of diffArrays(base, other)) {
+    if (part.added) {
+      current ??= { start: pos, end: pos, lines: [], side };
+      current.lines.push(...part.value);
+    } else if (part.removed) {
+      current ??= { start: pos, end: pos, lines: [], side };
+      pos += part.value.length;
+      current.end = pos;
+    } else {
+      if (current) hunks.push(current);
+      current = null;
+      pos += part.value.length;
+    }
+  }
+  if (current) hunks.push(current);
+
+  return hunks;
+}
+
+/**
+ * Apply one side's hunks to base[start, end).
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const result: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(pos, hunk.start), ...hunk.lines);
+    pos = hunk.end;
+  }
+  result.push(...base.slice(pos, end));
+  return result;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+function pushStable(chunks: MergeChunk[], lines: string[]): void {
+  if (lines.length === 0) return;
+  const last = chunks[chunks.length - 1];
+  if (last?.type === 'stable') {
+    last.lines.push(...lines);
+  } else {
+    chunks.push({ type: 'stable', lines: [...lines] });
+  }
+}
+
+/**
+ * Render chunks to text. Conflicts use the given choices (in order), or
+ * git-style markers when no choice is given.
+ */
+export function renderMergeChunks(chunks: MergeChunk[], choices: (ConflictChoice | undefined)[] = []): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const chunk of chunks) {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+    const choice = choices[conflictIndex++];
+    if (choice === 'ours') {
+      lines.push(...chunk.ours);
+    } else if (choice === 'theirs') {
+      lines.push(...chunk.theirs);
+    } else if (choice === 'both') {
+      lines.push(...chunk.ours, ...chunk.theirs);
+    } else {
+      lines.push(
+        `<<<<<<< ${MERGE_LABELS.ours}`,
+        ...chunk.ours,
+        '=======',
+        ...chunk.theirs,
+        `>>>>>>> ${MERGE_LABELS.theirs}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Merge ours and theirs against base.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): ThreeWayMergeResult {
+  if (ours === theirs || theirs === base) {
+    return { clean: true, chunks: [{ type: 'stable', lines: splitLines(ours) }], content: ours };
+  }
+  if (ours === base) {
+    return { clean: true, chunks: [{ type: 'stable', lines: splitLines(theirs) }], content: theirs };
+  }
+
+  const baseLines = splitLines(base);
+  const hunks = [
+    ...toHunks(baseLines, splitLines(ours), 'ours'),
+    ...toHunks(baseLines, splitLines(theirs), 'theirs'),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const chunks: MergeChunk[] = [];
+  let pos = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    // Group hunks that touch the same base lines
+    const group = [hunks[index++]];
+    const start = group[0].start;
+    let end = group[0].end;
+    while (index < hunks.length) {
+      const next = hunks[index];
+      const touches = next.start < end || (next.start === end && (next.start === next.end || start === end));
+      if (!touches) break;
+      group.push(next);
+      end = Math.max(end, next.end);
+      index++;
+    }
+
+    pushStable(chunks, baseLines.slice(pos, start));
+    pos = end;
+
+    const oursHunks = group.filter((hunk) => hunk.side === 'ours');
+    const theirsHunks = group.filter((hunk) => hunk.side === 'theirs');
+    const oursLines = applyHunks(baseLines, start, end, oursHunks);
+    const theirsLines = applyHunks(baseLines, start, end, theirsHunks);
+
+    if (oursHunks.length === 0 || theirsHunks.length === 0 || sameLines(oursLines, theirsLines)) {
+      pushStable(chunks, oursHunks.length > 0 ? oursLines : theirsLines);
+    } else {
+      chunks.push({ type: 'conflict', base: baseLines.slice(start, end), ours: oursLines, theirs: theirsLines });
+    }
+  }
+  pushStable(chunks, baseLines.slice(pos));
+
+  return {
+    clean: chunks.every((chunk) => chunk.type === 'stable'),
+    chunks,
+    content: renderMergeChunks(chunks),
+  };
+}
+
+/**
+ * Merge a single value (e.g. the title): whichever side changed wins, and
+ * both sides changing it differently is a conflict.
+ */
+export function mergeValue<T>(base: T, ours: T, theirs: T): { clean: boolean; value: T } {
+  if (ours === theirs || theirs === base) return { clean: true, value: ours };
+  if (ours === base) return { clean: true, value: theirs };
+  return { clean: false, value: ours };
+}
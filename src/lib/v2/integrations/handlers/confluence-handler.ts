@@ -0,0 +1,88 @@
+/**
+ * Confluence Source Handler for V2 Integration APIs
+ *
+ * Provides unified interface for Confluence page discovery and staging.
+ * Wraps the ConfluenceDiscoveryAdapter with V2 response formatting.
+ */
+
+import { BaseSourceHandler } from './base-handler';
+import { confluenceAdapter } from '@/lib/v2/sources/adapters/confluence-adapter';
+import type { ConfluenceSourceMetadata } from '@/types/v2';
+import type { DiscoveryParams, DiscoveryResponse, DiscoveredItem } from '../types';
+
+/**
+ * Confluence-specific discovered item with page metadata
+ */
+export interface ConfluenceDiscoveredItem extends DiscoveredItem {
+  pageId: string;
+  spaceKey: string;
+  pageVersion: number;
+  url?: string;
+  lastEditedTime?: string;
+}
+
+export class ConfluenceSourceHandler extends BaseSourceHandler {
+  readonly sourceType = 'confluence' as const;
+  readonly displayName = 'Confluence Pages';
+
+  private adapter = confluenceAdapter;
+
+  /**
+   * Discover pages from Confluence.
+   */
+  async discover(params: DiscoveryParams): Promise<DiscoveryResponse<ConfluenceDiscoveredItem>> {
+    const { libraryId, customerId, limit, since } = params;
+
+    const discovered = await this.adapter.discover({
+      libraryId,
+      customerId,
+      limit,
+      since,
+    });
+
+    // Map adapter response to unified format
+    const items: ConfluenceDiscoveredItem[] = discovered.map((d) => {
+      const metadata = d.metadata as ConfluenceSourceMetadata;
+
+      return {
+        externalId: d.externalId,
+        title: d.title,
+        content: d.content || '',
+        contentPreview: d.contentPreview || '',
+        metadata: d.metadata as unknown as Record<string, unknown>,
+        pageId: metadata.pageId,
+        spaceKey: metadata.spaceKey,
+        pageVersion: metadata.pageVersion,
+        url: metadata.confluenceUrl,
+        lastEditedTime: metadata.confluenceUpdatedAt,
+      };
+    });
+
+    const hasMore = discovered.length >= limit;
+
+    return {
+      items,
+      pagination: {
+        hasMore,
+        totalFound: discovered.length,
+      },
+      meta: {
+        sourceType: this.sourceType,
+        libraryId,
+        customerId,
+      },
+    };
+  }
+
+  /**
+   * Test Confluence connection.
+   */
+  async testConnection(libraryId?: string, customerId?: string): Promise<{ success: boolean; error?: string }> {
+    return this.adapter.testConnection(
+      libraryId ? { libraryId: libraryId as import('@/types/v2').LibraryId, customerId } : undefined
+    );
+  }
+}
+
+// Export singleton instance
+export const confluenceHandler = new ConfluenceSourceHandler();
@@ -0,0 +1,86 @@
+/**
+ * Google Drive Source Handler for V2 Integration APIs
+ *
+ * Provides unified interface for Google Drive file discovery and staging.
+ * Wraps the GDriveDiscoveryAdapter with V2 response formatting.
+ */
+
+import { BaseSourceHandler } from './base-handler';
+import { gdriveAdapter } from '@/lib/v2/sources/adapters/gdrive-adapter';
+import type { GDriveSourceMetadata } from '@/types/v2';
+import type { DiscoveryParams, DiscoveryResponse, DiscoveredItem } from '../types';
+
+/**
+ * Drive-specific discovered item with file metadata
+ */
+export interface GDriveDiscoveredItem extends DiscoveredItem {
+  fileId: string;
+  mimeType: string;
+  fileVersion?: string;
+  url?: string;
+  modifiedTime?: string;
+}
+
+export class GDriveSourceHandler extends BaseSourceHandler {
+  readonly sourceType = 'gdrive' as const;
+  readonly displayName = 'Google Drive Files';
+
+  private adapter = gdriveAdapter;
+
+  /**
+   * Discover files from Google Drive.
+   */
+  async discover(params: DiscoveryParams): Promise<DiscoveryResponse<GDriveDiscoveredItem>> {
+    const { libraryId, customerId, limit, since } = params;
+
+    const discovered = await this.adapter.discover({
+      libraryId,
+      customerId,
+      limit,
+      since,
+    });
+
+    // Map adapter response to unified format
+    const items: GDriveDiscoveredItem[] = discovered.map((d) => {
+      const metadata = d.metadata as GDriveSourceMetadata;
+
+      return {
+        externalId: d.externalId,
+        title: d.title,
+        content: d.content || '',
+        contentPreview: d.contentPreview || '',
+        metadata: d.metadata as unknown as Record<string, unknown>,
+        fileId: metadata.fileId,
+        mimeType: metadata.mimeType,
+        fileVersion: metadata.fileVersion,
+        url: metadata.webViewLink,
+        modifiedTime: metadata.driveModifiedAt,
+      };
+    });
+
+    const hasMore = discovered.length >= limit;
+
+    return {
+      items,
+      pagination: {
+        hasMore,
+        totalFound: discovered.length,
+      },
+      meta: {
+        sourceType: this.sourceType,
+        libraryId,
+        customerId,
+      },
+    };
+  }
+
+  /**
+   * Test Google Drive connection.
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    return this.adapter.testConnection();
+  }
+}
+
+// Export singleton instance
+export const gdriveHandler = new GDriveSourceHandler();
@@ -9,3 +9,5 @@ export { slackHandler, SlackSourceHandler, type SlackDiscoveredItem } from './sl
 export { zendeskHandler, ZendeskSourceHandler, type ZendeskDiscoveredItem } from './zendesk-handler';
 export { gongHandler, GongSourceHandler, type GongDiscoveredItem } from './gong-handler';
 export { notionHandler, NotionSourceHandler, type NotionDiscoveredItem } from './notion-handler';
+export { confluenceHandler, ConfluenceSourceHandler, type ConfluenceDiscoveredItem } from './confluence-handler';
+export { gdriveHandler, GDriveSourceHandler, type GDriveDiscoveredItem } from './gdrive-handler';
@@ -25,6 +25,39 @@ export function getIntegrationConnectionName(
   return libraryNames[libraryId] || `${libraryId} ${capitalize(integrationType)}`;
 }
 
+/**
+ * Resolve the library (and customer) a connection stages sources into.
+ * Inverse of getIntegrationConnectionName; an explicit config.libraryId / config.customerId wins.
+ * @param integrationType - The integration type (e.g., 'slack', 'confluence')
+ * @param name - The connection name stored in the database
+ * @param config - The connection config JSON
+ * @returns The library/customer scope, or null if the name is not recognised
+ */
+export function resolveConnectionScope(
+  integrationType: string,
+  name: string,
+  config: Record<string, unknown> = {}
+): { libraryId: string; customerId?: string } | null {
+  const customerId = typeof config.customerId === 'string' ? config.customerId : undefined;
+  if (typeof config.libraryId === 'string') {
+    return { libraryId: config.libraryId, customerId };
+  }
+
+  const customerMatch = name.match(/^Customer (\S+) /);
+  if (customerId || customerMatch) {
+    return { libraryId: 'customers', customerId: customerId || customerMatch?.[1] };
+  }
+
+  const libraryNames = getLibraryNames(integrationType);
+  const libraryId = Object.keys(libraryNames).find((id) => libraryNames[id] === name);
+  if (libraryId) {
+    return { libraryId };
+  }
+
+  const suffix = ` ${capitalize(integrationType)}`;
+  return name.endsWith(suffix) ? { libraryId: name.slice(0, -suffix.length) } : null;
+}
+
 /**
  * Get all library name mappings for a given integration type
  * @param integrationType - The integration type (e.g., 'slack', 'zendesk')
@@ -52,6 +85,16 @@ function getLibraryNames(integrationType: string): Record<string, string> {
       'knowledge': 'Knowledge Gong Integration',
       'gtm': 'GTM Gong Integration',
     },
+    confluence: {
+      'it': 'IT Confluence',
+      'knowledge': 'Knowledge Confluence',
+      'gtm': 'GTM Confluence',
+    },
+    gdrive: {
+      'it': 'IT Google Drive',
+      'knowledge': 'Knowledge Google Drive',
+      'gtm': 'GTM Google Drive',
+    },
   };
 
   return configs[integrationType] || {};
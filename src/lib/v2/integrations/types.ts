@@ -2,7 +2,7 @@
  * Unified Integration API Types
  *
  * Shared types and response formats for all V2 integration endpoints.
- * Used by Slack, Zendesk, Gong, and Notion integrations.
+ * Used by Slack, Zendesk, Gong, Notion, Confluence and Google Drive integrations.
  */
 
 import type { LibraryId, SourceType } from '@/types/v2';
@@ -11,7 +11,7 @@
 
 import { useState, useMemo, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { Plus, BookOpen, CheckCircle } from 'lucide-react';
+import { Plus, BookOpen, CheckCircle, RefreshCw, Clock } from 'lucide-react';
 import { LibraryTabs } from '@/components/v2/LibraryTabs';
 import { DashboardTab } from '@/components/v2/DashboardTab';
 import { SlackBotTab } from '@/components/v2/SlackBotTab';
@@ -19,7 +19,7 @@ import { useAddToSkillDialog } from '@/components/v2/useAddToSkillDialog';
 import { UnifiedSourceWizard } from '@/components/v2/sources';
 import { CreateSkillModal } from '@/components/v2/CreateSkillModal';
 import { getLibraryConfig } from '@/lib/library-config';
-import { useLibraryContext } from './library-context';
+import { useLibraryContext, type LibraryContextValue } from './library-context';
 import {
   getPendingCount,
   getScopeCovers,
@@ -32,6 +32,7 @@ interface LibraryContentProps {
   searchParams?: {
     search?: string;
     review?: string;
+    freshness?: string;
   };
 }
 
@@ -44,6 +45,8 @@ export function LibraryContent({ activeTab, searchParams = {} }: LibraryContentP
     pendingReview,
     activeSkills,
     sourcesByType,
+    skillsWithUpdatedSources,
+    skillFreshness,
     pendingBot,
     isAdmin,
   } = useLibraryContext();
@@ -123,6 +126,11 @@ export function LibraryContent({ activeTab, searchParams = {} }: LibraryContentP
     return actions;
   }, [config.sourceTabs, config.accentColor, config.showQATab, pendingCounts, pendingBot.length]);
 
+  const staleCount = useMemo(
+    () => Object.values(skillFreshness).filter((f) => f.status === 'stale').length,
+    [skillFreshness]
+  );
+
   // Navigation helper for skill detail
   const handleNavigate = useCallback((skillSlug: string | null, skillId: string) => {
     router.push(`${config.basePath}/${skillSlug || skillId}`);
@@ -153,6 +161,30 @@ export function LibraryContent({ activeTab, searchParams = {} }: LibraryContentP
           <h1 className="text-2xl font-bold text-gray-900">{config.name}</h1>
           <p className="mt-1 text-sm text-gray-500">
             {totalSkills} {config.pluralName} · {pendingReview} pending review · {activeSkills} active
+            {skillsWithUpdatedSources.length > 0 && (
+              <>
+                {' · '}
+                <button
+                  onClick={() => router.push(`${config.basePath}/items`)}
+                  className="text-amber-700 hover:underline"
+                >
+                  {skillsWithUpdatedSources.length}{' '}
+                  {skillsWithUpdatedSources.length === 1 ? config.singularName : config.pluralName}{' '}
+                  {skillsWithUpdatedSources.length === 1 ? 'has' : 'have'} updated sources
+                </button>
+              </>
+            )}
+            {staleCount > 0 && (
+              <>
+                {' · '}
+                <button
+                  onClick={() => router.push(`${config.basePath}/items?freshness=stale`)}
+                  className="text-red-700 hover:underline"
+                >
+                  {staleCount} stale
+                </button>
+              </>
+            )}
           </p>
         </div>
         <button
@@ -188,12 +220,28 @@ export function LibraryContent({ activeTab, searchParams = {} }: LibraryContentP
         )}
 
         {/* Skills List Tab */}
+        {activeTab === 'items' && (staleCount > 0 || searchParams.freshness === 'stale') && (
+          <div className="flex justify-end mb-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={searchParams.freshness === 'stale'}
+                onChange={(e) => router.push(`${config.basePath}/items${e.target.checked ? '?freshness=stale' : ''}`)}
+                className="rounded border-gray-300"
+              />
+              Stale only
+            </label>
+          </div>
+        )}
         {activeTab === 'items' && (
           <SkillsList
             skills={skills}
             config={config}
             colors={colors}
             searchParams={searchParams}
+            updatedSkillIds={skillsWithUpdatedSources}
+            freshness={skillFreshness}
+            onShowAll={() => router.push(`${config.basePath}/items`)}
             onNavigate={handleNavigate}
           />
         )}
@@ -258,7 +306,10 @@ interface SkillsListProps {
   }>;
   config: ReturnType<typeof getLibraryConfig>;
   colors: typeof colorClasses[keyof typeof colorClasses];
-  searchParams: { search?: string; review?: string };
+  searchParams: { search?: string; review?: string; freshness?: string };
+  updatedSkillIds: string[];
+  freshness: LibraryContextValue['skillFreshness'];
+  onShowAll: () => void;
   onNavigate: (slug: string | null, id: string) => void;
 }
 
@@ -267,9 +318,15 @@ function SkillsList({
   config,
   colors,
   searchParams,
+  updatedSkillIds,
+  freshness,
+  onShowAll,
   onNavigate,
 }: SkillsListProps) {
-  if (skills.length === 0) {
+  const staleOnly = searchParams.freshness === 'stale';
+  const visibleSkills = staleOnly ? skills.filter((skill) => freshness[skill.id]?.status === 'stale') : skills;
+
+  if (visibleSkills.length === 0) {
     return (
       <div
         className={`text-center py-12 bg-white rounded-lg border-l-4 ${colors.border} border-t border-r border-b border-gray-200 shadow-sm`}
@@ -277,17 +334,22 @@ function SkillsList({
         <BookOpen className="w-12 h-12 text-gray-300 mx-auto mb-4" />
         <h3 className="text-lg font-medium text-gray-900 mb-2">{config.emptyStateTitle}</h3>
         <p className="text-gray-500 mb-4">
-          {searchParams.search || searchParams.review !== 'all'
+          {searchParams.search || searchParams.review !== 'all' || staleOnly
             ? 'Try adjusting your filters.'
             : config.emptyStateMessage}
         </p>
+        {staleOnly && (
+          <button onClick={onShowAll} className="text-sm text-blue-600 hover:underline">
+            Show all {config.pluralName}
+          </button>
+        )}
       </div>
     );
   }
 
   return (
     <div className="grid grid-cols-1 gap-4">
-      {skills.map((skill) => (
+      {visibleSkills.map((skill) => (
         <button
           key={skill.id}
           onClick={() => onNavigate(skill.slug, skill.id)}
@@ -311,6 +373,26 @@ function SkillsList({
                       Active
                     </span>
                   )}
+                  {updatedSkillIds.includes(skill.id) && (
+                    <span
+                      className="px-2 py-0.5 text-xs bg-amber-100 text-amber-700 rounded flex items-center gap-1 whitespace-nowrap"
+                      title="Sources changed since this was last refreshed"
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                      Sources updated
+                    </span>
+                  )}
+                  {freshness[skill.id] && (
+                    <span
+                      className={`px-2 py-0.5 text-xs rounded flex items-center gap-1 whitespace-nowrap ${
+                        freshness[skill.id].status === 'stale' ? 'bg-red-100 text-red-700' : 'bg-orange-50 text-orange-700'
+                      }`}
+                      title={`Freshness ${freshness[skill.id].score}/100: ${freshness[skill.id].reasons.join('; ')}`}
+                    >
+                      <Clock className="w-3 h-3" />
+                      {freshness[skill.id].status === 'stale' ? 'Stale' : 'Aging'}
+                    </span>
+                  )}
                 </div>
                 {skill.summary && (
                   <p className="text-sm text-gray-600 line-clamp-2">{skill.summary}</p>
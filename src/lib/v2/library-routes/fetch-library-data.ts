@@ -8,6 +8,7 @@
 import { prisma } from '@/lib/prisma';
 import { transformBotInteractions } from '@/lib/v2/bot-interactions';
 import { getLibraryConfig, type SourceType } from '@/lib/library-config';
+import { getSkillFreshness } from '@/lib/v2/skills/freshness-service';
 import type { LibraryContextValue } from './library-context';
 
 type StandardLibraryId = 'knowledge' | 'it' | 'gtm' | 'talent';
@@ -46,7 +47,7 @@ export async function fetchLibraryData({
 
   try {
     // Execute all queries in parallel with individual error handling
-    const [skillsResult, totalResult, ...sourceResults] = await Promise.all([
+    const [skillsResult, totalResult, updatedSourcesResult, freshnessResult, ...sourceResults] = await Promise.all([
       // Skills query
       prisma.buildingBlock
         .findMany({
@@ -74,6 +75,33 @@ export async function fetchLibraryData({
         return 0;
       }),
 
+      // Skills whose incorporated sources changed upstream (scheduled re-sync)
+      prisma.sourceAssignment
+        .findMany({
+          where: { sourceChangedAt: { not: null }, block: skillsWhere },
+          select: { blockId: true },
+          distinct: ['blockId'],
+        })
+        .then((rows) => rows.map((row) => row.blockId))
+        .catch((error) => {
+          console.error(`[fetchLibraryData] Failed to fetch source updates for ${libraryId}:`, error);
+          return [] as string[];
+        }),
+
+      // Freshness scores; only aging and stale skills are kept
+      getSkillFreshness({ libraryId })
+        .then((entries) => {
+          const freshness: LibraryContextValue['skillFreshness'] = {};
+          for (const { id, freshness: { score, status, reasons } } of entries) {
+            if (status !== 'fresh') freshness[id] = { score, status, reasons };
+          }
+          return freshness;
+        })
+        .catch((error) => {
+          console.error(`[fetchLibraryData] Failed to score freshness for ${libraryId}:`, error);
+          return {} as LibraryContextValue['skillFreshness'];
+        }),
+
       // Source type queries - one per configured source type
       ...sourceTypes.map((sourceType) =>
         prisma.stagedSource
@@ -156,6 +184,8 @@ export async function fetchLibraryData({
       pendingReview,
       activeSkills,
       sourcesByType: sourcesByType as LibraryContextValue['sourcesByType'],
+      skillsWithUpdatedSources: updatedSourcesResult,
+      skillFreshness: freshnessResult,
       pendingBot,
       currentUser,
       isAdmin,
@@ -172,6 +202,8 @@ export async function fetchLibraryData({
       pendingReview: 0,
       activeSkills: 0,
       sourcesByType: {},
+      skillsWithUpdatedSources: [],
+      skillFreshness: {},
       pendingBot: [],
       currentUser: userId
         ? {
@@ -11,6 +11,7 @@ import type { SkillItem, StagedSourceItem } from '@/components/v2/UnifiedLibrary
 import type { BotInteraction } from '@/lib/v2/bot-interactions';
 import type { LibraryId } from '@/types/v2/building-block';
 import type { SourceType } from '@/lib/library-config';
+import type { SkillFreshness } from '@/lib/v2/skills/freshness-service';
 
 export interface LibraryContextValue {
   libraryId: LibraryId;
@@ -19,6 +20,10 @@ export interface LibraryContextValue {
   pendingReview: number;
   activeSkills: number;
   sourcesByType: Partial<Record<SourceType, StagedSourceItem[]>>;
+  /** IDs of skills with incorporated sources that changed upstream */
+  skillsWithUpdatedSources: string[];
+  /** Freshness of each active skill that is not fresh, keyed by skill ID */
+  skillFreshness: Record<string, Pick<SkillFreshness, 'score' | 'status' | 'reasons'>>;
   pendingBot: BotInteraction[];
   currentUser: {
     id: string;
@@ -110,6 +110,7 @@ export const METADATA_CONFIGS: Record<LibraryId, LibraryMetadataConfig> = {
   personas: { libraryId: 'personas', fields: [] },
   templates: { libraryId: 'templates', fields: [] },
   views: { libraryId: 'views', fields: [] },
+  playbooks: { libraryId: 'playbooks', fields: [] },
 };
 
 // =============================================================================
@@ -174,6 +175,7 @@ export const SIDEBAR_CONFIGS: Record<LibraryId, LibrarySidebarConfig> = {
   personas: { libraryId: 'personas', sections: [] },
   templates: { libraryId: 'templates', sections: [] },
   views: { libraryId: 'views', sections: [] },
+  playbooks: { libraryId: 'playbooks', sections: [] },
 };
 
 // =============================================================================
@@ -7,6 +7,9 @@
  * - Keyword matching: Fast, no LLM, using TF-IDF-like scoring
  * - LLM matching: Semantic analysis via Claude
  * - Hybrid: Keyword pre-filter + LLM refinement
+ * - Embedding matching: Vector similarity against stored block embeddings
+ *   (catches synonyms like "SSO" vs "SAML login" without an LLM call)
+ * - Hybrid-embedding: Keyword + embedding scores combined per skill
  *
  * Three modes:
  * - preview: Return all skills ranked + AI recommendations (for approval UI)
@@ -53,7 +56,7 @@ export interface ContentSkillMatch {
   confidence: 'high' | 'medium' | 'low';
   matchedTerms: string[];
   reason: string;
-  matchStrategy: 'keyword' | 'llm';
+  matchStrategy: 'keyword' | 'llm' | 'embedding';
   suggestedExcerpt?: string; // For source matching - which part of content matches
 }
 
@@ -79,6 +82,8 @@ export interface ContentToMatch {
   keywords?: string[]; // Pre-extracted keywords (for sources)
 }
 
+export type MatchStrategy = 'keyword' | 'llm' | 'hybrid' | 'embedding' | 'hybrid-embedding';
+
 /**
  * Request for content-to-skill matching
  */
@@ -92,7 +97,7 @@ export interface MatchContentRequest {
   /** Library context */
   libraryId: LibraryId;
   /** Matching strategy */
-  strategy: 'keyword' | 'llm' | 'hybrid';
+  strategy: MatchStrategy;
   /** Mode: preview for UI, execute for processing, forecast for estimation */
   mode: 'preview' | 'execute' | 'forecast';
   /** Optional configuration */
@@ -339,6 +344,21 @@ export async function matchContentToSkills(
     }
   }
 
+  // ==========================================================================
+  // EMBEDDING MATCHING (if requested)
+  // ==========================================================================
+
+  let embeddingMatches: ContentSkillMatch[] = [];
+
+  if (strategy === 'embedding' || strategy === 'hybrid-embedding') {
+    try {
+      embeddingMatches = await matchWithEmbeddings(contentItems, skills);
+    } catch (error) {
+      // Fall back to keyword results if the embedding provider is unavailable
+      console.warn('[matchContentToSkills] Embedding matching failed, using keyword results:', error);
+    }
+  }
+
   // ==========================================================================
   // COMBINE RESULTS
   // ==========================================================================
@@ -346,7 +366,18 @@ export async function matchContentToSkills(
   // For hybrid: merge LLM results with keyword results, preferring LLM scores
   let finalMatches: ContentSkillMatch[];
 
-  if (strategy === 'llm' && llmMatches.length > 0) {
+  if (strategy === 'embedding' && embeddingMatches.length > 0) {
+    finalMatches = embeddingMatches
+      .filter(m => m.score >= minScore)
+      .slice(0, maxSkills);
+  } else if (strategy === 'hybrid-embedding' && embeddingMatches.length > 0) {
+    finalMatches = combineKeywordAndEmbeddingMatches(
+      rankAllSkills(contentItems, skills),
+      embeddingMatches
+    )
+      .filter(m => m.score >= minScore)
+      .slice(0, maxSkills);
+  } else if (strategy === 'llm' && llmMatches.length > 0) {
     finalMatches = llmMatches;
   } else if (strategy === 'hybrid' && llmMatches.length > 0) {
     // Merge: LLM matches take precedence, add keyword-only matches
@@ -381,8 +412,13 @@ export async function matchContentToSkills(
   // MODE: PREVIEW
   // ==========================================================================
 
-  // Get ALL skills ranked for preview UI
-  const allSkillsRanked = rankAllSkills(contentItems, skills);
+  // Get ALL skills ranked for preview UI (by the same signal used to recommend)
+  const keywordRanked = rankAllSkills(contentItems, skills);
+  const allSkillsRanked = embeddingMatches.length === 0
+    ? keywordRanked
+    : strategy === 'embedding'
+      ? embeddingMatches
+      : combineKeywordAndEmbeddingMatches(keywordRanked, embeddingMatches);
 
   // Mark which skills are recommended
   const recommendedSkillIds = new Set(finalMatches.map(m => m.skillId));
@@ -504,6 +540,74 @@ function rankAllSkills(
     .sort((a, b) => b.score - a.score);
 }
 
+// =============================================================================
+// EMBEDDING MATCHING
+// =============================================================================
+
+/**
+ * Match content to skills by embedding similarity, ranked by score.
+ */
+async function matchWithEmbeddings(
+  contentItems: ContentToMatch[],
+  skills: SkillForMatching[]
+): Promise<ContentSkillMatch[]> {
+  // Import here to keep the matcher free of prisma for keyword-only callers
+  const { scoreSkillsByEmbedding } = await import('../embeddings');
+
+  const scores = await scoreSkillsByEmbedding(
+    contentItems.map(c => c.content),
+    skills
+  );
+  const titles = new Map(skills.map(s => [s.id, s.title]));
+
+  return scores
+    .map(({ skillId, score, field }) => ({
+      skillId,
+      skillTitle: titles.get(skillId) || skillId,
+      score,
+      confidence: scoreToConfidence(score),
+      matchedTerms: [],
+      reason: `Semantic similarity to skill ${field === 'scope' ? 'scope' : 'content'} (${Math.round(score * 100)}%)`,
+      matchStrategy: 'embedding' as const,
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Merge keyword and embedding rankings per skill.
+ *
+ * Takes the stronger of the two signals so a synonym-only match (keyword 0,
+ * embedding high) still surfaces, and adds a small bonus when both agree.
+ * Keyword matched terms are kept for the preview UI.
+ */
+export function combineKeywordAndEmbeddingMatches(
+  keywordMatches: ContentSkillMatch[],
+  embeddingMatches: ContentSkillMatch[]
+): ContentSkillMatch[] {
+  const AGREEMENT_BONUS = 0.1;
+  const keywordBySkill = new Map(keywordMatches.map(m => [m.skillId, m]));
+
+  return embeddingMatches
+    .map(embeddingMatch => {
+      const keywordMatch = keywordBySkill.get(embeddingMatch.skillId);
+      const keywordScore = keywordMatch?.score ?? 0;
+      const bothAgree = keywordScore > 0 && embeddingMatch.score > 0;
+      const score = Math.min(
+        1,
+        Math.max(keywordScore, embeddingMatch.score) + (bothAgree ? AGREEMENT_BONUS : 0)
+      );
+      const primary = keywordScore > embeddingMatch.score && keywordMatch ? keywordMatch : embeddingMatch;
+
+      return {
+        ...primary,
+        score,
+        confidence: scoreToConfidence(score),
+        matchedTerms: keywordMatch?.matchedTerms ?? [],
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
 // =============================================================================
 // LLM MATCHING
 // =============================================================================
@@ -10,6 +10,7 @@ export {
   getQuickKeywordMatches,
   shouldSuggestNewSkill,
   scoreContentAgainstSkill,
+  combineKeywordAndEmbeddingMatches,
 
   // Types
   type SkillForMatching,
@@ -17,6 +18,7 @@ export {
   type SkillWithRanking,
   type ContentToMatch,
   type MatchContentRequest,
+  type MatchStrategy,
   type MatchContentPreviewResult,
   type MatchContentExecuteResult,
   type MatchContentForecastResult,
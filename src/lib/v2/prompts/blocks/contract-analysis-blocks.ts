@@ -85,10 +85,11 @@ Return a JSON object with this exact structure:
   "findings": [
     {
       "category": "category_name",
-      "clauseText": "The exact or summarized clause text from the contract",
+      "clauseText": "The clause text quoted verbatim from the contract (used to locate it for redlines)",
       "rating": "can_comply" | "partial" | "gap" | "risk" | "info_only",
       "rationale": "Why this rating was given, referencing your capabilities",
-      "suggestedResponse": "Optional: How to respond or negotiate if needed"
+      "suggestedResponse": "Optional: Replacement clause language to propose as a redline",
+      "relevantSkills": ["Titles of the skills this rating relies on"]
     }
   ]
 }`,
@@ -110,6 +111,51 @@ export const contractAnalysisGuidelinesBlock: PromptBlock = {
 8. Return ONLY valid JSON, no markdown or explanatory text`,
 };
 
+export const contractPlaybookGuidelinesBlock: PromptBlock = {
+  id: 'contract_playbook_guidelines',
+  name: 'Contract Playbook Guidelines',
+  description: 'Rules for placing clauses on the negotiation playbook.',
+  tier: 2,
+  content: `PLAYBOOK MODE:
+The request includes the organization's negotiation playbook. Each playbook category lists positions from most to least favorable: preferred, fallback_1, fallback_2, ..., walk_away.
+
+1. For every clause covered by a playbook category, set playbookCategory to that category
+2. Set playbookTier to the most favorable position the clause is at least as good as (for the organization):
+   - preferred: meets or beats the preferred position
+   - fallback_N: matches fallback N but not anything above it
+   - walk_away: only meets the walk-away terms
+   - unacceptable: worse than the walk-away terms
+3. Judge the substance (caps, time periods, scope, locations), not the wording
+4. The rating and suggested language for playbook clauses are derived from the tier - explain the placement in the rationale
+5. Clauses outside the playbook are rated against the documented capabilities as usual, without playbook fields
+6. Return ONLY valid JSON, no markdown or explanatory text`,
+};
+
+export const contractPlaybookOutputBlock: PromptBlock = {
+  id: 'contract_playbook_output',
+  name: 'Contract Playbook Output Format',
+  description: 'The JSON structure for playbook analysis results.',
+  tier: 1,
+  content: `OUTPUT FORMAT:
+Return a JSON object with this exact structure:
+{
+  "overallRating": "compliant" | "mostly_compliant" | "needs_review" | "high_risk",
+  "summary": "Executive summary of the contract analysis (2-3 paragraphs)",
+  "findings": [
+    {
+      "category": "category_name",
+      "clauseText": "The clause text quoted verbatim from the contract (used to locate it for redlines)",
+      "rating": "can_comply" | "partial" | "gap" | "risk" | "info_only",
+      "rationale": "Why the clause sits at this playbook position (or why this rating was given)",
+      "playbookCategory": "Optional: playbook category this clause falls under",
+      "playbookTier": "Optional: preferred | fallback_N | walk_away | unacceptable",
+      "suggestedResponse": "Optional: Replacement clause language (non-playbook clauses only)",
+      "relevantSkills": ["Titles of the skills this rating relies on"]
+    }
+  ]
+}`,
+};
+
 // Export all contract analysis blocks
 export const contractAnalysisBlocks: PromptBlock[] = [
   contractAnalysisRoleBlock,
@@ -117,4 +163,6 @@ export const contractAnalysisBlocks: PromptBlock[] = [
   contractAnalysisRatingsBlock,
   contractAnalysisOutputBlock,
   contractAnalysisGuidelinesBlock,
+  contractPlaybookGuidelinesBlock,
+  contractPlaybookOutputBlock,
 ];
@@ -357,6 +357,21 @@ ALWAYS:
 - Maintain citation integrity with correct numbering`,
 };
 
+export const skillContradictionScanRoleBlock: PromptBlock = {
+  id: 'role_skill_contradiction_scan',
+  name: 'Skill Contradiction Scan Role',
+  description: 'Role definition for comparing two skills for conflicting claims.',
+  tier: 3,
+  content: `You are a knowledge base auditor checking that skills agree with each other.
+
+Your job is to:
+1. Compare two skills from the same library whose scopes overlap
+2. Find factual claims where the skills disagree
+3. Quote the conflicting text from each skill exactly
+
+Only report real conflicts. Answers built from either skill must not contradict each other in front of customers.`,
+};
+
 
 // =============================================================================
 // EXPORT ALL BLOCKS
@@ -405,6 +420,7 @@ export const coreBlocks: PromptBlock[] = [
   skillUpdateRoleBlock,
   skillMatchingRoleBlock,
   skillFormatRefreshRoleBlock,
+  skillContradictionScanRoleBlock,
   chatRoleBlock,
   rfpRoleBlock,
   promptEngineerRoleBlock,
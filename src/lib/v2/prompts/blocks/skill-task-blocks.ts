@@ -198,9 +198,45 @@ STEP-BY-STEP PROCESS:
    - No text before or after JSON`,
 };
 
+export const taskFramingContradictionScanBlock: PromptBlock = {
+  id: 'task_framing_contradiction_scan',
+  name: 'Task: Cross-Skill Contradiction Scan',
+  description: 'Step-by-step instructions for finding conflicting claims between two skills.',
+  tier: 2,
+  content: `TASK: FIND CONTRADICTIONS BETWEEN TWO SKILLS
+
+You are given two skills (Skill A and Skill B) that cover overlapping topics.
+
+STEP-BY-STEP PROCESS:
+
+1. **Find shared subjects**
+   - Identify facts both skills state about the same thing
+   - Examples: retention periods, limits, supported versions, SLAs, pricing, regions, certifications
+
+2. **Compare the claims**
+   - Report a contradiction when the two statements cannot both be true
+   - Example: Skill A says "logs are retained for 90 days" but Skill B says "logs are retained for 1 year"
+   - Different tiers, products or regions described separately are NOT contradictions (use scope_mismatch only if the skills present them as the same thing)
+   - Missing information in one skill is NOT a contradiction
+
+3. **Quote both sides**
+   - claimA and claimB are short verbatim excerpts from Skill A and Skill B
+   - topic is a short label for the subject (e.g. "Audit log retention period")
+
+4. **Rate severity**
+   - high: customers would get materially wrong commitments (security, legal, SLAs, pricing)
+   - medium: wrong details that could cause confusion or rework
+   - low: minor wording or precision differences
+
+5. **Return valid JSON**
+   - Return an empty contradictions array when the skills agree
+   - No text before or after JSON`,
+};
+
 export const skillTaskBlocks: PromptBlock[] = [
   taskFramingCreationBlock,
   taskFramingUpdateBlock,
   taskFramingMatchingBlock,
   taskFramingFormatRefreshBlock,
+  taskFramingContradictionScanBlock,
 ];
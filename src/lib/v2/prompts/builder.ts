@@ -13,6 +13,7 @@ import {
   skillUpdateUserPrompt,
   skillMatchingUserPrompt,
   skillFormatRefreshUserPrompt,
+  skillContradictionScanUserPrompt,
 } from './compositions/skill-compositions';
 import {
   foundationalCreationUserPrompt,
@@ -166,6 +167,14 @@ ANALYSIS VIEW SPECIFICS:
 - Note target audience and use case
 - Include example outputs or preview
 - Capture display order and presentation preferences`,
+
+  playbooks: `LIBRARY: Contract Playbooks
+
+PLAYBOOK LIBRARY SPECIFICS:
+- One position per clause category (liability, indemnification, data residency, etc.)
+- State the preferred language, then fallbacks in the order they may be conceded
+- Define the walk-away terms beyond which the deal needs escalation
+- Note who must approve concessions past the first fallback`,
 };
 
 /**
@@ -253,6 +262,8 @@ export function getUserPromptTemplate(context: PromptContext): string {
       return skillMatchingUserPrompt;
     case 'skill_format_refresh':
       return skillFormatRefreshUserPrompt;
+    case 'skill_contradiction_scan':
+      return skillContradictionScanUserPrompt;
     case 'foundational_creation':
       return foundationalCreationUserPrompt;
     case 'foundational_additive_update':
@@ -420,6 +431,20 @@ export function buildSkillFormatRefreshPrompt(options?: {
   });
 }
 
+/**
+ * Build prompt for the cross-skill contradiction scan
+ */
+export function buildSkillContradictionScanPrompt(options?: {
+  libraryId?: LibraryId;
+  additionalContext?: string;
+}): BuiltPrompt {
+  return buildPrompt({
+    context: 'skill_contradiction_scan',
+    libraryId: options?.libraryId,
+    additionalContext: options?.additionalContext,
+  });
+}
+
 // =============================================================================
 // USER PROMPT HELPERS
 // =============================================================================
@@ -29,10 +29,47 @@ export const contractAnalysisComposition: PromptComposition = {
   "findings": [
     {
       "category": "category_name",
-      "clauseText": "The exact or summarized clause text from the contract",
+      "clauseText": "The clause text quoted verbatim from the contract (used to locate it for redlines)",
       "rating": "can_comply" | "partial" | "gap" | "risk" | "info_only",
       "rationale": "Why this rating was given, referencing your capabilities",
-      "suggestedResponse": "Optional: How to respond or negotiate if needed"
+      "suggestedResponse": "Optional: Replacement clause language to propose as a redline",
+      "relevantSkills": ["Titles of the skills this rating relies on"]
+    }
+  ]
+}`,
+};
+
+export const contractPlaybookAnalysisComposition: PromptComposition = {
+  context: 'contract_playbook_analysis' as const,
+  name: 'Contract Playbook Analysis',
+  description: 'Place contract clauses on the negotiation playbook ladder for their category.',
+  category: 'contract',
+  usedBy: [
+    { feature: 'Contract Analysis (playbook mode)', location: '/v2/contracts/analyze', type: 'ui' },
+    { feature: 'Contract API', location: '/api/v2/contracts/analyze', type: 'api' },
+  ],
+  blockIds: [
+    'contract_analysis_role',
+    'contract_analysis_categories',
+    'contract_analysis_ratings',
+    'contract_analysis_guidelines',
+    'contract_playbook_guidelines',
+    'contract_playbook_output',
+  ],
+  outputFormat: 'json',
+  outputSchema: `{
+  "overallRating": "compliant" | "mostly_compliant" | "needs_review" | "high_risk",
+  "summary": "Executive summary of the contract analysis (2-3 paragraphs)",
+  "findings": [
+    {
+      "category": "category_name",
+      "clauseText": "The clause text quoted verbatim from the contract (used to locate it for redlines)",
+      "rating": "can_comply" | "partial" | "gap" | "risk" | "info_only",
+      "rationale": "Why the clause sits at this playbook position (or why this rating was given)",
+      "playbookCategory": "Optional: playbook category this clause falls under",
+      "playbookTier": "Optional: preferred | fallback_N | walk_away | unacceptable",
+      "suggestedResponse": "Optional: Replacement clause language (non-playbook clauses only)",
+      "relevantSkills": ["Titles of the skills this rating relies on"]
     }
   ]
 }`,
@@ -40,4 +77,5 @@ export const contractAnalysisComposition: PromptComposition = {
 
 export const contractAnalysisCompositions: PromptComposition[] = [
   contractAnalysisComposition,
+  contractPlaybookAnalysisComposition,
 ];
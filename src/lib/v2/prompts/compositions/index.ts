@@ -36,11 +36,11 @@ import type { PromptComposition, PromptContext } from '../types';
  *
  * Categories:
  * - Chat/RFP: chat_response, rfp_single, rfp_batch, rfp_skill_matching, rfp_cluster_creation
- * - Skills: skill_creation, skill_update, skill_matching, skill_format_refresh
+ * - Skills: skill_creation, skill_update, skill_matching, skill_format_refresh, skill_contradiction_scan
  * - Foundational: foundational_creation, foundational_additive_update
  * - Slack Bots: slack_bot_it, slack_bot_knowledge, slack_bot_gtm, slack_bot_talent
  * - Customer Views: customer_revenue_forecast, customer_competitive_analysis, customer_risk_assessment, customer_expansion_opportunities
- * - Contract: contract_analysis
+ * - Contract: contract_analysis, contract_playbook_analysis
  * - Utility: prompt_builder, prompt_optimize
  */
 export const allCompositions: PromptComposition[] = [
@@ -368,6 +368,51 @@ Existing Citations:
 
 {{allSources}}`;
 
+// =============================================================================
+// CROSS-SKILL CONTRADICTION SCAN
+// =============================================================================
+
+export const skillContradictionScanComposition: PromptComposition = {
+  context: 'skill_contradiction_scan',
+  name: 'Skill Contradiction Scan',
+  description: 'Find conflicting claims between two skills with overlapping scopes.',
+  category: 'skills',
+  usedBy: [
+    { feature: 'Library Contradiction Scan', location: 'contradiction-scan-service.ts', type: 'internal' },
+    { feature: 'Contradiction Scan API', location: '/api/v2/skills/contradictions', type: 'api' },
+  ],
+  blockIds: [
+    'role_skill_contradiction_scan',
+    'task_framing_contradiction_scan',
+    'json_output',
+  ],
+  outputFormat: 'json',
+  outputSchema: `{
+  "contradictions": [{
+    "type": "technical_contradiction|version_mismatch|scope_mismatch|outdated_vs_current|different_perspectives",
+    "topic": "string - Short subject label",
+    "description": "string - What exactly conflicts",
+    "claimA": "string - Verbatim excerpt from Skill A",
+    "claimB": "string - Verbatim excerpt from Skill B",
+    "severity": "low|medium|high",
+    "recommendation": "string - Which skill to fix and how"
+  }]
+}`,
+};
+
+/**
+ * User prompt template for the contradiction scan
+ * DATA ONLY - all instructions are in blocks
+ * Placeholders: {{skillATitle}}, {{skillAContent}}, {{skillBTitle}}, {{skillBContent}}
+ */
+export const skillContradictionScanUserPrompt = `## Skill A: {{skillATitle}}
+
+{{skillAContent}}
+
+## Skill B: {{skillBTitle}}
+
+{{skillBContent}}`;
+
 // =============================================================================
 // EXPORT ALL COMPOSITIONS
 // =============================================================================
@@ -378,4 +423,5 @@ export const skillCompositions: PromptComposition[] = [
   skillUpdateComposition,
   skillMatchingComposition,
   skillFormatRefreshComposition,
+  skillContradictionScanComposition,
 ];
@@ -25,10 +25,12 @@ export {
   skillUpdateComposition,
   skillMatchingComposition,
   skillFormatRefreshComposition,
+  skillContradictionScanComposition,
   skillCreationUserPrompt,
   skillUpdateUserPrompt,
   skillMatchingUserPrompt,
   skillFormatRefreshUserPrompt,
+  skillContradictionScanUserPrompt,
 } from './compositions';
 export { allCompositions, getComposition } from './compositions';
 
@@ -41,6 +43,7 @@ export {
   buildSkillUpdatePrompt,
   buildSkillMatchingPrompt,
   buildSkillFormatRefreshPrompt,
+  buildSkillContradictionScanPrompt,
   getUserPromptTemplate,
   fillUserPrompt,
   formatSourcesForPrompt,
@@ -21,6 +21,7 @@ export type SkillContext =
   | 'skill_update'                    // Update existing skill with diff + contradiction detection
   | 'skill_matching'                  // Match source to existing skills via scope definitions
   | 'skill_format_refresh'            // Regenerate existing skill through current format standards
+  | 'skill_contradiction_scan'        // Find conflicting claims between two skills in a library
   | 'foundational_creation'           // Create foundational skill by extracting scope-relevant content only
   | 'foundational_additive_update';   // Update foundational skill by appending scope-relevant extracts from new sources
 
@@ -38,6 +39,7 @@ export type ToolContext =
   | 'slack_bot_gtm'           // CL-002: Slack bot for GTM library
   | 'slack_bot_talent'        // CL-002: Slack bot for Talent library
   | 'contract_analysis'       // Contract review and risk analysis
+  | 'contract_playbook_analysis' // Contract review against a negotiation playbook
   | 'pdf_extraction'          // PDF text extraction
   | 'prompt_builder'          // CL-009: Help refine and improve prompts
   | 'prompt_optimize'         // CL-010: Identify token reduction opportunities
@@ -115,6 +117,8 @@ export interface PromptBlock {
   content: string;
   /** Estimated token count (computed from content, ~4 chars per token) */
   tokens?: number;
+  /** A/B variant served for this call (set only while an experiment is running) */
+  variantId?: string;
 }
 
 /**
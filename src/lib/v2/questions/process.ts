@@ -1,7 +1,9 @@
-import { answerQuestionsBatch } from "@/lib/llm";
+import { answerQuestionsBatch, type TracingOptions } from "@/lib/llm";
 import { executeLLMCall, assembleSystemPrompt } from "@/lib/llm/registry"; // Registry for single questions + batch orchestration
 import { getActiveBlocksForContext, getScopeIndex } from "@/lib/v2/blocks";
+import { gateSkillsForChannel } from "@/lib/v2/skills/exposure-gate";
 import { selectSkillsForQuestions as selectSkillsWithUnifiedService } from "./skill-selection-service";
+import { createJsonFieldStreamer } from "./response-streamer";
 import { getCustomerSkills } from "@/lib/v2/customers/customer-service";
 import prisma from "@/lib/prisma";
 import type { LibraryId } from "@/types/v2";
@@ -23,6 +25,9 @@ const LLM_TIMEOUT_MS = 120000; // 120 second timeout for LLM calls (increased fo
 // We cap at 20 for safety margin and consistent quality
 export const MAX_BATCH_SIZE = 20;
 
+/** The block fields answering needs; library and customer skills are loaded differently */
+type ContextBlock = { id: string; title: string; content: string; attributes: unknown };
+
 /**
  * Wrap a promise with a timeout
  */
@@ -56,6 +61,8 @@ function normalizeLibraryId(library: string): LibraryId {
 /**
  * Process a single question with BuildingBlocks.
  * Uses LLM-based skill selection (unified service) for accurate semantic matching.
+ * With `stream`, the answer's `response` text is forwarded as it is generated;
+ * an aborted stream throws after its trace is recorded.
  */
 export async function processQuestion(
   params: ProcessQuestionParams
@@ -67,11 +74,13 @@ export async function processQuestion(
     categories,
     customerId,
     modelSpeed,
+    tracingOptions,
+    stream,
   } = params;
 
   // Normalize library name
   const libraryId = normalizeLibraryId(library);
-  let blocks;
+  let blocks: ContextBlock[];
 
   // Prepare full question (with context if provided)
   let fullQuestion = question;
@@ -128,8 +137,12 @@ export async function processQuestion(
     console.log(`[Customer Skills] Loaded ${customerBlocks.length} customer-specific skills for customer ${customerId}`);
   }
 
-  // Convert blocks to skills format (combine library and customer skills)
-  const allBlocks = [...blocks, ...customerBlocks];
+  // Convert blocks to skills format (combine library and customer skills),
+  // dropping any that are not exposed to RFP answers
+  const { allowed: allBlocks, excluded: excludedSkills } = gateSkillsForChannel(
+    [...blocks, ...customerBlocks],
+    "rfp"
+  );
   const skills = allBlocks.map((block) => ({
     title: block.title,
     content: block.content,
@@ -142,10 +155,19 @@ export async function processQuestion(
       compositionId: "rfp_single",
       skills,
       modelSpeed,
+      tracingOptions,
+      stream: stream && {
+        onText: createJsonFieldStreamer("response", stream.onText),
+        signal: stream.signal,
+      },
     }),
     LLM_TIMEOUT_MS
   );
 
+  if (result.aborted) {
+    throw new Error("Answer stream was aborted by the client");
+  }
+
   // Parse the JSON response
   // Handle various LLM output formats:
   // 1. Pure JSON
@@ -189,6 +211,8 @@ export async function processQuestion(
       compositionId: result.transparency.compositionId,
       blockIds: result.transparency.blockIds,
       runtimeBlockIds: result.transparency.runtimeBlockIds,
+      promptVariants: result.transparency.promptVariants,
+      excludedSkills,
       assembledAt: result.transparency.assembledAt,
     },
   };
@@ -276,6 +300,28 @@ export async function estimateContextFit(
   };
 }
 
+// ~600 output tokens per answer (see MAX_BATCH_SIZE above)
+const OUTPUT_TOKENS_PER_ANSWER = 600;
+
+/**
+ * Estimate total tokens to answer `questionCount` questions in batches of `batchSize`.
+ * Each batch re-sends the system prompt, skills and file context; used for
+ * the team token budget pre-flight check before a project run.
+ */
+export function estimateRunTokens(
+  fit: Pick<ContextFitResult, 'breakdown'>,
+  questionCount: number,
+  batchSize: number = MAX_BATCH_SIZE
+): number {
+  const { skillTokens, questionTokens, fileContextTokens, systemPromptTokens } = fit.breakdown;
+  const batches = Math.ceil(questionCount / Math.max(1, batchSize));
+  return (
+    batches * (skillTokens + fileContextTokens + systemPromptTokens) +
+    questionTokens +
+    questionCount * OUTPUT_TOKENS_PER_ANSWER
+  );
+}
+
 /**
  * Process a batch of questions
  */
@@ -288,17 +334,21 @@ export async function processQuestionBatch(
     categories,
     modelSpeed,
     batchSize: _batchSize,
+    tracingOptions,
   } = params;
   void _batchSize; // Future: use for batch processing optimization
 
   // Normalize library name and get blocks
   const libraryId = normalizeLibraryId(library);
-  const blocks = await getActiveBlocksForContext(
-    [libraryId],
-    {
-      limit: 30,
-      categories,
-    }
+  const { allowed: blocks, excluded: excludedSkills } = gateSkillsForChannel(
+    await getActiveBlocksForContext(
+      [libraryId],
+      {
+        limit: 30,
+        categories,
+      }
+    ),
+    "rfp"
   );
 
   // Convert blocks to skills
@@ -329,7 +379,9 @@ export async function processQuestionBatch(
       "rfp_batch", // Fetch from prompt registry
       skills,
       undefined,
-      modelSpeed
+      modelSpeed,
+      undefined,
+      tracingOptions
     ),
     LLM_TIMEOUT_MS
   );
@@ -350,6 +402,8 @@ export async function processQuestionBatch(
       compositionId: "rfp_batch",
       blockIds: promptBlockIds,
       runtimeBlockIds,
+      promptVariants: result.promptVariants,
+      excludedSkills,
       assembledAt: new Date().toISOString(),
     },
   }));
@@ -374,6 +428,8 @@ export interface ProcessQuestionBatchWithScopeParams {
   approvedSkillIds?: string[];
   // File context (full file content for additional context)
   fileContext?: string;
+  // Who the batch runs for (tracing + team token budget)
+  tracingOptions?: TracingOptions;
 }
 
 export async function processQuestionBatchWithScope(
@@ -390,10 +446,11 @@ export async function processQuestionBatchWithScope(
     categories,
     approvedSkillIds,
     fileContext,
+    tracingOptions,
   } = params;
 
   const libraryId = normalizeLibraryId(library);
-  let blocks;
+  let blocks: ContextBlock[];
 
   if (approvedSkillIds && approvedSkillIds.length > 0) {
     // Use pre-approved skill IDs from skill preview approval
@@ -442,8 +499,11 @@ export async function processQuestionBatchWithScope(
     });
   }
 
+  // Drop skills that are not exposed to RFP answers
+  const { allowed: exposedBlocks, excluded: excludedSkills } = gateSkillsForChannel(blocks, "rfp");
+
   // Rest of processing is the same
-  const skills = blocks.map(block => ({
+  const skills = exposedBlocks.map(block => ({
     title: block.title,
     content: block.content,
   }));
@@ -483,7 +543,8 @@ export async function processQuestionBatchWithScope(
         skills,
         undefined,
         modelSpeed,
-        fileContext
+        fileContext,
+        tracingOptions
       ),
       LLM_TIMEOUT_MS
     );
@@ -504,6 +565,8 @@ export async function processQuestionBatchWithScope(
         compositionId: "rfp_batch",
         blockIds: promptBlockIds,
         runtimeBlockIds,
+        promptVariants: result.promptVariants,
+        excludedSkills,
         assembledAt: new Date().toISOString(),
       },
     }));
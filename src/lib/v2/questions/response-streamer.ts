@@ -0,0 +1,78 @@
+/**
+ * Response Field Streamer
+ *
+ * Single-question answers are generated as a JSON object
+ * ({ response, confidence, sources, reasoning, ... }). While streaming we
+ * only want to show the user the `response` text, so this incrementally
+ * decodes one string field from the raw JSON deltas and forwards its content.
+ * The full object is still parsed once the stream completes.
+ */
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Create a function that accepts raw JSON text deltas and calls `onText`
+ * with the decoded content of string field `field` as it arrives.
+ */
+export function createJsonFieldStreamer(
+  field: string,
+  onText: (delta: string) => void
+): (delta: string) => void {
+  const keyPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+  let state: "seeking" | "value" | "done" = "seeking";
+  let seen = "";
+  let escape: string | null = null;
+
+  const decode = (chunk: string) => {
+    let out = "";
+    for (const char of chunk) {
+      if (state !== "value") break;
+
+      if (escape !== null) {
+        escape += char;
+        if (escape.startsWith("u")) {
+          if (escape.length === 5) {
+            out += String.fromCharCode(parseInt(escape.slice(1), 16));
+            escape = null;
+          }
+        } else {
+          out += SIMPLE_ESCAPES[escape] ?? escape;
+          escape = null;
+        }
+      } else if (char === "\\") {
+        escape = "";
+      } else if (char === '"') {
+        state = "done";
+      } else {
+        out += char;
+      }
+    }
+    if (out) onText(out);
+  };
+
+  return (delta) => {
+    if (state === "done") return;
+
+    if (state === "seeking") {
+      seen += delta;
+      const match = keyPattern.exec(seen);
+      if (!match) return;
+      state = "value";
+      const rest = seen.slice(match.index + match[0].length);
+      seen = "";
+      decode(rest);
+      return;
+    }
+
+    decode(delta);
+  };
+}
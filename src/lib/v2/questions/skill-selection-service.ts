@@ -7,7 +7,7 @@
 
 import type { SkillScopeIndex } from '../blocks/block-service';
 import type { LibraryId } from '@/types/v2';
-import { matchContentToSkills, type MatchContentResult } from '../matching/content-skill-matcher';
+import { matchContentToSkills, type MatchContentResult, type MatchStrategy } from '../matching/content-skill-matcher';
 
 // =============================================================================
 // TYPES (Public API - unchanged for backward compatibility)
@@ -74,6 +74,8 @@ export interface SkillSelectionRequest {
   options?: {
     maxSkills?: number;
     approvedSkillIds?: string[];
+    /** Matching strategy (default: 'llm') */
+    strategy?: MatchStrategy;
   };
 }
 
@@ -177,7 +179,7 @@ export async function selectSkillsForQuestions(
     options = {},
   } = request;
 
-  const { maxSkills = 10, approvedSkillIds } = options;
+  const { maxSkills = 10, approvedSkillIds, strategy = 'llm' } = options;
 
   // Validate inputs
   if (questions.length === 0) {
@@ -198,7 +200,7 @@ export async function selectSkillsForQuestions(
     contentType: 'question_batch',
     skills: scopeIndexToSkillsForMatching(scopeIndex),
     libraryId,
-    strategy: 'llm', // RFP always uses LLM for semantic matching
+    strategy, // RFP defaults to LLM; embedding strategies trade nuance for cost
     mode,
     options: {
       maxSkills,
@@ -1,3 +1,7 @@
+import type { TracingOptions } from '@/lib/llm';
+import type { LLMStreamOptions } from '@/lib/llm/providers';
+import type { SkillExclusion } from '@/lib/v2/skills/exposure-gate';
+
 // Question processing output structure
 export interface QuestionOutput {
   response: string;
@@ -12,6 +16,10 @@ export interface QuestionOutput {
     compositionId: string;
     blockIds: string[];
     runtimeBlockIds: string[];
+    /** blockId -> A/B variant id; joined against review outcomes */
+    promptVariants?: Record<string, string>;
+    /** Skills withheld because they are not exposed to RFP answers */
+    excludedSkills?: SkillExclusion[];
     assembledAt: string;
   };
 }
@@ -44,6 +52,10 @@ export interface ProcessQuestionParams {
   categories?: string[];
   customerId?: string;
   modelSpeed: 'fast' | 'quality';
+  /** Who the question is answered for (tracing + team token budget) */
+  tracingOptions?: TracingOptions;
+  /** Stream the answer's `response` text through onText as it is generated */
+  stream?: LLMStreamOptions;
 }
 
 export interface EstimateContextFitParams {
@@ -63,6 +75,7 @@ export interface ProcessQuestionBatchParams {
   modelSpeed: 'fast' | 'quality';
   batchSize?: number;
   fileContext?: string;
+  tracingOptions?: TracingOptions;
 }
 
 // V2QuestionHistory data structure
@@ -2,9 +2,8 @@
  * RFP Batch Processor
  *
  * Core processing logic for RFP batch operations.
- * Used by both:
- * - API endpoint (sync fallback when Redis not configured)
- * - Background worker (async when Redis is available)
+ * Run by the background worker (BullMQ or the Postgres fallback queue).
+ * Rows pre-filled from answer memory are skipped until a reviewer discards them.
  *
  * Updates DB after each batch so polling can show progress.
  */
@@ -15,7 +14,10 @@ import { logger } from '@/lib/logger';
 import { generateErrorId } from '@/lib/error-id';
 import type { LibraryId } from '@/types/v2';
 import type { ModelSpeed } from '@/lib/config';
+import { getReusedFrom } from '@/lib/v2/answer-memory';
+import { TokenBudgetExceededError } from '@/lib/v2/teams/token-budget-service';
 import { fetchRFPSkills } from './skill-fetcher';
+import { applyPinnedSkillVersions } from './skill-version-pins';
 
 export interface BatchProcessorParams {
   projectId: string;
@@ -23,12 +25,17 @@ export interface BatchProcessorParams {
   batchSize: number;
   libraryId: LibraryId;
   modelSpeed: ModelSpeed;
+  /** User who started the run; defaults to the project owner */
+  userId?: string;
+  userEmail?: string;
   onBatchComplete?: (batchNumber: number, totalBatches: number, processedCount: number) => void;
 }
 
 export interface BatchProcessorResult {
   projectId: string;
   totalQuestions: number;
+  /** Rows answered from answer memory and not sent to the LLM */
+  totalReused: number;
   totalProcessed: number;
   totalErrors: number;
   batchCount: number;
@@ -48,7 +55,7 @@ export interface BatchProcessorResult {
 export async function processProjectBatches(
   params: BatchProcessorParams
 ): Promise<BatchProcessorResult> {
-  const { projectId, skillIds, batchSize, libraryId, modelSpeed, onBatchComplete } = params;
+  const { projectId, skillIds, batchSize, libraryId, modelSpeed, userId, userEmail, onBatchComplete } = params;
 
   // Verify project exists
   const project = await prisma.bulkProject.findUnique({
@@ -58,6 +65,8 @@ export async function processProjectBatches(
       name: true,
       fileContext: true,
       customerId: true,
+      ownerId: true,
+      teamId: true,
       _count: { select: { rows: true } },
     },
   });
@@ -67,15 +76,25 @@ export async function processProjectBatches(
   }
 
   // Fetch skills using shared utility
-  const { allSkills, librarySkills, customerSkills } = await fetchRFPSkills({
+  const fetched = await fetchRFPSkills({
     skillIds,
     libraryId,
     customerId: project.customerId,
   });
+  const { librarySkills, customerSkills, excludedSkills } = fetched;
+
+  // A pinned project answers from the pinned snapshots, not the live skills
+  const allSkills = await applyPinnedSkillVersions(projectId, fetched.allSkills);
 
   if (allSkills.length === 0) {
-    throw new Error('No valid skills found');
+    throw new Error(
+      excludedSkills.length > 0
+        ? 'No valid skills found (selected skills are not exposed to RFP answers)'
+        : 'No valid skills found'
+    );
   }
+  const usedSkillIds = allSkills.map((s) => s.id);
+  const usedSkillVersions = allSkills.map((s) => ({ id: s.id, version: s.version }));
 
   logger.info('Starting batch processing', {
     projectId,
@@ -85,25 +104,34 @@ export async function processProjectBatches(
     skillCount: allSkills.length,
     librarySkillCount: librarySkills.length,
     customerSkillCount: customerSkills.length,
+    excludedSkillIds: excludedSkills.map((s) => s.id),
     libraryId,
     modelSpeed,
   });
 
   // Fetch all questions
-  const rows = await prisma.bulkRow.findMany({
+  const allRows = await prisma.bulkRow.findMany({
     where: { projectId },
     select: {
       id: true,
       rowNumber: true,
       inputData: true,
+      outputData: true,
+      status: true,
     },
     orderBy: { rowNumber: 'asc' },
   });
 
-  if (rows.length === 0) {
+  if (allRows.length === 0) {
     throw new Error('Project has no questions');
   }
 
+  // Answers reused from approved history don't need the LLM
+  const rows = allRows.filter(
+    (row) => !(row.status === 'COMPLETED' && getReusedFrom(row.outputData))
+  );
+  const reusedCount = allRows.length - rows.length;
+
   // Update project status to PROCESSING
   await prisma.bulkProject.update({
     where: { id: projectId },
@@ -118,7 +146,8 @@ export async function processProjectBatches(
 
   logger.info('Processing batches', {
     projectId,
-    totalQuestions: rows.length,
+    totalQuestions: allRows.length,
+    reusedCount,
     batchSize,
     batchCount: batches.length,
   });
@@ -155,7 +184,12 @@ export async function processProjectBatches(
         allSkills.map((s) => ({ title: s.title, content: s.content })),
         undefined, // fallbackContent
         modelSpeed,
-        project.fileContext || undefined
+        project.fileContext || undefined,
+        {
+          userId: userId || project.ownerId,
+          userEmail,
+          teamId: project.teamId || undefined,
+        }
       );
 
       // Save answers to database
@@ -174,9 +208,12 @@ export async function processProjectBatches(
               inference: answer.inference,
               transparency: {
                 batchNumber,
-                skillIds,
+                skillIds: usedSkillIds,
+                skillVersions: usedSkillVersions,
                 skillCount: allSkills.length,
+                excludedSkills,
                 modelSpeed,
+                promptVariants: result.promptVariants,
               },
             },
             status: 'COMPLETED',
@@ -252,6 +289,11 @@ export async function processProjectBatches(
         status: 'ERROR',
         error: errorMessage,
       });
+
+      // Every later batch would be refused too - leave those rows for a later run
+      if (error instanceof TokenBudgetExceededError) {
+        break;
+      }
     }
   }
 
@@ -266,7 +308,8 @@ export async function processProjectBatches(
 
   logger.info('Batch processing complete', {
     projectId,
-    totalQuestions: rows.length,
+    totalQuestions: allRows.length,
+    totalReused: reusedCount,
     totalProcessed,
     totalErrors,
     batchCount: batches.length,
@@ -274,7 +317,8 @@ export async function processProjectBatches(
 
   return {
     projectId,
-    totalQuestions: rows.length,
+    totalQuestions: allRows.length,
+    totalReused: reusedCount,
     totalProcessed,
     totalErrors,
     batchCount: batches.length,
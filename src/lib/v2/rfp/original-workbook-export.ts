@@ -0,0 +1,159 @@
+/**
+ * Original Workbook Export
+ *
+ * Writes answers back into the customer's uploaded .xlsx instead of building a
+ * new workbook. Each answer goes into a user-selected column on the sheet/row
+ * recorded at upload time (originalSheetName / originalRowIndex). Only cell
+ * values (and optionally notes) are touched, so formatting, merged cells,
+ * data validation and untouched tabs survive the round trip.
+ */
+
+import ExcelJS from 'exceljs';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Location of the uploaded workbook, stored in BulkProject.config.sourceFile */
+export type OriginalSourceFile = {
+  s3Key: string;
+  fileName: string;
+  fileType: 'xlsx';
+};
+
+export interface AnswerPlacement {
+  sheetName: string;
+  /** 1-based worksheet row number */
+  rowIndex: number;
+  answer: string;
+  confidence?: string;
+}
+
+export interface WriteAnswersOptions {
+  /** Answer column letter per sheet; a plain string applies to every sheet */
+  answerColumns: string | Record<string, string>;
+  /** Add "Confidence: X" as a cell note on each written answer */
+  includeConfidenceNotes?: boolean;
+}
+
+export interface SkippedPlacement {
+  sheetName: string;
+  rowIndex: number;
+  reason: 'sheet_not_found' | 'no_answer_column' | 'empty_answer';
+}
+
+export interface WriteAnswersResult {
+  buffer: Buffer;
+  written: number;
+  skipped: SkippedPlacement[];
+}
+
+interface ExportableRow {
+  inputData: unknown;
+  outputData: unknown;
+  userEditedAnswer?: string | null;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const COLUMN_LETTER_PATTERN = /^[A-Z]{1,3}$/;
+
+export function isValidColumnLetter(column: string): boolean {
+  return COLUMN_LETTER_PATTERN.test(column.trim().toUpperCase());
+}
+
+function resolveAnswerColumn(
+  answerColumns: WriteAnswersOptions['answerColumns'],
+  sheetName: string
+): string | undefined {
+  const column = typeof answerColumns === 'string' ? answerColumns : answerColumns[sheetName];
+  return column && isValidColumnLetter(column) ? column.trim().toUpperCase() : undefined;
+}
+
+/**
+ * Map BulkRows to answer placements. Reviewer edits win over generated answers.
+ * Rows without a recorded sheet/row location (e.g. CSV uploads) are dropped.
+ */
+export function rowsToAnswerPlacements(rows: ExportableRow[]): AnswerPlacement[] {
+  const placements: AnswerPlacement[] = [];
+
+  for (const row of rows) {
+    const input = (row.inputData as Record<string, unknown>) || {};
+    const output = (row.outputData as Record<string, unknown>) || {};
+    const sheetName = input.originalSheetName;
+    const rowIndex = input.originalRowIndex;
+
+    if (typeof sheetName !== 'string' || typeof rowIndex !== 'number') {
+      continue;
+    }
+
+    placements.push({
+      sheetName,
+      rowIndex,
+      answer: row.userEditedAnswer || (output.response as string) || '',
+      confidence: (output.confidence as string) || undefined,
+    });
+  }
+
+  return placements;
+}
+
+// =============================================================================
+// WRITE-BACK
+// =============================================================================
+
+/**
+ * Write answers into a copy of the original workbook.
+ *
+ * When the target cell is part of a merged range the value is written to the
+ * range's master cell, which is the only cell Excel displays.
+ */
+export async function writeAnswersToWorkbook(
+  original: Buffer | ArrayBuffer,
+  placements: AnswerPlacement[],
+  options: WriteAnswersOptions
+): Promise<WriteAnswersResult> {
+  const workbook = new ExcelJS.Workbook();
+  const bufferToLoad = original instanceof ArrayBuffer ? Buffer.from(original) : original;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await workbook.xlsx.load(bufferToLoad as any);
+
+  let written = 0;
+  const skipped: SkippedPlacement[] = [];
+
+  for (const placement of placements) {
+    const { sheetName, rowIndex } = placement;
+
+    if (!placement.answer.trim()) {
+      skipped.push({ sheetName, rowIndex, reason: 'empty_answer' });
+      continue;
+    }
+
+    const worksheet = workbook.getWorksheet(sheetName);
+    if (!worksheet) {
+      skipped.push({ sheetName, rowIndex, reason: 'sheet_not_found' });
+      continue;
+    }
+
+    const column = resolveAnswerColumn(options.answerColumns, sheetName);
+    if (!column) {
+      skipped.push({ sheetName, rowIndex, reason: 'no_answer_column' });
+      continue;
+    }
+
+    const cell = worksheet.getCell(`${column}${rowIndex}`);
+    const target = cell.isMerged ? cell.master : cell;
+    target.value = placement.answer;
+
+    if (options.includeConfidenceNotes && placement.confidence) {
+      target.note = `Confidence: ${placement.confidence}`;
+    }
+
+    written++;
+  }
+
+  const output = await workbook.xlsx.writeBuffer();
+  return { buffer: Buffer.from(output), written, skipped };
+}
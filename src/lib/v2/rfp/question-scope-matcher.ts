@@ -203,6 +203,48 @@ Return ONLY the JSON array, no other text.`;
   };
 }
 
+// ============================================================================
+// Semantic Supplement
+// ============================================================================
+
+/** Embedding similarity at which an LLM-unmatched skill is promoted to medium. */
+export const SEMANTIC_PROMOTION_THRESHOLD = 0.3;
+
+/**
+ * Promote skills the LLM rated low (or skipped) when their embedding
+ * similarity to the questions is high. Catches paraphrases like
+ * "Do you support SSO?" vs a skill scoped to "SAML login" that the LLM
+ * missed because the question preview was truncated.
+ *
+ * LLM high/medium ratings are never downgraded.
+ */
+export function applySemanticMatches(
+  matches: SkillMatch[],
+  semanticScores: Array<{ skillId: string; score: number }>,
+  threshold: number = SEMANTIC_PROMOTION_THRESHOLD
+): SkillMatch[] {
+  const scoreBySkill = new Map(semanticScores.map(s => [s.skillId, s.score]));
+
+  const updated = matches.map(match => {
+    const score = scoreBySkill.get(match.skillId) ?? 0;
+    if (match.confidence !== 'low' || score < threshold) {
+      return match;
+    }
+    return {
+      ...match,
+      confidence: 'medium' as const,
+      reason: `Semantic match (${Math.round(score * 100)}% similarity)`,
+    };
+  });
+
+  const confidenceOrder: Record<SkillMatch['confidence'], number> = {
+    high: 0,
+    medium: 1,
+    low: 2,
+  };
+  return updated.sort((a, b) => confidenceOrder[a.confidence] - confidenceOrder[b.confidence]);
+}
+
 // ============================================================================
 // Response Parsing
 // ============================================================================
@@ -4,15 +4,21 @@
  * Shared utility for fetching specific library and customer skills by IDs for RFP processing.
  * Used by batch-processor when processing questions with a selected set of skills.
  * Note: preview-skills uses a different pattern (fetches ALL library skills for matching).
+ *
+ * Skills not exposed to 'rfp' (see exposure-gate.ts) are dropped and reported
+ * in `excludedSkills`.
  */
 
 import prisma from '@/lib/prisma';
 import type { LibraryId } from '@/types/v2';
+import { gateSkillsForChannel, type SkillExclusion } from '@/lib/v2/skills/exposure-gate';
 
 export interface SkillData {
   id: string;
   title: string;
   content: string;
+  /** BuildingBlock.version the content was read at */
+  version: number;
 }
 
 export interface FetchSkillsParams {
@@ -25,6 +31,8 @@ export interface FetchSkillsResult {
   librarySkills: SkillData[];
   customerSkills: SkillData[];
   allSkills: SkillData[];
+  /** Requested skills withheld because they are not exposed to RFP answers */
+  excludedSkills: SkillExclusion[];
 }
 
 /**
@@ -47,6 +55,8 @@ export async function fetchRFPSkills(
       id: true,
       title: true,
       content: true,
+      version: true,
+      attributes: true,
     },
   });
 
@@ -64,19 +74,33 @@ export async function fetchRFPSkills(
         id: true,
         title: true,
         content: true,
+        version: true,
+        attributes: true,
       },
     });
   }
 
+  // Drop skills that are not exposed to RFP answers
+  const libraryGate = gateSkillsForChannel(librarySkills, 'rfp');
+  const customerGate = gateSkillsForChannel(customerSkills, 'rfp');
+
+  const toSkillData = (s: (typeof librarySkills)[number]): SkillData => ({
+    id: s.id,
+    title: s.title,
+    content: s.content || '',
+    version: s.version,
+  });
+
   // Combine for processing (map to correct type)
   const allSkills: SkillData[] = [
-    ...librarySkills.map(s => ({ id: s.id, title: s.title, content: s.content || '' })),
-    ...customerSkills.map(s => ({ id: s.id, title: s.title, content: s.content || '' })),
+    ...libraryGate.allowed.map(toSkillData),
+    ...customerGate.allowed.map(toSkillData),
   ];
 
   return {
-    librarySkills: librarySkills.map(s => ({ id: s.id, title: s.title, content: s.content || '' })),
-    customerSkills: customerSkills.map(s => ({ id: s.id, title: s.title, content: s.content || '' })),
+    librarySkills: libraryGate.allowed.map(toSkillData),
+    customerSkills: customerGate.allowed.map(toSkillData),
     allSkills,
+    excludedSkills: [...libraryGate.excluded, ...customerGate.excluded],
   };
 }
@@ -0,0 +1,220 @@
+/**
+ * Skill Version Pins
+ *
+ * Ties an RFP project's answers to the skill versions that produced them.
+ * Each answered row records `transparency.skillVersions`; pinning turns those
+ * into ProjectSkillPin rows pointing at BuildingBlockVersion snapshots. While
+ * a project is pinned, re-processing answers from the pinned snapshots rather
+ * than the live skills, and auditors can read exactly what each skill said.
+ *
+ * Projects are pinned automatically when finalized.
+ */
+
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import { recordBlockVersion } from '@/lib/v2/blocks/block-version-service';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
+import type { SkillData } from './skill-fetcher';
+
+export interface SkillVersionRef {
+  id: string;
+  /** Missing for rows answered before versions were recorded */
+  version?: number;
+}
+
+export interface ProjectSkillPinSummary {
+  blockId: string;
+  version: number;
+  blockVersionId: string;
+  title: string;
+  changeType: string;
+  versionCreatedAt: Date;
+  /** The skill's live version, or null if the skill has since been deleted */
+  currentVersion: number | null;
+  pinnedBy: string | null;
+  pinnedAt: Date;
+}
+
+/**
+ * Skills an answered row used, from its transparency metadata.
+ */
+export function getRowSkillVersions(outputData: Prisma.JsonValue | null): SkillVersionRef[] {
+  const transparency = (outputData as Record<string, unknown> | null)?.transparency as
+    | { skillVersions?: unknown; skillIds?: unknown }
+    | undefined;
+  if (!transparency) return [];
+
+  if (Array.isArray(transparency.skillVersions)) {
+    return transparency.skillVersions.filter(
+      (ref): ref is SkillVersionRef =>
+        typeof ref === 'object' && ref !== null && typeof (ref as SkillVersionRef).id === 'string'
+    );
+  }
+
+  if (Array.isArray(transparency.skillIds)) {
+    return transparency.skillIds.filter((id): id is string => typeof id === 'string').map((id) => ({ id }));
+  }
+
+  return [];
+}
+
+/**
+ * Collapse row references to one version per skill. When rows were answered
+ * at different versions the latest wins; null means "not recorded".
+ */
+export function resolveUsedSkillVersions(refs: SkillVersionRef[]): Map<string, number | null> {
+  const used = new Map<string, number | null>();
+  for (const ref of refs) {
+    const previous = used.get(ref.id);
+    const version = typeof ref.version === 'number' ? ref.version : null;
+    if (previous === undefined || (version !== null && (previous === null || version > previous))) {
+      used.set(ref.id, version);
+    }
+  }
+  return used;
+}
+
+/**
+ * Pin a project to the skill versions its completed answers used, replacing
+ * any existing pins. Skills without a recorded version are pinned at their
+ * current version.
+ */
+export async function pinProjectSkillVersions(
+  projectId: string,
+  actorId?: string
+): Promise<ProjectSkillPinSummary[]> {
+  const rows = await prisma.bulkRow.findMany({
+    where: { projectId, status: 'COMPLETED' },
+    select: { outputData: true },
+  });
+  const used = resolveUsedSkillVersions(rows.flatMap((row) => getRowSkillVersions(row.outputData)));
+
+  const blocks = await prisma.buildingBlock.findMany({
+    where: { id: { in: Array.from(used.keys()) } },
+  });
+  const blocksById = new Map(blocks.map((block) => [block.id, block]));
+
+  const pins: { blockId: string; blockVersionId: string }[] = [];
+  for (const [blockId, version] of used) {
+    const block = blocksById.get(blockId);
+    const wanted = version ?? block?.version;
+    if (wanted === undefined) continue;
+
+    let snapshot = await prisma.buildingBlockVersion.findUnique({
+      where: { blockId_version: { blockId, version: wanted } },
+      select: { id: true },
+    });
+    if (!snapshot && block && block.version === wanted) {
+      snapshot = await recordBlockVersion(block, 'baseline');
+    }
+    if (snapshot) {
+      pins.push({ blockId, blockVersionId: snapshot.id });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.projectSkillPin.deleteMany({ where: { projectId } }),
+    prisma.projectSkillPin.createMany({
+      data: pins.map((pin) => ({ projectId, ...pin, pinnedBy: actorId ?? null })),
+    }),
+  ]);
+
+  const summaries = await listProjectSkillPins(projectId);
+  const project = await prisma.bulkProject.findUnique({
+    where: { id: projectId },
+    select: { name: true, teamId: true },
+  });
+
+  await recordAuditEvent({
+    eventType: 'project.skills_pinned',
+    actorId,
+    targetType: 'project',
+    targetId: projectId,
+    teamId: project?.teamId,
+    data: {
+      name: project?.name,
+      skills: summaries.map((pin) => ({ blockId: pin.blockId, version: pin.version })),
+    },
+  });
+
+  return summaries;
+}
+
+/**
+ * Remove a project's pins so re-processing uses the live skills again.
+ */
+export async function unpinProjectSkillVersions(projectId: string, actorId?: string): Promise<number> {
+  const { count } = await prisma.projectSkillPin.deleteMany({ where: { projectId } });
+  if (count === 0) return 0;
+
+  const project = await prisma.bulkProject.findUnique({
+    where: { id: projectId },
+    select: { name: true, teamId: true },
+  });
+
+  await recordAuditEvent({
+    eventType: 'project.skills_unpinned',
+    actorId,
+    targetType: 'project',
+    targetId: projectId,
+    teamId: project?.teamId,
+    data: { name: project?.name, count },
+  });
+
+  return count;
+}
+
+/**
+ * A project's pins with the pinned snapshot and the skill's live version.
+ */
+export async function listProjectSkillPins(projectId: string): Promise<ProjectSkillPinSummary[]> {
+  const pins = await prisma.projectSkillPin.findMany({
+    where: { projectId },
+    include: {
+      blockVersion: {
+        select: { id: true, version: true, title: true, changeType: true, createdAt: true },
+      },
+    },
+    orderBy: { pinnedAt: 'asc' },
+  });
+
+  const blocks =
+    pins.length > 0
+      ? await prisma.buildingBlock.findMany({
+          where: { id: { in: pins.map((pin) => pin.blockId) } },
+          select: { id: true, version: true },
+        })
+      : [];
+  const currentVersions = new Map(blocks.map((block) => [block.id, block.version]));
+
+  return pins
+    .map((pin) => ({
+      blockId: pin.blockId,
+      version: pin.blockVersion.version,
+      blockVersionId: pin.blockVersion.id,
+      title: pin.blockVersion.title,
+      changeType: pin.blockVersion.changeType,
+      versionCreatedAt: pin.blockVersion.createdAt,
+      currentVersion: currentVersions.get(pin.blockId) ?? null,
+      pinnedBy: pin.pinnedBy,
+      pinnedAt: pin.pinnedAt,
+    }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Swap live skill content for the pinned snapshots, if the project is pinned.
+ */
+export async function applyPinnedSkillVersions(projectId: string, skills: SkillData[]): Promise<SkillData[]> {
+  const pins = await prisma.projectSkillPin.findMany({
+    where: { projectId, blockId: { in: skills.map((skill) => skill.id) } },
+    include: { blockVersion: { select: { version: true, title: true, content: true } } },
+  });
+  if (pins.length === 0) return skills;
+
+  const pinsByBlock = new Map(pins.map((pin) => [pin.blockId, pin.blockVersion]));
+  return skills.map((skill) => {
+    const pinned = pinsByBlock.get(skill.id);
+    return pinned ? { ...skill, title: pinned.title, content: pinned.content, version: pinned.version } : skill;
+  });
+}
@@ -13,6 +13,7 @@ export interface ParsedQuestion {
   context?: string;
   category?: string;
   originalRowIndex: number; // Original row number in the file
+  sheetName?: string; // Worksheet the question came from (Excel only)
 }
 
 export interface ClusterConfig {
@@ -344,6 +345,7 @@ export class StructuredUploadParser {
             context,
             category: category || currentSection?.category,
             originalRowIndex: rowNumber,
+            sheetName: worksheet.name,
           };
 
           // Add to current section or tab
@@ -558,11 +560,13 @@ export class StructuredUploadParser {
       // Convert column letter to 0-based index (A -> 0, B -> 1, etc.)
       const questionColIndex = columnLetterToIndex(questionColumn);
 
-      // Extract all rows
+      // Extract all rows, keeping worksheet row numbers (eachRow skips blank rows)
       const rawRows: unknown[][] = [];
-      worksheet.eachRow((row) => {
+      const rowNumbers: number[] = [];
+      worksheet.eachRow((row, rowNumber) => {
         const values = (row.values as unknown[]).slice(1);
         rawRows.push(values);
+        rowNumbers.push(rowNumber);
       });
 
       if (rawRows.length === 0) {
@@ -589,7 +593,8 @@ export class StructuredUploadParser {
 
         sheetQuestions.push({
           question: questionText,
-          originalRowIndex: i + 1, // 1-based row number
+          originalRowIndex: rowNumbers[i], // 1-based worksheet row number
+          sheetName: worksheet.name,
         });
 
         totalQuestions++;
@@ -0,0 +1,5 @@
+/**
+ * SCIM Exports
+ */
+export * from './scim-service';
+export * from './scim-route';
@@ -0,0 +1,82 @@
+/**
+ * Shared request handling for the SCIM 2.0 routes under /api/scim/v2.
+ *
+ * SCIM clients authenticate with an API key carrying the `scim` scope.
+ * Unlike requireApiAuth alone, a browser session is never accepted.
+ */
+
+import { NextResponse } from 'next/server';
+import { requireApiAuth } from '@/lib/apiAuth';
+import { logger } from '@/lib/logger';
+import { parseBearerApiKey } from '@/lib/v2/api-keys';
+import { SCIM_CONTENT_TYPE, ScimError, toScimError } from './scim-service';
+
+export interface ScimRequestContext {
+  /** Base URL for resource locations, e.g. https://host/api/scim/v2 */
+  baseUrl: string;
+  /** Owner of the API key, recorded as the audit actor */
+  actorId: string;
+}
+
+export function scimResponse(body: unknown, status = 200): NextResponse {
+  return NextResponse.json(body, { status, headers: { 'Content-Type': SCIM_CONTENT_TYPE } });
+}
+
+function scimErrorResponse(error: ScimError): NextResponse {
+  return scimResponse(toScimError(error), error.status);
+}
+
+/**
+ * Authenticate a SCIM request and run the handler, rendering failures as
+ * SCIM error responses.
+ */
+export async function handleScimRequest(
+  request: Request,
+  handler: (context: ScimRequestContext) => Promise<NextResponse>
+): Promise<NextResponse> {
+  if (!parseBearerApiKey(request.headers.get('authorization'))) {
+    return scimErrorResponse(new ScimError(401, 'A bearer API key with the scim scope is required'));
+  }
+
+  const auth = await requireApiAuth(request, 'scim');
+  if (!auth.authorized) {
+    const body = await auth.response.json().catch(() => null);
+    return scimErrorResponse(new ScimError(auth.response.status, body?.error || 'Unauthorized'));
+  }
+
+  const url = new URL(request.url);
+  try {
+    return await handler({ baseUrl: `${url.origin}/api/scim/v2`, actorId: auth.session.user.id });
+  } catch (error) {
+    if (error instanceof ScimError) {
+      return scimErrorResponse(error);
+    }
+    logger.error('SCIM request failed', error, { method: request.method, path: url.pathname });
+    return scimErrorResponse(new ScimError(500, 'Internal server error'));
+  }
+}
+
+/**
+ * Read a SCIM JSON body (application/scim+json or application/json).
+ */
+export async function readScimBody<T>(request: Request): Promise<T> {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    throw new ScimError(400, 'Request body must be valid JSON', 'invalidValue');
+  }
+}
+
+/**
+ * startIndex / count query params.
+ */
+export function getScimListParams(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const startIndex = parseInt(searchParams.get('startIndex') || '', 10);
+  const count = parseInt(searchParams.get('count') || '', 10);
+  return {
+    filter: searchParams.get('filter'),
+    startIndex: Number.isNaN(startIndex) ? undefined : startIndex,
+    count: Number.isNaN(count) ? undefined : count,
+  };
+}
@@ -0,0 +1,769 @@
+/**
+ * ScimService - SCIM 2.0 user and group provisioning (RFC 7643 / 7644)
+ *
+ * Lets the identity provider (Okta) create, update and deactivate users and
+ * push group membership. Users map to the User table; groups map to
+ * DirectoryGroup. Group membership feeds the group sync (see
+ * src/lib/v2/teams/group-sync-service.ts), which turns mapped groups into
+ * team memberships.
+ *
+ * Deprovisioning (active=false or DELETE) is a soft delete: the user row is
+ * kept for attribution, sign-in is refused, every team membership is
+ * removed and the user's API keys are revoked.
+ */
+
+import type { DirectoryGroup, User } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { addToDefaultTeam } from '@/lib/auth-v2';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
+import { reconcileUserMemberships, reconcileUsersMemberships } from '@/lib/v2/teams/group-sync-service';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+} as const;
+
+export const DEFAULT_SCIM_PAGE_SIZE = 100;
+export const MAX_SCIM_PAGE_SIZE = 200;
+
+export interface ScimUserInput {
+  userName?: string;
+  externalId?: string;
+  displayName?: string;
+  name?: { formatted?: string; givenName?: string; familyName?: string };
+  emails?: { value?: string; primary?: boolean }[];
+  active?: boolean;
+}
+
+export interface ScimGroupInput {
+  displayName?: string;
+  externalId?: string;
+  members?: { value?: string }[];
+}
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+export interface ScimListQuery {
+  filter?: string | null;
+  startIndex?: number;
+  count?: number;
+}
+
+export interface ScimListResponse<T> {
+  schemas: [typeof SCIM_SCHEMAS.listResponse];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+export interface ScimUser {
+  schemas: [typeof SCIM_SCHEMAS.user];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name: { formatted: string; givenName: string; familyName: string };
+  displayName: string;
+  emails: { value: string; primary: true; type: 'work' }[];
+  active: boolean;
+  groups: { value: string; display: string }[];
+  meta: ScimMeta;
+}
+
+export interface ScimGroup {
+  schemas: [typeof SCIM_SCHEMAS.group];
+  id: string;
+  externalId?: string;
+  displayName: string;
+  members: { value: string; display?: string }[];
+  meta: ScimMeta;
+}
+
+interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created: string;
+  lastModified: string;
+  location: string;
+}
+
+/**
+ * SCIM protocol error, rendered as an urn:...:Error response.
+ */
+export class ScimError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly scimType?: 'uniqueness' | 'invalidFilter' | 'invalidValue' | 'invalidPath' | 'noTarget'
+  ) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
+
+// =============================================================================
+// REQUEST PARSING
+// =============================================================================
+
+/**
+ * Parse the `attribute eq "value"` filters identity providers send.
+ * Other SCIM filter expressions are rejected with invalidFilter.
+ */
+export function parseScimFilter(filter: string | null | undefined): { attribute: string; value: string } | null {
+  if (!filter?.trim()) return null;
+
+  const match = filter.trim().match(/^([\w.]+)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i);
+  if (!match) {
+    throw new ScimError(400, `Unsupported filter: ${filter}`, 'invalidFilter');
+  }
+  return { attribute: match[1], value: match[2].replace(/\\(.)/g, '$1') };
+}
+
+function getPage(query: ScimListQuery): { startIndex: number; count: number } {
+  const startIndex = Math.max(query.startIndex || 1, 1);
+  const count = Math.min(Math.max(query.count ?? DEFAULT_SCIM_PAGE_SIZE, 0), MAX_SCIM_PAGE_SIZE);
+  return { startIndex, count };
+}
+
+function getUserEmail(input: ScimUserInput): string | undefined {
+  const email = input.userName?.includes('@')
+    ? input.userName
+    : (input.emails?.find((entry) => entry.primary) ?? input.emails?.[0])?.value;
+  return email?.trim().toLowerCase() || undefined;
+}
+
+function getUserName(input: ScimUserInput): string | undefined {
+  const parts = [input.name?.givenName, input.name?.familyName].filter(Boolean);
+  return input.displayName?.trim() || input.name?.formatted?.trim() || parts.join(' ').trim() || undefined;
+}
+
+/**
+ * Member IDs from a `members[value eq "id"]` path.
+ */
+function getPathMemberId(path: string): string | null {
+  const match = path.match(/^members\[value eq "([^"]+)"\]$/i);
+  return match ? match[1] : null;
+}
+
+function getMemberIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((member) => (member as { value?: unknown })?.value)
+    .filter((id): id is string => typeof id === 'string');
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+function splitName(name: string): { givenName: string; familyName: string } {
+  const [givenName, ...rest] = name.trim().split(/\s+/);
+  return { givenName: givenName ?? '', familyName: rest.join(' ') };
+}
+
+export function toScimUser(
+  user: Pick<User, 'id' | 'email' | 'name' | 'active' | 'scimExternalId' | 'createdAt' | 'updatedAt'>,
+  groups: Pick<DirectoryGroup, 'id' | 'displayName'>[],
+  baseUrl: string
+): ScimUser {
+  const email = user.email ?? '';
+  const name = user.name ?? email;
+
+  return {
+    schemas: [SCIM_SCHEMAS.user],
+    id: user.id,
+    ...(user.scimExternalId && { externalId: user.scimExternalId }),
+    userName: email,
+    name: { formatted: name, ...splitName(name) },
+    displayName: name,
+    emails: email ? [{ value: email, primary: true, type: 'work' }] : [],
+    active: user.active,
+    groups: groups.map((group) => ({ value: group.id, display: group.displayName })),
+    meta: {
+      resourceType: 'User',
+      created: user.createdAt.toISOString(),
+      lastModified: user.updatedAt.toISOString(),
+      location: `${baseUrl}/Users/${user.id}`,
+    },
+  };
+}
+
+export function toScimGroup(
+  group: Pick<DirectoryGroup, 'id' | 'displayName' | 'externalId' | 'createdAt' | 'updatedAt'>,
+  members: { id: string; email: string | null }[],
+  baseUrl: string
+): ScimGroup {
+  return {
+    schemas: [SCIM_SCHEMAS.group],
+    id: group.id,
+    ...(group.externalId && { externalId: group.externalId }),
+    displayName: group.displayName,
+    members: members.map((member) => ({ value: member.id, ...(member.email && { display: member.email }) })),
+    meta: {
+      resourceType: 'Group',
+      created: group.createdAt.toISOString(),
+      lastModified: group.updatedAt.toISOString(),
+      location: `${baseUrl}/Groups/${group.id}`,
+    },
+  };
+}
+
+export function toScimError(error: ScimError) {
+  return {
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(error.status),
+    ...(error.scimType && { scimType: error.scimType }),
+    detail: error.message,
+  };
+}
+
+export function getServiceProviderConfig(baseUrl: string) {
+  return {
+    schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_SCIM_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'API key',
+        description: 'Bearer API key with the scim scope',
+        primary: true,
+      },
+    ],
+    meta: { resourceType: 'ServiceProviderConfig', location: `${baseUrl}/ServiceProviderConfig` },
+  };
+}
+
+// =============================================================================
+// USERS
+// =============================================================================
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  active: true,
+  scimExternalId: true,
+  createdAt: true,
+  updatedAt: true,
+  directoryGroups: { select: { group: { select: { id: true, displayName: true } } } },
+} as const;
+
+type UserRow = Pick<User, 'id' | 'email' | 'name' | 'active' | 'scimExternalId' | 'createdAt' | 'updatedAt'> & {
+  directoryGroups: { group: Pick<DirectoryGroup, 'id' | 'displayName'> }[];
+};
+
+function formatUser(user: UserRow, baseUrl: string): ScimUser {
+  return toScimUser(
+    user,
+    user.directoryGroups.map((member) => member.group),
+    baseUrl
+  );
+}
+
+async function findUserOrThrow(id: string): Promise<UserRow> {
+  const user = await prisma.user.findUnique({ where: { id }, select: userSelect });
+  if (!user) throw new ScimError(404, `User ${id} not found`);
+  return user;
+}
+
+export async function listScimUsers(query: ScimListQuery, baseUrl: string): Promise<ScimListResponse<ScimUser>> {
+  const filter = parseScimFilter(query.filter);
+  const { startIndex, count } = getPage(query);
+
+  let where = {};
+  if (filter) {
+    const attribute = filter.attribute.toLowerCase();
+    if (attribute === 'username' || attribute === 'emails.value') {
+      where = { email: filter.value.toLowerCase() };
+    } else if (attribute === 'externalid') {
+      where = { scimExternalId: filter.value };
+    } else {
+      throw new ScimError(400, `Filtering on ${filter.attribute} is not supported`, 'invalidFilter');
+    }
+  }
+
+  const [users, totalResults] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: userSelect,
+      orderBy: { createdAt: 'asc' },
+      skip: startIndex - 1,
+      take: count,
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults,
+    startIndex,
+    itemsPerPage: users.length,
+    Resources: users.map((user) => formatUser(user, baseUrl)),
+  };
+}
+
+export async function getScimUser(id: string, baseUrl: string): Promise<ScimUser> {
+  return formatUser(await findUserOrThrow(id), baseUrl);
+}
+
+export async function createScimUser(input: ScimUserInput, baseUrl: string, actorId?: string): Promise<ScimUser> {
+  const email = getUserEmail(input);
+  if (!email) {
+    throw new ScimError(400, 'userName or a primary email is required', 'invalidValue');
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+  if (existing) {
+    throw new ScimError(409, `User ${email} already exists`, 'uniqueness');
+  }
+
+  const active = input.active ?? true;
+  const user = await prisma.user.create({
+    data: {
+      email,
+      name: getUserName(input) ?? email.split('@')[0],
+      scimExternalId: input.externalId || null,
+      active,
+      preferences: {},
+    },
+    select: userSelect,
+  });
+
+  if (active) {
+    await addToDefaultTeam(user.id, email);
+  }
+
+  await recordAuditEvent({
+    eventType: 'user.provisioned',
+    actorId,
+    targetType: 'user',
+    targetId: user.id,
+    data: { email, active, externalId: input.externalId ?? null },
+  });
+
+  return formatUser(user, baseUrl);
+}
+
+/**
+ * Apply changed attributes to a user, handling activation changes.
+ */
+async function applyUserChanges(
+  id: string,
+  changes: { email?: string; name?: string; scimExternalId?: string | null; active?: boolean },
+  actorId?: string
+): Promise<UserRow> {
+  const previous = await findUserOrThrow(id);
+
+  if (changes.email && changes.email !== previous.email) {
+    const conflict = await prisma.user.findUnique({ where: { email: changes.email }, select: { id: true } });
+    if (conflict) throw new ScimError(409, `User ${changes.email} already exists`, 'uniqueness');
+  }
+
+  await prisma.user.update({
+    where: { id },
+    data: {
+      ...(changes.email !== undefined && { email: changes.email }),
+      ...(changes.name !== undefined && { name: changes.name }),
+      ...(changes.scimExternalId !== undefined && { scimExternalId: changes.scimExternalId }),
+      ...(changes.active !== undefined && { active: changes.active }),
+    },
+  });
+
+  const fields = Object.keys(changes).filter(
+    (key) => changes[key as keyof typeof changes] !== previous[key as keyof UserRow]
+  );
+
+  if (changes.active === false && previous.active) {
+    const revoked = await prisma.apiKey.updateMany({
+      where: { userId: id, status: 'ACTIVE' },
+      data: { status: 'REVOKED', revokedAt: new Date() },
+    });
+    await recordAuditEvent({
+      eventType: 'user.deactivated',
+      actorId,
+      targetType: 'user',
+      targetId: id,
+      data: { email: previous.email, revokedApiKeys: revoked.count },
+    });
+    await reconcileUserMemberships(id, 'scim', actorId);
+  } else if (changes.active === true && !previous.active) {
+    await recordAuditEvent({
+      eventType: 'user.reactivated',
+      actorId,
+      targetType: 'user',
+      targetId: id,
+      data: { email: previous.email },
+    });
+    await addToDefaultTeam(id, changes.email ?? previous.email ?? '');
+    await reconcileUserMemberships(id, 'scim', actorId);
+  }
+
+  const updatedFields = fields.filter((field) => field !== 'active');
+  if (updatedFields.length > 0) {
+    await recordAuditEvent({
+      eventType: 'user.updated',
+      actorId,
+      targetType: 'user',
+      targetId: id,
+      data: { fields: updatedFields },
+    });
+  }
+
+  return findUserOrThrow(id);
+}
+
+export async function replaceScimUser(
+  id: string,
+  input: ScimUserInput,
+  baseUrl: string,
+  actorId?: string
+): Promise<ScimUser> {
+  const user = await applyUserChanges(
+    id,
+    {
+      email: getUserEmail(input),
+      name: getUserName(input),
+      scimExternalId: input.externalId ?? null,
+      active: input.active ?? true,
+    },
+    actorId
+  );
+  return formatUser(user, baseUrl);
+}
+
+export async function patchScimUser(
+  id: string,
+  operations: ScimPatchOperation[],
+  baseUrl: string,
+  actorId?: string
+): Promise<ScimUser> {
+  const input: ScimUserInput = {};
+
+  for (const operation of operations) {
+    const op = operation.op?.toLowerCase();
+    if (op !== 'replace' && op !== 'add') continue;
+
+    const values: Record<string, unknown> = operation.path
+      ? { [operation.path]: operation.value }
+      : ((operation.value as Record<string, unknown>) ?? {});
+
+    for (const [path, value] of Object.entries(values)) {
+      switch (path.toLowerCase()) {
+        case 'active':
+          input.active = value === true || value === 'true' || value === 'True';
+          break;
+        case 'username':
+          input.userName = String(value);
+          break;
+        case 'displayname':
+          input.displayName = String(value);
+          break;
+        case 'externalid':
+          input.externalId = String(value);
+          break;
+        case 'name':
+          input.name = { ...input.name, ...(value as ScimUserInput['name']) };
+          break;
+        case 'name.givenname':
+          input.name = { ...input.name, givenName: String(value) };
+          break;
+        case 'name.familyname':
+          input.name = { ...input.name, familyName: String(value) };
+          break;
+        case 'name.formatted':
+          input.name = { ...input.name, formatted: String(value) };
+          break;
+        default:
+          // Attributes we do not store (phone numbers, title, ...) are ignored
+          break;
+      }
+    }
+  }
+
+  const user = await applyUserChanges(
+    id,
+    {
+      ...(input.userName !== undefined && { email: getUserEmail({ userName: input.userName }) }),
+      ...((input.displayName !== undefined || input.name !== undefined) && { name: getUserName(input) }),
+      ...(input.externalId !== undefined && { scimExternalId: input.externalId || null }),
+      ...(input.active !== undefined && { active: input.active }),
+    },
+    actorId
+  );
+  return formatUser(user, baseUrl);
+}
+
+/**
+ * DELETE deprovisions rather than removing the row, so authored content
+ * keeps its attribution.
+ */
+export async function deleteScimUser(id: string, actorId?: string): Promise<void> {
+  await applyUserChanges(id, { active: false }, actorId);
+}
+
+// =============================================================================
+// GROUPS
+// =============================================================================
+
+const groupInclude = {
+  members: { select: { user: { select: { id: true, email: true } } } },
+} as const;
+
+type GroupRow = DirectoryGroup & { members: { user: { id: string; email: string | null } }[] };
+
+function formatGroup(group: GroupRow, baseUrl: string, excludeMembers = false): ScimGroup {
+  return toScimGroup(group, excludeMembers ? [] : group.members.map((member) => member.user), baseUrl);
+}
+
+async function findGroupOrThrow(id: string): Promise<GroupRow> {
+  const group = await prisma.directoryGroup.findUnique({ where: { id }, include: groupInclude });
+  if (!group) throw new ScimError(404, `Group ${id} not found`);
+  return group;
+}
+
+async function getExistingUserIds(ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const users = await prisma.user.findMany({ where: { id: { in: ids } }, select: { id: true } });
+  return users.map((user) => user.id);
+}
+
+/**
+ * Add and remove group members, then reconcile everyone affected.
+ */
+async function changeGroupMembers(
+  groupId: string,
+  changes: { add?: string[]; remove?: string[]; replace?: string[] },
+  actorId?: string
+): Promise<void> {
+  const current = (
+    await prisma.directoryGroupMember.findMany({ where: { groupId }, select: { userId: true } })
+  ).map((member) => member.userId);
+
+  let toAdd = await getExistingUserIds(changes.replace ?? changes.add ?? []);
+  let toRemove = changes.replace
+    ? current.filter((userId) => !toAdd.includes(userId))
+    : (changes.remove ?? []).filter((userId) => current.includes(userId));
+  toAdd = toAdd.filter((userId) => !current.includes(userId));
+  toRemove = Array.from(new Set(toRemove));
+
+  if (toAdd.length === 0 && toRemove.length === 0) return;
+
+  await prisma.$transaction([
+    prisma.directoryGroupMember.createMany({
+      data: toAdd.map((userId) => ({ groupId, userId })),
+      skipDuplicates: true,
+    }),
+    prisma.directoryGroupMember.deleteMany({
+      where: { groupId, userId: { in: toRemove } },
+    }),
+  ]);
+
+  await reconcileUsersMemberships([...toAdd, ...toRemove], 'scim', actorId);
+}
+
+export async function listScimGroups(
+  query: ScimListQuery & { excludeMembers?: boolean },
+  baseUrl: string
+): Promise<ScimListResponse<ScimGroup>> {
+  const filter = parseScimFilter(query.filter);
+  const { startIndex, count } = getPage(query);
+
+  let where = {};
+  if (filter) {
+    const attribute = filter.attribute.toLowerCase();
+    if (attribute === 'displayname') {
+      where = { displayName: filter.value };
+    } else if (attribute === 'externalid') {
+      where = { externalId: filter.value };
+    } else {
+      throw new ScimError(400, `Filtering on ${filter.attribute} is not supported`, 'invalidFilter');
+    }
+  }
+
+  const [groups, totalResults] = await Promise.all([
+    prisma.directoryGroup.findMany({
+      where,
+      include: groupInclude,
+      orderBy: { displayName: 'asc' },
+      skip: startIndex - 1,
+      take: count,
+    }),
+    prisma.directoryGroup.count({ where }),
+  ]);
+
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults,
+    startIndex,
+    itemsPerPage: groups.length,
+    Resources: groups.map((group) => formatGroup(group, baseUrl, query.excludeMembers)),
+  };
+}
+
+export async function getScimGroup(id: string, baseUrl: string, excludeMembers = false): Promise<ScimGroup> {
+  return formatGroup(await findGroupOrThrow(id), baseUrl, excludeMembers);
+}
+
+/**
+ * Create a group. A group first seen in an Okta sign-in claim has no
+ * externalId yet and is adopted instead of conflicting.
+ */
+export async function createScimGroup(input: ScimGroupInput, baseUrl: string, actorId?: string): Promise<ScimGroup> {
+  const displayName = input.displayName?.trim();
+  if (!displayName) {
+    throw new ScimError(400, 'displayName is required', 'invalidValue');
+  }
+
+  const existing = await prisma.directoryGroup.findUnique({ where: { displayName } });
+  if (existing?.externalId) {
+    throw new ScimError(409, `Group ${displayName} already exists`, 'uniqueness');
+  }
+
+  const group = existing
+    ? await prisma.directoryGroup.update({
+        where: { id: existing.id },
+        data: { externalId: input.externalId || null },
+      })
+    : await prisma.directoryGroup.create({
+        data: { displayName, externalId: input.externalId || null },
+      });
+
+  await recordAuditEvent({
+    eventType: 'directory_group.created',
+    actorId,
+    targetType: 'directory_group',
+    targetId: group.id,
+    data: { displayName, externalId: input.externalId ?? null, adopted: Boolean(existing) },
+  });
+
+  await changeGroupMembers(group.id, { replace: getMemberIds(input.members) }, actorId);
+
+  return formatGroup(await findGroupOrThrow(group.id), baseUrl);
+}
+
+/**
+ * Rename a group. Mappings follow the group so its members keep their teams.
+ */
+async function renameGroup(group: DirectoryGroup, displayName: string, actorId?: string): Promise<void> {
+  if (displayName === group.displayName) return;
+
+  const conflict = await prisma.directoryGroup.findUnique({ where: { displayName } });
+  if (conflict) {
+    throw new ScimError(409, `Group ${displayName} already exists`, 'uniqueness');
+  }
+
+  await prisma.$transaction([
+    prisma.directoryGroup.update({ where: { id: group.id }, data: { displayName } }),
+    prisma.groupTeamMapping.updateMany({
+      where: { groupName: group.displayName },
+      data: { groupName: displayName },
+    }),
+  ]);
+
+  await recordAuditEvent({
+    eventType: 'directory_group.updated',
+    actorId,
+    targetType: 'directory_group',
+    targetId: group.id,
+    data: { displayName: { from: group.displayName, to: displayName } },
+  });
+}
+
+export async function replaceScimGroup(
+  id: string,
+  input: ScimGroupInput,
+  baseUrl: string,
+  actorId?: string
+): Promise<ScimGroup> {
+  const group = await findGroupOrThrow(id);
+
+  if (input.displayName?.trim()) {
+    await renameGroup(group, input.displayName.trim(), actorId);
+  }
+  if (input.externalId !== undefined && input.externalId !== group.externalId) {
+    await prisma.directoryGroup.update({ where: { id }, data: { externalId: input.externalId || null } });
+  }
+  await changeGroupMembers(id, { replace: getMemberIds(input.members) }, actorId);
+
+  return formatGroup(await findGroupOrThrow(id), baseUrl);
+}
+
+export async function patchScimGroup(
+  id: string,
+  operations: ScimPatchOperation[],
+  baseUrl: string,
+  actorId?: string
+): Promise<ScimGroup> {
+  const group = await findGroupOrThrow(id);
+
+  for (const operation of operations) {
+    const op = operation.op?.toLowerCase();
+    const path = operation.path?.trim() ?? '';
+
+    if (op === 'add' && path.toLowerCase() === 'members') {
+      await changeGroupMembers(id, { add: getMemberIds(operation.value) }, actorId);
+    } else if (op === 'remove' && path.toLowerCase().startsWith('members')) {
+      const memberId = getPathMemberId(path);
+      const ids = memberId ? [memberId] : getMemberIds(operation.value);
+      if (ids.length === 0 && path.toLowerCase() !== 'members') {
+        throw new ScimError(400, `Unsupported path: ${path}`, 'invalidPath');
+      }
+      // "remove members" without a filter or value clears the group
+      await changeGroupMembers(id, ids.length > 0 ? { remove: ids } : { replace: [] }, actorId);
+    } else if (op === 'replace' || op === 'add') {
+      const values: Record<string, unknown> = path
+        ? { [path]: operation.value }
+        : ((operation.value as Record<string, unknown>) ?? {});
+
+      for (const [key, value] of Object.entries(values)) {
+        const attribute = key.toLowerCase();
+        if (attribute === 'displayname' && typeof value === 'string' && value.trim()) {
+          await renameGroup(group, value.trim(), actorId);
+        } else if (attribute === 'externalid') {
+          await prisma.directoryGroup.update({ where: { id }, data: { externalId: value ? String(value) : null } });
+        } else if (attribute === 'members') {
+          await changeGroupMembers(id, { replace: getMemberIds(value) }, actorId);
+        }
+      }
+    } else {
+      throw new ScimError(400, `Unsupported operation: ${operation.op} ${path}`.trim(), 'invalidPath');
+    }
+  }
+
+  return formatGroup(await findGroupOrThrow(id), baseUrl);
+}
+
+export async function deleteScimGroup(id: string, actorId?: string): Promise<void> {
+  const group = await findGroupOrThrow(id);
+  const memberIds = group.members.map((member) => member.user.id);
+
+  await prisma.directoryGroup.delete({ where: { id } });
+
+  await recordAuditEvent({
+    eventType: 'directory_group.deleted',
+    actorId,
+    targetType: 'directory_group',
+    targetId: id,
+    data: { displayName: group.displayName, members: memberIds.length },
+  });
+
+  await reconcileUsersMemberships(memberIds, 'scim', actorId);
+}
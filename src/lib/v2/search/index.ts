@@ -0,0 +1,4 @@
+/**
+ * Search Exports
+ */
+export * from './search-service';
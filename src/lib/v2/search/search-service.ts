@@ -0,0 +1,488 @@
+/**
+ * SearchService - Full-text, faceted search across the workspace
+ *
+ * Searches the generated `searchVector` tsvector columns (see migration
+ * 20260329_add_full_text_search) of:
+ * - BuildingBlock: active blocks in every library (title, summary, content)
+ * - StagedSource: staged source content that has not been ignored
+ * - BulkRow: approved or corrected project answers
+ * - V2QuestionHistory: the caller's own quick questions
+ * - ChatMessage: the caller's own chat messages
+ *
+ * Results are ranked with ts_rank_cd and carry ts_headline snippets. Facet
+ * counts (type, library, customer, owner, date) are computed with every
+ * other active filter applied, so selecting a library still shows how many
+ * hits each type has within it.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LIBRARY_UI_CONFIG, SKILL_LIBRARIES } from '@/lib/v2/library-constants';
+import type { LibraryId } from '@/types/v2';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const SEARCH_RESULT_TYPES = ['block', 'source', 'answer', 'question', 'chat'] as const;
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+export const SEARCH_DATE_BUCKETS = ['7d', '30d', '90d', '365d'] as const;
+export type SearchDateBucket = (typeof SEARCH_DATE_BUCKETS)[number];
+
+export type SearchFacetName = 'type' | 'library' | 'customer' | 'owner' | 'date';
+
+export interface SearchFilters {
+  types: SearchResultType[];
+  libraryIds: string[];
+  customerIds: string[];
+  ownerIds: string[];
+  date: SearchDateBucket | null;
+}
+
+/** Libraries the caller may read; skill libraries outside this list are hidden */
+export interface SearchScope {
+  userId: string;
+  accessibleLibraries: LibraryId[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  titleHighlight: HighlightSegment[];
+  snippet: HighlightSegment[];
+  rank: number;
+  libraryId: string | null;
+  customerId: string | null;
+  ownerId: string | null;
+  date: Date;
+  /** Block slug, used for links */
+  slug: string | null;
+  /** blockType, sourceType, review status or chat role depending on type */
+  subtype: string | null;
+  /** Owning project (answers) or chat session (chat messages) */
+  parentId: string | null;
+  parentName: string | null;
+  rowNumber: number | null;
+}
+
+export interface SearchFacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type SearchFacets = Record<SearchFacetName, SearchFacetValue[]>;
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+  now?: Date;
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;
+  results: SearchResult[];
+  facets: SearchFacets;
+}
+
+export const MIN_QUERY_LENGTH = 2;
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 100;
+
+/** Per-facet cap on returned values */
+const FACET_VALUE_LIMIT = 20;
+
+const APPROVED_REVIEW_STATUSES = ['APPROVED', 'CORRECTED'];
+
+/**
+ * Relative weight per result type, applied on top of ts_rank_cd so curated
+ * blocks outrank raw sources and conversational history for equal matches.
+ */
+const TYPE_WEIGHTS: Record<SearchResultType, number> = {
+  block: 1,
+  answer: 0.9,
+  source: 0.8,
+  question: 0.7,
+  chat: 0.6,
+};
+
+export const SEARCH_TYPE_LABELS: Record<SearchResultType, string> = {
+  block: 'Library items',
+  source: 'Sources',
+  answer: 'Approved answers',
+  question: 'Questions',
+  chat: 'Chat messages',
+};
+
+export const SEARCH_DATE_LABELS: Record<SearchDateBucket, string> = {
+  '7d': 'Past week',
+  '30d': 'Past month',
+  '90d': 'Past 3 months',
+  '365d': 'Past year',
+};
+
+const DATE_BUCKET_DAYS: Record<SearchDateBucket, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '365d': 365,
+};
+
+// Private-use characters so highlight markers never collide with content
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_STOP = '\uE001';
+
+const SNIPPET_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+const TITLE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+// =============================================================================
+// FILTERS & HIGHLIGHTS
+// =============================================================================
+
+function uniqueValues(values: string[]): string[] {
+  return Array.from(new Set(values.flatMap((value) => value.split(',')).map((v) => v.trim()).filter(Boolean)));
+}
+
+/**
+ * Read facet filters from query params. Each filter may be repeated
+ * (?library=it&library=gtm) or comma separated; unknown types and date
+ * buckets are ignored.
+ */
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const date = params.get('date');
+
+  return {
+    types: uniqueValues(params.getAll('type')).filter((type): type is SearchResultType =>
+      (SEARCH_RESULT_TYPES as readonly string[]).includes(type)
+    ),
+    libraryIds: uniqueValues(params.getAll('library')),
+    customerIds: uniqueValues(params.getAll('customer')),
+    ownerIds: uniqueValues(params.getAll('owner')),
+    date: date && (SEARCH_DATE_BUCKETS as readonly string[]).includes(date) ? (date as SearchDateBucket) : null,
+  };
+}
+
+/**
+ * Split a ts_headline result into plain and highlighted segments, so the
+ * UI can render matches without injecting HTML.
+ */
+export function parseHighlight(text: string | null): HighlightSegment[] {
+  if (!text) return [];
+
+  const segments: HighlightSegment[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlight: false });
+      break;
+    }
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlight: false });
+    }
+
+    const stop = rest.indexOf(HIGHLIGHT_STOP, start + 1);
+    const end = stop === -1 ? rest.length : stop;
+    const match = rest.slice(start + 1, end);
+    if (match) {
+      const previous = segments[segments.length - 1];
+      // Adjacent highlighted words (e.g. a phrase match) read as one mark
+      if (previous?.highlight) {
+        previous.text += match;
+      } else {
+        segments.push({ text: match, highlight: true });
+      }
+    }
+    rest = stop === -1 ? '' : rest.slice(stop + 1);
+  }
+
+  return segments;
+}
+
+/** Earliest date included by a date bucket */
+export function getDateBucketStart(bucket: SearchDateBucket, now: Date = new Date()): Date {
+  return new Date(now.getTime() - DATE_BUCKET_DAYS[bucket] * 24 * 60 * 60 * 1000);
+}
+
+// =============================================================================
+// SQL
+// =============================================================================
+
+function inList(values: string[]): Prisma.Sql {
+  return Prisma.join(values);
+}
+
+/**
+ * Non-skill libraries (prompts, personas, templates) are readable by
+ * everyone; skill libraries require team access.
+ */
+function libraryVisible(column: Prisma.Sql, scope: SearchScope): Prisma.Sql {
+  const accessible = scope.accessibleLibraries.filter((lib) => SKILL_LIBRARIES.includes(lib));
+  const conditions = [
+    Prisma.sql`${column} IS NULL`,
+    Prisma.sql`${column} NOT IN (${inList(SKILL_LIBRARIES)})`,
+    ...(accessible.length > 0 ? [Prisma.sql`${column} IN (${inList(accessible)})`] : []),
+  ];
+  return Prisma.sql`(${Prisma.join(conditions, ' OR ')})`;
+}
+
+function buildMatchesCte(query: string, scope: SearchScope): Prisma.Sql {
+  return Prisma.sql`
+    q AS (SELECT websearch_to_tsquery('english', ${query}) AS query),
+    matches AS (
+      SELECT 'block'::text AS "type", b."id", b."title", b."content" AS "body",
+        ts_rank_cd(b."searchVector", q.query, 32) * ${TYPE_WEIGHTS.block} AS "rank",
+        b."libraryId", b."customerId", b."ownerId", b."updatedAt" AS "date",
+        b."slug", b."blockType" AS "subtype", NULL::text AS "parentId", NULL::text AS "parentName", NULL::int AS "rowNumber"
+      FROM "BuildingBlock" b, q
+      WHERE b."searchVector" @@ q.query
+        AND b."status" = 'ACTIVE'
+        AND ${libraryVisible(Prisma.sql`b."libraryId"`, scope)}
+      UNION ALL
+      SELECT 'source', s."id", s."title", COALESCE(s."content", s."contentPreview", ''),
+        ts_rank_cd(s."searchVector", q.query, 32) * ${TYPE_WEIGHTS.source},
+        s."libraryId", s."customerId", s."stagedBy", s."stagedAt",
+        NULL, s."sourceType", NULL, NULL, NULL
+      FROM "StagedSource" s, q
+      WHERE s."searchVector" @@ q.query
+        AND s."ignoredAt" IS NULL
+        AND ${libraryVisible(Prisma.sql`s."libraryId"`, scope)}
+      UNION ALL
+      SELECT 'answer', r."id", COALESCE(r."inputData"->>'question', 'Row ' || r."rowNumber"),
+        COALESCE(r."userEditedAnswer", r."outputData"->>'response', ''),
+        ts_rank_cd(r."searchVector", q.query, 32) * ${TYPE_WEIGHTS.answer},
+        p."config"->>'library', p."customerId", p."ownerId", COALESCE(r."reviewedAt", r."updatedAt"),
+        NULL, r."reviewStatus", p."id", p."name", r."rowNumber"
+      FROM "BulkRow" r JOIN "BulkProject" p ON p."id" = r."projectId", q
+      WHERE r."searchVector" @@ q.query
+        AND r."reviewStatus" IN (${inList(APPROVED_REVIEW_STATUSES)})
+        AND (p."ownerId" = ${scope.userId} OR ${libraryVisible(Prisma.sql`p."config"->>'library'`, scope)})
+      UNION ALL
+      SELECT 'question', h."id", h."question", COALESCE(h."userEditedAnswer", h."outputData"->>'response', ''),
+        ts_rank_cd(h."searchVector", q.query, 32) * ${TYPE_WEIGHTS.question},
+        h."library", NULL, h."userId", h."createdAt",
+        NULL, h."source", NULL, NULL, NULL
+      FROM "V2QuestionHistory" h, q
+      WHERE h."searchVector" @@ q.query
+        AND h."userId" = ${scope.userId}
+      UNION ALL
+      SELECT 'chat', m."id", COALESCE(cs."title", 'Chat'), m."content",
+        ts_rank_cd(m."searchVector", q.query, 32) * ${TYPE_WEIGHTS.chat},
+        NULL, cs."customerId", cs."userId", m."createdAt",
+        NULL, m."role", cs."id", cs."title", NULL
+      FROM "ChatMessage" m JOIN "ChatSession" cs ON cs."id" = m."sessionId", q
+      WHERE m."searchVector" @@ q.query
+        AND cs."userId" = ${scope.userId}
+        AND m."role" IN ('user', 'assistant')
+    )`;
+}
+
+/** WHERE clause for the active filters, optionally leaving one facet out */
+function buildFilterSql(filters: SearchFilters, now: Date, except?: SearchFacetName): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+  if (except !== 'type' && filters.types.length > 0) {
+    conditions.push(Prisma.sql`"type" IN (${inList(filters.types)})`);
+  }
+  if (except !== 'library' && filters.libraryIds.length > 0) {
+    conditions.push(Prisma.sql`"libraryId" IN (${inList(filters.libraryIds)})`);
+  }
+  if (except !== 'customer' && filters.customerIds.length > 0) {
+    conditions.push(Prisma.sql`"customerId" IN (${inList(filters.customerIds)})`);
+  }
+  if (except !== 'owner' && filters.ownerIds.length > 0) {
+    conditions.push(Prisma.sql`"ownerId" IN (${inList(filters.ownerIds)})`);
+  }
+  if (except !== 'date' && filters.date) {
+    conditions.push(Prisma.sql`"date" >= ${getDateBucketStart(filters.date, now)}`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+function buildFacetSql(
+  facet: Exclude<SearchFacetName, 'date'>,
+  column: string,
+  filters: SearchFilters,
+  now: Date
+): Prisma.Sql {
+  const col = Prisma.raw(`"${column}"`);
+  return Prisma.sql`(
+    SELECT ${facet}::text AS "facet", ${col} AS "value", count(*)::int AS "count"
+    FROM matches
+    WHERE ${buildFilterSql(filters, now, facet)} AND ${col} IS NOT NULL
+    GROUP BY ${col}
+    ORDER BY count(*) DESC
+    LIMIT ${FACET_VALUE_LIMIT}
+  )`;
+}
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+interface MatchRow {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  rank: number;
+  libraryId: string | null;
+  customerId: string | null;
+  ownerId: string | null;
+  date: Date;
+  slug: string | null;
+  subtype: string | null;
+  parentId: string | null;
+  parentName: string | null;
+  rowNumber: number | null;
+  total: number;
+  snippet: string | null;
+  titleHighlight: string | null;
+}
+
+interface FacetRow {
+  facet: SearchFacetName;
+  value: string;
+  count: number;
+}
+
+async function labelFacets(rows: FacetRow[]): Promise<SearchFacets> {
+  const facets: SearchFacets = { type: [], library: [], customer: [], owner: [], date: [] };
+
+  const idsFor = (facet: SearchFacetName) => rows.filter((row) => row.facet === facet).map((row) => row.value);
+  const customerIds = idsFor('customer');
+  const ownerIds = idsFor('owner');
+
+  const [customers, users] = await Promise.all([
+    customerIds.length > 0
+      ? prisma.customer.findMany({ where: { id: { in: customerIds } }, select: { id: true, company: true } })
+      : [],
+    ownerIds.length > 0
+      ? prisma.user.findMany({ where: { id: { in: ownerIds } }, select: { id: true, name: true, email: true } })
+      : [],
+  ]);
+  const customerNames = new Map(customers.map((customer) => [customer.id, customer.company]));
+  const userNames = new Map(users.map((user) => [user.id, user.name || user.email || user.id]));
+  const libraryNames = new Map<string, string>(LIBRARY_UI_CONFIG.map((lib) => [lib.id, lib.label]));
+
+  for (const row of rows) {
+    let label = row.value;
+    if (row.facet === 'type') label = SEARCH_TYPE_LABELS[row.value as SearchResultType] ?? row.value;
+    if (row.facet === 'library') label = libraryNames.get(row.value) ?? row.value;
+    if (row.facet === 'customer') label = customerNames.get(row.value) ?? row.value;
+    if (row.facet === 'owner') label = userNames.get(row.value) ?? row.value;
+    if (row.facet === 'date') label = SEARCH_DATE_LABELS[row.value as SearchDateBucket] ?? row.value;
+
+    facets[row.facet].push({ value: row.value, label, count: row.count });
+  }
+
+  // Date buckets are cumulative; keep them in chronological order
+  facets.date.sort(
+    (a, b) =>
+      SEARCH_DATE_BUCKETS.indexOf(a.value as SearchDateBucket) - SEARCH_DATE_BUCKETS.indexOf(b.value as SearchDateBucket)
+  );
+
+  return facets;
+}
+
+/**
+ * Run a ranked full-text search with facet counts.
+ *
+ * The query uses websearch syntax ("quoted phrases", OR, -exclusions).
+ * Throws SearchQueryError for queries shorter than MIN_QUERY_LENGTH.
+ */
+export async function search(
+  query: string,
+  scope: SearchScope,
+  filters: SearchFilters,
+  options: SearchOptions = {}
+): Promise<SearchResponse> {
+  const trimmed = query.trim();
+  if (trimmed.length < MIN_QUERY_LENGTH) {
+    throw new SearchQueryError(`Search query must be at least ${MIN_QUERY_LENGTH} characters`);
+  }
+
+  const now = options.now ?? new Date();
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const matches = buildMatchesCte(trimmed, scope);
+
+  const dateBuckets = Prisma.join(
+    SEARCH_DATE_BUCKETS.map(
+      (bucket) => Prisma.sql`(${bucket}::text, ${getDateBucketStart(bucket, now)}::timestamp)`
+    )
+  );
+
+  const [rows, facetRows] = await Promise.all([
+    // Headlines are the expensive part, so only compute them for the page
+    prisma.$queryRaw<MatchRow[]>(Prisma.sql`
+      WITH ${matches}
+      SELECT page.*,
+        ts_headline('english', page."body", q.query, ${SNIPPET_OPTIONS}) AS "snippet",
+        ts_headline('english', page."title", q.query, ${TITLE_OPTIONS}) AS "titleHighlight"
+      FROM (
+        SELECT m.*, count(*) OVER ()::int AS "total"
+        FROM matches m
+        WHERE ${buildFilterSql(filters, now)}
+        ORDER BY m."rank" DESC, m."date" DESC
+        LIMIT ${limit} OFFSET ${offset}
+      ) page, q
+      ORDER BY page."rank" DESC, page."date" DESC
+    `),
+    prisma.$queryRaw<FacetRow[]>(Prisma.sql`
+      WITH ${matches}
+      ${buildFacetSql('type', 'type', filters, now)}
+      UNION ALL ${buildFacetSql('library', 'libraryId', filters, now)}
+      UNION ALL ${buildFacetSql('customer', 'customerId', filters, now)}
+      UNION ALL ${buildFacetSql('owner', 'ownerId', filters, now)}
+      UNION ALL (
+        SELECT 'date'::text, b."bucket", count(m."id")::int
+        FROM (VALUES ${dateBuckets}) AS b("bucket", "since")
+        JOIN matches m ON m."date" >= b."since"
+        WHERE ${buildFilterSql(filters, now, 'date')}
+        GROUP BY b."bucket"
+      )
+    `),
+  ]);
+
+  const results: SearchResult[] = rows.map((row) => ({
+    type: row.type,
+    id: row.id,
+    title: row.title,
+    titleHighlight: parseHighlight(row.titleHighlight ?? row.title),
+    snippet: parseHighlight(row.snippet),
+    rank: Number(row.rank),
+    libraryId: row.libraryId,
+    customerId: row.customerId,
+    ownerId: row.ownerId,
+    date: row.date,
+    slug: row.slug,
+    subtype: row.subtype,
+    parentId: row.parentId,
+    parentName: row.parentName,
+    rowNumber: row.rowNumber,
+  }));
+
+  return {
+    query: trimmed,
+    total: rows[0]?.total ?? 0,
+    results,
+    facets: await labelFacets(facetRows),
+  };
+}
@@ -0,0 +1,486 @@
+/**
+ * Cross-Skill Contradiction Scan
+ *
+ * SourceContradiction only covers conflicts between the sources of one skill.
+ * This service compares skills with each other: active skills in a library
+ * whose scopeDefinition keywords overlap are paired up, each pair is sent to
+ * the LLM to find claims that cannot both be true (e.g. two different data
+ * retention periods), and every conflict is stored as a SkillContradiction.
+ * Open contradictions show up in the review inbox for both skill owners.
+ * Scans run as background jobs, queued on demand or weekly for every library.
+ * Each scan compares at most MAX_PAIRS_PER_SCAN pairs and picks up where the
+ * previous scan of the library stopped, so large libraries are covered over
+ * several runs.
+ *
+ * Rescans are idempotent: conflicts are keyed by a fingerprint of the pair and
+ * the conflict topic (claim wording varies between LLM runs), so a known
+ * conflict is only touched, a resolved one that comes back is reopened, and a
+ * dismissed one stays dismissed. Open conflicts for a compared pair that are no
+ * longer reported are resolved automatically.
+ */
+
+import { createHash } from 'crypto';
+import { parseExpression } from 'cron-parser';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { parseJsonResponse } from '@/lib/apiHelpers';
+import { executeLLMCall } from '@/lib/llm/registry';
+import { addJob, QUEUE_NAMES } from '@/lib/queue';
+import { SKILL_LIBRARIES } from '@/lib/v2/library-constants';
+import { fillUserPrompt, getLibraryContext, getUserPromptTemplate } from '@/lib/v2/prompts';
+import { TokenBudgetExceededError, type BudgetContext } from '@/lib/v2/teams/token-budget-service';
+import type { LibraryId, ScopeDefinition, SourceContradiction } from '@/types/v2';
+import { extractKeywordsFromScope, filterKeywords } from './keyword-extractor';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SkillContradictionStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface ScanSkill {
+  id: string;
+  title: string;
+  content: string;
+  customerId: string | null;
+  attributes: unknown;
+}
+
+export interface SkillPair {
+  /** Always the skill with the lower id */
+  a: ScanSkill;
+  b: ScanSkill;
+  sharedKeywords: string[];
+}
+
+/** One conflict between two skills, as returned by the LLM */
+export interface CrossSkillContradiction {
+  type: SourceContradiction['type'];
+  topic: string;
+  description: string;
+  claimA: string;
+  claimB: string;
+  severity: SourceContradiction['severity'];
+  recommendation?: string;
+}
+
+export interface ContradictionScanResult {
+  libraryId: LibraryId;
+  skillsScanned: number;
+  pairsCompared: number;
+  /** Overlapping pairs left out because of the per-scan cap */
+  pairsSkipped: number;
+  /** Where the next scan of this library starts in the pair order */
+  nextPairOffset: number;
+  pairsFailed: number;
+  opened: number;
+  reopened: number;
+  autoResolved: number;
+}
+
+export class ContradictionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Skill contradiction not found: ${id}`);
+    this.name = 'ContradictionNotFoundError';
+  }
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Scope keywords two skills must share before they are compared */
+const MIN_SHARED_KEYWORDS = 2;
+/** LLM calls per scan; later scans continue with the next pairs */
+const MAX_PAIRS_PER_SCAN = 40;
+const MAX_SKILL_CHARS = 12000; // ~3k tokens per skill
+const SCOPE_KEYWORD_LIMIT = 10;
+
+/** Weekly scan slot, UTC (default Sunday 03:00) */
+const DEFAULT_SCAN_SCHEDULE = '0 3 * * 0';
+
+const SCAN_USER = 'system:contradiction-scan';
+const AUTO_RESOLVE_NOTE = 'No longer detected when the skills were compared again';
+
+const CONTRADICTION_TYPES: SourceContradiction['type'][] = [
+  'technical_contradiction',
+  'version_mismatch',
+  'scope_mismatch',
+  'outdated_vs_current',
+  'different_perspectives',
+];
+const SEVERITIES: SourceContradiction['severity'][] = ['low', 'medium', 'high'];
+
+// =============================================================================
+// PAIRING
+// =============================================================================
+
+/**
+ * Lowercased scope keywords for a skill: the stored keywords when present,
+ * otherwise keywords extracted from what the scope covers.
+ */
+export function getScopeKeywords(attributes: unknown): string[] {
+  const scope = (attributes as { scopeDefinition?: ScopeDefinition } | null)?.scopeDefinition;
+  const keywords = scope?.keywords?.length ? scope.keywords : extractKeywordsFromScope(scope, SCOPE_KEYWORD_LIMIT);
+  return [...new Set(filterKeywords(keywords.map((keyword) => keyword.toLowerCase().trim())))];
+}
+
+/**
+ * Pair up skills whose scopes overlap, most shared keywords first. Customer
+ * skills are only compared with skills of the same customer.
+ *
+ * At most maxPairs pairs are returned, starting at `offset` in that order and
+ * wrapping around; `nextOffset` is where the following scan should start.
+ */
+export function findOverlappingPairs(
+  skills: ScanSkill[],
+  options: { minShared?: number; maxPairs?: number; offset?: number } = {}
+): { pairs: SkillPair[]; skipped: number; nextOffset: number } {
+  const minShared = options.minShared ?? MIN_SHARED_KEYWORDS;
+  const maxPairs = options.maxPairs ?? MAX_PAIRS_PER_SCAN;
+
+  const sorted = [...skills].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const keywords = new Map(sorted.map((skill) => [skill.id, new Set(getScopeKeywords(skill.attributes))]));
+
+  const pairs: SkillPair[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const a = sorted[i];
+      const b = sorted[j];
+      if (a.customerId !== b.customerId) continue;
+
+      const keywordsB = keywords.get(b.id)!;
+      const sharedKeywords = [...keywords.get(a.id)!].filter((keyword) => keywordsB.has(keyword));
+      if (sharedKeywords.length >= minShared) {
+        pairs.push({ a, b, sharedKeywords });
+      }
+    }
+  }
+
+  pairs.sort((x, y) => y.sharedKeywords.length - x.sharedKeywords.length);
+  if (pairs.length <= maxPairs) {
+    return { pairs, skipped: 0, nextOffset: 0 };
+  }
+
+  const start = (options.offset ?? 0) % pairs.length;
+  return {
+    pairs: [...pairs.slice(start), ...pairs.slice(0, start)].slice(0, maxPairs),
+    skipped: pairs.length - maxPairs,
+    nextOffset: (start + maxPairs) % pairs.length,
+  };
+}
+
+function normalizeTopic(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Stable key for a conflict between two skills, so rescans update the same row.
+ * Keyed on the pair and topic only - the quoted claims are reworded between runs.
+ */
+export function contradictionFingerprint(skillAId: string, skillBId: string, topic: string): string {
+  const [first, second] = [skillAId, skillBId].sort();
+  return createHash('sha256')
+    .update([first, second, normalizeTopic(topic)].join('\n'))
+    .digest('hex');
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+function truncate(content: string): string {
+  return content.length > MAX_SKILL_CHARS
+    ? content.substring(0, MAX_SKILL_CHARS) + '\n\n[Content truncated for token limit management]'
+    : content;
+}
+
+/**
+ * Keep well-formed conflicts with both claims quoted; unknown types and
+ * severities fall back to the most generic value.
+ */
+export function normalizeContradictions(output: unknown): CrossSkillContradiction[] {
+  const items = (output as { contradictions?: unknown } | null)?.contradictions;
+  if (!Array.isArray(items)) return [];
+
+  return items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .filter((item) => typeof item.claimA === 'string' && item.claimA.trim() && typeof item.claimB === 'string' && item.claimB.trim())
+    .map((item) => ({
+      type: CONTRADICTION_TYPES.includes(item.type as SourceContradiction['type'])
+        ? (item.type as SourceContradiction['type'])
+        : 'technical_contradiction',
+      topic: String(item.topic || item.description || 'Conflicting claims').slice(0, 200),
+      description: String(item.description || ''),
+      claimA: (item.claimA as string).trim(),
+      claimB: (item.claimB as string).trim(),
+      severity: SEVERITIES.includes(item.severity as SourceContradiction['severity'])
+        ? (item.severity as SourceContradiction['severity'])
+        : 'medium',
+      ...(typeof item.recommendation === 'string' && item.recommendation && { recommendation: item.recommendation }),
+    }));
+}
+
+/**
+ * Ask the LLM for conflicting claims between two skills. The call is charged
+ * to the budget context's team and routed to its configured provider.
+ */
+export async function detectPairContradictions(
+  pair: SkillPair,
+  libraryId: LibraryId,
+  budget: BudgetContext = {}
+): Promise<CrossSkillContradiction[]> {
+  const libraryContext = getLibraryContext(libraryId);
+  const userPrompt = fillUserPrompt(getUserPromptTemplate('skill_contradiction_scan'), {
+    skillATitle: pair.a.title,
+    skillAContent: truncate(pair.a.content),
+    skillBTitle: pair.b.title,
+    skillBContent: truncate(pair.b.content),
+  });
+
+  const result = await executeLLMCall({
+    question: libraryContext ? `## Library Context\n\n${libraryContext}\n\n${userPrompt}` : userPrompt,
+    compositionId: 'skill_contradiction_scan',
+    modelSpeed: 'quality',
+    tracingOptions: { userId: budget.userId ?? undefined, teamId: budget.teamId ?? undefined },
+  });
+
+  return normalizeContradictions(parseJsonResponse(result.answer));
+}
+
+/**
+ * Store the conflicts found for a pair and resolve open ones that were not
+ * reported again.
+ */
+async function recordPairContradictions(
+  pair: SkillPair,
+  libraryId: LibraryId,
+  contradictions: CrossSkillContradiction[],
+  now: Date
+): Promise<{ opened: number; reopened: number; autoResolved: number }> {
+  const counts = { opened: 0, reopened: 0, autoResolved: 0 };
+  const seen: string[] = [];
+
+  for (const contradiction of contradictions) {
+    const fingerprint = contradictionFingerprint(pair.a.id, pair.b.id, contradiction.topic);
+    if (seen.includes(fingerprint)) continue;
+    seen.push(fingerprint);
+
+    const details = {
+      type: contradiction.type,
+      severity: contradiction.severity,
+      topic: contradiction.topic,
+      description: contradiction.description,
+      recommendation: contradiction.recommendation ?? null,
+      lastSeenAt: now,
+    };
+
+    const existing = await prisma.skillContradiction.findUnique({
+      where: { fingerprint },
+      select: { id: true, status: true },
+    });
+
+    if (!existing) {
+      await prisma.skillContradiction.create({
+        data: {
+          ...details,
+          libraryId,
+          skillAId: pair.a.id,
+          skillBId: pair.b.id,
+          claimA: contradiction.claimA,
+          claimB: contradiction.claimB,
+          fingerprint,
+          detectedAt: now,
+        },
+      });
+      counts.opened++;
+    } else if (existing.status === 'resolved') {
+      await prisma.skillContradiction.update({
+        where: { id: existing.id },
+        data: { ...details, status: 'open', resolvedAt: null, resolvedBy: null, resolutionNote: null },
+      });
+      counts.reopened++;
+    } else {
+      // Dismissed conflicts stay dismissed; open ones just get refreshed
+      await prisma.skillContradiction.update({ where: { id: existing.id }, data: details });
+    }
+  }
+
+  const { count } = await prisma.skillContradiction.updateMany({
+    where: { skillAId: pair.a.id, skillBId: pair.b.id, status: 'open', fingerprint: { notIn: seen } },
+    data: { status: 'resolved', resolvedAt: now, resolvedBy: SCAN_USER, resolutionNote: AUTO_RESOLVE_NOTE },
+  });
+  counts.autoResolved = count;
+
+  return counts;
+}
+
+// =============================================================================
+// SCAN
+// =============================================================================
+
+/**
+ * Where the previous completed scan of this library (and customer) stopped
+ */
+async function getPreviousPairOffset(libraryId: LibraryId, customerId?: string): Promise<number> {
+  const previous = await prisma.backgroundJob.findMany({
+    where: {
+      jobType: 'scan_contradictions',
+      status: 'COMPLETED',
+      payload: { path: ['libraryId'], equals: libraryId },
+    },
+    orderBy: { completedAt: 'desc' },
+    select: { payload: true, result: true },
+    take: 10,
+  });
+
+  const match = previous.find(
+    (job) => ((job.payload as { customerId?: string } | null)?.customerId || undefined) === customerId
+  );
+  const offset = (match?.result as { nextPairOffset?: unknown } | null)?.nextPairOffset;
+  return typeof offset === 'number' && offset > 0 ? offset : 0;
+}
+
+/**
+ * Team a scan is charged to: the requesting user's, or for scheduled scans
+ * the first team that owns the library.
+ */
+async function getScanBudgetContext(libraryId: LibraryId, userId?: string): Promise<BudgetContext> {
+  if (userId && userId !== SCAN_USER) return { userId };
+
+  const team = await prisma.team.findFirst({
+    where: { libraries: { has: libraryId } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  return { teamId: team?.id };
+}
+
+/**
+ * Compare overlapping skills across a library and record conflicts.
+ * A failed pair is logged and counted; the rest of the scan continues unless
+ * the team's token budget is exhausted.
+ */
+export async function scanLibraryForContradictions(
+  libraryId: LibraryId,
+  options: {
+    customerId?: string;
+    userId?: string;
+    onProgress?: (compared: number, total: number) => Promise<void>;
+  } = {},
+  now: Date = new Date()
+): Promise<ContradictionScanResult> {
+  const skills = await prisma.buildingBlock.findMany({
+    where: {
+      libraryId,
+      status: 'ACTIVE',
+      ...(options.customerId && { customerId: options.customerId }),
+    },
+    select: { id: true, title: true, content: true, customerId: true, attributes: true },
+  });
+
+  const { pairs, skipped, nextOffset } = findOverlappingPairs(skills, {
+    offset: await getPreviousPairOffset(libraryId, options.customerId),
+  });
+  const budget = await getScanBudgetContext(libraryId, options.userId);
+  const result: ContradictionScanResult = {
+    libraryId,
+    skillsScanned: skills.length,
+    pairsCompared: 0,
+    pairsSkipped: skipped,
+    nextPairOffset: nextOffset,
+    pairsFailed: 0,
+    opened: 0,
+    reopened: 0,
+    autoResolved: 0,
+  };
+
+  for (const pair of pairs) {
+    try {
+      const contradictions = await detectPairContradictions(pair, libraryId, budget);
+      const counts = await recordPairContradictions(pair, libraryId, contradictions, now);
+      result.opened += counts.opened;
+      result.reopened += counts.reopened;
+      result.autoResolved += counts.autoResolved;
+      result.pairsCompared++;
+    } catch (error) {
+      // Every later pair would be refused too
+      if (error instanceof TokenBudgetExceededError) throw error;
+      logger.warn('Contradiction scan failed for skill pair', error, {
+        libraryId,
+        skillAId: pair.a.id,
+        skillBId: pair.b.id,
+      });
+      result.pairsFailed++;
+    }
+    await options.onProgress?.(result.pairsCompared + result.pairsFailed, pairs.length);
+  }
+
+  logger.info('Library contradiction scan completed', { ...result });
+  return result;
+}
+
+// =============================================================================
+// REVIEW
+// =============================================================================
+
+/**
+ * Resolve or dismiss a contradiction from the review inbox. Dismissed
+ * conflicts are not reopened by later scans.
+ */
+export async function reviewSkillContradiction(
+  id: string,
+  status: Exclude<SkillContradictionStatus, 'open'>,
+  reviewedBy: string,
+  note?: string
+): Promise<{ id: string; status: SkillContradictionStatus }> {
+  const existing = await prisma.skillContradiction.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw new ContradictionNotFoundError(id);
+  }
+
+  await prisma.skillContradiction.update({
+    where: { id },
+    data: { status, resolvedAt: new Date(), resolvedBy: reviewedBy, resolutionNote: note || null },
+  });
+
+  return { id, status };
+}
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+/**
+ * Queue a scan for every skill library once per scan slot. Libraries that
+ * already have a scan queued since the slot are left alone, so this is safe
+ * to call often and from several workers.
+ */
+export async function scheduleContradictionScans(
+  now: Date = new Date(),
+  schedule: string = process.env.CONTRADICTION_SCAN_SCHEDULE || DEFAULT_SCAN_SCHEDULE
+): Promise<number> {
+  const slot = parseExpression(schedule, { currentDate: new Date(now.getTime() + 1000), tz: 'UTC' }).prev().toDate();
+
+  let queued = 0;
+  for (const libraryId of SKILL_LIBRARIES) {
+    const existing = await prisma.backgroundJob.findFirst({
+      where: {
+        jobType: 'scan_contradictions',
+        createdAt: { gte: slot },
+        payload: { path: ['libraryId'], equals: libraryId },
+      },
+      select: { id: true },
+    });
+    if (existing) continue;
+
+    await addJob(QUEUE_NAMES.SKILL_GENERATION, 'scan_contradictions', {
+      type: 'scan_contradictions',
+      libraryId,
+      userId: SCAN_USER,
+    });
+    queued++;
+  }
+
+  return queued;
+}
@@ -0,0 +1,91 @@
+/**
+ * Skill Exposure Gate
+ *
+ * Single retrieval gate for the skill `exposedTo` attribute, shared by
+ * every consumer that puts skills in front of an LLM: RFP answering
+ * (fetchRFPSkills, question batches), the Slack bots and chat.
+ *
+ * A skill with no `exposedTo` (or an empty list) is available everywhere.
+ * Otherwise it is only retrieved for the listed channels; excluded skills are
+ * returned with a reason so the transparency panel can explain the omission.
+ */
+
+import type { SkillAttributes } from '@/types/v2';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SkillChannel = NonNullable<SkillAttributes['exposedTo']>[number];
+
+/** A skill the gate removed, with the reason shown in transparency (stored in JSON columns) */
+export type SkillExclusion = {
+  id: string;
+  title: string;
+  channel: SkillChannel;
+  exposedTo: SkillChannel[];
+  reason: string;
+};
+
+export interface GateResult<T> {
+  allowed: T[];
+  excluded: SkillExclusion[];
+}
+
+const CHANNEL_LABELS: Record<SkillChannel, string> = {
+  slackbot: 'Slack bot',
+  chat: 'Chat',
+  rfp: 'RFP answers',
+};
+
+// =============================================================================
+// GATE
+// =============================================================================
+
+/**
+ * Read the exposedTo list from raw block attributes (JSON from the DB).
+ */
+export function getExposedTo(attributes: unknown): SkillChannel[] {
+  const exposedTo = (attributes as SkillAttributes | null)?.exposedTo;
+  return Array.isArray(exposedTo) ? exposedTo : [];
+}
+
+/**
+ * Whether a skill may be retrieved for a channel.
+ */
+export function isSkillExposedTo(attributes: unknown, channel: SkillChannel): boolean {
+  const exposedTo = getExposedTo(attributes);
+  return exposedTo.length === 0 || exposedTo.includes(channel);
+}
+
+/**
+ * Split skills into those exposed to a channel and those excluded (with reasons).
+ * Order of allowed skills is preserved.
+ */
+export function gateSkillsForChannel<T extends { id: string; title: string; attributes?: unknown }>(
+  skills: T[],
+  channel: SkillChannel
+): GateResult<T> {
+  const allowed: T[] = [];
+  const excluded: SkillExclusion[] = [];
+
+  for (const skill of skills) {
+    if (isSkillExposedTo(skill.attributes, channel)) {
+      allowed.push(skill);
+      continue;
+    }
+
+    const exposedTo = getExposedTo(skill.attributes);
+    excluded.push({
+      id: skill.id,
+      title: skill.title,
+      channel,
+      exposedTo,
+      reason: `Not exposed to ${CHANNEL_LABELS[channel]} (limited to ${exposedTo
+        .map((c) => CHANNEL_LABELS[c] || c)
+        .join(', ')})`,
+    });
+  }
+
+  return { allowed, excluded };
+}
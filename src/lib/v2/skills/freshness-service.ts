@@ -0,0 +1,480 @@
+/**
+ * Skill Freshness Service
+ *
+ * Scores each active skill from 0 (stale) to 100 (fresh) using:
+ * - source age: days since content was last pulled from a source
+ * - pending SourceAssignments that were never incorporated
+ * - incorporated sources that changed upstream (scheduled re-sync)
+ * - unresolved contradictions between sources
+ * - usage: recently used skills are penalised harder, dormant ones less
+ *
+ * Stale skills are surfaced as a library filter and an admin report, and
+ * owners get a weekly digest (Slack DM, falling back to email) listing the
+ * skills they need to refresh.
+ */
+
+import { parseExpression } from 'cron-parser';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { SKILL_LIBRARIES } from '@/lib/v2/library-constants';
+import type { LibraryId, SkillOwner, SourceContradiction } from '@/types/v2';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FreshnessStatus = 'fresh' | 'aging' | 'stale';
+
+export interface FreshnessFactors {
+  /** Days since content was last pulled from a source (or created) */
+  sourceAgeDays: number;
+  /** Assigned sources not yet incorporated */
+  pendingSources: number;
+  /** Incorporated sources that changed upstream since */
+  changedSources: number;
+  contradictions: Record<SourceContradiction['severity'], number>;
+  /** Days since last use, null if never used */
+  daysSinceUsed: number | null;
+}
+
+export interface SkillFreshness {
+  score: number;
+  status: FreshnessStatus;
+  /** Human-readable reasons, most severe first */
+  reasons: string[];
+  factors: FreshnessFactors;
+}
+
+/** Inputs for scoring, as loaded from a BuildingBlock and its assignments */
+export interface FreshnessInput {
+  createdAt: Date;
+  attributes: unknown;
+  assignments: Array<{ incorporatedAt: Date | null; sourceChangedAt: Date | null }>;
+}
+
+export interface SkillFreshnessEntry {
+  id: string;
+  title: string;
+  slug: string | null;
+  libraryId: string;
+  customerId: string | null;
+  /** Block creator, used when no owners are listed */
+  ownerId: string | null;
+  owners: SkillOwner[];
+  freshness: SkillFreshness;
+}
+
+export interface FreshnessReport {
+  generatedAt: string;
+  totals: Record<FreshnessStatus, number>;
+  byLibrary: Record<string, Record<FreshnessStatus, number>>;
+  /** Stale and aging skills, lowest score first */
+  skills: SkillFreshnessEntry[];
+}
+
+export interface DigestResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+/** Stored on User.preferences.freshnessDigest */
+interface DigestPreference {
+  enabled?: boolean;
+  lastSentAt?: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** No age penalty until sources are this old */
+const AGE_GRACE_DAYS = 90;
+const AGE_PENALTY_PER_DAY = 1 / 3;
+const AGE_PENALTY_MAX = 50;
+
+const PENDING_PENALTY = 10;
+const PENDING_PENALTY_MAX = 30;
+const CHANGED_PENALTY = 10;
+const CHANGED_PENALTY_MAX = 30;
+const CONTRADICTION_PENALTY: Record<SourceContradiction['severity'], number> = { high: 15, medium: 8, low: 3 };
+const CONTRADICTION_PENALTY_MAX = 30;
+
+/** Skills used this recently need fixing sooner */
+const RECENT_USE_DAYS = 30;
+const RECENT_USE_WEIGHT = 1.25;
+/** Skills unused this long (or never) matter less */
+const DORMANT_DAYS = 180;
+const DORMANT_WEIGHT = 0.75;
+
+const STALE_BELOW = 50;
+const AGING_BELOW = 75;
+
+/** Weekly digest slot, UTC (default Monday 14:00) */
+const DEFAULT_DIGEST_SCHEDULE = '0 14 * * 1';
+const DIGEST_MAX_SKILLS = 15;
+
+const FRESHNESS_SELECT = {
+  id: true,
+  title: true,
+  slug: true,
+  libraryId: true,
+  customerId: true,
+  ownerId: true,
+  attributes: true,
+  createdAt: true,
+  assignments: { select: { incorporatedAt: true, sourceChangedAt: true } },
+} satisfies Prisma.BuildingBlockSelect;
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / DAY_MS));
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Most recent time content was pulled from a source: source fetches,
+ * incorporations and refreshes. Falls back to creation.
+ */
+function lastSourcedAt(input: FreshnessInput): Date {
+  const attrs = (input.attributes || {}) as Record<string, unknown>;
+  const sources = Array.isArray(attrs.sources) ? (attrs.sources as Array<{ fetchedAt?: string }>) : [];
+  const history = Array.isArray(attrs.history) ? (attrs.history as Array<{ date?: string; action?: string }>) : [];
+
+  const dates = [
+    input.createdAt,
+    ...sources.map((source) => parseDate(source.fetchedAt)),
+    ...history.filter((entry) => entry.action === 'refreshed').map((entry) => parseDate(entry.date)),
+    ...input.assignments.map((assignment) => assignment.incorporatedAt),
+  ].filter((date): date is Date => date !== null);
+
+  return new Date(Math.max(...dates.map((date) => date.getTime())));
+}
+
+/**
+ * Score a skill's freshness. Pure - all inputs are passed in.
+ */
+export function scoreFreshness(input: FreshnessInput, now: Date = new Date()): SkillFreshness {
+  const attrs = (input.attributes || {}) as Record<string, unknown>;
+  const contradictions = Array.isArray(attrs.contradictions) ? (attrs.contradictions as SourceContradiction[]) : [];
+  const lastUsed = parseDate(attrs.lastUsedAt);
+
+  const factors: FreshnessFactors = {
+    sourceAgeDays: daysBetween(lastSourcedAt(input), now),
+    pendingSources: input.assignments.filter((a) => !a.incorporatedAt).length,
+    changedSources: input.assignments.filter((a) => a.incorporatedAt && a.sourceChangedAt).length,
+    contradictions: { high: 0, medium: 0, low: 0 },
+    daysSinceUsed: lastUsed ? daysBetween(lastUsed, now) : null,
+  };
+  for (const contradiction of contradictions) {
+    if (contradiction.severity in factors.contradictions) factors.contradictions[contradiction.severity]++;
+  }
+
+  const penalties: Array<{ points: number; reason: string }> = [];
+
+  const overdueDays = factors.sourceAgeDays - AGE_GRACE_DAYS;
+  if (overdueDays > 0) {
+    penalties.push({
+      points: Math.min(AGE_PENALTY_MAX, overdueDays * AGE_PENALTY_PER_DAY),
+      reason: `Sources last pulled ${factors.sourceAgeDays} days ago`,
+    });
+  }
+  if (factors.pendingSources > 0) {
+    penalties.push({
+      points: Math.min(PENDING_PENALTY_MAX, factors.pendingSources * PENDING_PENALTY),
+      reason: `${plural(factors.pendingSources, 'assigned source')} not incorporated`,
+    });
+  }
+  if (factors.changedSources > 0) {
+    penalties.push({
+      points: Math.min(CHANGED_PENALTY_MAX, factors.changedSources * CHANGED_PENALTY),
+      reason: `${plural(factors.changedSources, 'source')} changed upstream`,
+    });
+  }
+  const contradictionPoints =
+    factors.contradictions.high * CONTRADICTION_PENALTY.high +
+    factors.contradictions.medium * CONTRADICTION_PENALTY.medium +
+    factors.contradictions.low * CONTRADICTION_PENALTY.low;
+  if (contradictionPoints > 0) {
+    penalties.push({
+      points: Math.min(CONTRADICTION_PENALTY_MAX, contradictionPoints),
+      reason: `${plural(contradictions.length, 'unresolved contradiction')}`,
+    });
+  }
+
+  const weight =
+    factors.daysSinceUsed !== null && factors.daysSinceUsed <= RECENT_USE_DAYS
+      ? RECENT_USE_WEIGHT
+      : factors.daysSinceUsed === null || factors.daysSinceUsed > DORMANT_DAYS
+        ? DORMANT_WEIGHT
+        : 1;
+
+  const total = penalties.reduce((sum, penalty) => sum + penalty.points, 0) * weight;
+  const score = Math.max(0, Math.round(100 - total));
+
+  return {
+    score,
+    status: score < STALE_BELOW ? 'stale' : score < AGING_BELOW ? 'aging' : 'fresh',
+    reasons: penalties.sort((a, b) => b.points - a.points).map((penalty) => penalty.reason),
+    factors,
+  };
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+function getOwners(attributes: unknown): SkillOwner[] {
+  const owners = (attributes as Record<string, unknown> | null)?.owners;
+  return Array.isArray(owners) ? (owners as SkillOwner[]) : [];
+}
+
+/**
+ * Score every active skill matching the filter.
+ */
+export async function getSkillFreshness(
+  filter: { libraryId?: LibraryId; customerId?: string } = {},
+  now: Date = new Date()
+): Promise<SkillFreshnessEntry[]> {
+  const blocks = await prisma.buildingBlock.findMany({
+    where: {
+      status: 'ACTIVE',
+      libraryId: filter.libraryId ?? { in: SKILL_LIBRARIES },
+      ...(filter.customerId && { customerId: filter.customerId }),
+    },
+    select: FRESHNESS_SELECT,
+  });
+
+  return blocks.map((block) => ({
+    id: block.id,
+    title: block.title,
+    slug: block.slug,
+    libraryId: block.libraryId,
+    customerId: block.customerId,
+    ownerId: block.ownerId,
+    owners: getOwners(block.attributes),
+    freshness: scoreFreshness(block, now),
+  }));
+}
+
+/**
+ * Skills at or below the given status, lowest score first.
+ */
+export async function getStaleSkills(
+  libraryId: LibraryId,
+  options: { customerId?: string; includeAging?: boolean } = {}
+): Promise<SkillFreshnessEntry[]> {
+  const skills = await getSkillFreshness({ libraryId, customerId: options.customerId });
+  return skills
+    .filter(({ freshness }) => freshness.status === 'stale' || (options.includeAging && freshness.status === 'aging'))
+    .sort((a, b) => a.freshness.score - b.freshness.score);
+}
+
+/**
+ * Freshness across all libraries for the admin report.
+ */
+export async function getFreshnessReport(now: Date = new Date()): Promise<FreshnessReport> {
+  const skills = await getSkillFreshness({}, now);
+  const totals: Record<FreshnessStatus, number> = { fresh: 0, aging: 0, stale: 0 };
+  const byLibrary: FreshnessReport['byLibrary'] = {};
+
+  for (const skill of skills) {
+    const { status } = skill.freshness;
+    totals[status]++;
+    byLibrary[skill.libraryId] ??= { fresh: 0, aging: 0, stale: 0 };
+    byLibrary[skill.libraryId][status]++;
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    totals,
+    byLibrary,
+    skills: skills
+      .filter(({ freshness }) => freshness.status !== 'fresh')
+      .sort((a, b) => a.freshness.score - b.freshness.score),
+  };
+}
+
+// =============================================================================
+// OWNER DIGESTS
+// =============================================================================
+
+interface DigestRecipient {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  preferences: unknown;
+  skills: SkillFreshnessEntry[];
+}
+
+function getDigestPreference(preferences: unknown): DigestPreference {
+  const value = (preferences as Record<string, unknown> | null)?.freshnessDigest;
+  return value && typeof value === 'object' ? (value as DigestPreference) : {};
+}
+
+/**
+ * Most recent digest slot at or before `now`.
+ */
+export function getDigestSlot(now: Date, schedule: string = process.env.FRESHNESS_DIGEST_SCHEDULE || DEFAULT_DIGEST_SCHEDULE): Date {
+  return parseExpression(schedule, { currentDate: new Date(now.getTime() + 1000), tz: 'UTC' }).prev().toDate();
+}
+
+/**
+ * Group stale skills by owner. Owners are matched to users by id, then by
+ * email; skills without an owner fall back to the block creator.
+ */
+async function getDigestRecipients(skills: SkillFreshnessEntry[]): Promise<DigestRecipient[]> {
+  const userIds = new Set<string>();
+  const emails = new Set<string>();
+  for (const skill of skills) {
+    for (const owner of skill.owners) {
+      if (owner.userId) userIds.add(owner.userId);
+      else if (owner.email) emails.add(owner.email.toLowerCase());
+    }
+    if (skill.owners.length === 0 && skill.ownerId) userIds.add(skill.ownerId);
+  }
+
+  const users = await prisma.user.findMany({
+    where: { OR: [{ id: { in: [...userIds] } }, { email: { in: [...emails], mode: 'insensitive' } }] },
+    select: { id: true, name: true, email: true, preferences: true },
+  });
+  const byId = new Map(users.map((user) => [user.id, user]));
+  const byEmail = new Map(users.filter((user) => user.email).map((user) => [user.email!.toLowerCase(), user]));
+
+  const recipients = new Map<string, DigestRecipient>();
+  for (const skill of skills) {
+    const owners = skill.owners.length > 0 ? skill.owners : skill.ownerId ? [{ userId: skill.ownerId, name: '' }] : [];
+    for (const owner of owners) {
+      const user = (owner.userId && byId.get(owner.userId)) || (owner.email && byEmail.get(owner.email.toLowerCase()));
+      if (!user) continue;
+      const recipient: DigestRecipient = recipients.get(user.id) ?? {
+        userId: user.id,
+        name: user.name,
+        email: user.email,
+        preferences: user.preferences,
+        skills: [],
+      };
+      if (!recipient.skills.includes(skill)) recipient.skills.push(skill);
+      recipients.set(user.id, recipient);
+    }
+  }
+
+  return [...recipients.values()];
+}
+
+function skillUrl(skill: SkillFreshnessEntry): string | null {
+  const base = process.env.NEXTAUTH_URL;
+  if (!base || skill.libraryId === 'customers') return null;
+  return `${base.replace(/\/$/, '')}/v2/${skill.libraryId}/${skill.slug || skill.id}`;
+}
+
+/**
+ * Plain-text digest body. Slack renders the *bold* markers; email shows them as-is.
+ */
+export function buildDigestText(name: string | null, skills: SkillFreshnessEntry[]): string {
+  const shown = skills.slice(0, DIGEST_MAX_SKILLS);
+  const lines = [
+    `Hi${name ? ` ${name.split(' ')[0]}` : ''}, ${plural(skills.length, 'skill')} you own ${skills.length === 1 ? 'needs' : 'need'} a refresh:`,
+    '',
+    ...shown.map((skill) => {
+      const url = skillUrl(skill);
+      const reasons = skill.freshness.reasons.join('; ') || 'out of date';
+      return `• *${skill.title}* (score ${skill.freshness.score}) - ${reasons}${url ? `\n  ${url}` : ''}`;
+    }),
+  ];
+  if (skills.length > shown.length) {
+    lines.push('', `…and ${skills.length - shown.length} more. See the stale filter in each library.`);
+  }
+  return lines.join('\n');
+}
+
+async function deliverDigest(recipient: DigestRecipient, text: string): Promise<boolean> {
+  if (recipient.email) {
+    const { isSlackConfigured, lookupUserByEmail, postMessage } = await import('@/lib/slack');
+    if (await isSlackConfigured()) {
+      const slackUser = await lookupUserByEmail(recipient.email).catch(() => null);
+      if (slackUser) {
+        await postMessage({ channelId: slackUser.id, text });
+        return true;
+      }
+    }
+
+    const { isEmailConfigured, sendEmail } = await import('@/lib/email');
+    if (await isEmailConfigured()) {
+      await sendEmail({ to: recipient.email, subject: 'Skills that need a refresh', text: text.replace(/\*/g, '') });
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Send each owner a digest of their stale skills, once per digest slot.
+ * `force` ignores the slot and sends to everyone with stale skills.
+ */
+export async function sendFreshnessDigests(options: { now?: Date; force?: boolean } = {}): Promise<DigestResult> {
+  const now = options.now ?? new Date();
+  const slot = getDigestSlot(now);
+
+  const stale = (await getSkillFreshness({}, now))
+    .filter((skill) => skill.freshness.status === 'stale')
+    .sort((a, b) => a.freshness.score - b.freshness.score);
+
+  const result: DigestResult = { sent: 0, skipped: 0, failed: 0 };
+  for (const recipient of await getDigestRecipients(stale)) {
+    const preference = getDigestPreference(recipient.preferences);
+    const lastSentAt = parseDate(preference.lastSentAt);
+    if (preference.enabled === false || (!options.force && lastSentAt && lastSentAt >= slot)) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const delivered = await deliverDigest(recipient, buildDigestText(recipient.name, recipient.skills));
+      if (!delivered) {
+        result.skipped++;
+        continue;
+      }
+
+      await prisma.user.update({
+        where: { id: recipient.userId },
+        data: {
+          preferences: {
+            ...((recipient.preferences as Record<string, unknown>) || {}),
+            freshnessDigest: { ...preference, lastSentAt: now.toISOString() },
+          },
+        },
+      });
+      result.sent++;
+    } catch (error) {
+      logger.error('Failed to send freshness digest', error, { userId: recipient.userId });
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Send digests when the weekly slot has passed. Safe to call often - each
+ * owner is sent at most one digest per slot.
+ */
+export async function runScheduledFreshnessDigests(now: Date = new Date()): Promise<DigestResult | null> {
+  if (now.getTime() - getDigestSlot(now).getTime() > DAY_MS) return null;
+  return sendFreshnessDigests({ now });
+}
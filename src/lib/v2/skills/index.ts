@@ -3,3 +3,4 @@
  */
 
 export * from './skill-generation-service';
+export * from './exposure-gate';
@@ -0,0 +1,352 @@
+/**
+ * Skill Feedback Service - Slack bot feedback loop
+ *
+ * When a Slack bot answer gets a thumbs-down or an expert replies in the
+ * thread with a correction, the thread is staged as a `slack` StagedSource
+ * and assigned to the skills the answer used (SlackBotInteraction.skillsUsed).
+ * A background job then runs each skill through skill-generation-service
+ * with the thread as new source material and stores the result on the
+ * assignment as a pending proposal. The skill owner approves or rejects it
+ * from the review queue; approval applies the update and marks the source
+ * incorporated.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import { logger } from '@/lib/logger';
+import { addJob, isQueueConfigured, QUEUE_NAMES } from '@/lib/queue';
+import { updateBlock } from '@/lib/v2/blocks/block-service';
+import { stageSource } from '@/lib/v2/sources/staged-source-service';
+import type {
+  LibraryId,
+  ScopeDefinition,
+  SkillUpdateProposal,
+  SlackBotFeedback,
+  SlackSourceMetadata,
+  SlackStagedSource,
+} from '@/types/v2';
+import { updateSkill } from './skill-generation-service';
+import { getRefreshMode } from './skill-orchestrator';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SlackFeedbackInput {
+  interactionId: string;
+  kind: SlackBotFeedback['kind'];
+  /** Slack user name or id of whoever left the feedback */
+  by: string;
+  /** Correction text (thread replies only) */
+  text?: string;
+}
+
+export interface StagedFeedbackResult {
+  stagedSourceId: string;
+  skillIds: string[];
+}
+
+export interface SkillProposalResult {
+  skillId: string;
+  changeSummary: string;
+}
+
+export class ProposalConflictError extends Error {
+  constructor(skillId: string) {
+    super(`Skill ${skillId} changed after this proposal was generated`);
+    this.name = 'ProposalConflictError';
+  }
+}
+
+type HistoryEntry = { date: string; action: string; summary: string; user: string };
+type Citation = { id: string; sourceId: string; label: string; url?: string };
+
+const STAGED_BY = 'system:slack-feedback';
+
+const FEEDBACK_CONTEXT =
+  'The new source is a Slack thread where users said the bot answer built from this skill ' +
+  'was wrong or incomplete. Treat corrections from people in the thread as authoritative, ' +
+  'fix the affected content and leave unrelated content as it is.';
+
+// =============================================================================
+// STAGING
+// =============================================================================
+
+/**
+ * Render a bot interaction and its feedback as source content.
+ */
+export function buildFeedbackContent(
+  interaction: { question: string; answer: string; slackUserName: string | null; slackUserId: string },
+  feedback: SlackBotFeedback[]
+): string {
+  const lines = feedback.map((f) =>
+    f.kind === 'correction'
+      ? `- Correction from ${f.by}: ${f.text}`
+      : `- Marked not helpful by ${f.by}`
+  );
+
+  return [
+    `Question (from ${interaction.slackUserName || interaction.slackUserId}):`,
+    interaction.question,
+    '',
+    'Bot answer:',
+    interaction.answer,
+    '',
+    'Feedback:',
+    ...lines,
+  ].join('\n');
+}
+
+/**
+ * Stage a Slack bot thread that got negative feedback and assign it to the
+ * skills the answer used, then queue proposal generation.
+ *
+ * Repeated feedback on the same answer updates the one staged source and
+ * re-opens its assignments so the proposal is regenerated with everything
+ * said so far. Without Redis there is no worker service, so the proposal job
+ * is drained in this process (not awaited). Returns null when the answer used
+ * no skills.
+ */
+export async function stageSlackFeedback(
+  input: SlackFeedbackInput
+): Promise<StagedFeedbackResult | null> {
+  const interaction = await prisma.slackBotInteraction.findUnique({
+    where: { id: input.interactionId },
+  });
+  if (!interaction) {
+    throw new Error(`Slack bot interaction not found: ${input.interactionId}`);
+  }
+
+  const skillsUsed = Array.isArray(interaction.skillsUsed)
+    ? (interaction.skillsUsed as Array<{ id: string; title: string }>)
+    : [];
+  const skills = skillsUsed.length
+    ? await prisma.buildingBlock.findMany({
+        where: { id: { in: skillsUsed.map((s) => s.id) }, status: 'ACTIVE' },
+        select: { id: true },
+      })
+    : [];
+  if (skills.length === 0) {
+    logger.info('Slack feedback not staged - answer used no active skills', {
+      interactionId: interaction.id,
+    });
+    return null;
+  }
+
+  const libraryId = (interaction.libraryId || 'knowledge') as LibraryId;
+  const externalId = `bot-feedback:${interaction.id}`;
+
+  const existing = await prisma.stagedSource.findFirst({
+    where: { sourceType: 'slack', externalId, libraryId, customerId: null },
+    select: { metadata: true },
+  });
+  const previous = (existing?.metadata as SlackSourceMetadata | undefined)?.botFeedback || [];
+  const feedback: SlackBotFeedback[] = [
+    ...previous,
+    {
+      kind: input.kind,
+      by: input.by,
+      ...(input.text && { text: input.text }),
+      at: new Date().toISOString(),
+    },
+  ];
+
+  const metadata: SlackSourceMetadata = {
+    channelId: interaction.slackChannelId,
+    channelName: interaction.slackChannelName || interaction.slackChannelId,
+    threadTs: interaction.slackThreadTs,
+    messageTs: interaction.slackMessageTs,
+    threadStartedAt: interaction.createdAt.toISOString(),
+    lastReplyAt: feedback[feedback.length - 1].at,
+    permalink: interaction.slackPermalink || undefined,
+    botInteractionId: interaction.id,
+    botFeedback: feedback,
+  };
+
+  const source = await stageSource<SlackStagedSource>({
+    sourceType: 'slack',
+    externalId,
+    libraryId,
+    title: `Bot feedback: ${interaction.question.substring(0, 80)}`,
+    content: buildFeedbackContent(interaction, feedback),
+    contentPreview: input.text?.substring(0, 200) || interaction.question.substring(0, 200),
+    metadata,
+    stagedBy: STAGED_BY,
+  });
+
+  for (const skill of skills) {
+    await prisma.sourceAssignment.upsert({
+      where: { stagedSourceId_blockId: { stagedSourceId: source.id, blockId: skill.id } },
+      create: {
+        stagedSourceId: source.id,
+        blockId: skill.id,
+        assignedBy: STAGED_BY,
+        notes: 'Slack bot answer flagged by users',
+      },
+      update: { incorporatedAt: null, incorporatedBy: null },
+    });
+  }
+
+  const runInline = !isQueueConfigured();
+  const jobId = await addJob(
+    QUEUE_NAMES.SKILL_GENERATION,
+    'propose_skill_update',
+    {
+      type: 'propose_skill_update',
+      stagedSourceId: source.id,
+    },
+    // Nothing retries an inline run, so a failure is final
+    runInline ? { attempts: 1 } : undefined
+  );
+
+  if (runInline) {
+    // Dynamic import: the worker module loads this service for the job itself
+    const { runQueuedJobInline } = await import('@/lib/queue/workers');
+    void runQueuedJobInline(QUEUE_NAMES.SKILL_GENERATION, jobId);
+  }
+
+  logger.info('Slack feedback staged for skill review', {
+    interactionId: interaction.id,
+    stagedSourceId: source.id,
+    kind: input.kind,
+    skillCount: skills.length,
+  });
+
+  return { stagedSourceId: source.id, skillIds: skills.map((s) => s.id) };
+}
+
+// =============================================================================
+// PROPOSALS
+// =============================================================================
+
+/**
+ * Generate a pending update proposal for every skill the source is assigned
+ * to and has not been incorporated into yet. Nothing is applied to the skill.
+ */
+export async function generateSkillProposals(stagedSourceId: string): Promise<SkillProposalResult[]> {
+  const source = await prisma.stagedSource.findUnique({ where: { id: stagedSourceId } });
+  if (!source?.content) {
+    throw new Error(`Staged source not found or empty: ${stagedSourceId}`);
+  }
+
+  const assignments = await prisma.sourceAssignment.findMany({
+    where: { stagedSourceId, incorporatedAt: null },
+    include: { block: true },
+  });
+
+  const results: SkillProposalResult[] = [];
+  for (const { id, block } of assignments) {
+    const attributes = (block.attributes as Record<string, unknown>) || {};
+
+    const output = await updateSkill({
+      existingSkill: {
+        title: block.title,
+        content: block.content,
+        scopeDefinition: attributes.scopeDefinition as ScopeDefinition | undefined,
+        citations: Array.isArray(attributes.citations) ? (attributes.citations as Citation[]) : undefined,
+      },
+      newSources: [
+        {
+          id: source.id,
+          type: source.sourceType,
+          label: source.title,
+          url: (source.metadata as SlackSourceMetadata | null)?.permalink,
+          content: source.content,
+        },
+      ],
+      libraryId: block.libraryId as LibraryId,
+      isCustomerSkill: !!block.customerId,
+      additionalContext: FEEDBACK_CONTEXT,
+      refreshMode: getRefreshMode(attributes),
+    });
+
+    const changeSummary = output.changes?.changeSummary || 'Update proposed from Slack bot feedback';
+    const proposal: SkillUpdateProposal = {
+      status: 'pending',
+      title: output.title,
+      content: output.content,
+      summary: output.summary,
+      changeSummary,
+      citations: output.citations,
+      baseContent: block.content,
+      generatedAt: new Date().toISOString(),
+    };
+
+    await prisma.sourceAssignment.update({
+      where: { id },
+      data: { proposal: proposal as unknown as Prisma.InputJsonValue },
+    });
+    results.push({ skillId: block.id, changeSummary });
+  }
+
+  return results;
+}
+
+/**
+ * Approve or reject a pending proposal.
+ *
+ * Approval applies the proposed title/content to the skill, records it in the
+ * skill history and marks the source incorporated. Throws
+ * ProposalConflictError if the skill was edited after the proposal was made.
+ */
+export async function reviewSkillProposal(
+  assignmentId: string,
+  decision: 'approved' | 'rejected',
+  reviewedBy: string
+): Promise<SkillUpdateProposal> {
+  const assignment = await prisma.sourceAssignment.findUnique({
+    where: { id: assignmentId },
+    include: { block: true },
+  });
+  const proposal = assignment?.proposal as SkillUpdateProposal | null | undefined;
+  if (!assignment || !proposal) {
+    throw new Error(`Skill proposal not found: ${assignmentId}`);
+  }
+  if (proposal.status !== 'pending') {
+    throw new Error(`Skill proposal already ${proposal.status}`);
+  }
+
+  const now = new Date();
+  if (decision === 'approved') {
+    if (assignment.block.content !== proposal.baseContent) {
+      throw new ProposalConflictError(assignment.blockId);
+    }
+
+    const attributes = (assignment.block.attributes as Record<string, unknown>) || {};
+    await updateBlock(assignment.blockId, {
+      title: proposal.title,
+      content: proposal.content,
+      attributes: {
+        summary: proposal.summary,
+        citations: proposal.citations,
+        lastRefreshedAt: now.toISOString(),
+        history: [
+          ...((attributes.history as HistoryEntry[] | undefined) || []),
+          {
+            date: now.toISOString(),
+            action: 'refreshed',
+            summary: `Slack feedback: ${proposal.changeSummary}`,
+            user: reviewedBy,
+          },
+        ],
+      } as Record<string, unknown>,
+    });
+  }
+
+  const reviewed: SkillUpdateProposal = {
+    ...proposal,
+    status: decision,
+    reviewedAt: now.toISOString(),
+    reviewedBy,
+  };
+
+  await prisma.sourceAssignment.update({
+    where: { id: assignmentId },
+    data: {
+      proposal: reviewed as unknown as Prisma.InputJsonValue,
+      ...(decision === 'approved' && { incorporatedAt: now, incorporatedBy: reviewedBy }),
+    },
+  });
+
+  return reviewed;
+}
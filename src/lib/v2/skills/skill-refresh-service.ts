@@ -0,0 +1,162 @@
+/**
+ * Skill Refresh Service - Non-interactive skill refresh for background jobs
+ *
+ * Re-runs a skill through the orchestrator using the sources already
+ * incorporated into it. The interactive flow in
+ * /api/v2/skills/[id]/refresh adds new sources and returns a diff for
+ * review; this path is for queued and scheduled refreshes where nobody is
+ * waiting on the response.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { updateBlock } from '@/lib/v2/blocks/block-service';
+import { syncSourceContent } from '@/lib/v2/sources/source-content-sync-service';
+import { clearSourceChangeFlags } from '@/lib/v2/sources/source-resync-service';
+import type { LibraryId, ScopeDefinition } from '@/types/v2';
+import { updateSkill, getRefreshMode } from './skill-orchestrator';
+import { getScopeFromContent } from './content-parser';
+import { validateScopeDefinition } from './scope-validator';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SkillRefreshResult {
+  skillId: string;
+  title: string;
+  sourceCount: number;
+  changeSummary: string;
+}
+
+type Citation = { id: string; sourceId: string; label: string; url?: string };
+type HistoryEntry = { date: string; action: string; summary: string; user: string };
+
+/**
+ * Source types whose content can change after incorporation (same set as the
+ * interactive refresh route). Slack/Zendesk threads and uploaded documents are
+ * snapshots that were already folded into the skill, unless scheduled re-sync
+ * flagged them as changed.
+ */
+const REFRESHABLE_SOURCE_TYPES = ['url', 'notion', 'confluence', 'gdrive'];
+
+// =============================================================================
+// REFRESH
+// =============================================================================
+
+/**
+ * Refresh a skill from its incorporated sources and save the result.
+ *
+ * Customer-scoped sources are re-synced from their origin first so the
+ * refresh sees current content. Throws if the skill has no usable sources
+ * or the LLM output has no valid scope definition.
+ */
+export async function refreshSkillFromSources(
+  skillId: string,
+  refreshedBy: string = 'system:worker'
+): Promise<SkillRefreshResult> {
+  const skill = await prisma.buildingBlock.findUnique({ where: { id: skillId } });
+  if (!skill) {
+    throw new Error(`Skill not found: ${skillId}`);
+  }
+
+  const assignments = await prisma.sourceAssignment.findMany({
+    where: { blockId: skillId, incorporatedAt: { not: null } },
+    include: { stagedSource: true },
+  });
+
+  const refreshable = assignments.filter(a =>
+    REFRESHABLE_SOURCE_TYPES.includes(a.stagedSource.sourceType) || a.sourceChangedAt
+  );
+
+  for (const { stagedSource } of refreshable) {
+    if (stagedSource.customerId) {
+      const synced = await syncSourceContent(stagedSource.id);
+      if (!synced.success) {
+        logger.warn('Source re-sync failed during skill refresh, using stored content', {
+          skillId,
+          sourceId: stagedSource.id,
+          error: synced.error,
+        });
+      }
+    }
+  }
+
+  const sources = await prisma.stagedSource.findMany({
+    where: { id: { in: refreshable.map(a => a.stagedSourceId) } },
+  });
+  const sourcesWithContent = sources
+    .filter(s => s.content && s.content.trim().length > 0)
+    .map(s => ({
+      id: s.id,
+      type: s.sourceType,
+      label: s.title,
+      url: s.sourceType === 'url' ? s.externalId : undefined,
+      content: s.content as string,
+    }));
+
+  if (sourcesWithContent.length === 0) {
+    throw new Error(`Skill ${skillId} has no refreshable sources with content`);
+  }
+
+  const attributes = (skill.attributes as Record<string, unknown>) || {};
+  const existingScope = attributes.scopeDefinition as ScopeDefinition | undefined;
+  const refreshMode = getRefreshMode(attributes);
+
+  const output = await updateSkill({
+    existingSkill: {
+      id: skill.id,
+      title: skill.title,
+      content: skill.content,
+      scopeDefinition: existingScope,
+      citations: Array.isArray(attributes.citations) ? (attributes.citations as Citation[]) : undefined,
+    },
+    newSources: refreshMode === 'additive' ? sourcesWithContent : [],
+    allSources: refreshMode === 'regenerative' ? sourcesWithContent : undefined,
+    refreshMode,
+    libraryId: skill.libraryId as LibraryId,
+    customerId: skill.customerId || undefined,
+  });
+
+  let scope: ScopeDefinition | undefined;
+  try {
+    scope = getScopeFromContent(output.content);
+  } catch (error) {
+    logger.warn('Failed to parse scope from refreshed skill content', { skillId, error });
+  }
+  scope = scope || existingScope;
+
+  const scopeValidation = validateScopeDefinition(scope);
+  if (!scopeValidation.success) {
+    throw new Error(
+      `Skill refresh produced an invalid scope definition for ${skillId}: ${scopeValidation.errors.join('; ')}`
+    );
+  }
+
+  const changeSummary = output.changes?.changeSummary || 'Skill refreshed from existing sources';
+  const now = new Date().toISOString();
+
+  await updateBlock(skillId, {
+    title: output.title,
+    content: output.content,
+    attributes: {
+      summary: output.summary,
+      scopeDefinition: scopeValidation.data,
+      citations: output.citations,
+      contradictions: output.contradictions,
+      lastRefreshedAt: now,
+      history: [
+        ...((attributes.history as HistoryEntry[] | undefined) || []),
+        { date: now, action: 'refreshed', summary: changeSummary, user: refreshedBy },
+      ],
+    } as Record<string, unknown>,
+  });
+  await clearSourceChangeFlags(skillId);
+
+  return {
+    skillId,
+    title: output.title,
+    sourceCount: sourcesWithContent.length,
+    changeSummary,
+  };
+}
@@ -12,6 +12,7 @@ import {
   matchContentToSkills,
   getQuickKeywordMatches,
   shouldSuggestNewSkill,
+  type MatchStrategy,
 } from '../matching/content-skill-matcher';
 import type { LibraryId, ScopeDefinition } from '@/types/v2';
 
@@ -28,7 +29,7 @@ export interface SourceSkillMatch {
   confidence: 'high' | 'medium' | 'low';
   matchScore: number; // 0-1 for numeric comparison
   reason: string;
-  matchStrategy: 'keyword' | 'llm' | 'hybrid';
+  matchStrategy: 'keyword' | 'llm' | 'hybrid' | 'embedding';
   suggestedExcerpt?: string;
 }
 
@@ -48,7 +49,7 @@ export interface MatchSourceInput {
     scopeDefinition?: ScopeDefinition;
   }>;
   libraryId: LibraryId;
-  strategy: 'keyword' | 'llm' | 'hybrid';
+  strategy: MatchStrategy;
   additionalContext?: string;
 }
 
@@ -121,7 +122,7 @@ function adaptContentMatchToSourceMatch(match: {
   confidence: 'high' | 'medium' | 'low';
   score: number;
   reason: string;
-  matchStrategy: 'keyword' | 'llm' | 'hybrid';
+  matchStrategy: 'keyword' | 'llm' | 'hybrid' | 'embedding';
   suggestedExcerpt?: string;
 }): SourceSkillMatch {
   return {
@@ -10,6 +10,7 @@ import type {
   DiscoveryOptions,
   DiscoveredSource,
   TypedStagedSource,
+  SourceScope,
   SourceType,
 } from '@/types/v2';
 import { stageSource, stageSources } from '../staged-source-service';
@@ -32,16 +33,30 @@ export abstract class BaseDiscoveryAdapter<T extends TypedStagedSource>
    */
   /**
    * Fetch full content for a source (optional).
-   * Override if the adapter supports lazy content loading.
+   * Override if the adapter supports lazy content loading. `scope` is the
+   * library/customer the source was staged into.
    *
    * Return types:
    * - `string | null` - Simple content return (legacy)
    * - `{ content, error?, isRetryable? }` - Detailed result with error info
    */
   async fetchContent?(
-    _externalId: string
+    _externalId: string,
+    _scope?: SourceScope
   ): Promise<string | null | { content: string | null; error?: string; isRetryable?: boolean }> {
     void _externalId; // Unused by default, override in subclasses
+    void _scope;
+    return null;
+  }
+
+  /**
+   * Fetch the current upstream version of a source (optional).
+   * Override if the adapter records `contentVersion` in metadata so content
+   * sync can detect edits.
+   */
+  async fetchContentVersion?(_externalId: string, _scope?: SourceScope): Promise<string | null> {
+    void _externalId; // Unused by default, override in subclasses
+    void _scope;
     return null;
   }
 
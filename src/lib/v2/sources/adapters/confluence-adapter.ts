@@ -0,0 +1,265 @@
+/**
+ * Confluence Discovery Adapter
+ *
+ * Discovers and stages pages from Confluence Cloud spaces.
+ * Requires a Confluence site URL, account email and API token in AWS Secrets Manager.
+ * Page version numbers are recorded so content sync can detect edits.
+ */
+
+import { BaseDiscoveryAdapter } from './base-adapter';
+import type {
+  DiscoveryOptions,
+  DiscoveredSource,
+  ConfluenceStagedSource,
+  ConfluenceSourceMetadata,
+  SourceScope,
+} from '@/types/v2';
+import { CredentialManager, ApiClient, testConnection } from './utils';
+import { getIntegrationConnectionName } from '@/lib/v2/integrations/integration-config';
+
+interface ConfluenceCredentials {
+  baseUrl: string; // e.g., https://acme.atlassian.net
+  email: string;
+  apiToken: string;
+}
+
+interface ConfluenceConfig {
+  spaceKeys?: string[]; // Spaces to sync (all accessible spaces if empty)
+  labels?: string[]; // Only pages with one of these labels
+}
+
+interface ConfluencePage {
+  id: string;
+  type: string;
+  title: string;
+  space?: { key: string; name?: string };
+  version?: {
+    number: number;
+    when: string;
+    by?: { accountId: string; displayName?: string };
+  };
+  ancestors?: Array<{ title: string }>;
+  metadata?: { labels?: { results: Array<{ name: string }> } };
+  body?: { storage?: { value: string } };
+  _links?: { webui?: string };
+}
+
+interface ConfluenceSearchResponse {
+  results: ConfluencePage[];
+  size: number;
+  _links?: { next?: string };
+}
+
+const PAGE_EXPAND = 'body.storage,version,space,ancestors,metadata.labels';
+
+export class ConfluenceDiscoveryAdapter extends BaseDiscoveryAdapter<ConfluenceStagedSource> {
+  readonly sourceType = 'confluence' as const;
+  readonly displayName = 'Confluence Pages';
+
+  private credentialManager = new CredentialManager<ConfluenceCredentials, ConfluenceConfig>({
+    integrationType: 'confluence',
+    secretNames: ['confluence-base-url', 'confluence-email', 'confluence-api-token'],
+    envVarNames: ['CONFLUENCE_BASE_URL', 'CONFLUENCE_EMAIL', 'CONFLUENCE_API_TOKEN'],
+    parseCredentials: (secrets) => ({
+      baseUrl: (secrets['confluence-base-url'] || '').replace(/\/$/, ''),
+      email: secrets['confluence-email'] || '',
+      apiToken: secrets['confluence-api-token'] || '',
+    }),
+    parseConfig: (config) => config as ConfluenceConfig,
+    connectionNameResolver: (libraryId, customerId) =>
+      libraryId ? getIntegrationConnectionName('confluence', libraryId, customerId) : undefined,
+  });
+
+  /**
+   * Build an API client for the configured site.
+   */
+  private getApiClient(credentials: ConfluenceCredentials): ApiClient {
+    if (!credentials.baseUrl || !credentials.apiToken) {
+      throw new Error('Confluence credentials not configured');
+    }
+
+    const basic = Buffer.from(`${credentials.email}:${credentials.apiToken}`).toString('base64');
+    return new ApiClient({
+      baseUrl: `${credentials.baseUrl}/wiki/rest/api`,
+      getAuthHeaders: () => ({
+        'Authorization': `Basic ${basic}`,
+        'Accept': 'application/json',
+      }),
+    });
+  }
+
+  /**
+   * Discover pages from Confluence using CQL search.
+   */
+  async discover(options: DiscoveryOptions): Promise<DiscoveredSource<ConfluenceStagedSource>[]> {
+    const { credentials, config } = await this.credentialManager.load({
+      connectionId: options.connectionId,
+      libraryId: options.libraryId,
+      customerId: options.customerId,
+    });
+    const client = this.getApiClient(credentials);
+    const { since, limit = 50, config: overrideConfig } = options;
+
+    const finalConfig: ConfluenceConfig | undefined = overrideConfig
+      ? { ...config, ...(overrideConfig as ConfluenceConfig) }
+      : config;
+
+    const cql = this.buildCql(finalConfig, since);
+    const discovered: DiscoveredSource<ConfluenceStagedSource>[] = [];
+    let start = 0;
+
+    while (discovered.length < limit) {
+      const pageSize = Math.min(limit - discovered.length, 50);
+      const response = await client.get<ConfluenceSearchResponse>(
+        `/content/search?cql=${encodeURIComponent(cql)}&expand=${PAGE_EXPAND}&limit=${pageSize}&start=${start}`
+      );
+
+      for (const page of response.results) {
+        discovered.push(this.pageToSource(page, credentials.baseUrl));
+      }
+
+      if (!response._links?.next || response.results.length === 0) break;
+      start += response.results.length;
+    }
+
+    return discovered;
+  }
+
+  /**
+   * Build the CQL query for configured spaces, labels and modification date.
+   */
+  private buildCql(config: ConfluenceConfig | undefined, since?: Date): string {
+    const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+    const clauses = ['type = page'];
+
+    if (config?.spaceKeys?.length) {
+      clauses.push(`space in (${config.spaceKeys.map(quote).join(', ')})`);
+    }
+    if (config?.labels?.length) {
+      clauses.push(`label in (${config.labels.map(quote).join(', ')})`);
+    }
+    if (since) {
+      clauses.push(`lastmodified >= ${quote(since.toISOString().slice(0, 10))}`);
+    }
+
+    return `${clauses.join(' AND ')} order by lastmodified desc`;
+  }
+
+  /**
+   * Fetch the latest content for a page, using the connection of the
+   * library/customer the source belongs to.
+   */
+  async fetchContent(
+    externalId: string,
+    scope?: SourceScope
+  ): Promise<{ content: string | null; error?: string; isRetryable?: boolean }> {
+    try {
+      const { credentials } = await this.credentialManager.load(scope);
+      const client = this.getApiClient(credentials);
+      const page = await client.get<ConfluencePage>(`/content/${externalId}?expand=body.storage`);
+      return { content: storageToMarkdown(page.body?.storage?.value || '') };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { content: null, error: message, isRetryable: !message.startsWith('HTTP 404') };
+    }
+  }
+
+  /**
+   * Fetch the current page version number.
+   */
+  async fetchContentVersion(externalId: string, scope?: SourceScope): Promise<string | null> {
+    const { credentials } = await this.credentialManager.load(scope);
+    const client = this.getApiClient(credentials);
+    const page = await client.get<ConfluencePage>(`/content/${externalId}?expand=version`);
+    return page.version ? String(page.version.number) : null;
+  }
+
+  /**
+   * Convert a Confluence page to a discovered source.
+   */
+  private pageToSource(page: ConfluencePage, baseUrl: string): DiscoveredSource<ConfluenceStagedSource> {
+    const content = storageToMarkdown(page.body?.storage?.value || '');
+    const pageVersion = page.version?.number ?? 1;
+
+    const metadata: ConfluenceSourceMetadata = {
+      pageId: page.id,
+      spaceKey: page.space?.key || '',
+      spaceName: page.space?.name,
+      pageVersion,
+      contentVersion: String(pageVersion),
+      ancestors: page.ancestors?.map((a) => a.title),
+      labels: page.metadata?.labels?.results.map((l) => l.name),
+      lastEditedBy: page.version?.by
+        ? { accountId: page.version.by.accountId, name: page.version.by.displayName }
+        : undefined,
+      confluenceUpdatedAt: page.version?.when || new Date().toISOString(),
+      confluenceUrl: page._links?.webui ? `${baseUrl}/wiki${page._links.webui}` : undefined,
+    };
+
+    return {
+      externalId: page.id,
+      title: page.space?.key ? `[${page.space.key}] ${page.title}` : page.title,
+      content,
+      contentPreview: this.generatePreview(content),
+      metadata,
+    };
+  }
+
+  /**
+   * Drop cached credentials so newly stored secrets are used (after connect).
+   */
+  clearCredentialCache(): void {
+    this.credentialManager.clearCache();
+  }
+
+  /**
+   * Test Confluence connection.
+   */
+  async testConnection(scope?: SourceScope): Promise<{ success: boolean; error?: string }> {
+    return testConnection(async () => {
+      const { credentials } = await this.credentialManager.load(scope);
+      const client = this.getApiClient(credentials);
+      await client.get('/user/current');
+    });
+  }
+}
+
+/**
+ * Convert Confluence storage format (XHTML) to markdown-ish text.
+ * Keeps headings, list items and table rows readable for the LLM.
+ */
+export function storageToMarkdown(storage: string): string {
+  if (!storage) return '';
+
+  let text = storage
+    // Macros with a plain-text body (code, noformat) keep their content
+    .replace(/<ac:plain-text-body><!\[CDATA\[([\s\S]*?)\]\]><\/ac:plain-text-body>/g, '\n```\n$1\n```\n')
+    .replace(/<h([1-6])[^>]*>/gi, (_: string, level: string) => `\n${'#'.repeat(Number(level))} `)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<tr[^>]*>/gi, '\n| ')
+    .replace(/<\/?(p|div|br|ul|ol|table|tbody|thead|blockquote)\b[^>]*>/gi, '\n');
+
+  // Strip every remaining tag (including ac:/ri: macros)
+  text = text.replace(/<[^>]*>/g, '');
+
+  // Decode HTML entities - decode &amp; LAST to prevent double-unescaping.
+  text = text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_: string, dec: string) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_: string, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+  return text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Export singleton instance
+export const confluenceAdapter = new ConfluenceDiscoveryAdapter();
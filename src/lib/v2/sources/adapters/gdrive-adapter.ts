@@ -0,0 +1,364 @@
+/**
+ * Google Drive Discovery Adapter
+ *
+ * Discovers and stages files from Google Drive folders (including shared drives).
+ * Authenticates as a service account stored in AWS Secrets Manager; folders must
+ * be shared with the service account's email.
+ *
+ * Google Docs/Sheets/Slides are exported as text; uploaded files (PDF, DOCX,
+ * XLSX, PPTX, TXT) go through the shared document extractor. Drive file versions
+ * are recorded so content sync can detect edits.
+ */
+
+import { createSign } from 'crypto';
+import { BaseDiscoveryAdapter } from './base-adapter';
+import type {
+  DiscoveryOptions,
+  DiscoveredSource,
+  GDriveStagedSource,
+  GDriveSourceMetadata,
+} from '@/types/v2';
+import { CredentialManager, ApiClient, testConnection } from './utils';
+import { detectFileType, extractTextContent } from '@/lib/documentExtractor';
+import { getIntegrationConnectionName } from '@/lib/v2/integrations/integration-config';
+import { logger } from '@/lib/logger';
+
+const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
+const TOKEN_ENDPOINT = 'https://oauth2.googleapis.com/token';
+const DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive.readonly';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/** Export formats for native Google files */
+const EXPORT_MIME_TYPES: Record<string, string> = {
+  'application/vnd.google-apps.document': 'text/plain',
+  'application/vnd.google-apps.spreadsheet': 'text/csv',
+  'application/vnd.google-apps.presentation': 'text/plain',
+};
+
+const FILE_FIELDS =
+  'id,name,mimeType,modifiedTime,version,headRevisionId,size,webViewLink,parents,driveId,lastModifyingUser(displayName,emailAddress)';
+
+interface GDriveCredentials {
+  clientEmail: string;
+  privateKey: string;
+}
+
+interface GDriveConfig {
+  folderIds?: string[]; // Folders to sync recursively (all shared files if empty)
+  driveId?: string; // Restrict to one shared drive
+}
+
+interface DriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime: string;
+  version?: string;
+  headRevisionId?: string;
+  size?: string;
+  webViewLink?: string;
+  parents?: string[];
+  driveId?: string;
+  lastModifyingUser?: { displayName?: string; emailAddress?: string };
+}
+
+interface DriveFileList {
+  files: DriveFile[];
+  nextPageToken?: string;
+}
+
+export class GDriveDiscoveryAdapter extends BaseDiscoveryAdapter<GDriveStagedSource> {
+  readonly sourceType = 'gdrive' as const;
+  readonly displayName = 'Google Drive Files';
+
+  private credentialManager = new CredentialManager<GDriveCredentials, GDriveConfig>({
+    integrationType: 'gdrive',
+    secretNames: ['gdrive-service-account'],
+    envVarNames: ['GDRIVE_SERVICE_ACCOUNT_JSON'],
+    parseCredentials: (secrets) => {
+      const raw = secrets['gdrive-service-account'];
+      if (!raw) return { clientEmail: '', privateKey: '' };
+      const key = JSON.parse(raw) as { client_email?: string; private_key?: string };
+      return { clientEmail: key.client_email || '', privateKey: key.private_key || '' };
+    },
+    parseConfig: (config) => config as GDriveConfig,
+    connectionNameResolver: (libraryId, customerId) =>
+      libraryId ? getIntegrationConnectionName('gdrive', libraryId, customerId) : undefined,
+  });
+
+  private accessToken?: { value: string; expiresAt: number; clientEmail: string };
+
+  /**
+   * Exchange a signed service-account JWT for an access token (cached until expiry).
+   */
+  private async getAccessToken(credentials: GDriveCredentials): Promise<string> {
+    if (!credentials.clientEmail || !credentials.privateKey) {
+      throw new Error('Google Drive service account not configured');
+    }
+
+    if (
+      this.accessToken &&
+      this.accessToken.clientEmail === credentials.clientEmail &&
+      this.accessToken.expiresAt > Date.now() + 60_000
+    ) {
+      return this.accessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+      iss: credentials.clientEmail,
+      scope: DRIVE_SCOPE,
+      aud: TOKEN_ENDPOINT,
+      iat: now,
+      exp: now + 3600,
+    })}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(credentials.privateKey, 'base64url');
+
+    const response = await fetch(TOKEN_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: `${unsigned}.${signature}`,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Google token exchange failed: HTTP ${response.status}`);
+    }
+
+    const data = (await response.json()) as { access_token: string; expires_in?: number };
+    this.accessToken = {
+      value: data.access_token,
+      expiresAt: Date.now() + (data.expires_in || 3600) * 1000,
+      clientEmail: credentials.clientEmail,
+    };
+    return data.access_token;
+  }
+
+  private getApiClient(credentials: GDriveCredentials): ApiClient {
+    return new ApiClient({
+      baseUrl: DRIVE_API_BASE,
+      getAuthHeaders: async () => ({
+        'Authorization': `Bearer ${await this.getAccessToken(credentials)}`,
+      }),
+    });
+  }
+
+  /**
+   * Discover files from configured folders (recursively) or everything shared with the account.
+   */
+  async discover(options: DiscoveryOptions): Promise<DiscoveredSource<GDriveStagedSource>[]> {
+    const { credentials, config } = await this.credentialManager.load({
+      connectionId: options.connectionId,
+      libraryId: options.libraryId,
+      customerId: options.customerId,
+    });
+    const client = this.getApiClient(credentials);
+    const { since, limit = 50, config: overrideConfig } = options;
+
+    const finalConfig: GDriveConfig | undefined = overrideConfig
+      ? { ...config, ...(overrideConfig as GDriveConfig) }
+      : config;
+
+    const files: Array<{ file: DriveFile; folderId?: string }> = [];
+    const folderQueue = [...(finalConfig?.folderIds || [])];
+    const visited = new Set<string>();
+
+    if (folderQueue.length === 0) {
+      const listed = await this.listFiles(client, "trashed = false", finalConfig?.driveId, limit);
+      files.push(...listed.filter((f) => f.mimeType !== FOLDER_MIME_TYPE).map((file) => ({ file })));
+    }
+
+    while (folderQueue.length > 0 && files.length < limit) {
+      const folderId = folderQueue.shift()!;
+      if (visited.has(folderId)) continue;
+      visited.add(folderId);
+
+      const listed = await this.listFiles(
+        client,
+        `'${folderId.replace(/'/g, "\\'")}' in parents and trashed = false`,
+        finalConfig?.driveId
+      );
+      for (const file of listed) {
+        if (file.mimeType === FOLDER_MIME_TYPE) {
+          folderQueue.push(file.id);
+        } else {
+          files.push({ file, folderId });
+        }
+      }
+    }
+
+    const candidates = files
+      .filter(({ file }) => !since || new Date(file.modifiedTime) >= since)
+      .filter(({ file }) => this.isSupported(file))
+      .slice(0, limit);
+
+    const discovered: DiscoveredSource<GDriveStagedSource>[] = [];
+    for (const { file, folderId } of candidates) {
+      try {
+        const content = await this.downloadText(file, credentials);
+        discovered.push(this.fileToSource(file, content, folderId));
+      } catch (error) {
+        // Log error but continue with other files
+        logger.warn('Failed to fetch Google Drive file content', {
+          fileId: file.id,
+          mimeType: file.mimeType,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return discovered;
+  }
+
+  /**
+   * List files matching a Drive query, following pagination.
+   */
+  private async listFiles(
+    client: ApiClient,
+    query: string,
+    driveId?: string,
+    max: number = 1000
+  ): Promise<DriveFile[]> {
+    const files: DriveFile[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        q: query,
+        fields: `nextPageToken,files(${FILE_FIELDS})`,
+        pageSize: String(Math.min(max - files.length, 100)),
+        orderBy: 'modifiedTime desc',
+        supportsAllDrives: 'true',
+        includeItemsFromAllDrives: 'true',
+        ...(driveId && { corpora: 'drive', driveId }),
+        ...(pageToken && { pageToken }),
+      });
+      const response = await client.get<DriveFileList>(`/files?${params}`);
+      files.push(...response.files);
+      pageToken = response.nextPageToken;
+    } while (pageToken && files.length < max);
+
+    return files;
+  }
+
+  /**
+   * Whether we can extract text from this file.
+   */
+  private isSupported(file: DriveFile): boolean {
+    return Boolean(EXPORT_MIME_TYPES[file.mimeType] || detectFileType(file.name));
+  }
+
+  /**
+   * Download a file as text (export for native Google files, extract for uploads).
+   */
+  private async downloadText(file: DriveFile, credentials: GDriveCredentials): Promise<string> {
+    const exportMimeType = EXPORT_MIME_TYPES[file.mimeType];
+    const url = exportMimeType
+      ? `${DRIVE_API_BASE}/files/${file.id}/export?mimeType=${encodeURIComponent(exportMimeType)}`
+      : `${DRIVE_API_BASE}/files/${file.id}?alt=media&supportsAllDrives=true`;
+
+    const response = await fetch(url, {
+      headers: { 'Authorization': `Bearer ${await this.getAccessToken(credentials)}` },
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    if (exportMimeType) {
+      return (await response.text()).trim();
+    }
+
+    const fileType = detectFileType(file.name);
+    if (!fileType) {
+      throw new Error(`Unsupported file type: ${file.name}`);
+    }
+    return extractTextContent(Buffer.from(await response.arrayBuffer()), fileType);
+  }
+
+  /**
+   * Fetch the latest content for a file.
+   */
+  async fetchContent(
+    externalId: string
+  ): Promise<{ content: string | null; error?: string; isRetryable?: boolean }> {
+    try {
+      const { credentials } = await this.credentialManager.load();
+      const client = this.getApiClient(credentials);
+      const file = await client.get<DriveFile>(`/files/${externalId}?fields=${FILE_FIELDS}&supportsAllDrives=true`);
+      return { content: await this.downloadText(file, credentials) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { content: null, error: message, isRetryable: !message.startsWith('HTTP 404') };
+    }
+  }
+
+  /**
+   * Fetch the current Drive file version.
+   */
+  async fetchContentVersion(externalId: string): Promise<string | null> {
+    const { credentials } = await this.credentialManager.load();
+    const client = this.getApiClient(credentials);
+    const file = await client.get<DriveFile>(
+      `/files/${externalId}?fields=version,modifiedTime&supportsAllDrives=true`
+    );
+    return file.version || file.modifiedTime || null;
+  }
+
+  /**
+   * Convert a Drive file to a discovered source.
+   */
+  private fileToSource(
+    file: DriveFile,
+    content: string,
+    folderId?: string
+  ): DiscoveredSource<GDriveStagedSource> {
+    const metadata: GDriveSourceMetadata = {
+      fileId: file.id,
+      mimeType: file.mimeType,
+      folderId: folderId || file.parents?.[0],
+      driveId: file.driveId,
+      headRevisionId: file.headRevisionId,
+      fileVersion: file.version,
+      contentVersion: file.version || file.modifiedTime,
+      fileSize: file.size ? parseInt(file.size, 10) : undefined,
+      lastModifiedBy: file.lastModifyingUser
+        ? { email: file.lastModifyingUser.emailAddress, name: file.lastModifyingUser.displayName }
+        : undefined,
+      driveModifiedAt: file.modifiedTime,
+      webViewLink: file.webViewLink,
+    };
+
+    return {
+      externalId: file.id,
+      title: file.name,
+      content,
+      contentPreview: this.generatePreview(content),
+      metadata,
+    };
+  }
+
+  /**
+   * Drop cached credentials so newly stored secrets are used (after connect).
+   */
+  clearCredentialCache(): void {
+    this.credentialManager.clearCache();
+    this.accessToken = undefined;
+  }
+
+  /**
+   * Test Google Drive connection.
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    return testConnection(async () => {
+      const { credentials } = await this.credentialManager.load();
+      const client = this.getApiClient(credentials);
+      await client.get('/about?fields=user');
+    });
+  }
+}
+
+// Export singleton instance
+export const gdriveAdapter = new GDriveDiscoveryAdapter();
@@ -12,6 +12,8 @@ export * from './notion-adapter';
 export * from './gong-adapter';
 export * from './document-adapter';
 export * from './looker-adapter';
+export * from './confluence-adapter';
+export * from './gdrive-adapter';
 
 // Import adapters for registration
 import { urlAdapter } from './url-adapter';
@@ -21,6 +23,8 @@ import { notionAdapter } from './notion-adapter';
 import { gongAdapter } from './gong-adapter';
 import { documentAdapter } from './document-adapter';
 import { lookerAdapter } from './looker-adapter';
+import { confluenceAdapter } from './confluence-adapter';
+import { gdriveAdapter } from './gdrive-adapter';
 import { registerAdapter } from './base-adapter';
 import type { TypedStagedSource } from '@/types/v2';
 import type { BaseDiscoveryAdapter } from './base-adapter';
@@ -33,6 +37,8 @@ registerAdapter(notionAdapter as BaseDiscoveryAdapter<TypedStagedSource>);
 registerAdapter(gongAdapter as BaseDiscoveryAdapter<TypedStagedSource>);
 registerAdapter(documentAdapter as BaseDiscoveryAdapter<TypedStagedSource>);
 registerAdapter(lookerAdapter as BaseDiscoveryAdapter<TypedStagedSource>);
+registerAdapter(confluenceAdapter as BaseDiscoveryAdapter<TypedStagedSource>);
+registerAdapter(gdriveAdapter as BaseDiscoveryAdapter<TypedStagedSource>);
 
 // Export individual adapters for direct use
 export const adapters = {
@@ -43,4 +49,6 @@ export const adapters = {
   gong: gongAdapter,
   document: documentAdapter,
   looker: lookerAdapter,
+  confluence: confluenceAdapter,
+  gdrive: gdriveAdapter,
 } as const;
@@ -43,10 +43,13 @@ export class CredentialManager<TCreds = Record<string, unknown>, TConfig = Recor
   }
 
   /**
-   * Load credentials and config, with caching per connection ID and TTL
+   * Load credentials and config, with caching per connection (or team/library/customer scope) and TTL
    */
   async load(options?: CredentialLoadOptions): Promise<CredentialLoadResult<TCreds, TConfig>> {
-    const cacheKey = options?.connectionId || 'default';
+    const scopeKey = [options?.teamId, options?.libraryId, options?.customerId].some(Boolean)
+      ? `scope:${options?.teamId || ''}:${options?.libraryId || ''}:${options?.customerId || ''}`
+      : 'default';
+    const cacheKey = options?.connectionId || scopeKey;
 
     // Check credential cache (if valid)
     const cachedEntry = this.credentialCache.get(cacheKey);
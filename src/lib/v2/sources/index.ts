@@ -5,3 +5,5 @@ export * from './staged-source-service';
 export * from './adapters';
 export * from './source-linking-service';
 export * from './source-content-sync-service';
+export * from './source-resync-service';
+export * from './document-processing-service';
@@ -9,10 +9,12 @@
  * - Lazy sync: Content fetched only when needed (first view or explicit refresh)
  * - Adapter-based: Uses DiscoveryAdapter.fetchContent() for each source type
  * - Tracks sync state: Records when content was last synced
+ * - Change detection: Sources that record metadata.contentVersion (Confluence
+ *   page version, Drive file revision) can be compared against upstream
  */
 
 import { prisma } from '@/lib/prisma';
-import type { SourceType, TypedStagedSource } from '@/types/v2';
+import type { LibraryId, SourceType, TypedStagedSource } from '@/types/v2';
 import { toTypedSource } from '@/types/v2/staged-source';
 import { getAdapter } from './adapters';
 import { logger } from '@/lib/logger';
@@ -44,6 +46,15 @@ interface LinkedSourceMetadata {
   };
   contentSyncedAt?: string;
   contentSyncError?: string;
+  contentVersion?: string;
+}
+
+export interface UpstreamChangeResult {
+  sourceId: string;
+  changed: boolean;
+  currentVersion?: string;
+  latestVersion?: string;
+  error?: string;
 }
 
 // =============================================================================
@@ -111,7 +122,10 @@ export async function syncSourceContent(sourceId: string): Promise<SyncResult> {
   }
 
   try {
-    const fetchResult = await adapter.fetchContent(source.externalId);
+    const fetchResult = await adapter.fetchContent(source.externalId, {
+      libraryId: source.libraryId as LibraryId,
+      customerId: source.customerId,
+    });
 
     // Handle new return type (object with content/error) or legacy (string | null)
     const content =
@@ -211,6 +225,104 @@ export async function syncSourcesContent(sourceIds: string[]): Promise<BulkSyncR
   return result;
 }
 
+// =============================================================================
+// UPSTREAM CHANGE DETECTION
+// =============================================================================
+
+/**
+ * Compare a source's stored contentVersion against the upstream version.
+ * Only adapters implementing fetchContentVersion support this; others report unchanged.
+ */
+export async function checkForUpstreamChange(sourceId: string): Promise<UpstreamChangeResult> {
+  const source = await prisma.stagedSource.findUnique({
+    where: { id: sourceId },
+    select: { sourceType: true, externalId: true, metadata: true, libraryId: true, customerId: true },
+  });
+
+  if (!source) {
+    return { sourceId, changed: false, error: 'Source not found' };
+  }
+
+  const metadata = (source.metadata || {}) as LinkedSourceMetadata;
+  const adapter = getAdapter(source.sourceType as SourceType);
+  if (!adapter?.fetchContentVersion) {
+    return { sourceId, changed: false, currentVersion: metadata.contentVersion };
+  }
+
+  try {
+    const latestVersion = await adapter.fetchContentVersion(source.externalId, {
+      libraryId: source.libraryId as LibraryId,
+      customerId: source.customerId ?? undefined,
+    });
+    if (!latestVersion) {
+      return { sourceId, changed: false, currentVersion: metadata.contentVersion };
+    }
+
+    return {
+      sourceId,
+      changed: latestVersion !== metadata.contentVersion,
+      currentVersion: metadata.contentVersion,
+      latestVersion,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn('Failed to check upstream content version', error, {
+      sourceId,
+      sourceType: source.sourceType,
+    });
+    return { sourceId, changed: false, currentVersion: metadata.contentVersion, error: errorMessage };
+  }
+}
+
+/**
+ * Re-fetch content for a source whose upstream version has changed.
+ * Records the new contentVersion so later checks compare against it.
+ */
+export async function refreshSourceIfChanged(sourceId: string): Promise<UpstreamChangeResult> {
+  const check = await checkForUpstreamChange(sourceId);
+  if (!check.changed || !check.latestVersion) {
+    return check;
+  }
+
+  const source = await prisma.stagedSource.findUnique({ where: { id: sourceId } });
+  const adapter = source ? getAdapter(source.sourceType as SourceType) : undefined;
+  if (!source || !adapter?.fetchContent) {
+    return { ...check, error: 'No content fetcher available' };
+  }
+
+  const fetchResult = await adapter.fetchContent(source.externalId);
+  const content = typeof fetchResult === 'object' && fetchResult !== null ? fetchResult.content : fetchResult;
+  if (!content) {
+    const errorMsg =
+      (typeof fetchResult === 'object' && fetchResult?.error) || 'No content available from external source';
+    return { ...check, error: errorMsg };
+  }
+
+  const preview = content.substring(0, 200) + (content.length > 200 ? '...' : '');
+  await prisma.stagedSource.update({
+    where: { id: sourceId },
+    data: {
+      content,
+      contentPreview: preview,
+      metadata: {
+        ...(source.metadata as object),
+        contentVersion: check.latestVersion,
+        contentSyncedAt: new Date().toISOString(),
+        contentSyncError: null,
+      },
+    },
+  });
+
+  logger.info('Refreshed source after upstream change', {
+    sourceId,
+    sourceType: source.sourceType,
+    fromVersion: check.currentVersion,
+    toVersion: check.latestVersion,
+  });
+
+  return check;
+}
+
 // =============================================================================
 // SYNC STATUS
 // =============================================================================
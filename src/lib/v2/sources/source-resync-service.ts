@@ -0,0 +1,300 @@
+/**
+ * Source Re-sync Service
+ *
+ * Scheduled, incremental re-sync of staged sources per IntegrationConnection.
+ * A connection opts in by storing a cron expression in `config.syncSchedule`
+ * (evaluated in UTC). When due, discovery is re-run for items modified since
+ * the last sync, content hashes are compared with the stored StagedSource
+ * content, and changed sources are flagged on the skills that incorporated
+ * them (SourceAssignment.sourceChangedAt) so refresh follows real changes.
+ *
+ * New items are left for the normal discover/stage flow - re-sync only
+ * updates sources that are already staged.
+ */
+
+import { createHash } from 'crypto';
+import { parseExpression } from 'cron-parser';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { addJob, QUEUE_NAMES } from '@/lib/queue';
+import { resolveConnectionScope } from '@/lib/v2/integrations/integration-config';
+import type { LibraryId, SourceType } from '@/types/v2';
+import { getAdapter } from './adapters';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ResyncResult {
+  connectionId: string;
+  integrationType: string;
+  libraryId: string;
+  discovered: number;
+  changed: number;
+  unchanged: number;
+  newSources: number;
+  skillsFlagged: number;
+}
+
+export interface SkillWithUpdatedSources {
+  id: string;
+  title: string;
+  slug: string | null;
+  changedSources: Array<{ id: string; title: string; sourceType: string; changedAt: string }>;
+}
+
+/** Upper bound on items re-discovered per connection per run */
+const RESYNC_DISCOVERY_LIMIT = 200;
+
+// =============================================================================
+// SCHEDULES
+// =============================================================================
+
+/**
+ * Validate a cron expression. Returns an error message, or null when valid.
+ */
+export function validateSyncSchedule(schedule: string): string | null {
+  if (schedule.trim().split(/\s+/).length !== 5) {
+    return 'Schedule must be a 5-field cron expression (minute hour day month weekday)';
+  }
+  try {
+    parseExpression(schedule, { tz: 'UTC' });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+/**
+ * Next time the schedule fires after `after`.
+ */
+export function getNextSyncAt(schedule: string, after: Date): Date {
+  return parseExpression(schedule, { currentDate: after, tz: 'UTC' }).next().toDate();
+}
+
+/**
+ * A connection is due when the schedule has fired since its last sync.
+ * Connections that have never synced are due immediately.
+ */
+export function isResyncDue(schedule: string, lastSyncAt: Date | null, now: Date = new Date()): boolean {
+  if (!lastSyncAt) return true;
+  return getNextSyncAt(schedule, lastSyncAt) <= now;
+}
+
+/**
+ * Read the cron expression stored on a connection config, if any.
+ */
+export function getSyncSchedule(config: unknown): string | null {
+  const schedule = (config as Record<string, unknown> | null)?.syncSchedule;
+  return typeof schedule === 'string' && schedule.trim() ? schedule.trim() : null;
+}
+
+/**
+ * Queue a re-sync job for every active connection whose schedule is due.
+ *
+ * Each connection is claimed by advancing lastSyncAt with a compare-and-set,
+ * so several worker processes never queue the same run twice.
+ */
+export async function scheduleDueResyncs(now: Date = new Date()): Promise<number> {
+  const connections = await prisma.integrationConnection.findMany({
+    where: { status: 'ACTIVE' },
+    select: { id: true, integrationType: true, config: true, lastSyncAt: true },
+  });
+
+  let queued = 0;
+  for (const connection of connections) {
+    const schedule = getSyncSchedule(connection.config);
+    if (!schedule || validateSyncSchedule(schedule)) continue;
+    if (!isResyncDue(schedule, connection.lastSyncAt, now)) continue;
+
+    const { count } = await prisma.integrationConnection.updateMany({
+      where: { id: connection.id, lastSyncAt: connection.lastSyncAt },
+      data: { lastSyncAt: now },
+    });
+    if (count === 0) continue;
+
+    await addJob(QUEUE_NAMES.INTEGRATION_DISCOVERY, 'resync_connection', {
+      type: 'resync_connection',
+      connectionId: connection.id,
+      since: connection.lastSyncAt?.toISOString(),
+    });
+    queued++;
+  }
+
+  return queued;
+}
+
+// =============================================================================
+// RE-SYNC
+// =============================================================================
+
+/**
+ * SHA-256 of source content, used to detect upstream edits.
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Re-run discovery for a connection and update staged sources whose content changed.
+ * Skills that already incorporated a changed source get sourceChangedAt set.
+ */
+export async function resyncConnection(connectionId: string, since?: Date): Promise<ResyncResult> {
+  const connection = await prisma.integrationConnection.findUnique({ where: { id: connectionId } });
+  if (!connection) {
+    throw new Error(`Integration connection ${connectionId} not found`);
+  }
+
+  const integrationType = connection.integrationType;
+  const scope = resolveConnectionScope(
+    integrationType,
+    connection.name,
+    (connection.config as Record<string, unknown>) || {}
+  );
+  if (!scope) {
+    throw new Error(`Cannot determine library for connection "${connection.name}"`);
+  }
+
+  const adapter = getAdapter(integrationType as SourceType);
+  if (!adapter) {
+    throw new Error(`No discovery adapter for integration type: ${integrationType}`);
+  }
+
+  const result: ResyncResult = {
+    connectionId,
+    integrationType,
+    libraryId: scope.libraryId,
+    discovered: 0,
+    changed: 0,
+    unchanged: 0,
+    newSources: 0,
+    skillsFlagged: 0,
+  };
+
+  try {
+    const discovered = await adapter.discover({
+      connectionId,
+      libraryId: scope.libraryId as LibraryId,
+      customerId: scope.customerId,
+      since,
+      limit: RESYNC_DISCOVERY_LIMIT,
+    });
+    result.discovered = discovered.length;
+
+    const flaggedBlocks = new Set<string>();
+    const now = new Date();
+
+    for (const item of discovered) {
+      const existing = await prisma.stagedSource.findFirst({
+        where: {
+          sourceType: integrationType,
+          externalId: item.externalId,
+          libraryId: scope.libraryId,
+          customerId: scope.customerId ?? null,
+        },
+        select: { id: true, content: true, metadata: true },
+      });
+
+      if (!existing) {
+        result.newSources++;
+        continue;
+      }
+
+      if (!item.content || (existing.content && hashContent(existing.content) === hashContent(item.content))) {
+        result.unchanged++;
+        continue;
+      }
+
+      await prisma.stagedSource.update({
+        where: { id: existing.id },
+        data: {
+          title: item.title,
+          content: item.content,
+          contentPreview: item.contentPreview,
+          metadata: {
+            ...((existing.metadata as object) || {}),
+            ...((item.metadata as object) || {}),
+            contentHash: hashContent(item.content),
+            contentChangedAt: now.toISOString(),
+          } as Prisma.InputJsonValue,
+        },
+      });
+      result.changed++;
+
+      // Only flag skills that already used the old content
+      if (!existing.content) continue;
+      const assignments = await prisma.sourceAssignment.findMany({
+        where: { stagedSourceId: existing.id, incorporatedAt: { not: null } },
+        select: { blockId: true },
+      });
+      if (assignments.length === 0) continue;
+
+      await prisma.sourceAssignment.updateMany({
+        where: { stagedSourceId: existing.id, incorporatedAt: { not: null } },
+        data: { sourceChangedAt: now },
+      });
+      assignments.forEach((a) => flaggedBlocks.add(a.blockId));
+    }
+
+    result.skillsFlagged = flaggedBlocks.size;
+
+    await prisma.integrationConnection.update({
+      where: { id: connectionId },
+      data: { lastError: null },
+    });
+
+    logger.info('Scheduled source re-sync completed', { ...result });
+    return result;
+  } catch (error) {
+    await prisma.integrationConnection.update({
+      where: { id: connectionId },
+      data: { lastError: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    throw error;
+  }
+}
+
+// =============================================================================
+// SKILL FLAGS
+// =============================================================================
+
+/**
+ * Active skills in a library with incorporated sources that changed upstream.
+ */
+export async function getSkillsWithUpdatedSources(
+  libraryId: LibraryId,
+  customerId?: string
+): Promise<SkillWithUpdatedSources[]> {
+  const assignments = await prisma.sourceAssignment.findMany({
+    where: {
+      sourceChangedAt: { not: null },
+      block: { libraryId, status: 'ACTIVE', ...(customerId && { customerId }) },
+    },
+    orderBy: { sourceChangedAt: 'desc' },
+    select: {
+      sourceChangedAt: true,
+      block: { select: { id: true, title: true, slug: true } },
+      stagedSource: { select: { id: true, title: true, sourceType: true } },
+    },
+  });
+
+  const skills = new Map<string, SkillWithUpdatedSources>();
+  for (const { block, stagedSource, sourceChangedAt } of assignments) {
+    const skill = skills.get(block.id) ?? { ...block, changedSources: [] };
+    skill.changedSources.push({ ...stagedSource, changedAt: sourceChangedAt!.toISOString() });
+    skills.set(block.id, skill);
+  }
+
+  return Array.from(skills.values());
+}
+
+/**
+ * Clear upstream-change flags once a skill has been refreshed.
+ */
+export async function clearSourceChangeFlags(blockId: string): Promise<void> {
+  await prisma.sourceAssignment.updateMany({
+    where: { blockId, sourceChangedAt: { not: null } },
+    data: { sourceChangedAt: null },
+  });
+}
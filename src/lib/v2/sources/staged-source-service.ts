@@ -20,11 +20,26 @@ import {
   toTypedSource,
 } from '@/types/v2';
 import type { LibraryId } from '@/types/v2';
+import { recordAuditEvent, recordAuditEvents, type AuditEvent } from '@/lib/v2/audit-log';
 
 // =============================================================================
 // STAGE SOURCES
 // =============================================================================
 
+function stagedEvent(
+  eventType: 'source.staged' | 'source.restaged',
+  source: { id: string; title: string; sourceType: string; libraryId: string },
+  stagedBy?: string
+): AuditEvent {
+  return {
+    eventType,
+    actorId: stagedBy,
+    targetType: 'source',
+    targetId: source.id,
+    data: { title: source.title, sourceType: source.sourceType, libraryId: source.libraryId },
+  };
+}
+
 /**
  * Stage a new source for triage.
  * If the source already exists (same sourceType + externalId + libraryId), update it.
@@ -56,6 +71,9 @@ export async function stageSource<T extends TypedStagedSource>(
         ignoredBy: null,
       },
     });
+
+    await recordAuditEvent(stagedEvent('source.restaged', source, input.stagedBy));
+
     return toTypedSource(source) as T;
   }
 
@@ -74,6 +92,8 @@ export async function stageSource<T extends TypedStagedSource>(
     },
   });
 
+  await recordAuditEvent(stagedEvent('source.staged', source, input.stagedBy));
+
   return toTypedSource(source) as T;
 }
 
@@ -85,6 +105,7 @@ export async function stageSources(
 ): Promise<{ staged: number; updated: number }> {
   let staged = 0;
   let updated = 0;
+  const events: AuditEvent[] = [];
 
   // Use transaction for atomicity
   await prisma.$transaction(async (tx) => {
@@ -99,7 +120,7 @@ export async function stageSources(
       });
 
       if (existing) {
-        await tx.stagedSource.update({
+        const source = await tx.stagedSource.update({
           where: { id: existing.id },
           data: {
             title: input.title,
@@ -110,9 +131,10 @@ export async function stageSources(
             ignoredBy: null,
           },
         });
+        events.push(stagedEvent('source.restaged', source, input.stagedBy));
         updated++;
       } else {
-        await tx.stagedSource.create({
+        const source = await tx.stagedSource.create({
           data: {
             sourceType: input.sourceType,
             externalId: input.externalId,
@@ -125,11 +147,15 @@ export async function stageSources(
             stagedBy: input.stagedBy,
           },
         });
+        events.push(stagedEvent('source.staged', source, input.stagedBy));
         staged++;
       }
     }
   });
 
+  // Recorded after commit so a rolled-back batch leaves no audit trail
+  await recordAuditEvents(events);
+
   return { staged, updated };
 }
 
@@ -302,6 +328,14 @@ export async function assignSourceToBlock(
     },
   });
 
+  await recordAuditEvent({
+    eventType: 'source.assigned',
+    actorId: input.assignedBy,
+    targetType: 'assignment',
+    targetId: assignment.id,
+    data: { stagedSourceId: input.stagedSourceId, blockId: input.blockId },
+  });
+
   return {
     ...assignment,
     stagedSource: toTypedSource(assignment.stagedSource),
@@ -360,6 +394,14 @@ export async function markAssignmentIncorporated(
     include: { stagedSource: true },
   });
 
+  await recordAuditEvent({
+    eventType: 'source.incorporated',
+    actorId: incorporatedBy,
+    targetType: 'assignment',
+    targetId: assignment.id,
+    data: { stagedSourceId: assignment.stagedSourceId, blockId: assignment.blockId },
+  });
+
   return {
     ...assignment,
     stagedSource: toTypedSource(assignment.stagedSource),
@@ -369,10 +411,18 @@ export async function markAssignmentIncorporated(
 /**
  * Remove an assignment.
  */
-export async function removeAssignment(assignmentId: string): Promise<void> {
-  await prisma.sourceAssignment.delete({
+export async function removeAssignment(assignmentId: string, actorId?: string): Promise<void> {
+  const assignment = await prisma.sourceAssignment.delete({
     where: { id: assignmentId },
   });
+
+  await recordAuditEvent({
+    eventType: 'source.unassigned',
+    actorId,
+    targetType: 'assignment',
+    targetId: assignment.id,
+    data: { stagedSourceId: assignment.stagedSourceId, blockId: assignment.blockId },
+  });
 }
 
 // =============================================================================
@@ -394,13 +444,21 @@ export async function ignoreSource(
     },
   });
 
+  await recordAuditEvent({
+    eventType: 'source.ignored',
+    actorId: ignoredBy,
+    targetType: 'source',
+    targetId: source.id,
+    data: { title: source.title, libraryId: source.libraryId },
+  });
+
   return toTypedSource(source);
 }
 
 /**
  * Unignore a staged source (will reappear in pending list).
  */
-export async function unignoreSource(id: string): Promise<TypedStagedSource> {
+export async function unignoreSource(id: string, actorId?: string): Promise<TypedStagedSource> {
   const source = await prisma.stagedSource.update({
     where: { id },
     data: {
@@ -409,6 +467,14 @@ export async function unignoreSource(id: string): Promise<TypedStagedSource> {
     },
   });
 
+  await recordAuditEvent({
+    eventType: 'source.unignored',
+    actorId,
+    targetType: 'source',
+    targetId: source.id,
+    data: { title: source.title, libraryId: source.libraryId },
+  });
+
   return toTypedSource(source);
 }
 
@@ -427,6 +493,16 @@ export async function ignoreSources(
     },
   });
 
+  await recordAuditEvents(
+    ids.map((id): AuditEvent => ({
+      eventType: 'source.ignored',
+      actorId: ignoredBy,
+      targetType: 'source',
+      targetId: id,
+      data: { bulk: true },
+    }))
+  );
+
   return { ignored: result.count };
 }
 
@@ -437,10 +513,18 @@ export async function ignoreSources(
 /**
  * Delete a staged source and its assignments.
  */
-export async function deleteSource(id: string): Promise<void> {
-  await prisma.stagedSource.delete({
+export async function deleteSource(id: string, actorId?: string): Promise<void> {
+  const source = await prisma.stagedSource.delete({
     where: { id },
   });
+
+  await recordAuditEvent({
+    eventType: 'source.deleted',
+    actorId,
+    targetType: 'source',
+    targetId: source.id,
+    data: { title: source.title, sourceType: source.sourceType, libraryId: source.libraryId },
+  });
 }
 
 /**
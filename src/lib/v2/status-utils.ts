@@ -57,6 +57,8 @@ export function getReviewStatusLabel(status?: string): string {
       return 'Flagged';
     case 'RESOLVED':
       return 'Resolved';
+    case 'REJECTED':
+      return 'Rejected';
     default:
       return status;
   }
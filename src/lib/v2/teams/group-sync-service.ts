@@ -0,0 +1,371 @@
+/**
+ * GroupSyncService - Derive team membership from identity provider groups
+ *
+ * A user's directory groups come from the Okta `groups` claim on every
+ * sign-in and from SCIM Group pushes. GroupTeamMapping rows turn those
+ * groups into TeamMembership rows with source = 'directory':
+ * - A mapped group adds the user to the team with the mapped role
+ * - Several groups mapping to one team grant the highest role
+ * - Directory memberships the groups no longer justify are removed
+ * - Manual memberships (added through the teams API) are never touched,
+ *   except that a deactivated user loses every membership
+ *
+ * Every change is recorded as a team.member.* audit event.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { GroupTeamMapping } from '@prisma/client';
+import { recordAuditEvent, recordAuditEvents, type AuditEvent } from '@/lib/v2/audit-log';
+import type { TeamRole } from './team-service';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** What triggered a sync - recorded on each membership audit event */
+export type GroupSyncTrigger = 'okta_sign_in' | 'scim' | 'group_mapping';
+
+export interface CurrentMembership {
+  teamId: string;
+  role: string;
+  source: string;
+}
+
+export interface MembershipPlan {
+  add: { teamId: string; role: TeamRole }[];
+  update: { teamId: string; from: string; to: TeamRole }[];
+  remove: { teamId: string; role: string; source: string }[];
+}
+
+export interface GroupSyncResult {
+  userId: string;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export interface GroupMappingWithTeam extends GroupTeamMapping {
+  team: { id: string; name: string; slug: string };
+}
+
+export const DIRECTORY_MEMBERSHIP_SOURCE = 'directory';
+
+const ROLE_RANK: Record<TeamRole, number> = { viewer: 0, member: 1, admin: 2 };
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+function isTeamRole(role: string): role is TeamRole {
+  return role in ROLE_RANK;
+}
+
+/**
+ * Team -> role implied by a user's groups. The highest role wins when several
+ * groups map to the same team.
+ */
+export function resolveDesiredMemberships(
+  groupNames: string[],
+  mappings: Pick<GroupTeamMapping, 'groupName' | 'teamId' | 'role'>[]
+): Map<string, TeamRole> {
+  const groups = new Set(groupNames);
+  const desired = new Map<string, TeamRole>();
+
+  for (const mapping of mappings) {
+    if (!groups.has(mapping.groupName) || !isTeamRole(mapping.role)) continue;
+
+    const current = desired.get(mapping.teamId);
+    if (!current || ROLE_RANK[mapping.role] > ROLE_RANK[current]) {
+      desired.set(mapping.teamId, mapping.role);
+    }
+  }
+
+  return desired;
+}
+
+/**
+ * Work out which memberships to add, update and remove. When the user is
+ * inactive every membership is removed, manual ones included.
+ */
+export function planMembershipChanges(
+  current: CurrentMembership[],
+  desired: Map<string, TeamRole>,
+  active = true
+): MembershipPlan {
+  const plan: MembershipPlan = { add: [], update: [], remove: [] };
+
+  if (!active) {
+    plan.remove = current.map(({ teamId, role, source }) => ({ teamId, role, source }));
+    return plan;
+  }
+
+  const currentByTeam = new Map(current.map((membership) => [membership.teamId, membership]));
+
+  for (const [teamId, role] of desired) {
+    const existing = currentByTeam.get(teamId);
+    if (!existing) {
+      plan.add.push({ teamId, role });
+    } else if (existing.source === DIRECTORY_MEMBERSHIP_SOURCE && existing.role !== role) {
+      plan.update.push({ teamId, from: existing.role, to: role });
+    }
+  }
+
+  for (const membership of current) {
+    if (membership.source === DIRECTORY_MEMBERSHIP_SOURCE && !desired.has(membership.teamId)) {
+      plan.remove.push({ teamId: membership.teamId, role: membership.role, source: membership.source });
+    }
+  }
+
+  return plan;
+}
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+/**
+ * Bring a user's team memberships in line with their directory groups.
+ */
+export async function reconcileUserMemberships(
+  userId: string,
+  trigger: GroupSyncTrigger,
+  actorId?: string
+): Promise<GroupSyncResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      active: true,
+      teamMemberships: { select: { teamId: true, role: true, source: true } },
+      directoryGroups: { select: { group: { select: { displayName: true } } } },
+    },
+  });
+
+  if (!user) {
+    return { userId, added: 0, updated: 0, removed: 0 };
+  }
+
+  const groupNames = user.directoryGroups.map((member) => member.group.displayName);
+  const mappings =
+    groupNames.length > 0
+      ? await prisma.groupTeamMapping.findMany({
+          where: { groupName: { in: groupNames } },
+          select: { groupName: true, teamId: true, role: true },
+        })
+      : [];
+
+  const plan = planMembershipChanges(
+    user.teamMemberships,
+    resolveDesiredMemberships(groupNames, mappings),
+    user.active
+  );
+
+  if (plan.add.length === 0 && plan.update.length === 0 && plan.remove.length === 0) {
+    return { userId, added: 0, updated: 0, removed: 0 };
+  }
+
+  await prisma.$transaction([
+    ...plan.add.map(({ teamId, role }) =>
+      prisma.teamMembership.create({
+        data: { userId, teamId, role, source: DIRECTORY_MEMBERSHIP_SOURCE },
+      })
+    ),
+    ...plan.update.map(({ teamId, to }) =>
+      prisma.teamMembership.update({
+        where: { userId_teamId: { userId, teamId } },
+        data: { role: to },
+      })
+    ),
+    ...(plan.remove.length > 0
+      ? [
+          prisma.teamMembership.deleteMany({
+            where: { userId, teamId: { in: plan.remove.map((membership) => membership.teamId) } },
+          }),
+        ]
+      : []),
+  ]);
+
+  const event = (teamId: string): Omit<AuditEvent, 'eventType' | 'data'> => ({
+    actorId: actorId ?? null,
+    actorType: actorId ? undefined : 'system',
+    targetType: 'team',
+    targetId: teamId,
+    teamId,
+  });
+
+  await recordAuditEvents([
+    ...plan.add.map(({ teamId, role }): AuditEvent => ({
+      ...event(teamId),
+      eventType: 'team.member.added',
+      data: { userId, role, source: DIRECTORY_MEMBERSHIP_SOURCE, trigger, groups: groupNames },
+    })),
+    ...plan.update.map(({ teamId, from, to }): AuditEvent => ({
+      ...event(teamId),
+      eventType: 'team.member.role_changed',
+      data: { userId, role: { from, to }, source: DIRECTORY_MEMBERSHIP_SOURCE, trigger, groups: groupNames },
+    })),
+    ...plan.remove.map(({ teamId, role, source }): AuditEvent => ({
+      ...event(teamId),
+      eventType: 'team.member.removed',
+      data: { userId, role, source, trigger, deactivated: !user.active },
+    })),
+  ]);
+
+  return { userId, added: plan.add.length, updated: plan.update.length, removed: plan.remove.length };
+}
+
+/**
+ * Reconcile several users (e.g. everyone in a group whose mapping changed).
+ */
+export async function reconcileUsersMemberships(
+  userIds: string[],
+  trigger: GroupSyncTrigger,
+  actorId?: string
+): Promise<GroupSyncResult[]> {
+  const results: GroupSyncResult[] = [];
+  for (const userId of Array.from(new Set(userIds))) {
+    results.push(await reconcileUserMemberships(userId, trigger, actorId));
+  }
+  return results;
+}
+
+/**
+ * Replace a user's directory groups with the groups from an Okta sign-in and
+ * reconcile their memberships. Unknown groups are created so that mappings
+ * added later apply on the next sign-in without waiting for SCIM.
+ */
+export async function syncUserGroupsFromSignIn(userId: string, groupNames: string[]): Promise<GroupSyncResult> {
+  const names = Array.from(new Set(groupNames.map((name) => name.trim()).filter(Boolean)));
+
+  const groups = await Promise.all(
+    names.map((displayName) =>
+      prisma.directoryGroup.upsert({
+        where: { displayName },
+        update: {},
+        create: { displayName },
+        select: { id: true },
+      })
+    )
+  );
+  const groupIds = groups.map((group) => group.id);
+
+  await prisma.$transaction([
+    prisma.directoryGroupMember.deleteMany({
+      where: { userId, groupId: { notIn: groupIds } },
+    }),
+    prisma.directoryGroupMember.createMany({
+      data: groupIds.map((groupId) => ({ groupId, userId })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return reconcileUserMemberships(userId, 'okta_sign_in');
+}
+
+/**
+ * Read the groups claim from an Okta profile. Returns null when the claim is
+ * absent so a missing scope does not strip everyone's memberships.
+ */
+export function getProfileGroups(profile: unknown): string[] | null {
+  const groups = (profile as { groups?: unknown } | null | undefined)?.groups;
+  if (!Array.isArray(groups)) return null;
+  return groups.filter((group): group is string => typeof group === 'string');
+}
+
+// =============================================================================
+// MAPPING CONFIGURATION
+// =============================================================================
+
+async function getGroupMemberIds(groupName: string): Promise<string[]> {
+  const members = await prisma.directoryGroupMember.findMany({
+    where: { group: { displayName: groupName } },
+    select: { userId: true },
+  });
+  return members.map((member) => member.userId);
+}
+
+/**
+ * List all group mappings with their team.
+ */
+export async function listGroupMappings(): Promise<GroupMappingWithTeam[]> {
+  return prisma.groupTeamMapping.findMany({
+    include: { team: { select: { id: true, name: true, slug: true } } },
+    orderBy: [{ groupName: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Map a group to a team and apply it to the group's current members.
+ */
+export async function createGroupMapping(
+  input: { groupName: string; teamId: string; role: TeamRole },
+  actorId?: string
+): Promise<GroupTeamMapping> {
+  const mapping = await prisma.groupTeamMapping.create({
+    data: {
+      groupName: input.groupName.trim(),
+      teamId: input.teamId,
+      role: input.role,
+      createdBy: actorId,
+    },
+  });
+
+  await recordAuditEvent({
+    eventType: 'group_mapping.created',
+    actorId,
+    targetType: 'group_mapping',
+    targetId: mapping.id,
+    teamId: mapping.teamId,
+    data: { groupName: mapping.groupName, role: mapping.role },
+  });
+
+  await reconcileUsersMemberships(await getGroupMemberIds(mapping.groupName), 'group_mapping', actorId);
+
+  return mapping;
+}
+
+/**
+ * Change the role a mapping grants and re-apply it.
+ */
+export async function updateGroupMappingRole(
+  id: string,
+  role: TeamRole,
+  actorId?: string
+): Promise<GroupTeamMapping> {
+  const previous = await prisma.groupTeamMapping.findUniqueOrThrow({ where: { id } });
+  const mapping = await prisma.groupTeamMapping.update({
+    where: { id },
+    data: { role },
+  });
+
+  await recordAuditEvent({
+    eventType: 'group_mapping.updated',
+    actorId,
+    targetType: 'group_mapping',
+    targetId: id,
+    teamId: mapping.teamId,
+    data: { groupName: mapping.groupName, role: { from: previous.role, to: role } },
+  });
+
+  await reconcileUsersMemberships(await getGroupMemberIds(mapping.groupName), 'group_mapping', actorId);
+
+  return mapping;
+}
+
+/**
+ * Remove a mapping. Directory memberships it granted are removed from the
+ * group's members unless another mapping still grants them.
+ */
+export async function deleteGroupMapping(id: string, actorId?: string): Promise<void> {
+  const mapping = await prisma.groupTeamMapping.delete({ where: { id } });
+
+  await recordAuditEvent({
+    eventType: 'group_mapping.deleted',
+    actorId,
+    targetType: 'group_mapping',
+    targetId: id,
+    teamId: mapping.teamId,
+    data: { groupName: mapping.groupName, role: mapping.role },
+  });
+
+  await reconcileUsersMemberships(await getGroupMemberIds(mapping.groupName), 'group_mapping', actorId);
+}
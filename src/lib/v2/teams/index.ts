@@ -2,3 +2,5 @@
  * Team Service Exports
  */
 export * from './team-service';
+export * from './token-budget-service';
+export * from './group-sync-service';
@@ -12,6 +12,7 @@ import { prisma } from '@/lib/prisma';
 import type { Team, TeamMembership, Prisma } from '@prisma/client';
 import type { LibraryId } from '@/types/v2';
 import { createSlug } from '@/lib/frontmatterStore';
+import { recordAuditEvent } from '@/lib/v2/audit-log';
 
 // =============================================================================
 // TYPES
@@ -53,7 +54,7 @@ export interface AddMemberInput {
 /**
  * Create a new team.
  */
-export async function createTeam(input: CreateTeamInput): Promise<Team> {
+export async function createTeam(input: CreateTeamInput, actorId?: string): Promise<Team> {
   const slug = input.slug || createSlug(input.name);
 
   const team = await prisma.team.create({
@@ -67,6 +68,15 @@ export async function createTeam(input: CreateTeamInput): Promise<Team> {
     },
   });
 
+  await recordAuditEvent({
+    eventType: 'team.created',
+    actorId,
+    targetType: 'team',
+    targetId: team.id,
+    teamId: team.id,
+    data: { name: team.name, libraries: team.libraries },
+  });
+
   return team;
 }
 
@@ -75,7 +85,8 @@ export async function createTeam(input: CreateTeamInput): Promise<Team> {
  */
 export async function createTeamWithMembers(
   input: CreateTeamInput,
-  members: { userId: string; role?: TeamRole }[]
+  members: { userId: string; role?: TeamRole }[],
+  actorId?: string
 ): Promise<TeamWithMembers> {
   const slug = input.slug || createSlug(input.name);
 
@@ -105,6 +116,19 @@ export async function createTeamWithMembers(
     },
   });
 
+  await recordAuditEvent({
+    eventType: 'team.created',
+    actorId,
+    targetType: 'team',
+    targetId: team.id,
+    teamId: team.id,
+    data: {
+      name: team.name,
+      libraries: team.libraries,
+      members: team.members.map((m) => ({ userId: m.userId, role: m.role })),
+    },
+  });
+
   return team;
 }
 
@@ -222,8 +246,12 @@ export async function isLibraryAdmin(userId: string, libraryId: LibraryId): Prom
 /**
  * Update a team.
  */
-export async function updateTeam(id: string, input: UpdateTeamInput): Promise<Team> {
-  return prisma.team.update({
+export async function updateTeam(
+  id: string,
+  input: UpdateTeamInput,
+  actorId?: string
+): Promise<Team> {
+  const team = await prisma.team.update({
     where: { id },
     data: {
       ...(input.name !== undefined && { name: input.name }),
@@ -233,12 +261,31 @@ export async function updateTeam(id: string, input: UpdateTeamInput): Promise<Te
       ...(input.settings !== undefined && { settings: input.settings as Prisma.InputJsonValue }),
     },
   });
+
+  await recordAuditEvent({
+    eventType: 'team.updated',
+    actorId,
+    targetType: 'team',
+    targetId: team.id,
+    teamId: team.id,
+    data: {
+      name: team.name,
+      fields: Object.keys(input).filter((key) => input[key as keyof UpdateTeamInput] !== undefined),
+      ...(input.libraries !== undefined && { libraries: input.libraries }),
+    },
+  });
+
+  return team;
 }
 
 /**
  * Add a library to a team's ownership.
  */
-export async function addLibraryToTeam(teamId: string, libraryId: LibraryId): Promise<Team> {
+export async function addLibraryToTeam(
+  teamId: string,
+  libraryId: LibraryId,
+  actorId?: string
+): Promise<Team> {
   const team = await prisma.team.findUnique({ where: { id: teamId } });
   if (!team) throw new Error(`Team not found: ${teamId}`);
 
@@ -246,25 +293,51 @@ export async function addLibraryToTeam(teamId: string, libraryId: LibraryId): Pr
     ? team.libraries
     : [...team.libraries, libraryId];
 
-  return prisma.team.update({
+  const updated = await prisma.team.update({
     where: { id: teamId },
     data: { libraries },
   });
+
+  await recordAuditEvent({
+    eventType: 'team.library.added',
+    actorId,
+    targetType: 'team',
+    targetId: teamId,
+    teamId,
+    data: { libraryId },
+  });
+
+  return updated;
 }
 
 /**
  * Remove a library from a team's ownership.
  */
-export async function removeLibraryFromTeam(teamId: string, libraryId: LibraryId): Promise<Team> {
+export async function removeLibraryFromTeam(
+  teamId: string,
+  libraryId: LibraryId,
+  actorId?: string
+): Promise<Team> {
   const team = await prisma.team.findUnique({ where: { id: teamId } });
   if (!team) throw new Error(`Team not found: ${teamId}`);
 
   const libraries = team.libraries.filter((l) => l !== libraryId);
 
-  return prisma.team.update({
+  const updated = await prisma.team.update({
     where: { id: teamId },
     data: { libraries },
   });
+
+  await recordAuditEvent({
+    eventType: 'team.library.removed',
+    actorId,
+    targetType: 'team',
+    targetId: teamId,
+    teamId,
+    data: { libraryId },
+  });
+
+  return updated;
 }
 
 // =============================================================================
@@ -274,10 +347,19 @@ export async function removeLibraryFromTeam(teamId: string, libraryId: LibraryId
 /**
  * Delete a team and all its memberships.
  */
-export async function deleteTeam(id: string): Promise<void> {
-  await prisma.team.delete({
+export async function deleteTeam(id: string, actorId?: string): Promise<void> {
+  const team = await prisma.team.delete({
     where: { id },
   });
+
+  await recordAuditEvent({
+    eventType: 'team.deleted',
+    actorId,
+    targetType: 'team',
+    targetId: id,
+    teamId: id,
+    data: { name: team.name, libraries: team.libraries },
+  });
 }
 
 // =============================================================================
@@ -287,14 +369,25 @@ export async function deleteTeam(id: string): Promise<void> {
 /**
  * Add a member to a team.
  */
-export async function addMember(input: AddMemberInput): Promise<TeamMembership> {
-  return prisma.teamMembership.create({
+export async function addMember(input: AddMemberInput, actorId?: string): Promise<TeamMembership> {
+  const membership = await prisma.teamMembership.create({
     data: {
       teamId: input.teamId,
       userId: input.userId,
       role: input.role || 'member',
     },
   });
+
+  await recordAuditEvent({
+    eventType: 'team.member.added',
+    actorId,
+    targetType: 'team',
+    targetId: input.teamId,
+    teamId: input.teamId,
+    data: { userId: input.userId, role: membership.role },
+  });
+
+  return membership;
 }
 
 /**
@@ -303,25 +396,53 @@ export async function addMember(input: AddMemberInput): Promise<TeamMembership>
 export async function updateMemberRole(
   teamId: string,
   userId: string,
-  role: TeamRole
+  role: TeamRole,
+  actorId?: string
 ): Promise<TeamMembership> {
-  return prisma.teamMembership.update({
+  const previous = await prisma.teamMembership.findUnique({
+    where: {
+      userId_teamId: { userId, teamId },
+    },
+    select: { role: true },
+  });
+
+  const membership = await prisma.teamMembership.update({
     where: {
       userId_teamId: { userId, teamId },
     },
     data: { role },
   });
+
+  await recordAuditEvent({
+    eventType: 'team.member.role_changed',
+    actorId,
+    targetType: 'team',
+    targetId: teamId,
+    teamId,
+    data: { userId, role: { from: previous?.role ?? null, to: role } },
+  });
+
+  return membership;
 }
 
 /**
  * Remove a member from a team.
  */
-export async function removeMember(teamId: string, userId: string): Promise<void> {
-  await prisma.teamMembership.delete({
+export async function removeMember(teamId: string, userId: string, actorId?: string): Promise<void> {
+  const membership = await prisma.teamMembership.delete({
     where: {
       userId_teamId: { userId, teamId },
     },
   });
+
+  await recordAuditEvent({
+    eventType: 'team.member.removed',
+    actorId,
+    targetType: 'team',
+    targetId: teamId,
+    teamId,
+    data: { userId, role: membership.role },
+  });
 }
 
 /**
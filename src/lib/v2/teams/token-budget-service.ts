@@ -0,0 +1,484 @@
+/**
+ * TokenBudgetService - Enforce team monthly token budgets
+ *
+ * Every LLM call made on behalf of a user is charged to one team (the
+ * explicit team of the work, e.g. a project's team, otherwise the user's
+ * oldest team membership). Before a call, the estimated tokens are checked
+ * against Team.monthlyTokenLimit; after it, actual usage is added to
+ * Team.currentMonthTokens.
+ *
+ * Budget state lives in Team.settings.tokenBudget:
+ * - enforcement: 'hard' blocks calls over budget, 'soft' only alerts
+ * - period: the 'YYYY-MM' month currentMonthTokens belongs to; a stale
+ *   period is rolled over on first use and by the scheduled reset
+ * - overrideUntil: a team admin can lift a hard limit temporarily
+ * - alertedThresholds: 80/100% Slack alerts already sent this period
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type BudgetEnforcement = 'hard' | 'soft';
+
+/** Stored under Team.settings.tokenBudget, so it stays a JSON-compatible type alias */
+export type TeamBudgetSettings = {
+  enforcement?: BudgetEnforcement;
+  period?: string;
+  alertedThresholds?: number[];
+  /** Slack channel for threshold alerts (falls back to SLACK_BUDGET_ALERT_CHANNEL_ID) */
+  alertChannelId?: string;
+  overrideUntil?: string;
+  overrideBy?: string;
+};
+
+/** Who an LLM call is made for. Neither set = not charged to any team. */
+export interface BudgetContext {
+  teamId?: string | null;
+  userId?: string | null;
+}
+
+export interface TeamBudgetStatus {
+  teamId: string;
+  teamName: string;
+  period: string;
+  limit: number | null;
+  used: number;
+  percentUsed: number | null;
+  remaining: number | null;
+  enforcement: BudgetEnforcement;
+  overrideActive: boolean;
+  overrideUntil?: string;
+  alertChannelId?: string;
+}
+
+export type BudgetDecision =
+  | 'unlimited'
+  | 'within_budget'
+  | 'soft_limit_exceeded'
+  | 'overridden'
+  | 'hard_limit_exceeded';
+
+export interface BudgetCheckResult {
+  teamId: string;
+  decision: BudgetDecision;
+  status: TeamBudgetStatus;
+}
+
+export const BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+export class TokenBudgetExceededError extends Error {
+  constructor(
+    public readonly teamId: string,
+    public readonly teamName: string,
+    public readonly used: number,
+    public readonly limit: number,
+    public readonly requested: number
+  ) {
+    super(
+      `Team "${teamName}" has reached its monthly LLM usage budget ` +
+        `(${used.toLocaleString()} of ${limit.toLocaleString()} used, ` +
+        `${requested.toLocaleString()} more requested). Ask a team admin to raise the limit or grant an override.`
+    );
+    this.name = 'TokenBudgetExceededError';
+  }
+}
+
+// =============================================================================
+// PURE HELPERS
+// =============================================================================
+
+/**
+ * Budget period key for a date (UTC month), e.g. '2026-03'.
+ */
+export function getBudgetPeriod(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function getBudgetSettings(settings: Prisma.JsonValue | null | undefined): TeamBudgetSettings {
+  const all = (settings as Record<string, unknown> | null) || {};
+  return (all.tokenBudget as TeamBudgetSettings | undefined) || {};
+}
+
+/**
+ * Decide whether a call of `requestedTokens` may run.
+ */
+export function evaluateBudget(
+  status: Pick<TeamBudgetStatus, 'limit' | 'used' | 'enforcement' | 'overrideActive'>,
+  requestedTokens: number
+): BudgetDecision {
+  if (!status.limit) return 'unlimited';
+  if (status.used + requestedTokens <= status.limit) return 'within_budget';
+  if (status.overrideActive) return 'overridden';
+  if (status.enforcement === 'soft') return 'soft_limit_exceeded';
+  return 'hard_limit_exceeded';
+}
+
+/**
+ * Alert thresholds (percent) reached by `used` that have not been alerted yet.
+ */
+export function getNewAlertThresholds(
+  used: number,
+  limit: number | null,
+  alreadyAlerted: number[] = []
+): number[] {
+  if (!limit) return [];
+  const percent = (used / limit) * 100;
+  return BUDGET_ALERT_THRESHOLDS.filter(t => percent >= t && !alreadyAlerted.includes(t));
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+type TeamBudgetRow = {
+  id: string;
+  name: string;
+  monthlyTokenLimit: number | null;
+  currentMonthTokens: number;
+  settings: Prisma.JsonValue;
+};
+
+const TEAM_BUDGET_SELECT = {
+  id: true,
+  name: true,
+  monthlyTokenLimit: true,
+  currentMonthTokens: true,
+  settings: true,
+} as const;
+
+async function saveBudgetSettings(
+  team: TeamBudgetRow,
+  budget: TeamBudgetSettings,
+  data: { currentMonthTokens?: number } = {}
+): Promise<void> {
+  await prisma.team.update({
+    where: { id: team.id },
+    data: {
+      ...data,
+      settings: {
+        ...((team.settings as Record<string, unknown>) || {}),
+        tokenBudget: budget,
+      } as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Reset the counter if it belongs to an earlier month. Returns the current row.
+ */
+async function rolloverIfNeeded(team: TeamBudgetRow, now: Date = new Date()): Promise<TeamBudgetRow> {
+  const budget = getBudgetSettings(team.settings);
+  const period = getBudgetPeriod(now);
+  if (budget.period === period) return team;
+
+  // First use of a team without a period just stamps it - the counter is already this month's
+  const currentMonthTokens = budget.period ? 0 : team.currentMonthTokens;
+  const next: TeamBudgetSettings = { ...budget, period, alertedThresholds: [] };
+  await saveBudgetSettings(team, next, { currentMonthTokens });
+
+  if (budget.period) {
+    logger.info('Team token budget rolled over', { teamId: team.id, from: budget.period, to: period });
+  }
+
+  return {
+    ...team,
+    currentMonthTokens,
+    settings: { ...((team.settings as Record<string, unknown>) || {}), tokenBudget: next } as Prisma.JsonValue,
+  };
+}
+
+function toStatus(team: TeamBudgetRow, now: Date = new Date()): TeamBudgetStatus {
+  const budget = getBudgetSettings(team.settings);
+  const limit = team.monthlyTokenLimit;
+  const overrideActive = !!budget.overrideUntil && new Date(budget.overrideUntil) > now;
+
+  return {
+    teamId: team.id,
+    teamName: team.name,
+    period: budget.period || getBudgetPeriod(now),
+    limit,
+    used: team.currentMonthTokens,
+    percentUsed: limit ? Math.round((team.currentMonthTokens / limit) * 100) : null,
+    remaining: limit ? Math.max(0, limit - team.currentMonthTokens) : null,
+    enforcement: budget.enforcement || 'hard',
+    overrideActive,
+    overrideUntil: overrideActive ? budget.overrideUntil : undefined,
+    alertChannelId: budget.alertChannelId,
+  };
+}
+
+/**
+ * Team an LLM call is charged to: the explicit team, else the user's oldest membership.
+ */
+export async function resolveBudgetTeamId(context: BudgetContext): Promise<string | null> {
+  if (context.teamId) return context.teamId;
+  if (!context.userId) return null;
+
+  const membership = await prisma.teamMembership.findFirst({
+    where: { userId: context.userId },
+    orderBy: { createdAt: 'asc' },
+    select: { teamId: true },
+  });
+  return membership?.teamId || null;
+}
+
+export async function getTeamBudgetStatus(teamId: string): Promise<TeamBudgetStatus | null> {
+  const team = await prisma.team.findUnique({ where: { id: teamId }, select: TEAM_BUDGET_SELECT });
+  if (!team) return null;
+  return toStatus(await rolloverIfNeeded(team));
+}
+
+// =============================================================================
+// ENFORCEMENT
+// =============================================================================
+
+/**
+ * Pre-flight check before an LLM call.
+ *
+ * Returns null when the call is not charged to a team. Throws
+ * TokenBudgetExceededError when a hard limit would be exceeded.
+ */
+export async function checkTokenBudget(
+  context: BudgetContext,
+  estimatedTokens: number
+): Promise<BudgetCheckResult | null> {
+  const teamId = await resolveBudgetTeamId(context);
+  if (!teamId) return null;
+
+  const status = await getTeamBudgetStatus(teamId);
+  if (!status) return null;
+
+  const decision = evaluateBudget(status, estimatedTokens);
+  if (decision === 'hard_limit_exceeded') {
+    throw new TokenBudgetExceededError(teamId, status.teamName, status.used, status.limit!, estimatedTokens);
+  }
+  if (decision === 'soft_limit_exceeded' || decision === 'overridden') {
+    logger.warn('Team token budget exceeded', { teamId, decision, used: status.used, limit: status.limit, estimatedTokens });
+  }
+
+  return { teamId, decision, status };
+}
+
+/**
+ * Charge actual usage to a team and send threshold alerts.
+ * Never throws - usage accounting must not fail a completed LLM call.
+ */
+export async function recordTeamTokenUsage(teamId: string, tokens: number): Promise<void> {
+  if (tokens <= 0) return;
+
+  try {
+    const team = await prisma.team.findUnique({ where: { id: teamId }, select: TEAM_BUDGET_SELECT });
+    if (!team) return;
+    await rolloverIfNeeded(team);
+
+    const updated = await prisma.team.update({
+      where: { id: teamId },
+      data: { currentMonthTokens: { increment: tokens } },
+      select: TEAM_BUDGET_SELECT,
+    });
+
+    const budget = getBudgetSettings(updated.settings);
+    const thresholds = getNewAlertThresholds(updated.currentMonthTokens, updated.monthlyTokenLimit, budget.alertedThresholds);
+    if (thresholds.length === 0) return;
+
+    await saveBudgetSettings(updated, {
+      ...budget,
+      alertedThresholds: [...(budget.alertedThresholds || []), ...thresholds],
+    });
+    await sendBudgetAlert(toStatus(updated), Math.max(...thresholds));
+  } catch (error) {
+    logger.error('Failed to record team token usage', error, { teamId, tokens });
+  }
+}
+
+async function sendBudgetAlert(status: TeamBudgetStatus, threshold: number): Promise<void> {
+  const channelId = status.alertChannelId || process.env.SLACK_BUDGET_ALERT_CHANNEL_ID;
+  logger.warn('Team token budget threshold reached', {
+    teamId: status.teamId,
+    threshold,
+    used: status.used,
+    limit: status.limit,
+    slackChannel: channelId,
+  });
+  if (!channelId) return;
+
+  const { isSlackConfigured, postMessage } = await import('@/lib/slack');
+  if (!(await isSlackConfigured())) return;
+
+  const consequence =
+    threshold >= 100
+      ? status.enforcement === 'hard' && !status.overrideActive
+        ? 'New LLM requests for this team are blocked until next month, the limit is raised, or an admin grants an override.'
+        : 'Requests are still allowed (soft limit or active override).'
+      : 'Requests will be blocked at 100% unless the limit is raised.';
+
+  await postMessage({
+    channelId,
+    text:
+      `:warning: Team *${status.teamName}* has used ${status.percentUsed}% of its monthly LLM budget ` +
+      `(${status.used.toLocaleString()} / ${status.limit?.toLocaleString()} tokens). ${consequence}`,
+  });
+}
+
+// =============================================================================
+// ADMINISTRATION
+// =============================================================================
+
+/**
+ * Roll every team over to the current month. Idempotent - run on a schedule.
+ */
+export async function resetTokenBudgetsForNewPeriod(now: Date = new Date()): Promise<{ reset: number }> {
+  const period = getBudgetPeriod(now);
+  const teams = await prisma.team.findMany({ select: TEAM_BUDGET_SELECT });
+
+  let reset = 0;
+  for (const team of teams) {
+    const budget = getBudgetSettings(team.settings);
+    if (budget.period === period) continue;
+    await rolloverIfNeeded(team, now);
+    if (budget.period) reset++;
+  }
+
+  return { reset };
+}
+
+export interface UpdateBudgetSettingsInput {
+  monthlyTokenLimit?: number | null;
+  enforcement?: BudgetEnforcement;
+  alertChannelId?: string | null;
+  /** Lift a hard limit until this time; null clears an override */
+  overrideUntil?: Date | null;
+}
+
+export async function updateTeamBudgetSettings(
+  teamId: string,
+  input: UpdateBudgetSettingsInput,
+  updatedBy: string
+): Promise<TeamBudgetStatus> {
+  const existing = await prisma.team.findUnique({ where: { id: teamId }, select: TEAM_BUDGET_SELECT });
+  if (!existing) throw new Error(`Team not found: ${teamId}`);
+
+  const team = await rolloverIfNeeded(existing);
+  const budget = getBudgetSettings(team.settings);
+  const next: TeamBudgetSettings = { ...budget };
+
+  if (input.enforcement !== undefined) next.enforcement = input.enforcement;
+  if (input.alertChannelId !== undefined) next.alertChannelId = input.alertChannelId || undefined;
+  if (input.overrideUntil !== undefined) {
+    next.overrideUntil = input.overrideUntil?.toISOString();
+    next.overrideBy = input.overrideUntil ? updatedBy : undefined;
+  }
+  if (input.monthlyTokenLimit !== undefined) {
+    // A new limit re-arms alerts for thresholds no longer reached
+    next.alertedThresholds = (budget.alertedThresholds || []).filter(
+      t => input.monthlyTokenLimit && (team.currentMonthTokens / input.monthlyTokenLimit) * 100 >= t
+    );
+  }
+
+  await prisma.team.update({
+    where: { id: teamId },
+    data: {
+      ...(input.monthlyTokenLimit !== undefined && { monthlyTokenLimit: input.monthlyTokenLimit }),
+      settings: {
+        ...((team.settings as Record<string, unknown>) || {}),
+        tokenBudget: next,
+      } as Prisma.InputJsonValue,
+    },
+  });
+
+  return (await getTeamBudgetStatus(teamId))!;
+}
+
+// =============================================================================
+// DASHBOARD
+// =============================================================================
+
+export interface TeamUsageBreakdown {
+  key: string;
+  totalTokens: number;
+  estimatedCost: number;
+  callCount: number;
+}
+
+export interface TeamUsageDashboard {
+  budget: TeamBudgetStatus;
+  totals: { totalTokens: number; estimatedCost: number; callCount: number };
+  byFeature: TeamUsageBreakdown[];
+  byUser: TeamUsageBreakdown[];
+  daily: Array<{ date: string; tokens: number; cost: number; calls: number }>;
+}
+
+function addToBreakdown(
+  map: Map<string, TeamUsageBreakdown>,
+  key: string,
+  tokens: number,
+  cost: number
+): void {
+  const existing = map.get(key) || { key, totalTokens: 0, estimatedCost: 0, callCount: 0 };
+  existing.totalTokens += tokens;
+  existing.estimatedCost += cost;
+  existing.callCount += 1;
+  map.set(key, existing);
+}
+
+/**
+ * Current-period usage for a team, built from the LLMTrace rows charged to it.
+ */
+export async function getTeamUsageDashboard(teamId: string): Promise<TeamUsageDashboard | null> {
+  const budget = await getTeamBudgetStatus(teamId);
+  if (!budget) return null;
+
+  const periodStart = new Date(`${budget.period}-01T00:00:00.000Z`);
+  const traces = await prisma.lLMTrace.findMany({
+    where: {
+      createdAt: { gte: periodStart },
+      context: { path: ['teamId'], equals: teamId },
+    },
+    select: { createdAt: true, totalTokens: true, estimatedCost: true, context: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const byFeature = new Map<string, TeamUsageBreakdown>();
+  const byUser = new Map<string, TeamUsageBreakdown>();
+  const daily = new Map<string, { tokens: number; cost: number; calls: number }>();
+  const totals = { totalTokens: 0, estimatedCost: 0, callCount: 0 };
+
+  for (const trace of traces) {
+    const context = trace.context as Record<string, unknown> | null;
+    const cost = trace.estimatedCost || 0;
+
+    totals.totalTokens += trace.totalTokens;
+    totals.estimatedCost += cost;
+    totals.callCount += 1;
+
+    addToBreakdown(byFeature, (context?.feature as string) || 'unknown', trace.totalTokens, cost);
+    addToBreakdown(
+      byUser,
+      (context?.userEmail as string) || (context?.userId as string) || 'system',
+      trace.totalTokens,
+      cost
+    );
+
+    const dateKey = trace.createdAt.toISOString().split('T')[0];
+    const day = daily.get(dateKey) || { tokens: 0, cost: 0, calls: 0 };
+    day.tokens += trace.totalTokens;
+    day.cost += cost;
+    day.calls += 1;
+    daily.set(dateKey, day);
+  }
+
+  const byTokens = (a: TeamUsageBreakdown, b: TeamUsageBreakdown) => b.totalTokens - a.totalTokens;
+
+  return {
+    budget,
+    totals,
+    byFeature: Array.from(byFeature.values()).sort(byTokens),
+    byUser: Array.from(byUser.values()).sort(byTokens),
+    daily: Array.from(daily.entries()).map(([date, data]) => ({ date, ...data })),
+  };
+}
@@ -118,6 +118,9 @@ ${dashboardJson}`;
     stateSummary = JSON.parse(JSON.stringify(summary)) as Prisma.InputJsonValue;
   }
 
+  // Skill IDs in prompt order so [n] citations can be resolved on export
+  const usedBlockIds = customerContext.skills.map((s) => s.id);
+
   // Upsert result
   const generated = await prisma.generatedView.upsert({
     where: { viewId_customerId: { viewId, customerId } },
@@ -126,13 +129,13 @@ ${dashboardJson}`;
       customerId,
       title: viewTitle,
       content: result.answer,
-      usedBlockIds: result.transparency?.blockIds || [],
+      usedBlockIds,
       ...(stateSummary && { stateSummary }),
     },
     update: {
       content: result.answer,
       generatedAt: new Date(),
-      usedBlockIds: result.transparency?.blockIds || [],
+      usedBlockIds,
       ...(stateSummary && { stateSummary }),
     },
   });
@@ -14,6 +14,9 @@ import { getToken } from "next-auth/jwt";
  * - /api/auth/* - NextAuth endpoints
  * - /api/health - Health checks (infrastructure monitoring)
  * - /api/branding - Branding config (needed for signin page)
+ * - /api/scim/* - SCIM provisioning (authenticated by API key in the route)
+ * - /api/webhooks/* - Provider webhooks (authenticated by signature in the route)
+ * - /api/* with `Authorization: Bearer tt_...` - API keys (checked by requireApiAuth in the route)
  * - /_next/* - Next.js assets
  * - /favicon.ico - Favicon
  *
@@ -43,6 +46,8 @@ const publicRoutes = [
   "/api/auth",
   "/api/health",
   "/api/branding",
+  "/api/scim",
+  "/api/webhooks",
 ];
 
 /**
@@ -61,6 +66,17 @@ function isPublicRoute(pathname: string): boolean {
   });
 }
 
+// API key prefix - mirrors API_KEY_PREFIX in lib/v2/api-keys (not importable in edge runtime)
+const API_KEY_BEARER = /^Bearer\s+tt_\S+$/i;
+
+/**
+ * Check if an API request carries an API key. The key itself is verified by
+ * requireApiAuth in the route; routes that only accept sessions still reject it.
+ */
+function hasApiKeyBearer(request: NextRequest): boolean {
+  return API_KEY_BEARER.test(request.headers.get("authorization") || "");
+}
+
 /**
  * Check if a route is a static asset (no auth needed)
  */
@@ -115,6 +131,11 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // API key requests have no session - let the route authenticate the key
+  if (pathname.startsWith("/api/") && hasApiKeyBearer(request)) {
+    return NextResponse.next();
+  }
+
   // Get JWT token from session
   const token = await getToken({
     req: request,
@@ -1,5 +1,7 @@
 // Contract Review Types
 
+import type { PlaybookTier } from "@/types/v2/building-block";
+
 export type ContractReviewStatus =
   | "PENDING"
   | "ANALYZING"
@@ -46,6 +48,27 @@ export type FindingCategory =
 
 export type RowReviewStatus = "NONE" | "REQUESTED" | "APPROVED" | "CORRECTED";
 
+// Where a clause sits on the playbook ladder for its category (playbook mode only)
+export type PlaybookMatch = {
+  category: string;
+  tier: PlaybookTier;
+  fallbackNumber?: number;      // 1-based, when tier is "fallback"
+  // Position to propose next; absent when the clause already meets the preferred position
+  nextPosition?: {
+    tier: PlaybookTier;
+    fallbackNumber?: number;
+    text: string;
+  };
+};
+
+// Playbook version a contract was analyzed against
+export type PlaybookReference = {
+  id: string;
+  title: string;
+  version: number;
+  gitCommitSha?: string | null;
+};
+
 // Individual finding from contract analysis (like BulkRow for RFP questions)
 export type ContractFinding = {
   id: string;
@@ -56,6 +79,7 @@ export type ContractFinding = {
   rationale: string;            // Why we rated it this way
   relevantSkills?: Array<string | { id: string; title: string }>;
   suggestedResponse?: string;   // How to respond or what to negotiate
+  playbookMatch?: PlaybookMatch;
 
   // Flagging workflow (like BulkRow)
   flaggedForReview: boolean;
@@ -11,7 +11,7 @@ import type { BuildingBlock as PrismaBuildingBlock } from '@prisma/client';
 // BLOCK TYPES
 // =============================================================================
 
-export const BLOCK_TYPES = ['knowledge', 'persona', 'template'] as const;
+export const BLOCK_TYPES = ['knowledge', 'persona', 'template', 'playbook'] as const;
 export type BlockType = (typeof BLOCK_TYPES)[number];
 
 // =============================================================================
@@ -35,6 +35,7 @@ export const LIBRARY_IDS = [
   'personas',
   'templates',
   'views',
+  'playbooks',
 ] as const;
 export type LibraryId = (typeof LIBRARY_IDS)[number];
 
@@ -49,6 +50,7 @@ export const LIBRARY_BLOCK_TYPE: Record<LibraryId, BlockType> = {
   personas: 'persona',
   templates: 'template',
   views: 'knowledge',
+  playbooks: 'playbook',
 };
 
 // =============================================================================
@@ -58,7 +60,7 @@ export const LIBRARY_BLOCK_TYPE: Record<LibraryId, BlockType> = {
 export const BLOCK_STATUSES = ['ACTIVE', 'ARCHIVED'] as const;
 export type BlockStatus = (typeof BLOCK_STATUSES)[number];
 
-export const SYNC_STATUSES = ['SYNCED', 'LOCAL_CHANGES', 'CONFLICT'] as const;
+export const SYNC_STATUSES = ['SYNCED', 'LOCAL_CHANGES', 'PENDING_REVIEW', 'CONFLICT'] as const;
 export type SyncStatus = (typeof SYNC_STATUSES)[number];
 
 // =============================================================================
@@ -187,7 +189,7 @@ interface BaseKnowledgeAttributes {
   citations?: SourceCitation[];
   /** Contradictions detected between sources */
   contradictions?: SourceContradiction[];
-  /** Feature access control: which features can access this skill */
+  /** Feature access control: which features can access this skill (empty = all) */
   exposedTo?: ('slackbot' | 'chat' | 'rfp')[];
 
   // Foundational Skills Support
@@ -278,6 +280,8 @@ export interface PromptAttributes extends BaseKnowledgeAttributes {
     content: string;
     weight: number;
   }>;
+  /** A/B experiment over `variants` (base content is the control arm) */
+  experiment?: PromptExperimentConfig;
   /** Performance metrics */
   metrics?: {
     avgRating?: number;
@@ -331,6 +335,18 @@ export interface PromptAttributes extends BaseKnowledgeAttributes {
   presetConfig?: PromptPresetConfig;
 }
 
+/** Weighted A/B experiment settings for a prompt block */
+export interface PromptExperimentConfig {
+  /** Variants are only sampled while running */
+  status: 'running' | 'paused' | 'completed';
+  /** Relative weight of the base content (variant id 'control') */
+  controlWeight: number;
+  startedAt?: string;
+  /** Set when a winner was promoted into the base content */
+  promotedVariantId?: string;
+  promotedAt?: string;
+}
+
 /** A single version entry in prompt history */
 export interface PromptVersionEntry {
   /** Version number (1, 2, 3, ...) */
@@ -445,7 +461,7 @@ export interface TemplateAttributes {
   // =========================================================================
 
   /** Output type determines how the template is rendered */
-  outputType?: 'text' | 'google-slides' | 'word' | 'pdf';
+  outputType?: 'text' | 'google-slides' | 'pptx' | 'word' | 'pdf';
 
   /** Google Slides template ID (only for outputType: 'google-slides') - DEPRECATED: use outputConfig */
   googleSlidesTemplateId?: string;
@@ -459,6 +475,12 @@ export interface TemplateAttributes {
       /** Google Slides presentation ID to use as template */
       templateId: string;
     };
+    'pptx'?: {
+      /** S3 key of the uploaded .pptx template */
+      s3Key: string;
+      fileName: string;
+      uploadedAt: string;
+    };
     'word'?: {
       /** Future: Word template URL or file reference */
       templateUrl?: string;
@@ -475,10 +497,43 @@ export interface TemplateAttributes {
   /** Detected placeholders from the linked template (auto-populated) */
   detectedPlaceholders?: string[];
 
+  /** Image placeholders ({{image:Name}}) in a .pptx template, filled from uploaded images */
+  imagePlaceholders?: string[];
+
   /** Default persona to use with this template */
   defaultPersonaId?: string;
 }
 
+// =============================================================================
+// PLAYBOOK BLOCK ATTRIBUTES (blockType: 'playbook')
+// =============================================================================
+
+/** Where a contract clause sits on a playbook position's ladder */
+export type PlaybookTier = 'preferred' | 'fallback' | 'walk_away' | 'unacceptable';
+
+/** Negotiation ladder for one clause category */
+export interface PlaybookPosition {
+  /** Clause category (e.g. liability, indemnification, data_residency) */
+  category: string;
+  /** Display label for the category */
+  label?: string;
+  /** Language we want in the contract */
+  preferred: string;
+  /** Acceptable concessions, in the order they should be offered */
+  fallbacks: string[];
+  /** Least favorable terms we can accept */
+  walkAway: string;
+  /** Notes for reviewers (context, approvals needed, etc.) */
+  guidance?: string;
+}
+
+export interface PlaybookAttributes {
+  /** Contract type this playbook applies to (MSA, DPA, NDA, ...) */
+  contractType?: string;
+  /** One position per clause category */
+  positions: PlaybookPosition[];
+}
+
 // =============================================================================
 // DISCRIMINATED UNION BY LIBRARY
 // =============================================================================
@@ -492,7 +547,8 @@ export type TypedBuildingBlock =
   | PromptBlock
   | PersonaBlock
   | TemplateBlock
-  | ViewBlock;
+  | ViewBlock
+  | PlaybookBlock;
 
 interface BaseBlock extends Omit<PrismaBuildingBlock, 'attributes'> {
   blockType: BlockType;
@@ -550,6 +606,12 @@ export interface ViewBlock extends BaseBlock {
   attributes: ViewAttributes;
 }
 
+export interface PlaybookBlock extends BaseBlock {
+  blockType: 'playbook';
+  libraryId: 'playbooks';
+  attributes: PlaybookAttributes;
+}
+
 // =============================================================================
 // TYPE GUARDS
 // =============================================================================
@@ -592,6 +654,10 @@ export function isViewBlock(block: AnyBlock): block is ViewBlock {
   return block.libraryId === 'views';
 }
 
+export function isPlaybookBlock(block: AnyBlock): block is PlaybookBlock {
+  return block.libraryId === 'playbooks';
+}
+
 export function isKnowledgeBlock(
   block: AnyBlock
 ): block is KnowledgeSkillBlock | ITSkillBlock | GTMBlock | PromptBlock {
@@ -68,6 +68,12 @@ export interface ChatMessage {
       blockType?: string;
       entryType?: string | null;
     }>;
+    // Skills withheld because they are not exposed to chat
+    excludedSkills?: Array<{
+      id: string;
+      title: string;
+      reason: string;
+    }>;
   };
 
   // User feedback on response
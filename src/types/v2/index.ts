@@ -24,6 +24,7 @@ export type {
   PromptBlock,
   PersonaBlock,
   TemplateBlock,
+  PlaybookBlock,
   BlockType,
   LibraryId,
   BlockStatus,
@@ -35,6 +36,9 @@ export type {
   PromptAttributes,
   PersonaAttributes,
   TemplateAttributes,
+  PlaybookAttributes,
+  PlaybookPosition,
+  PlaybookTier,
   // Shared types
   SkillOwner,
   HistoryEntry,
@@ -57,6 +61,8 @@ export type {
   NotionStagedSource,
   GongStagedSource,
   DocumentStagedSource,
+  ConfluenceStagedSource,
+  GDriveStagedSource,
   SourceType,
   // Metadata types
   UrlSourceMetadata,
@@ -65,6 +71,8 @@ export type {
   NotionSourceMetadata,
   GongSourceMetadata,
   DocumentSourceMetadata,
+  ConfluenceSourceMetadata,
+  GDriveSourceMetadata,
   // Extraction types
   SourceExtraction,
   // Input types
@@ -75,4 +83,5 @@ export type {
   DiscoveryAdapter,
   DiscoveryOptions,
   DiscoveredSource,
+  SourceScope,
 } from './staged-source';
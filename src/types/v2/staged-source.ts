@@ -12,7 +12,7 @@ import type { LibraryId } from './building-block';
 // SOURCE TYPES
 // =============================================================================
 
-export const SOURCE_TYPES = ['url', 'zendesk', 'slack', 'notion', 'gong', 'document', 'looker'] as const;
+export const SOURCE_TYPES = ['url', 'zendesk', 'slack', 'notion', 'gong', 'document', 'looker', 'confluence', 'gdrive'] as const;
 export type SourceType = (typeof SOURCE_TYPES)[number];
 
 // =============================================================================
@@ -108,6 +108,20 @@ export interface SlackSourceMetadata {
   permalink?: string;
   /** Customer ID (for customer-specific ingestion) */
   customerId?: string;
+  /** Bot answer this thread was staged from (Slack bot feedback loop) */
+  botInteractionId?: string;
+  /** Thumbs-down and expert corrections left on the bot answer */
+  botFeedback?: SlackBotFeedback[];
+}
+
+/** A thumbs-down or correction on a Slack bot answer */
+export interface SlackBotFeedback {
+  kind: 'not_helpful' | 'correction';
+  /** Slack user who left the feedback */
+  by: string;
+  /** Correction text (replies only) */
+  text?: string;
+  at: string;
 }
 
 /** Notion page source metadata */
@@ -247,6 +261,62 @@ export interface LookerSourceMetadata {
   lastFetched: string;
 }
 
+/** Confluence page source metadata */
+export interface ConfluenceSourceMetadata {
+  /** Confluence page ID (also stored in externalId) */
+  pageId: string;
+  /** Space key (e.g., "SEC") */
+  spaceKey: string;
+  /** Space display name */
+  spaceName?: string;
+  /** Page version number - increments on every edit */
+  pageVersion: number;
+  /** Version as a string, compared by content sync to detect changes */
+  contentVersion: string;
+  /** Ancestor page titles, root first */
+  ancestors?: string[];
+  /** Page labels */
+  labels?: string[];
+  /** Last editor */
+  lastEditedBy?: {
+    accountId: string;
+    name?: string;
+  };
+  /** Page last modified time */
+  confluenceUpdatedAt: string;
+  /** URL to the page */
+  confluenceUrl?: string;
+}
+
+/** Google Drive file source metadata */
+export interface GDriveSourceMetadata {
+  /** Drive file ID (also stored in externalId) */
+  fileId: string;
+  /** Drive MIME type (Google Docs types are exported as text) */
+  mimeType: string;
+  /** Parent folder ID the file was discovered from */
+  folderId?: string;
+  /** Shared drive ID, if the file lives in one */
+  driveId?: string;
+  /** Head revision ID (binary files) */
+  headRevisionId?: string;
+  /** Drive's monotonically increasing file version */
+  fileVersion?: string;
+  /** Version as a string, compared by content sync to detect changes */
+  contentVersion: string;
+  /** File size in bytes (binary files only) */
+  fileSize?: number;
+  /** Last modifying user */
+  lastModifiedBy?: {
+    email?: string;
+    name?: string;
+  };
+  /** File last modified time */
+  driveModifiedAt: string;
+  /** URL to open the file */
+  webViewLink?: string;
+}
+
 // =============================================================================
 // SOURCE EXTRACTION (one source → many skills)
 // =============================================================================
@@ -281,7 +351,9 @@ export type TypedStagedSource =
   | NotionStagedSource
   | GongStagedSource
   | DocumentStagedSource
-  | LookerStagedSource;
+  | LookerStagedSource
+  | ConfluenceStagedSource
+  | GDriveStagedSource;
 
 interface BaseStagedSource extends Omit<PrismaStagedSource, 'metadata'> {
   sourceType: SourceType;
@@ -323,6 +395,16 @@ export interface LookerStagedSource extends BaseStagedSource {
   metadata: LookerSourceMetadata;
 }
 
+export interface ConfluenceStagedSource extends BaseStagedSource {
+  sourceType: 'confluence';
+  metadata: ConfluenceSourceMetadata;
+}
+
+export interface GDriveStagedSource extends BaseStagedSource {
+  sourceType: 'gdrive';
+  metadata: GDriveSourceMetadata;
+}
+
 // =============================================================================
 // TYPE GUARDS
 // =============================================================================
@@ -355,6 +437,14 @@ export function isLookerSource(source: TypedStagedSource): source is LookerStage
   return source.sourceType === 'looker';
 }
 
+export function isConfluenceSource(source: TypedStagedSource): source is ConfluenceStagedSource {
+  return source.sourceType === 'confluence';
+}
+
+export function isGDriveSource(source: TypedStagedSource): source is GDriveStagedSource {
+  return source.sourceType === 'gdrive';
+}
+
 // =============================================================================
 // CONVERSION HELPERS
 // =============================================================================
@@ -381,6 +471,29 @@ export interface TypedSourceAssignment extends PrismaSourceAssignment {
   stagedSource?: TypedStagedSource;
 }
 
+/**
+ * Skill update generated from a staged source, stored on SourceAssignment.proposal
+ * until the skill owner approves or rejects it.
+ */
+export interface SkillUpdateProposal {
+  status: 'pending' | 'approved' | 'rejected';
+  title: string;
+  content: string;
+  summary: string;
+  changeSummary: string;
+  citations: Array<{
+    id: string;
+    sourceId: string;
+    label: string;
+    url?: string;
+  }>;
+  /** Skill content the proposal was generated against (for the diff) */
+  baseContent: string;
+  generatedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+}
+
 // =============================================================================
 // INPUT TYPES
 // =============================================================================
@@ -466,15 +579,28 @@ export interface DiscoveryAdapter<T extends TypedStagedSource = TypedStagedSourc
    * - `{ content, error?, isRetryable? }` - Detailed result with error info
    */
   fetchContent?(
-    externalId: string
+    externalId: string,
+    scope?: SourceScope
   ): Promise<string | null | { content: string | null; error?: string; isRetryable?: boolean }>;
 
+  /**
+   * Fetch the current upstream version of a source (optional).
+   * Compared with `metadata.contentVersion` by content sync to detect edits.
+   */
+  fetchContentVersion?(externalId: string, scope?: SourceScope): Promise<string | null>;
+
   /**
    * Validate connection/credentials.
    */
   testConnection?(): Promise<{ success: boolean; error?: string }>;
 }
 
+/**
+ * Library/customer a source belongs to, for adapters whose credentials are
+ * stored per library connection
+ */
+export type SourceScope = Pick<DiscoveryOptions, 'libraryId' | 'customerId' | 'connectionId'>;
+
 export interface DiscoveryOptions {
   /** Library to stage sources into */
   libraryId: LibraryId;
@@ -0,0 +1,170 @@
+// codex: unit tests for answer memory reuse
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  describeReuse,
+  findReusableAnswers,
+  getApprovedAnswer,
+  MAX_SIMILARITY_CANDIDATES,
+  normalizeQuestion,
+  prefillReusedAnswers,
+} from "@/lib/v2/answer-memory";
+import { embedLocally, localEmbeddingProvider, setEmbeddingProvider } from "@/lib/v2/embeddings";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+
+const { prismaMock } = getTestMocks();
+
+function memoryEntry(question: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `mem_${question.length}`,
+    sourceType: "project_row",
+    sourceId: "row_1",
+    projectId: "proj_1",
+    projectName: "Acme SIG 2025",
+    rowNumber: 42,
+    question,
+    normalizedQuestion: normalizeQuestion(question),
+    answer: "Yes, all customer data is encrypted at rest with AES-256.",
+    customerId: null,
+    approvedBy: "Jane Doe",
+    approvedAt: new Date("2026-01-10T00:00:00Z"),
+    embeddingModel: localEmbeddingProvider.model,
+    vector: embedLocally(question),
+    ...overrides,
+  };
+}
+
+describe("normalizeQuestion", () => {
+  it("codex: strips numbering, punctuation and case", () => {
+    expect(normalizeQuestion("1.2 Do you encrypt data at rest?")).toBe("do you encrypt data at rest");
+    expect(normalizeQuestion("Q5: Do you  encrypt data AT REST")).toBe("do you encrypt data at rest");
+  });
+});
+
+describe("getApprovedAnswer", () => {
+  it("codex: prefers reviewer edits and ignores unapproved answers", () => {
+    expect(
+      getApprovedAnswer({ reviewStatus: null, userEditedAnswer: "Edited", outputData: { response: "Generated" } })
+    ).toBe("Edited");
+    expect(
+      getApprovedAnswer({ reviewStatus: "APPROVED", userEditedAnswer: null, outputData: { response: "Generated" } })
+    ).toBe("Generated");
+    expect(
+      getApprovedAnswer({ reviewStatus: "REQUESTED", userEditedAnswer: null, outputData: { response: "Generated" } })
+    ).toBeNull();
+  });
+});
+
+describe("describeReuse", () => {
+  it("codex: names the source project row and approver", () => {
+    expect(
+      describeReuse({
+        memoryId: "mem_1",
+        sourceType: "project_row",
+        sourceId: "row_1",
+        projectName: "Acme SIG 2025",
+        rowNumber: 42,
+        approvedBy: "Jane Doe",
+        approvedAt: "2026-01-10T00:00:00.000Z",
+        originalQuestion: "Do you encrypt data at rest?",
+        similarity: 1,
+      })
+    ).toBe("Reused from Acme SIG 2025 row 42, approved by Jane Doe");
+  });
+});
+
+describe("findReusableAnswers", () => {
+  const findMany = vi.fn();
+
+  beforeEach(() => {
+    findMany.mockReset();
+    prismaMock.answerMemory = { findMany };
+    setEmbeddingProvider(null);
+  });
+
+  it("codex: reuses exact and near-duplicate questions only", async () => {
+    // Stand-in for a semantic provider - the local model only allows exact matches
+    setEmbeddingProvider({ ...localEmbeddingProvider, semantic: true });
+    findMany.mockResolvedValue([memoryEntry("Do you encrypt customer data at rest?")]);
+
+    const matches = await findReusableAnswers(
+      [
+        "3.1 Do you encrypt customer data at rest?",
+        "Do you encrypt all customer data at rest?",
+        "Describe your vacation policy for employees.",
+      ],
+      { libraryId: "knowledge" }
+    );
+
+    expect(matches[0]?.provenance.similarity).toBe(1);
+    expect(matches[0]?.provenance.projectName).toBe("Acme SIG 2025");
+    expect(matches[1]?.answer).toContain("AES-256");
+    expect(matches[2]).toBeNull();
+  });
+
+  it("codex: only reuses exact duplicates with the local embedding model", async () => {
+    findMany.mockResolvedValue([memoryEntry("Is customer data stored only in the US region?")]);
+
+    const matches = await findReusableAnswers(
+      ["Is customer data stored only in the EU region?", "2. Is customer data stored only in the US region"],
+      { libraryId: "knowledge" }
+    );
+
+    expect(matches[0]).toBeNull();
+    expect(matches[1]?.provenance.similarity).toBe(1);
+    expect(findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("codex: scopes candidates to the library's shared and same-customer answers", async () => {
+    findMany.mockResolvedValue([]);
+
+    const matches = await findReusableAnswers(["Do you support SSO?"], { libraryId: "it", customerId: "cust_1" });
+
+    expect(matches).toEqual([null]);
+    for (const [{ where }] of findMany.mock.calls) {
+      expect(where.OR).toEqual([{ libraryId: "it", customerId: null }, { customerId: "cust_1" }]);
+    }
+  });
+
+  it("codex: bounds similarity candidates and looks up exact duplicates separately", async () => {
+    setEmbeddingProvider({ ...localEmbeddingProvider, semantic: true });
+    findMany.mockResolvedValue([]);
+
+    await findReusableAnswers(["1. Do you support SSO?", "Do you support SSO"], { libraryId: "knowledge" });
+
+    const [exact, similar] = findMany.mock.calls.map(([args]) => args);
+    expect(exact.where.normalizedQuestion).toEqual({ in: ["do you support sso"] });
+    expect(exact.take).toBeUndefined();
+    expect(similar.take).toBe(MAX_SIMILARITY_CANDIDATES);
+  });
+});
+
+describe("prefillReusedAnswers", () => {
+  const update = vi.fn();
+
+  beforeEach(() => {
+    update.mockReset();
+    setEmbeddingProvider(null);
+    prismaMock.bulkProject = { findUnique: vi.fn().mockResolvedValue({ customerId: null, config: {} }) };
+    prismaMock.bulkRow = {
+      findMany: vi.fn().mockResolvedValue([
+        { id: "row_1", inputData: { question: "Do you encrypt customer data at rest?" } },
+      ]),
+      update,
+    };
+    prismaMock.answerMemory = {
+      findMany: vi.fn().mockResolvedValue([memoryEntry("Do you encrypt customer data at rest?")]),
+    };
+  });
+
+  it("codex: requests review for reused answers instead of marking them high confidence", async () => {
+    await expect(prefillReusedAnswers("proj_2")).resolves.toEqual({ reused: 1 });
+
+    const { data } = update.mock.calls[0][0];
+    expect(data.status).toBe("COMPLETED");
+    expect(data.reviewStatus).toBe("REQUESTED");
+    expect(data.outputData.confidence).not.toBe("High");
+    expect(data.outputData.reusedFrom.memoryId).toBeDefined();
+  });
+});
@@ -0,0 +1,76 @@
+// codex: unit tests for API key helpers
+import { describe, it, expect } from "vitest";
+import {
+  API_KEY_PREFIX,
+  generateApiKey,
+  getKeyPrefix,
+  hashApiKey,
+  hasScope,
+  parseBearerApiKey,
+  verifyApiKey,
+} from "@/lib/v2/api-keys";
+import { getTestMocks } from "./testUtils";
+
+const { prismaMock } = getTestMocks();
+
+describe("API key material", () => {
+  it("codex: generates unique prefixed keys", () => {
+    const a = generateApiKey();
+    const b = generateApiKey();
+    expect(a.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(a).not.toBe(b);
+  });
+
+  it("codex: hashes deterministically without exposing the key", () => {
+    const key = generateApiKey();
+    expect(hashApiKey(key)).toBe(hashApiKey(key));
+    expect(hashApiKey(key)).not.toContain(key);
+    expect(getKeyPrefix(key)).toHaveLength(API_KEY_PREFIX.length + 8);
+  });
+});
+
+describe("parseBearerApiKey", () => {
+  it("codex: extracts API keys from bearer headers", () => {
+    expect(parseBearerApiKey("Bearer tt_abc123")).toBe("tt_abc123");
+    expect(parseBearerApiKey("bearer tt_abc123")).toBe("tt_abc123");
+  });
+
+  it("codex: ignores missing headers and non-API-key tokens", () => {
+    expect(parseBearerApiKey(null)).toBeNull();
+    expect(parseBearerApiKey("Bearer eyJhbGciOi")).toBeNull();
+    expect(parseBearerApiKey("Basic dXNlcjpwYXNz")).toBeNull();
+  });
+});
+
+describe("verifyApiKey", () => {
+  const baseKey = {
+    id: "key-1",
+    userId: "user-1",
+    teamId: null,
+    scopes: ["read:blocks"],
+    status: "ACTIVE",
+    revokedAt: null,
+    expiresAt: null,
+  };
+
+  it("codex: rejects unknown keys", async () => {
+    prismaMock.apiKey = { findUnique: async () => null };
+    await expect(verifyApiKey("tt_missing")).resolves.toEqual({ valid: false, reason: "not_found" });
+  });
+
+  it("codex: rejects revoked and expired keys", async () => {
+    prismaMock.apiKey = { findUnique: async () => ({ ...baseKey, status: "REVOKED" }) };
+    await expect(verifyApiKey("tt_x")).resolves.toEqual({ valid: false, reason: "revoked" });
+
+    prismaMock.apiKey = { findUnique: async () => ({ ...baseKey, expiresAt: new Date(Date.now() - 1000) }) };
+    await expect(verifyApiKey("tt_x")).resolves.toEqual({ valid: false, reason: "expired" });
+  });
+
+  it("codex: accepts active keys and checks scopes", async () => {
+    prismaMock.apiKey = { findUnique: async () => baseKey };
+    const result = await verifyApiKey("tt_x");
+    expect(result.valid).toBe(true);
+    expect(hasScope(baseKey, "read:blocks")).toBe(true);
+    expect(hasScope(baseKey, "write:blocks")).toBe(false);
+  });
+});
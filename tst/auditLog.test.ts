@@ -0,0 +1,208 @@
+// codex: unit tests for the system-wide audit log
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  buildAuditLogWhere,
+  formatAuditLogRecord,
+  parseAuditLogQuery,
+  queryAuditLog,
+  recordAuditEvent,
+  recordAuditEvents,
+  type AuditLogRecord,
+} from "@/lib/v2/audit-log/audit-log-service";
+import { getTestMocks } from "./testUtils";
+
+const requestHeaders = vi.fn();
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+vi.mock("next/headers", () => ({
+  headers: async () => requestHeaders(),
+}));
+
+const { prismaMock } = getTestMocks();
+
+function headersOf(values: Record<string, string>) {
+  return new Headers(values);
+}
+
+const entry: AuditLogRecord = {
+  id: "log_1",
+  eventType: "team.member.added",
+  actorId: "u_1",
+  actorType: "user",
+  targetType: "team",
+  targetId: "team_1",
+  teamId: "team_1",
+  data: { memberId: "u_2", role: "MEMBER", note: 'said "hi"' },
+  ipAddress: "10.0.0.1",
+  userAgent: "Mozilla/5.0",
+  createdAt: new Date("2026-06-10T12:00:00Z"),
+  actor: { id: "u_1", name: "Alex Kim", email: "alex@example.com" },
+} as AuditLogRecord;
+
+describe("recordAuditEvent", () => {
+  const createMany = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.auditLog = { createMany };
+    createMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("codex: stores the event with client details from the request", async () => {
+    requestHeaders.mockReturnValue(
+      headersOf({ "x-forwarded-for": "203.0.113.9, 10.0.0.2", "user-agent": "curl/8.0" })
+    );
+
+    await recordAuditEvent({
+      eventType: "block.updated",
+      actorId: "u_1",
+      targetType: "block",
+      targetId: "blk_1",
+      data: { title: "SSO" },
+    });
+
+    expect(createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          eventType: "block.updated",
+          actorId: "u_1",
+          actorType: "user",
+          targetType: "block",
+          targetId: "blk_1",
+          teamId: null,
+          data: { title: "SSO" },
+          ipAddress: "203.0.113.9",
+          userAgent: "curl/8.0",
+        },
+      ],
+    });
+  });
+
+  it("codex: marks API key requests and actorless events outside a request", async () => {
+    requestHeaders.mockReturnValueOnce(headersOf({ authorization: "Bearer tt_abc123" }));
+    await recordAuditEvent({ eventType: "source.staged", actorId: "u_1" });
+    expect(createMany.mock.calls[0][0].data[0]).toMatchObject({ actorType: "api" });
+
+    requestHeaders.mockImplementationOnce(() => {
+      throw new Error("headers was called outside a request scope");
+    });
+    await recordAuditEvents([{ eventType: "source.staged" }, { eventType: "source.restaged" }]);
+    expect(createMany.mock.calls[1][0].data).toEqual([
+      expect.objectContaining({ eventType: "source.staged", actorType: "system", actorId: null, ipAddress: null }),
+      expect.objectContaining({ eventType: "source.restaged", actorType: "system" }),
+    ]);
+  });
+
+  it("codex: never throws when the write fails", async () => {
+    requestHeaders.mockReturnValue(headersOf({}));
+    createMany.mockRejectedValue(new Error("connection refused"));
+
+    await expect(recordAuditEvent({ eventType: "team.deleted", actorId: "u_1" })).resolves.toBeUndefined();
+    await recordAuditEvents([]);
+    expect(createMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("buildAuditLogWhere", () => {
+  it("codex: matches event type prefixes and inclusive date ranges", () => {
+    const from = new Date("2026-06-01T00:00:00Z");
+    const to = new Date("2026-06-30T23:59:59Z");
+
+    expect(buildAuditLogWhere({ eventType: "team.*", actorType: "api", from, to })).toEqual({
+      eventType: { startsWith: "team." },
+      actorType: "api",
+      createdAt: { gte: from, lte: to },
+    });
+    expect(buildAuditLogWhere({ eventType: "team.deleted", targetId: "team_1" })).toEqual({
+      eventType: "team.deleted",
+      targetId: "team_1",
+    });
+  });
+});
+
+describe("parseAuditLogQuery", () => {
+  it("codex: parses filters and pagination and rejects bad values", () => {
+    const parsed = parseAuditLogQuery(
+      new URLSearchParams("eventType=block.&actorType=user&from=2026-06-01&page=2&limit=25&teamId=")
+    );
+
+    expect(parsed).toEqual({
+      success: true,
+      data: {
+        page: 2,
+        limit: 25,
+        filters: expect.objectContaining({
+          eventType: "block.",
+          actorType: "user",
+          teamId: undefined,
+          from: new Date("2026-06-01"),
+        }),
+      },
+    });
+    expect(parseAuditLogQuery(new URLSearchParams())).toMatchObject({ success: true, data: { page: 1, limit: 50 } });
+    expect(parseAuditLogQuery(new URLSearchParams("limit=1000")).success).toBe(false);
+    expect(parseAuditLogQuery(new URLSearchParams("actorType=robot")).success).toBe(false);
+  });
+});
+
+describe("queryAuditLog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("codex: returns a page of events newest first with their actors", async () => {
+    const row = { ...entry, actor: undefined };
+    const findMany = vi.fn().mockResolvedValue([row, { ...row, id: "log_2", actorId: null, actorType: "system" }]);
+    prismaMock.auditLog = { findMany, count: vi.fn().mockResolvedValue(53) };
+    const findUsers = vi.fn().mockResolvedValue([entry.actor]);
+    prismaMock.user = { findMany: findUsers };
+
+    const result = await queryAuditLog({ eventType: "team." }, { page: 3, limit: 20 });
+
+    expect(findMany).toHaveBeenCalledWith({
+      where: { eventType: { startsWith: "team." } },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      skip: 40,
+      take: 20,
+    });
+    expect(result.pagination).toEqual({ page: 3, limit: 20, total: 53, totalPages: 3 });
+    expect(result.entries.map((e) => e.actor?.email ?? null)).toEqual(["alex@example.com", null]);
+    expect(findUsers).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { in: ["u_1"] } } })
+    );
+  });
+});
+
+describe("formatAuditLogRecord", () => {
+  it("codex: formats CSV rows with escaped JSON data", () => {
+    expect(formatAuditLogRecord(entry, "csv")).toBe(
+      [
+        "log_1",
+        "2026-06-10T12:00:00.000Z",
+        "team.member.added",
+        "user",
+        "u_1",
+        "alex@example.com",
+        "team",
+        "team_1",
+        "team_1",
+        "10.0.0.1",
+        "Mozilla/5.0",
+        '{""memberId"":""u_2"",""role"":""MEMBER"",""note"":""said \\""hi\\""""}',
+      ]
+        .map((value) => `"${value}"`)
+        .join(",")
+    );
+  });
+
+  it("codex: formats one JSON object per line", () => {
+    const line = formatAuditLogRecord(entry, "jsonl");
+
+    expect(line).not.toContain("\n");
+    expect(JSON.parse(line)).toMatchObject({
+      id: "log_1",
+      actorEmail: "alex@example.com",
+      data: { role: "MEMBER" },
+    });
+  });
+});
@@ -0,0 +1,50 @@
+// codex: unit tests for session revalidation in the NextAuth callbacks
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Session } from "next-auth";
+import type { JWT } from "next-auth/jwt";
+import { authOptions } from "@/lib/auth-v2";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+
+const { prismaMock } = getTestMocks();
+
+const findUnique = vi.fn();
+
+// Existing session: the token was issued at sign-in, before deprovisioning
+async function readSession(): Promise<Session> {
+  const token = (await authOptions.callbacks!.jwt!({
+    token: { sub: "user_1", email: "jane@example.com" },
+  } as never)) as JWT;
+
+  return authOptions.callbacks!.session!({
+    session: { user: { email: "jane@example.com" }, expires: "2099-01-01T00:00:00Z" },
+    token,
+  } as never) as Promise<Session>;
+}
+
+beforeEach(() => {
+  findUnique.mockReset();
+  prismaMock.user = { findUnique };
+  prismaMock.teamMembership = { findFirst: vi.fn().mockResolvedValue(null) };
+});
+
+describe("auth callbacks", () => {
+  it("codex: keeps the user id on an active user's session", async () => {
+    findUnique.mockResolvedValue({ id: "user_1", active: true });
+
+    const session = await readSession();
+
+    expect(session.user?.id).toBe("user_1");
+  });
+
+  it("codex: rejects a deactivated user's existing session", async () => {
+    findUnique.mockResolvedValue({ id: "user_1", active: false });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const session = await readSession();
+
+    expect(session.user?.id).toBeUndefined();
+    warn.mockRestore();
+  });
+});
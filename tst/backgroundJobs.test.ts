@@ -0,0 +1,124 @@
+// codex: unit tests for BackgroundJob state tracking and the Postgres fallback queue
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
+import { getRetryTime, markJobFailed } from "@/lib/queue/job-store";
+import { JOB_LEASE_MS, recoverStaleJobs, runClaimedJob, type ClaimedJob } from "@/lib/queue/postgres-queue";
+import { runQueuedJobInline } from "@/lib/queue/workers";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({
+  Prisma: { DbNull: "DbNull", sql: vi.fn(), join: vi.fn() },
+}));
+
+const { prismaMock } = getTestMocks();
+
+const update = vi.fn();
+
+function claimed(overrides: Partial<ClaimedJob> = {}): ClaimedJob {
+  return {
+    id: "job_1",
+    queueName: "file-processing",
+    jobType: "parse_document",
+    payload: { type: "parse_document", fileId: "src_1" },
+    attempts: 1,
+    maxAttempts: 3,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  update.mockReset();
+  update.mockResolvedValue({});
+  prismaMock.backgroundJob = { update };
+});
+
+describe("getRetryTime", () => {
+  it("codex: backs off exponentially from 5 seconds", () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    expect(getRetryTime(1, now).getTime() - now.getTime()).toBe(5000);
+    expect(getRetryTime(3, now).getTime() - now.getTime()).toBe(20000);
+  });
+});
+
+describe("markJobFailed", () => {
+  it("codex: schedules a retry while attempts remain", async () => {
+    const status = await markJobFailed("job_1", new Error("boom"), 1, 3);
+
+    expect(status).toBe("RETRYING");
+    const { data } = update.mock.calls[0][0];
+    expect(data.errorMessage).toBe("boom");
+    expect(data.scheduledFor).toBeInstanceOf(Date);
+    expect(data.completedAt).toBeUndefined();
+  });
+
+  it("codex: fails permanently on the last attempt", async () => {
+    const status = await markJobFailed("job_1", "timeout", 3, 3);
+
+    expect(status).toBe("FAILED");
+    const { data } = update.mock.calls[0][0];
+    expect(data.scheduledFor).toBeUndefined();
+    expect(data.completedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe("runClaimedJob", () => {
+  it("codex: passes the payload to the processor and stores its result", async () => {
+    const processor = vi.fn().mockResolvedValue({ success: true });
+
+    await runClaimedJob(claimed(), processor);
+
+    expect(processor.mock.calls[0][0].data).toEqual({ type: "parse_document", fileId: "src_1" });
+    const { where, data } = update.mock.calls[0][0];
+    expect(where).toEqual({ id: "job_1" });
+    expect(data.status).toBe("COMPLETED");
+    expect(data.result).toEqual({ success: true });
+  });
+
+  it("codex: records processor errors instead of throwing", async () => {
+    const processor = vi.fn().mockRejectedValue(new Error("S3 unavailable"));
+
+    await expect(runClaimedJob(claimed({ attempts: 3 }), processor)).resolves.toBe("FAILED");
+
+    const { data } = update.mock.calls[0][0];
+    expect(data.status).toBe("FAILED");
+    expect(data.errorMessage).toBe("S3 unavailable");
+  });
+});
+
+describe("recoverStaleJobs", () => {
+  it("codex: requeues PROCESSING rows whose lease expired", async () => {
+    prismaMock.$executeRaw = vi.fn().mockResolvedValue(2);
+    const now = new Date("2026-01-01T12:00:00Z");
+
+    await expect(recoverStaleJobs(["bulk-operations"], now)).resolves.toBe(2);
+
+    const cutoff = new Date(now.getTime() - JOB_LEASE_MS);
+    expect(vi.mocked(Prisma.sql).mock.lastCall).toContainEqual(cutoff);
+  });
+
+  it("codex: skips the query when no queues are polled", async () => {
+    prismaMock.$executeRaw = vi.fn();
+
+    await expect(recoverStaleJobs([])).resolves.toBe(0);
+    expect(prismaMock.$executeRaw).not.toHaveBeenCalled();
+  });
+});
+
+describe("runQueuedJobInline", () => {
+  it("codex: skips a job another worker already claimed", async () => {
+    prismaMock.$queryRaw = vi.fn().mockResolvedValue([]);
+
+    await expect(runQueuedJobInline("bulk-operations", "job_1")).resolves.toBeNull();
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("codex: runs the claimed job in-process and reports its final status", async () => {
+    prismaMock.$queryRaw = vi.fn().mockResolvedValue([
+      claimed({ queueName: "bulk-operations", jobType: "unknown", payload: { type: "unknown" }, maxAttempts: 1 }),
+    ]);
+
+    await expect(runQueuedJobInline("bulk-operations", "job_1")).resolves.toBe("FAILED");
+    const { data } = update.mock.calls[0][0];
+    expect(data.errorMessage).toBe("Unknown bulk job type: unknown");
+  });
+});
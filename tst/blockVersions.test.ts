@@ -0,0 +1,225 @@
+// codex: unit tests for skill version snapshots, diffs, restore and RFP version pins
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { buildSideBySideDiff, getChangedFields } from "@/lib/v2/blocks/version-diff";
+import { buildRestoredAttributes, restoreBlockVersion } from "@/lib/v2/blocks/block-version-service";
+import {
+  applyPinnedSkillVersions,
+  getRowSkillVersions,
+  pinProjectSkillVersions,
+  resolveUsedSkillVersions,
+} from "@/lib/v2/rfp/skill-version-pins";
+import { getTestMocks } from "./testUtils";
+
+const recordAuditEvent = vi.fn();
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+vi.mock("@/lib/v2/audit-log", () => ({
+  recordAuditEvent: (...args: unknown[]) => recordAuditEvent(...args),
+}));
+vi.mock("@/lib/v2/embeddings", () => ({
+  scheduleBlockEmbedding: vi.fn(),
+}));
+
+const { prismaMock } = getTestMocks();
+
+const block = {
+  id: "blk_1",
+  version: 3,
+  title: "SSO",
+  content: "We support SAML.\nMFA is required.\n",
+  summary: null,
+  categories: ["security"],
+  attributes: { usageCount: 12, history: [{ action: "updated" }], scopeDefinition: { covers: "SSO" } },
+  status: "ACTIVE",
+  teamId: "team_1",
+  libraryId: "knowledge",
+  gitPath: null,
+};
+
+describe("buildSideBySideDiff", () => {
+  it("codex: pairs removed and added lines as changes and keeps line numbers", () => {
+    const rows = buildSideBySideDiff("a\nb\nc\n", "a\nB\nc\nd\n");
+
+    expect(rows).toEqual([
+      { type: "unchanged", left: { lineNumber: 1, text: "a" }, right: { lineNumber: 1, text: "a" } },
+      { type: "changed", left: { lineNumber: 2, text: "b" }, right: { lineNumber: 2, text: "B" } },
+      { type: "unchanged", left: { lineNumber: 3, text: "c" }, right: { lineNumber: 3, text: "c" } },
+      { type: "added", left: null, right: { lineNumber: 4, text: "d" } },
+    ]);
+  });
+
+  it("codex: reports removed lines with no counterpart", () => {
+    const rows = buildSideBySideDiff("a\nb\nc\n", "a\n");
+
+    expect(rows.map((row) => row.type)).toEqual(["unchanged", "removed", "removed"]);
+    expect(rows[2].left).toEqual({ lineNumber: 3, text: "c" });
+  });
+});
+
+describe("getChangedFields", () => {
+  it("codex: lists changed fields and attribute keys", () => {
+    expect(
+      getChangedFields(
+        { title: "SSO", summary: null, categories: ["security"], attributes: { a: 1, b: [1] } },
+        { title: "SSO & MFA", summary: "", categories: ["security"], attributes: { a: 1, b: [2], c: true } }
+      )
+    ).toEqual(["title", "attributes.b", "attributes.c"]);
+  });
+});
+
+describe("restoreBlockVersion", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("codex: keeps usage and history attributes when restoring", () => {
+    expect(
+      buildRestoredAttributes(
+        { usageCount: 12, history: ["x"], scopeDefinition: { covers: "new" }, citations: [1] },
+        { usageCount: 2, history: [], scopeDefinition: { covers: "old" }, owners: ["u_old"] }
+      )
+    ).toEqual({ usageCount: 12, history: ["x"], scopeDefinition: { covers: "old" }, citations: [1] });
+  });
+
+  it("codex: writes the snapshot as a new version and records block.restored", async () => {
+    const upsert = vi.fn().mockResolvedValue({ id: "bbv" });
+    const update = vi.fn().mockResolvedValue({ ...block, version: 4, content: "We support SAML.\n" });
+    prismaMock.buildingBlock = { findUnique: vi.fn().mockResolvedValue(block), update };
+    prismaMock.buildingBlockVersion = {
+      findUnique: vi.fn().mockResolvedValue({
+        version: 1,
+        title: "SSO",
+        content: "We support SAML.\n",
+        summary: null,
+        categories: ["security"],
+        attributes: { usageCount: 0, scopeDefinition: { covers: "SAML" } },
+      }),
+      upsert,
+    };
+
+    const restored = await restoreBlockVersion("blk_1", 1, "u_1");
+
+    expect(restored.version).toBe(4);
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "blk_1" },
+      data: expect.objectContaining({
+        content: "We support SAML.\n",
+        version: { increment: 1 },
+        attributes: expect.objectContaining({
+          usageCount: 12,
+          scopeDefinition: { covers: "SAML" },
+          history: [{ action: "updated" }, expect.objectContaining({ action: "restored", user: "u_1" })],
+        }),
+      }),
+    });
+    // Outgoing version first (no-op if already captured), then the restore
+    expect(upsert.mock.calls.map(([args]) => [args.where, args.create.changeType])).toEqual([
+      [{ blockId_version: { blockId: "blk_1", version: 3 } }, "baseline"],
+      [{ blockId_version: { blockId: "blk_1", version: 4 } }, "restored"],
+    ]);
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: "block.restored",
+        targetId: "blk_1",
+        data: expect.objectContaining({ restoredVersion: 1, version: { from: 3, to: 4 } }),
+      })
+    );
+  });
+});
+
+describe("skill version pins", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.$transaction = vi.fn(async (operations: unknown[]) => operations);
+  });
+
+  it("codex: reads recorded versions and falls back to skill ids", () => {
+    expect(
+      getRowSkillVersions({ transparency: { skillIds: ["a"], skillVersions: [{ id: "a", version: 2 }] } })
+    ).toEqual([{ id: "a", version: 2 }]);
+    expect(getRowSkillVersions({ transparency: { skillIds: ["a", 3] } })).toEqual([{ id: "a" }]);
+    expect(getRowSkillVersions({ response: "x" })).toEqual([]);
+  });
+
+  it("codex: keeps the latest recorded version per skill", () => {
+    const used = resolveUsedSkillVersions([
+      { id: "a", version: 2 },
+      { id: "a", version: 5 },
+      { id: "a" },
+      { id: "b" },
+      { id: "c", version: 1 },
+    ]);
+
+    expect(Object.fromEntries(used)).toEqual({ a: 5, b: null, c: 1 });
+  });
+
+  it("codex: pins recorded versions, using the current version when none was recorded", async () => {
+    const createMany = vi.fn();
+    prismaMock.bulkRow = {
+      findMany: vi.fn().mockResolvedValue([
+        { outputData: { transparency: { skillVersions: [{ id: "blk_1", version: 2 }] } } },
+        { outputData: { transparency: { skillIds: ["blk_2"] } } },
+      ]),
+    };
+    prismaMock.buildingBlock = {
+      findMany: vi
+        .fn()
+        .mockResolvedValueOnce([block, { ...block, id: "blk_2", version: 7 }])
+        .mockResolvedValueOnce([{ id: "blk_1", version: 3 }]),
+    };
+    prismaMock.buildingBlockVersion = {
+      findUnique: vi
+        .fn()
+        .mockResolvedValueOnce({ id: "bbv_1_2" })
+        .mockResolvedValueOnce({ id: "bbv_2_7" }),
+    };
+    prismaMock.projectSkillPin = {
+      deleteMany: vi.fn(),
+      createMany,
+      findMany: vi.fn().mockResolvedValue([
+        {
+          blockId: "blk_1",
+          pinnedBy: "u_1",
+          pinnedAt: new Date(),
+          blockVersion: { id: "bbv_1_2", version: 2, title: "SSO", changeType: "updated", createdAt: new Date() },
+        },
+      ]),
+    };
+    prismaMock.bulkProject = { findUnique: vi.fn().mockResolvedValue({ name: "Acme RFP", teamId: "team_1" }) };
+
+    const pins = await pinProjectSkillVersions("proj_1", "u_1");
+
+    expect(createMany).toHaveBeenCalledWith({
+      data: [
+        { projectId: "proj_1", blockId: "blk_1", blockVersionId: "bbv_1_2", pinnedBy: "u_1" },
+        { projectId: "proj_1", blockId: "blk_2", blockVersionId: "bbv_2_7", pinnedBy: "u_1" },
+      ],
+    });
+    expect(pins[0]).toMatchObject({ blockId: "blk_1", version: 2, currentVersion: 3 });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: "project.skills_pinned",
+        targetId: "proj_1",
+        data: { name: "Acme RFP", skills: [{ blockId: "blk_1", version: 2 }] },
+      })
+    );
+  });
+
+  it("codex: answers from pinned snapshots instead of live content", async () => {
+    prismaMock.projectSkillPin = {
+      findMany: vi.fn().mockResolvedValue([
+        { blockId: "blk_1", blockVersion: { version: 2, title: "SSO (old)", content: "old" } },
+      ]),
+    };
+
+    const skills = await applyPinnedSkillVersions("proj_1", [
+      { id: "blk_1", title: "SSO", content: "new", version: 3 },
+      { id: "blk_2", title: "MFA", content: "mfa", version: 1 },
+    ]);
+
+    expect(skills).toEqual([
+      { id: "blk_1", title: "SSO (old)", content: "old", version: 2 },
+      { id: "blk_2", title: "MFA", content: "mfa", version: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+// codex: unit tests for branded Word and PDF collateral export
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import {
+  normalizeBrandColor,
+  orderSourcesByCitation,
+  readImageInfo,
+  splitCitations,
+  type DocumentBranding,
+  type ExportDocument,
+} from "@/lib/v2/collateral/document-export";
+import { exportToPdf, exportToWord } from "@/lib/v2/collateral/export-service";
+
+// 1x1 transparent PNG
+const LOGO = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+const branding: DocumentBranding = {
+  appName: "Acme Trust",
+  primaryColor: "123ABC",
+  logo: { data: LOGO, type: "png", width: 1, height: 1 },
+};
+
+const doc: ExportDocument = {
+  title: "Security Overview",
+  subtitle: "Globex Corp",
+  content: [
+    "# Overview",
+    "We encrypt data at rest with **AES-256**. [2]",
+    "## Access Control",
+    "- SSO via SAML [1]",
+    "- Quarterly reviews [2, 1]",
+    "| Control | Status |",
+    "|---|---|",
+    "| MFA | Enforced [1] |",
+    "Version [7] is not a citation.",
+  ].join("\n"),
+  sources: [
+    { id: "sk_1", title: "Identity and SSO" },
+    { id: "sk_2", title: "Encryption Standards", url: "https://example.com/encryption" },
+    { id: "sk_3", title: "Unused Skill" },
+  ],
+  generatedAt: new Date("2026-03-01T12:00:00Z"),
+};
+
+describe("document-export helpers", () => {
+  it("codex: splits citations and keeps markers without a source as text", () => {
+    expect(splitCitations("Uses OAuth. [2] See [1, 3].", 3)).toEqual([
+      { text: "Uses OAuth." },
+      { citation: 2 },
+      { text: " See" },
+      { citation: 1 },
+      { citation: 3 },
+      { text: "." },
+    ]);
+    expect(splitCitations("Version [7]", 3)).toEqual([{ text: "Version [7]" }]);
+  });
+
+  it("codex: numbers sources by first citation and lists uncited ones last", () => {
+    expect(orderSourcesByCitation(doc.content, doc.sources!)).toEqual([
+      { number: 1, source: doc.sources![1], cited: true },
+      { number: 2, source: doc.sources![0], cited: true },
+      { number: 3, source: doc.sources![2], cited: false },
+    ]);
+  });
+
+  it("codex: normalizes brand colors and reads logo dimensions", () => {
+    expect(normalizeBrandColor("#0ea5e9")).toBe("0EA5E9");
+    expect(normalizeBrandColor("#0af")).toBe("00AAFF");
+    expect(normalizeBrandColor("var(--accent-cyan)")).toBe("0EA5E9");
+    expect(readImageInfo(LOGO)).toEqual({ type: "png", width: 1, height: 1 });
+    expect(readImageInfo(Buffer.from("<svg/>"))).toBeNull();
+  });
+});
+
+describe("exportToWord", () => {
+  it("codex: renders cover, contents and one footnote per citation", async () => {
+    const result = await exportToWord(doc, branding);
+
+    expect(result).toMatchObject({ format: "word", fileName: "security-overview.docx" });
+    const zip = await JSZip.loadAsync(result.buffer!);
+    const document = (await zip.file("word/document.xml")?.async("string")) || "";
+    const footnotes = (await zip.file("word/footnotes.xml")?.async("string")) || "";
+    const styles = (await zip.file("word/styles.xml")?.async("string")) || "";
+
+    expect(zip.file(/^word\/media\//)).toHaveLength(1);
+    expect(document).toContain("Security Overview");
+    expect(document).toContain("Globex Corp");
+    expect(document).toContain("TOC \\h \\o &quot;1-3&quot;");
+    expect(document).toContain("Access Control");
+    expect(document.match(/<w:footnoteReference /g)).toHaveLength(5);
+    expect(document).toContain("Version [7] is not a citation.");
+    expect(footnotes).toContain("Source 1: Encryption Standards. https://example.com/encryption");
+    expect(footnotes).toContain("Source 2: Identity and SSO");
+    expect(styles).toContain('w:val="123ABC"');
+  });
+});
+
+describe("exportToPdf", () => {
+  it("codex: renders a multi-page PDF with outline and source links", async () => {
+    const result = await exportToPdf(doc, branding);
+
+    expect(result).toMatchObject({ format: "pdf", fileName: "security-overview.pdf", mimeType: "application/pdf" });
+    const pdf = result.buffer!.toString("latin1");
+    expect(pdf.startsWith("%PDF-")).toBe(true);
+    // Cover, contents and body
+    expect(pdf.match(/\/Type \/Page\b/g)).toHaveLength(3);
+    expect(pdf).toContain("/Outlines");
+    expect(pdf).toContain("(source-1)");
+    expect(pdf).toContain("(heading-0)");
+  });
+});
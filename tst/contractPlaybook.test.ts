@@ -0,0 +1,170 @@
+// codex: unit tests for contract playbook mode
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  applyPlaybook,
+  playbookAttributesSchema,
+  renderPlaybookForPrompt,
+  resolvePlaybookMatch,
+} from "@/lib/v2/contracts/contract-playbook";
+import { processContract } from "@/lib/v2/contracts/contract-processor";
+import type { PlaybookAttributes } from "@/types/v2";
+import { getTestMocks } from "./testUtils";
+
+const executeLLMCall = vi.fn();
+
+vi.mock("@/lib/llm/registry", () => ({
+  executeLLMCall: (...args: unknown[]) => executeLLMCall(...args),
+}));
+
+const { prismaMock } = getTestMocks();
+
+const liability = {
+  category: "limitation_of_liability",
+  label: "Limitation of Liability",
+  preferred: "Liability capped at 12 months of fees",
+  fallbacks: ["Liability capped at 24 months of fees", "Liability capped at 36 months of fees"],
+  walkAway: "Liability capped at 5x annual fees",
+};
+
+const playbook: PlaybookAttributes = {
+  contractType: "MSA",
+  positions: [
+    liability,
+    {
+      category: "data_residency",
+      preferred: "Customer data may be stored in any region we operate",
+      fallbacks: [],
+      walkAway: "Customer data stays in the EU",
+    },
+  ],
+};
+
+describe("resolvePlaybookMatch", () => {
+  it("codex: counters one step above the clause and opens with preferred when unacceptable", () => {
+    expect(resolvePlaybookMatch(liability, "preferred")).toEqual({
+      category: "limitation_of_liability",
+      tier: "preferred",
+    });
+    expect(resolvePlaybookMatch(liability, "fallback_2")?.nextPosition).toEqual({
+      tier: "fallback",
+      fallbackNumber: 1,
+      text: "Liability capped at 24 months of fees",
+    });
+    expect(resolvePlaybookMatch(liability, "walk_away")?.nextPosition).toMatchObject({
+      tier: "fallback",
+      fallbackNumber: 2,
+    });
+    expect(resolvePlaybookMatch(liability, "unacceptable")?.nextPosition).toMatchObject({
+      tier: "preferred",
+      text: liability.preferred,
+    });
+  });
+
+  it("codex: rejects tiers that are not on the ladder", () => {
+    expect(resolvePlaybookMatch(liability, "fallback_3")).toBeNull();
+    expect(resolvePlaybookMatch(liability, "mostly fine")).toBeNull();
+  });
+});
+
+describe("applyPlaybook", () => {
+  it("codex: derives rating and suggestion from the tier", () => {
+    expect(
+      applyPlaybook({ playbookCategory: "Data_Residency", playbookTier: "walk_away" }, playbook)
+    ).toEqual({
+      rating: "partial",
+      suggestedResponse: "Customer data may be stored in any region we operate",
+      playbookMatch: {
+        category: "data_residency",
+        tier: "walk_away",
+        nextPosition: { tier: "preferred", text: "Customer data may be stored in any region we operate" },
+      },
+    });
+    expect(applyPlaybook({ playbookCategory: "insurance", playbookTier: "preferred" }, playbook)).toBeNull();
+  });
+});
+
+describe("playbookAttributesSchema", () => {
+  it("codex: requires positions with unique categories", () => {
+    expect(playbookAttributesSchema.safeParse({ positions: [] }).success).toBe(false);
+    expect(playbookAttributesSchema.safeParse({ positions: [liability, liability] }).success).toBe(false);
+    expect(playbookAttributesSchema.safeParse(playbook).success).toBe(true);
+  });
+
+  it("codex: renders tier labels for the prompt", () => {
+    const rendered = renderPlaybookForPrompt("Standard MSA", playbook);
+    expect(rendered).toContain("PLAYBOOK: Standard MSA (MSA)");
+    expect(rendered).toContain("- fallback_2: Liability capped at 36 months of fees");
+    expect(rendered).toContain("- walk_away: Customer data stays in the EU");
+  });
+});
+
+describe("processContract in playbook mode", () => {
+  const rowUpdate = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.bulkProject = {
+      findUnique: vi.fn().mockResolvedValue({
+        id: "proj_1",
+        name: "Acme MSA",
+        projectType: "contract-review",
+        customerId: null,
+        fileContext: "Vendor liability is capped at 36 months of fees.",
+        rows: [{ id: "row_1" }],
+      }),
+      update: vi.fn(),
+    };
+    prismaMock.bulkRow = { update: rowUpdate };
+    prismaMock.buildingBlock = {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn().mockResolvedValue({
+        id: "pb_1",
+        title: "Standard MSA",
+        version: 3,
+        gitCommitSha: "abc123",
+        attributes: playbook,
+      }),
+    };
+    executeLLMCall.mockResolvedValue({
+      answer: JSON.stringify({
+        overallRating: "needs_review",
+        summary: "Liability cap is above our preferred position.",
+        findings: [
+          {
+            category: "limitation_of_liability",
+            clauseText: "Vendor liability is capped at 36 months of fees.",
+            rating: "risk",
+            rationale: "Matches the second fallback.",
+            suggestedResponse: "LLM wording",
+            playbookCategory: "limitation_of_liability",
+            playbookTier: "fallback_2",
+          },
+        ],
+      }),
+      transparency: { compositionId: "contract_playbook_analysis", blockIds: [], systemPrompt: "" },
+    });
+  });
+
+  it("codex: runs without skills and records the playbook version on the findings", async () => {
+    const result = await processContract({
+      projectId: "proj_1",
+      skillIds: [],
+      libraryId: "knowledge",
+      modelSpeed: "quality",
+      playbookId: "pb_1",
+    });
+
+    expect(result.status).toBe("COMPLETED");
+    expect(executeLLMCall.mock.calls[0][0].compositionId).toBe("contract_playbook_analysis");
+    expect(executeLLMCall.mock.calls[0][0].question).toContain("PLAYBOOK: Standard MSA");
+
+    const { outputData } = rowUpdate.mock.calls[0][0].data;
+    expect(outputData.playbook).toEqual({ id: "pb_1", title: "Standard MSA", version: 3, gitCommitSha: "abc123" });
+    expect(outputData.findings[0]).toMatchObject({
+      rating: "partial",
+      suggestedResponse: "Liability capped at 24 months of fees",
+      playbookMatch: { tier: "fallback", fallbackNumber: 2 },
+    });
+    expect(outputData.findings[0]).not.toHaveProperty("playbookTier");
+  });
+});
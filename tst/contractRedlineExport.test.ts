@@ -0,0 +1,132 @@
+// codex: unit tests for exporting contract findings as tracked-change redlines
+import { describe, it, expect } from "vitest";
+import { Document, Packer, Paragraph, TextRun } from "docx";
+import JSZip from "jszip";
+import {
+  findingsToRedlines,
+  normalizeForMatch,
+  writeRedlinesToDocx,
+  type Redline,
+} from "@/lib/v2/contracts/contract-redline-export";
+import type { ContractFinding } from "@/types/contractReview";
+
+async function buildContract(): Promise<Buffer> {
+  const doc = new Document({
+    sections: [
+      {
+        children: [
+          new Paragraph({ children: [new TextRun({ text: "Master Services Agreement", bold: true })] }),
+          new Paragraph({
+            children: [
+              new TextRun("12. Liability. Vendor shall be liable for "),
+              new TextRun({ text: "all damages", italics: true }),
+              new TextRun(" arising from any breach of this Agreement."),
+            ],
+          }),
+          new Paragraph("14. Audit. Customer may audit Vendor facilities at any time without notice."),
+        ],
+      },
+    ],
+  });
+  return Packer.toBuffer(doc);
+}
+
+async function readParts(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  return {
+    document: (await zip.file("word/document.xml")?.async("string")) || "",
+    comments: await zip.file("word/comments.xml")?.async("string"),
+    rels: (await zip.file("word/_rels/document.xml.rels")?.async("string")) || "",
+    contentTypes: (await zip.file("[Content_Types].xml")?.async("string")) || "",
+  };
+}
+
+const liability: Redline = {
+  findingId: "f1",
+  clauseText: "Vendor shall be liable for all damages arising from any breach",
+  suggestedText: "Vendor's liability is capped at the fees paid in the prior 12 months",
+  rating: "risk",
+  rationale: "Uncapped liability conflicts with our standard terms.",
+  citations: ["Limitation of Liability"],
+};
+
+describe("normalizeForMatch", () => {
+  it("codex: folds quotes and whitespace while mapping back to source offsets", () => {
+    const { normalized, map } = normalizeForMatch("  Vendor’s   Data\n");
+    expect(normalized).toBe("vendor's data");
+    expect(map[normalized.indexOf("data")]).toBe(13);
+  });
+});
+
+describe("findingsToRedlines", () => {
+  it("codex: prefers reviewer edits and cites skill titles", () => {
+    const [redline] = findingsToRedlines([
+      {
+        id: "f1",
+        clauseText: "Vendor shall be liable",
+        suggestedResponse: "Generated",
+        userEditedResponse: "Edited",
+        rating: "risk",
+        rationale: "Uncapped",
+        relevantSkills: [{ id: "sk_1", title: "Limitation of Liability" }, "Insurance"],
+      } as ContractFinding,
+    ]);
+
+    expect(redline).toMatchObject({ suggestedText: "Edited", citations: ["Limitation of Liability", "Insurance"] });
+  });
+});
+
+describe("writeRedlinesToDocx", () => {
+  it("codex: writes suggested language as tracked changes with a rationale comment", async () => {
+    const result = await writeRedlinesToDocx(await buildContract(), [liability], {
+      author: "Dana Reviewer",
+      date: new Date("2026-03-01T12:00:00Z"),
+    });
+
+    expect(result.applied).toBe(1);
+    expect(result.skipped).toEqual([]);
+
+    const { document, comments, rels, contentTypes } = await readParts(result.buffer);
+    const deleted = [...document.matchAll(/<w:delText[^>]*>([^<]*)<\/w:delText>/g)].map((m) => m[1]).join("");
+    expect(deleted).toBe("Vendor shall be liable for all damages arising from any breach");
+    expect(document).toContain('w:author="Dana Reviewer" w:date="2026-03-01T12:00:00Z"');
+    expect(document).toMatch(/<w:ins [^>]*>.*Vendor's liability is capped/);
+    // Text outside the clause is kept as normal runs
+    expect(document).toContain("12. Liability. </w:t>");
+    expect(document).toContain(" of this Agreement.</w:t>");
+    expect(document).toMatch(/<w:commentRangeStart w:id="(\d+)"\/>[\s\S]*<w:commentReference w:id="\1"\/>/);
+
+    expect(comments).toContain("Risk: Uncapped liability conflicts with our standard terms.");
+    expect(comments).toContain("Sources: Limitation of Liability");
+    expect(comments).toContain('w:initials="DR"');
+    expect(rels).toContain('Target="comments.xml"');
+    expect(contentTypes).toContain('PartName="/word/comments.xml"');
+  });
+
+  it("codex: comments on flagged clauses without suggestions and reports misses", async () => {
+    const result = await writeRedlinesToDocx(await buildContract(), [
+      {
+        findingId: "f2",
+        clauseText: "Customer may audit Vendor facilities at any time without notice",
+        rating: "gap",
+        rationale: "We require 30 days notice for audits.",
+        citations: [],
+      },
+      { ...liability, findingId: "f3", clauseText: "Vendor indemnifies Customer against all claims" },
+      { ...liability, findingId: "f4", suggestedText: undefined, rating: "can_comply" },
+    ]);
+
+    expect(result.applied).toBe(1);
+    expect(result.skipped).toEqual([
+      { findingId: "f3", reason: "clause_not_found" },
+      { findingId: "f4", reason: "nothing_to_suggest" },
+    ]);
+
+    const { document, comments } = await readParts(result.buffer);
+    expect(document).not.toContain("<w:del ");
+    expect(document).not.toContain("<w:ins ");
+    expect(document).toContain("<w:commentRangeStart");
+    expect(comments).toContain("Gap: We require 30 days notice for audits.");
+    expect(comments).not.toContain("Sources:");
+  });
+});
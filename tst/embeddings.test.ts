@@ -0,0 +1,132 @@
+// codex: unit tests for embedding-based skill matching
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  cosineSimilarity,
+  embedLocally,
+  getEmbeddingProvider,
+  scoreSkillsByEmbedding,
+} from "@/lib/v2/embeddings";
+import {
+  combineKeywordAndEmbeddingMatches,
+  type ContentSkillMatch,
+} from "@/lib/v2/matching/content-skill-matcher";
+import { applySemanticMatches, type SkillMatch } from "@/lib/v2/rfp/question-scope-matcher";
+import { getTestMocks } from "./testUtils";
+
+const { prismaMock } = getTestMocks();
+
+const ssoSkill = {
+  id: "sso",
+  title: "Single Sign-On",
+  scopeDefinition: {
+    covers: "SAML login and Okta identity provider configuration",
+    futureAdditions: [],
+    notIncluded: [],
+  },
+};
+
+const pricingSkill = {
+  id: "pricing",
+  title: "Pricing",
+  scopeDefinition: {
+    covers: "Plan tiers, seat costs and invoicing",
+    futureAdditions: [],
+    notIncluded: [],
+  },
+};
+
+function match(skillId: string, score: number, strategy: ContentSkillMatch["matchStrategy"]): ContentSkillMatch {
+  return {
+    skillId,
+    skillTitle: skillId,
+    score,
+    confidence: "low",
+    matchedTerms: strategy === "keyword" ? ["term"] : [],
+    reason: strategy,
+    matchStrategy: strategy,
+  };
+}
+
+describe("local embeddings", () => {
+  it("codex: computes cosine similarity", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+
+  it("codex: is deterministic and normalized", () => {
+    const a = embedLocally("Is customer data encrypted at rest?");
+    const b = embedLocally("Is customer data encrypted at rest?");
+    expect(a).toEqual(b);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+  });
+
+  it("codex: places synonyms closer than unrelated topics", () => {
+    const question = embedLocally("Do you support SSO?");
+    const saml = embedLocally("SAML login via Okta");
+    const pricing = embedLocally("Plan tiers, seat costs and invoicing");
+    expect(cosineSimilarity(question, saml)).toBeGreaterThan(cosineSimilarity(question, pricing));
+  });
+
+  it("codex: falls back to the local model and flags it as not semantic", () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "http");
+    vi.stubEnv("EMBEDDING_API_URL", "");
+
+    const provider = getEmbeddingProvider();
+    expect(provider.id).toBe("local");
+    expect(provider.semantic).toBe(false);
+
+    vi.unstubAllEnvs();
+  });
+});
+
+describe("scoreSkillsByEmbedding", () => {
+  beforeEach(() => {
+    prismaMock.buildingBlockEmbedding = { findMany: vi.fn().mockResolvedValue([]) };
+  });
+
+  it("codex: embeds unindexed skills on the fly and ranks by similarity", async () => {
+    const scores = await scoreSkillsByEmbedding(["Do you support SSO?"], [ssoSkill, pricingSkill]);
+    const sso = scores.find(s => s.skillId === "sso")!;
+    const pricing = scores.find(s => s.skillId === "pricing")!;
+    expect(sso.score).toBeGreaterThan(pricing.score);
+    expect(sso.field).toBe("scope");
+  });
+
+  it("codex: returns nothing for empty input", async () => {
+    expect(await scoreSkillsByEmbedding([], [ssoSkill])).toEqual([]);
+  });
+});
+
+describe("combineKeywordAndEmbeddingMatches", () => {
+  it("codex: surfaces embedding-only matches and rewards agreement", () => {
+    const combined = combineKeywordAndEmbeddingMatches(
+      [match("a", 0.4, "keyword")],
+      [match("a", 0.5, "embedding"), match("b", 0.7, "embedding")]
+    );
+    expect(combined.map(m => m.skillId)).toEqual(["b", "a"]);
+    expect(combined[1].score).toBeCloseTo(0.6);
+    expect(combined[1].matchedTerms).toEqual(["term"]);
+  });
+});
+
+describe("applySemanticMatches", () => {
+  it("codex: promotes low LLM ratings with strong similarity only", () => {
+    const matches: SkillMatch[] = [
+      { skillId: "a", skillTitle: "A", confidence: "high", reason: "llm" },
+      { skillId: "b", skillTitle: "B", confidence: "low", reason: "llm" },
+      { skillId: "c", skillTitle: "C", confidence: "low", reason: "llm" },
+    ];
+    const result = applySemanticMatches(matches, [
+      { skillId: "a", score: 0 },
+      { skillId: "b", score: 0.45 },
+      { skillId: "c", score: 0.1 },
+    ]);
+    expect(result.map(m => [m.skillId, m.confidence])).toEqual([
+      ["a", "high"],
+      ["b", "medium"],
+      ["c", "low"],
+    ]);
+    expect(result[1].reason).toContain("45%");
+  });
+});
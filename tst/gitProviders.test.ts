@@ -0,0 +1,322 @@
+// codex: unit tests for the GitLab and Bitbucket Server git providers against a local fake server
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { GitLabApiProvider } from "@/lib/git-providers/gitlab-api.provider";
+import { BitbucketServerProvider } from "@/lib/git-providers/bitbucket-server.provider";
+import { BitbucketServerApiError } from "@/lib/git-providers/bitbucket-server.client";
+import {
+  getGitProviderForLibrary,
+  getGitProviderType,
+  isApiProvider,
+  resetGitProvider,
+} from "@/lib/git-providers";
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+type Handler = (req: RecordedRequest) => Promise<{ status: number; body?: unknown }> | { status: number; body?: unknown };
+
+const author = { name: "Ada", email: "ada@example.com" };
+
+let server: http.Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: RecordedRequest[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", async () => {
+      const url = new URL(req.url || "/", "http://localhost");
+      const recorded = {
+        method: req.method || "GET",
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: Buffer.concat(chunks),
+      };
+      requests.push(recorded);
+      const { status, body } = await handler(recorded);
+      res.writeHead(status, { "Content-Type": typeof body === "string" ? "text/plain" : "application/json" });
+      res.end(body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+/**
+ * Minimal GitLab v4 backed by an in-memory branch
+ */
+function fakeGitLab(files: Map<string, string>): Handler {
+  const projectPrefix = `/api/v4/projects/${encodeURIComponent("docs/knowledge")}`;
+  const commits: Array<{ id: string; message: string; paths: string[] }> = [];
+
+  return (req) => {
+    if (req.headers["private-token"] !== "gl-token") return { status: 401 };
+    const path = req.path.slice(projectPrefix.length);
+
+    if (path.startsWith("/repository/files/")) {
+      const filePath = decodeURIComponent(path.slice("/repository/files/".length));
+      const content = files.get(filePath);
+      if (content === undefined) return { status: 404, body: { message: "404 File Not Found" } };
+      return {
+        status: 200,
+        body: {
+          file_path: filePath,
+          encoding: "base64",
+          content: Buffer.from(content).toString("base64"),
+          blob_id: "blob",
+          last_commit_id: commits.at(-1)?.id ?? "root",
+        },
+      };
+    }
+
+    if (path === "/repository/commits" && req.method === "POST") {
+      const payload = JSON.parse(req.body.toString());
+      for (const action of payload.actions) {
+        const content = action.content !== undefined ? Buffer.from(action.content, "base64").toString() : undefined;
+        const exists = files.has(action.file_path);
+        if ((action.action === "create" && exists) || (action.action === "update" && !exists)) {
+          return { status: 400, body: { message: `Invalid ${action.action} of ${action.file_path}` } };
+        }
+        if (action.action === "delete") files.delete(action.file_path);
+        if (action.action === "move") files.delete(action.previous_path);
+        if (content !== undefined) files.set(action.file_path, content);
+      }
+      const commit = {
+        id: `gl${commits.length + 1}`,
+        message: payload.commit_message,
+        paths: payload.actions.map((a: { file_path: string }) => a.file_path),
+      };
+      commits.push(commit);
+      return { status: 201, body: { id: commit.id } };
+    }
+
+    if (path === "/repository/commits" && req.method === "GET") {
+      return {
+        status: 200,
+        body: commits
+          .filter((commit) => commit.paths.includes(req.query.get("path") || ""))
+          .reverse()
+          .map((commit) => ({
+            id: commit.id,
+            message: commit.message,
+            author_name: "Ada",
+            author_email: "ada@example.com",
+            authored_date: "2026-10-01T00:00:00.000Z",
+          })),
+      };
+    }
+
+    return { status: 404 };
+  };
+}
+
+describe("GitLabApiProvider", () => {
+  let files: Map<string, string>;
+  let provider: GitLabApiProvider;
+
+  beforeEach(() => {
+    files = new Map([["knowledge/knowledge/sso.md", "SSO"]]);
+    handler = fakeGitLab(files);
+    provider = new GitLabApiProvider({ baseUrl, projectId: "docs/knowledge", branch: "main", token: "gl-token" });
+  });
+
+  it("codex: creates new files and updates existing ones with the author set", async () => {
+    const created = await provider.createOrUpdateFile("knowledge/knowledge/mfa.md", "MFA", "Add MFA", author);
+    const updated = await provider.createOrUpdateFile("knowledge/knowledge/sso.md", "SSO v2", "Update SSO", author);
+
+    expect(created).toEqual({ sha: "gl1", branch: "main" });
+    expect(updated).toEqual({ sha: "gl2", branch: "main" });
+
+    const commitBodies = requests
+      .filter((req) => req.method === "POST")
+      .map((req) => JSON.parse(req.body.toString()));
+    expect(commitBodies.map((body) => body.actions[0].action)).toEqual(["create", "update"]);
+    expect(commitBodies[0]).toMatchObject({ branch: "main", author_name: "Ada", author_email: "ada@example.com" });
+
+    expect(await provider.getFileContent("knowledge/knowledge/sso.md")).toBe("SSO v2");
+    expect(await provider.getFileContent("knowledge/knowledge/missing.md")).toBeNull();
+  });
+
+  it("codex: commits a rename as a single move", async () => {
+    const result = await provider.commitFiles(
+      [
+        { path: "knowledge/knowledge/sso.md", content: null },
+        { path: "knowledge/knowledge/single-sign-on.md", content: "SSO" },
+      ],
+      "Rename SSO",
+      author
+    );
+
+    expect(result.sha).toBe("gl1");
+    const body = JSON.parse(requests.find((req) => req.method === "POST")!.body.toString());
+    expect(body.actions).toEqual([
+      expect.objectContaining({
+        action: "move",
+        file_path: "knowledge/knowledge/single-sign-on.md",
+        previous_path: "knowledge/knowledge/sso.md",
+      }),
+    ]);
+    expect(Array.from(files.keys())).toEqual(["knowledge/knowledge/single-sign-on.md"]);
+  });
+
+  it("codex: deletes files and treats missing files as already deleted", async () => {
+    expect(await provider.deleteFile("knowledge/knowledge/sso.md", "Remove SSO", author)).toEqual({
+      sha: "gl1",
+      branch: "main",
+    });
+    expect(await provider.deleteFile("knowledge/knowledge/sso.md", "Remove SSO", author)).toEqual({
+      sha: null,
+      branch: "main",
+    });
+    expect(files.size).toBe(0);
+  });
+
+  it("codex: maps file history", async () => {
+    await provider.createOrUpdateFile("knowledge/knowledge/sso.md", "SSO v2", "Update SSO", author);
+
+    expect(await provider.getFileHistory("knowledge/knowledge/sso.md", 5)).toEqual([
+      { sha: "gl1", author: "Ada", email: "ada@example.com", date: "2026-10-01T00:00:00.000Z", message: "Update SSO" },
+    ]);
+    const historyRequest = requests.find((req) => req.method === "GET" && req.path.endsWith("/repository/commits"))!;
+    expect(historyRequest.query.get("ref_name")).toBe("main");
+    expect(historyRequest.query.get("per_page")).toBe("5");
+  });
+});
+
+describe("BitbucketServerProvider", () => {
+  const repoPrefix = "/rest/api/1.0/projects/DOCS/repos/knowledge";
+  let files: Map<string, string>;
+  let provider: BitbucketServerProvider;
+  let writes: Array<Record<string, string>>;
+
+  beforeEach(() => {
+    files = new Map([["knowledge/it/vpn.md", "VPN"]]);
+    writes = [];
+    handler = async (req) => {
+      if (req.headers.authorization !== "Bearer bb-token") return { status: 401 };
+      const path = req.path.slice(repoPrefix.length);
+
+      if (path.startsWith("/raw/")) {
+        const content = files.get(decodeURIComponent(path.slice("/raw/".length)));
+        return content === undefined ? { status: 404, body: { errors: [] } } : { status: 200, body: content };
+      }
+      if (path === "/commits") {
+        const known = files.has(req.query.get("path") || "");
+        return {
+          status: 200,
+          body: {
+            values: known
+              ? [{ id: "bb0", message: "Initial", author: { name: "Ada", emailAddress: "ada@example.com" }, authorTimestamp: 0 }]
+              : [],
+          },
+        };
+      }
+      if (path.startsWith("/browse/") && req.method === "PUT") {
+        const form = await new Response(new Uint8Array(req.body), {
+          headers: { "content-type": req.headers["content-type"] as string },
+        }).formData();
+        const fields = Object.fromEntries(Array.from(form.entries()).map(([key, value]) => [key, String(value)]));
+        writes.push(fields);
+        files.set(decodeURIComponent(path.slice("/browse/".length)), fields.content);
+        return { status: 200, body: { id: `bb${writes.length}` } };
+      }
+      return { status: 404 };
+    };
+    provider = new BitbucketServerProvider({
+      baseUrl,
+      projectKey: "DOCS",
+      repoSlug: "knowledge",
+      branch: "main",
+      token: "bb-token",
+    });
+  });
+
+  it("codex: writes files through the edit endpoint, guarding updates with sourceCommitId", async () => {
+    expect(await provider.createOrUpdateFile("knowledge/it/new laptop.md", "Laptops", "Add laptops", author)).toEqual({
+      sha: "bb1",
+      branch: "main",
+    });
+    await provider.createOrUpdateFile("knowledge/it/vpn.md", "VPN v2", "Update VPN", author);
+
+    expect(writes).toEqual([
+      { branch: "main", content: "Laptops", message: "Add laptops" },
+      { branch: "main", content: "VPN v2", message: "Update VPN", sourceCommitId: "bb0" },
+    ]);
+    const put = requests.find((req) => req.method === "PUT")!;
+    expect(put.path).toBe(`${repoPrefix}/browse/knowledge/it/new%20laptop.md`);
+    expect(put.headers["x-atlassian-token"]).toBe("no-check");
+    expect(await provider.getFileContent("knowledge/it/vpn.md")).toBe("VPN v2");
+  });
+
+  it("codex: rejects batches with deletes before writing anything", async () => {
+    await expect(
+      provider.commitFiles(
+        [
+          { path: "knowledge/it/vpn.md", content: null },
+          { path: "knowledge/it/remote-access.md", content: "VPN" },
+        ],
+        "Rename VPN",
+        author
+      )
+    ).rejects.toMatchObject({ name: "BitbucketServerApiError", status: 501 });
+    expect(writes).toEqual([]);
+
+    await expect(provider.deleteFile("knowledge/it/vpn.md")).rejects.toBeInstanceOf(BitbucketServerApiError);
+    expect(await provider.deleteFile("knowledge/it/missing.md")).toEqual({ sha: null, branch: "main" });
+  });
+});
+
+describe("getGitProviderForLibrary", () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    resetGitProvider();
+    process.env.GIT_SYNC_ENABLED = "true";
+    process.env.GIT_PROVIDER = "local";
+    process.env.GIT_PROVIDER_KNOWLEDGE = "gitlab-api";
+    process.env.GITLAB_PROJECT_KNOWLEDGE = "docs/knowledge";
+    process.env.GITLAB_TOKEN = "gl-token";
+    process.env.GITLAB_URL = "https://gitlab.example.com";
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+    resetGitProvider();
+  });
+
+  it("codex: selects a provider per library with library-scoped settings", () => {
+    const provider = getGitProviderForLibrary("knowledge");
+
+    expect(provider.providerType).toBe("gitlab-api");
+    expect(isApiProvider(provider)).toBe(true);
+    expect(getGitProviderForLibrary("knowledge")).toBe(provider);
+    expect(getGitProviderType("it")).toBe("local");
+  });
+
+  it("codex: falls back to noop when the selected provider is not configured", () => {
+    process.env.GIT_PROVIDER_IT = "bitbucket-server";
+
+    const provider = getGitProviderForLibrary("it");
+
+    expect(provider.providerType).toBe("noop");
+    expect(isApiProvider(provider)).toBe(false);
+  });
+});
@@ -0,0 +1,364 @@
+// codex: unit tests for three-way block merges, git conflicts, pull-request review and provider webhooks
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHmac } from "crypto";
+import { mergeThreeWay, mergeValue, renderMergeChunks } from "@/lib/v2/git-sync/three-way-merge";
+import { applyRemoteChange, GitSyncError, resolveGitConflict } from "@/lib/v2/git-sync/block-git-merge";
+import { closePullRequest, proposeBlockChanges } from "@/lib/v2/git-sync/block-git-review";
+import { parseGitWebhook, verifyGitWebhook } from "@/lib/v2/git-sync/git-webhooks";
+import type { PullRequestProvider } from "@/lib/git-providers";
+import { getTestMocks } from "./testUtils";
+
+const recordAuditEvent = vi.fn();
+const recordAuditEvents = vi.fn();
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+vi.mock("@/lib/v2/audit-log", () => ({
+  recordAuditEvent: (...args: unknown[]) => recordAuditEvent(...args),
+  recordAuditEvents: (...args: unknown[]) => recordAuditEvents(...args),
+}));
+vi.mock("@/lib/v2/embeddings", () => ({
+  scheduleBlockEmbedding: vi.fn(),
+}));
+
+const { prismaMock } = getTestMocks();
+
+const block = {
+  id: "blk_1",
+  version: 4,
+  title: "SSO",
+  content: "We support SAML.\nMFA is required.\nSessions expire after 8 hours.",
+  summary: null,
+  categories: ["security"],
+  attributes: {},
+  status: "ACTIVE",
+  teamId: "team_1",
+  libraryId: "knowledge",
+  gitPath: "knowledge/knowledge/sso.md",
+  gitCommitSha: "base_sha",
+  syncStatus: "LOCAL_CHANGES",
+};
+
+const base = { title: "SSO", content: "We support SAML.\nMFA is optional.\nSessions expire after 8 hours." };
+
+function remoteFile(title: string, content: string) {
+  return { title, content, frontmatter: { id: "blk_1", title, status: "ACTIVE", categories: ["security"] } };
+}
+
+function mockBlockWrites() {
+  const update = vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ ...block, ...data, version: 5 }));
+  const upsert = vi.fn().mockResolvedValue({ id: "bbv" });
+  prismaMock.buildingBlock = { update };
+  prismaMock.buildingBlockVersion = { upsert };
+  prismaMock.blockGitConflict = {
+    findFirst: vi.fn().mockResolvedValue(null),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  };
+  return { update, upsert };
+}
+
+describe("mergeThreeWay", () => {
+  it("codex: combines changes to different lines", () => {
+    const result = mergeThreeWay("a\nb\nc\nd", "A\nb\nc\nd", "a\nb\nc\nD");
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe("A\nb\nc\nD");
+  });
+
+  it("codex: reports the same line changed differently as a conflict", () => {
+    const result = mergeThreeWay("a\nb\nc", "a\nB1\nc", "a\nB2\nc");
+
+    expect(result.clean).toBe(false);
+    expect(result.chunks).toEqual([
+      { type: "stable", lines: ["a"] },
+      { type: "conflict", base: ["b"], ours: ["B1"], theirs: ["B2"] },
+      { type: "stable", lines: ["c"] },
+    ]);
+    expect(result.content).toContain("<<<<<<< database\nB1\n=======\nB2\n>>>>>>> git");
+    expect(renderMergeChunks(result.chunks, ["theirs"])).toBe("a\nB2\nc");
+    expect(renderMergeChunks(result.chunks, ["both"])).toBe("a\nB1\nB2\nc");
+  });
+
+  it("codex: takes whichever side changed a single value", () => {
+    expect(mergeValue("SSO", "SSO", "Single sign-on")).toEqual({ clean: true, value: "Single sign-on" });
+    expect(mergeValue("SSO", "SAML", "OIDC")).toEqual({ clean: false, value: "SAML" });
+  });
+});
+
+describe("applyRemoteChange", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("codex: fast-forwards a block without local edits", async () => {
+    const { update } = mockBlockWrites();
+
+    const result = await applyRemoteChange({
+      block: { ...block, syncStatus: "SYNCED" } as never,
+      gitPath: block.gitPath,
+      remote: remoteFile("SSO", "We support SAML and OIDC."),
+      remoteCommitSha: "remote_sha",
+      base: null,
+    });
+
+    expect(result).toBe("updated");
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "blk_1" },
+      data: expect.objectContaining({
+        content: "We support SAML and OIDC.",
+        version: { increment: 1 },
+        gitCommitSha: "remote_sha",
+        syncStatus: "SYNCED",
+      }),
+    });
+  });
+
+  it("codex: merges edits to different lines and leaves the result to push", async () => {
+    const { update, upsert } = mockBlockWrites();
+
+    const result = await applyRemoteChange({
+      block: block as never,
+      gitPath: block.gitPath,
+      remote: remoteFile("SSO", "We support SAML.\nMFA is optional.\nSessions expire after 12 hours."),
+      remoteCommitSha: "remote_sha",
+      base,
+    });
+
+    expect(result).toBe("merged");
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "blk_1" },
+      data: expect.objectContaining({
+        content: "We support SAML.\nMFA is required.\nSessions expire after 12 hours.",
+        gitCommitSha: "remote_sha",
+        syncStatus: "LOCAL_CHANGES",
+      }),
+    });
+    expect(upsert.mock.calls.map(([args]) => args.create.changeType)).toEqual(["baseline", "git_sync"]);
+  });
+
+  it("codex: stores a conflict when both sides changed the same line", async () => {
+    const { update } = mockBlockWrites();
+    const create = (prismaMock.blockGitConflict as { create: ReturnType<typeof vi.fn> }).create;
+
+    const result = await applyRemoteChange({
+      block: block as never,
+      gitPath: block.gitPath,
+      remote: remoteFile("SSO", "We support SAML.\nMFA is enforced for admins.\nSessions expire after 8 hours."),
+      remoteCommitSha: "remote_sha",
+      base,
+    });
+
+    expect(result).toBe("conflict");
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        blockId: "blk_1",
+        baseCommitSha: "base_sha",
+        remoteCommitSha: "remote_sha",
+        baseContent: base.content,
+        localContent: block.content,
+        localVersion: 4,
+        remoteContent: "We support SAML.\nMFA is enforced for admins.\nSessions expire after 8 hours.",
+      }),
+    });
+    expect(update).toHaveBeenCalledWith({ where: { id: "blk_1" }, data: { syncStatus: "CONFLICT" } });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: "block.git_conflict", targetId: "blk_1" })
+    );
+  });
+});
+
+describe("resolveGitConflict", () => {
+  const conflict = {
+    id: "conf_1",
+    blockId: "blk_1",
+    gitPath: block.gitPath,
+    remoteCommitSha: "remote_sha",
+    remoteTitle: "SSO",
+    remoteContent: "git content",
+    status: "OPEN",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("codex: taking git's side marks the block synced at the remote commit", async () => {
+    const { update } = mockBlockWrites();
+    prismaMock.buildingBlock = { ...(prismaMock.buildingBlock as object), findUnique: vi.fn().mockResolvedValue(block) };
+    const conflicts = prismaMock.blockGitConflict as Record<string, ReturnType<typeof vi.fn>>;
+    conflicts.findFirst.mockResolvedValue(conflict);
+
+    await resolveGitConflict("blk_1", { title: "SSO", content: "git content", expectedVersion: 4 }, "u_1");
+
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "blk_1" },
+      data: expect.objectContaining({ content: "git content", gitCommitSha: "remote_sha", syncStatus: "SYNCED" }),
+    });
+    expect(conflicts.updateMany).toHaveBeenCalledWith({
+      where: { blockId: "blk_1", status: "OPEN" },
+      data: expect.objectContaining({ status: "RESOLVED", resolution: "remote", resolvedBy: "u_1" }),
+    });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: "block.git_conflict_resolved", data: expect.objectContaining({ resolution: "remote" }) })
+    );
+  });
+
+  it("codex: rejects a resolution made against an older version of the block", async () => {
+    mockBlockWrites();
+    prismaMock.buildingBlock = { findUnique: vi.fn().mockResolvedValue({ ...block, version: 5 }) };
+    (prismaMock.blockGitConflict as Record<string, ReturnType<typeof vi.fn>>).findFirst.mockResolvedValue(conflict);
+
+    const attempt = resolveGitConflict("blk_1", { title: "SSO", content: "x", expectedVersion: 4 }, "u_1");
+
+    await expect(attempt).rejects.toBeInstanceOf(GitSyncError);
+    await expect(attempt).rejects.toMatchObject({ status: 409 });
+  });
+});
+
+describe("proposeBlockChanges", () => {
+  const author = { name: "Ada", email: "ada@example.com" };
+
+  function fakeProvider() {
+    const branchCommits: Array<{ branch: string; paths: string[] }> = [];
+    const provider = {
+      providerType: "github-api",
+      createBranch: vi.fn(),
+      forBranch: vi.fn((branch: string) => ({
+        commitFiles: vi.fn(async (changes: Array<{ path: string }>) => {
+          branchCommits.push({ branch, paths: changes.map((change) => change.path) });
+          return { sha: "pr_sha", branch };
+        }),
+      })),
+      openPullRequest: vi.fn().mockResolvedValue({
+        id: "42",
+        url: "https://github.com/acme/kb/pull/42",
+        state: "open",
+        sourceBranch: "ignored",
+        mergeCommitSha: null,
+      }),
+      getCurrentBranch: vi.fn().mockResolvedValue("main"),
+    };
+    return { provider: provider as unknown as PullRequestProvider & typeof provider, branchCommits };
+  }
+
+  const change = {
+    blockId: "blk_1",
+    title: "SSO",
+    slug: "sso",
+    version: 4,
+    teamId: "team_1",
+    changes: [{ path: "knowledge/knowledge/sso.md", content: "---\n---\nbody" }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("codex: opens a branch and pull request and marks the blocks in review", async () => {
+    const { provider, branchCommits } = fakeProvider();
+    const create = vi.fn(async ({ data }: { data: object }) => ({ id: "gpr_1", ...data }));
+    const updateMany = vi.fn();
+    prismaMock.gitPullRequest = { findMany: vi.fn().mockResolvedValue([]), create };
+    prismaMock.buildingBlock = { updateMany };
+
+    const [pr] = await proposeBlockChanges({ provider, libraryId: "knowledge", blocks: [change], author, actorId: "u_1" });
+
+    const branch = provider.createBranch.mock.calls[0][0] as string;
+    expect(branch).toMatch(/^knowledge-sync\/knowledge\/sso-[a-z0-9]+$/);
+    expect(branchCommits).toEqual([{ branch, paths: ["knowledge/knowledge/sso.md"] }]);
+    expect(provider.openPullRequest).toHaveBeenCalledWith(branch, "Update knowledge: SSO", expect.stringContaining("- SSO (v4)"));
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        externalId: "42",
+        branch,
+        baseBranch: "main",
+        blockIds: ["blk_1"],
+        blockVersions: { blk_1: 4 },
+        createdBy: "u_1",
+      }),
+    });
+    expect(pr).toMatchObject({ id: "gpr_1" });
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["blk_1"] } },
+      data: { syncStatus: "PENDING_REVIEW" },
+    });
+    expect(recordAuditEvents).toHaveBeenCalledWith([
+      expect.objectContaining({ eventType: "block.review_requested", targetId: "blk_1" }),
+    ]);
+  });
+
+  it("codex: pushes further edits to the block's open pull request", async () => {
+    const { provider, branchCommits } = fakeProvider();
+    const update = vi.fn().mockResolvedValue({ id: "gpr_1" });
+    prismaMock.gitPullRequest = {
+      findMany: vi.fn().mockResolvedValue([
+        { id: "gpr_1", branch: "knowledge-sync/knowledge/sso-abc", blockIds: ["blk_1"], blockVersions: { blk_1: 3 } },
+      ]),
+      update,
+    };
+    prismaMock.buildingBlock = { updateMany: vi.fn() };
+
+    await proposeBlockChanges({ provider, libraryId: "knowledge", blocks: [change], author });
+
+    expect(provider.createBranch).not.toHaveBeenCalled();
+    expect(provider.openPullRequest).not.toHaveBeenCalled();
+    expect(branchCommits).toEqual([{ branch: "knowledge-sync/knowledge/sso-abc", paths: ["knowledge/knowledge/sso.md"] }]);
+    expect(update).toHaveBeenCalledWith({ where: { id: "gpr_1" }, data: { blockVersions: { blk_1: 4 } } });
+  });
+
+  it("codex: a closed pull request returns its blocks to local changes", async () => {
+    const updateMany = vi.fn();
+    prismaMock.gitPullRequest = { update: vi.fn().mockResolvedValue({ id: "gpr_1", status: "CLOSED" }) };
+    prismaMock.buildingBlock = { updateMany };
+
+    await closePullRequest({ id: "gpr_1", blockIds: ["blk_1"] } as never, { state: "closed", mergeCommitSha: null });
+
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["blk_1"] }, syncStatus: "PENDING_REVIEW" },
+      data: { syncStatus: "LOCAL_CHANGES" },
+    });
+  });
+});
+
+describe("git webhooks", () => {
+  const secret = "s3cret";
+  const body = JSON.stringify({ action: "closed", pull_request: { number: 42, merged: true } });
+  const sign = (payload: string) => `sha256=${createHmac("sha256", secret).update(payload).digest("hex")}`;
+
+  it("codex: verifies signatures and fails closed without a secret", () => {
+    const headers = new Headers({ "x-hub-signature-256": sign(body) });
+
+    expect(verifyGitWebhook("github", headers, body, secret)).toBe(true);
+    expect(verifyGitWebhook("github", headers, `${body} `, secret)).toBe(false);
+    expect(verifyGitWebhook("github", headers, body, undefined)).toBe(false);
+    expect(verifyGitWebhook("bitbucket", new Headers({ "x-hub-signature": sign(body) }), body, secret)).toBe(true);
+    expect(verifyGitWebhook("gitlab", new Headers({ "x-gitlab-token": secret }), body, secret)).toBe(true);
+    expect(verifyGitWebhook("gitlab", new Headers({ "x-gitlab-token": "nope" }), body, secret)).toBe(false);
+  });
+
+  it("codex: normalizes pull request and push events across providers", () => {
+    expect(parseGitWebhook("github", new Headers({ "x-github-event": "pull_request" }), JSON.parse(body))).toEqual({
+      type: "pull_request",
+      id: "42",
+      state: "merged",
+    });
+    expect(
+      parseGitWebhook("gitlab", new Headers({ "x-gitlab-event": "Merge Request Hook" }), {
+        object_attributes: { iid: 7, action: "close" },
+      })
+    ).toEqual({ type: "pull_request", id: "7", state: "closed" });
+    expect(
+      parseGitWebhook("bitbucket", new Headers({ "x-event-key": "repo:refs_changed" }), {
+        changes: [
+          { refId: "refs/heads/main", type: "UPDATE" },
+          { refId: "refs/heads/old", type: "DELETE" },
+          { refId: "refs/tags/v1", type: "ADD" },
+        ],
+      })
+    ).toEqual({ type: "push", branches: ["main"] });
+    expect(
+      parseGitWebhook("github", new Headers({ "x-github-event": "pull_request" }), { action: "opened", pull_request: {} })
+    ).toMatchObject({ type: "ignored" });
+  });
+});
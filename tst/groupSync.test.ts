@@ -0,0 +1,310 @@
+// codex: unit tests for Okta group -> team sync and SCIM provisioning
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  getProfileGroups,
+  planMembershipChanges,
+  reconcileUserMemberships,
+  resolveDesiredMemberships,
+} from "@/lib/v2/teams/group-sync-service";
+import {
+  ScimError,
+  createScimUser,
+  parseScimFilter,
+  patchScimGroup,
+  patchScimUser,
+  toScimUser,
+} from "@/lib/v2/scim/scim-service";
+import { getTestMocks } from "./testUtils";
+
+const recordAuditEvent = vi.fn();
+const recordAuditEvents = vi.fn();
+const addToDefaultTeam = vi.fn();
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+vi.mock("@/lib/v2/audit-log", () => ({
+  recordAuditEvent: (...args: unknown[]) => recordAuditEvent(...args),
+  recordAuditEvents: (...args: unknown[]) => recordAuditEvents(...args),
+}));
+vi.mock("@/lib/auth-v2", () => ({
+  addToDefaultTeam: (...args: unknown[]) => addToDefaultTeam(...args),
+}));
+
+const { prismaMock } = getTestMocks();
+
+const BASE_URL = "https://app.example.com/api/scim/v2";
+const CREATED = new Date("2026-06-01T00:00:00Z");
+
+describe("resolveDesiredMemberships", () => {
+  it("codex: grants the highest role when several groups map to one team", () => {
+    const desired = resolveDesiredMemberships(
+      ["tt-security", "tt-security-admins", "tt-sales"],
+      [
+        { groupName: "tt-security", teamId: "team_sec", role: "member" },
+        { groupName: "tt-security-admins", teamId: "team_sec", role: "admin" },
+        { groupName: "tt-sales", teamId: "team_gtm", role: "viewer" },
+        { groupName: "tt-other", teamId: "team_it", role: "admin" },
+        { groupName: "tt-sales", teamId: "team_bad", role: "owner" },
+      ]
+    );
+
+    expect(Object.fromEntries(desired)).toEqual({ team_sec: "admin", team_gtm: "viewer" });
+  });
+});
+
+describe("planMembershipChanges", () => {
+  const current = [
+    { teamId: "team_default", role: "member", source: "manual" },
+    { teamId: "team_sec", role: "member", source: "directory" },
+    { teamId: "team_old", role: "viewer", source: "directory" },
+    { teamId: "team_gtm", role: "admin", source: "manual" },
+  ];
+
+  it("codex: adds, updates and removes directory memberships but leaves manual ones alone", () => {
+    const plan = planMembershipChanges(
+      current,
+      new Map([
+        ["team_sec", "admin"],
+        ["team_gtm", "viewer"],
+        ["team_it", "member"],
+      ])
+    );
+
+    expect(plan).toEqual({
+      add: [{ teamId: "team_it", role: "member" }],
+      update: [{ teamId: "team_sec", from: "member", to: "admin" }],
+      remove: [{ teamId: "team_old", role: "viewer", source: "directory" }],
+    });
+  });
+
+  it("codex: removes every membership for a deactivated user", () => {
+    const plan = planMembershipChanges(current, new Map([["team_sec", "admin"]]), false);
+
+    expect(plan.add).toEqual([]);
+    expect(plan.remove.map((membership) => membership.teamId)).toEqual([
+      "team_default",
+      "team_sec",
+      "team_old",
+      "team_gtm",
+    ]);
+  });
+});
+
+describe("getProfileGroups", () => {
+  it("codex: reads the groups claim and ignores a missing claim", () => {
+    expect(getProfileGroups({ email: "a@example.com", groups: ["tt-sales", 42, "Everyone"] })).toEqual([
+      "tt-sales",
+      "Everyone",
+    ]);
+    expect(getProfileGroups({ email: "a@example.com" })).toBeNull();
+  });
+});
+
+describe("reconcileUserMemberships", () => {
+  const createMembership = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.$transaction = vi.fn(async (operations: unknown[]) => operations);
+    prismaMock.teamMembership = {
+      create: createMembership,
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    };
+    prismaMock.groupTeamMapping = {
+      findMany: vi.fn().mockResolvedValue([{ groupName: "tt-security", teamId: "team_sec", role: "member" }]),
+    };
+  });
+
+  it("codex: writes the changes and records membership audit events", async () => {
+    prismaMock.user = {
+      findUnique: vi.fn().mockResolvedValue({
+        active: true,
+        teamMemberships: [{ teamId: "team_old", role: "member", source: "directory" }],
+        directoryGroups: [{ group: { displayName: "tt-security" } }],
+      }),
+    };
+
+    const result = await reconcileUserMemberships("u_1", "scim", "u_admin");
+
+    expect(result).toEqual({ userId: "u_1", added: 1, updated: 0, removed: 1 });
+    expect(createMembership).toHaveBeenCalledWith({
+      data: { userId: "u_1", teamId: "team_sec", role: "member", source: "directory" },
+    });
+    expect(recordAuditEvents).toHaveBeenCalledWith([
+      expect.objectContaining({
+        eventType: "team.member.added",
+        actorId: "u_admin",
+        teamId: "team_sec",
+        data: expect.objectContaining({ userId: "u_1", role: "member", trigger: "scim", groups: ["tt-security"] }),
+      }),
+      expect.objectContaining({
+        eventType: "team.member.removed",
+        teamId: "team_old",
+        data: expect.objectContaining({ userId: "u_1", source: "directory", deactivated: false }),
+      }),
+    ]);
+  });
+
+  it("codex: does nothing when memberships already match", async () => {
+    prismaMock.user = {
+      findUnique: vi.fn().mockResolvedValue({
+        active: true,
+        teamMemberships: [{ teamId: "team_sec", role: "member", source: "directory" }],
+        directoryGroups: [{ group: { displayName: "tt-security" } }],
+      }),
+    };
+
+    await reconcileUserMemberships("u_1", "okta_sign_in");
+
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    expect(recordAuditEvents).not.toHaveBeenCalled();
+  });
+});
+
+describe("SCIM", () => {
+  const userRow = {
+    id: "u_1",
+    email: "jordan@example.com",
+    name: "Jordan Lee Smith",
+    active: true,
+    scimExternalId: "00u1",
+    createdAt: CREATED,
+    updatedAt: CREATED,
+    directoryGroups: [{ group: { id: "grp_1", displayName: "tt-security" } }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.$transaction = vi.fn(async (operations: unknown[]) => operations);
+  });
+
+  it("codex: parses eq filters and rejects anything else", () => {
+    expect(parseScimFilter('userName eq "jordan@example.com"')).toEqual({
+      attribute: "userName",
+      value: "jordan@example.com",
+    });
+    expect(parseScimFilter('displayName eq "R\\"D"')).toEqual({ attribute: "displayName", value: 'R"D' });
+    expect(parseScimFilter("")).toBeNull();
+    expect(() => parseScimFilter('userName sw "j"')).toThrow(ScimError);
+  });
+
+  it("codex: formats users as SCIM resources", () => {
+    expect(toScimUser(userRow, [{ id: "grp_1", displayName: "tt-security" }], BASE_URL)).toMatchObject({
+      id: "u_1",
+      externalId: "00u1",
+      userName: "jordan@example.com",
+      name: { givenName: "Jordan", familyName: "Lee Smith" },
+      active: true,
+      groups: [{ value: "grp_1", display: "tt-security" }],
+      meta: { resourceType: "User", location: `${BASE_URL}/Users/u_1` },
+    });
+  });
+
+  it("codex: provisions new users and rejects duplicates", async () => {
+    const create = vi.fn().mockResolvedValue({ ...userRow, directoryGroups: [] });
+    prismaMock.user = { findUnique: vi.fn().mockResolvedValue(null), create };
+
+    const user = await createScimUser(
+      { userName: "Jordan@Example.com", name: { givenName: "Jordan", familyName: "Lee" }, externalId: "00u1" },
+      BASE_URL,
+      "u_admin"
+    );
+
+    expect(user.id).toBe("u_1");
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ email: "jordan@example.com", name: "Jordan Lee", scimExternalId: "00u1" }),
+      })
+    );
+    expect(addToDefaultTeam).toHaveBeenCalledWith("u_1", "jordan@example.com");
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: "user.provisioned", actorId: "u_admin", targetId: "u_1" })
+    );
+
+    prismaMock.user = { findUnique: vi.fn().mockResolvedValue({ id: "u_1" }) };
+    await expect(createScimUser({ userName: "jordan@example.com" }, BASE_URL)).rejects.toMatchObject({
+      status: 409,
+      scimType: "uniqueness",
+    });
+  });
+
+  it("codex: deactivating a user revokes keys and removes their memberships", async () => {
+    const findUnique = vi
+      .fn()
+      // applyUserChanges -> findUserOrThrow
+      .mockResolvedValueOnce(userRow)
+      // reconcileUserMemberships
+      .mockResolvedValueOnce({
+        active: false,
+        teamMemberships: [{ teamId: "team_default", role: "member", source: "manual" }],
+        directoryGroups: [],
+      })
+      // final read
+      .mockResolvedValueOnce({ ...userRow, active: false });
+    const update = vi.fn();
+    prismaMock.user = { findUnique, update };
+    prismaMock.apiKey = { updateMany: vi.fn().mockResolvedValue({ count: 2 }) };
+    prismaMock.teamMembership = { deleteMany: vi.fn() };
+    prismaMock.groupTeamMapping = { findMany: vi.fn() };
+
+    const user = await patchScimUser(
+      "u_1",
+      [{ op: "replace", value: { active: false } }],
+      BASE_URL,
+      "u_admin"
+    );
+
+    expect(user.active).toBe(false);
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "u_1" },
+      data: { active: false },
+    });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: "user.deactivated", data: { email: "jordan@example.com", revokedApiKeys: 2 } })
+    );
+    expect(recordAuditEvents).toHaveBeenCalledWith([
+      expect.objectContaining({ eventType: "team.member.removed", teamId: "team_default" }),
+    ]);
+  });
+
+  it("codex: applies group member add and remove operations", async () => {
+    const group = {
+      id: "grp_1",
+      displayName: "tt-security",
+      externalId: "00g1",
+      createdAt: CREATED,
+      updatedAt: CREATED,
+      members: [{ user: { id: "u_1", email: "jordan@example.com" } }],
+    };
+    const createMany = vi.fn();
+    const deleteMany = vi.fn();
+    prismaMock.directoryGroup = { findUnique: vi.fn().mockResolvedValue(group) };
+    prismaMock.directoryGroupMember = {
+      findMany: vi.fn().mockResolvedValue([{ userId: "u_1" }]),
+      createMany,
+      deleteMany,
+    };
+    prismaMock.user = {
+      findMany: vi.fn().mockResolvedValue([{ id: "u_2" }]),
+      // reconcile: user not found -> no-op
+      findUnique: vi.fn().mockResolvedValue(null),
+    };
+
+    await patchScimGroup(
+      "grp_1",
+      [
+        { op: "add", path: "members", value: [{ value: "u_2" }, { value: "u_missing" }] },
+        { op: "remove", path: 'members[value eq "u_1"]' },
+      ],
+      BASE_URL,
+      "u_admin"
+    );
+
+    expect(createMany).toHaveBeenCalledWith({ data: [{ groupId: "grp_1", userId: "u_2" }], skipDuplicates: true });
+    expect(deleteMany).toHaveBeenCalledWith({ where: { groupId: "grp_1", userId: { in: ["u_1"] } } });
+
+    await expect(
+      patchScimGroup("grp_1", [{ op: "move", path: "members" }], BASE_URL)
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
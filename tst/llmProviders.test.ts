@@ -0,0 +1,88 @@
+// codex: unit tests for LLM provider routing and the mock provider
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { answerQuestionWithPrompt } from "@/lib/llm";
+import {
+  createMockProvider,
+  mockProvider,
+  parseCompositionRoutes,
+  selectProviderId,
+} from "@/lib/llm/providers";
+import { calculateCost } from "@/lib/usageTracking";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+
+const { prismaMock } = getTestMocks();
+
+describe("selectProviderId", () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_COMPOSITION_PROVIDERS;
+  });
+
+  it("codex: defaults to anthropic", () => {
+    expect(selectProviderId("chat_response")).toBe("anthropic");
+  });
+
+  it("codex: prefers team routing over composition and global env", () => {
+    process.env.LLM_PROVIDER = "openai";
+    process.env.LLM_COMPOSITION_PROVIDERS = "rfp_batch=local, chat_response=bedrock";
+
+    expect(selectProviderId("rfp_batch")).toBe("local");
+    expect(selectProviderId("rfp_single")).toBe("openai");
+    expect(selectProviderId("rfp_batch", { default: "mock" })).toBe("mock");
+    expect(selectProviderId("rfp_batch", { default: "mock", compositions: { rfp_batch: "bedrock" } })).toBe("bedrock");
+  });
+
+  it("codex: ignores unknown provider ids", () => {
+    expect(parseCompositionRoutes("rfp_batch=gpt9,chat_response=local,broken")).toEqual({ chat_response: "local" });
+  });
+});
+
+describe("mockProvider", () => {
+  it("codex: returns deterministic JSON for batch prompts", async () => {
+    const request = {
+      model: "mock-fast",
+      system: "You answer RFPs.",
+      userMessage: "Return a JSON array.\n\nQuestions:\n1. Do you support SSO?\n2. Do you encrypt data?",
+      maxTokens: 1000,
+      temperature: 0,
+    };
+
+    const first = await mockProvider.complete(request);
+    const second = await mockProvider.complete(request);
+
+    expect(first.text).toBe(second.text);
+    expect(JSON.parse(first.text).map((a: { questionIndex: number }) => a.questionIndex)).toEqual([1, 2]);
+    expect(first.inputTokens).toBeGreaterThan(0);
+  });
+});
+
+describe("answerQuestionWithPrompt", () => {
+  const create = vi.fn();
+
+  beforeEach(() => {
+    create.mockReset();
+    create.mockResolvedValue({ id: "trace_1" });
+    prismaMock.lLMTrace = { create };
+  });
+
+  it("codex: routes the call through the given provider and traces it", async () => {
+    const provider = createMockProvider((req) => `echo: ${req.userMessage}`);
+
+    const result = await answerQuestionWithPrompt("Do you support SSO?", "Be brief.", [], undefined, "fast", undefined, provider);
+
+    expect(result.answer).toBe("echo: Do you support SSO?");
+    expect(result.usage?.model).toBe("mock-fast");
+    const { data } = create.mock.calls[0][0];
+    expect(data.provider).toBe("mock");
+    expect(data.estimatedCost).toBe(0);
+  });
+});
+
+describe("calculateCost per provider", () => {
+  it("codex: prices models by provider", () => {
+    expect(calculateCost("gpt-4o-mini", 1_000_000, 1_000_000, undefined, undefined, "openai")).toBeCloseTo(0.75, 6);
+    expect(calculateCost("llama3.1", 1_000_000, 1_000_000, undefined, undefined, "local")).toBe(0);
+  });
+});
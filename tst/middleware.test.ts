@@ -0,0 +1,42 @@
+// codex: unit tests for the auth middleware
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { middleware } from "@/middleware";
+
+const getToken = vi.fn();
+vi.mock("next-auth/jwt", () => ({ getToken: (...args: unknown[]) => getToken(...args) }));
+
+function request(pathname: string, headers: Record<string, string> = {}) {
+  return new NextRequest(`http://localhost${pathname}`, { headers });
+}
+
+beforeEach(() => {
+  getToken.mockReset();
+  getToken.mockResolvedValue(null);
+});
+
+describe("middleware", () => {
+  it("codex: rejects API requests without a session or API key", async () => {
+    const response = await middleware(request("/api/v2/blocks"));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("codex: passes API key bearer requests through to the route", async () => {
+    const response = await middleware(
+      request("/api/v2/questions/ask", { authorization: "Bearer tt_abc123" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-middleware-next")).toBe("1");
+    expect(getToken).not.toHaveBeenCalled();
+  });
+
+  it("codex: still requires a session for non-API-key bearers and pages", async () => {
+    const jwtBearer = await middleware(request("/api/v2/projects", { authorization: "Bearer eyJhbGciOi" }));
+    const page = await middleware(request("/v2/knowledge", { authorization: "Bearer tt_abc123" }));
+
+    expect(jwtBearer.status).toBe(401);
+    expect(page.status).toBe(307);
+  });
+});
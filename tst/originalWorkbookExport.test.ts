@@ -0,0 +1,94 @@
+// codex: unit tests for writing answers back into the original workbook
+import { describe, it, expect } from "vitest";
+import ExcelJS from "exceljs";
+import {
+  isValidColumnLetter,
+  rowsToAnswerPlacements,
+  writeAnswersToWorkbook,
+} from "@/lib/v2/rfp/original-workbook-export";
+
+async function buildWorkbook(): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const security = workbook.addWorksheet("Security");
+  security.addRow(["#", "Question", "Answer"]);
+  security.addRow([1, "Do you support SSO?", ""]);
+  security.addRow([2, "Is data encrypted at rest?", ""]);
+  security.getCell("C2").font = { bold: true };
+  security.mergeCells("C3:D3");
+
+  const cover = workbook.addWorksheet("Cover");
+  cover.getCell("A1").value = "Vendor questionnaire";
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+async function loadWorkbook(buffer: Buffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await workbook.xlsx.load(buffer as any);
+  return workbook;
+}
+
+describe("rowsToAnswerPlacements", () => {
+  it("codex: prefers reviewer edits and drops rows without a location", () => {
+    const placements = rowsToAnswerPlacements([
+      {
+        inputData: { originalSheetName: "Security", originalRowIndex: 2 },
+        outputData: { response: "Generated", confidence: "High" },
+        userEditedAnswer: "Edited",
+      },
+      {
+        inputData: { question: "CSV row" },
+        outputData: { response: "Ignored" },
+      },
+    ]);
+
+    expect(placements).toEqual([
+      { sheetName: "Security", rowIndex: 2, answer: "Edited", confidence: "High" },
+    ]);
+  });
+});
+
+describe("writeAnswersToWorkbook", () => {
+  it("codex: writes answers in place and preserves formatting, merges and other tabs", async () => {
+    const result = await writeAnswersToWorkbook(
+      await buildWorkbook(),
+      [
+        { sheetName: "Security", rowIndex: 2, answer: "Yes, via SAML.", confidence: "High" },
+        { sheetName: "Security", rowIndex: 3, answer: "AES-256." },
+        { sheetName: "Missing", rowIndex: 2, answer: "Nowhere" },
+        { sheetName: "Security", rowIndex: 4, answer: "  " },
+      ],
+      { answerColumns: "c", includeConfidenceNotes: true }
+    );
+
+    expect(result.written).toBe(2);
+    expect(result.skipped.map(s => s.reason)).toEqual(["sheet_not_found", "empty_answer"]);
+
+    const workbook = await loadWorkbook(result.buffer);
+    const security = workbook.getWorksheet("Security")!;
+    expect(security.getCell("C2").value).toBe("Yes, via SAML.");
+    expect(security.getCell("C2").font?.bold).toBe(true);
+    expect(JSON.stringify(security.getCell("C2").note)).toContain("Confidence: High");
+    expect(security.getCell("C3").value).toBe("AES-256.");
+    expect(security.getCell("D3").isMerged).toBe(true);
+    expect(workbook.getWorksheet("Cover")!.getCell("A1").value).toBe("Vendor questionnaire");
+  });
+
+  it("codex: skips sheets without a mapped answer column", async () => {
+    const result = await writeAnswersToWorkbook(
+      await buildWorkbook(),
+      [{ sheetName: "Security", rowIndex: 2, answer: "Yes" }],
+      { answerColumns: { Cover: "B" } }
+    );
+
+    expect(result.written).toBe(0);
+    expect(result.skipped[0].reason).toBe("no_answer_column");
+  });
+
+  it("codex: validates column letters", () => {
+    expect(isValidColumnLetter("C")).toBe(true);
+    expect(isValidColumnLetter("aa")).toBe(true);
+    expect(isValidColumnLetter("C1")).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+// codex: unit tests for local .pptx template filling
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { extractPptxPlaceholders, fillPptxTemplate } from "@/lib/v2/collateral/pptx-template";
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+const NS =
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+
+function shape(id: number, paragraphs: string[], size = { cx: 4572000, cy: 914400 }): string {
+  return (
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Shape ${id}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+    `<p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${size.cx}" cy="${size.cy}"/></a:xfrm></p:spPr>` +
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs.join("")}</p:txBody></p:sp>`
+  );
+}
+
+function para(...runs: string[]): string {
+  return `<a:p>${runs.map((text) => `<a:r><a:rPr lang="en-US" sz="1800"/><a:t>${text}</a:t></a:r>`).join("")}</a:p>`;
+}
+
+async function buildDeck(slides: string[]): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="xml" ContentType="application/xml"/></Types>'
+  );
+  slides.forEach((body, index) => {
+    zip.file(
+      `ppt/slides/slide${index + 1}.xml`,
+      `<p:sld ${NS}><p:cSld><p:spTree>${body}</p:spTree></p:cSld></p:sld>`
+    );
+  });
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+async function slideXml(buffer: Buffer, number = 1): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  return (await zip.file(`ppt/slides/slide${number}.xml`)?.async("string")) || "";
+}
+
+describe("extractPptxPlaceholders", () => {
+  it("codex: finds tokens split across runs, tables and image placeholders", async () => {
+    const deck = await buildDeck([
+      shape(2, [para("Prepared for {{Cust", "omer}} by {{Company}}")]) + shape(3, [para("{{image:Logo}}")]),
+      `<p:graphicFrame><a:graphic><a:graphicData><a:tbl><a:tr><a:tc><p:txBody>${para(
+        "{{Uptime}}"
+      )}</p:txBody></a:tc></a:tr></a:tbl></a:graphicData></a:graphic></p:graphicFrame>`,
+    ]);
+
+    expect(await extractPptxPlaceholders(deck)).toEqual({
+      text: ["Customer", "Company", "Uptime"],
+      images: ["Logo"],
+    });
+  });
+});
+
+describe("fillPptxTemplate", () => {
+  it("codex: fills split tokens and turns multi-line values into line breaks", async () => {
+    const deck = await buildDeck([shape(2, [para("Hello {{Cust", "omer}}!")]) + shape(3, [para("{{Highlights}}")])]);
+
+    const result = await fillPptxTemplate(deck, {
+      values: { Customer: "Globex & Co", "{{Highlights}}": "- **SSO** enforced\n- SOC 2 Type II" },
+    });
+    const xml = await slideXml(result.buffer);
+
+    expect(result.filled).toEqual(["Customer", "Highlights"]);
+    expect(result.missing).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(xml).toContain("Hello Globex &amp; Co!");
+    expect(xml).not.toContain("{{");
+    expect(xml).toMatch(/• SSO enforced<\/a:t><\/a:r><a:br\/>/);
+    expect(xml).toContain("• SOC 2 Type II");
+  });
+
+  it("codex: shrinks text that overflows and truncates text that cannot fit", async () => {
+    const small = { cx: 1828800, cy: 457200 }; // 2in x 0.5in
+    const deck = await buildDeck([shape(2, [para("{{Short}}")], small) + shape(3, [para("{{Long}}")], small)]);
+
+    const result = await fillPptxTemplate(deck, {
+      values: {
+        Short: "Zero trust network access",
+        Long: Array.from({ length: 60 }, (_, i) => `word${i}`).join(" "),
+      },
+    });
+    const xml = await slideXml(result.buffer);
+
+    expect(result.warnings).toEqual([
+      { slide: 1, placeholders: ["Short"], kind: "shrunk" },
+      { slide: 1, placeholders: ["Long"], kind: "truncated" },
+    ]);
+    expect(xml).toMatch(/<a:normAutofit fontScale="(\d+)"/);
+    expect(xml).toContain('fontScale="50000"');
+    expect(xml).toContain("…");
+    expect(xml).not.toContain("word59");
+  });
+
+  it("codex: replaces image placeholders with pictures and reports missing ones", async () => {
+    const deck = await buildDeck([
+      shape(2, [para("{{image:Logo}}")]) + shape(3, [para("{{image:Diagram}}")]) + shape(4, [para("{{Unfilled}}")]),
+    ]);
+
+    const result = await fillPptxTemplate(deck, { values: {}, images: { Logo: PNG } });
+    const zip = await JSZip.loadAsync(result.buffer);
+    const xml = await slideXml(result.buffer);
+    const rels = (await zip.file("ppt/slides/_rels/slide1.xml.rels")?.async("string")) || "";
+    const contentTypes = (await zip.file("[Content_Types].xml")?.async("string")) || "";
+
+    expect(result.filled).toEqual(["image:Logo"]);
+    expect(result.missing).toEqual(["Unfilled", "image:Diagram"]);
+    expect(result.warnings).toEqual([{ slide: 1, placeholders: ["Diagram"], kind: "image_missing" }]);
+    expect(zip.file("ppt/media/collateral-image-1.png")).not.toBeNull();
+    expect(rels).toContain('Target="../media/collateral-image-1.png"');
+    expect(contentTypes).toContain('Extension="png"');
+    // 1x1 image centered in the 4572000x914400 box
+    expect(xml).toContain('<p:pic><p:nvPicPr><p:cNvPr id="2" name="Logo"/>');
+    expect(xml).toContain('<a:off x="1828800" y="0"/><a:ext cx="914400" cy="914400"/>');
+    expect(xml).not.toContain("{{image:");
+    expect(xml).toContain("{{Unfilled}}");
+  });
+});
@@ -0,0 +1,138 @@
+// codex: unit tests for weighted prompt variant experiments and outcome metrics
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  CONTROL_VARIANT_ID,
+  getPromptVariants,
+  resolveBlocks,
+  selectPromptVariant,
+} from "@/lib/prompts/prompt-service";
+import { getExperimentResults, pickWinner, type VariantResult } from "@/lib/prompts/prompt-experiments";
+import type { PromptAttributes } from "@/types/v2";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+
+const { prismaMock } = getTestMocks();
+
+const runningAttrs: PromptAttributes = {
+  variants: [
+    { id: "concise", content: "Be brief.", weight: 1 },
+    { id: "off", content: "Never served.", weight: 0 },
+  ],
+  experiment: { status: "running", controlWeight: 3 },
+};
+
+function arm(variantId: string, positive: number, negative: number): VariantResult {
+  const empty = { answers: 0, positive: 0, negative: 0 };
+  return {
+    variantId,
+    isControl: variantId === CONTROL_VARIANT_ID,
+    weight: 1,
+    content: "",
+    answers: positive + negative,
+    positive,
+    negative,
+    winRate: positive / (positive + negative),
+    bySource: { chat: empty, review: empty, slack: empty },
+  };
+}
+
+describe("selectPromptVariant", () => {
+  it("codex: samples control and variants by weight", () => {
+    // Weights: control 3, concise 1 (zero-weight variants are never served)
+    expect(selectPromptVariant("Base.", runningAttrs, () => 0.5)).toEqual({
+      content: "Base.",
+      variantId: CONTROL_VARIANT_ID,
+    });
+    expect(selectPromptVariant("Base.", runningAttrs, () => 0.8)).toEqual({
+      content: "Be brief.",
+      variantId: "concise",
+    });
+    expect(selectPromptVariant("Base.", runningAttrs, () => 0.9999).variantId).toBe("concise");
+  });
+
+  it("codex: serves the base content without a variant id unless running", () => {
+    const paused: PromptAttributes = {
+      ...runningAttrs,
+      experiment: { status: "paused", controlWeight: 3 },
+    };
+
+    expect(selectPromptVariant("Base.", paused, () => 0.9)).toEqual({ content: "Base." });
+    expect(selectPromptVariant("Base.", undefined)).toEqual({ content: "Base." });
+  });
+});
+
+describe("resolveBlocks", () => {
+  it("codex: stamps the sampled variant on DB blocks in a running experiment", async () => {
+    prismaMock.buildingBlock = {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          slug: "role_slack_bot_it",
+          title: "IT Bot Role",
+          summary: "",
+          content: "Base.",
+          attributes: { ...runningAttrs, experiment: { status: "running", controlWeight: 0 } },
+        },
+      ]),
+    };
+
+    const blocks = await resolveBlocks(["role_slack_bot_it", "slack_bot_output_format"]);
+
+    expect(blocks[0]).toMatchObject({ id: "role_slack_bot_it", content: "Be brief.", variantId: "concise" });
+    expect(blocks[1].variantId).toBeUndefined();
+    expect(getPromptVariants(blocks)).toEqual({ role_slack_bot_it: "concise" });
+  });
+});
+
+describe("experiment results", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("codex: joins chat, review and Slack outcomes per variant", async () => {
+    prismaMock.buildingBlock = {
+      findFirst: vi.fn().mockResolvedValue({
+        id: "blk_1",
+        slug: "concise_answers",
+        content: "Base.",
+        attributes: runningAttrs,
+      }),
+    };
+    // Counts per arm: answers, positive, negative
+    const counts: Record<string, number[]> = { control: [10, 4, 4], concise: [10, 6, 1], off: [0, 0, 0] };
+    const countFor = (field: string) =>
+      vi.fn().mockImplementation(({ where }: { where: Record<string, unknown> }) => {
+        const json = JSON.stringify(where);
+        const variantId = Object.keys(counts).find((id) => json.includes(`"equals":"${id}"`))!;
+        const [answers, positive, negative] = counts[variantId];
+        if (json.includes("THUMBS_UP") || json.includes('"APPROVED"') || json.includes('"wasHelpful":true')) {
+          return positive;
+        }
+        if (json.includes("THUMBS_DOWN") || json.includes('"CORRECTED"') || json.includes('"wasHelpful":false')) {
+          return negative;
+        }
+        return field === "slack" ? 0 : answers;
+      });
+    prismaMock.chatMessage = { count: countFor("chat") };
+    prismaMock.bulkRow = { count: countFor("review") };
+    prismaMock.slackBotInteraction = { count: countFor("slack") };
+
+    const results = await getExperimentResults("concise_answers");
+
+    const [control, concise] = results.variants;
+    expect(control).toMatchObject({ variantId: "control", isControl: true, weight: 3, answers: 20 });
+    expect(control.positive).toBe(12);
+    expect(control.winRate).toBeCloseTo(0.5);
+    expect(concise).toMatchObject({ answers: 20, positive: 18, negative: 3 });
+    expect(concise.bySource.review).toEqual({ answers: 10, positive: 6, negative: 1 });
+    expect(concise.winRate).toBeCloseTo(18 / 21);
+    // The zero-rated "off" arm keeps a winner from being called
+    expect(results.winnerId).toBeNull();
+  });
+
+  it("codex: picks a winner only once every arm has enough ratings", () => {
+    expect(pickWinner([arm("control", 10, 10), arm("concise", 15, 5)])).toBe("concise");
+    expect(pickWinner([arm("control", 10, 10), arm("concise", 5, 1)])).toBeNull();
+    expect(pickWinner([arm("control", 3, 1), arm("concise", 1, 1)], 2)).toBe("control");
+  });
+});
@@ -0,0 +1,163 @@
+// codex: unit tests for full-text faceted search
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  parseHighlight,
+  parseSearchFilters,
+  search,
+  SearchQueryError,
+  type SearchFilters,
+} from "@/lib/v2/search/search-service";
+import { getTestMocks } from "./testUtils";
+
+// Renders tagged SQL to plain text (values inlined as JSON) so tests can
+// assert on the generated query.
+vi.mock("@prisma/client", () => {
+  type Fragment = { text: string };
+  const render = (value: unknown): string =>
+    value && typeof value === "object" && "text" in value ? (value as Fragment).text : JSON.stringify(value);
+  return {
+    Prisma: {
+      sql: (strings: TemplateStringsArray, ...values: unknown[]): Fragment => ({
+        text: strings.reduce((acc, part, i) => acc + render(values[i - 1]) + part),
+      }),
+      join: (values: unknown[], separator = ","): Fragment => ({ text: values.map(render).join(separator) }),
+      raw: (text: string): Fragment => ({ text }),
+    },
+  };
+});
+
+const { prismaMock } = getTestMocks();
+
+const NOW = new Date("2026-06-10T12:00:00Z");
+const NO_FILTERS: SearchFilters = { types: [], libraryIds: [], customerIds: [], ownerIds: [], date: null };
+
+describe("parseSearchFilters", () => {
+  it("codex: accepts repeated and comma separated values and drops unknown ones", () => {
+    const filters = parseSearchFilters(
+      new URLSearchParams("type=block,chat&type=bogus&library=it&library=gtm,it&owner=u_1&date=14d")
+    );
+
+    expect(filters).toEqual({
+      types: ["block", "chat"],
+      libraryIds: ["it", "gtm"],
+      customerIds: [],
+      ownerIds: ["u_1"],
+      date: null,
+    });
+    expect(parseSearchFilters(new URLSearchParams("date=30d")).date).toBe("30d");
+  });
+});
+
+describe("parseHighlight", () => {
+  it("codex: splits headline markers into highlighted segments", () => {
+    expect(parseHighlight("Logs are \uE000retained\uE001 for \uE000ninety\uE001 days")).toEqual([
+      { text: "Logs are ", highlight: false },
+      { text: "retained", highlight: true },
+      { text: " for ", highlight: false },
+      { text: "ninety", highlight: true },
+      { text: " days", highlight: false },
+    ]);
+    expect(parseHighlight("\uE000SSO\uE001\uE000 setup")).toEqual([{ text: "SSO setup", highlight: true }]);
+    expect(parseHighlight(null)).toEqual([]);
+  });
+});
+
+describe("search", () => {
+  const queryRaw = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.$queryRaw = queryRaw;
+    prismaMock.customer = {
+      findMany: vi.fn().mockResolvedValue([{ id: "cust_1", company: "Acme" }]),
+    };
+    prismaMock.user = {
+      findMany: vi.fn().mockResolvedValue([{ id: "u_1", name: "Alex Kim", email: "alex@example.com" }]),
+    };
+  });
+
+  it("codex: rejects queries that are too short", async () => {
+    await expect(search(" a ", { userId: "u_1", accessibleLibraries: [] }, NO_FILTERS)).rejects.toBeInstanceOf(
+      SearchQueryError
+    );
+    expect(queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("codex: returns ranked hits with snippets and labelled facets", async () => {
+    queryRaw
+      .mockResolvedValueOnce([
+        {
+          type: "block",
+          id: "blk_1",
+          title: "Audit logging",
+          rank: "0.42",
+          libraryId: "it",
+          customerId: null,
+          ownerId: "u_1",
+          date: NOW,
+          slug: "audit-logging",
+          subtype: "knowledge",
+          parentId: null,
+          parentName: null,
+          rowNumber: null,
+          total: 3,
+          snippet: "Audit \uE000logs\uE001 are kept",
+          titleHighlight: null,
+        },
+      ])
+      .mockResolvedValueOnce([
+        { facet: "date", value: "365d", count: 3 },
+        { facet: "date", value: "7d", count: 1 },
+        { facet: "type", value: "block", count: 2 },
+        { facet: "library", value: "it", count: 2 },
+        { facet: "customer", value: "cust_1", count: 1 },
+        { facet: "owner", value: "u_1", count: 2 },
+        { facet: "owner", value: "alex@example.com", count: 1 },
+      ]);
+
+    const result = await search(
+      "audit logs",
+      { userId: "u_1", accessibleLibraries: ["it", "prompts"] },
+      { ...NO_FILTERS, libraryIds: ["it"] },
+      { limit: 500, now: NOW }
+    );
+
+    expect(result.total).toBe(3);
+    expect(result.results[0]).toMatchObject({
+      type: "block",
+      rank: 0.42,
+      titleHighlight: [{ text: "Audit logging", highlight: false }],
+      snippet: [
+        { text: "Audit ", highlight: false },
+        { text: "logs", highlight: true },
+        { text: " are kept", highlight: false },
+      ],
+    });
+    expect(result.facets).toEqual({
+      type: [{ value: "block", label: "Library items", count: 2 }],
+      library: [{ value: "it", label: "IT", count: 2 }],
+      customer: [{ value: "cust_1", label: "Acme", count: 1 }],
+      owner: [
+        { value: "u_1", label: "Alex Kim", count: 2 },
+        { value: "alex@example.com", label: "alex@example.com", count: 1 },
+      ],
+      date: [
+        { value: "7d", label: "Past week", count: 1 },
+        { value: "365d", label: "Past year", count: 3 },
+      ],
+    });
+
+    const resultsSql: string = queryRaw.mock.calls[0][0].text;
+    expect(resultsSql).toContain(`websearch_to_tsquery('english', "audit logs")`);
+    expect(resultsSql).toContain(`"libraryId" IN ("it")`);
+    expect(resultsSql).toContain("LIMIT 100 OFFSET 0");
+    // Only the accessible skill library is visible; prompts is not a skill library
+    expect(resultsSql).toContain(`b."libraryId" IN ("it")`);
+
+    // The library facet ignores the library filter so other libraries stay selectable
+    const facetSql: string = queryRaw.mock.calls[1][0].text;
+    const libraryFacet = facetSql.slice(facetSql.indexOf(`"library"::text`), facetSql.indexOf(`"customer"::text`));
+    expect(libraryFacet).not.toContain(`"libraryId" IN ("it")`);
+    expect(facetSql.slice(facetSql.indexOf(`"type"::text`))).toContain(`"libraryId" IN ("it")`);
+  });
+});
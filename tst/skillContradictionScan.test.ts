@@ -0,0 +1,267 @@
+// codex: unit tests for the library-wide cross-skill contradiction scan
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  contradictionFingerprint,
+  findOverlappingPairs,
+  normalizeContradictions,
+  scanLibraryForContradictions,
+  scheduleContradictionScans,
+  type ScanSkill,
+} from "@/lib/v2/skills/contradiction-scan-service";
+import { getTestMocks } from "./testUtils";
+
+const executeLLMCall = vi.fn();
+const addJob = vi.fn();
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+vi.mock("@/lib/llm/registry", () => ({
+  executeLLMCall: (...args: unknown[]) => executeLLMCall(...args),
+}));
+vi.mock("@/lib/queue", () => ({
+  addJob: (...args: unknown[]) => addJob(...args),
+  QUEUE_NAMES: { SKILL_GENERATION: "skill-generation" },
+}));
+
+const { prismaMock } = getTestMocks();
+
+function skill(id: string, keywords: string[], overrides: Partial<ScanSkill> = {}): ScanSkill {
+  return {
+    id,
+    title: `Skill ${id}`,
+    content: `Content of ${id}`,
+    customerId: null,
+    attributes: { scopeDefinition: { covers: "", futureAdditions: [], keywords } },
+    ...overrides,
+  };
+}
+
+function llmResponse(contradictions: unknown[]) {
+  return { answer: JSON.stringify({ contradictions }) };
+}
+
+const retention = {
+  type: "technical_contradiction",
+  topic: "Audit log retention",
+  description: "Retention periods differ",
+  claimA: "Audit logs are retained for 90 days.",
+  claimB: "Audit logs are kept for one year.",
+  severity: "high",
+  recommendation: "Confirm with the platform team",
+};
+
+describe("findOverlappingPairs", () => {
+  it("codex: pairs skills sharing enough scope keywords, most overlap first", () => {
+    const { pairs, skipped } = findOverlappingPairs([
+      skill("c", ["retention", "logging", "audit"]),
+      skill("a", ["Retention", "Logging"]),
+      skill("b", ["retention", "logging", "audit", "siem"]),
+      skill("d", ["retention", "sso"]),
+      skill("e", ["retention", "logging"], { customerId: "cust_1" }),
+    ]);
+
+    expect(skipped).toBe(0);
+    expect(pairs.map((pair) => [pair.a.id, pair.b.id, pair.sharedKeywords.length])).toEqual([
+      ["b", "c", 3],
+      ["a", "b", 2],
+      ["a", "c", 2],
+    ]);
+  });
+
+  it("codex: falls back to scope keywords extracted from covers and caps the pairs", () => {
+    const covers = (text: string) => ({ scopeDefinition: { covers: text, futureAdditions: [] } });
+    const { pairs, skipped } = findOverlappingPairs(
+      [
+        skill("a", [], { attributes: covers("Encryption at rest and key rotation") }),
+        skill("b", [], { attributes: covers("Key rotation schedule for encryption") }),
+        skill("c", [], { attributes: covers("Encryption key rotation for backups") }),
+      ],
+      { maxPairs: 1 }
+    );
+
+    expect(pairs).toHaveLength(1);
+    expect(skipped).toBe(2);
+    expect(pairs[0].sharedKeywords).toEqual(expect.arrayContaining(["encryption", "rotation"]));
+  });
+
+  it("codex: continues from the offset so capped scans cover every pair over time", () => {
+    const skills = [
+      skill("a", ["retention", "logging"]),
+      skill("b", ["retention", "logging"]),
+      skill("c", ["retention", "logging"]),
+    ];
+
+    const first = findOverlappingPairs(skills, { maxPairs: 2 });
+    const second = findOverlappingPairs(skills, { maxPairs: 2, offset: first.nextOffset });
+
+    expect(first.pairs.map((pair) => pair.a.id + pair.b.id)).toEqual(["ab", "ac"]);
+    expect(second.pairs.map((pair) => pair.a.id + pair.b.id)).toEqual(["bc", "ab"]);
+    expect(second.nextOffset).toBe(1);
+  });
+});
+
+describe("contradictionFingerprint", () => {
+  it("codex: keys on the pair and topic, not the claim wording", () => {
+    expect(contradictionFingerprint("sk_b", "sk_a", "Audit log retention!")).toBe(
+      contradictionFingerprint("sk_a", "sk_b", "audit log  retention")
+    );
+    expect(contradictionFingerprint("sk_a", "sk_b", "Audit log retention")).not.toBe(
+      contradictionFingerprint("sk_a", "sk_b", "Encryption at rest")
+    );
+  });
+});
+
+describe("normalizeContradictions", () => {
+  it("codex: drops conflicts without both claims and defaults unknown values", () => {
+    expect(
+      normalizeContradictions({
+        contradictions: [
+          { ...retention, type: "made_up", severity: "critical" },
+          { ...retention, claimB: "  " },
+          "not an object",
+        ],
+      })
+    ).toEqual([{ ...retention, type: "technical_contradiction", severity: "medium" }]);
+    expect(normalizeContradictions({})).toEqual([]);
+  });
+});
+
+describe("scanLibraryForContradictions", () => {
+  const NOW = new Date("2026-06-10T12:00:00Z");
+  const create = vi.fn();
+  const update = vi.fn();
+  const updateMany = vi.fn();
+  const findUnique = vi.fn();
+
+  const jobFindMany = vi.fn();
+  const teamFindFirst = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    jobFindMany.mockResolvedValue([]);
+    prismaMock.backgroundJob = { findMany: jobFindMany };
+    teamFindFirst.mockResolvedValue({ id: "team_it" });
+    prismaMock.team = { findFirst: teamFindFirst };
+    prismaMock.buildingBlock = {
+      findMany: vi.fn().mockResolvedValue([
+        skill("sk_b", ["retention", "logging"]),
+        skill("sk_a", ["retention", "logging"]),
+        skill("sk_c", ["pricing", "discounts"]),
+      ]),
+    };
+    prismaMock.skillContradiction = { create, update, updateMany, findUnique };
+    updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  it("codex: opens new conflicts for overlapping pairs and resolves ones no longer reported", async () => {
+    executeLLMCall.mockResolvedValue(llmResponse([retention, { ...retention, claimA: "Logs are kept 90 days." }]));
+    findUnique.mockResolvedValue(null);
+    updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await scanLibraryForContradictions("it", {}, NOW);
+
+    expect(result).toEqual({
+      libraryId: "it",
+      skillsScanned: 3,
+      pairsCompared: 1,
+      pairsSkipped: 0,
+      nextPairOffset: 0,
+      pairsFailed: 0,
+      opened: 1,
+      reopened: 0,
+      autoResolved: 1,
+    });
+    expect(executeLLMCall).toHaveBeenCalledTimes(1);
+    expect(executeLLMCall.mock.calls[0][0]).toMatchObject({
+      compositionId: "skill_contradiction_scan",
+      tracingOptions: { teamId: "team_it" },
+    });
+    expect(executeLLMCall.mock.calls[0][0].question).toMatch(/## Skill A: Skill sk_a[\s\S]*## Skill B: Skill sk_b/);
+
+    const fingerprint = contradictionFingerprint("sk_a", "sk_b", retention.topic);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        libraryId: "it",
+        skillAId: "sk_a",
+        skillBId: "sk_b",
+        topic: "Audit log retention",
+        severity: "high",
+        fingerprint,
+        detectedAt: NOW,
+      }),
+    });
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { skillAId: "sk_a", skillBId: "sk_b", status: "open", fingerprint: { notIn: [fingerprint] } },
+      data: expect.objectContaining({ status: "resolved", resolvedBy: "system:contradiction-scan" }),
+    });
+  });
+
+  it("codex: reopens resolved conflicts but leaves dismissed ones closed", async () => {
+    const dismissed = { ...retention, topic: "Log deletion" };
+    executeLLMCall.mockResolvedValue(llmResponse([retention, dismissed]));
+    findUnique
+      .mockResolvedValueOnce({ id: "con_1", status: "resolved" })
+      .mockResolvedValueOnce({ id: "con_2", status: "dismissed" });
+
+    const result = await scanLibraryForContradictions("it", {}, NOW);
+
+    expect(result).toMatchObject({ opened: 0, reopened: 1 });
+    expect(create).not.toHaveBeenCalled();
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "con_1" },
+      data: expect.objectContaining({ status: "open", resolvedAt: null, resolvedBy: null, lastSeenAt: NOW }),
+    });
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "con_2" },
+      data: expect.not.objectContaining({ status: expect.anything() }),
+    });
+  });
+
+  it("codex: counts failed pairs and keeps scanning", async () => {
+    executeLLMCall.mockRejectedValue(new Error("overloaded"));
+
+    const result = await scanLibraryForContradictions("it", {}, NOW);
+
+    expect(result).toMatchObject({ pairsCompared: 0, pairsFailed: 1, opened: 0 });
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it("codex: charges on-demand scans to the requesting user and resumes after the last completed scan", async () => {
+    executeLLMCall.mockResolvedValue(llmResponse([]));
+
+    await scanLibraryForContradictions("it", { userId: "user_1" }, NOW);
+
+    expect(executeLLMCall.mock.calls[0][0].tracingOptions).toEqual({ userId: "user_1", teamId: undefined });
+    expect(teamFindFirst).not.toHaveBeenCalled();
+    expect(jobFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ jobType: "scan_contradictions", status: "COMPLETED" }),
+      })
+    );
+  });
+});
+
+describe("scheduleContradictionScans", () => {
+  it("codex: queues one scan per library per slot", async () => {
+    vi.clearAllMocks();
+    const findFirst = vi.fn(async ({ where }) =>
+      where.payload.equals === "it" ? { id: "job_1" } : null
+    );
+    prismaMock.backgroundJob = { findFirst };
+
+    const queued = await scheduleContradictionScans(new Date("2026-06-10T12:00:00Z"), "0 3 * * 0");
+
+    expect(queued).toBe(4);
+    expect(findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ createdAt: { gte: new Date("2026-06-07T03:00:00Z") } }),
+      })
+    );
+    expect(addJob).toHaveBeenCalledWith("skill-generation", "scan_contradictions", {
+      type: "scan_contradictions",
+      libraryId: "knowledge",
+      userId: "system:contradiction-scan",
+    });
+    expect(addJob).not.toHaveBeenCalledWith(expect.anything(), expect.anything(), expect.objectContaining({ libraryId: "it" }));
+  });
+});
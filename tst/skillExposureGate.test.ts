@@ -0,0 +1,82 @@
+// codex: unit tests for the skill exposedTo retrieval gate
+import { describe, it, expect, vi } from "vitest";
+import { gateSkillsForChannel, isSkillExposedTo } from "@/lib/v2/skills/exposure-gate";
+import { fetchRFPSkills } from "@/lib/v2/rfp/skill-fetcher";
+import { getTestMocks } from "./testUtils";
+
+const { prismaMock } = getTestMocks();
+
+const skills = [
+  { id: "s1", title: "Pricing FAQ", content: "…", attributes: {} },
+  { id: "s2", title: "On-call Runbook", content: "…", attributes: { exposedTo: ["slackbot", "chat"] } },
+  { id: "s3", title: "Security Overview", content: "…", attributes: { exposedTo: ["rfp"] } },
+  { id: "s4", title: "Legacy Skill", content: "…", attributes: null },
+];
+
+describe("isSkillExposedTo", () => {
+  it("codex: treats a missing or empty exposedTo as exposed everywhere", () => {
+    expect(isSkillExposedTo({}, "rfp")).toBe(true);
+    expect(isSkillExposedTo({ exposedTo: [] }, "chat")).toBe(true);
+    expect(isSkillExposedTo(null, "slackbot")).toBe(true);
+  });
+
+  it("codex: limits a skill to its listed channels", () => {
+    expect(isSkillExposedTo({ exposedTo: ["slackbot"] }, "slackbot")).toBe(true);
+    expect(isSkillExposedTo({ exposedTo: ["slackbot"] }, "rfp")).toBe(false);
+  });
+});
+
+describe("gateSkillsForChannel", () => {
+  it("codex: keeps order and explains each exclusion", () => {
+    const { allowed, excluded } = gateSkillsForChannel(skills, "rfp");
+
+    expect(allowed.map((s) => s.id)).toEqual(["s1", "s3", "s4"]);
+    expect(excluded).toEqual([
+      {
+        id: "s2",
+        title: "On-call Runbook",
+        channel: "rfp",
+        exposedTo: ["slackbot", "chat"],
+        reason: "Not exposed to RFP answers (limited to Slack bot, Chat)",
+      },
+    ]);
+  });
+});
+
+describe("fetchRFPSkills", () => {
+  it("codex: drops internal-only skills from RFP answering", async () => {
+    prismaMock.buildingBlock = {
+      findMany: vi
+        .fn()
+        .mockResolvedValueOnce(skills.slice(0, 2))
+        .mockResolvedValueOnce([
+          { id: "c1", title: "Customer Notes", content: "…", attributes: { exposedTo: ["chat"] } },
+        ]),
+    };
+
+    const result = await fetchRFPSkills({ skillIds: ["s1", "s2", "c1"], libraryId: "knowledge", customerId: "cus_1" });
+
+    expect(result.allSkills.map((s) => s.id)).toEqual(["s1"]);
+    expect(result.customerSkills).toEqual([]);
+    expect(result.excludedSkills.map((s) => s.id)).toEqual(["s2", "c1"]);
+  });
+
+  it("codex: reads attributes for customer skills so their exposedTo is applied", async () => {
+    const findMany = vi
+      .fn()
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { id: "c1", title: "Customer Notes", content: "…", version: 1, attributes: { exposedTo: ["slackbot"] } },
+        { id: "c2", title: "Customer Pricing", content: "…", version: 1, attributes: { exposedTo: ["rfp"] } },
+      ]);
+    prismaMock.buildingBlock = { findMany };
+
+    const result = await fetchRFPSkills({ skillIds: ["c1", "c2"], libraryId: "knowledge", customerId: "cus_1" });
+
+    expect(findMany.mock.calls[1][0].select).toMatchObject({ attributes: true });
+    expect(result.customerSkills.map((s) => s.id)).toEqual(["c2"]);
+    expect(result.excludedSkills).toEqual([
+      expect.objectContaining({ id: "c1", channel: "rfp", exposedTo: ["slackbot"] }),
+    ]);
+  });
+});
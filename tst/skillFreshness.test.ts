@@ -0,0 +1,211 @@
+// codex: unit tests for skill freshness scoring and owner digests
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  buildDigestText,
+  getDigestSlot,
+  scoreFreshness,
+  sendFreshnessDigests,
+  type SkillFreshnessEntry,
+} from "@/lib/v2/skills/freshness-service";
+import { getTestMocks } from "./testUtils";
+
+const isSlackConfigured = vi.fn();
+const lookupUserByEmail = vi.fn();
+const postMessage = vi.fn();
+const isEmailConfigured = vi.fn();
+const sendEmail = vi.fn();
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+vi.mock("@/lib/slack", () => ({
+  isSlackConfigured: (...args: unknown[]) => isSlackConfigured(...args),
+  lookupUserByEmail: (...args: unknown[]) => lookupUserByEmail(...args),
+  postMessage: (...args: unknown[]) => postMessage(...args),
+}));
+vi.mock("@/lib/email", () => ({
+  isEmailConfigured: (...args: unknown[]) => isEmailConfigured(...args),
+  sendEmail: (...args: unknown[]) => sendEmail(...args),
+}));
+
+const { prismaMock } = getTestMocks();
+
+const NOW = new Date("2026-06-10T12:00:00Z"); // Wednesday
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+describe("scoreFreshness", () => {
+  it("codex: treats recently sourced skills without issues as fresh", () => {
+    const result = scoreFreshness(
+      {
+        createdAt: daysAgo(400),
+        attributes: { sources: [{ fetchedAt: daysAgo(20).toISOString() }] },
+        assignments: [{ incorporatedAt: daysAgo(20), sourceChangedAt: null }],
+      },
+      NOW
+    );
+
+    expect(result).toMatchObject({ score: 100, status: "fresh", reasons: [] });
+    expect(result.factors.sourceAgeDays).toBe(20);
+  });
+
+  it("codex: penalises age, pending and changed sources and contradictions, most severe first", () => {
+    const result = scoreFreshness(
+      {
+        createdAt: daysAgo(240),
+        attributes: {
+          lastUsedAt: daysAgo(60).toISOString(),
+          contradictions: [{ severity: "high" }, { severity: "low" }],
+        },
+        assignments: [
+          { incorporatedAt: null, sourceChangedAt: null },
+          { incorporatedAt: null, sourceChangedAt: null },
+          { incorporatedAt: daysAgo(210), sourceChangedAt: daysAgo(5) },
+        ],
+      },
+      NOW
+    );
+
+    // age 210d -> 40, pending 2 -> 20, changed 1 -> 10, contradictions 15+3 -> 18
+    expect(result.score).toBe(12);
+    expect(result.status).toBe("stale");
+    expect(result.reasons).toEqual([
+      "Sources last pulled 210 days ago",
+      "2 assigned sources not incorporated",
+      "2 unresolved contradictions",
+      "1 source changed upstream",
+    ]);
+    expect(result.factors.contradictions).toEqual({ high: 1, medium: 0, low: 1 });
+  });
+
+  it("codex: weights penalties by recent usage", () => {
+    const input = {
+      createdAt: daysAgo(10),
+      assignments: [
+        { incorporatedAt: null, sourceChangedAt: null },
+        { incorporatedAt: null, sourceChangedAt: null },
+      ],
+    };
+
+    expect(scoreFreshness({ ...input, attributes: { lastUsedAt: daysAgo(2).toISOString() } }, NOW).score).toBe(75);
+    expect(scoreFreshness({ ...input, attributes: { lastUsedAt: daysAgo(90).toISOString() } }, NOW).score).toBe(80);
+    expect(scoreFreshness({ ...input, attributes: {} }, NOW).score).toBe(85);
+  });
+});
+
+describe("getDigestSlot", () => {
+  it("codex: returns the most recent scheduled slot", () => {
+    expect(getDigestSlot(NOW, "0 14 * * 1").toISOString()).toBe("2026-06-08T14:00:00.000Z");
+    expect(getDigestSlot(new Date("2026-06-08T14:00:00Z"), "0 14 * * 1").toISOString()).toBe(
+      "2026-06-08T14:00:00.000Z"
+    );
+  });
+});
+
+function entry(overrides: Partial<SkillFreshnessEntry> = {}): SkillFreshnessEntry {
+  return {
+    id: "sk_1",
+    title: "VPN",
+    slug: "vpn",
+    libraryId: "it",
+    customerId: null,
+    ownerId: null,
+    owners: [],
+    freshness: {
+      score: 30,
+      status: "stale",
+      reasons: ["Sources last pulled 200 days ago"],
+      factors: {
+        sourceAgeDays: 200,
+        pendingSources: 0,
+        changedSources: 0,
+        contradictions: { high: 0, medium: 0, low: 0 },
+        daysSinceUsed: null,
+      },
+    },
+    ...overrides,
+  };
+}
+
+describe("buildDigestText", () => {
+  it("codex: lists skills with reasons and links, omitting customer links", () => {
+    const text = buildDigestText("Alex Kim", [
+      entry(),
+      entry({ id: "cust_1", title: "Acme profile", slug: null, libraryId: "customers" }),
+    ]);
+
+    expect(text).toContain("Hi Alex, 2 skills you own need a refresh:");
+    expect(text).toContain("• *VPN* (score 30) - Sources last pulled 200 days ago\n  http://localhost:3000/v2/it/vpn");
+    expect(text).toContain("• *Acme profile* (score 30)");
+    expect(text).not.toContain("/v2/customers/");
+  });
+});
+
+describe("sendFreshnessDigests", () => {
+  const staleBlock = {
+    id: "sk_1",
+    title: "VPN",
+    slug: "vpn",
+    libraryId: "it",
+    customerId: null,
+    ownerId: "u_creator",
+    createdAt: daysAgo(400),
+    assignments: Array.from({ length: 3 }, () => ({ incorporatedAt: null, sourceChangedAt: null })),
+  };
+  const userUpdate = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.buildingBlock = {
+      findMany: vi.fn().mockResolvedValue([
+        { ...staleBlock, attributes: { owners: [{ name: "Alex", email: "Alex@example.com" }] } },
+        { ...staleBlock, id: "sk_2", title: "SSO", attributes: {} },
+        { ...staleBlock, id: "sk_3", title: "Fresh", createdAt: daysAgo(5), attributes: {}, assignments: [] },
+      ]),
+    };
+    prismaMock.user = {
+      findMany: vi.fn().mockResolvedValue([
+        { id: "u_alex", name: "Alex", email: "alex@example.com", preferences: null },
+        {
+          id: "u_creator",
+          name: "Casey",
+          email: "casey@example.com",
+          preferences: { theme: "dark", freshnessDigest: { lastSentAt: "2026-06-08T15:00:00Z" } },
+        },
+      ]),
+      update: userUpdate,
+    };
+    isSlackConfigured.mockResolvedValue(true);
+    isEmailConfigured.mockResolvedValue(true);
+  });
+
+  it("codex: DMs owners on Slack, falls back to email and sends once per slot", async () => {
+    lookupUserByEmail.mockResolvedValue(null);
+
+    const result = await sendFreshnessDigests({ now: NOW });
+
+    expect(result).toEqual({ sent: 1, skipped: 1, failed: 0 });
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "alex@example.com", text: expect.stringContaining("• VPN (score") })
+    );
+    expect(postMessage).not.toHaveBeenCalled();
+    expect(userUpdate).toHaveBeenCalledWith({
+      where: { id: "u_alex" },
+      data: { preferences: { freshnessDigest: { lastSentAt: NOW.toISOString() } } },
+    });
+  });
+
+  it("codex: force resends regardless of the slot and keeps other preferences", async () => {
+    lookupUserByEmail.mockResolvedValue({ id: "U_SLACK" });
+
+    const result = await sendFreshnessDigests({ now: NOW, force: true });
+
+    expect(result).toEqual({ sent: 2, skipped: 0, failed: 0 });
+    expect(postMessage).toHaveBeenCalledWith({ channelId: "U_SLACK", text: expect.stringContaining("*SSO*") });
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(userUpdate).toHaveBeenCalledWith({
+      where: { id: "u_creator" },
+      data: { preferences: { theme: "dark", freshnessDigest: { lastSentAt: NOW.toISOString() } } },
+    });
+  });
+});
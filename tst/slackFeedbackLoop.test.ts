@@ -0,0 +1,218 @@
+// codex: unit tests for the Slack bot feedback loop (staged sources and skill proposals)
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  ProposalConflictError,
+  generateSkillProposals,
+  reviewSkillProposal,
+  stageSlackFeedback,
+} from "@/lib/v2/skills/skill-feedback-service";
+import { getTestMocks } from "./testUtils";
+
+const addJob = vi.fn();
+const isQueueConfigured = vi.fn();
+const runQueuedJobInline = vi.fn();
+const updateSkill = vi.fn();
+const updateBlock = vi.fn();
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+vi.mock("@/lib/queue", () => ({
+  addJob: (...args: unknown[]) => addJob(...args),
+  isQueueConfigured: () => isQueueConfigured(),
+  QUEUE_NAMES: { SKILL_GENERATION: "skill-generation" },
+}));
+vi.mock("@/lib/queue/workers", () => ({
+  runQueuedJobInline: (...args: unknown[]) => runQueuedJobInline(...args),
+}));
+vi.mock("@/lib/v2/skills/skill-generation-service", () => ({
+  updateSkill: (...args: unknown[]) => updateSkill(...args),
+}));
+vi.mock("@/lib/v2/blocks/block-service", () => ({
+  updateBlock: (...args: unknown[]) => updateBlock(...args),
+}));
+
+const { prismaMock } = getTestMocks();
+
+const interaction = {
+  id: "int_1",
+  libraryId: "it",
+  slackChannelId: "C1",
+  slackChannelName: "it-help",
+  slackThreadTs: "1700000000.000100",
+  slackMessageTs: "1700000000.000100",
+  slackUserId: "U_ASKER",
+  slackUserName: "Sam",
+  slackPermalink: "https://slack.example/p1",
+  question: "How do I reset my VPN token?",
+  answer: "Open the VPN app and click Reset.",
+  skillsUsed: [
+    { id: "sk_vpn", title: "VPN" },
+    { id: "sk_archived", title: "Old VPN" },
+  ],
+  createdAt: new Date("2026-03-10T10:00:00Z"),
+};
+
+const pendingProposal = {
+  status: "pending",
+  title: "VPN",
+  content: "Reset tokens in the self-service portal.",
+  summary: "VPN setup and tokens",
+  changeSummary: "Token resets moved to the portal",
+  citations: [],
+  baseContent: "Open the VPN app and click Reset.",
+  generatedAt: "2026-03-10T11:00:00Z",
+};
+
+describe("stageSlackFeedback", () => {
+  const stagedCreate = vi.fn();
+  const upsert = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.slackBotInteraction = { findUnique: vi.fn().mockResolvedValue(interaction) };
+    prismaMock.buildingBlock = { findMany: vi.fn().mockResolvedValue([{ id: "sk_vpn" }]) };
+    prismaMock.stagedSource = {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: stagedCreate.mockImplementation(({ data }) => ({ id: "src_1", ...data })),
+    };
+    prismaMock.sourceAssignment = { upsert };
+    isQueueConfigured.mockReturnValue(true);
+    addJob.mockResolvedValue("job_1");
+  });
+
+  it("codex: stages the thread for the active skills used and queues a proposal", async () => {
+    const result = await stageSlackFeedback({
+      interactionId: "int_1",
+      kind: "correction",
+      by: "U_EXPERT",
+      text: "Tokens are reset in the self-service portal now.",
+    });
+
+    expect(result).toEqual({ stagedSourceId: "src_1", skillIds: ["sk_vpn"] });
+
+    const { data } = stagedCreate.mock.calls[0][0];
+    expect(data).toMatchObject({
+      sourceType: "slack",
+      externalId: "bot-feedback:int_1",
+      libraryId: "it",
+      stagedBy: "system:slack-feedback",
+    });
+    expect(data.content).toContain("Correction from U_EXPERT: Tokens are reset in the self-service portal now.");
+    expect(data.metadata).toMatchObject({ channelId: "C1", botInteractionId: "int_1" });
+
+    expect(upsert).toHaveBeenCalledTimes(1);
+    expect(upsert.mock.calls[0][0].where).toEqual({
+      stagedSourceId_blockId: { stagedSourceId: "src_1", blockId: "sk_vpn" },
+    });
+    expect(addJob).toHaveBeenCalledWith(
+      "skill-generation",
+      "propose_skill_update",
+      { type: "propose_skill_update", stagedSourceId: "src_1" },
+      undefined
+    );
+    expect(runQueuedJobInline).not.toHaveBeenCalled();
+  });
+
+  it("codex: runs the proposal job in-process when no Redis worker exists", async () => {
+    isQueueConfigured.mockReturnValue(false);
+
+    await stageSlackFeedback({ interactionId: "int_1", kind: "not_helpful", by: "U_ASKER" });
+
+    expect(addJob.mock.calls[0][3]).toEqual({ attempts: 1 });
+    expect(runQueuedJobInline).toHaveBeenCalledWith("skill-generation", "job_1");
+  });
+
+  it("codex: skips answers that used no active skills", async () => {
+    prismaMock.buildingBlock = { findMany: vi.fn().mockResolvedValue([]) };
+
+    await expect(
+      stageSlackFeedback({ interactionId: "int_1", kind: "not_helpful", by: "U_ASKER" })
+    ).resolves.toBeNull();
+    expect(stagedCreate).not.toHaveBeenCalled();
+    expect(addJob).not.toHaveBeenCalled();
+  });
+});
+
+describe("skill proposals", () => {
+  const assignmentUpdate = vi.fn();
+  const block = {
+    id: "sk_vpn",
+    title: "VPN",
+    content: "Open the VPN app and click Reset.",
+    libraryId: "it",
+    customerId: null,
+    attributes: { history: [] },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.sourceAssignment = { update: assignmentUpdate };
+  });
+
+  it("codex: stores a pending proposal without touching the skill", async () => {
+    prismaMock.stagedSource = {
+      findUnique: vi.fn().mockResolvedValue({
+        id: "src_1",
+        sourceType: "slack",
+        title: "Bot feedback",
+        content: "Correction from U_EXPERT: use the portal",
+        metadata: { permalink: "https://slack.example/p1" },
+      }),
+    };
+    (prismaMock.sourceAssignment as Record<string, unknown>).findMany = vi
+      .fn()
+      .mockResolvedValue([{ id: "asg_1", block }]);
+    updateSkill.mockResolvedValue({
+      title: "VPN",
+      content: "Reset tokens in the self-service portal.",
+      summary: "VPN setup and tokens",
+      changes: { changeSummary: "Token resets moved to the portal" },
+      citations: [],
+    });
+
+    const results = await generateSkillProposals("src_1");
+
+    expect(results).toEqual([{ skillId: "sk_vpn", changeSummary: "Token resets moved to the portal" }]);
+    expect(updateSkill.mock.calls[0][0].newSources[0]).toMatchObject({
+      id: "src_1",
+      url: "https://slack.example/p1",
+    });
+    expect(assignmentUpdate.mock.calls[0][0].data.proposal).toMatchObject({
+      status: "pending",
+      baseContent: block.content,
+    });
+    expect(updateBlock).not.toHaveBeenCalled();
+  });
+
+  it("codex: applies an approved proposal and marks the source incorporated", async () => {
+    (prismaMock.sourceAssignment as Record<string, unknown>).findUnique = vi
+      .fn()
+      .mockResolvedValue({ id: "asg_1", blockId: "sk_vpn", block, proposal: pendingProposal });
+
+    const reviewed = await reviewSkillProposal("asg_1", "approved", "owner_1");
+
+    expect(reviewed).toMatchObject({ status: "approved", reviewedBy: "owner_1" });
+    expect(updateBlock).toHaveBeenCalledWith(
+      "sk_vpn",
+      expect.objectContaining({ content: pendingProposal.content })
+    );
+    expect(assignmentUpdate.mock.calls[0][0].data).toMatchObject({ incorporatedBy: "owner_1" });
+  });
+
+  it("codex: refuses to apply a proposal over later skill edits", async () => {
+    (prismaMock.sourceAssignment as Record<string, unknown>).findUnique = vi.fn().mockResolvedValue({
+      id: "asg_1",
+      blockId: "sk_vpn",
+      block: { ...block, content: "Edited by hand." },
+      proposal: pendingProposal,
+    });
+
+    await expect(reviewSkillProposal("asg_1", "approved", "owner_1")).rejects.toBeInstanceOf(
+      ProposalConflictError
+    );
+    expect(updateBlock).not.toHaveBeenCalled();
+
+    await reviewSkillProposal("asg_1", "rejected", "owner_1");
+    expect(assignmentUpdate.mock.calls[0][0].data.proposal).toMatchObject({ status: "rejected" });
+    expect(assignmentUpdate.mock.calls[0][0].data.incorporatedAt).toBeUndefined();
+  });
+});
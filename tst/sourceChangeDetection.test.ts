@@ -0,0 +1,105 @@
+// codex: unit tests for Confluence content conversion and upstream change detection
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { storageToMarkdown } from "@/lib/v2/sources/adapters/confluence-adapter";
+import { checkForUpstreamChange, refreshSourceIfChanged } from "@/lib/v2/sources/source-content-sync-service";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+
+const fetchContentVersion = vi.fn();
+const fetchContent = vi.fn();
+
+vi.mock("@/lib/v2/sources/adapters", () => ({
+  getAdapter: (sourceType: string) =>
+    sourceType === "confluence" ? { fetchContentVersion, fetchContent } : { fetchContent },
+}));
+
+const { prismaMock } = getTestMocks();
+
+describe("storageToMarkdown", () => {
+  it("codex: keeps headings, lists, tables and code macros readable", () => {
+    const storage =
+      "<h2>Access &amp; SSO</h2><p>We support&nbsp;SAML.</p><ul><li>Okta</li><li>Azure AD</li></ul>" +
+      "<table><tbody><tr><th>Plan</th><th>SSO</th></tr><tr><td>Enterprise</td><td>Yes</td></tr></tbody></table>" +
+      '<ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[curl -X GET]]></ac:plain-text-body></ac:structured-macro>';
+
+    const markdown = storageToMarkdown(storage);
+
+    expect(markdown).toContain("## Access & SSO");
+    expect(markdown).toContain("We support SAML.");
+    expect(markdown).toContain("- Okta\n- Azure AD");
+    expect(markdown).toContain("| Enterprise | Yes |");
+    expect(markdown).toContain("```\ncurl -X GET\n```");
+    expect(markdown).not.toMatch(/<[^>]+>/);
+  });
+});
+
+describe("upstream change detection", () => {
+  const findUnique = vi.fn();
+  const update = vi.fn();
+
+  beforeEach(() => {
+    findUnique.mockReset();
+    update.mockReset();
+    fetchContentVersion.mockReset();
+    fetchContent.mockReset();
+    prismaMock.stagedSource = { findUnique, update };
+  });
+
+  it("codex: reports a change when the page version moved", async () => {
+    findUnique.mockResolvedValue({
+      sourceType: "confluence",
+      externalId: "123",
+      libraryId: "it",
+      customerId: null,
+      metadata: { contentVersion: "4" },
+    });
+    fetchContentVersion.mockResolvedValue("5");
+
+    const result = await checkForUpstreamChange("src_1");
+
+    expect(result).toEqual({ sourceId: "src_1", changed: true, currentVersion: "4", latestVersion: "5" });
+    // Credentials come from the source's own library connection
+    expect(fetchContentVersion).toHaveBeenCalledWith("123", { libraryId: "it", customerId: undefined });
+  });
+
+  it("codex: treats adapters without version support as unchanged", async () => {
+    findUnique.mockResolvedValue({ sourceType: "url", externalId: "https://x", metadata: {} });
+
+    const result = await checkForUpstreamChange("src_2");
+
+    expect(result.changed).toBe(false);
+    expect(fetchContentVersion).not.toHaveBeenCalled();
+  });
+
+  it("codex: refreshes content and records the new version", async () => {
+    const source = {
+      id: "src_3",
+      sourceType: "confluence",
+      externalId: "123",
+      metadata: { contentVersion: "4", pageId: "123" },
+    };
+    findUnique.mockResolvedValue(source);
+    fetchContentVersion.mockResolvedValue("5");
+    fetchContent.mockResolvedValue({ content: "Updated page" });
+
+    const result = await refreshSourceIfChanged("src_3");
+
+    expect(result.changed).toBe(true);
+    const { data } = update.mock.calls[0][0];
+    expect(data.content).toBe("Updated page");
+    expect(data.metadata.contentVersion).toBe("5");
+    expect(data.metadata.pageId).toBe("123");
+  });
+
+  it("codex: leaves unchanged sources untouched", async () => {
+    findUnique.mockResolvedValue({ sourceType: "confluence", externalId: "123", metadata: { contentVersion: "5" } });
+    fetchContentVersion.mockResolvedValue("5");
+
+    const result = await refreshSourceIfChanged("src_4");
+
+    expect(result.changed).toBe(false);
+    expect(fetchContent).not.toHaveBeenCalled();
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+// codex: unit tests for scheduled source re-sync and change flagging
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  hashContent,
+  isResyncDue,
+  resyncConnection,
+  validateSyncSchedule,
+} from "@/lib/v2/sources/source-resync-service";
+import { resolveConnectionScope } from "@/lib/v2/integrations/integration-config";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+
+const discover = vi.fn();
+
+vi.mock("@/lib/v2/sources/adapters", () => ({
+  getAdapter: () => ({ discover }),
+}));
+
+const { prismaMock } = getTestMocks();
+
+describe("sync schedules", () => {
+  it("codex: rejects expressions that are not 5-field cron", () => {
+    expect(validateSyncSchedule("0 */6 * * *")).toBeNull();
+    expect(validateSyncSchedule("every hour")).toMatch(/5-field/);
+    expect(validateSyncSchedule("61 * * * *")).not.toBeNull();
+  });
+
+  it("codex: is due once the schedule fires after the last sync", () => {
+    const lastSyncAt = new Date("2026-03-01T05:30:00Z");
+
+    expect(isResyncDue("0 6 * * *", lastSyncAt, new Date("2026-03-01T05:59:00Z"))).toBe(false);
+    expect(isResyncDue("0 6 * * *", lastSyncAt, new Date("2026-03-01T06:00:00Z"))).toBe(true);
+    expect(isResyncDue("0 6 * * *", null)).toBe(true);
+  });
+});
+
+describe("resolveConnectionScope", () => {
+  it("codex: maps connection names back to their library or customer", () => {
+    expect(resolveConnectionScope("confluence", "IT Confluence")).toEqual({ libraryId: "it" });
+    expect(resolveConnectionScope("gong", "Customer cus_1 Gong")).toEqual({
+      libraryId: "customers",
+      customerId: "cus_1",
+    });
+    expect(resolveConnectionScope("slack", "Anything", { libraryId: "gtm" })).toEqual({ libraryId: "gtm" });
+    expect(resolveConnectionScope("slack", "Unrelated name")).toBeNull();
+  });
+});
+
+describe("resyncConnection", () => {
+  const findFirst = vi.fn();
+  const stagedUpdate = vi.fn();
+  const findMany = vi.fn();
+  const updateMany = vi.fn();
+  const connectionUpdate = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.integrationConnection = {
+      findUnique: vi.fn().mockResolvedValue({
+        id: "conn_1",
+        integrationType: "confluence",
+        name: "Knowledge Confluence",
+        config: {},
+      }),
+      update: connectionUpdate,
+    };
+    prismaMock.stagedSource = { findFirst, update: stagedUpdate };
+    prismaMock.sourceAssignment = { findMany, updateMany };
+  });
+
+  it("codex: updates changed sources and flags the skills that used them", async () => {
+    discover.mockResolvedValue([
+      { externalId: "1", title: "Same", content: "unchanged body", metadata: {} },
+      { externalId: "2", title: "Edited", content: "new body", metadata: { contentVersion: "3" } },
+      { externalId: "3", title: "Brand new", content: "fresh", metadata: {} },
+    ]);
+    findFirst.mockImplementation(({ where }: { where: { externalId: string } }) => {
+      if (where.externalId === "1") return { id: "s1", content: "unchanged body", metadata: {} };
+      if (where.externalId === "2") return { id: "s2", content: "old body", metadata: { pageId: "2" } };
+      return null;
+    });
+    findMany.mockResolvedValue([{ blockId: "skill_a" }, { blockId: "skill_b" }]);
+
+    const since = new Date("2026-03-01T00:00:00Z");
+    const result = await resyncConnection("conn_1", since);
+
+    expect(discover.mock.calls[0][0]).toMatchObject({ connectionId: "conn_1", libraryId: "knowledge", since });
+    expect(result).toMatchObject({ discovered: 3, changed: 1, unchanged: 1, newSources: 1, skillsFlagged: 2 });
+
+    const { where, data } = stagedUpdate.mock.calls[0][0];
+    expect(where).toEqual({ id: "s2" });
+    expect(data.content).toBe("new body");
+    expect(data.metadata).toMatchObject({ pageId: "2", contentVersion: "3", contentHash: hashContent("new body") });
+
+    expect(updateMany.mock.calls[0][0].where).toEqual({ stagedSourceId: "s2", incorporatedAt: { not: null } });
+    expect(updateMany.mock.calls[0][0].data.sourceChangedAt).toBeInstanceOf(Date);
+  });
+
+  it("codex: records the error on the connection when discovery fails", async () => {
+    discover.mockRejectedValue(new Error("HTTP 401"));
+
+    await expect(resyncConnection("conn_1")).rejects.toThrow("HTTP 401");
+    expect(connectionUpdate).toHaveBeenCalledWith({ where: { id: "conn_1" }, data: { lastError: "HTTP 401" } });
+  });
+});
@@ -0,0 +1,107 @@
+// codex: unit tests for SSE helpers and streamed LLM answers
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { answerQuestionWithPrompt } from "@/lib/llm";
+import { createMockProvider } from "@/lib/llm/providers";
+import { createSSEResponse, encodeSSE, readSSEStream, type SSEMessage } from "@/lib/sse";
+import { createJsonFieldStreamer } from "@/lib/v2/questions/response-streamer";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+
+const { prismaMock } = getTestMocks();
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<SSEMessage[]> {
+  const messages: SSEMessage[] = [];
+  await readSSEStream(body, (message) => messages.push(message));
+  return messages;
+}
+
+describe("SSE helpers", () => {
+  it("codex: round-trips events, including multi-line data", async () => {
+    const response = createSSEResponse(async (send) => {
+      send("text", { delta: "Hello" });
+      send("note", "line one\nline two");
+      send("done", { ok: true });
+    });
+
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+    expect(await collect(response.body!)).toEqual([
+      { event: "text", data: '{"delta":"Hello"}' },
+      { event: "note", data: "line one\nline two" },
+      { event: "done", data: '{"ok":true}' },
+    ]);
+  });
+
+  it("codex: reassembles events split across chunks", async () => {
+    const raw = encodeSSE("text", { delta: "a" }) + "data: [DONE]\n\n";
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(raw.slice(0, 7)));
+        controller.enqueue(encoder.encode(raw.slice(7)));
+        controller.close();
+      },
+    });
+
+    expect(await collect(body)).toEqual([
+      { event: "text", data: '{"delta":"a"}' },
+      { event: "message", data: "[DONE]" },
+    ]);
+  });
+});
+
+describe("createJsonFieldStreamer", () => {
+  it("codex: forwards only the decoded field content", () => {
+    const deltas: string[] = [];
+    const push = createJsonFieldStreamer("response", (delta) => deltas.push(delta));
+
+    for (const chunk of ['{"resp', 'onse": "Yes, \\"S', "SO\\\" is", ' supported\\n\\u00e9", ', '"confidence": "High"}']) {
+      push(chunk);
+    }
+
+    expect(deltas.join("")).toBe('Yes, "SSO" is supported\né');
+  });
+});
+
+describe("answerQuestionWithPrompt streaming", () => {
+  const create = vi.fn();
+
+  beforeEach(() => {
+    create.mockReset();
+    create.mockResolvedValue({ traceId: "trace_1" });
+    prismaMock.lLMTrace = { create };
+  });
+
+  it("codex: streams deltas that add up to the answer", async () => {
+    const provider = createMockProvider(() => "A streamed answer that spans several chunks.");
+    const deltas: string[] = [];
+
+    const result = await answerQuestionWithPrompt("Q?", "", [], undefined, "fast", undefined, provider, {
+      onText: (delta) => deltas.push(delta),
+    });
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe(result.answer);
+    expect(result.aborted).toBeUndefined();
+  });
+
+  it("codex: traces the partial answer when the client aborts", async () => {
+    const provider = createMockProvider(() => "x".repeat(64));
+    const controller = new AbortController();
+    let received = "";
+
+    const result = await answerQuestionWithPrompt("Q?", "", [], undefined, "fast", undefined, provider, {
+      signal: controller.signal,
+      onText: (delta) => {
+        received += delta;
+        controller.abort();
+      },
+    });
+
+    expect(result.aborted).toBe(true);
+    expect(result.answer).toBe(received);
+    const { data } = create.mock.calls[0][0];
+    expect(data.status).toBe("ERROR");
+    expect(data.context.response).toBe(received);
+  });
+});
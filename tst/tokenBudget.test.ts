@@ -0,0 +1,103 @@
+// codex: unit tests for team token budget enforcement
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  checkTokenBudget,
+  evaluateBudget,
+  getBudgetPeriod,
+  getNewAlertThresholds,
+  TokenBudgetExceededError,
+} from "@/lib/v2/teams/token-budget-service";
+import { getTestMocks } from "./testUtils";
+
+vi.mock("@prisma/client", () => ({ Prisma: {} }));
+
+const { prismaMock } = getTestMocks();
+
+const findUnique = vi.fn();
+const update = vi.fn();
+const findFirst = vi.fn();
+
+function team(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "team_1",
+    name: "Sales Engineering",
+    monthlyTokenLimit: 100_000,
+    currentMonthTokens: 50_000,
+    settings: { tokenBudget: { period: getBudgetPeriod() } },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  findUnique.mockReset();
+  update.mockReset();
+  update.mockResolvedValue({});
+  findFirst.mockReset();
+  prismaMock.team = { findUnique, update };
+  prismaMock.teamMembership = { findFirst };
+});
+
+describe("getBudgetPeriod", () => {
+  it("codex: keys periods by UTC month", () => {
+    expect(getBudgetPeriod(new Date("2026-03-31T23:59:59Z"))).toBe("2026-03");
+  });
+});
+
+describe("evaluateBudget", () => {
+  const status = { limit: 1000, used: 900, enforcement: "hard" as const, overrideActive: false };
+
+  it("codex: allows calls that fit the remaining budget", () => {
+    expect(evaluateBudget(status, 100)).toBe("within_budget");
+    expect(evaluateBudget({ ...status, limit: null }, 1_000_000)).toBe("unlimited");
+  });
+
+  it("codex: distinguishes hard, soft and overridden limits", () => {
+    expect(evaluateBudget(status, 101)).toBe("hard_limit_exceeded");
+    expect(evaluateBudget({ ...status, enforcement: "soft" }, 101)).toBe("soft_limit_exceeded");
+    expect(evaluateBudget({ ...status, overrideActive: true }, 101)).toBe("overridden");
+  });
+});
+
+describe("getNewAlertThresholds", () => {
+  it("codex: reports each threshold once per period", () => {
+    expect(getNewAlertThresholds(79, 100)).toEqual([]);
+    expect(getNewAlertThresholds(85, 100)).toEqual([80]);
+    expect(getNewAlertThresholds(120, 100, [80])).toEqual([100]);
+    expect(getNewAlertThresholds(120, null)).toEqual([]);
+  });
+});
+
+describe("checkTokenBudget", () => {
+  it("codex: skips calls not made for a user or team", async () => {
+    await expect(checkTokenBudget({}, 10_000)).resolves.toBeNull();
+    expect(findUnique).not.toHaveBeenCalled();
+  });
+
+  it("codex: charges the user's team and throws on a hard limit", async () => {
+    findFirst.mockResolvedValue({ teamId: "team_1" });
+    findUnique.mockResolvedValue(team({ currentMonthTokens: 95_000 }));
+
+    const error = await checkTokenBudget({ userId: "user_1" }, 10_000).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TokenBudgetExceededError);
+    expect(error.teamId).toBe("team_1");
+    expect(error.message).not.toMatch(/token/i);
+  });
+
+  it("codex: allows soft limits and resets a stale period first", async () => {
+    findUnique.mockResolvedValue(
+      team({
+        currentMonthTokens: 150_000,
+        settings: { tokenBudget: { enforcement: "soft", period: "2020-01", alertedThresholds: [80, 100] } },
+      })
+    );
+
+    const result = await checkTokenBudget({ teamId: "team_1" }, 10_000);
+
+    expect(result?.decision).toBe("within_budget");
+    expect(result?.status.used).toBe(0);
+    const { data } = update.mock.calls[0][0];
+    expect(data.currentMonthTokens).toBe(0);
+    expect(data.settings.tokenBudget).toMatchObject({ period: getBudgetPeriod(), alertedThresholds: [] });
+  });
+});